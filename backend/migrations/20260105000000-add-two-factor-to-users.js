@@ -0,0 +1,30 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('users', 'two_factor_enabled', {
+      type: Sequelize.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    });
+
+    await queryInterface.addColumn('users', 'two_factor_secret', {
+      type: Sequelize.STRING(64),
+      allowNull: true,
+      comment: 'Base32 TOTP secret (pending until two_factor_enabled is true)',
+    });
+
+    await queryInterface.addColumn('users', 'two_factor_backup_codes', {
+      type: Sequelize.JSON,
+      allowNull: true,
+      comment: 'SHA-256 hashes of unused recovery codes',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('users', 'two_factor_backup_codes');
+    await queryInterface.removeColumn('users', 'two_factor_secret');
+    await queryInterface.removeColumn('users', 'two_factor_enabled');
+  },
+};
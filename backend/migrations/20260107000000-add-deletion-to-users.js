@@ -0,0 +1,23 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('users', 'deleted_at', {
+      type: Sequelize.DATE,
+      allowNull: true,
+      comment: 'Set when the user deletes their account (pending purge)',
+    });
+
+    await queryInterface.addColumn('users', 'purge_after', {
+      type: Sequelize.DATE,
+      allowNull: true,
+      comment: 'End of the grace period; the account is purged after this',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('users', 'purge_after');
+    await queryInterface.removeColumn('users', 'deleted_at');
+  },
+};
@@ -0,0 +1,59 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('notification_preferences', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        unique: true,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE',
+      },
+      channels: {
+        type: Sequelize.JSON,
+        allowNull: true,
+        comment: 'Map of notification type -> { inApp, email, webhook }',
+      },
+      email: {
+        type: Sequelize.STRING(100),
+        allowNull: true,
+        comment: 'Delivery address; falls back to the account email',
+      },
+      webhook_url: {
+        type: Sequelize.STRING(500),
+        allowNull: true,
+      },
+      webhook_secret: {
+        type: Sequelize.STRING(128),
+        allowNull: true,
+        comment: 'Used to sign webhook payloads (HMAC-SHA256)',
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP'),
+      },
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('notification_preferences');
+  },
+};
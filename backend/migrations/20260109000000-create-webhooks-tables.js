@@ -0,0 +1,161 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('webhooks', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE',
+      },
+      device_id: {
+        type: Sequelize.STRING(100),
+        allowNull: false,
+      },
+      url: {
+        type: Sequelize.STRING(500),
+        allowNull: false,
+      },
+      secret: {
+        type: Sequelize.STRING(128),
+        allowNull: false,
+        comment: 'HMAC-SHA256 signing secret',
+      },
+      events: {
+        type: Sequelize.JSON,
+        allowNull: false,
+        comment: "Subscribed event names, e.g. ['message.received']",
+      },
+      description: {
+        type: Sequelize.STRING(255),
+        allowNull: true,
+      },
+      is_active: {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+      },
+      last_delivery_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      last_delivery_status: {
+        type: Sequelize.ENUM('success', 'failed'),
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP'),
+      },
+    });
+
+    await queryInterface.addIndex('webhooks', ['device_id'], {
+      name: 'idx_webhooks_device_id',
+    });
+    await queryInterface.addIndex('webhooks', ['user_id'], {
+      name: 'idx_webhooks_user_id',
+    });
+
+    await queryInterface.createTable('webhook_deliveries', {
+      id: {
+        type: Sequelize.UUID,
+        primaryKey: true,
+        allowNull: false,
+      },
+      webhook_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'webhooks',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE',
+      },
+      event: {
+        type: Sequelize.STRING(50),
+        allowNull: false,
+      },
+      payload: {
+        type: Sequelize.JSON,
+        allowNull: false,
+      },
+      status: {
+        type: Sequelize.ENUM('pending', 'success', 'failed'),
+        allowNull: false,
+        defaultValue: 'pending',
+        comment: 'pending = waiting for (re)try, failed = gave up',
+      },
+      attempts: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      next_attempt_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      response_status: {
+        type: Sequelize.INTEGER,
+        allowNull: true,
+      },
+      response_body: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+        comment: 'First 1000 characters of the response',
+      },
+      error: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      duration_ms: {
+        type: Sequelize.INTEGER,
+        allowNull: true,
+      },
+      delivered_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP'),
+      },
+    });
+
+    await queryInterface.addIndex('webhook_deliveries', ['webhook_id', 'created_at'], {
+      name: 'idx_webhook_deliveries_webhook',
+    });
+    await queryInterface.addIndex('webhook_deliveries', ['status', 'next_attempt_at'], {
+      name: 'idx_webhook_deliveries_due',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('webhook_deliveries');
+    await queryInterface.dropTable('webhooks');
+  },
+};
@@ -0,0 +1,84 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('api_keys', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE',
+      },
+      name: {
+        type: Sequelize.STRING(100),
+        allowNull: false,
+      },
+      key_prefix: {
+        type: Sequelize.STRING(16),
+        allowNull: false,
+        comment: 'First characters of the key, shown to identify it',
+      },
+      key_hash: {
+        type: Sequelize.STRING(64),
+        allowNull: false,
+        unique: true,
+      },
+      scopes: {
+        type: Sequelize.JSON,
+        allowNull: false,
+        comment: 'Subset of: send, read-history, manage-contacts',
+      },
+      device_ids: {
+        type: Sequelize.JSON,
+        allowNull: true,
+        comment: "Devices the key may use; null = all of the owner's devices",
+      },
+      expires_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      last_used_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      last_used_ip: {
+        type: Sequelize.STRING(45),
+        allowNull: true,
+      },
+      revoked_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP'),
+      },
+    });
+
+    // Add indexes
+    await queryInterface.addIndex('api_keys', ['user_id'], {
+      name: 'idx_api_keys_user_id',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('api_keys');
+  },
+};
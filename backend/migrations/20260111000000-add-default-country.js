@@ -0,0 +1,24 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('users', 'default_country', {
+      type: Sequelize.STRING(2),
+      allowNull: false,
+      defaultValue: 'ID',
+      comment: 'ISO 3166-1 alpha-2 country for phone numbers without a calling code',
+    });
+
+    await queryInterface.addColumn('whatsapp_sessions', 'default_country', {
+      type: Sequelize.STRING(2),
+      allowNull: true,
+      comment: "Overrides the owner's default country for phone numbers; null = use the owner's",
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('whatsapp_sessions', 'default_country');
+    await queryInterface.removeColumn('users', 'default_country');
+  },
+};
@@ -0,0 +1,16 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('contacts', 'custom_fields', {
+      type: Sequelize.JSON,
+      allowNull: true,
+      comment: 'Free-form key/value pairs, e.g. from contact import',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('contacts', 'custom_fields');
+  },
+};
@@ -0,0 +1,92 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('audience_segments', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE',
+      },
+      name: {
+        type: Sequelize.STRING(100),
+        allowNull: false,
+      },
+      description: {
+        type: Sequelize.STRING(255),
+        allowNull: true,
+      },
+      rules: {
+        type: Sequelize.JSON,
+        allowNull: false,
+        comment: 'See segmentService.normalizeRules for the shape',
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP'),
+      },
+    });
+
+    await queryInterface.addIndex('audience_segments', ['user_id', 'name'], {
+      name: 'idx_audience_segments_user_name',
+      unique: true,
+    });
+
+    // Segment jobs render the message per contact when the job is created
+    await queryInterface.addColumn('job_items', 'message', {
+      type: Sequelize.TEXT,
+      allowNull: true,
+      comment: 'Rendered text for this recipient; null = use the job payload',
+    });
+
+    // Scheduled messages can target a segment instead of a single number
+    await queryInterface.changeColumn('scheduled_messages', 'target_number', {
+      type: Sequelize.STRING(20),
+      allowNull: true,
+    });
+    await queryInterface.addColumn('scheduled_messages', 'segment_id', {
+      type: Sequelize.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'audience_segments',
+        key: 'id',
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'SET NULL',
+    });
+    await queryInterface.addColumn('scheduled_messages', 'job_id', {
+      type: Sequelize.UUID,
+      allowNull: true,
+      comment: 'Job created when a segment message was executed',
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeColumn('scheduled_messages', 'job_id');
+    await queryInterface.removeColumn('scheduled_messages', 'segment_id');
+    await queryInterface.changeColumn('scheduled_messages', 'target_number', {
+      type: Sequelize.STRING(20),
+      allowNull: false,
+    });
+    await queryInterface.removeColumn('job_items', 'message');
+    await queryInterface.dropTable('audience_segments');
+  },
+};
@@ -0,0 +1,131 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('suppressions', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE',
+      },
+      phone_number: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        comment: 'E.164 digits, same form as contacts.phone_number',
+      },
+      source: {
+        type: Sequelize.ENUM('keyword', 'manual', 'import'),
+        allowNull: false,
+        defaultValue: 'manual',
+      },
+      device_id: {
+        type: Sequelize.STRING(100),
+        allowNull: true,
+        comment: 'Device the opt-out keyword was received on',
+      },
+      keyword: {
+        type: Sequelize.STRING(50),
+        allowNull: true,
+      },
+      reason: {
+        type: Sequelize.STRING(255),
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP'),
+      },
+    });
+
+    await queryInterface.addIndex('suppressions', ['user_id', 'phone_number'], {
+      name: 'idx_suppressions_user_phone',
+      unique: true,
+    });
+
+    await queryInterface.addColumn('contacts', 'opted_in_at', {
+      type: Sequelize.DATE,
+      allowNull: true,
+      comment: 'When the contact agreed to receive messages; cleared on opt-out',
+    });
+
+    // Items for suppressed recipients are skipped instead of sent
+    await queryInterface.changeColumn('job_items', 'status', {
+      type: Sequelize.ENUM('pending', 'sent', 'failed', 'skipped'),
+      allowNull: false,
+      defaultValue: 'pending',
+    });
+
+    await queryInterface.addColumn('device_bot_configs', 'opt_out_keywords', {
+      type: Sequelize.JSON,
+      allowNull: true,
+      comment: 'Keywords that add the sender to the suppression list (always active)',
+    });
+    await queryInterface.addColumn('device_bot_configs', 'opt_in_keywords', {
+      type: Sequelize.JSON,
+      allowNull: true,
+      comment: 'Keywords that remove the sender from the suppression list',
+    });
+    await queryInterface.addColumn('device_bot_configs', 'opt_out_message', {
+      type: Sequelize.TEXT,
+      allowNull: true,
+      comment: 'Confirmation sent after an opt-out keyword',
+    });
+    await queryInterface.addColumn('device_bot_configs', 'opt_in_message', {
+      type: Sequelize.TEXT,
+      allowNull: true,
+      comment: 'Confirmation sent after an opt-in keyword',
+    });
+
+    // MySQL JSON columns cannot have a literal default; backfill existing rows
+    await queryInterface.sequelize.query(
+      `UPDATE device_bot_configs
+       SET opt_out_keywords = '["stop","berhenti","unsubscribe"]',
+           opt_in_keywords = '["start","langganan"]',
+           opt_out_message = 'Anda tidak akan menerima pesan dari kami lagi. Balas START untuk berlangganan kembali.',
+           opt_in_message = 'Terima kasih, Anda akan kembali menerima pesan dari kami.'`
+    );
+    await queryInterface.changeColumn('device_bot_configs', 'opt_out_keywords', {
+      type: Sequelize.JSON,
+      allowNull: false,
+    });
+    await queryInterface.changeColumn('device_bot_configs', 'opt_in_keywords', {
+      type: Sequelize.JSON,
+      allowNull: false,
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeColumn('device_bot_configs', 'opt_in_message');
+    await queryInterface.removeColumn('device_bot_configs', 'opt_out_message');
+    await queryInterface.removeColumn('device_bot_configs', 'opt_in_keywords');
+    await queryInterface.removeColumn('device_bot_configs', 'opt_out_keywords');
+    await queryInterface.sequelize.query(
+      "UPDATE job_items SET status = 'failed', error = 'Recipient opted out' WHERE status = 'skipped'"
+    );
+    await queryInterface.changeColumn('job_items', 'status', {
+      type: Sequelize.ENUM('pending', 'sent', 'failed'),
+      allowNull: false,
+      defaultValue: 'pending',
+    });
+    await queryInterface.removeColumn('contacts', 'opted_in_at');
+    await queryInterface.dropTable('suppressions');
+  },
+};
@@ -0,0 +1,84 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('campaigns', {
+      id: {
+        type: Sequelize.UUID,
+        primaryKey: true,
+        allowNull: false,
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE',
+      },
+      device_id: {
+        type: Sequelize.STRING(100),
+        allowNull: false,
+      },
+      name: {
+        type: Sequelize.STRING(100),
+        allowNull: false,
+      },
+      variants: {
+        type: Sequelize.JSON,
+        allowNull: false,
+        comment: "[{ key: 'A', message }] - message may contain {{variables}}",
+      },
+      audience: {
+        type: Sequelize.JSON,
+        allowNull: false,
+        comment: "{ type: 'segment', segmentId, segmentName } or { type: 'numbers', count }",
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP'),
+      },
+    });
+
+    await queryInterface.addIndex('campaigns', ['user_id']);
+    await queryInterface.addIndex('campaigns', ['created_at']);
+
+    await queryInterface.addColumn('jobs', 'campaign_id', {
+      type: Sequelize.UUID,
+      allowNull: true,
+      references: {
+        model: 'campaigns',
+        key: 'id',
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'SET NULL',
+    });
+    await queryInterface.addIndex('jobs', ['campaign_id']);
+
+    await queryInterface.addColumn('job_items', 'variant', {
+      type: Sequelize.STRING(1),
+      allowNull: true,
+      comment: 'Campaign variant (A-D) sent to this recipient',
+    });
+
+    // Campaign results join job items to their outgoing message by WhatsApp ID
+    await queryInterface.addIndex('messages', ['message_id']);
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeIndex('messages', ['message_id']);
+    await queryInterface.removeColumn('job_items', 'variant');
+    await queryInterface.removeIndex('jobs', ['campaign_id']);
+    await queryInterface.removeColumn('jobs', 'campaign_id');
+    await queryInterface.dropTable('campaigns');
+  },
+};
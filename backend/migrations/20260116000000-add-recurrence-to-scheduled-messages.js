@@ -0,0 +1,39 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('scheduled_messages', 'recurrence', {
+      type: Sequelize.JSON,
+      allowNull: true,
+      comment: 'Repeat rule { freq, interval, byWeekday, monthDay, until, count }; null = send once',
+    });
+    await queryInterface.addColumn('scheduled_messages', 'series_start', {
+      type: Sequelize.DATE,
+      allowNull: true,
+      comment: 'Requested first run of a recurring message; anchors its time of day',
+    });
+    await queryInterface.addColumn('scheduled_messages', 'occurrence_time', {
+      type: Sequelize.DATE,
+      allowNull: true,
+      comment: 'Original time of the next occurrence that has not run yet (may be skipped)',
+    });
+    await queryInterface.addColumn('scheduled_messages', 'exceptions', {
+      type: Sequelize.JSON,
+      allowNull: true,
+      comment: 'Per-occurrence changes keyed by original ISO time: { skip } or { message, scheduleTime }',
+    });
+    await queryInterface.addColumn('scheduled_messages', 'last_run_at', {
+      type: Sequelize.DATE,
+      allowNull: true,
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeColumn('scheduled_messages', 'last_run_at');
+    await queryInterface.removeColumn('scheduled_messages', 'exceptions');
+    await queryInterface.removeColumn('scheduled_messages', 'occurrence_time');
+    await queryInterface.removeColumn('scheduled_messages', 'series_start');
+    await queryInterface.removeColumn('scheduled_messages', 'recurrence');
+  },
+};
@@ -0,0 +1,78 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('scheduled_messages', 'missed_run_policy', {
+      type: Sequelize.ENUM('send_late', 'skip', 'notify'),
+      allowNull: false,
+      defaultValue: 'send_late',
+      comment: 'What to do when a run is picked up long after its time (e.g. after downtime)',
+    });
+    await queryInterface.addColumn('scheduled_messages', 'locked_by', {
+      type: Sequelize.STRING(100),
+      allowNull: true,
+      comment: 'Server instance that has claimed the due run',
+    });
+    await queryInterface.addColumn('scheduled_messages', 'locked_until', {
+      type: Sequelize.DATE,
+      allowNull: true,
+      comment: 'Claim lease; extended by heartbeat while the run is in progress',
+    });
+    // The scheduler polls pending messages by due time
+    await queryInterface.addIndex('scheduled_messages', ['status', 'schedule_time']);
+
+    await queryInterface.createTable('scheduled_message_events', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      scheduled_message_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'scheduled_messages',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE',
+      },
+      event: {
+        type: Sequelize.STRING(30),
+        allowNull: false,
+        comment: 'scheduled, sent, failed, missed, skipped, edited, restored, cancelled or completed',
+      },
+      occurrence_time: {
+        type: Sequelize.DATE,
+        allowNull: true,
+        comment: 'Occurrence of a recurring message the event is about',
+      },
+      detail: {
+        type: Sequelize.STRING(255),
+        allowNull: true,
+      },
+      instance_id: {
+        type: Sequelize.STRING(100),
+        allowNull: true,
+        comment: 'Server instance that ran the occurrence',
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+    });
+
+    await queryInterface.addIndex('scheduled_message_events', ['scheduled_message_id', 'created_at']);
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('scheduled_message_events');
+    await queryInterface.removeIndex('scheduled_messages', ['status', 'schedule_time']);
+    await queryInterface.removeColumn('scheduled_messages', 'locked_until');
+    await queryInterface.removeColumn('scheduled_messages', 'locked_by');
+    await queryInterface.removeColumn('scheduled_messages', 'missed_run_policy');
+  },
+};
@@ -0,0 +1,49 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('scheduled_messages', 'group_id', {
+      type: Sequelize.STRING(100),
+      allowNull: true,
+      comment: 'Group JID when the message targets a group',
+    });
+    await queryInterface.addColumn('scheduled_messages', 'group_name', {
+      type: Sequelize.STRING(255),
+      allowNull: true,
+      comment: 'Group subject when scheduled, for display',
+    });
+    await queryInterface.addColumn('scheduled_messages', 'mentions', {
+      type: Sequelize.JSON,
+      allowNull: true,
+      comment: 'JIDs mentioned in a group text message',
+    });
+    await queryInterface.addColumn('scheduled_messages', 'media_type', {
+      type: Sequelize.ENUM('image', 'video', 'document'),
+      allowNull: true,
+    });
+    await queryInterface.addColumn('scheduled_messages', 'media_path', {
+      type: Sequelize.STRING(500),
+      allowNull: true,
+      comment: 'Uploaded file; cleared when the retention period after the last run ends',
+    });
+    await queryInterface.addColumn('scheduled_messages', 'media_file_name', {
+      type: Sequelize.STRING(255),
+      allowNull: true,
+    });
+    await queryInterface.addColumn('scheduled_messages', 'media_mimetype', {
+      type: Sequelize.STRING(100),
+      allowNull: true,
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('scheduled_messages', 'media_mimetype');
+    await queryInterface.removeColumn('scheduled_messages', 'media_file_name');
+    await queryInterface.removeColumn('scheduled_messages', 'media_path');
+    await queryInterface.removeColumn('scheduled_messages', 'media_type');
+    await queryInterface.removeColumn('scheduled_messages', 'mentions');
+    await queryInterface.removeColumn('scheduled_messages', 'group_name');
+    await queryInterface.removeColumn('scheduled_messages', 'group_id');
+  },
+};
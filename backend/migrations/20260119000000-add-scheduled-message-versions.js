@@ -0,0 +1,36 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Optimistic locking counter, bumped on every save
+    await queryInterface.addColumn('scheduled_messages', 'version', {
+      type: Sequelize.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    });
+
+    await queryInterface.addColumn('scheduled_message_events', 'user_id', {
+      type: Sequelize.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'SET NULL',
+      comment: 'User who made the change; null for events of the scheduler',
+    });
+    await queryInterface.addColumn('scheduled_message_events', 'changes', {
+      type: Sequelize.JSON,
+      allowNull: true,
+      comment: 'Edited fields as { field: { from, to } }',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('scheduled_message_events', 'changes');
+    await queryInterface.removeColumn('scheduled_message_events', 'user_id');
+    await queryInterface.removeColumn('scheduled_messages', 'version');
+  },
+};
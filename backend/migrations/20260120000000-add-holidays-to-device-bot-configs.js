@@ -0,0 +1,16 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('device_bot_configs', 'holidays', {
+      type: Sequelize.JSON,
+      allowNull: true,
+      comment: "Dates that replace the weekly hours [{date: '2025-12-25', name, windows: [], offHoursMessage}]",
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('device_bot_configs', 'holidays');
+  },
+};
@@ -0,0 +1,109 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('bot_flows', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      device_id: {
+        type: Sequelize.STRING(100),
+        allowNull: false,
+        comment: 'Device ID this flow belongs to',
+      },
+      name: {
+        type: Sequelize.STRING(100),
+        allowNull: false,
+      },
+      trigger: {
+        type: Sequelize.STRING(500),
+        allowNull: false,
+        comment: 'Keyword or pattern that starts the flow',
+      },
+      match_type: {
+        type: Sequelize.ENUM('exact', 'contains', 'startsWith', 'regex'),
+        allowNull: false,
+        defaultValue: 'exact',
+      },
+      priority: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      is_active: {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+      },
+      timeout_minutes: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        defaultValue: 30,
+        comment: 'Minutes without an answer after which the flow is reset',
+      },
+      start_step_id: {
+        type: Sequelize.STRING(50),
+        allowNull: false,
+      },
+      steps: {
+        type: Sequelize.JSON,
+        allowNull: false,
+        comment: 'Menu, question, message and end steps [{id, type, text, ...}]',
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP'),
+      },
+    });
+
+    await queryInterface.addIndex('bot_flows', ['device_id', 'is_active'], {
+      name: 'idx_bot_flows_device_active',
+    });
+
+    await queryInterface.changeColumn('bot_action_logs', 'action_type', {
+      type: Sequelize.ENUM(
+        'auto_reply',
+        'handoff_initiated',
+        'handoff_resumed',
+        'off_hours_reply',
+        'rate_limited',
+        'rule_matched',
+        'no_match',
+        'flow_started',
+        'flow_reply',
+        'flow_completed',
+        'flow_timeout'
+      ),
+      allowNull: false,
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.sequelize.query(
+      "UPDATE bot_action_logs SET action_type = 'auto_reply' WHERE action_type IN ('flow_started', 'flow_reply', 'flow_completed', 'flow_timeout')"
+    );
+    await queryInterface.changeColumn('bot_action_logs', 'action_type', {
+      type: Sequelize.ENUM(
+        'auto_reply',
+        'handoff_initiated',
+        'handoff_resumed',
+        'off_hours_reply',
+        'rate_limited',
+        'rule_matched',
+        'no_match'
+      ),
+      allowNull: false,
+    });
+    await queryInterface.dropTable('bot_flows');
+  },
+};
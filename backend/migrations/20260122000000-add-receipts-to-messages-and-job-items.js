@@ -0,0 +1,35 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('messages', 'delivered_at', {
+      type: Sequelize.DATE,
+      allowNull: true,
+      comment: 'First delivery receipt of an outgoing message',
+    });
+    await queryInterface.addColumn('messages', 'read_at', {
+      type: Sequelize.DATE,
+      allowNull: true,
+      comment: 'First read receipt of an outgoing message',
+    });
+    await queryInterface.addColumn('job_items', 'delivered_at', {
+      type: Sequelize.DATE,
+      allowNull: true,
+    });
+    await queryInterface.addColumn('job_items', 'read_at', {
+      type: Sequelize.DATE,
+      allowNull: true,
+    });
+    // Receipts find the job item by WhatsApp message ID
+    await queryInterface.addIndex('job_items', ['message_id']);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeIndex('job_items', ['message_id']);
+    await queryInterface.removeColumn('job_items', 'read_at');
+    await queryInterface.removeColumn('job_items', 'delivered_at');
+    await queryInterface.removeColumn('messages', 'read_at');
+    await queryInterface.removeColumn('messages', 'delivered_at');
+  },
+};
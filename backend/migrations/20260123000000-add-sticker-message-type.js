@@ -0,0 +1,23 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.changeColumn('messages', 'message_type', {
+      type: Sequelize.ENUM('text', 'image', 'document', 'audio', 'video', 'sticker'),
+      allowNull: false,
+      defaultValue: 'text',
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.sequelize.query(
+      "UPDATE messages SET message_type = 'image' WHERE message_type = 'sticker'"
+    );
+    await queryInterface.changeColumn('messages', 'message_type', {
+      type: Sequelize.ENUM('text', 'image', 'document', 'audio', 'video'),
+      allowNull: false,
+      defaultValue: 'text',
+    });
+  },
+};
@@ -0,0 +1,155 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('workspace_members', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      owner_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: { model: 'users', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+        comment: 'User whose devices the member works on',
+      },
+      member_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: { model: 'users', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP'),
+      },
+    });
+
+    await queryInterface.addIndex('workspace_members', ['owner_id', 'member_id'], {
+      name: 'idx_workspace_members_owner_member',
+      unique: true,
+    });
+    await queryInterface.addIndex('workspace_members', ['member_id'], {
+      name: 'idx_workspace_members_member',
+    });
+
+    await queryInterface.createTable('handoffs', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      device_id: {
+        type: Sequelize.STRING(100),
+        allowNull: false,
+      },
+      sender_jid: {
+        type: Sequelize.STRING(50),
+        allowNull: false,
+      },
+      status: {
+        type: Sequelize.ENUM('open', 'pending_customer', 'resolved'),
+        allowNull: false,
+        defaultValue: 'open',
+      },
+      reason: {
+        type: Sequelize.STRING(50),
+        allowNull: true,
+      },
+      assigned_to: {
+        type: Sequelize.INTEGER,
+        allowNull: true,
+        references: { model: 'users', key: 'id' },
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+      },
+      assigned_by: {
+        type: Sequelize.INTEGER,
+        allowNull: true,
+        references: { model: 'users', key: 'id' },
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+      },
+      assigned_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      resolved_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP'),
+      },
+    });
+
+    await queryInterface.addIndex('handoffs', ['device_id', 'sender_jid', 'status'], {
+      name: 'idx_handoffs_device_sender_status',
+    });
+    await queryInterface.addIndex('handoffs', ['assigned_to', 'status'], {
+      name: 'idx_handoffs_assignee_status',
+    });
+
+    await queryInterface.createTable('handoff_notes', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      handoff_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: { model: 'handoffs', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: true,
+        references: { model: 'users', key: 'id' },
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+      },
+      body: {
+        type: Sequelize.TEXT,
+        allowNull: false,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+    });
+
+    await queryInterface.addIndex('handoff_notes', ['handoff_id', 'created_at'], {
+      name: 'idx_handoff_notes_handoff_created',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('handoff_notes');
+    await queryInterface.dropTable('handoffs');
+    await queryInterface.dropTable('workspace_members');
+  },
+};
@@ -0,0 +1,64 @@
+'use strict';
+
+const BOT_ACTION_TYPES = [
+  'auto_reply',
+  'handoff_initiated',
+  'handoff_resumed',
+  'off_hours_reply',
+  'rate_limited',
+  'rule_matched',
+  'no_match',
+  'flow_started',
+  'flow_reply',
+  'flow_completed',
+  'flow_timeout',
+];
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('device_bot_configs', 'reject_calls', {
+      type: Sequelize.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+      comment: 'Whether incoming calls are rejected automatically',
+    });
+    await queryInterface.addColumn('device_bot_configs', 'call_reject_message', {
+      type: Sequelize.TEXT,
+      allowNull: true,
+      comment: 'Text sent to the caller after a rejected call (null = no reply)',
+    });
+
+    // Missed and rejected calls show up in the chat history
+    await queryInterface.changeColumn('messages', 'message_type', {
+      type: Sequelize.ENUM('text', 'image', 'document', 'audio', 'video', 'sticker', 'call'),
+      allowNull: false,
+      defaultValue: 'text',
+    });
+
+    await queryInterface.changeColumn('bot_action_logs', 'action_type', {
+      type: Sequelize.ENUM(...BOT_ACTION_TYPES, 'call_rejected', 'call_missed'),
+      allowNull: false,
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.sequelize.query(
+      "DELETE FROM bot_action_logs WHERE action_type IN ('call_rejected', 'call_missed')"
+    );
+    await queryInterface.changeColumn('bot_action_logs', 'action_type', {
+      type: Sequelize.ENUM(...BOT_ACTION_TYPES),
+      allowNull: false,
+    });
+
+    await queryInterface.sequelize.query("DELETE FROM messages WHERE message_type = 'call'");
+    await queryInterface.changeColumn('messages', 'message_type', {
+      type: Sequelize.ENUM('text', 'image', 'document', 'audio', 'video', 'sticker'),
+      allowNull: false,
+      defaultValue: 'text',
+    });
+
+    await queryInterface.removeColumn('device_bot_configs', 'call_reject_message');
+    await queryInterface.removeColumn('device_bot_configs', 'reject_calls');
+  },
+};
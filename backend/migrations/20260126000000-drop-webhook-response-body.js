@@ -0,0 +1,17 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface) {
+    // Response bodies exposed whatever the webhook URL answered with
+    await queryInterface.removeColumn('webhook_deliveries', 'response_body');
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.addColumn('webhook_deliveries', 'response_body', {
+      type: Sequelize.TEXT,
+      allowNull: true,
+      comment: 'First 1000 characters of the response',
+    });
+  },
+};
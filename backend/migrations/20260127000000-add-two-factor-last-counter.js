@@ -0,0 +1,16 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('users', 'two_factor_last_counter', {
+      type: Sequelize.INTEGER,
+      allowNull: true,
+      comment: 'TOTP time step of the last accepted code (replay protection)',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('users', 'two_factor_last_counter');
+  },
+};
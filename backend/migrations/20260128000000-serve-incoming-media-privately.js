@@ -0,0 +1,29 @@
+'use strict';
+
+/**
+ * Incoming media moved from the public uploads/incoming directory to
+ * INCOMING_MEDIA_PATH and is served by the authenticated media route.
+ * Move the files with `node scripts/move-incoming-media.js`.
+ */
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface) {
+    await queryInterface.sequelize.query(`
+      UPDATE messages m
+      JOIN whatsapp_sessions s ON s.id = m.session_id
+      SET m.media_url = CONCAT('/whatsapp-multi-device/devices/', s.device_id, '/media/', m.message_id)
+      WHERE m.direction = 'incoming' AND m.media_url LIKE '/uploads/incoming/%'
+    `);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.sequelize.query(`
+      UPDATE messages
+      SET media_url = CONCAT('/uploads/incoming/', JSON_UNQUOTE(JSON_EXTRACT(metadata, '$.media.storageKey')))
+      WHERE direction = 'incoming'
+        AND media_url LIKE '/whatsapp-multi-device/devices/%/media/%'
+        AND JSON_EXTRACT(metadata, '$.media.storageKey') IS NOT NULL
+    `);
+  },
+};
@@ -0,0 +1,55 @@
+'use strict';
+
+/**
+ * Workspace members are invited by email and only join once they accept.
+ * An invitation is a pending workspace_members row; member_id is set when
+ * it is accepted. Existing members stay active.
+ */
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('workspace_members', 'status', {
+      type: Sequelize.ENUM('pending', 'active'),
+      allowNull: false,
+      defaultValue: 'pending',
+    });
+    await queryInterface.addColumn('workspace_members', 'email', {
+      type: Sequelize.STRING(255),
+      allowNull: true,
+      comment: 'Email address the invitation was sent to',
+    });
+    await queryInterface.changeColumn('workspace_members', 'member_id', {
+      type: Sequelize.INTEGER,
+      allowNull: true,
+      references: { model: 'users', key: 'id' },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+      comment: 'Set when the invitation is accepted',
+    });
+
+    await queryInterface.sequelize.query(`
+      UPDATE workspace_members w
+      JOIN users u ON u.id = w.member_id
+      SET w.status = 'active', w.email = u.email
+    `);
+
+    await queryInterface.addIndex('workspace_members', ['email', 'status'], {
+      name: 'idx_workspace_members_email_status',
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.bulkDelete('workspace_members', { status: 'pending' });
+    await queryInterface.removeIndex('workspace_members', 'idx_workspace_members_email_status');
+    await queryInterface.changeColumn('workspace_members', 'member_id', {
+      type: Sequelize.INTEGER,
+      allowNull: false,
+      references: { model: 'users', key: 'id' },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    });
+    await queryInterface.removeColumn('workspace_members', 'email');
+    await queryInterface.removeColumn('workspace_members', 'status');
+  },
+};
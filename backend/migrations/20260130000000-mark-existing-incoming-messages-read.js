@@ -0,0 +1,22 @@
+'use strict';
+
+/**
+ * Incoming messages are tracked as unread until their chat is marked as
+ * read. Messages received before that were stored as "delivered" and would
+ * all show up as unread, so they are marked as read once.
+ */
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface) {
+    await queryInterface.sequelize.query(`
+      UPDATE messages
+      SET status = 'read'
+      WHERE direction = 'incoming' AND status <> 'read'
+    `);
+  },
+
+  async down() {
+    // Which messages were unread before is not recorded
+  },
+};
@@ -0,0 +1,89 @@
+/**
+ * Phone Number Consistency Check
+ *
+ * The backend (src/utils/phoneNumber.js) and the frontend
+ * (frontend/lib/phoneNumber.ts) parse phone numbers the same way so the UI
+ * reports exactly what the backend will send to. This script keeps them
+ * from drifting apart:
+ * 1. frontend/lib/phoneCountries.json must be identical to
+ *    src/utils/phoneCountries.json (the source of the country rules)
+ * 2. both implementations must give the results in phone-number-cases.json
+ *
+ * Usage:
+ * node scripts/check-phone-numbers.js          # check, exit code 1 on drift
+ * node scripts/check-phone-numbers.js --write  # copy the country rules to the frontend first
+ *
+ * Checking the frontend implementation needs the frontend dependencies
+ * (TypeScript) to be installed.
+ */
+
+const fs = require("fs");
+const path = require("path");
+const { FRONTEND_DIR, loadFrontendModule } = require("./frontendModule");
+
+const SOURCE_COUNTRIES = path.join(__dirname, "../src/utils/phoneCountries.json");
+const FRONTEND_COUNTRIES = path.join(FRONTEND_DIR, "lib/phoneCountries.json");
+const CASES = require("./phone-number-cases.json");
+
+/**
+ * Run every case against one implementation
+ * @returns {string[]} Failure descriptions
+ */
+function runCases(name, phoneNumber) {
+  const failures = [];
+
+  for (const { input, defaultCountry, expected } of CASES.parse) {
+    const parsed = phoneNumber.parsePhoneNumber(input, defaultCountry);
+    const actual = parsed && {
+      digits: parsed.digits,
+      country: parsed.country,
+      reinterpreted: parsed.reinterpreted,
+    };
+    if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+      failures.push(
+        `${name}: parsePhoneNumber(${JSON.stringify(input)}, ${defaultCountry || "default"}) ` +
+          `returned ${JSON.stringify(actual)}, expected ${JSON.stringify(expected)}`
+      );
+    }
+  }
+
+  for (const { phone, expected } of CASES.format) {
+    const actual = phoneNumber.formatPhoneNumber(phone);
+    if (actual !== expected) {
+      failures.push(
+        `${name}: formatPhoneNumber(${JSON.stringify(phone)}) returned ` +
+          `${JSON.stringify(actual)}, expected ${JSON.stringify(expected)}`
+      );
+    }
+  }
+
+  return failures;
+}
+
+function main() {
+  const failures = [];
+  const source = fs.readFileSync(SOURCE_COUNTRIES, "utf8");
+
+  if (process.argv.includes("--write")) {
+    fs.writeFileSync(FRONTEND_COUNTRIES, source);
+    console.log(`✅ Copied country rules to ${path.relative(process.cwd(), FRONTEND_COUNTRIES)}`);
+  } else if (fs.readFileSync(FRONTEND_COUNTRIES, "utf8") !== source) {
+    failures.push(
+      "frontend/lib/phoneCountries.json differs from src/utils/phoneCountries.json " +
+        "(run with --write to copy it)"
+    );
+  }
+
+  failures.push(...runCases("backend", require("../src/utils/phoneNumber")));
+  failures.push(...runCases("frontend", loadFrontendModule("lib/phoneNumber.ts")));
+
+  if (failures.length > 0) {
+    failures.forEach((failure) => console.error(`❌ ${failure}`));
+    process.exit(1);
+  }
+
+  const total = CASES.parse.length + CASES.format.length;
+  console.log(`✅ Backend and frontend agree on all ${total} phone number cases`);
+}
+
+main();
@@ -0,0 +1,164 @@
+/**
+ * Shared Constants Consistency Check
+ *
+ * Limits and rules the backend enforces and the frontend validates against
+ * (job sizes, upload types, business hours, bot flows, template variables,
+ * ...) come from src/utils/sharedConstants.json. This script keeps the
+ * frontend from drifting away from it:
+ * 1. frontend/lib/sharedConstants.json must be identical to
+ *    src/utils/sharedConstants.json
+ * 2. the frontend union types that list the same values (API key scopes,
+ *    notification types, custom field operators) must match the JSON
+ * 3. both template renderers must give the results in
+ *    template-variable-cases.json
+ *
+ * Usage:
+ * node scripts/check-shared-constants.js          # check, exit code 1 on drift
+ * node scripts/check-shared-constants.js --write  # copy the constants to the frontend first
+ *
+ * Checking the frontend needs the frontend dependencies (TypeScript) to be
+ * installed.
+ */
+
+const fs = require("fs");
+const path = require("path");
+const { FRONTEND_DIR, loadTypeScript, loadFrontendModule } = require("./frontendModule");
+
+const SOURCE_CONSTANTS = path.join(__dirname, "../src/utils/sharedConstants.json");
+const FRONTEND_CONSTANTS = path.join(FRONTEND_DIR, "lib/sharedConstants.json");
+const CASES = require("./template-variable-cases.json");
+const constants = require(SOURCE_CONSTANTS);
+
+// Frontend union types and the values they must cover. An open type may
+// list more values (e.g. client-only notification types).
+const UNION_TYPES = [
+  { file: "lib/authService.ts", type: "ApiKeyScope", values: constants.apiKeyScopes },
+  {
+    file: "lib/authService.ts",
+    type: "NotificationPreferenceType",
+    values: constants.notificationTypes,
+  },
+  {
+    file: "store/slices/notificationSlice.ts",
+    type: "NotificationType",
+    values: constants.notificationTypes,
+    open: true,
+  },
+  {
+    file: "lib/userService.ts",
+    type: "CustomFieldOperator",
+    values: constants.segments.customFieldOperators,
+  },
+];
+
+/**
+ * String literals of a `type Name = "a" | "b"` alias, or null if not found
+ */
+function readUnionType(ts, file, typeName) {
+  const filename = path.join(FRONTEND_DIR, file);
+  const source = ts.createSourceFile(filename, fs.readFileSync(filename, "utf8"), ts.ScriptTarget.Latest);
+
+  const alias = source.statements.find(
+    (statement) => ts.isTypeAliasDeclaration(statement) && statement.name.text === typeName
+  );
+  if (!alias) return null;
+
+  const members = ts.isUnionTypeNode(alias.type) ? alias.type.types : [alias.type];
+  return members
+    .filter((member) => ts.isLiteralTypeNode(member) && ts.isStringLiteral(member.literal))
+    .map((member) => member.literal.text);
+}
+
+/**
+ * Compare the frontend union types with the shared values
+ * @returns {string[]} Failure descriptions
+ */
+function checkUnionTypes() {
+  const ts = loadTypeScript();
+  const failures = [];
+
+  for (const { file, type, values, open } of UNION_TYPES) {
+    const members = readUnionType(ts, file, type);
+    if (!members) {
+      failures.push(`frontend/${file}: type ${type} not found`);
+      continue;
+    }
+
+    const missing = values.filter((value) => !members.includes(value));
+    const extra = open ? [] : members.filter((member) => !values.includes(member));
+    if (missing.length > 0 || extra.length > 0) {
+      failures.push(
+        `frontend/${file}: ${type} ` +
+          [
+            missing.length > 0 && `is missing ${missing.join(", ")}`,
+            extra.length > 0 && `has unknown ${extra.join(", ")}`,
+          ]
+            .filter(Boolean)
+            .join(" and ")
+      );
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * Run every template case against one implementation
+ * @returns {string[]} Failure descriptions
+ */
+function runCases(name, templateVariables) {
+  const failures = [];
+
+  for (const { content, expected } of CASES.extract) {
+    const actual = templateVariables.extractTemplateVariables(content);
+    if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+      failures.push(
+        `${name}: extractTemplateVariables(${JSON.stringify(content)}) returned ` +
+          `${JSON.stringify(actual)}, expected ${JSON.stringify(expected)}`
+      );
+    }
+  }
+
+  for (const { content, values, expected } of CASES.render) {
+    const actual = templateVariables.renderTemplate(content, values);
+    if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+      failures.push(
+        `${name}: renderTemplate(${JSON.stringify(content)}, ${JSON.stringify(values)}) ` +
+          `returned ${JSON.stringify(actual)}, expected ${JSON.stringify(expected)}`
+      );
+    }
+  }
+
+  return failures;
+}
+
+function main() {
+  const failures = [];
+  const source = fs.readFileSync(SOURCE_CONSTANTS, "utf8");
+
+  if (process.argv.includes("--write")) {
+    fs.writeFileSync(FRONTEND_CONSTANTS, source);
+    console.log(`✅ Copied shared constants to ${path.relative(process.cwd(), FRONTEND_CONSTANTS)}`);
+  } else if (fs.readFileSync(FRONTEND_CONSTANTS, "utf8") !== source) {
+    failures.push(
+      "frontend/lib/sharedConstants.json differs from src/utils/sharedConstants.json " +
+        "(run with --write to copy it)"
+    );
+  }
+
+  failures.push(...checkUnionTypes());
+  failures.push(...runCases("backend", require("../src/utils/templateVariables")));
+  failures.push(...runCases("frontend", loadFrontendModule("lib/templateVariables.ts")));
+
+  if (failures.length > 0) {
+    failures.forEach((failure) => console.error(`❌ ${failure}`));
+    process.exit(1);
+  }
+
+  const total = CASES.extract.length + CASES.render.length;
+  console.log(
+    `✅ Shared constants match; backend and frontend agree on all ${total} template cases`
+  );
+}
+
+main();
@@ -0,0 +1,48 @@
+/**
+ * Frontend Module Loader
+ *
+ * Lets the consistency check scripts run frontend TypeScript code next to
+ * the backend implementation. Needs the frontend dependencies (TypeScript)
+ * to be installed.
+ */
+
+const fs = require("fs");
+const path = require("path");
+const Module = require("module");
+
+const FRONTEND_DIR = path.join(__dirname, "../../frontend");
+
+/**
+ * The TypeScript compiler installed in the frontend
+ */
+function loadTypeScript() {
+  return require(require.resolve("typescript", { paths: [FRONTEND_DIR] }));
+}
+
+/**
+ * Load a frontend .ts file as a CommonJS module
+ * @param {string} file - Path relative to frontend/, e.g. "lib/phoneNumber.ts"
+ */
+function loadFrontendModule(file) {
+  const ts = loadTypeScript();
+  const filename = path.join(FRONTEND_DIR, file);
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, "utf8"), {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2019,
+      esModuleInterop: true,
+    },
+  });
+
+  const frontendModule = new Module(filename, module);
+  frontendModule.filename = filename;
+  frontendModule.paths = Module._nodeModulePaths(path.dirname(filename));
+  frontendModule._compile(outputText, filename);
+  return frontendModule.exports;
+}
+
+module.exports = {
+  FRONTEND_DIR,
+  loadTypeScript,
+  loadFrontendModule,
+};
@@ -0,0 +1,70 @@
+/**
+ * Incoming Media Move Script
+ *
+ * Moves stored media of incoming messages from the public
+ * UPLOAD_PATH/incoming directory to INCOMING_MEDIA_PATH, where it is only
+ * served by the authenticated media route. Files keep their storage key.
+ *
+ * Run this together with the 20260128000000-serve-incoming-media-privately
+ * database migration.
+ *
+ * Usage:
+ * node scripts/move-incoming-media.js
+ */
+
+require("dotenv").config();
+const path = require("path");
+const fs = require("fs");
+const logger = require("../src/utils/logger");
+
+const sourceDir = path.resolve(process.env.UPLOAD_PATH || "./uploads", "incoming");
+const targetDir = path.resolve(process.env.INCOMING_MEDIA_PATH || "./storage/incoming-media");
+
+/**
+ * Move every file below dir to the same relative path below targetDir
+ * @returns {Promise<number>} Number of files moved
+ */
+async function moveTree(dir) {
+  let moved = 0;
+
+  for (const entry of await fs.promises.readdir(dir, { withFileTypes: true })) {
+    const sourcePath = path.join(dir, entry.name);
+
+    if (entry.isDirectory()) {
+      moved += await moveTree(sourcePath);
+      await fs.promises.rmdir(sourcePath).catch(() => {});
+      continue;
+    }
+
+    const targetPath = path.join(targetDir, path.relative(sourceDir, sourcePath));
+    await fs.promises.mkdir(path.dirname(targetPath), { recursive: true });
+    await fs.promises.rename(sourcePath, targetPath).catch(async (error) => {
+      // Different file system: copy, then remove
+      if (error.code !== "EXDEV") throw error;
+      await fs.promises.copyFile(sourcePath, targetPath);
+      await fs.promises.unlink(sourcePath);
+    });
+    moved++;
+  }
+
+  return moved;
+}
+
+async function moveIncomingMedia() {
+  if (!fs.existsSync(sourceDir)) {
+    logger.info(`ℹ️ ${sourceDir} does not exist, nothing to move`);
+    return;
+  }
+
+  logger.info(`🚀 Moving incoming media from ${sourceDir} to ${targetDir}...`);
+  const moved = await moveTree(sourceDir);
+  await fs.promises.rmdir(sourceDir).catch(() => {});
+  logger.info(`✅ Moved ${moved} file(s)`);
+}
+
+moveIncomingMedia()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    logger.error("❌ Moving incoming media failed:", error);
+    process.exit(1);
+  });
@@ -16,6 +16,7 @@ const whatsappMultiDeviceRoutes = require("./routes/whatsappMultiDevice");
 const sseRoutes = require("./routes/sse");
 const adminRoutes = require("./routes/admin");
 const botRoutes = require("./routes/bot");
+const webhookRoutes = require("./routes/webhooks");
 
 const app = express();
 
@@ -65,6 +66,7 @@ app.use("/api/whatsapp-multi-device", whatsappMultiDeviceRoutes); // New multi-d
 app.use("/api/events", sseRoutes);
 app.use("/api/admin", adminRoutes); // Admin-only routes (requires admin role)
 app.use("/api/bot", botRoutes); // Bot auto-reply routes
+app.use("/api/webhooks", webhookRoutes); // Per-device outbound webhooks
 
 // Health check
 app.get("/api/health", (req, res) => {
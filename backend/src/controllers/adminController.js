@@ -3,6 +3,8 @@ const { Op } = require("sequelize");
 const logger = require("../utils/logger");
 const { logAction } = require("./auditController");
 const whatsappService = require("../services/whatsappService");
+const loginSessionService = require("../services/loginSessionService");
+const accountService = require("../services/accountService");
 
 
 /**
@@ -43,7 +45,10 @@ const listUsers = async (req, res) => {
         "fullName",
         "role",
         "isActive",
+        "twoFactorEnabled",
         "lastLogin",
+        "deletedAt",
+        "purgeAfter",
         "createdAt",
         "updatedAt",
       ],
@@ -117,7 +122,10 @@ const getUserDetails = async (req, res) => {
         "fullName",
         "role",
         "isActive",
+        "twoFactorEnabled",
         "lastLogin",
+        "deletedAt",
+        "purgeAfter",
         "createdAt",
         "updatedAt",
       ],
@@ -683,6 +691,11 @@ const updateUser = async (req, res) => {
     if (fullName) updateData.fullName = fullName;
     if (role) updateData.role = role;
     if (isActive !== undefined) updateData.isActive = isActive;
+    if (isActive && user.deletedAt) {
+      // Re-activating cancels a pending self-service deletion
+      updateData.deletedAt = null;
+      updateData.purgeAfter = null;
+    }
     if (password) updateData.password = password; // Will be hashed by model hook
 
     await user.update(updateData);
@@ -719,6 +732,191 @@ const updateUser = async (req, res) => {
   }
 };
 
+/**
+ * Reset a user's two-factor authentication (Admin only)
+ * POST /api/admin/users/:userId/2fa/reset
+ */
+const resetUserTwoFactor = async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    const user = await User.findByPk(userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: "User not found",
+      });
+    }
+
+    if (!user.twoFactorEnabled && !user.twoFactorSecret) {
+      return res.status(400).json({
+        success: false,
+        message: "Two-factor authentication is not enabled for this user",
+      });
+    }
+
+    await user.update({
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorBackupCodes: null,
+    });
+
+    logger.info(`Admin ${req.user.id} reset 2FA for user: ${user.email}`);
+
+    await logAction(
+      {
+        adminId: req.user.id,
+        action: "reset_user_2fa",
+        targetType: "user",
+        targetId: user.id,
+        details: { email: user.email },
+      },
+      req
+    );
+
+    res.json({
+      success: true,
+      message: "Two-factor authentication reset successfully",
+      data: {
+        user: user.toJSON(),
+      },
+    });
+  } catch (error) {
+    logger.error("Admin reset user 2FA error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to reset two-factor authentication",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * List a user's login sessions and history (Admin only)
+ * GET /api/admin/users/:userId/sessions
+ */
+const listUserSessions = async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    const user = await User.findByPk(userId, { attributes: ["id"] });
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: "User not found",
+      });
+    }
+
+    const sessions = await loginSessionService.listSessions(user.id, {
+      includeInactive: req.query.history !== "false",
+    });
+
+    res.json({
+      success: true,
+      data: { sessions },
+    });
+  } catch (error) {
+    logger.error("Admin list user sessions error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to list user sessions",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * Revoke one of a user's sessions (Admin only)
+ * DELETE /api/admin/users/:userId/sessions/:sessionId
+ */
+const revokeUserSession = async (req, res) => {
+  try {
+    const { userId, sessionId } = req.params;
+
+    const revoked = await loginSessionService.revokeSession(
+      parseInt(userId),
+      sessionId
+    );
+    if (!revoked) {
+      return res.status(404).json({
+        success: false,
+        message: "Session not found or already revoked",
+      });
+    }
+
+    logger.info(`Admin ${req.user.id} revoked session ${sessionId} of user ${userId}`);
+
+    await logAction(
+      {
+        adminId: req.user.id,
+        action: "revoke_user_session",
+        targetType: "user",
+        targetId: userId,
+        details: { sessionId },
+      },
+      req
+    );
+
+    res.json({
+      success: true,
+      message: "Session revoked",
+    });
+  } catch (error) {
+    logger.error("Admin revoke user session error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to revoke session",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * Sign a user out of every session (Admin only)
+ * POST /api/admin/users/:userId/sessions/revoke-all
+ */
+const revokeAllUserSessions = async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    const user = await User.findByPk(userId, { attributes: ["id", "email"] });
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: "User not found",
+      });
+    }
+
+    const count = await loginSessionService.revokeAllSessions(user.id);
+
+    logger.info(`Admin ${req.user.id} revoked all sessions (${count}) of user: ${user.email}`);
+
+    await logAction(
+      {
+        adminId: req.user.id,
+        action: "revoke_all_user_sessions",
+        targetType: "user",
+        targetId: user.id,
+        details: { email: user.email, revoked: count },
+      },
+      req
+    );
+
+    res.json({
+      success: true,
+      message: "All sessions revoked",
+      data: { revoked: count },
+    });
+  } catch (error) {
+    logger.error("Admin revoke all user sessions error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to revoke sessions",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+};
+
 /**
  * Delete user (Admin only)
  * DELETE /api/admin/users/:userId
@@ -786,6 +984,62 @@ const deleteUser = async (req, res) => {
   }
 };
 
+/**
+ * Restore an account that is pending deletion (Admin only)
+ * POST /api/admin/users/:userId/restore
+ */
+const restoreUser = async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    const user = await User.findByPk(userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: "User not found",
+      });
+    }
+
+    if (!user.deletedAt) {
+      return res.status(400).json({
+        success: false,
+        message: "User is not pending deletion",
+      });
+    }
+
+    const { deletedAt, purgeAfter } = user;
+    await accountService.restoreAccount(user);
+
+    logger.info(`Admin ${req.user.id} restored user: ${user.email}`);
+
+    await logAction(
+      {
+        adminId: req.user.id,
+        action: "restore_user",
+        targetType: "user",
+        targetId: user.id,
+        details: { email: user.email, deletedAt, purgeAfter },
+      },
+      req
+    );
+
+    res.json({
+      success: true,
+      message: "User restored successfully",
+      data: {
+        user: user.toJSON(),
+      },
+    });
+  } catch (error) {
+    logger.error("Admin restore user error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to restore user",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+};
+
 /**
  * List all groups (Admin only)
  * GET /api/admin/groups
@@ -1002,6 +1256,8 @@ const listJobs = async (req, res) => {
       jobs = jobs.slice(0, parseInt(limit));
     }
 
+    const receiptCounts = await jobQueueService.getReceiptCounts(jobs.map(job => job.id));
+
     // Enrich jobs with device info if available
     const enrichedJobs = await Promise.all(
       jobs.map(async (job) => {
@@ -1087,6 +1343,11 @@ const listJobs = async (req, res) => {
           jobData.progress = { total: total, completed: 0, failed: 0 };
         }
 
+        // Receipts are counted from job items, not kept in job.progress
+        const receipts = receiptCounts[jobData.id] || { delivered: 0, read: 0 };
+        jobData.progress.delivered = receipts.delivered;
+        jobData.progress.read = receipts.read;
+
         // Get device info if deviceId exists in job data
         if (jobData.data && jobData.data.deviceId) {
           try {
@@ -1138,7 +1399,7 @@ const getJobDetails = async (req, res) => {
     const { jobId } = req.params;
     const jobQueueService = require("../services/jobQueueService");
 
-    const job = jobQueueService.getJob(jobId);
+    const job = await jobQueueService.getJob(jobId);
 
     if (!job) {
       return res.status(404).json({
@@ -1148,7 +1409,7 @@ const getJobDetails = async (req, res) => {
     }
 
     // Convert Date objects to ISO strings
-    const jobData = { ...job };
+    const { items = [], ...jobData } = job.toJSON();
     if (jobData.createdAt instanceof Date) {
       jobData.createdAt = jobData.createdAt.toISOString();
     }
@@ -1159,6 +1420,23 @@ const getJobDetails = async (req, res) => {
       jobData.completedAt = jobData.completedAt.toISOString();
     }
 
+    // Same progress shape as the job list, with receipts counted from the items
+    let progressData = jobData.progress || {};
+    if (typeof progressData === 'string') {
+      try {
+        progressData = JSON.parse(progressData);
+      } catch (e) {
+        progressData = {};
+      }
+    }
+    jobData.progress = {
+      total: progressData.total || items.length,
+      completed: progressData.sent || progressData.completed || 0,
+      failed: progressData.failed || 0,
+      delivered: items.filter(item => item.deliveredAt).length,
+      read: items.filter(item => item.readAt).length,
+    };
+
     // Get device info if deviceId exists
     if (jobData.data && jobData.data.deviceId) {
       try {
@@ -1251,7 +1529,12 @@ module.exports = {
   getUserDetails,
   createUser,
   updateUser,
+  resetUserTwoFactor,
+  listUserSessions,
+  revokeUserSession,
+  revokeAllUserSessions,
   deleteUser,
+  restoreUser,
   listDevices,
   listMessages,
   getStats,
@@ -1826,7 +2109,12 @@ module.exports = {
   getUserInsights,
   createUser,
   updateUser,
+  resetUserTwoFactor,
+  listUserSessions,
+  revokeUserSession,
+  revokeAllUserSessions,
   deleteUser,
+  restoreUser,
   listDevices,
   getDeviceHealth,
   disconnectDevice,
@@ -1,11 +1,172 @@
-const { User } = require("../models");
+const QRCode = require("qrcode");
+const { Op } = require("sequelize");
+const { User, sequelize } = require("../models");
 const {
   generateToken,
   generateRefreshToken,
   verifyToken,
+  generateTwoFactorChallengeToken,
+  verifyTwoFactorChallengeToken,
 } = require("../utils/jwt");
+const {
+  generateSecret,
+  verifyTotp,
+  buildOtpAuthUri,
+  generateBackupCodes,
+  hashBackupCode,
+} = require("../utils/totp");
+const loginSessionService = require("../services/loginSessionService");
+const accountService = require("../services/accountService");
+const notificationService = require("../services/notificationService");
+const apiKeyService = require("../services/apiKeyService");
+const workspaceService = require("../services/workspaceService");
+const { isSupportedCountry } = require("../utils/phoneNumber");
+const { isPublicUrl } = require("../utils/publicAddress");
 const logger = require("../utils/logger");
 
+const TWO_FACTOR_ISSUER = process.env.TWO_FACTOR_ISSUER || "WhatsApp Service";
+
+// Codes tried per 2FA challenge before the user has to log in again
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
+
+// Codes tried per challenge token (jti) -> { count, expiresAt }
+const twoFactorAttempts = new Map();
+
+/**
+ * Count a code attempt against a challenge
+ * @returns {boolean} false when the challenge has no attempts left
+ */
+const takeTwoFactorAttempt = (challenge) => {
+  const now = Date.now();
+  for (const [jti, entry] of twoFactorAttempts) {
+    if (entry.expiresAt <= now) twoFactorAttempts.delete(jti);
+  }
+
+  const entry = twoFactorAttempts.get(challenge.jti) || {
+    count: 0,
+    expiresAt: challenge.exp * 1000,
+  };
+  if (entry.count >= MAX_TWO_FACTOR_ATTEMPTS) return false;
+
+  entry.count++;
+  twoFactorAttempts.set(challenge.jti, entry);
+  return true;
+};
+
+/**
+ * Set HttpOnly cookie for Next.js Middleware
+ */
+const setSessionCookie = (res, token) => {
+  res.cookie("token", token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    maxAge: 24 * 60 * 60 * 1000, // 1 day
+  });
+};
+
+/**
+ * Record a login session, issue access + refresh tokens bound to it
+ * (`sid` claim) and set the session cookie
+ */
+const issueAuthTokens = async (req, res, user) => {
+  const session = await loginSessionService.createSession(user.id, req);
+
+  const token = generateToken({
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    sid: session.id,
+  });
+
+  const refreshToken = generateRefreshToken({
+    userId: user.id,
+    email: user.email,
+    sid: session.id,
+  });
+
+  setSessionCookie(res, token);
+
+  return { token, refreshToken };
+};
+
+/**
+ * Check a TOTP code and record its time step, so neither it nor an older
+ * code is accepted again. Of two requests racing with the same code only
+ * one gets past the conditional update.
+ */
+const consumeTotpCode = async (user, code) => {
+  const counter = verifyTotp(user.twoFactorSecret, code, user.twoFactorLastCounter);
+  if (counter === null) return false;
+
+  const [updated] = await User.update(
+    { twoFactorLastCounter: counter },
+    {
+      where: {
+        id: user.id,
+        [Op.or]: [
+          { twoFactorLastCounter: null },
+          { twoFactorLastCounter: { [Op.lt]: counter } },
+        ],
+      },
+    }
+  );
+  if (updated === 0) return false;
+
+  user.setDataValue("twoFactorLastCounter", counter);
+  return true;
+};
+
+/**
+ * Remove a backup code from the stored ones. The update only matches while
+ * the stored codes still contain it, so of two requests racing with the
+ * same code only one succeeds.
+ */
+const consumeBackupCode = async (user, code) => {
+  const hashes = Array.isArray(user.twoFactorBackupCodes)
+    ? user.twoFactorBackupCodes
+    : [];
+  const hash = hashBackupCode(code);
+  if (!code || !hashes.includes(hash)) return false;
+
+  const [updated] = await User.update(
+    {
+      twoFactorBackupCodes: sequelize.literal(
+        `JSON_REMOVE(two_factor_backup_codes, JSON_UNQUOTE(JSON_SEARCH(two_factor_backup_codes, 'one', ${sequelize.escape(hash)})))`
+      ),
+    },
+    {
+      where: {
+        id: user.id,
+        [Op.and]: sequelize.where(
+          sequelize.fn("JSON_CONTAINS", sequelize.col("two_factor_backup_codes"), JSON.stringify(hash)),
+          1
+        ),
+      },
+    }
+  );
+  if (updated === 0) return false;
+
+  user.setDataValue("twoFactorBackupCodes", hashes.filter((h) => h !== hash));
+  return true;
+};
+
+/**
+ * Check a TOTP code, falling back to a one-time backup code.
+ * A matching backup code is consumed.
+ */
+const verifyTwoFactorCode = async (user, code) => {
+  if (await consumeTotpCode(user, code)) {
+    return { valid: true, usedBackupCode: false };
+  }
+
+  if (await consumeBackupCode(user, code)) {
+    return { valid: true, usedBackupCode: true };
+  }
+
+  return { valid: false, usedBackupCode: false };
+};
+
 const register = async (req, res) => {
   try {
     const { username, email, password, fullName, role } = req.body;
@@ -34,28 +195,10 @@ const register = async (req, res) => {
       role: "user", // Force user role - admin must be created by another admin
     });
 
-    // Generate tokens
-    const token = generateToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    });
-
-    const refreshToken = generateRefreshToken({
-      userId: user.id,
-      email: user.email,
-    });
+    const { token, refreshToken } = await issueAuthTokens(req, res, user);
 
     logger.info(`New user registered: ${user.email}`);
 
-    // Set HttpOnly cookie for Next.js Middleware
-    res.cookie("token", token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 24 * 60 * 60 * 1000, // 1 day
-    });
-
     res.status(201).json({
       success: true,
       message: "User registered successfully",
@@ -95,6 +238,7 @@ const login = async (req, res) => {
         "fullName",
         "role",
         "isActive",
+        "twoFactorEnabled",
       ],
     });
 
@@ -129,31 +273,27 @@ const login = async (req, res) => {
       });
     }
 
+    // Second factor required: hand out a short-lived challenge instead of tokens
+    if (user.twoFactorEnabled) {
+      logger.info(`2FA challenge issued for user: ${user.email}`);
+
+      return res.json({
+        success: true,
+        message: "Two-factor authentication required",
+        data: {
+          requiresTwoFactor: true,
+          challengeToken: generateTwoFactorChallengeToken(user.id),
+        },
+      });
+    }
+
     // Update last login
     await user.update({ lastLogin: new Date() });
 
-    // Generate tokens
-    const token = generateToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    });
-
-    const refreshToken = generateRefreshToken({
-      userId: user.id,
-      email: user.email,
-    });
+    const { token, refreshToken } = await issueAuthTokens(req, res, user);
 
     logger.info(`User logged in: ${user.email}`);
 
-    // Set HttpOnly cookie for Next.js Middleware
-    res.cookie("token", token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 24 * 60 * 60 * 1000, // 1 day
-    });
-
     res.json({
       success: true,
       message: "Login successful",
@@ -199,9 +339,16 @@ const getProfile = async (req, res) => {
 
 const updateProfile = async (req, res) => {
   try {
-    const { fullName, username, email, password, phoneNumber, bio } = req.body;
+    const { fullName, username, email, password, phoneNumber, bio, defaultCountry } = req.body;
     const userId = req.user.id;
 
+    if (defaultCountry !== undefined && !isSupportedCountry(defaultCountry)) {
+      return res.status(400).json({
+        success: false,
+        message: "Unsupported default country",
+      });
+    }
+
     // Get current user
     const currentUser = await User.findByPk(userId);
     if (!currentUser) {
@@ -252,6 +399,7 @@ const updateProfile = async (req, res) => {
     if (email !== undefined) updateData.email = email;
     if (phoneNumber !== undefined) updateData.phoneNumber = phoneNumber;
     if (bio !== undefined) updateData.bio = bio;
+    if (defaultCountry !== undefined) updateData.defaultCountry = defaultCountry;
     
     // Handle password update (will be hashed by beforeUpdate hook)
     if (password && password.length >= 6) {
@@ -337,6 +485,12 @@ const refreshToken = async (req, res) => {
 
     // Verify refresh token
     const decoded = verifyToken(refreshToken);
+    if (decoded.purpose) {
+      return res.status(401).json({
+        success: false,
+        message: "Invalid refresh token",
+      });
+    }
 
     // Find user
     const user = await User.findByPk(decoded.userId);
@@ -347,22 +501,32 @@ const refreshToken = async (req, res) => {
       });
     }
 
+    // The login session must still be active (not revoked / expired).
+    // Tokens issued before session tracking carry no `sid` and are rejected.
+    const session = await loginSessionService.findActiveSession(
+      decoded.sid,
+      user.id
+    );
+    if (!session) {
+      return res.status(401).json({
+        success: false,
+        message: "Session has been revoked or expired",
+      });
+    }
+
+    await loginSessionService.touchSession(session, req);
+
     // Generate new access token
     const newToken = generateToken({
       userId: user.id,
       email: user.email,
       role: user.role,
+      sid: session.id,
     });
 
     logger.info(`Token refreshed for user: ${user.email}`);
 
-    // Set HttpOnly cookie for Next.js Middleware
-    res.cookie("token", newToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 24 * 60 * 60 * 1000, // 1 day
-    });
+    setSessionCookie(res, newToken);
 
     res.json({
       success: true,
@@ -392,6 +556,844 @@ const refreshToken = async (req, res) => {
   }
 };
 
+/**
+ * Complete a login that requires 2FA
+ * POST /api/auth/2fa/verify
+ */
+const verifyTwoFactorLogin = async (req, res) => {
+  try {
+    const { challengeToken, code } = req.body;
+
+    if (!challengeToken || !code) {
+      return res.status(400).json({
+        success: false,
+        message: "Challenge token and code are required",
+      });
+    }
+
+    let decoded;
+    try {
+      decoded = verifyTwoFactorChallengeToken(challengeToken);
+    } catch {
+      return res.status(401).json({
+        success: false,
+        message: "Verification expired. Please log in again.",
+      });
+    }
+
+    // Counted before the code is checked, so parallel guesses count too
+    if (!decoded.jti || !takeTwoFactorAttempt(decoded)) {
+      return res.status(429).json({
+        success: false,
+        message: "Too many attempts. Please log in again.",
+      });
+    }
+
+    const user = await User.findByPk(decoded.userId);
+    if (!user || !user.isActive || !user.twoFactorEnabled) {
+      return res.status(401).json({
+        success: false,
+        message: "Invalid credentials",
+      });
+    }
+
+    const { valid, usedBackupCode } = await verifyTwoFactorCode(user, code);
+    if (!valid) {
+      return res.status(401).json({
+        success: false,
+        message: "Invalid verification code",
+      });
+    }
+
+    twoFactorAttempts.delete(decoded.jti);
+    await user.update({ lastLogin: new Date() });
+
+    const { token, refreshToken } = await issueAuthTokens(req, res, user);
+
+    logger.info(
+      `User logged in with 2FA${usedBackupCode ? " (backup code)" : ""}: ${user.email}`
+    );
+
+    res.json({
+      success: true,
+      message: "Login successful",
+      data: {
+        user: user.toJSON(),
+        token,
+        refreshToken,
+        remainingBackupCodes: (user.twoFactorBackupCodes || []).length,
+      },
+    });
+  } catch (error) {
+    logger.error("2FA login verification error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Verification failed",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * Start 2FA enrollment: create a pending secret and provisioning URI
+ * POST /api/auth/2fa/setup
+ */
+const setupTwoFactor = async (req, res) => {
+  try {
+    const user = await User.findByPk(req.user.id);
+
+    if (user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        message: "Two-factor authentication is already enabled",
+      });
+    }
+
+    const secret = generateSecret();
+    const otpauthUrl = buildOtpAuthUri(secret, user.email, TWO_FACTOR_ISSUER);
+    const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+    // Stored as pending; only activated once a code is verified
+    await user.update({
+      twoFactorSecret: secret,
+      twoFactorBackupCodes: null,
+      twoFactorLastCounter: null,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        secret,
+        otpauthUrl,
+        qrCode,
+      },
+    });
+  } catch (error) {
+    logger.error("2FA setup error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to start two-factor setup",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * Confirm enrollment with a code from the authenticator app
+ * POST /api/auth/2fa/enable
+ */
+const enableTwoFactor = async (req, res) => {
+  try {
+    const { code } = req.body;
+    const user = await User.findByPk(req.user.id);
+
+    if (user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        message: "Two-factor authentication is already enabled",
+      });
+    }
+
+    if (!user.twoFactorSecret) {
+      return res.status(400).json({
+        success: false,
+        message: "Start two-factor setup first",
+      });
+    }
+
+    if (!(await consumeTotpCode(user, code))) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid verification code",
+      });
+    }
+
+    const { codes, hashes } = generateBackupCodes();
+    await user.update({ twoFactorEnabled: true, twoFactorBackupCodes: hashes });
+
+    logger.info(`2FA enabled for user: ${user.email}`);
+
+    res.json({
+      success: true,
+      message: "Two-factor authentication enabled",
+      data: {
+        user: user.toJSON(),
+        backupCodes: codes,
+      },
+    });
+  } catch (error) {
+    logger.error("2FA enable error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to enable two-factor authentication",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * Turn 2FA off (requires password and a current code)
+ * POST /api/auth/2fa/disable
+ */
+const disableTwoFactor = async (req, res) => {
+  try {
+    const { password, code } = req.body;
+    const user = await User.findByPk(req.user.id);
+
+    if (!user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        message: "Two-factor authentication is not enabled",
+      });
+    }
+
+    const isPasswordValid = password && (await user.comparePassword(password));
+    if (!isPasswordValid) {
+      return res.status(400).json({
+        success: false,
+        message: "Incorrect password",
+      });
+    }
+
+    const { valid } = await verifyTwoFactorCode(user, code);
+    if (!valid) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid verification code",
+      });
+    }
+
+    await user.update({
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorBackupCodes: null,
+      twoFactorLastCounter: null,
+    });
+
+    logger.info(`2FA disabled for user: ${user.email}`);
+
+    res.json({
+      success: true,
+      message: "Two-factor authentication disabled",
+      data: { user: user.toJSON() },
+    });
+  } catch (error) {
+    logger.error("2FA disable error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to disable two-factor authentication",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * Replace all backup codes (requires a current TOTP code)
+ * POST /api/auth/2fa/backup-codes
+ */
+const regenerateBackupCodes = async (req, res) => {
+  try {
+    const { code } = req.body;
+    const user = await User.findByPk(req.user.id);
+
+    if (!user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        message: "Two-factor authentication is not enabled",
+      });
+    }
+
+    if (!(await consumeTotpCode(user, code))) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid verification code",
+      });
+    }
+
+    const { codes, hashes } = generateBackupCodes();
+    await user.update({ twoFactorBackupCodes: hashes });
+
+    logger.info(`2FA backup codes regenerated for user: ${user.email}`);
+
+    res.json({
+      success: true,
+      data: { backupCodes: codes },
+    });
+  } catch (error) {
+    logger.error("2FA backup code regeneration error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to regenerate backup codes",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * List the current user's active sessions
+ * GET /api/auth/sessions
+ */
+const listSessions = async (req, res) => {
+  try {
+    const includeInactive = req.query.history === "true";
+    const sessions = await loginSessionService.listSessions(req.user.id, {
+      includeInactive,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        sessions: sessions.map((session) => ({
+          ...session,
+          isCurrent: session.id === req.sessionId,
+        })),
+      },
+    });
+  } catch (error) {
+    logger.error("List sessions error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to list sessions",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * Revoke one of the current user's sessions
+ * DELETE /api/auth/sessions/:sessionId
+ */
+const revokeSession = async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const revoked = await loginSessionService.revokeSession(req.user.id, sessionId);
+
+    if (!revoked) {
+      return res.status(404).json({
+        success: false,
+        message: "Session not found or already revoked",
+      });
+    }
+
+    logger.info(`Session ${sessionId} revoked by user: ${req.user.email}`);
+
+    res.json({
+      success: true,
+      message: "Session revoked",
+    });
+  } catch (error) {
+    logger.error("Revoke session error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to revoke session",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * Sign out everywhere: revoke all of the current user's sessions
+ * POST /api/auth/sessions/revoke-all
+ */
+const revokeAllSessions = async (req, res) => {
+  try {
+    const count = await loginSessionService.revokeAllSessions(req.user.id);
+
+    logger.info(`All sessions (${count}) revoked by user: ${req.user.email}`);
+
+    res.clearCookie("token");
+    res.json({
+      success: true,
+      message: "Signed out of all sessions",
+      data: { revoked: count },
+    });
+  } catch (error) {
+    logger.error("Revoke all sessions error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to revoke sessions",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * Log out: revoke the current session and clear the cookie
+ * POST /api/auth/logout
+ */
+const logout = async (req, res) => {
+  try {
+    if (req.sessionId) {
+      await loginSessionService.revokeSession(req.user.id, req.sessionId);
+    }
+
+    res.clearCookie("token");
+    res.json({
+      success: true,
+      message: "Logged out",
+    });
+  } catch (error) {
+    logger.error("Logout error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Logout failed",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * Get the current user's notification preferences
+ * GET /api/auth/notifications
+ */
+const getNotificationPreferences = async (req, res) => {
+  try {
+    const preferences = await notificationService.getPreferences(req.user.id);
+
+    res.json({
+      success: true,
+      data: { preferences },
+    });
+  } catch (error) {
+    logger.error("Get notification preferences error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to load notification preferences",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * Update notification channels per type and delivery targets
+ * PUT /api/auth/notifications
+ */
+const updateNotificationPreferences = async (req, res) => {
+  try {
+    if (req.body.webhookUrl && !(await isPublicUrl(req.body.webhookUrl))) {
+      return res.status(400).json({
+        success: false,
+        message: "Webhook URL must resolve to a public internet address",
+      });
+    }
+
+    const preferences = await notificationService.updatePreferences(
+      req.user.id,
+      req.body
+    );
+
+    logger.info(`Notification preferences updated for user: ${req.user.email}`);
+
+    res.json({
+      success: true,
+      message: "Notification preferences saved",
+      data: { preferences },
+    });
+  } catch (error) {
+    logger.error("Update notification preferences error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to save notification preferences",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * Send a test notification over email or webhook
+ * POST /api/auth/notifications/test
+ */
+const sendTestNotification = async (req, res) => {
+  const { channel } = req.body;
+
+  if (!["email", "webhook"].includes(channel)) {
+    return res.status(400).json({
+      success: false,
+      message: "Channel must be 'email' or 'webhook'",
+    });
+  }
+
+  try {
+    await notificationService.sendTestNotification(req.user.id, channel);
+
+    res.json({
+      success: true,
+      message: `Test ${channel} notification sent`,
+    });
+  } catch (error) {
+    logger.warn(`Test ${channel} notification failed for ${req.user.email}:`, error.message);
+
+    // Webhook errors can describe the network behind the URL; only the
+    // status code of a response is passed on
+    let reason = error.message;
+    if (channel === "webhook" && reason !== "No webhook URL configured") {
+      reason = error.response
+        ? `HTTP ${error.response.status}`
+        : "webhook URL could not be reached";
+    }
+
+    res.status(400).json({
+      success: false,
+      message: `Test ${channel} notification failed: ${reason}`,
+    });
+  }
+};
+
+/**
+ * List the current user's API keys
+ * GET /api/auth/api-keys
+ */
+const listApiKeys = async (req, res) => {
+  try {
+    const apiKeys = await apiKeyService.listApiKeys(req.user.id);
+
+    res.json({
+      success: true,
+      data: { apiKeys, scopes: apiKeyService.API_KEY_SCOPES },
+    });
+  } catch (error) {
+    logger.error("List API keys error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to list API keys",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * Create an API key; the plain key is only returned in this response
+ * POST /api/auth/api-keys
+ */
+const createApiKey = async (req, res) => {
+  try {
+    const { apiKey, key } = await apiKeyService.createApiKey(req.user.id, req.body);
+
+    logger.info(`API key "${apiKey.name}" (${apiKey.keyPrefix}) created by user: ${req.user.email}`);
+
+    res.status(201).json({
+      success: true,
+      message: "API key created",
+      data: { apiKey, key },
+    });
+  } catch (error) {
+    logger.warn(`API key creation failed for ${req.user.email}:`, error.message);
+    res.status(400).json({
+      success: false,
+      message: error.message || "Failed to create API key",
+    });
+  }
+};
+
+/**
+ * Revoke one of the current user's API keys
+ * DELETE /api/auth/api-keys/:keyId
+ */
+const revokeApiKey = async (req, res) => {
+  try {
+    const revoked = await apiKeyService.revokeApiKey(req.user.id, req.params.keyId);
+
+    if (!revoked) {
+      return res.status(404).json({
+        success: false,
+        message: "API key not found or already revoked",
+      });
+    }
+
+    logger.info(`API key ${req.params.keyId} revoked by user: ${req.user.email}`);
+
+    res.json({
+      success: true,
+      message: "API key revoked",
+    });
+  } catch (error) {
+    logger.error("Revoke API key error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to revoke API key",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * List the members and pending invitations of the current user's workspace
+ * GET /api/auth/workspace/members
+ */
+const listWorkspaceMembers = async (req, res) => {
+  try {
+    const [members, invitations] = await Promise.all([
+      workspaceService.listMembers(req.user.id),
+      workspaceService.listInvitations(req.user.id),
+    ]);
+
+    res.json({
+      success: true,
+      data: { members, invitations, maxMembers: workspaceService.MAX_MEMBERS },
+    });
+  } catch (error) {
+    logger.error("List workspace members error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to list workspace members",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * Invite a user to the current user's workspace by email; they join once
+ * they accept
+ * POST /api/auth/workspace/members
+ */
+const addWorkspaceMember = async (req, res) => {
+  try {
+    const invitation = await workspaceService.inviteMember(req.user, req.body.email);
+
+    logger.info(`Workspace invitation ${invitation.id} created by user: ${req.user.email}`);
+
+    res.status(201).json({
+      success: true,
+      message: "Invitation created. The user joins once they accept it.",
+      data: { invitation },
+    });
+  } catch (error) {
+    logger.warn(`Inviting workspace member failed for ${req.user.email}:`, error.message);
+    res.status(400).json({
+      success: false,
+      message: error.message || "Failed to invite member",
+    });
+  }
+};
+
+/**
+ * Withdraw a pending invitation of the current user's workspace
+ * DELETE /api/auth/workspace/members/invitations/:invitationId
+ */
+const cancelWorkspaceInvitation = async (req, res) => {
+  try {
+    const cancelled = await workspaceService.cancelInvitation(
+      req.user.id,
+      parseInt(req.params.invitationId, 10)
+    );
+
+    if (!cancelled) {
+      return res.status(404).json({
+        success: false,
+        message: "Invitation not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      message: "Invitation cancelled",
+    });
+  } catch (error) {
+    logger.error("Cancel workspace invitation error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to cancel invitation",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * List the workspace invitations sent to the current user
+ * GET /api/auth/workspace/invitations
+ */
+const listWorkspaceInvitations = async (req, res) => {
+  try {
+    const invitations = await workspaceService.listReceivedInvitations(req.user);
+
+    res.json({
+      success: true,
+      data: { invitations },
+    });
+  } catch (error) {
+    logger.error("List workspace invitations error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to list invitations",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * Accept a workspace invitation sent to the current user
+ * POST /api/auth/workspace/invitations/:invitationId/accept
+ */
+const acceptWorkspaceInvitation = async (req, res) => {
+  try {
+    const accepted = await workspaceService.acceptInvitation(
+      req.user,
+      parseInt(req.params.invitationId, 10)
+    );
+
+    if (!accepted) {
+      return res.status(404).json({
+        success: false,
+        message: "Invitation not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      message: "Invitation accepted",
+    });
+  } catch (error) {
+    logger.warn(`Accepting workspace invitation failed for ${req.user.email}:`, error.message);
+    res.status(400).json({
+      success: false,
+      message: error.message || "Failed to accept invitation",
+    });
+  }
+};
+
+/**
+ * Decline a workspace invitation sent to the current user
+ * DELETE /api/auth/workspace/invitations/:invitationId
+ */
+const declineWorkspaceInvitation = async (req, res) => {
+  try {
+    const declined = await workspaceService.declineInvitation(
+      req.user,
+      parseInt(req.params.invitationId, 10)
+    );
+
+    if (!declined) {
+      return res.status(404).json({
+        success: false,
+        message: "Invitation not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      message: "Invitation declined",
+    });
+  } catch (error) {
+    logger.error("Decline workspace invitation error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to decline invitation",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * Remove a member from the current user's workspace
+ * DELETE /api/auth/workspace/members/:memberId
+ */
+const removeWorkspaceMember = async (req, res) => {
+  try {
+    const removed = await workspaceService.removeMember(
+      req.user.id,
+      parseInt(req.params.memberId, 10)
+    );
+
+    if (!removed) {
+      return res.status(404).json({
+        success: false,
+        message: "Member not found",
+      });
+    }
+
+    logger.info(`Workspace member ${req.params.memberId} removed by user: ${req.user.email}`);
+
+    res.json({
+      success: true,
+      message: "Member removed",
+    });
+  } catch (error) {
+    logger.error("Remove workspace member error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to remove member",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * Download a personal data archive
+ * GET /api/auth/account/export
+ */
+const exportAccountData = async (req, res) => {
+  try {
+    const archive = await accountService.buildPersonalArchive(req.user.id);
+
+    logger.info(`Personal data exported by user: ${req.user.email}`);
+
+    res.json({
+      success: true,
+      data: archive,
+    });
+  } catch (error) {
+    logger.error("Account export error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to export account data",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * Delete the current account (requires password, and a code when 2FA is on).
+ * The account is deactivated immediately and purged after the grace period.
+ * POST /api/auth/account/delete
+ */
+const deleteAccount = async (req, res) => {
+  try {
+    const { password, code } = req.body;
+    const user = await User.findByPk(req.user.id);
+
+    if (user.role === "admin") {
+      return res.status(400).json({
+        success: false,
+        message: "Admin accounts must be removed by another admin",
+      });
+    }
+
+    const isPasswordValid = password && (await user.comparePassword(password));
+    if (!isPasswordValid) {
+      return res.status(400).json({
+        success: false,
+        message: "Incorrect password",
+      });
+    }
+
+    if (user.twoFactorEnabled) {
+      const { valid } = await verifyTwoFactorCode(user, code);
+      if (!valid) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid verification code",
+        });
+      }
+    }
+
+    const { purgeAfter } = await accountService.scheduleDeletion(user);
+
+    res.clearCookie("token");
+    res.json({
+      success: true,
+      message: "Account deleted",
+      data: { purgeAfter },
+    });
+  } catch (error) {
+    logger.error("Account deletion error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to delete account",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+};
+
 module.exports = {
   register,
   login,
@@ -399,4 +1401,28 @@ module.exports = {
   updateProfile,
   uploadProfilePhoto,
   refreshToken,
+  logout,
+  listSessions,
+  revokeSession,
+  revokeAllSessions,
+  verifyTwoFactorLogin,
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateBackupCodes,
+  exportAccountData,
+  deleteAccount,
+  getNotificationPreferences,
+  updateNotificationPreferences,
+  sendTestNotification,
+  listApiKeys,
+  createApiKey,
+  revokeApiKey,
+  listWorkspaceMembers,
+  addWorkspaceMember,
+  cancelWorkspaceInvitation,
+  listWorkspaceInvitations,
+  acceptWorkspaceInvitation,
+  declineWorkspaceInvitation,
+  removeWorkspaceMember,
 };
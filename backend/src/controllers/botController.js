@@ -1,23 +1,39 @@
 /**
  * Bot Controller
- * Handles API endpoints for bot configuration, rules, and handoffs
+ * Handles API endpoints for bot configuration, rules, flows, and handoffs
  */
 
 const {
   AutoReplyRule,
+  BotFlow,
   DeviceBotConfig,
   BotActionLog,
   WhatsAppSession,
 } = require("../models");
 const handoffService = require("../services/handoffService");
+const workspaceService = require("../services/workspaceService");
 const conversationStateService = require("../services/conversationStateService");
 const businessHoursService = require("../services/businessHoursService");
 const autoReplyService = require("../services/autoReplyService");
+const botFlowService = require("../services/botFlowService");
+const suppressionService = require("../services/suppressionService");
 const { successResponse, errorResponse } = require("../utils/responseHelper");
 const logger = require("../utils/logger");
 
 // ==================== DEVICE BOT CONFIG ====================
 
+const isValidKeywordList = (keywords) =>
+  Array.isArray(keywords) &&
+  keywords.length > 0 &&
+  keywords.length <= 10 &&
+  keywords.every((keyword) => typeof keyword === "string" && keyword.trim() && keyword.length <= 50);
+
+// Submitted value (empty = none), else the stored one, else the default
+const resolveSetting = (submitted, stored, fallback) => {
+  if (submitted !== undefined) return submitted || null;
+  return stored !== undefined ? stored : fallback;
+};
+
 /**
  * Get bot configuration for a device
  */
@@ -52,11 +68,18 @@ const getBotConfig = async (req, res) => {
         botEnabled: false,
         timezone: "Asia/Jakarta",
         businessHours: null,
+        holidays: null,
         offHoursMessage: null,
         offHoursEnabled: false,
         handoffKeywords: ["agent", "human", "operator", "bantuan", "cs"],
         resumeKeywords: ["bot", "menu", "help", "mulai"],
+        optOutKeywords: suppressionService.DEFAULT_OPT_OUT_KEYWORDS,
+        optInKeywords: suppressionService.DEFAULT_OPT_IN_KEYWORDS,
+        optOutMessage: suppressionService.DEFAULT_OPT_OUT_MESSAGE,
+        optInMessage: suppressionService.DEFAULT_OPT_IN_MESSAGE,
         ignoreGroups: true,
+        rejectCalls: false,
+        callRejectMessage: null,
       };
     }
 
@@ -93,6 +116,7 @@ const updateBotConfig = async (req, res) => {
       botEnabled,
       timezone,
       businessHours,
+      holidays,
       offHoursMessage,
       offHoursEnabled,
       handoffKeywords,
@@ -100,23 +124,43 @@ const updateBotConfig = async (req, res) => {
       welcomeMessage,
       handoffMessage,
       resumeMessage,
+      optOutKeywords,
+      optInKeywords,
+      optOutMessage,
+      optInMessage,
       ignoreGroups,
+      rejectCalls,
+      callRejectMessage,
     } = req.body;
 
     // Validate business hours if provided
-    if (businessHours) {
-      const validation = businessHoursService.validateBusinessHours(businessHours);
+    if (businessHours || holidays) {
+      const validation = businessHoursService.validateBusinessHours(businessHours || [], holidays || null);
       if (!validation.valid) {
         return errorResponse(res, `Invalid business hours: ${validation.errors.join(", ")}`, 400);
       }
     }
 
+    for (const [field, keywords] of [["optOutKeywords", optOutKeywords], ["optInKeywords", optInKeywords]]) {
+      if (keywords !== undefined && !isValidKeywordList(keywords)) {
+        return errorResponse(res, `Invalid ${field}: use 1-10 keywords of at most 50 characters`, 400);
+      }
+    }
+
+    if (callRejectMessage && (typeof callRejectMessage !== "string" || callRejectMessage.length > 1000)) {
+      return errorResponse(res, "Invalid callRejectMessage: at most 1000 characters", 400);
+    }
+
+    // Opt-out settings and the schedule are kept when a partial update (e.g. the bot toggle) leaves them out
+    const existing = await DeviceBotConfig.findOne({ where: { deviceId } });
+
     // Upsert config
     const [config, created] = await DeviceBotConfig.upsert({
       deviceId,
       botEnabled: botEnabled ?? false,
       timezone: timezone || "Asia/Jakarta",
-      businessHours: businessHours || null,
+      businessHours: businessHours !== undefined ? businessHours || null : existing?.businessHours || null,
+      holidays: holidays !== undefined ? holidays || null : existing?.holidays || null,
       offHoursMessage: offHoursMessage || null,
       offHoursEnabled: offHoursEnabled ?? false,
       handoffKeywords: handoffKeywords || ["agent", "human", "operator", "bantuan", "cs"],
@@ -124,7 +168,15 @@ const updateBotConfig = async (req, res) => {
       welcomeMessage: welcomeMessage || null,
       handoffMessage: handoffMessage || "Menghubungkan Anda dengan tim kami. Mohon tunggu.",
       resumeMessage: resumeMessage || "Bot aktif kembali. Ketik 'menu' untuk melihat opsi.",
+      optOutKeywords: optOutKeywords || existing?.optOutKeywords || suppressionService.DEFAULT_OPT_OUT_KEYWORDS,
+      optInKeywords: optInKeywords || existing?.optInKeywords || suppressionService.DEFAULT_OPT_IN_KEYWORDS,
+      // "" = no confirmation reply
+      optOutMessage: resolveSetting(optOutMessage, existing?.optOutMessage, suppressionService.DEFAULT_OPT_OUT_MESSAGE),
+      optInMessage: resolveSetting(optInMessage, existing?.optInMessage, suppressionService.DEFAULT_OPT_IN_MESSAGE),
       ignoreGroups: ignoreGroups ?? true,
+      // Call policy is kept on partial updates, like the opt-out settings
+      rejectCalls: rejectCalls ?? existing?.rejectCalls ?? false,
+      callRejectMessage: resolveSetting(callRejectMessage, existing?.callRejectMessage, null),
     });
 
     logger.info(`📝 Bot config ${created ? "created" : "updated"} for device ${deviceId}`);
@@ -339,6 +391,293 @@ const deleteRule = async (req, res) => {
   }
 };
 
+// ==================== FLOWS ====================
+
+const VALID_MATCH_TYPES = ["exact", "contains", "startsWith", "regex"];
+
+/**
+ * Validate a complete flow definition
+ * @returns {Promise<string|null>} Error message or null
+ */
+const validateFlowDefinition = async (flow, userId) => {
+  if (!flow.name || typeof flow.name !== "string" || flow.name.length > 100) {
+    return "Name is required (max 100 characters)";
+  }
+  if (!flow.trigger || typeof flow.trigger !== "string" || flow.trigger.length > 500) {
+    return "Trigger is required (max 500 characters)";
+  }
+  if (!VALID_MATCH_TYPES.includes(flow.matchType)) {
+    return `Invalid match type. Use: ${VALID_MATCH_TYPES.join(", ")}`;
+  }
+  if (flow.matchType === "regex") {
+    const validation = autoReplyService.validateRegex(flow.trigger);
+    if (!validation.valid) {
+      return `Invalid regex: ${validation.error}`;
+    }
+  }
+
+  const validation = botFlowService.validateFlow(flow);
+  if (!validation.valid) {
+    return `Invalid flow: ${validation.errors.join(", ")}`;
+  }
+
+  return botFlowService.checkTemplates(flow.steps, userId);
+};
+
+/**
+ * List all flows for a device
+ */
+const listFlows = async (req, res) => {
+  try {
+    const { deviceId } = req.params;
+    const userId = req.user.id;
+    const isAdmin = req.user.role === "admin";
+
+    // Verify device ownership
+    const device = await WhatsAppSession.findOne({
+      where: { deviceId },
+    });
+
+    if (!device) {
+      return errorResponse(res, "Device not found", 404);
+    }
+
+    if (!isAdmin && device.userId !== userId) {
+      return errorResponse(res, "Access denied", 403);
+    }
+
+    const flows = await BotFlow.findAll({
+      where: { deviceId },
+      order: [["priority", "DESC"], ["createdAt", "DESC"]],
+    });
+
+    return successResponse(res, "Flows retrieved", flows);
+  } catch (error) {
+    logger.error("❌ Error listing flows:", error);
+    return errorResponse(res, "Failed to list flows", 500);
+  }
+};
+
+/**
+ * Create a new flow
+ */
+const createFlow = async (req, res) => {
+  try {
+    const { deviceId } = req.params;
+    const userId = req.user.id;
+    const isAdmin = req.user.role === "admin";
+
+    // Verify device ownership
+    const device = await WhatsAppSession.findOne({
+      where: { deviceId },
+    });
+
+    if (!device) {
+      return errorResponse(res, "Device not found", 404);
+    }
+
+    if (!isAdmin && device.userId !== userId) {
+      return errorResponse(res, "Access denied", 403);
+    }
+
+    const { name, trigger, matchType, priority, timeoutMinutes, startStepId, steps, isActive } = req.body;
+
+    const values = {
+      name,
+      trigger,
+      matchType: matchType || "exact",
+      priority: priority ?? 0,
+      timeoutMinutes: timeoutMinutes ?? 30,
+      startStepId,
+      steps,
+      isActive: isActive ?? true,
+    };
+
+    // Templates belong to the device owner, also when an admin edits the flow
+    const error = await validateFlowDefinition(values, device.userId);
+    if (error) {
+      return errorResponse(res, error, 400);
+    }
+
+    const flow = await BotFlow.create({ deviceId, ...values });
+
+    logger.info(`🧭 Flow created: "${name}" for device ${deviceId}`);
+
+    return successResponse(res, "Flow created", flow, 201);
+  } catch (error) {
+    logger.error("❌ Error creating flow:", error);
+    return errorResponse(res, "Failed to create flow", 500);
+  }
+};
+
+/**
+ * Update a flow
+ * Conversations running the flow continue from their current step; those
+ * whose step was removed are reset.
+ */
+const updateFlow = async (req, res) => {
+  try {
+    const { deviceId, flowId } = req.params;
+    const userId = req.user.id;
+    const isAdmin = req.user.role === "admin";
+
+    // Verify device ownership
+    const device = await WhatsAppSession.findOne({
+      where: { deviceId },
+    });
+
+    if (!device) {
+      return errorResponse(res, "Device not found", 404);
+    }
+
+    if (!isAdmin && device.userId !== userId) {
+      return errorResponse(res, "Access denied", 403);
+    }
+
+    const flow = await BotFlow.findOne({
+      where: { id: flowId, deviceId },
+    });
+
+    if (!flow) {
+      return errorResponse(res, "Flow not found", 404);
+    }
+
+    const { name, trigger, matchType, priority, timeoutMinutes, startStepId, steps, isActive } = req.body;
+
+    const values = {
+      name: name ?? flow.name,
+      trigger: trigger ?? flow.trigger,
+      matchType: matchType ?? flow.matchType,
+      priority: priority ?? flow.priority,
+      timeoutMinutes: timeoutMinutes ?? flow.timeoutMinutes,
+      startStepId: startStepId ?? flow.startStepId,
+      steps: steps ?? flow.steps,
+      isActive: isActive ?? flow.isActive,
+    };
+
+    const error = await validateFlowDefinition(values, device.userId);
+    if (error) {
+      return errorResponse(res, error, 400);
+    }
+
+    await flow.update(values);
+
+    logger.info(`🧭 Flow updated: "${flow.name}" (ID: ${flowId})`);
+
+    return successResponse(res, "Flow updated", flow);
+  } catch (error) {
+    logger.error("❌ Error updating flow:", error);
+    return errorResponse(res, "Failed to update flow", 500);
+  }
+};
+
+/**
+ * Delete a flow
+ */
+const deleteFlow = async (req, res) => {
+  try {
+    const { deviceId, flowId } = req.params;
+    const userId = req.user.id;
+    const isAdmin = req.user.role === "admin";
+
+    // Verify device ownership
+    const device = await WhatsAppSession.findOne({
+      where: { deviceId },
+    });
+
+    if (!device) {
+      return errorResponse(res, "Device not found", 404);
+    }
+
+    if (!isAdmin && device.userId !== userId) {
+      return errorResponse(res, "Access denied", 403);
+    }
+
+    const flow = await BotFlow.findOne({
+      where: { id: flowId, deviceId },
+    });
+
+    if (!flow) {
+      return errorResponse(res, "Flow not found", 404);
+    }
+
+    await flow.destroy();
+
+    logger.info(`🗑️ Flow deleted: ID ${flowId} from device ${deviceId}`);
+
+    return successResponse(res, "Flow deleted");
+  } catch (error) {
+    logger.error("❌ Error deleting flow:", error);
+    return errorResponse(res, "Failed to delete flow", 500);
+  }
+};
+
+/**
+ * Simulate the bot reply to a message
+ * Nothing is sent or stored: the client keeps the returned session and sends
+ * it with the next message. An unsaved flow from the editor can be tested by
+ * passing it as `flow`.
+ */
+const simulateMessage = async (req, res) => {
+  try {
+    const { deviceId } = req.params;
+    const userId = req.user.id;
+    const isAdmin = req.user.role === "admin";
+
+    // Verify device ownership
+    const device = await WhatsAppSession.findOne({
+      where: { deviceId },
+    });
+
+    if (!device) {
+      return errorResponse(res, "Device not found", 404);
+    }
+
+    if (!isAdmin && device.userId !== userId) {
+      return errorResponse(res, "Access denied", 403);
+    }
+
+    const { message, session, flow } = req.body;
+
+    if (!message || typeof message !== "string" || message.length > 4096) {
+      return errorResponse(res, "Message is required (max 4096 characters)", 400);
+    }
+
+    if (
+      session &&
+      (typeof session !== "object" ||
+        typeof session.stepId !== "string" ||
+        (session.fields && typeof session.fields !== "object"))
+    ) {
+      return errorResponse(res, "Invalid session", 400);
+    }
+
+    let draftFlow = null;
+    if (flow) {
+      draftFlow = {
+        id: Number.isInteger(flow.id) ? flow.id : null,
+        name: flow.name,
+        trigger: flow.trigger,
+        matchType: flow.matchType || "exact",
+        timeoutMinutes: flow.timeoutMinutes,
+        startStepId: flow.startStepId,
+        steps: flow.steps,
+      };
+      const error = await validateFlowDefinition(draftFlow, device.userId);
+      if (error) {
+        return errorResponse(res, error, 400);
+      }
+    }
+
+    const result = await autoReplyService.simulate(deviceId, message, session || null, draftFlow);
+
+    return successResponse(res, "Simulation completed", result);
+  } catch (error) {
+    logger.error("❌ Error simulating bot reply:", error);
+    return errorResponse(res, "Failed to simulate bot reply", 500);
+  }
+};
+
 // ==================== HANDOFFS ====================
 
 /**
@@ -350,7 +689,7 @@ const listHandoffs = async (req, res) => {
     const userId = req.user.id;
     const isAdmin = req.user.role === "admin";
 
-    // Verify device ownership
+    // Verify device access (owner or workspace agent)
     const device = await WhatsAppSession.findOne({
       where: { deviceId },
     });
@@ -359,7 +698,7 @@ const listHandoffs = async (req, res) => {
       return errorResponse(res, "Device not found", 404);
     }
 
-    if (!isAdmin && device.userId !== userId) {
+    if (!isAdmin && !(await workspaceService.isAgent(device.userId, userId))) {
       return errorResponse(res, "Access denied", 403);
     }
 
@@ -384,7 +723,7 @@ const resumeHandoff = async (req, res) => {
     const userId = req.user.id;
     const isAdmin = req.user.role === "admin";
 
-    // Verify device ownership
+    // Verify device access (owner or workspace agent)
     const device = await WhatsAppSession.findOne({
       where: { deviceId },
     });
@@ -393,11 +732,11 @@ const resumeHandoff = async (req, res) => {
       return errorResponse(res, "Device not found", 404);
     }
 
-    if (!isAdmin && device.userId !== userId) {
+    if (!isAdmin && !(await workspaceService.isAgent(device.userId, userId))) {
       return errorResponse(res, "Access denied", 403);
     }
 
-    const result = await handoffService.resumeBot(deviceId, senderJid, "admin");
+    const result = await handoffService.resumeBot(deviceId, senderJid, isAdmin ? "admin" : "agent");
 
     if (result.success) {
       return successResponse(res, "Bot resumed for sender", {
@@ -413,6 +752,176 @@ const resumeHandoff = async (req, res) => {
   }
 };
 
+/**
+ * Load an unresolved handoff the current user works on, with the owner of
+ * its device. Sends the error response and returns null otherwise.
+ */
+const loadHandoffForAgent = async (req, res) => {
+  const handoff = await handoffService.findOpenHandoff(req.params.handoffId);
+  if (!handoff) {
+    errorResponse(res, "Handoff not found or already resolved", 404);
+    return null;
+  }
+
+  const device = await WhatsAppSession.findOne({
+    where: { deviceId: handoff.deviceId },
+  });
+  if (!device) {
+    errorResponse(res, "Device not found", 404);
+    return null;
+  }
+
+  if (req.user.role !== "admin" && !(await workspaceService.isAgent(device.userId, req.user.id))) {
+    errorResponse(res, "Access denied", 403);
+    return null;
+  }
+
+  return { handoff, ownerId: device.userId };
+};
+
+/**
+ * Handoffs of all devices the user works on (their queue)
+ */
+const listAgentQueue = async (req, res) => {
+  try {
+    const { assignee, status } = req.query;
+
+    if (status && !["open", "pending_customer"].includes(status)) {
+      return errorResponse(res, "status must be open or pending_customer", 400);
+    }
+
+    const handoffs = await handoffService.getAgentQueue(req.user, { assignee, status });
+
+    return successResponse(res, "Handoff queue retrieved", {
+      count: handoffs.length,
+      handoffs,
+    });
+  } catch (error) {
+    logger.error("❌ Error listing handoff queue:", error);
+    return errorResponse(res, "Failed to list handoff queue", 500);
+  }
+};
+
+/**
+ * Agents handoffs of a device can be assigned to
+ */
+const listHandoffAgents = async (req, res) => {
+  try {
+    const { deviceId } = req.params;
+    const userId = req.user.id;
+    const isAdmin = req.user.role === "admin";
+
+    // Verify device access (owner or workspace agent)
+    const device = await WhatsAppSession.findOne({
+      where: { deviceId },
+    });
+
+    if (!device) {
+      return errorResponse(res, "Device not found", 404);
+    }
+
+    if (!isAdmin && !(await workspaceService.isAgent(device.userId, userId))) {
+      return errorResponse(res, "Access denied", 403);
+    }
+
+    const agents = await workspaceService.listAgents(device.userId);
+
+    return successResponse(res, "Agents retrieved", { agents });
+  } catch (error) {
+    logger.error("❌ Error listing handoff agents:", error);
+    return errorResponse(res, "Failed to list agents", 500);
+  }
+};
+
+/**
+ * Assign a handoff and/or change its status
+ */
+const updateHandoff = async (req, res) => {
+  try {
+    const { assignedTo, status } = req.body;
+
+    if (assignedTo === undefined && status === undefined) {
+      return errorResponse(res, "assignedTo or status is required", 400);
+    }
+
+    if (assignedTo !== undefined && assignedTo !== null && !Number.isInteger(assignedTo)) {
+      return errorResponse(res, "assignedTo must be a user ID or null", 400);
+    }
+
+    if (status !== undefined && !handoffService.HANDOFF_STATUSES.includes(status)) {
+      return errorResponse(
+        res,
+        `status must be one of: ${handoffService.HANDOFF_STATUSES.join(", ")}`,
+        400
+      );
+    }
+
+    const loaded = await loadHandoffForAgent(req, res);
+    if (!loaded) return;
+    const { handoff, ownerId } = loaded;
+
+    if (assignedTo !== undefined) {
+      try {
+        await handoffService.assignHandoff(handoff, assignedTo, req.user, ownerId);
+      } catch (error) {
+        return errorResponse(res, error.message, 400);
+      }
+    }
+
+    let resumeMessage = null;
+    if (status !== undefined) {
+      ({ resumeMessage } = await handoffService.updateHandoffStatus(handoff, status));
+    }
+
+    const summary = await handoffService.summarizeHandoff(handoff);
+
+    return successResponse(res, "Handoff updated", { ...summary, resumeMessage });
+  } catch (error) {
+    logger.error("❌ Error updating handoff:", error);
+    return errorResponse(res, "Failed to update handoff", 500);
+  }
+};
+
+/**
+ * Internal notes of a handoff
+ */
+const listHandoffNotes = async (req, res) => {
+  try {
+    const loaded = await loadHandoffForAgent(req, res);
+    if (!loaded) return;
+
+    const notes = await handoffService.listNotes(loaded.handoff.id);
+
+    return successResponse(res, "Notes retrieved", { notes });
+  } catch (error) {
+    logger.error("❌ Error listing handoff notes:", error);
+    return errorResponse(res, "Failed to list notes", 500);
+  }
+};
+
+/**
+ * Add an internal note to a handoff (not sent to the customer)
+ */
+const addHandoffNote = async (req, res) => {
+  try {
+    const body = typeof req.body.body === "string" ? req.body.body.trim() : "";
+
+    if (!body || body.length > 2000) {
+      return errorResponse(res, "body is required (max 2000 characters)", 400);
+    }
+
+    const loaded = await loadHandoffForAgent(req, res);
+    if (!loaded) return;
+
+    const note = await handoffService.addNote(loaded.handoff.id, req.user, body);
+
+    return successResponse(res, "Note added", note, 201);
+  } catch (error) {
+    logger.error("❌ Error adding handoff note:", error);
+    return errorResponse(res, "Failed to add note", 500);
+  }
+};
+
 // ==================== BOT LOGS ====================
 
 /**
@@ -518,9 +1027,20 @@ module.exports = {
   createRule,
   updateRule,
   deleteRule,
+  // Flows
+  listFlows,
+  createFlow,
+  updateFlow,
+  deleteFlow,
+  simulateMessage,
   // Handoffs
   listHandoffs,
   resumeHandoff,
+  listAgentQueue,
+  listHandoffAgents,
+  updateHandoff,
+  listHandoffNotes,
+  addHandoffNote,
   // Logs
   getBotLogs,
   // Stats
@@ -0,0 +1,316 @@
+/**
+ * Webhook Controller
+ * Manage per-device outbound webhooks and inspect their delivery log
+ */
+
+const { Webhook, WebhookDelivery, WhatsAppSession } = require("../models");
+const webhookService = require("../services/webhookService");
+const logger = require("../utils/logger");
+const { isPublicUrl } = require("../utils/publicAddress");
+
+const DEFAULT_DELIVERY_LIMIT = 50;
+const MAX_DELIVERY_LIMIT = 200;
+
+/**
+ * Load a device and check the caller may manage it.
+ * Sends the error response itself and returns null when access is denied.
+ */
+const findOwnedDevice = async (req, res) => {
+  const device = await WhatsAppSession.findOne({
+    where: { deviceId: req.params.deviceId },
+  });
+
+  if (!device) {
+    res.status(404).json({ success: false, message: "Device not found" });
+    return null;
+  }
+
+  if (req.user.role !== "admin" && device.userId !== req.user.id) {
+    res.status(403).json({ success: false, message: "Access denied" });
+    return null;
+  }
+
+  return device;
+};
+
+/**
+ * Load a webhook that belongs to the device in the URL
+ */
+const findDeviceWebhook = async (req, res) => {
+  const device = await findOwnedDevice(req, res);
+  if (!device) return null;
+
+  const webhook = await Webhook.findOne({
+    where: { id: req.params.webhookId, deviceId: device.deviceId },
+  });
+
+  if (!webhook) {
+    res.status(404).json({ success: false, message: "Webhook not found" });
+    return null;
+  }
+
+  return webhook;
+};
+
+/**
+ * Refuse URLs that resolve to loopback, private or link-local addresses.
+ * Sends the error response itself and returns false when refused.
+ */
+const checkPublicUrl = async (url, res) => {
+  if (await isPublicUrl(url)) return true;
+
+  res.status(400).json({
+    success: false,
+    message: "Webhook URL must resolve to a public internet address",
+  });
+  return false;
+};
+
+const serverError = (res, message, error) =>
+  res.status(500).json({
+    success: false,
+    message,
+    error: process.env.NODE_ENV === "development" ? error.message : undefined,
+  });
+
+/**
+ * List webhooks for a device
+ * GET /api/webhooks/devices/:deviceId
+ */
+const listWebhooks = async (req, res) => {
+  try {
+    const device = await findOwnedDevice(req, res);
+    if (!device) return;
+
+    const webhooks = await Webhook.findAll({
+      where: { deviceId: device.deviceId },
+      order: [["createdAt", "ASC"]],
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Webhooks retrieved",
+      data: { webhooks, events: webhookService.WEBHOOK_EVENTS },
+    });
+  } catch (error) {
+    logger.error("❌ Error listing webhooks:", error);
+    serverError(res, "Failed to list webhooks", error);
+  }
+};
+
+/**
+ * Create a webhook. The signing secret is generated here and only
+ * returned in this response (and when rotated).
+ * POST /api/webhooks/devices/:deviceId
+ */
+const createWebhook = async (req, res) => {
+  try {
+    const device = await findOwnedDevice(req, res);
+    if (!device) return;
+
+    const { url, events, description, isActive } = req.body;
+    if (!(await checkPublicUrl(url, res))) return;
+
+    const secret = webhookService.generateSecret();
+
+    const webhook = await Webhook.create({
+      userId: device.userId,
+      deviceId: device.deviceId,
+      url,
+      secret,
+      events,
+      description: description || null,
+      isActive: isActive !== false,
+    });
+
+    logger.info(`🪝 Webhook ${webhook.id} created for device ${device.deviceId}`);
+
+    res.status(201).json({
+      success: true,
+      message: "Webhook created",
+      data: { webhook, secret },
+    });
+  } catch (error) {
+    logger.error("❌ Error creating webhook:", error);
+    serverError(res, "Failed to create webhook", error);
+  }
+};
+
+/**
+ * Update URL, event filter, description or active flag
+ * PUT /api/webhooks/devices/:deviceId/:webhookId
+ */
+const updateWebhook = async (req, res) => {
+  try {
+    const webhook = await findDeviceWebhook(req, res);
+    if (!webhook) return;
+
+    if (req.body.url !== undefined && !(await checkPublicUrl(req.body.url, res))) return;
+
+    const updates = {};
+    for (const field of ["url", "events", "isActive"]) {
+      if (req.body[field] !== undefined) updates[field] = req.body[field];
+    }
+    if (req.body.description !== undefined) {
+      updates.description = req.body.description || null;
+    }
+
+    await webhook.update(updates);
+
+    res.status(200).json({
+      success: true,
+      message: "Webhook updated",
+      data: webhook,
+    });
+  } catch (error) {
+    logger.error("❌ Error updating webhook:", error);
+    serverError(res, "Failed to update webhook", error);
+  }
+};
+
+/**
+ * Delete a webhook and its delivery log
+ * DELETE /api/webhooks/devices/:deviceId/:webhookId
+ */
+const deleteWebhook = async (req, res) => {
+  try {
+    const webhook = await findDeviceWebhook(req, res);
+    if (!webhook) return;
+
+    await WebhookDelivery.destroy({ where: { webhookId: webhook.id } });
+    await webhook.destroy();
+
+    res.status(200).json({ success: true, message: "Webhook deleted" });
+  } catch (error) {
+    logger.error("❌ Error deleting webhook:", error);
+    serverError(res, "Failed to delete webhook", error);
+  }
+};
+
+/**
+ * Replace the signing secret
+ * POST /api/webhooks/devices/:deviceId/:webhookId/rotate-secret
+ */
+const rotateSecret = async (req, res) => {
+  try {
+    const webhook = await findDeviceWebhook(req, res);
+    if (!webhook) return;
+
+    const secret = webhookService.generateSecret();
+    await webhook.update({ secret });
+
+    res.status(200).json({
+      success: true,
+      message: "Webhook secret rotated",
+      data: { secret },
+    });
+  } catch (error) {
+    logger.error("❌ Error rotating webhook secret:", error);
+    serverError(res, "Failed to rotate webhook secret", error);
+  }
+};
+
+/**
+ * Send a test event and report the first attempt
+ * POST /api/webhooks/devices/:deviceId/:webhookId/test
+ */
+const testWebhook = async (req, res) => {
+  try {
+    const webhook = await findDeviceWebhook(req, res);
+    if (!webhook) return;
+
+    const delivery = await webhookService.sendTestEvent(webhook);
+    const delivered = delivery.status === "success";
+
+    res.status(200).json({
+      success: true,
+      message: delivered
+        ? "Test event delivered"
+        : `Test event failed: ${delivery.error || "unknown error"}`,
+      data: delivery,
+    });
+  } catch (error) {
+    logger.error("❌ Error sending test webhook:", error);
+    serverError(res, "Failed to send test event", error);
+  }
+};
+
+/**
+ * Delivery log for a webhook, newest first
+ * GET /api/webhooks/devices/:deviceId/:webhookId/deliveries?status=&limit=
+ */
+const listDeliveries = async (req, res) => {
+  try {
+    const webhook = await findDeviceWebhook(req, res);
+    if (!webhook) return;
+
+    const where = { webhookId: webhook.id };
+    if (["pending", "success", "failed"].includes(req.query.status)) {
+      where.status = req.query.status;
+    }
+
+    const limit = Math.min(
+      parseInt(req.query.limit, 10) || DEFAULT_DELIVERY_LIMIT,
+      MAX_DELIVERY_LIMIT
+    );
+
+    const deliveries = await WebhookDelivery.findAll({
+      where,
+      order: [["createdAt", "DESC"]],
+      limit,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Deliveries retrieved",
+      data: { deliveries, maxAttempts: webhookService.MAX_ATTEMPTS },
+    });
+  } catch (error) {
+    logger.error("❌ Error listing webhook deliveries:", error);
+    serverError(res, "Failed to list deliveries", error);
+  }
+};
+
+/**
+ * Send a logged delivery again
+ * POST /api/webhooks/devices/:deviceId/:webhookId/deliveries/:deliveryId/redeliver
+ */
+const redeliverDelivery = async (req, res) => {
+  try {
+    const webhook = await findDeviceWebhook(req, res);
+    if (!webhook) return;
+
+    const delivery = await WebhookDelivery.findOne({
+      where: { id: req.params.deliveryId, webhookId: webhook.id },
+    });
+
+    if (!delivery) {
+      return res.status(404).json({ success: false, message: "Delivery not found" });
+    }
+
+    await webhookService.redeliver(delivery, webhook);
+
+    res.status(200).json({
+      success: true,
+      message:
+        delivery.status === "success"
+          ? "Delivery succeeded"
+          : `Delivery failed: ${delivery.error || "unknown error"}`,
+      data: delivery,
+    });
+  } catch (error) {
+    logger.error("❌ Error redelivering webhook:", error);
+    serverError(res, "Failed to redeliver", error);
+  }
+};
+
+module.exports = {
+  listWebhooks,
+  createWebhook,
+  updateWebhook,
+  deleteWebhook,
+  rotateSecret,
+  testWebhook,
+  listDeliveries,
+  redeliverDelivery,
+};
@@ -3,12 +3,32 @@ const whatsappService = require("../services/whatsappService");
 const jobQueueService = require("../services/jobQueueService");
 const statisticsService = require("../services/statisticsService");
 const scheduledMessageService = require("../services/scheduledMessageService");
-const { Group, Message, WhatsAppSession, Contact, MessageTemplate } = require("../models");
+const apiKeyService = require("../services/apiKeyService");
+const contactImportService = require("../services/contactImportService");
+const segmentService = require("../services/segmentService");
+const suppressionService = require("../services/suppressionService");
+const campaignService = require("../services/campaignService");
+const mediaStorageService = require("../services/mediaStorageService");
+const workspaceService = require("../services/workspaceService");
+const { Group, Message, WhatsAppSession, Contact, MessageTemplate, AudienceSegment } = require("../models");
 const { Op } = require("sequelize");
 const fs = require("fs");
 const logger = require("../utils/logger");
 const { successResponse, errorResponse } = require("../utils/responseHelper");
-const { normalizePhoneNumber, validatePhoneNumber } = require("../utils/validation");
+const {
+  normalizePhoneNumber,
+  validatePhoneNumber,
+  sanitizeContactTags,
+} = require("../utils/validation");
+const { COUNTRIES, resolveDefaultCountry } = require("../utils/phoneNumber");
+const { getOccurrences, isValidTimezone } = require("../utils/recurrence");
+const { renderTemplate } = require("../utils/templateVariables");
+const { jobs } = require("../utils/sharedConstants.json");
+
+const MAX_JOB_ITEMS = jobs.maxItems;
+
+const invalidPhoneMessage = (country) =>
+  `Format nomor telepon tidak valid. Gunakan format internasional (+kode negara) atau nomor ${COUNTRIES[country].name}`;
 
 /**
  * Create a new device
@@ -208,6 +228,54 @@ const getDevice = async (req, res) => {
   }
 };
 
+/**
+ * Update device settings (default country for phone numbers)
+ */
+const updateDeviceSettings = async (req, res) => {
+  try {
+    const { deviceId } = req.params;
+    const { defaultCountry } = req.body;
+    const userId = req.user.id;
+
+    const device = await deviceManager.getDevice(deviceId);
+
+    if (!device) {
+      const { response, statusCode } = errorResponse(
+        "Device tidak ditemukan",
+        null,
+        404
+      );
+      return res.status(statusCode).json(response);
+    }
+
+    if (device.userId !== userId && req.user.role !== "admin") {
+      const { response, statusCode } = errorResponse(
+        "Akses ditolak",
+        null,
+        403
+      );
+      return res.status(statusCode).json(response);
+    }
+
+    await deviceManager.updateDeviceStatus(deviceId, { defaultCountry });
+    const updatedDevice = await deviceManager.getDevice(deviceId);
+
+    const { response, statusCode } = successResponse(
+      deviceManager.formatDeviceForResponse(updatedDevice),
+      "Pengaturan device berhasil disimpan"
+    );
+    res.status(statusCode).json(response);
+  } catch (error) {
+    logger.error("Update device settings error:", error);
+    const { response, statusCode } = errorResponse(
+      "Gagal menyimpan pengaturan device",
+      error.message,
+      500
+    );
+    res.status(statusCode).json(response);
+  }
+};
+
 /**
  * Get device status
  */
@@ -674,17 +742,6 @@ const generatePairingCode = async (req, res) => {
       return res.status(statusCode).json(response);
     }
 
-    // Validate and normalize phone number
-    const normalizedPhone = normalizePhoneNumber(phoneNumber);
-    if (!normalizedPhone) {
-      const { response, statusCode } = errorResponse(
-        "Format nomor telepon tidak valid. Format: +62, 62, atau 0 diikuti 8-13 digit",
-        null,
-        400
-      );
-      return res.status(statusCode).json(response);
-    }
-
     // Verify device belongs to user
     const device = await deviceManager.getDevice(deviceId);
     if (!device) {
@@ -705,6 +762,18 @@ const generatePairingCode = async (req, res) => {
       return res.status(statusCode).json(response);
     }
 
+    // Validate and normalize phone number
+    const defaultCountry = resolveDefaultCountry(device, req.user);
+    const normalizedPhone = normalizePhoneNumber(phoneNumber, defaultCountry);
+    if (!normalizedPhone) {
+      const { response, statusCode } = errorResponse(
+        invalidPhoneMessage(defaultCountry),
+        null,
+        400
+      );
+      return res.status(statusCode).json(response);
+    }
+
     // Generate pairing code using WhatsAppService
     const pairingCode = await whatsappService.generatePairingCodeForDevice(deviceId, normalizedPhone);
 
@@ -742,8 +811,7 @@ const generatePairingCode = async (req, res) => {
 const sendMessage = async (req, res) => {
   try {
     const { deviceId } = req.params;
-    const { to, phone, message, messages, delay = 3, type = "text" } = req.body;
-    const userId = req.user.id;
+    const { to, phone, message, messages, delay = 3, type = "text", quotedMessageId } = req.body;
 
     // Verify device belongs to user
     const device = await deviceManager.getDevice(deviceId);
@@ -756,7 +824,9 @@ const sendMessage = async (req, res) => {
       return res.status(statusCode).json(response);
     }
 
-    if (device.userId !== userId && req.user.role !== "admin") {
+    // Workspace members only work on chats handed off to the team
+    const chatAccess = await workspaceService.getChatAccess(req.user, device);
+    if (!chatAccess) {
       const { response, statusCode } = errorResponse(
         "Akses ditolak",
         null,
@@ -765,9 +835,19 @@ const sendMessage = async (req, res) => {
       return res.status(statusCode).json(response);
     }
 
+    const defaultCountry = resolveDefaultCountry(device, req.user);
+
     // Detect bulk mode (if messages array exists)
     if (messages && Array.isArray(messages)) {
       // Bulk mode
+      if (chatAccess !== "all") {
+        const { response, statusCode } = errorResponse(
+          "Anggota workspace tidak dapat mengirim pesan massal",
+          null,
+          403
+        );
+        return res.status(statusCode).json(response);
+      }
       if (messages.length === 0) {
         const { response, statusCode } = errorResponse(
           "Array messages tidak boleh kosong",
@@ -804,7 +884,7 @@ const sendMessage = async (req, res) => {
       for (let i = 0; i < messages.length; i++) {
         const msg = messages[i];
         const phoneNumber = msg.to || msg.phone;
-        const cleanPhone = normalizePhoneNumber(phoneNumber);
+        const cleanPhone = normalizePhoneNumber(phoneNumber, defaultCountry);
 
         // Validate phone number format
         if (!cleanPhone) {
@@ -812,7 +892,7 @@ const sendMessage = async (req, res) => {
           results.push({
             to: phoneNumber,
             status: "error",
-            error: "Format nomor telepon tidak valid. Format: +62, 62, atau 0 diikuti 8-13 digit",
+            error: invalidPhoneMessage(defaultCountry),
           });
           continue;
         }
@@ -877,16 +957,25 @@ const sendMessage = async (req, res) => {
       }
 
       // Validate and normalize phone number
-      const cleanPhone = normalizePhoneNumber(phoneNumber);
+      const cleanPhone = normalizePhoneNumber(phoneNumber, defaultCountry);
       if (!cleanPhone) {
         const { response, statusCode } = errorResponse(
-          "Format nomor telepon tidak valid. Format: +62, 62, atau 0 diikuti 8-13 digit",
+          invalidPhoneMessage(defaultCountry),
           null,
           400
         );
         return res.status(statusCode).json(response);
       }
 
+      if (chatAccess !== "all" && !(await workspaceService.getHandoffNumbers(deviceId)).has(cleanPhone)) {
+        const { response, statusCode } = errorResponse(
+          "Anggota workspace hanya dapat membalas percakapan handoff",
+          null,
+          403
+        );
+        return res.status(statusCode).json(response);
+      }
+
       // Validate message length
       if (message.length > 4096) {
         const { response, statusCode } = errorResponse(
@@ -901,7 +990,8 @@ const sendMessage = async (req, res) => {
         deviceId,
         cleanPhone,
         message,
-        type
+        type,
+        { quotedMessageId }
       );
 
       const { response, statusCode } = successResponse({
@@ -909,6 +999,7 @@ const sendMessage = async (req, res) => {
         to: cleanPhone,
         message: message,
         type: type,
+        quotedMessageId: quotedMessageId || null,
         timestamp: new Date().toISOString(),
         deviceId: deviceId,
       }, "Pesan berhasil dikirim");
@@ -927,6 +1018,12 @@ const sendMessage = async (req, res) => {
     } else if (error.message === "WhatsApp not connected") {
       statusCode = 400;
       errorMessage = "Session device tidak aktif. Silakan koneksikan ulang.";
+    } else if (error.message === "Recipient has opted out") {
+      statusCode = 400;
+      errorMessage = "Nomor tujuan sudah berhenti berlangganan (opt-out)";
+    } else if (error.message === "Quoted message not found") {
+      statusCode = 404;
+      errorMessage = "Pesan yang dibalas tidak ditemukan";
     }
 
     const { response, statusCode: errorStatusCode } = errorResponse(
@@ -945,7 +1042,6 @@ const sendMessage = async (req, res) => {
 const sendMedia = async (req, res) => {
   try {
     const { deviceId } = req.params;
-    const userId = req.user.id;
 
     // Verify device belongs to user
     const device = await deviceManager.getDevice(deviceId);
@@ -958,7 +1054,9 @@ const sendMedia = async (req, res) => {
       return res.status(statusCode).json(response);
     }
 
-    if (device.userId !== userId && req.user.role !== "admin") {
+    // Workspace members only work on chats handed off to the team
+    const chatAccess = await workspaceService.getChatAccess(req.user, device);
+    if (!chatAccess) {
       const { response, statusCode } = errorResponse(
         "Akses ditolak",
         null,
@@ -967,6 +1065,8 @@ const sendMedia = async (req, res) => {
       return res.status(statusCode).json(response);
     }
 
+    const defaultCountry = resolveDefaultCountry(device, req.user);
+
     // Check if bulk mode (items array exists)
     // Handle case where items might be a JSON string (from FormData)
     let items = req.body.items;
@@ -982,6 +1082,14 @@ const sendMedia = async (req, res) => {
 
     if (isBulk) {
       // Bulk mode
+      if (chatAccess !== "all") {
+        const { response, statusCode } = errorResponse(
+          "Anggota workspace tidak dapat mengirim pesan massal",
+          null,
+          403
+        );
+        return res.status(statusCode).json(response);
+      }
       if (items.length === 0) {
         const { response, statusCode } = errorResponse(
           "Array items tidak boleh kosong",
@@ -1030,13 +1138,13 @@ const sendMedia = async (req, res) => {
 
         try {
           // Normalize phone number
-          const cleanPhone = normalizePhoneNumber(phoneNumber);
+          const cleanPhone = normalizePhoneNumber(phoneNumber, defaultCountry);
           if (!cleanPhone) {
             errorCount++;
             results.push({
               to: phoneNumber,
               status: "error",
-              error: "Format nomor telepon tidak valid",
+              error: invalidPhoneMessage(defaultCountry),
             });
             continue;
           }
@@ -1163,16 +1271,25 @@ const sendMedia = async (req, res) => {
       }
 
       // Normalize phone number
-      const cleanPhone = normalizePhoneNumber(to);
+      const cleanPhone = normalizePhoneNumber(to, defaultCountry);
       if (!cleanPhone) {
         const { response, statusCode } = errorResponse(
-          "Format nomor telepon tidak valid. Format: +62, 62, atau 0 diikuti 8-13 digit",
+          invalidPhoneMessage(defaultCountry),
           null,
           400
         );
         return res.status(statusCode).json(response);
       }
 
+      if (chatAccess !== "all" && !(await workspaceService.getHandoffNumbers(deviceId)).has(cleanPhone)) {
+        const { response, statusCode } = errorResponse(
+          "Anggota workspace hanya dapat membalas percakapan handoff",
+          null,
+          403
+        );
+        return res.status(statusCode).json(response);
+      }
+
       // Get media data
       let mediaBuffer;
       let fileName = req.body.fileName || null;
@@ -1226,7 +1343,8 @@ const sendMedia = async (req, res) => {
         mediaBuffer,
         req.body.caption || null,
         fileName,
-        mimetype
+        mimetype,
+        { quotedMessageId: req.body.quotedMessageId || null }
       );
 
       const { response, statusCode } = successResponse(
@@ -1253,6 +1371,12 @@ const sendMedia = async (req, res) => {
     } else if (error.message === "WhatsApp not connected") {
       statusCode = 400;
       errorMessage = "Session device tidak aktif. Silakan koneksikan ulang.";
+    } else if (error.message === "Recipient has opted out") {
+      statusCode = 400;
+      errorMessage = "Nomor tujuan sudah berhenti berlangganan (opt-out)";
+    } else if (error.message === "Quoted message not found") {
+      statusCode = 404;
+      errorMessage = "Pesan yang dibalas tidak ditemukan";
     }
 
     const { response, statusCode: errorStatusCode } = errorResponse(
@@ -1268,6 +1392,10 @@ const sendMedia = async (req, res) => {
  * Create send-text job (bulk messaging)
  */
 const createSendTextJob = async (req, res) => {
+  if (req.body && req.body.segmentId) {
+    return createSegmentTextJob(req, res);
+  }
+
   try {
     const { deviceId } = req.params;
     const { messages, delay = 3 } = req.body; // delay is now root level, not in options
@@ -1283,9 +1411,9 @@ const createSendTextJob = async (req, res) => {
       return res.status(statusCode).json(response);
     }
 
-    if (messages.length > 100) {
+    if (messages.length > MAX_JOB_ITEMS) {
       const { response, statusCode } = errorResponse(
-        "Maksimal 100 pesan per job",
+        `Maksimal ${MAX_JOB_ITEMS} pesan per job`,
         null,
         400
       );
@@ -1312,6 +1440,8 @@ const createSendTextJob = async (req, res) => {
       return res.status(statusCode).json(response);
     }
 
+    const defaultCountry = resolveDefaultCountry(device, req.user);
+
     // Validate each message
     for (const msg of messages) {
       if (!msg.to || !msg.message) {
@@ -1327,20 +1457,21 @@ const createSendTextJob = async (req, res) => {
     // Create job payload
     const data = {
       delay: delay, // Store delay for job processor
-      messages: messages 
+      messages: messages,
+      defaultCountry, // Needed to match messages to normalized recipients
     };
     
     // Extract recipients for JobItem creation and normalize them
     const recipients = messages.map(m => {
       const phone = m.to || m.phone;
-      return normalizePhoneNumber(phone);
+      return normalizePhoneNumber(phone, defaultCountry);
     }).filter(p => p !== null); // Remove invalid phone numbers
 
     // Validate that we have at least one valid recipient
     if (recipients.length === 0) {
       const { response, statusCode } = errorResponse(
         "Tidak ada nomor telepon yang valid setelah normalisasi",
-        "Pastikan format nomor: +62xxx, 62xxx, atau 08xxx",
+        invalidPhoneMessage(defaultCountry),
         400
       );
       return res.status(statusCode).json(response);
@@ -1376,6 +1507,77 @@ const createSendTextJob = async (req, res) => {
   }
 };
 
+/**
+ * Create send-text job for a saved audience segment
+ * Body: { segmentId, message, delay }. The message may use {{variables}}
+ * (name, phone, email, custom fields) and is rendered per contact.
+ */
+const createSegmentTextJob = async (req, res) => {
+  try {
+    const { deviceId } = req.params;
+    const { segmentId, message, delay = 3 } = req.body;
+    const userId = req.user.id;
+
+    if (!message || typeof message !== "string" || !message.trim()) {
+      const { response, statusCode } = errorResponse("Field 'message' wajib diisi", null, 400);
+      return res.status(statusCode).json(response);
+    }
+
+    const device = await deviceManager.getDevice(deviceId);
+    if (!device) {
+      const { response, statusCode } = errorResponse("Device tidak ditemukan", null, 404);
+      return res.status(statusCode).json(response);
+    }
+
+    if (
+      (device.userId !== userId && req.user.role !== "admin") ||
+      (req.apiKey && !apiKeyService.allowsDevice(req.apiKey, deviceId))
+    ) {
+      const { response, statusCode } = errorResponse("Akses ditolak", null, 403);
+      return res.status(statusCode).json(response);
+    }
+
+    const segment = await segmentService.getSegment(userId, segmentId);
+    if (!segment) {
+      const { response, statusCode } = errorResponse("Segment tidak ditemukan", null, 404);
+      return res.status(statusCode).json(response);
+    }
+
+    const result = await segmentService.createSegmentJob({
+      userId,
+      deviceId,
+      segment,
+      message: message.trim(),
+      delay,
+      defaultCountry: resolveDefaultCountry(device, req.user),
+    });
+
+    if (!result.success) {
+      const { response, statusCode } = errorResponse(result.error, null, 400);
+      return res.status(statusCode).json(response);
+    }
+
+    logger.info(`📦 Created segment job ${result.job.id} for device ${deviceId}`);
+
+    const { response, statusCode } = successResponse(
+      {
+        jobId: result.job.id,
+        status: "queued",
+        delaySec: delay,
+        total: result.total,
+        segmentId: segment.id,
+        skipped: result.skipped,
+      },
+      "Job pengiriman teks dibuat"
+    );
+    res.status(statusCode).json(response);
+  } catch (error) {
+    logger.error("Create segment job error:", error);
+    const { response, statusCode } = errorResponse("Gagal membuat job", error.message, 500);
+    res.status(statusCode).json(response);
+  }
+};
+
 /**
  * Create send-media job (bulk media messaging to contacts)
  */
@@ -1395,9 +1597,9 @@ const createSendMediaJob = async (req, res) => {
       return res.status(statusCode).json(response);
     }
 
-    if (items.length > 100) {
+    if (items.length > MAX_JOB_ITEMS) {
       const { response, statusCode } = errorResponse(
-        "Maksimal 100 item per job",
+        `Maksimal ${MAX_JOB_ITEMS} item per job`,
         null,
         400
       );
@@ -1424,6 +1626,8 @@ const createSendMediaJob = async (req, res) => {
       return res.status(statusCode).json(response);
     }
 
+    const defaultCountry = resolveDefaultCountry(device, req.user);
+
     // Validate each item
     for (const item of items) {
       if (!item.to && !item.phoneNumber) {
@@ -1455,11 +1659,23 @@ const createSendMediaJob = async (req, res) => {
     // Create job payload
     const data = {
       items: items, // Store original full items in data
-      delay: delay
+      delay: delay,
+      defaultCountry, // Needed to match items to normalized recipients
     };
 
-    // Extract recipients
-    const recipients = items.map(i => i.to || i.phoneNumber);
+    // Extract recipients and normalize them
+    const recipients = items
+      .map(i => normalizePhoneNumber(i.to || i.phoneNumber, defaultCountry))
+      .filter(p => p !== null);
+
+    if (recipients.length === 0) {
+      const { response, statusCode } = errorResponse(
+        "Tidak ada nomor telepon yang valid setelah normalisasi",
+        invalidPhoneMessage(defaultCountry),
+        400
+      );
+      return res.status(statusCode).json(response);
+    }
 
     // Create job
     const job = await jobQueueService.createJob(
@@ -1513,7 +1729,11 @@ const getJobStatus = async (req, res) => {
     // Verify job belongs to user's device
     // job.deviceId is at root now, not in data
     const device = await deviceManager.getDevice(job.deviceId);
-    if (!device || (device.userId !== userId && req.user.role !== "admin")) {
+    if (
+      !device ||
+      (device.userId !== userId && req.user.role !== "admin") ||
+      (req.apiKey && !apiKeyService.allowsDevice(req.apiKey, job.deviceId))
+    ) {
       const { response, statusCode } = errorResponse(
         "Akses ditolak",
         null,
@@ -1539,15 +1759,19 @@ const getJobStatus = async (req, res) => {
     // Group items by status
     const successItems = job.items.filter(i => i.status === 'sent');
     const failedItems = job.items.filter(i => i.status === 'failed');
+    const skippedItems = job.items.filter(i => i.status === 'skipped');
 
     // Format progress
     const progress = {
       total: progressData.total || 0,
-       // Current index is roughly success + failed. 
+       // Current index is roughly success + failed + skipped.
        // Start from 0 + count.
-      currentIndex: (successItems.length + failedItems.length) || 0,
+      currentIndex: (successItems.length + failedItems.length + skippedItems.length) || 0,
       successCount: successItems.length,
       errorCount: failedItems.length,
+      skippedCount: skippedItems.length,
+      deliveredCount: successItems.filter(i => i.deliveredAt).length,
+      readCount: successItems.filter(i => i.readAt).length,
     };
 
     // Format results
@@ -1558,6 +1782,8 @@ const getJobStatus = async (req, res) => {
       to: item.recipient,
       status: "success",
       messageId: item.messageId,
+      deliveredAt: item.deliveredAt ? item.deliveredAt.toISOString() : null,
+      readAt: item.readAt ? item.readAt.toISOString() : null,
       timestamp: item.processedAt ? item.processedAt.toISOString() : new Date().toISOString()
     })));
 
@@ -1569,6 +1795,14 @@ const getJobStatus = async (req, res) => {
       timestamp: item.processedAt ? item.processedAt.toISOString() : new Date().toISOString()
     })));
 
+    // Map skipped (opted-out) items
+    results = results.concat(skippedItems.map(item => ({
+      to: item.recipient,
+      status: "skipped",
+      error: item.error || "Recipient opted out",
+      timestamp: item.processedAt ? item.processedAt.toISOString() : new Date().toISOString()
+    })));
+
     // Format options
     const options = {
       delaySec: job.data.delay || 3,
@@ -1622,7 +1856,11 @@ const cancelJob = async (req, res) => {
 
     // Verify job belongs to user's device
     const device = await deviceManager.getDevice(job.deviceId);
-    if (!device || (device.userId !== userId && req.user.role !== "admin")) {
+    if (
+      !device ||
+      (device.userId !== userId && req.user.role !== "admin") ||
+      (req.apiKey && !apiKeyService.allowsDevice(req.apiKey, job.deviceId))
+    ) {
       const { response, statusCode } = errorResponse(
         "Akses ditolak",
         null,
@@ -2455,9 +2693,9 @@ const createSendGroupMediaJob = async (req, res) => {
       return res.status(statusCode).json(response);
     }
 
-    if (items.length > 100) {
+    if (items.length > MAX_JOB_ITEMS) {
       const { response, statusCode } = errorResponse(
-        "Maksimal 100 item per job",
+        `Maksimal ${MAX_JOB_ITEMS} item per job`,
         null,
         400
       );
@@ -2839,6 +3077,46 @@ const demoteAdmin = async (req, res) => {
   }
 };
 
+// A download still running after this long was cut off by a restart
+const MEDIA_DOWNLOAD_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Attachment of a stored message. url is null when the file was not
+ * downloaded (see status) or has been removed after the retention period.
+ */
+const formatMessageMedia = (msg) => {
+  if (!msg.messageType || msg.messageType === "text") return null;
+  const metadata = msg.metadata || {};
+  // Sent media keeps its details at the top level of metadata
+  const media = metadata.media || metadata;
+  let status = media.status || (msg.mediaUrl ? "stored" : "not_downloaded");
+  if (status === "downloading" && Date.now() - new Date(msg.updatedAt).getTime() > MEDIA_DOWNLOAD_TIMEOUT_MS) {
+    status = "failed";
+  }
+  return {
+    url: msg.mediaUrl || null,
+    mimetype: media.mimetype || null,
+    fileName: media.fileName || null,
+    size: media.size || null,
+    status,
+  };
+};
+
+/**
+ * Quoted message of a reply; the text is null when the quoted message is
+ * not stored (e.g. older than the synced history)
+ */
+const formatQuotedMessage = (quotedMessageId, quotedById) => {
+  if (!quotedMessageId) return null;
+  const quoted = quotedById.get(quotedMessageId);
+  return {
+    id: quotedMessageId,
+    fromMe: quoted ? quoted.direction === "outgoing" : null,
+    messageType: quoted?.messageType || null,
+    text: quoted?.content || null,
+  };
+};
+
 /**
  * Get chat history for a contact/jid
  */
@@ -2846,7 +3124,6 @@ const getChatHistory = async (req, res) => {
   try {
     const { deviceId, jid } = req.params;
     const { limit = 50, before, source = "auto", waitSeconds = 10 } = req.query;
-    const userId = req.user.id;
 
     // Validate limit
     const limitNum = parseInt(limit);
@@ -2870,7 +3147,8 @@ const getChatHistory = async (req, res) => {
       return res.status(statusCode).json(response);
     }
 
-    if (device.userId !== userId && req.user.role !== "admin") {
+    // Workspace members only work on chats handed off to the team
+    if (!(await workspaceService.canAccessChat(req.user, device, jid.split("@")[0]))) {
       const { response, statusCode } = errorResponse(
         "Akses ditolak",
         null,
@@ -2937,9 +3215,13 @@ const getChatHistory = async (req, res) => {
           "toNumber",
           "messageType",
           "content",
+          "mediaUrl",
           "direction",
           "status",
+          "deliveredAt",
+          "readAt",
           "timestamp",
+          "updatedAt",
           "metadata"
         ]
       });
@@ -2947,6 +3229,18 @@ const getChatHistory = async (req, res) => {
       messages = messages.reverse(); // Reverse to get chronological order
     }
 
+    // Replies show a snippet of the message they quote
+    const quotedIds = [
+      ...new Set(messages.map((msg) => msg.metadata?.quotedMessageId).filter(Boolean)),
+    ];
+    const quotedMessages = quotedIds.length
+      ? await Message.findAll({
+          where: { sessionId: session.id, messageId: { [Op.in]: quotedIds } },
+          attributes: ["messageId", "messageType", "content", "direction"],
+        })
+      : [];
+    const quotedById = new Map(quotedMessages.map((msg) => [msg.messageId, msg]));
+
     // Format messages sesuai dokumentasi
     const formattedMessages = messages.map(msg => ({
       id: msg.messageId || msg.id,
@@ -2954,6 +3248,11 @@ const getChatHistory = async (req, res) => {
       fromMe: msg.direction === "outgoing",
       messageType: msg.messageType || "conversation",
       content: typeof msg.content === "string" ? { text: msg.content } : msg.content,
+      media: formatMessageMedia(msg),
+      quoted: formatQuotedMessage(msg.metadata?.quotedMessageId, quotedById),
+      status: msg.status,
+      deliveredAt: msg.deliveredAt ? new Date(msg.deliveredAt).getTime() : null,
+      readAt: msg.readAt ? new Date(msg.readAt).getTime() : null,
       timestamp: msg.timestamp ? new Date(msg.timestamp).getTime() : null,
     }));
 
@@ -3077,9 +3376,13 @@ const getGroupChatHistory = async (req, res) => {
           "toNumber",
           "messageType",
           "content",
+          "mediaUrl",
           "direction",
           "status",
+          "deliveredAt",
+          "readAt",
           "timestamp",
+          "updatedAt",
           "metadata"
         ]
       });
@@ -3094,6 +3397,10 @@ const getGroupChatHistory = async (req, res) => {
       fromMe: msg.direction === "outgoing",
       messageType: msg.messageType || "conversation",
       content: typeof msg.content === "string" ? { text: msg.content } : msg.content,
+      media: formatMessageMedia(msg),
+      status: msg.status,
+      deliveredAt: msg.deliveredAt ? new Date(msg.deliveredAt).getTime() : null,
+      readAt: msg.readAt ? new Date(msg.readAt).getTime() : null,
       timestamp: msg.timestamp ? new Date(msg.timestamp).getTime() : null,
     }));
 
@@ -3222,6 +3529,8 @@ const getUserContacts = async (req, res) => {
       offset: parseInt(offset, 10)
     });
 
+    const suppressed = await suppressionService.findSuppressed(userId, contacts.map(c => c.phoneNumber));
+
     const { response, statusCode } = successResponse({
       contacts: contacts.map(c => ({
         id: c.id,
@@ -3230,7 +3539,10 @@ const getUserContacts = async (req, res) => {
         email: c.email,
         tags: c.tags || [],
         notes: c.notes,
+        customFields: c.customFields || {},
         isBlocked: c.isBlocked,
+        optedInAt: c.optedInAt,
+        optedOut: suppressed.has(c.phoneNumber),
         lastMessageAt: c.lastMessageAt,
         profilePicture: c.profilePicture,
         createdAt: c.createdAt,
@@ -3259,7 +3571,7 @@ const getUserContacts = async (req, res) => {
 const saveContact = async (req, res) => {
   try {
     const userId = req.user.id;
-    const { phoneNumber, name, email, tags = [], notes } = req.body;
+    const { phoneNumber, name, email, tags = [], notes, optedIn } = req.body;
 
     if (!phoneNumber || !name) {
       const { response, statusCode } = errorResponse(
@@ -3270,10 +3582,11 @@ const saveContact = async (req, res) => {
       return res.status(statusCode).json(response);
     }
 
-    const normalizedPhone = normalizePhoneNumber(phoneNumber);
+    const defaultCountry = resolveDefaultCountry(null, req.user);
+    const normalizedPhone = normalizePhoneNumber(phoneNumber, defaultCountry);
     if (!normalizedPhone) {
       const { response, statusCode } = errorResponse(
-        "Format nomor telepon tidak valid",
+        invalidPhoneMessage(defaultCountry),
         null,
         400
       );
@@ -3289,22 +3602,41 @@ const saveContact = async (req, res) => {
       return res.status(statusCode).json(response);
     }
 
-    const sanitizedTags = tags
-      .slice(0, 10)
-      .map(t => String(t).trim().slice(0, 30))
-      .filter(t => t.length > 0 && /^[\w\s-]+$/.test(t));
+    const sanitizedTags = sanitizeContactTags(tags);
+
+    // Consent can't be recorded for a number on the opt-out list; remove it from the list first
+    if (optedIn === true && (await suppressionService.isSuppressed(userId, normalizedPhone))) {
+      const { response, statusCode } = errorResponse(
+        "Nomor ada di daftar opt-out. Hapus dari daftar opt-out terlebih dahulu",
+        null,
+        400
+      );
+      return res.status(statusCode).json(response);
+    }
 
     const [contact, created] = await Contact.findOrCreate({
       where: { userId, phoneNumber: normalizedPhone },
       defaults: { name, email: email || null, tags: sanitizedTags, notes: notes || null }
     });
 
-    if (!created) {
-      await contact.update({ name, email: email || contact.email, tags: sanitizedTags, notes: notes || contact.notes });
+    const changes = created ? {} : { name, email: email || contact.email, tags: sanitizedTags, notes: notes || contact.notes };
+    if (optedIn === true && !contact.optedInAt) {
+      changes.optedInAt = new Date();
+    } else if (optedIn === false) {
+      changes.optedInAt = null;
+    }
+    if (Object.keys(changes).length > 0) {
+      await contact.update(changes);
     }
 
     const { response, statusCode } = successResponse(
-      { id: contact.id, phoneNumber: contact.phoneNumber, name: contact.name, tags: contact.tags || [] },
+      {
+        id: contact.id,
+        phoneNumber: contact.phoneNumber,
+        name: contact.name,
+        tags: contact.tags || [],
+        optedInAt: contact.optedInAt,
+      },
       created ? "Kontak berhasil disimpan" : "Kontak berhasil diperbarui",
       created ? 201 : 200
     );
@@ -3316,6 +3648,51 @@ const saveContact = async (req, res) => {
   }
 };
 
+/**
+ * Import contacts in bulk (rows parsed from CSV / vCard on the client)
+ * Merges into existing contacts by normalized phone number
+ */
+const importContacts = async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const { deviceId, contacts, tags } = req.body;
+
+    let device = null;
+    if (deviceId) {
+      device = await deviceManager.getDevice(deviceId);
+      if (!device) {
+        const { response, statusCode } = errorResponse("Device tidak ditemukan", null, 404);
+        return res.status(statusCode).json(response);
+      }
+
+      if (
+        (device.userId !== userId && req.user.role !== "admin") ||
+        (req.apiKey && !apiKeyService.allowsDevice(req.apiKey, deviceId))
+      ) {
+        const { response, statusCode } = errorResponse("Akses ditolak", null, 403);
+        return res.status(statusCode).json(response);
+      }
+    }
+
+    const result = await contactImportService.importContacts(userId, {
+      contacts,
+      tags,
+      deviceId: deviceId || null,
+      defaultCountry: resolveDefaultCountry(device, req.user),
+    });
+
+    const { response, statusCode } = successResponse(
+      result,
+      `Import selesai. ${result.created} kontak baru, ${result.updated} diperbarui`
+    );
+    res.status(statusCode).json(response);
+  } catch (error) {
+    logger.error("Import contacts error:", error);
+    const { response, statusCode } = errorResponse("Gagal mengimpor kontak", error.message, 500);
+    res.status(statusCode).json(response);
+  }
+};
+
 /**
  * Update contact tags only
  */
@@ -3336,7 +3713,7 @@ const updateContactTags = async (req, res) => {
       return res.status(statusCode).json(response);
     }
 
-    const sanitizedTags = tags.slice(0, 10).map(t => String(t).trim().slice(0, 30)).filter(t => t.length > 0 && /^[\w\s-]+$/.test(t));
+    const sanitizedTags = sanitizeContactTags(tags);
     await contact.update({ tags: sanitizedTags });
 
     const { response, statusCode } = successResponse(
@@ -3379,99 +3756,171 @@ const getUserTags = async (req, res) => {
  * Schedule a message
  */
 const scheduleMessage = async (req, res) => {
+  // The upload is kept for the worker only when the message is scheduled
+  const rejectWith = (message, statusCode) => {
+    if (req.file) {
+      fs.unlink(req.file.path, () => {});
+    }
+    const { response, statusCode: code } = errorResponse(message, null, statusCode);
+    return res.status(code).json(response);
+  };
+
   try {
     const { deviceId } = req.params;
-    const { to, message, scheduleTime, timezone = "Asia/Jakarta" } = req.body;
+    const {
+      to,
+      segmentId,
+      groupId,
+      mentions = null,
+      message,
+      scheduleTime,
+      timezone = "Asia/Jakarta",
+      recurrence = null,
+      missedRunPolicy = "send_late",
+    } = req.body;
     const userId = req.user.id;
 
     // Validate input
-    if (!to) {
-      const { response, statusCode } = errorResponse(
-        "Field 'to' wajib diisi",
-        null,
-        400
-      );
-      return res.status(statusCode).json(response);
+    if (!to && !segmentId && !groupId) {
+      return rejectWith("Field 'to', 'segmentId' atau 'groupId' wajib diisi", 400);
     }
 
-    if (!message) {
-      const { response, statusCode } = errorResponse(
-        "Field 'message' wajib diisi",
-        null,
-        400
-      );
-      return res.status(statusCode).json(response);
+    // A media message may go without caption
+    if (!message && !req.file) {
+      return rejectWith("Field 'message' wajib diisi", 400);
     }
 
     if (!scheduleTime) {
-      const { response, statusCode } = errorResponse(
-        "Field 'scheduleTime' wajib diisi",
-        null,
-        400
-      );
-      return res.status(statusCode).json(response);
+      return rejectWith("Field 'scheduleTime' wajib diisi", 400);
+    }
+
+    if (mentions && !groupId) {
+      return rejectWith("Mention hanya dapat digunakan untuk pesan grup", 400);
+    }
+
+    if (req.file && (segmentId || mentions)) {
+      return rejectWith("Media tidak dapat dijadwalkan ke segment atau bersama mention", 400);
     }
 
     // Verify device belongs to user
     const device = await deviceManager.getDevice(deviceId);
     if (!device) {
-      const { response, statusCode } = errorResponse(
-        "Device tidak ditemukan",
-        null,
-        404
-      );
-      return res.status(statusCode).json(response);
+      return rejectWith("Device tidak ditemukan", 404);
     }
 
     if (device.userId !== userId && req.user.role !== "admin") {
-      const { response, statusCode } = errorResponse(
-        "Akses ditolak",
-        null,
-        403
-      );
-      return res.status(statusCode).json(response);
+      return rejectWith("Akses ditolak", 403);
     }
 
-    // Normalize phone number
-    const cleanPhone = normalizePhoneNumber(to);
-    if (!cleanPhone) {
-      const { response, statusCode } = errorResponse(
-        "Format nomor telepon tidak valid. Format: +62, 62, atau 0 diikuti 8-13 digit",
-        null,
-        400
-      );
-      return res.status(statusCode).json(response);
+    const defaultCountry = resolveDefaultCountry(device, req.user);
+
+    let cleanPhone = null;
+    let segment = null;
+    let group = null;
+    let mentionJids = null;
+    if (segmentId) {
+      // Expanded into a job when the message is due, so contacts added later are included
+      segment = await segmentService.getSegment(userId, segmentId);
+      if (!segment) {
+        return rejectWith("Segment tidak ditemukan", 404);
+      }
+    } else if (groupId) {
+      group = await Group.findOne({ where: { groupId, deviceId, isActive: true } });
+      if (!group) {
+        return rejectWith("Grup tidak ditemukan di device ini", 404);
+      }
+
+      if (mentions) {
+        // Mentions may be given as numbers or JIDs
+        mentionJids = [];
+        for (const mention of mentions) {
+          const number = normalizePhoneNumber(mention.split("@")[0], defaultCountry);
+          if (!number) {
+            return rejectWith(`Nomor mention tidak valid: ${mention}`, 400);
+          }
+          mentionJids.push(`${number}@s.whatsapp.net`);
+        }
+        mentionJids = [...new Set(mentionJids)];
+      }
+    } else {
+      // Normalize phone number
+      cleanPhone = normalizePhoneNumber(to, defaultCountry);
+      if (!cleanPhone) {
+        return rejectWith(invalidPhoneMessage(defaultCountry), 400);
+      }
+
+      if (await suppressionService.isSuppressed(userId, cleanPhone)) {
+        return rejectWith("Nomor tujuan sudah berhenti berlangganan (opt-out)", 400);
+      }
+    }
+
+    // The media type follows the uploaded file unless given
+    let media = null;
+    if (req.file) {
+      const mimetype = req.file.mimetype;
+      media = {
+        type:
+          req.body.mediaType ||
+          (mimetype.startsWith("image/") ? "image" : mimetype.startsWith("video/") ? "video" : "document"),
+        path: req.file.path,
+        fileName: req.file.originalname,
+        mimetype,
+      };
     }
 
     // Parse schedule time
     const scheduleDate = new Date(scheduleTime);
     if (isNaN(scheduleDate.getTime())) {
-      const { response, statusCode } = errorResponse(
+      return rejectWith(
         "Format scheduleTime tidak valid. Gunakan format ISO 8601 (YYYY-MM-DD HH:mm:ss atau YYYY-MM-DDTHH:mm:ss)",
-        null,
         400
       );
-      return res.status(statusCode).json(response);
+    }
+
+    // A series keeps its wall-clock time in this timezone, so it must be a real one
+    if (recurrence && !isValidTimezone(timezone)) {
+      return rejectWith("Timezone tidak valid. Gunakan nama zona IANA (misalnya Asia/Jakarta)", 400);
+    }
+
+    // The first run of a series is its first occurrence at or after scheduleTime
+    const [firstRun] = recurrence ? getOccurrences(recurrence, scheduleDate, timezone, { limit: 1 }) : [scheduleDate];
+    if (!firstRun) {
+      return rejectWith("Aturan pengulangan tidak menghasilkan jadwal pengiriman", 400);
     }
 
     // Schedule message
-    const scheduledMessageId = scheduledMessageService.scheduleMessage(
+    const scheduledMessageId = await scheduledMessageService.scheduleMessage(
       deviceId,
       cleanPhone,
       message,
       scheduleDate,
-      timezone
+      timezone,
+      {
+        segmentId: segment ? segment.id : null,
+        groupId: group ? group.groupId : null,
+        groupName: group ? group.subject : null,
+        mentions: mentionJids,
+        media,
+        recurrence,
+        missedRunPolicy,
+      }
     );
 
     // Calculate delay in seconds
     const now = new Date();
-    const delaySeconds = Math.floor((scheduleDate.getTime() - now.getTime()) / 1000);
+    const delaySeconds = Math.floor((firstRun.getTime() - now.getTime()) / 1000);
 
     const { response, statusCode } = successResponse(
       {
         scheduledMessageId: scheduledMessageId,
-        scheduleTime: scheduleDate.toISOString().replace('T', ' ').substring(0, 19),
+        segmentId: segment ? segment.id : null,
+        groupId: group ? group.groupId : null,
+        mentions: mentionJids,
+        mediaType: media ? media.type : null,
+        scheduleTime: firstRun.toISOString().replace('T', ' ').substring(0, 19),
         timezone: timezone,
+        recurrence,
+        missedRunPolicy,
         delaySeconds: delaySeconds,
       },
       "Pesan berhasil dijadwalkan"
@@ -3480,6 +3929,9 @@ const scheduleMessage = async (req, res) => {
     res.status(statusCode).json(response);
   } catch (error) {
     logger.error("Schedule message error:", error);
+    if (req.file) {
+      fs.unlink(req.file.path, () => {});
+    }
 
     let statusCode = 500;
     let errorMessage = "Gagal menjadwalkan pesan";
@@ -3631,6 +4083,192 @@ const cancelScheduledMessage = async (req, res) => {
   }
 };
 
+/**
+ * Preview the first occurrences of a repeat rule before scheduling it
+ */
+const previewScheduleOccurrences = async (req, res) => {
+  try {
+    const { scheduleTime, timezone, recurrence } = req.body;
+
+    if (!isValidTimezone(timezone)) {
+      const { response, statusCode } = errorResponse(
+        "Timezone tidak valid. Gunakan nama zona IANA (misalnya Asia/Jakarta)",
+        null,
+        400
+      );
+      return res.status(statusCode).json(response);
+    }
+
+    const occurrences = getOccurrences(recurrence, new Date(scheduleTime), timezone, { limit: 5 });
+
+    const { response, statusCode } = successResponse({
+      occurrences: occurrences.map((time) => time.toISOString()),
+    });
+    res.status(statusCode).json(response);
+  } catch (error) {
+    logger.error("Preview schedule occurrences error:", error);
+    const { response, statusCode } = errorResponse(
+      "Gagal menghitung jadwal pengulangan",
+      error.message,
+      500
+    );
+    res.status(statusCode).json(response);
+  }
+};
+
+/**
+ * List upcoming occurrences of a recurring scheduled message
+ */
+const listScheduledOccurrences = async (req, res) => {
+  try {
+    const { messageId } = req.params;
+    const limit = parseInt(req.query.limit, 10) || 10;
+
+    const result = await scheduledMessageService.listOccurrencesWithOwnership(messageId, req.user.id, limit);
+
+    if (!result.success) {
+      const { response, statusCode } = errorResponse(
+        result.error,
+        null,
+        result.error.includes("not found") ? 404 : 400
+      );
+      return res.status(statusCode).json(response);
+    }
+
+    const { response, statusCode } = successResponse({
+      messageId,
+      occurrences: result.occurrences,
+    });
+    res.status(statusCode).json(response);
+  } catch (error) {
+    logger.error("List scheduled occurrences error:", error);
+    const { response, statusCode } = errorResponse(
+      "Gagal mendapatkan jadwal pengulangan",
+      error.message,
+      500
+    );
+    res.status(statusCode).json(response);
+  }
+};
+
+/**
+ * Skip or edit one occurrence of a recurring scheduled message
+ * DELETE restores the occurrence as the series defines it
+ */
+const updateScheduledOccurrence = async (req, res) => {
+  try {
+    const { messageId, occurrenceTime } = req.params;
+    const changes = req.method === "DELETE" ? {} : req.body;
+
+    const result = await scheduledMessageService.updateOccurrenceWithOwnership(
+      messageId,
+      req.user.id,
+      occurrenceTime,
+      changes
+    );
+
+    if (!result.success) {
+      const { response, statusCode } = errorResponse(
+        result.error,
+        null,
+        result.error.includes("not found") ? 404 : 400
+      );
+      return res.status(statusCode).json(response);
+    }
+
+    const message = changes.skip
+      ? "Jadwal berhasil dilewati"
+      : req.method === "DELETE"
+        ? "Jadwal berhasil dikembalikan"
+        : "Jadwal berhasil diperbarui";
+
+    const { response, statusCode } = successResponse(
+      { messageId, status: result.status, occurrence: result.occurrence },
+      message
+    );
+    res.status(statusCode).json(response);
+  } catch (error) {
+    logger.error("Update scheduled occurrence error:", error);
+    const { response, statusCode } = errorResponse(
+      "Gagal memperbarui jadwal",
+      error.message,
+      500
+    );
+    res.status(statusCode).json(response);
+  }
+};
+
+/**
+ * Edit a pending scheduled message: text, time, timezone or recipient.
+ * The client sends the version it loaded; 409 when the message has changed since.
+ */
+const updateScheduledMessage = async (req, res) => {
+  try {
+    const { messageId } = req.params;
+    const { version, ...changes } = req.body;
+
+    const result = await scheduledMessageService.updateWithOwnership(
+      messageId,
+      req.user.id,
+      version,
+      changes
+    );
+
+    if (!result.success) {
+      const { response, statusCode } = errorResponse(
+        result.error,
+        null,
+        result.conflict ? 409 : result.error.includes("not found") ? 404 : 400
+      );
+      return res.status(statusCode).json(response);
+    }
+
+    const { response, statusCode } = successResponse(
+      result.message,
+      "Pesan terjadwal berhasil diperbarui"
+    );
+    res.status(statusCode).json(response);
+  } catch (error) {
+    logger.error("Update scheduled message error:", error);
+    const { response, statusCode } = errorResponse(
+      "Gagal memperbarui pesan terjadwal",
+      error.message,
+      500
+    );
+    res.status(statusCode).json(response);
+  }
+};
+
+/**
+ * Status history of a scheduled message (scheduled, sent, missed, edits, ...)
+ */
+const getScheduledMessageHistory = async (req, res) => {
+  try {
+    const { messageId } = req.params;
+
+    const result = await scheduledMessageService.getHistoryWithOwnership(messageId, req.user.id);
+
+    if (!result.success) {
+      const { response, statusCode } = errorResponse(result.error, null, 404);
+      return res.status(statusCode).json(response);
+    }
+
+    const { response, statusCode } = successResponse({
+      messageId,
+      events: result.events,
+    });
+    res.status(statusCode).json(response);
+  } catch (error) {
+    logger.error("Get scheduled message history error:", error);
+    const { response, statusCode } = errorResponse(
+      "Gagal mendapatkan riwayat pesan terjadwal",
+      error.message,
+      500
+    );
+    res.status(statusCode).json(response);
+  }
+};
+
 /**
  * Get daily chat list (active chats for a specific date)
  */
@@ -3638,7 +4276,6 @@ const getDailyChatList = async (req, res) => {
   try {
     const { deviceId } = req.params;
     const { date, includeGroups = false, limit = 100, offset = 0 } = req.query;
-    const userId = req.user.id;
 
     // Validate date is required
     if (!date) {
@@ -3672,7 +4309,9 @@ const getDailyChatList = async (req, res) => {
       return res.status(statusCode).json(response);
     }
 
-    if (device.userId !== userId && req.user.role !== "admin") {
+    // Workspace members only work on chats handed off to the team
+    const chatAccess = await workspaceService.getChatAccess(req.user, device);
+    if (!chatAccess) {
       const { response, statusCode } = errorResponse(
         "Akses ditolak",
         null,
@@ -3721,7 +4360,7 @@ const getDailyChatList = async (req, res) => {
     };
 
     // Get all messages for the day
-    const allMessages = await Message.findAll({
+    const dayMessages = await Message.findAll({
       where: whereClause,
       order: [["timestamp", "ASC"]],
       attributes: [
@@ -3736,6 +4375,15 @@ const getDailyChatList = async (req, res) => {
       ]
     });
 
+    // Members only see the chats handed off to the team
+    const handoffNumbers =
+      chatAccess === "all" ? null : await workspaceService.getHandoffNumbers(deviceId);
+    const allMessages = handoffNumbers
+      ? dayMessages.filter((msg) =>
+          handoffNumbers.has(msg.direction === "incoming" ? msg.fromNumber : msg.toNumber)
+        )
+      : dayMessages;
+
     // Group by contact (fromNumber or toNumber depending on direction)
     const contactMap = new Map();
 
@@ -3765,7 +4413,8 @@ const getDailyChatList = async (req, res) => {
           messageCount: 0,
           incomingMessages: 0,
           outgoingMessages: 0,
-          unreadMessages: 0, // TODO: Implement unread tracking
+          unreadMessages: 0,
+          lastMessage: null,
           lastActivity: null,
           messages: [],
         });
@@ -3776,6 +4425,10 @@ const getDailyChatList = async (req, res) => {
       
       if (msg.direction === "incoming") {
         contact.incomingMessages++;
+        // Incoming messages stay unread until the chat is marked as read
+        if (msg.status !== "read") {
+          contact.unreadMessages++;
+        }
       } else {
         contact.outgoingMessages++;
       }
@@ -3785,6 +4438,7 @@ const getDailyChatList = async (req, res) => {
       // Update last activity
       if (!contact.lastActivity || msg.timestamp > contact.lastActivity) {
         contact.lastActivity = msg.timestamp;
+        contact.lastMessage = msg.content || null;
       }
     });
 
@@ -3807,6 +4461,7 @@ const getDailyChatList = async (req, res) => {
         incomingMessages: contact.incomingMessages,
         outgoingMessages: contact.outgoingMessages,
         unreadMessages: contact.unreadMessages,
+        lastMessage: contact.lastMessage,
         lastActivity: contact.lastActivity ? new Date(contact.lastActivity).toISOString() : null,
         responseRate: responseRate,
       };
@@ -3864,6 +4519,146 @@ const getDailyChatList = async (req, res) => {
   }
 };
 
+/**
+ * Mark a chat as read, on the phone as well
+ */
+const markChatRead = async (req, res) => {
+  try {
+    const { deviceId, jid } = req.params;
+
+    // Verify device belongs to user
+    const device = await deviceManager.getDevice(deviceId);
+    if (!device) {
+      const { response, statusCode } = errorResponse(
+        "Device tidak ditemukan",
+        null,
+        404
+      );
+      return res.status(statusCode).json(response);
+    }
+
+    // Workspace members only work on chats handed off to the team
+    if (!(await workspaceService.canAccessChat(req.user, device, jid.split("@")[0]))) {
+      const { response, statusCode } = errorResponse(
+        "Akses ditolak",
+        null,
+        403
+      );
+      return res.status(statusCode).json(response);
+    }
+
+    // Extract phone number from JID (remove @s.whatsapp.net)
+    const phoneNumber = jid.split("@")[0];
+    const markedCount = await whatsappService.markChatReadForDevice(deviceId, phoneNumber);
+
+    const { response, statusCode } = successResponse({
+      deviceId: deviceId,
+      jid: jid,
+      markedCount: markedCount,
+    }, "Chat ditandai sudah dibaca");
+
+    res.status(statusCode).json(response);
+  } catch (error) {
+    logger.error("Mark chat read error:", error);
+
+    let statusCode = 500;
+    let errorMessage = "Gagal menandai chat sudah dibaca";
+
+    if (error.message === "WhatsApp session not found for device") {
+      statusCode = 400;
+      errorMessage = "Device tidak terkoneksi. Silakan koneksikan terlebih dahulu.";
+    } else if (error.message === "WhatsApp not connected") {
+      statusCode = 400;
+      errorMessage = "Session device tidak aktif. Silakan koneksikan ulang.";
+    }
+
+    const { response, statusCode: errorStatusCode } = errorResponse(
+      errorMessage,
+      error.message,
+      statusCode
+    );
+    res.status(errorStatusCode).json(response);
+  }
+};
+
+/**
+ * Stored media of an incoming message. Media is kept out of the public
+ * uploads directory, so this route is the only way to load it.
+ * GET /devices/:deviceId/media/:messageId
+ */
+const getMessageMedia = async (req, res) => {
+  try {
+    const { deviceId, messageId } = req.params;
+
+    const device = await deviceManager.getDevice(deviceId);
+    if (!device) {
+      const { response, statusCode } = errorResponse("Device tidak ditemukan", null, 404);
+      return res.status(statusCode).json(response);
+    }
+
+    // Same access as the chat history the media belongs to
+    const chatAccess = await workspaceService.getChatAccess(req.user, device);
+    if (!chatAccess) {
+      const { response, statusCode } = errorResponse("Akses ditolak", null, 403);
+      return res.status(statusCode).json(response);
+    }
+
+    const session = await WhatsAppSession.findOne({
+      where: { deviceId },
+      attributes: ["id"],
+    });
+    const message = session
+      ? await Message.findOne({
+          where: { sessionId: session.id, messageId, direction: "incoming" },
+          attributes: ["id", "fromNumber", "metadata"],
+        })
+      : null;
+
+    if (
+      message &&
+      chatAccess !== "all" &&
+      !(await workspaceService.getHandoffNumbers(deviceId)).has(message.fromNumber)
+    ) {
+      const { response, statusCode } = errorResponse("Akses ditolak", null, 403);
+      return res.status(statusCode).json(response);
+    }
+
+    const media = message?.metadata?.media;
+
+    if (!media?.storageKey || media.status !== "stored") {
+      const { response, statusCode } = errorResponse("Media tidak ditemukan", null, 404);
+      return res.status(statusCode).json(response);
+    }
+
+    const stream = mediaStorageService.openIncomingMedia(media.storageKey);
+    stream.once("error", (error) => {
+      if (res.headersSent) {
+        res.destroy(error);
+        return;
+      }
+      const notFound = error.code === "ENOENT";
+      if (!notFound) logger.error("Read message media error:", error);
+      const { response, statusCode } = errorResponse(
+        notFound ? "Media tidak ditemukan" : "Gagal membaca media",
+        null,
+        notFound ? 404 : 500
+      );
+      res.status(statusCode).json(response);
+    });
+    stream.once("open", () => {
+      res.setHeader("Content-Type", media.mimetype || "application/octet-stream");
+      res.setHeader("Cache-Control", "private, max-age=86400");
+      // Never rendered as a page of the API origin
+      res.setHeader("Content-Security-Policy", "sandbox");
+      stream.pipe(res);
+    });
+  } catch (error) {
+    logger.error("Get message media error:", error);
+    const { response, statusCode } = errorResponse("Gagal membaca media", error.message, 500);
+    res.status(statusCode).json(response);
+  }
+};
+
 /**
  * Get statistics for device
  */
@@ -3990,6 +4785,8 @@ module.exports = {
   getChatHistory,
   getGroupChatHistory,
   getDailyChatList,
+  markChatRead,
+  getMessageMedia,
   getStatistics,
   getDailyActivity,
   getContacts,
@@ -4199,13 +4996,9 @@ const useTemplate = async (req, res) => {
       return res.status(statusCode).json(response);
     }
 
-    // Replace variables in content
-    let renderedContent = template.content;
-    for (const [key, value] of Object.entries(variables)) {
-      // Sanitize variable values (text only)
-      const safeValue = String(value).replace(/<[^>]*>/g, '').slice(0, 200);
-      renderedContent = renderedContent.replace(new RegExp(`\\{\\{${key}\\}\\}`, 'g'), safeValue);
-    }
+    // Replace variables in content (values are sanitized to text); ones
+    // without a value stay as placeholders
+    const { text: renderedContent } = renderTemplate(template.content, variables);
 
     // Increment usage count
     await template.increment('usageCount');
@@ -4258,6 +5051,8 @@ module.exports = {
   getChatHistory,
   getGroupChatHistory,
   getDailyChatList,
+  markChatRead,
+  getMessageMedia,
   getStatistics,
   getDailyActivity,
   getContacts,
@@ -4458,9 +5253,15 @@ const listUserJobs = async (req, res) => {
     // Filter by status/type if provided (in memory for now, optimization for later)
     if (status) userJobsList = userJobsList.filter(job => job.status === status);
     if (type) userJobsList = userJobsList.filter(job => job.type === type);
+    // Device-restricted API keys only see jobs of their devices
+    if (req.apiKey) {
+      userJobsList = userJobsList.filter(job => apiKeyService.allowsDevice(req.apiKey, job.deviceId));
+    }
     
+    userJobsList = userJobsList.slice(0, parseInt(limit) || 50);
+    const receiptCounts = await jobQueueService.getReceiptCounts(userJobsList.map(job => job.id));
+
     const userJobs = userJobsList
-      .slice(0, parseInt(limit) || 50)
       .map(job => {
         // Parse JSON string fields
         let jobData = job.data;
@@ -4482,7 +5283,7 @@ const listUserJobs = async (req, res) => {
         }
 
         // Normalize progress field and calculate total if missing
-        let normalizedProgress = { total: 0, completed: 0, failed: 0 };
+        let normalizedProgress = { total: 0, completed: 0, failed: 0, skipped: 0 };
         if (progressData) {
           let total = progressData.total || 0;
           // Calculate total from messages if missing
@@ -4492,17 +5293,24 @@ const listUserJobs = async (req, res) => {
           normalizedProgress = {
             total: total,
             completed: progressData.sent || progressData.completed || 0,
-            failed: progressData.failed || 0
+            failed: progressData.failed || 0,
+            skipped: progressData.skipped || 0
           };
         } else if (jobData && jobData.messages && Array.isArray(jobData.messages)) {
           // No progress data, but we can calculate total from messages
           normalizedProgress.total = jobData.messages.length;
         }
 
+        // Receipts are counted from job items, not kept in job.progress
+        const receipts = receiptCounts[job.id] || { delivered: 0, read: 0 };
+        normalizedProgress.delivered = receipts.delivered;
+        normalizedProgress.read = receipts.read;
+
         return {
           id: job.id,
           type: job.type,
           deviceId: job.deviceId, // Now from root level
+          campaignId: job.campaignId || null,
           status: job.status,
           progress: normalizedProgress,
           createdAt: job.createdAt ? new Date(job.createdAt).toISOString() : null,
@@ -4529,12 +5337,434 @@ const listUserJobs = async (req, res) => {
   }
 };
 
+/**
+ * Format a segment for API responses
+ */
+const formatSegment = (segment) => ({
+  id: segment.id,
+  name: segment.name,
+  description: segment.description,
+  rules: segmentService.normalizeRules(segment.rules),
+  createdAt: segment.createdAt,
+  updatedAt: segment.updatedAt,
+});
+
+/**
+ * List saved audience segments
+ */
+const getSegments = async (req, res) => {
+  try {
+    const segments = await AudienceSegment.findAll({
+      where: { userId: req.user.id },
+      order: [["name", "ASC"]],
+    });
+
+    const { response, statusCode } = successResponse({
+      segments: segments.map(formatSegment),
+      count: segments.length,
+      maxRecipients: segmentService.MAX_SEGMENT_RECIPIENTS,
+    });
+    res.status(statusCode).json(response);
+  } catch (error) {
+    logger.error("Get segments error:", error);
+    const { response, statusCode } = errorResponse("Gagal mendapatkan daftar segment", error.message, 500);
+    res.status(statusCode).json(response);
+  }
+};
+
+/**
+ * Create an audience segment
+ */
+const createSegment = async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const { name, description, rules } = req.body;
+
+    const count = await AudienceSegment.count({ where: { userId } });
+    if (count >= segmentService.MAX_SEGMENTS_PER_USER) {
+      const { response, statusCode } = errorResponse(
+        `Maksimal ${segmentService.MAX_SEGMENTS_PER_USER} segment per user`,
+        null,
+        400
+      );
+      return res.status(statusCode).json(response);
+    }
+
+    const segment = await AudienceSegment.create({
+      userId,
+      name: name.trim(),
+      description: description || null,
+      rules: segmentService.normalizeRules(rules),
+    });
+
+    const { response, statusCode } = successResponse(formatSegment(segment), "Segment berhasil dibuat", 201);
+    res.status(statusCode).json(response);
+  } catch (error) {
+    logger.error("Create segment error:", error);
+    let message = "Gagal membuat segment";
+    if (error.name === "SequelizeUniqueConstraintError") {
+      message = "Segment dengan nama tersebut sudah ada";
+    }
+    const { response, statusCode } = errorResponse(message, error.message, 400);
+    res.status(statusCode).json(response);
+  }
+};
+
+/**
+ * Update an audience segment
+ */
+const updateSegment = async (req, res) => {
+  try {
+    const segment = await segmentService.getSegment(req.user.id, req.params.segmentId);
+    if (!segment) {
+      const { response, statusCode } = errorResponse("Segment tidak ditemukan", null, 404);
+      return res.status(statusCode).json(response);
+    }
+
+    const { name, description, rules } = req.body;
+    await segment.update({
+      name: name.trim(),
+      description: description || null,
+      rules: segmentService.normalizeRules(rules),
+    });
+
+    const { response, statusCode } = successResponse(formatSegment(segment), "Segment berhasil diperbarui");
+    res.status(statusCode).json(response);
+  } catch (error) {
+    logger.error("Update segment error:", error);
+    let message = "Gagal memperbarui segment";
+    if (error.name === "SequelizeUniqueConstraintError") {
+      message = "Segment dengan nama tersebut sudah ada";
+    }
+    const { response, statusCode } = errorResponse(message, error.message, 400);
+    res.status(statusCode).json(response);
+  }
+};
+
+/**
+ * Delete an audience segment.
+ * Pending scheduled messages for it fail when they are due.
+ */
+const deleteSegment = async (req, res) => {
+  try {
+    const segment = await segmentService.getSegment(req.user.id, req.params.segmentId);
+    if (!segment) {
+      const { response, statusCode } = errorResponse("Segment tidak ditemukan", null, 404);
+      return res.status(statusCode).json(response);
+    }
+
+    await segment.destroy();
+
+    const { response, statusCode } = successResponse(null, "Segment berhasil dihapus");
+    res.status(statusCode).json(response);
+  } catch (error) {
+    logger.error("Delete segment error:", error);
+    const { response, statusCode } = errorResponse("Gagal menghapus segment", error.message, 500);
+    res.status(statusCode).json(response);
+  }
+};
+
+/**
+ * Live recipient count for (unsaved) segment rules
+ */
+const previewSegment = async (req, res) => {
+  try {
+    const { rules, message } = req.body;
+    const preview = await segmentService.previewSegment(req.user.id, rules, message);
+
+    const { response, statusCode } = successResponse(preview);
+    res.status(statusCode).json(response);
+  } catch (error) {
+    logger.error("Preview segment error:", error);
+    const { response, statusCode } = errorResponse("Gagal menghitung penerima segment", error.message, 500);
+    res.status(statusCode).json(response);
+  }
+};
+
+/**
+ * Format a suppression entry for API responses
+ */
+const formatSuppression = (suppression) => ({
+  id: suppression.id,
+  phoneNumber: suppression.phoneNumber,
+  source: suppression.source,
+  deviceId: suppression.deviceId,
+  keyword: suppression.keyword,
+  reason: suppression.reason,
+  createdAt: suppression.createdAt,
+});
+
+/**
+ * List the user's suppression (opt-out) list
+ */
+const getSuppressions = async (req, res) => {
+  try {
+    const { search, limit = 50, offset = 0 } = req.query;
+    const pageSize = Math.min(parseInt(limit, 10) || 50, 100);
+    const pageOffset = parseInt(offset, 10) || 0;
+
+    const { rows, count } = await suppressionService.listSuppressions(req.user.id, {
+      search,
+      limit: pageSize,
+      offset: pageOffset,
+    });
+
+    const { response, statusCode } = successResponse({
+      suppressions: rows.map(formatSuppression),
+      total: count,
+      limit: pageSize,
+      offset: pageOffset,
+    });
+    res.status(statusCode).json(response);
+  } catch (error) {
+    logger.error("Get suppressions error:", error);
+    const { response, statusCode } = errorResponse("Gagal mendapatkan daftar opt-out", error.message, 500);
+    res.status(statusCode).json(response);
+  }
+};
+
+/**
+ * Add a number to the suppression list manually
+ */
+const addSuppression = async (req, res) => {
+  try {
+    const { phoneNumber, reason } = req.body;
+
+    const defaultCountry = resolveDefaultCountry(null, req.user);
+    const normalizedPhone = normalizePhoneNumber(phoneNumber, defaultCountry);
+    if (!normalizedPhone) {
+      const { response, statusCode } = errorResponse(invalidPhoneMessage(defaultCountry), null, 400);
+      return res.status(statusCode).json(response);
+    }
+
+    const { suppression, created } = await suppressionService.suppress(req.user.id, normalizedPhone, {
+      source: "manual",
+      reason: reason || null,
+    });
+
+    const { response, statusCode } = successResponse(
+      formatSuppression(suppression),
+      created ? "Nomor ditambahkan ke daftar opt-out" : "Nomor sudah ada di daftar opt-out",
+      created ? 201 : 200
+    );
+    res.status(statusCode).json(response);
+  } catch (error) {
+    logger.error("Add suppression error:", error);
+    const { response, statusCode } = errorResponse("Gagal menambahkan nomor ke daftar opt-out", error.message, 500);
+    res.status(statusCode).json(response);
+  }
+};
+
+/**
+ * Import numbers into the suppression list
+ */
+const importSuppressions = async (req, res) => {
+  try {
+    const { numbers, reason } = req.body;
+
+    const result = await suppressionService.importSuppressions(req.user.id, numbers, {
+      reason: reason || null,
+      defaultCountry: resolveDefaultCountry(null, req.user),
+    });
+
+    const { response, statusCode } = successResponse(
+      result,
+      `Import selesai. ${result.added} nomor ditambahkan, ${result.existing} sudah ada`
+    );
+    res.status(statusCode).json(response);
+  } catch (error) {
+    logger.error("Import suppressions error:", error);
+    const { response, statusCode } = errorResponse("Gagal mengimpor daftar opt-out", error.message, 500);
+    res.status(statusCode).json(response);
+  }
+};
+
+/**
+ * Remove a number from the suppression list.
+ * This does not record consent on the contact; only an opt-in keyword does.
+ */
+const removeSuppression = async (req, res) => {
+  try {
+    const phoneNumber = String(req.params.phoneNumber).replace(/\D/g, "");
+    const removed = await suppressionService.unsuppress(req.user.id, phoneNumber);
+    if (!removed) {
+      const { response, statusCode } = errorResponse("Nomor tidak ada di daftar opt-out", null, 404);
+      return res.status(statusCode).json(response);
+    }
+
+    const { response, statusCode } = successResponse(null, "Nomor dihapus dari daftar opt-out");
+    res.status(statusCode).json(response);
+  } catch (error) {
+    logger.error("Remove suppression error:", error);
+    const { response, statusCode } = errorResponse("Gagal menghapus nomor dari daftar opt-out", error.message, 500);
+    res.status(statusCode).json(response);
+  }
+};
+
+/**
+ * Format a campaign for API responses
+ */
+const formatCampaign = (campaign) => {
+  const { status, progress } = campaignService.summarize(campaign);
+  return {
+    id: campaign.id,
+    name: campaign.name,
+    deviceId: campaign.deviceId,
+    variants: campaign.variants,
+    audience: campaign.audience,
+    status,
+    progress,
+    jobIds: (campaign.jobs || []).map((job) => job.id),
+    createdAt: campaign.createdAt,
+  };
+};
+
+/**
+ * Create a campaign: one message or 2-4 A/B variants sent to a segment or a list of numbers
+ * Body: { name, variants: string[], segmentId | numbers, delay }
+ */
+const createCampaign = async (req, res) => {
+  try {
+    const { deviceId } = req.params;
+    const { name, variants, segmentId, numbers, delay = 3 } = req.body;
+    const userId = req.user.id;
+
+    const device = await deviceManager.getDevice(deviceId);
+    if (!device) {
+      const { response, statusCode } = errorResponse("Device tidak ditemukan", null, 404);
+      return res.status(statusCode).json(response);
+    }
+
+    if (
+      (device.userId !== userId && req.user.role !== "admin") ||
+      (req.apiKey && !apiKeyService.allowsDevice(req.apiKey, deviceId))
+    ) {
+      const { response, statusCode } = errorResponse("Akses ditolak", null, 403);
+      return res.status(statusCode).json(response);
+    }
+
+    let segment = null;
+    if (segmentId) {
+      segment = await segmentService.getSegment(userId, segmentId);
+      if (!segment) {
+        const { response, statusCode } = errorResponse("Segment tidak ditemukan", null, 404);
+        return res.status(statusCode).json(response);
+      }
+    }
+
+    const result = await campaignService.createCampaign({
+      userId,
+      deviceId,
+      name: name.trim(),
+      messages: variants.map((message) => message.trim()),
+      segment,
+      numbers,
+      delay,
+      defaultCountry: resolveDefaultCountry(device, req.user),
+    });
+
+    if (!result.success) {
+      const { response, statusCode } = errorResponse(result.error, null, 400);
+      return res.status(statusCode).json(response);
+    }
+
+    const campaign = await campaignService.getCampaign(userId, result.campaign.id);
+    const { response, statusCode } = successResponse(
+      {
+        ...formatCampaign(campaign),
+        jobId: result.job.id,
+        total: result.total,
+        skipped: result.skipped,
+      },
+      "Campaign berhasil dibuat",
+      201
+    );
+    res.status(statusCode).json(response);
+  } catch (error) {
+    logger.error("Create campaign error:", error);
+    const { response, statusCode } = errorResponse("Gagal membuat campaign", error.message, 500);
+    res.status(statusCode).json(response);
+  }
+};
+
+/**
+ * List the user's campaigns with send progress
+ */
+const getCampaigns = async (req, res) => {
+  try {
+    let campaigns = await campaignService.listCampaigns(req.user.id);
+    // Device-restricted API keys only see campaigns of their devices
+    if (req.apiKey) {
+      campaigns = campaigns.filter((campaign) => apiKeyService.allowsDevice(req.apiKey, campaign.deviceId));
+    }
+
+    const { response, statusCode } = successResponse({
+      campaigns: campaigns.map(formatCampaign),
+      count: campaigns.length,
+    });
+    res.status(statusCode).json(response);
+  } catch (error) {
+    logger.error("Get campaigns error:", error);
+    const { response, statusCode } = errorResponse("Gagal mendapatkan daftar campaign", error.message, 500);
+    res.status(statusCode).json(response);
+  }
+};
+
+/**
+ * Get a campaign with per-variant results (sent, delivered, read, replied)
+ */
+const getCampaign = async (req, res) => {
+  try {
+    const campaign = await campaignService.getCampaign(req.user.id, req.params.campaignId);
+    if (!campaign || (req.apiKey && !apiKeyService.allowsDevice(req.apiKey, campaign.deviceId))) {
+      const { response, statusCode } = errorResponse("Campaign tidak ditemukan", null, 404);
+      return res.status(statusCode).json(response);
+    }
+
+    const results = await campaignService.getCampaignResults(campaign);
+    const { response, statusCode } = successResponse({ ...formatCampaign(campaign), results });
+    res.status(statusCode).json(response);
+  } catch (error) {
+    logger.error("Get campaign error:", error);
+    const { response, statusCode } = errorResponse("Gagal mendapatkan campaign", error.message, 500);
+    res.status(statusCode).json(response);
+  }
+};
+
+/**
+ * Cancel the unfinished jobs of a campaign
+ */
+const cancelCampaign = async (req, res) => {
+  try {
+    const campaign = await campaignService.getCampaign(req.user.id, req.params.campaignId);
+    if (!campaign || (req.apiKey && !apiKeyService.allowsDevice(req.apiKey, campaign.deviceId))) {
+      const { response, statusCode } = errorResponse("Campaign tidak ditemukan", null, 404);
+      return res.status(statusCode).json(response);
+    }
+
+    const cancelled = await campaignService.cancelCampaign(campaign);
+    if (cancelled === 0) {
+      const { response, statusCode } = errorResponse("Campaign sudah selesai", null, 400);
+      return res.status(statusCode).json(response);
+    }
+
+    await campaign.reload();
+    const { response, statusCode } = successResponse(formatCampaign(campaign), "Campaign dibatalkan");
+    res.status(statusCode).json(response);
+  } catch (error) {
+    logger.error("Cancel campaign error:", error);
+    const { response, statusCode } = errorResponse("Gagal membatalkan campaign", error.message, 500);
+    res.status(statusCode).json(response);
+  }
+};
+
 module.exports = {
   createDevice,
   listDevices,
   listConnectedDevices,
   getDevice,
   getDeviceStatus,
+  updateDeviceSettings,
   connectDevice,
   disconnectDevice,
   deleteDevice,
@@ -4562,17 +5792,38 @@ module.exports = {
   getChatHistory,
   getGroupChatHistory,
   getDailyChatList,
+  markChatRead,
+  getMessageMedia,
   getStatistics,
   getDailyActivity,
   getContacts,
   getUserContacts,
   saveContact,
+  importContacts,
   updateContactTags,
   getUserTags,
+  getSegments,
+  createSegment,
+  updateSegment,
+  deleteSegment,
+  previewSegment,
+  getSuppressions,
+  addSuppression,
+  importSuppressions,
+  removeSuppression,
+  createCampaign,
+  getCampaigns,
+  getCampaign,
+  cancelCampaign,
   scheduleMessage,
   listScheduledMessages,
   listAllScheduledMessages,
   cancelScheduledMessage,
+  previewScheduleOccurrences,
+  listScheduledOccurrences,
+  updateScheduledOccurrence,
+  getScheduledMessageHistory,
+  updateScheduledMessage,
   getTemplates,
   createTemplate,
   updateTemplate,
@@ -1,8 +1,51 @@
 const { verifyToken } = require("../utils/jwt");
 const { User } = require("../models");
+const loginSessionService = require("../services/loginSessionService");
+const apiKeyService = require("../services/apiKeyService");
 const logger = require("../utils/logger");
 
-const authenticateToken = async (req, res, next) => {
+/**
+ * Authenticate a personal API key (`Authorization: Bearer wsk_...` or `X-API-Key`).
+ * Keys only work on routes that declared a scope via authenticateToken.allowApiKey().
+ */
+const authenticateApiKey = async (key, scope, req, res, next) => {
+  if (!scope) {
+    return res.status(403).json({
+      success: false,
+      message: "API keys cannot be used for this endpoint",
+    });
+  }
+
+  const apiKey = await apiKeyService.findActiveKey(key);
+  if (!apiKey || !apiKey.user || !apiKey.user.isActive) {
+    return res.status(401).json({
+      success: false,
+      message: "Invalid, expired or revoked API key",
+    });
+  }
+
+  if (!apiKey.scopes.includes(scope)) {
+    return res.status(403).json({
+      success: false,
+      message: `API key is missing the "${scope}" scope`,
+    });
+  }
+
+  if (!apiKeyService.allowsDevice(apiKey, req.params.deviceId)) {
+    return res.status(403).json({
+      success: false,
+      message: "API key is not allowed to use this device",
+    });
+  }
+
+  apiKeyService.touchApiKey(apiKey, req);
+
+  req.user = apiKey.user;
+  req.apiKey = apiKey;
+  next();
+};
+
+const createAuthMiddleware = (apiKeyScope = null) => async (req, res, next) => {
   try {
     let token;
 
@@ -12,6 +55,14 @@ const authenticateToken = async (req, res, next) => {
       token = authHeader.split(" ")[1];
     }
 
+    if (!token && req.headers["x-api-key"]) {
+      token = req.headers["x-api-key"];
+    }
+
+    if (apiKeyService.isApiKey(token)) {
+      return await authenticateApiKey(token, apiKeyScope, req, res, next);
+    }
+
     // If no token in header, try query parameter (for SSE)
     if (!token && req.query.token) {
       token = req.query.token;
@@ -26,6 +77,14 @@ const authenticateToken = async (req, res, next) => {
 
     const decoded = verifyToken(token);
 
+    // Purpose-bound tokens (e.g. 2FA challenges) are not access tokens
+    if (decoded.purpose) {
+      return res.status(401).json({
+        success: false,
+        message: "Invalid token",
+      });
+    }
+
     // Find user in database
     const user = await User.findByPk(decoded.userId);
     if (!user || !user.isActive) {
@@ -35,6 +94,21 @@ const authenticateToken = async (req, res, next) => {
       });
     }
 
+    // Tokens bound to a login session stop working once it is revoked
+    if (decoded.sid) {
+      const session = await loginSessionService.findActiveSession(
+        decoded.sid,
+        user.id
+      );
+      if (!session) {
+        return res.status(401).json({
+          success: false,
+          message: "Session has been revoked",
+        });
+      }
+      req.sessionId = session.id;
+    }
+
     // Add user to request object
     req.user = user;
     next();
@@ -62,4 +136,10 @@ const authenticateToken = async (req, res, next) => {
   }
 };
 
+// JWT only (API keys are rejected)
+const authenticateToken = createAuthMiddleware();
+
+// JWT, or an API key carrying the given scope
+authenticateToken.allowApiKey = (scope) => createAuthMiddleware(scope);
+
 module.exports = authenticateToken;
@@ -1,6 +1,7 @@
 const multer = require("multer");
 const path = require("path");
 const fs = require("fs");
+const { uploads } = require("../utils/sharedConstants.json");
 
 // Ensure upload directory exists
 const uploadDir = process.env.UPLOAD_PATH || "./uploads";
@@ -28,23 +29,7 @@ const storage = multer.diskStorage({
 
 // File filter
 const fileFilter = (req, file, cb) => {
-  const allowedTypes = {
-    "image/jpeg": ".jpg",
-    "image/jpg": ".jpg",
-    "image/png": ".png",
-    "image/gif": ".gif",
-    "image/webp": ".webp",
-    "video/mp4": ".mp4",
-    "video/avi": ".avi",
-    "video/x-msvideo": ".avi",
-    "application/pdf": ".pdf",
-    "application/msword": ".doc",
-    "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
-      ".docx",
-    "text/plain": ".txt",
-  };
-
-  if (allowedTypes[file.mimetype]) {
+  if (uploads.mimeTypes[file.mimetype]) {
     cb(null, true);
   } else {
     cb(
@@ -58,7 +43,7 @@ const fileFilter = (req, file, cb) => {
 const upload = multer({
   storage: storage,
   limits: {
-    fileSize: parseInt(process.env.MAX_FILE_SIZE) || 16 * 1024 * 1024, // 16MB default (sesuai dokumentasi API)
+    fileSize: parseInt(process.env.MAX_FILE_SIZE) || uploads.maxFileSize, // 16MB default (sesuai dokumentasi API)
   },
   fileFilter: fileFilter,
 });
@@ -93,7 +78,31 @@ const handleMulterError = (error, req, res, next) => {
   next(error);
 };
 
+/**
+ * Parse JSON fields of a multipart body (FormData sends objects and arrays as strings)
+ * so they can be validated like a JSON body. Removes the uploaded file on invalid JSON.
+ */
+const parseJsonFields = (...fields) => (req, res, next) => {
+  for (const field of fields) {
+    const value = req.body[field];
+    if (typeof value !== "string" || !req.is("multipart/form-data")) continue;
+    try {
+      req.body[field] = value === "" ? null : JSON.parse(value);
+    } catch (error) {
+      if (req.file) {
+        fs.unlink(req.file.path, () => {});
+      }
+      return res.status(400).json({
+        success: false,
+        message: `Field '${field}' must be valid JSON.`,
+      });
+    }
+  }
+  next();
+};
+
 module.exports = {
   upload,
   handleMulterError,
+  parseJsonFields,
 };
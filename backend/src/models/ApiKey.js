@@ -0,0 +1,94 @@
+/**
+ * API Key Model
+ * Personal keys for calling the API from other systems without a login.
+ * Only a SHA-256 hash of the key is stored; the plain key is shown once.
+ */
+
+const { DataTypes } = require("sequelize");
+const { sequelize } = require("../config/database");
+
+const ApiKey = sequelize.define(
+  "ApiKey",
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: "user_id",
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    keyPrefix: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      field: "key_prefix",
+      comment: "First characters of the key, shown to identify it",
+    },
+    keyHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+      field: "key_hash",
+    },
+    scopes: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: [],
+      comment: "Subset of: send, read-history, manage-contacts",
+    },
+    deviceIds: {
+      type: DataTypes.JSON,
+      allowNull: true,
+      field: "device_ids",
+      comment: "Devices the key may use; null = all of the owner's devices",
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: "expires_at",
+    },
+    lastUsedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: "last_used_at",
+    },
+    lastUsedIp: {
+      type: DataTypes.STRING(45),
+      allowNull: true,
+      field: "last_used_ip",
+    },
+    revokedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: "revoked_at",
+    },
+  },
+  {
+    tableName: "api_keys",
+    indexes: [
+      {
+        fields: ["user_id"],
+        name: "idx_api_keys_user_id",
+      },
+    ],
+  }
+);
+
+// Never expose the hash
+ApiKey.prototype.toJSON = function () {
+  const values = { ...this.get() };
+  delete values.keyHash;
+  return values;
+};
+
+module.exports = ApiKey;
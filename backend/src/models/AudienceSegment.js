@@ -0,0 +1,53 @@
+/**
+ * Audience Segment Model
+ * Saved contact filter (tags, device, last interaction, custom fields)
+ * used as recipients for Chat Blast and Schedule Message.
+ */
+
+const { DataTypes } = require("sequelize");
+const { sequelize } = require("../config/database");
+
+const AudienceSegment = sequelize.define(
+  "AudienceSegment",
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: "user_id",
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    description: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    rules: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      comment: "See segmentService.normalizeRules for the shape",
+    },
+  },
+  {
+    tableName: "audience_segments",
+    indexes: [
+      {
+        unique: true,
+        fields: ["user_id", "name"],
+        name: "idx_audience_segments_user_name",
+      },
+    ],
+  }
+);
+
+module.exports = AudienceSegment;
@@ -33,7 +33,13 @@ const BotActionLog = sequelize.define(
         "off_hours_reply",
         "rate_limited",
         "rule_matched",
-        "no_match"
+        "no_match",
+        "flow_started",
+        "flow_reply",
+        "flow_completed",
+        "flow_timeout",
+        "call_rejected",
+        "call_missed"
       ),
       allowNull: false,
       field: "action_type",
@@ -0,0 +1,85 @@
+/**
+ * Bot Flow Model
+ * Stores multi-step conversations (menus and forms) of the auto-reply bot per device
+ */
+
+const { DataTypes } = require("sequelize");
+const { sequelize } = require("../config/database");
+
+const BotFlow = sequelize.define(
+  "BotFlow",
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    deviceId: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      field: "device_id",
+      comment: "Device ID this flow belongs to",
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      comment: "Human-readable flow name",
+    },
+    trigger: {
+      type: DataTypes.STRING(500),
+      allowNull: false,
+      comment: "Keyword or pattern that starts the flow",
+    },
+    matchType: {
+      type: DataTypes.ENUM("exact", "contains", "startsWith", "regex"),
+      allowNull: false,
+      defaultValue: "exact",
+      field: "match_type",
+      comment: "How to match the trigger",
+    },
+    priority: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+      comment: "Higher priority flows are checked first; flows are checked before rules",
+    },
+    isActive: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+      field: "is_active",
+    },
+    timeoutMinutes: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 30,
+      field: "timeout_minutes",
+      comment: "Minutes without an answer after which the flow is reset",
+    },
+    startStepId: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      field: "start_step_id",
+      comment: "ID of the first step in steps",
+    },
+    steps: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      comment: "Menu, question, message and end steps [{id, type, text, ...}]",
+    },
+  },
+  {
+    tableName: "bot_flows",
+    indexes: [
+      {
+        fields: ["device_id"],
+      },
+      {
+        fields: ["device_id", "is_active"],
+        name: "idx_bot_flows_device_active",
+      },
+    ],
+  }
+);
+
+module.exports = BotFlow;
@@ -0,0 +1,61 @@
+/**
+ * Campaign Model
+ * Groups the jobs of one marketing send. The audience may be split across
+ * up to four message variants (A/B test); each job item records the variant
+ * its recipient got so results can be compared per variant.
+ */
+
+const { DataTypes } = require("sequelize");
+const { sequelize } = require("../config/database");
+
+const Campaign = sequelize.define(
+  "Campaign",
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: "user_id",
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    deviceId: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      field: "device_id",
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    variants: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      comment: "[{ key: 'A', message }] - message may contain {{variables}}",
+    },
+    audience: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      comment: "{ type: 'segment', segmentId, segmentName } or { type: 'numbers', count }",
+    },
+  },
+  {
+    tableName: "campaigns",
+    indexes: [
+      {
+        fields: ["user_id"],
+      },
+      {
+        fields: ["created_at"],
+      },
+    ],
+  }
+);
+
+module.exports = Campaign;
@@ -49,6 +49,12 @@ const Contact = sequelize.define(
     notes: {
       type: DataTypes.TEXT,
     },
+    customFields: {
+      type: DataTypes.JSON,
+      allowNull: true,
+      field: "custom_fields",
+      comment: "Free-form key/value pairs, e.g. from contact import",
+    },
     isBlocked: {
       type: DataTypes.BOOLEAN,
       allowNull: false,
@@ -59,6 +65,12 @@ const Contact = sequelize.define(
       type: DataTypes.DATE,
       field: "last_message_at",
     },
+    optedInAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: "opted_in_at",
+      comment: "When the contact agreed to receive messages; cleared on opt-out",
+    },
     profilePicture: {
       type: DataTypes.STRING(500),
       field: "profile_picture",
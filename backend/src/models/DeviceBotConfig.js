@@ -1,6 +1,6 @@
 /**
  * Device Bot Configuration Model
- * Stores per-device bot settings including business hours and handoff keywords
+ * Stores per-device bot settings including business hours, handoff and opt-out keywords
  */
 
 const { DataTypes } = require("sequelize");
@@ -38,7 +38,12 @@ const DeviceBotConfig = sequelize.define(
       type: DataTypes.JSON,
       allowNull: true,
       field: "business_hours",
-      comment: "Array of day schedules [{day: 1, start: '09:00', end: '17:00'}]",
+      comment: "Opening windows [{day: 1, start: '08:00', end: '12:00'}]; a day may have several",
+    },
+    holidays: {
+      type: DataTypes.JSON,
+      allowNull: true,
+      comment: "Dates that replace the weekly hours [{date: '2025-12-25', name, windows: [], offHoursMessage}]",
     },
     offHoursMessage: {
       type: DataTypes.TEXT,
@@ -67,6 +72,34 @@ const DeviceBotConfig = sequelize.define(
       field: "resume_keywords",
       comment: "Keywords that resume bot after handoff",
     },
+    optOutKeywords: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: ["stop", "berhenti", "unsubscribe"],
+      field: "opt_out_keywords",
+      comment: "Keywords that add the sender to the suppression list (always active)",
+    },
+    optInKeywords: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: ["start", "langganan"],
+      field: "opt_in_keywords",
+      comment: "Keywords that remove the sender from the suppression list",
+    },
+    optOutMessage: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      defaultValue: "Anda tidak akan menerima pesan dari kami lagi. Balas START untuk berlangganan kembali.",
+      field: "opt_out_message",
+      comment: "Confirmation sent after an opt-out keyword",
+    },
+    optInMessage: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      defaultValue: "Terima kasih, Anda akan kembali menerima pesan dari kami.",
+      field: "opt_in_message",
+      comment: "Confirmation sent after an opt-in keyword",
+    },
     welcomeMessage: {
       type: DataTypes.TEXT,
       allowNull: true,
@@ -94,6 +127,19 @@ const DeviceBotConfig = sequelize.define(
       field: "ignore_groups",
       comment: "Whether to ignore group messages",
     },
+    rejectCalls: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+      field: "reject_calls",
+      comment: "Whether incoming calls are rejected automatically",
+    },
+    callRejectMessage: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      field: "call_reject_message",
+      comment: "Text sent to the caller after a rejected call (null = no reply)",
+    },
     metadata: {
       type: DataTypes.JSON,
       allowNull: true,
@@ -0,0 +1,82 @@
+/**
+ * Handoff Model
+ * A conversation handed to a human: who works on it and where it stands.
+ * Whether the bot is paused is kept in the conversation state (see
+ * conversationStateService); this record outlives it.
+ */
+
+const { DataTypes } = require("sequelize");
+const { sequelize } = require("../config/database");
+
+const Handoff = sequelize.define(
+  "Handoff",
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    deviceId: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      field: "device_id",
+    },
+    senderJid: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      field: "sender_jid",
+    },
+    status: {
+      type: DataTypes.ENUM("open", "pending_customer", "resolved"),
+      allowNull: false,
+      defaultValue: "open",
+    },
+    reason: {
+      type: DataTypes.STRING(50),
+      allowNull: true,
+    },
+    assignedTo: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: "assigned_to",
+      references: {
+        model: "users",
+        key: "id",
+      },
+      onDelete: "SET NULL",
+    },
+    assignedBy: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: "assigned_by",
+      references: {
+        model: "users",
+        key: "id",
+      },
+      onDelete: "SET NULL",
+    },
+    assignedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: "assigned_at",
+    },
+    resolvedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: "resolved_at",
+    },
+  },
+  {
+    tableName: "handoffs",
+    indexes: [
+      {
+        fields: ["device_id", "sender_jid", "status"],
+      },
+      {
+        fields: ["assigned_to", "status"],
+      },
+    ],
+  }
+);
+
+module.exports = Handoff;
@@ -0,0 +1,54 @@
+/**
+ * Handoff Note Model
+ * Internal notes agents leave on a handoff; never sent to the customer.
+ */
+
+const { DataTypes } = require("sequelize");
+const { sequelize } = require("../config/database");
+
+const HandoffNote = sequelize.define(
+  "HandoffNote",
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    handoffId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: "handoff_id",
+      references: {
+        model: "handoffs",
+        key: "id",
+      },
+      onDelete: "CASCADE",
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: "user_id",
+      references: {
+        model: "users",
+        key: "id",
+      },
+      onDelete: "SET NULL",
+      comment: "Author; null once their account is deleted",
+    },
+    body: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+  },
+  {
+    tableName: "handoff_notes",
+    updatedAt: false,
+    indexes: [
+      {
+        fields: ["handoff_id", "created_at"],
+      },
+    ],
+  }
+);
+
+module.exports = HandoffNote;
@@ -31,6 +31,15 @@ const Job = sequelize.define(
       type: DataTypes.ENUM("send-text", "send-media"),
       allowNull: false,
     },
+    campaignId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      field: "campaign_id",
+      references: {
+        model: "campaigns",
+        key: "id",
+      },
+    },
     status: {
       type: DataTypes.ENUM(
         "queued",
@@ -74,6 +83,9 @@ const Job = sequelize.define(
       {
         fields: ["created_at"],
       },
+      {
+        fields: ["campaign_id"],
+      },
     ],
   }
 );
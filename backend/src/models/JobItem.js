@@ -24,10 +24,20 @@ const JobItem = sequelize.define(
       allowNull: false,
     },
     status: {
-      type: DataTypes.ENUM("pending", "sent", "failed"),
+      type: DataTypes.ENUM("pending", "sent", "failed", "skipped"), // skipped = recipient opted out
       allowNull: false,
       defaultValue: "pending",
     },
+    message: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      comment: "Rendered text for this recipient; null = use the job payload",
+    },
+    variant: {
+      type: DataTypes.STRING(1),
+      allowNull: true,
+      comment: "Campaign variant (A-D) sent to this recipient",
+    },
     messageId: {
       type: DataTypes.STRING(100),
       allowNull: true,
@@ -43,6 +53,16 @@ const JobItem = sequelize.define(
       allowNull: true,
       field: "processed_at",
     },
+    deliveredAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: "delivered_at",
+    },
+    readAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: "read_at",
+    },
   },
   {
     tableName: "job_items",
@@ -57,6 +77,9 @@ const JobItem = sequelize.define(
       {
         fields: ["recipient"],
       },
+      {
+        fields: ["message_id"], // Receipts look job items up by WhatsApp ID
+      },
     ],
   }
 );
@@ -0,0 +1,71 @@
+/**
+ * Login Session Model
+ * One row per successful sign-in; the refresh token carries its id (`sid`)
+ * so individual sessions can be listed and revoked.
+ */
+
+const { DataTypes } = require("sequelize");
+const { sequelize } = require("../config/database");
+
+const LoginSession = sequelize.define(
+  "LoginSession",
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: "user_id",
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    ipAddress: {
+      type: DataTypes.STRING(45),
+      allowNull: true,
+      field: "ip_address",
+    },
+    userAgent: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+      field: "user_agent",
+    },
+    lastUsedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+      field: "last_used_at",
+      comment: "Last login or token refresh",
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: "expires_at",
+      comment: "Matches the refresh token expiry",
+    },
+    revokedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: "revoked_at",
+    },
+  },
+  {
+    tableName: "login_sessions",
+    indexes: [
+      {
+        fields: ["user_id"],
+        name: "idx_login_sessions_user_id",
+      },
+      {
+        fields: ["user_id", "revoked_at"],
+        name: "idx_login_sessions_user_active",
+      },
+    ],
+  }
+);
+
+module.exports = LoginSession;
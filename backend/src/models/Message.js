@@ -44,7 +44,7 @@ const Message = sequelize.define(
       field: "to_number",
     },
     messageType: {
-      type: DataTypes.ENUM("text", "image", "document", "audio", "video"),
+      type: DataTypes.ENUM("text", "image", "document", "audio", "video", "sticker", "call"),
       allowNull: false,
       defaultValue: "text",
       field: "message_type",
@@ -61,6 +61,16 @@ const Message = sequelize.define(
       allowNull: false,
       defaultValue: "pending",
     },
+    deliveredAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: "delivered_at",
+    },
+    readAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: "read_at",
+    },
     direction: {
       type: DataTypes.ENUM("incoming", "outgoing"),
       allowNull: false,
@@ -95,6 +105,9 @@ const Message = sequelize.define(
       {
         fields: ["status"],
       },
+      {
+        fields: ["message_id"], // Receipts and campaign results look messages up by WhatsApp ID
+      },
     ],
   }
 );
@@ -1,5 +1,6 @@
 const { DataTypes } = require("sequelize");
 const { sequelize } = require("../config/database");
+const { extractTemplateVariables } = require("../utils/templateVariables");
 
 /**
  * MessageTemplate Model
@@ -86,16 +87,7 @@ const MessageTemplate = sequelize.define(
       // Extract variables before save
       beforeValidate: (template) => {
         if (template.content) {
-          // Extract {{variableName}} patterns
-          const regex = /\{\{(\w+)\}\}/g;
-          const matches = [];
-          let match;
-          while ((match = regex.exec(template.content)) !== null) {
-            if (!matches.includes(match[1])) {
-              matches.push(match[1]);
-            }
-          }
-          template.variables = matches;
+          template.variables = extractTemplateVariables(template.content);
         }
       },
     },
@@ -0,0 +1,65 @@
+/**
+ * Notification Preference Model
+ * One row per user: which channels (in-app, email, webhook) receive each
+ * notification type, plus the delivery targets for email and webhook.
+ */
+
+const { DataTypes } = require("sequelize");
+const { sequelize } = require("../config/database");
+
+const NotificationPreference = sequelize.define(
+  "NotificationPreference",
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      unique: true,
+      field: "user_id",
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    channels: {
+      type: DataTypes.JSON,
+      allowNull: true,
+      comment: "Map of notification type -> { inApp, email, webhook }",
+    },
+    email: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+      validate: {
+        isEmail: true,
+      },
+      comment: "Delivery address; falls back to the account email",
+    },
+    webhookUrl: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+      field: "webhook_url",
+    },
+    webhookSecret: {
+      type: DataTypes.STRING(128),
+      allowNull: true,
+      field: "webhook_secret",
+      comment: "Used to sign webhook payloads (HMAC-SHA256)",
+    },
+  },
+  {
+    tableName: "notification_preferences",
+  }
+);
+
+NotificationPreference.prototype.toJSON = function () {
+  const values = Object.assign({}, this.get());
+  values.hasWebhookSecret = !!values.webhookSecret;
+  delete values.webhookSecret;
+  return values;
+};
+
+module.exports = NotificationPreference;
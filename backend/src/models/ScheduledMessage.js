@@ -45,12 +45,67 @@ const ScheduledMessage = sequelize.define(
     },
     targetNumber: {
       type: DataTypes.STRING(20),
-      allowNull: false,
+      allowNull: true, // null when the message targets a segment
       field: "target_number",
     },
+    segmentId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: "segment_id",
+      references: {
+        model: "audience_segments",
+        key: "id",
+      },
+      onDelete: "SET NULL",
+    },
+    groupId: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+      field: "group_id",
+      comment: "Group JID when the message targets a group",
+    },
+    groupName: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      field: "group_name",
+      comment: "Group subject when scheduled, for display",
+    },
+    mentions: {
+      type: DataTypes.JSON,
+      allowNull: true,
+      comment: "JIDs mentioned in a group text message",
+    },
+    mediaType: {
+      type: DataTypes.ENUM("image", "video", "document"),
+      allowNull: true,
+      field: "media_type",
+    },
+    mediaPath: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+      field: "media_path",
+      comment: "Uploaded file; cleared when the retention period after the last run ends",
+    },
+    mediaFileName: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      field: "media_file_name",
+    },
+    mediaMimetype: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+      field: "media_mimetype",
+    },
+    jobId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      field: "job_id",
+      comment: "Job created when a segment message was executed",
+    },
     message: {
       type: DataTypes.TEXT,
       allowNull: false,
+      comment: "Text, or the caption of a media message (may be empty)",
     },
     scheduleTime: {
       type: DataTypes.DATE,
@@ -70,6 +125,52 @@ const ScheduledMessage = sequelize.define(
       type: DataTypes.TEXT,
       field: "error_message",
     },
+    recurrence: {
+      type: DataTypes.JSON,
+      allowNull: true,
+      comment: "Repeat rule { freq, interval, byWeekday, monthDay, until, count }; null = send once",
+    },
+    seriesStart: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: "series_start",
+      comment: "Requested first run of a recurring message; anchors its time of day",
+    },
+    occurrenceTime: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: "occurrence_time",
+      comment: "Original time of the next occurrence that has not run yet (may be skipped)",
+    },
+    exceptions: {
+      type: DataTypes.JSON,
+      allowNull: true,
+      comment: "Per-occurrence changes keyed by original ISO time: { skip } or { message, scheduleTime }",
+    },
+    lastRunAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: "last_run_at",
+    },
+    missedRunPolicy: {
+      type: DataTypes.ENUM("send_late", "skip", "notify"),
+      allowNull: false,
+      defaultValue: "send_late",
+      field: "missed_run_policy",
+      comment: "What to do when a run is picked up long after its time (e.g. after downtime)",
+    },
+    lockedBy: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+      field: "locked_by",
+      comment: "Server instance that has claimed the due run",
+    },
+    lockedUntil: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: "locked_until",
+      comment: "Claim lease; extended by heartbeat while the run is in progress",
+    },
     createdAt: {
       type: DataTypes.DATE,
       field: "created_at",
@@ -84,6 +185,8 @@ const ScheduledMessage = sequelize.define(
   {
     tableName: "scheduled_messages",
     timestamps: true,
+    // Optimistic locking: every save bumps `version` and fails if the row changed meanwhile
+    version: true,
     indexes: [
       {
         fields: ["user_id"],
@@ -97,6 +200,9 @@ const ScheduledMessage = sequelize.define(
       {
         fields: ["schedule_time"],
       },
+      {
+        fields: ["status", "schedule_time"],
+      },
     ],
   }
 );
@@ -0,0 +1,78 @@
+/**
+ * Scheduled Message Event Model
+ * Status history and audit trail of a scheduled message: when it was
+ * scheduled, who changed what, which server instance ran each occurrence
+ * and what came of it.
+ */
+
+const { DataTypes } = require("sequelize");
+const { sequelize } = require("../config/database");
+
+const ScheduledMessageEvent = sequelize.define(
+  "ScheduledMessageEvent",
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    scheduledMessageId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: "scheduled_message_id",
+      references: {
+        model: "scheduled_messages",
+        key: "id",
+      },
+      onDelete: "CASCADE",
+    },
+    event: {
+      type: DataTypes.STRING(30),
+      allowNull: false,
+      comment: "scheduled, updated, sent, failed, missed, skipped, edited, restored, cancelled or completed",
+    },
+    occurrenceTime: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: "occurrence_time",
+      comment: "Occurrence of a recurring message the event is about",
+    },
+    detail: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    instanceId: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+      field: "instance_id",
+      comment: "Server instance that ran the occurrence",
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: "user_id",
+      references: {
+        model: "users",
+        key: "id",
+      },
+      onDelete: "SET NULL",
+      comment: "User who made the change; null for events of the scheduler",
+    },
+    changes: {
+      type: DataTypes.JSON,
+      allowNull: true,
+      comment: "Edited fields as { field: { from, to } }",
+    },
+  },
+  {
+    tableName: "scheduled_message_events",
+    updatedAt: false,
+    indexes: [
+      {
+        fields: ["scheduled_message_id", "created_at"],
+      },
+    ],
+  }
+);
+
+module.exports = ScheduledMessageEvent;
@@ -0,0 +1,65 @@
+/**
+ * Suppression Model
+ * Numbers a user must not message (opt-outs). Checked by every outbound
+ * send path: jobs, scheduled messages and direct sends.
+ */
+
+const { DataTypes } = require("sequelize");
+const { sequelize } = require("../config/database");
+
+const Suppression = sequelize.define(
+  "Suppression",
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: "user_id",
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    phoneNumber: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      field: "phone_number",
+      comment: "E.164 digits, same form as contacts.phone_number",
+    },
+    source: {
+      type: DataTypes.ENUM("keyword", "manual", "import"),
+      allowNull: false,
+      defaultValue: "manual",
+    },
+    deviceId: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+      field: "device_id",
+      comment: "Device the opt-out keyword was received on",
+    },
+    keyword: {
+      type: DataTypes.STRING(50),
+      allowNull: true,
+    },
+    reason: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+  },
+  {
+    tableName: "suppressions",
+    indexes: [
+      {
+        unique: true,
+        fields: ["user_id", "phone_number"],
+        name: "idx_suppressions_user_phone",
+      },
+    ],
+  }
+);
+
+module.exports = Suppression;
@@ -68,6 +68,49 @@ const User = sequelize.define(
       type: DataTypes.TEXT,
       allowNull: true,
     },
+    defaultCountry: {
+      type: DataTypes.STRING(2),
+      allowNull: false,
+      defaultValue: "ID",
+      field: "default_country",
+      comment: "ISO 3166-1 alpha-2 country for phone numbers without a calling code",
+    },
+    twoFactorEnabled: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+      field: "two_factor_enabled",
+    },
+    twoFactorSecret: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+      field: "two_factor_secret",
+      comment: "Base32 TOTP secret (pending until two_factor_enabled is true)",
+    },
+    twoFactorBackupCodes: {
+      type: DataTypes.JSON,
+      allowNull: true,
+      field: "two_factor_backup_codes",
+      comment: "SHA-256 hashes of unused recovery codes",
+    },
+    twoFactorLastCounter: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: "two_factor_last_counter",
+      comment: "TOTP time step of the last accepted code (replay protection)",
+    },
+    deletedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: "deleted_at",
+      comment: "Set when the user deletes their account (pending purge)",
+    },
+    purgeAfter: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: "purge_after",
+      comment: "End of the grace period; the account is purged after this",
+    },
   },
   {
     tableName: "users",
@@ -94,6 +137,9 @@ User.prototype.comparePassword = async function (candidatePassword) {
 User.prototype.toJSON = function () {
   const values = Object.assign({}, this.get());
   delete values.password;
+  delete values.twoFactorSecret;
+  delete values.twoFactorBackupCodes;
+  delete values.twoFactorLastCounter;
   return values;
 };
 
@@ -0,0 +1,89 @@
+/**
+ * Webhook Model
+ * Outbound webhook subscription for one device: events matching the
+ * filter are POSTed to the URL, signed with the secret.
+ */
+
+const { DataTypes } = require("sequelize");
+const { sequelize } = require("../config/database");
+
+const Webhook = sequelize.define(
+  "Webhook",
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: "user_id",
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    deviceId: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      field: "device_id",
+    },
+    url: {
+      type: DataTypes.STRING(500),
+      allowNull: false,
+    },
+    secret: {
+      type: DataTypes.STRING(128),
+      allowNull: false,
+      comment: "HMAC-SHA256 signing secret",
+    },
+    events: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: [],
+      comment: "Subscribed event names, e.g. ['message.received']",
+    },
+    description: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    isActive: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+      field: "is_active",
+    },
+    lastDeliveryAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: "last_delivery_at",
+    },
+    lastDeliveryStatus: {
+      type: DataTypes.ENUM("success", "failed"),
+      allowNull: true,
+      field: "last_delivery_status",
+    },
+  },
+  {
+    tableName: "webhooks",
+    indexes: [
+      {
+        fields: ["device_id"],
+        name: "idx_webhooks_device_id",
+      },
+      {
+        fields: ["user_id"],
+        name: "idx_webhooks_user_id",
+      },
+    ],
+  }
+);
+
+Webhook.prototype.toJSON = function () {
+  const values = Object.assign({}, this.get());
+  delete values.secret;
+  return values;
+};
+
+module.exports = Webhook;
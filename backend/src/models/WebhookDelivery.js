@@ -0,0 +1,87 @@
+/**
+ * Webhook Delivery Model
+ * One row per event sent to a webhook; retried with exponential backoff
+ * until it succeeds or runs out of attempts.
+ */
+
+const { DataTypes } = require("sequelize");
+const { sequelize } = require("../config/database");
+
+const WebhookDelivery = sequelize.define(
+  "WebhookDelivery",
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    webhookId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: "webhook_id",
+      references: {
+        model: "webhooks",
+        key: "id",
+      },
+    },
+    event: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+    },
+    payload: {
+      type: DataTypes.JSON,
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.ENUM("pending", "success", "failed"),
+      allowNull: false,
+      defaultValue: "pending",
+      comment: "pending = waiting for (re)try, failed = gave up",
+    },
+    attempts: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    nextAttemptAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: "next_attempt_at",
+    },
+    responseStatus: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: "response_status",
+    },
+    error: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      comment: "Error code of the last failed attempt",
+    },
+    durationMs: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: "duration_ms",
+    },
+    deliveredAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: "delivered_at",
+    },
+  },
+  {
+    tableName: "webhook_deliveries",
+    indexes: [
+      {
+        fields: ["webhook_id", "created_at"],
+        name: "idx_webhook_deliveries_webhook",
+      },
+      {
+        fields: ["status", "next_attempt_at"],
+        name: "idx_webhook_deliveries_due",
+      },
+    ],
+  }
+);
+
+module.exports = WebhookDelivery;
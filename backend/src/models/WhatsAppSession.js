@@ -73,6 +73,12 @@ const WhatsAppSession = sequelize.define(
       type: DataTypes.JSON,
       field: "device_info",
     },
+    defaultCountry: {
+      type: DataTypes.STRING(2),
+      allowNull: true,
+      field: "default_country",
+      comment: "Overrides the owner's default country for phone numbers; null = use the owner's",
+    },
   },
   {
     tableName: "whatsapp_sessions",
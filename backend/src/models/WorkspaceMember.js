@@ -0,0 +1,71 @@
+/**
+ * Workspace Member Model
+ * Users who work on another user's devices as agents. A workspace is the
+ * owner's account: the owner and their members share its handoffs.
+ *
+ * Members are invited by email. The row stays "pending" (no memberId) until
+ * the user with that email accepts, and only "active" rows grant access.
+ */
+
+const { DataTypes } = require("sequelize");
+const { sequelize } = require("../config/database");
+
+const WorkspaceMember = sequelize.define(
+  "WorkspaceMember",
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    ownerId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: "owner_id",
+      references: {
+        model: "users",
+        key: "id",
+      },
+      onDelete: "CASCADE",
+      comment: "User whose devices the member works on",
+    },
+    memberId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: "member_id",
+      references: {
+        model: "users",
+        key: "id",
+      },
+      onDelete: "CASCADE",
+      comment: "Set when the invitation is accepted",
+    },
+    email: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      comment: "Email address the invitation was sent to",
+    },
+    status: {
+      type: DataTypes.ENUM("pending", "active"),
+      allowNull: false,
+      defaultValue: "pending",
+    },
+  },
+  {
+    tableName: "workspace_members",
+    indexes: [
+      {
+        unique: true,
+        fields: ["owner_id", "member_id"],
+      },
+      {
+        fields: ["member_id"],
+      },
+      {
+        fields: ["email", "status"],
+      },
+    ],
+  }
+);
+
+module.exports = WorkspaceMember;
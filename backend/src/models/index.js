@@ -13,8 +13,21 @@ const MessageTemplate = require("./MessageTemplate");
 const AutoReplyRule = require("./AutoReplyRule");
 const DeviceBotConfig = require("./DeviceBotConfig");
 const BotActionLog = require("./BotActionLog");
+const BotFlow = require("./BotFlow");
 const Job = require("./Job");
 const JobItem = require("./JobItem");
+const LoginSession = require("./LoginSession");
+const NotificationPreference = require("./NotificationPreference");
+const Webhook = require("./Webhook");
+const WebhookDelivery = require("./WebhookDelivery");
+const ApiKey = require("./ApiKey");
+const AudienceSegment = require("./AudienceSegment");
+const Suppression = require("./Suppression");
+const Campaign = require("./Campaign");
+const ScheduledMessageEvent = require("./ScheduledMessageEvent");
+const WorkspaceMember = require("./WorkspaceMember");
+const Handoff = require("./Handoff");
+const HandoffNote = require("./HandoffNote");
 const { sequelize } = require("../config/database");
 
 
@@ -128,6 +141,49 @@ MessageTemplate.belongsTo(User, {
   as: "user",
 });
 
+// API Key Associations
+User.hasMany(ApiKey, {
+  foreignKey: "user_id",
+  as: "apiKeys",
+});
+
+ApiKey.belongsTo(User, {
+  foreignKey: "user_id",
+  as: "user",
+});
+
+// Audience Segment Associations
+User.hasMany(AudienceSegment, {
+  foreignKey: "user_id",
+  as: "audienceSegments",
+});
+
+AudienceSegment.belongsTo(User, {
+  foreignKey: "user_id",
+  as: "user",
+});
+
+AudienceSegment.hasMany(ScheduledMessage, {
+  foreignKey: "segment_id",
+  as: "scheduledMessages",
+});
+
+ScheduledMessage.belongsTo(AudienceSegment, {
+  foreignKey: "segment_id",
+  as: "segment",
+});
+
+// Suppression (opt-out) Associations
+User.hasMany(Suppression, {
+  foreignKey: "user_id",
+  as: "suppressions",
+});
+
+Suppression.belongsTo(User, {
+  foreignKey: "user_id",
+  as: "user",
+});
+
 module.exports = {
   sequelize,
   User,
@@ -177,6 +233,126 @@ JobItem.belongsTo(Job, {
   as: "job",
 });
 
+// Campaign Associations
+User.hasMany(Campaign, {
+  foreignKey: "user_id",
+  as: "campaigns",
+});
+
+Campaign.belongsTo(User, {
+  foreignKey: "user_id",
+  as: "user",
+});
+
+Campaign.hasMany(Job, {
+  foreignKey: "campaign_id",
+  as: "jobs",
+});
+
+Job.belongsTo(Campaign, {
+  foreignKey: "campaign_id",
+  as: "campaign",
+});
+
+// Login Session Associations
+User.hasMany(LoginSession, {
+  foreignKey: "user_id",
+  as: "loginSessions",
+});
+
+LoginSession.belongsTo(User, {
+  foreignKey: "user_id",
+  as: "user",
+});
+
+// Notification Preference Associations
+User.hasOne(NotificationPreference, {
+  foreignKey: "user_id",
+  as: "notificationPreference",
+});
+
+NotificationPreference.belongsTo(User, {
+  foreignKey: "user_id",
+  as: "user",
+});
+
+// Webhook Associations
+User.hasMany(Webhook, {
+  foreignKey: "user_id",
+  as: "webhooks",
+});
+
+Webhook.belongsTo(User, {
+  foreignKey: "user_id",
+  as: "user",
+});
+
+Webhook.hasMany(WebhookDelivery, {
+  foreignKey: "webhook_id",
+  as: "deliveries",
+  onDelete: "CASCADE",
+});
+
+WebhookDelivery.belongsTo(Webhook, {
+  foreignKey: "webhook_id",
+  as: "webhook",
+});
+
+// Scheduled Message Event Associations
+ScheduledMessage.hasMany(ScheduledMessageEvent, {
+  foreignKey: "scheduled_message_id",
+  as: "events",
+  onDelete: "CASCADE",
+});
+
+ScheduledMessageEvent.belongsTo(ScheduledMessage, {
+  foreignKey: "scheduled_message_id",
+  as: "scheduledMessage",
+});
+
+ScheduledMessageEvent.belongsTo(User, {
+  foreignKey: "user_id",
+  as: "user",
+});
+
+// Workspace Member Associations
+User.hasMany(WorkspaceMember, {
+  foreignKey: "owner_id",
+  as: "workspaceMembers",
+});
+
+WorkspaceMember.belongsTo(User, {
+  foreignKey: "owner_id",
+  as: "owner",
+});
+
+WorkspaceMember.belongsTo(User, {
+  foreignKey: "member_id",
+  as: "member",
+});
+
+// Handoff Associations
+Handoff.belongsTo(User, {
+  foreignKey: "assigned_to",
+  as: "assignee",
+});
+
+Handoff.hasMany(HandoffNote, {
+  foreignKey: "handoff_id",
+  as: "notes",
+  onDelete: "CASCADE",
+});
+
+HandoffNote.belongsTo(Handoff, {
+  foreignKey: "handoff_id",
+  as: "handoff",
+});
+
+HandoffNote.belongsTo(User, {
+  foreignKey: "user_id",
+  as: "author",
+});
+
 module.exports = {
   sequelize,
   User,
@@ -191,6 +367,19 @@ module.exports = {
   AutoReplyRule,
   DeviceBotConfig,
   BotActionLog,
+  BotFlow,
   Job,
   JobItem,
+  LoginSession,
+  NotificationPreference,
+  Webhook,
+  WebhookDelivery,
+  ApiKey,
+  AudienceSegment,
+  Suppression,
+  Campaign,
+  ScheduledMessageEvent,
+  WorkspaceMember,
+  Handoff,
+  HandoffNote,
 };
@@ -17,6 +17,11 @@ router.post("/users", adminController.createUser);
 router.get("/users/:userId", adminController.getUserDetails);
 router.get("/users/:userId/insights", adminController.getUserInsights);
 router.put("/users/:userId", adminController.updateUser);
+router.post("/users/:userId/2fa/reset", adminController.resetUserTwoFactor);
+router.get("/users/:userId/sessions", adminController.listUserSessions);
+router.post("/users/:userId/sessions/revoke-all", adminController.revokeAllUserSessions);
+router.delete("/users/:userId/sessions/:sessionId", adminController.revokeUserSession);
+router.post("/users/:userId/restore", adminController.restoreUser);
 router.delete("/users/:userId", adminController.deleteUser);
 
 // Device Management Routes
@@ -5,14 +5,22 @@ const authController = require("../controllers/authController");
 const authenticateToken = require("../middleware/auth");
 const { validate, schemas } = require("../utils/validation");
 const { upload, handleMulterError } = require("../middleware/upload");
-const { registerSchema, loginSchema } = schemas;
+const {
+  registerSchema,
+  loginSchema,
+  notificationPreferencesSchema,
+  createApiKeySchema,
+  addWorkspaceMemberSchema,
+} = schemas;
 
 // Public routes
 router.post("/register", validate(registerSchema), authController.register);
 router.post("/login", validate(loginSchema), authController.login);
 router.post("/refresh-token", authController.refreshToken);
+router.post("/2fa/verify", authController.verifyTwoFactorLogin);
 
 // Protected routes
+router.post("/logout", authenticateToken, authController.logout);
 router.get("/profile", authenticateToken, authController.getProfile);
 router.put("/profile", authenticateToken, authController.updateProfile);
 router.post(
@@ -23,4 +31,105 @@ router.post(
   authController.uploadProfilePhoto
 );
 
+// Login sessions
+router.get("/sessions", authenticateToken, authController.listSessions);
+router.post(
+  "/sessions/revoke-all",
+  authenticateToken,
+  authController.revokeAllSessions
+);
+router.delete(
+  "/sessions/:sessionId",
+  authenticateToken,
+  authController.revokeSession
+);
+
+// Two-factor authentication (TOTP)
+router.post("/2fa/setup", authenticateToken, authController.setupTwoFactor);
+router.post("/2fa/enable", authenticateToken, authController.enableTwoFactor);
+router.post("/2fa/disable", authenticateToken, authController.disableTwoFactor);
+router.post(
+  "/2fa/backup-codes",
+  authenticateToken,
+  authController.regenerateBackupCodes
+);
+
+// Notification preferences
+router.get(
+  "/notifications",
+  authenticateToken,
+  authController.getNotificationPreferences
+);
+router.put(
+  "/notifications",
+  authenticateToken,
+  validate(notificationPreferencesSchema),
+  authController.updateNotificationPreferences
+);
+router.post(
+  "/notifications/test",
+  authenticateToken,
+  authController.sendTestNotification
+);
+
+// Personal API keys
+router.get("/api-keys", authenticateToken, authController.listApiKeys);
+router.post(
+  "/api-keys",
+  authenticateToken,
+  validate(createApiKeySchema),
+  authController.createApiKey
+);
+router.delete(
+  "/api-keys/:keyId",
+  authenticateToken,
+  authController.revokeApiKey
+);
+
+// Workspace members (agents sharing the user's handoffs) and invitations
+router.get(
+  "/workspace/members",
+  authenticateToken,
+  authController.listWorkspaceMembers
+);
+router.post(
+  "/workspace/members",
+  authenticateToken,
+  validate(addWorkspaceMemberSchema),
+  authController.addWorkspaceMember
+);
+router.delete(
+  "/workspace/members/invitations/:invitationId",
+  authenticateToken,
+  authController.cancelWorkspaceInvitation
+);
+router.delete(
+  "/workspace/members/:memberId",
+  authenticateToken,
+  authController.removeWorkspaceMember
+);
+router.get(
+  "/workspace/invitations",
+  authenticateToken,
+  authController.listWorkspaceInvitations
+);
+router.post(
+  "/workspace/invitations/:invitationId/accept",
+  authenticateToken,
+  authController.acceptWorkspaceInvitation
+);
+router.delete(
+  "/workspace/invitations/:invitationId",
+  authenticateToken,
+  authController.declineWorkspaceInvitation
+);
+
+// Account data export and deletion
+router.get(
+  "/account/export",
+  authenticateToken,
+  authController.exportAccountData
+);
+router.post("/account/delete", authenticateToken, authController.deleteAccount);
+
 module.exports = router;
@@ -1,6 +1,6 @@
 /**
  * Bot Routes
- * API routes for WhatsApp bot configuration, rules, handoffs, and logs
+ * API routes for WhatsApp bot configuration, rules, flows, handoffs, and logs
  */
 
 const express = require("express");
@@ -35,6 +35,23 @@ router.put("/devices/:deviceId/rules/:ruleId", botController.updateRule);
 // DELETE /api/bot/devices/:deviceId/rules/:ruleId - Delete rule
 router.delete("/devices/:deviceId/rules/:ruleId", botController.deleteRule);
 
+// ==================== FLOWS ====================
+
+// GET /api/bot/devices/:deviceId/flows - List all flows
+router.get("/devices/:deviceId/flows", botController.listFlows);
+
+// POST /api/bot/devices/:deviceId/flows - Create new flow
+router.post("/devices/:deviceId/flows", botController.createFlow);
+
+// PUT /api/bot/devices/:deviceId/flows/:flowId - Update flow
+router.put("/devices/:deviceId/flows/:flowId", botController.updateFlow);
+
+// DELETE /api/bot/devices/:deviceId/flows/:flowId - Delete flow
+router.delete("/devices/:deviceId/flows/:flowId", botController.deleteFlow);
+
+// POST /api/bot/devices/:deviceId/simulate - Simulate the bot reply to a message
+router.post("/devices/:deviceId/simulate", botController.simulateMessage);
+
 // ==================== HANDOFFS ====================
 
 // GET /api/bot/devices/:deviceId/handoffs - List active handoffs
@@ -43,6 +60,21 @@ router.get("/devices/:deviceId/handoffs", botController.listHandoffs);
 // POST /api/bot/devices/:deviceId/handoffs/:senderJid/resume - Resume bot
 router.post("/devices/:deviceId/handoffs/:senderJid/resume", botController.resumeHandoff);
 
+// GET /api/bot/devices/:deviceId/agents - List agents handoffs can be assigned to
+router.get("/devices/:deviceId/agents", botController.listHandoffAgents);
+
+// GET /api/bot/handoffs - Handoff queue across devices (?assignee=me|unassigned|<id>&status=)
+router.get("/handoffs", botController.listAgentQueue);
+
+// PATCH /api/bot/handoffs/:handoffId - Assign handoff and/or change its status
+router.patch("/handoffs/:handoffId", botController.updateHandoff);
+
+// GET /api/bot/handoffs/:handoffId/notes - List internal notes
+router.get("/handoffs/:handoffId/notes", botController.listHandoffNotes);
+
+// POST /api/bot/handoffs/:handoffId/notes - Add internal note
+router.post("/handoffs/:handoffId/notes", botController.addHandoffNote);
+
 // ==================== LOGS & STATS ====================
 
 // GET /api/bot/devices/:deviceId/logs - Get bot action logs
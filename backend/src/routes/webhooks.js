@@ -0,0 +1,58 @@
+/**
+ * Webhook Routes
+ * API routes for per-device outbound webhooks and their delivery log
+ */
+
+const express = require("express");
+const router = express.Router();
+const webhookController = require("../controllers/webhookController");
+const authenticateToken = require("../middleware/auth");
+const { requireUser } = require("../middleware/authorize");
+const { validate, schemas } = require("../utils/validation");
+
+// All routes require authentication and valid user/admin role
+router.use(authenticateToken);
+router.use(requireUser);
+
+// GET /api/webhooks/devices/:deviceId - List webhooks (and available events)
+router.get("/devices/:deviceId", webhookController.listWebhooks);
+
+// POST /api/webhooks/devices/:deviceId - Create webhook
+router.post(
+  "/devices/:deviceId",
+  validate(schemas.createWebhookSchema),
+  webhookController.createWebhook
+);
+
+// PUT /api/webhooks/devices/:deviceId/:webhookId - Update webhook
+router.put(
+  "/devices/:deviceId/:webhookId",
+  validate(schemas.updateWebhookSchema),
+  webhookController.updateWebhook
+);
+
+// DELETE /api/webhooks/devices/:deviceId/:webhookId - Delete webhook
+router.delete("/devices/:deviceId/:webhookId", webhookController.deleteWebhook);
+
+// POST /api/webhooks/devices/:deviceId/:webhookId/rotate-secret - New signing secret
+router.post(
+  "/devices/:deviceId/:webhookId/rotate-secret",
+  webhookController.rotateSecret
+);
+
+// POST /api/webhooks/devices/:deviceId/:webhookId/test - Send test event
+router.post("/devices/:deviceId/:webhookId/test", webhookController.testWebhook);
+
+// GET /api/webhooks/devices/:deviceId/:webhookId/deliveries - Delivery log
+router.get(
+  "/devices/:deviceId/:webhookId/deliveries",
+  webhookController.listDeliveries
+);
+
+// POST /api/webhooks/devices/:deviceId/:webhookId/deliveries/:deliveryId/redeliver
+router.post(
+  "/devices/:deviceId/:webhookId/deliveries/:deliveryId/redeliver",
+  webhookController.redeliverDelivery
+);
+
+module.exports = router;
@@ -5,7 +5,10 @@ const whatsappMultiDeviceController = require("../controllers/whatsappMultiDevic
 const authenticateToken = require("../middleware/auth");
 const { requireUser, requireAdmin } = require("../middleware/authorize");
 const { validate, schemas } = require("../utils/validation");
-const { upload } = require("../middleware/upload");
+const { upload, parseJsonFields } = require("../middleware/upload");
+
+// Routes using authenticateToken.allowApiKey(scope) also accept personal
+// API keys carrying that scope (see services/apiKeyService.js)
 
 // Device Management Routes (Admin Only)
 router.post(
@@ -47,11 +50,19 @@ router.get(
 
 router.get(
   "/devices/:deviceId/status",
-  authenticateToken,
+  authenticateToken.allowApiKey("send"),
   requireUser, // Admin & User can view their own device status (ownership checked in controller)
   whatsappMultiDeviceController.getDeviceStatus
 );
 
+router.put(
+  "/devices/:deviceId/settings",
+  authenticateToken,
+  requireUser, // User can change settings of their own devices (ownership checked in controller)
+  validate(schemas.updateDeviceSettingsSchema),
+  whatsappMultiDeviceController.updateDeviceSettings
+);
+
 router.post(
   "/devices/:deviceId/connect",
   authenticateToken,
@@ -121,7 +132,7 @@ router.post(
 // Messaging Routes
 router.post(
   "/devices/:deviceId/send-message",
-  authenticateToken,
+  authenticateToken.allowApiKey("send"),
   requireUser,
   validate(schemas.sendMessageSchema),
   whatsappMultiDeviceController.sendMessage
@@ -129,7 +140,7 @@ router.post(
 
 router.post(
   "/devices/:deviceId/send-media",
-  authenticateToken,
+  authenticateToken.allowApiKey("send"),
   requireUser,
   upload.single("file"), // Support file upload (optional)
   whatsappMultiDeviceController.sendMedia
@@ -138,28 +149,28 @@ router.post(
 // Job Management Routes (User can create jobs for their own devices)
 router.post(
   "/devices/:deviceId/jobs/send-text",
-  authenticateToken,
+  authenticateToken.allowApiKey("send"),
   requireUser, // User can create bulk text jobs for their own devices (ownership checked in controller)
   whatsappMultiDeviceController.createSendTextJob
 );
 
 router.post(
   "/devices/:deviceId/jobs/send-media",
-  authenticateToken,
+  authenticateToken.allowApiKey("send"),
   requireUser, // User can create bulk media jobs for their own devices (ownership checked in controller)
   whatsappMultiDeviceController.createSendMediaJob
 );
 
 router.get(
   "/jobs/:jobId",
-  authenticateToken,
+  authenticateToken.allowApiKey("send"),
   requireUser, // Admin & User can view their own jobs (ownership checked in controller)
   whatsappMultiDeviceController.getJobStatus
 );
 
 router.post(
   "/jobs/:jobId/cancel",
-  authenticateToken,
+  authenticateToken.allowApiKey("send"),
   requireUser, // Admin & User can cancel their own jobs (ownership checked in controller)
   whatsappMultiDeviceController.cancelJob
 );
@@ -167,11 +178,41 @@ router.post(
 // User Jobs List - List all jobs for user's devices
 router.get(
   "/jobs",
-  authenticateToken,
+  authenticateToken.allowApiKey("send"),
   requireUser,
   whatsappMultiDeviceController.listUserJobs
 );
 
+// Campaign Routes (A/B message variants with per-variant results)
+router.post(
+  "/devices/:deviceId/campaigns",
+  authenticateToken.allowApiKey("send"),
+  requireUser, // Ownership checked in controller
+  validate(schemas.createCampaignSchema),
+  whatsappMultiDeviceController.createCampaign
+);
+
+router.get(
+  "/campaigns",
+  authenticateToken.allowApiKey("send"),
+  requireUser,
+  whatsappMultiDeviceController.getCampaigns
+);
+
+router.get(
+  "/campaigns/:campaignId",
+  authenticateToken.allowApiKey("send"),
+  requireUser,
+  whatsappMultiDeviceController.getCampaign
+);
+
+router.post(
+  "/campaigns/:campaignId/cancel",
+  authenticateToken.allowApiKey("send"),
+  requireUser,
+  whatsappMultiDeviceController.cancelCampaign
+);
+
 // Group Management Routes (Admin Only)
 router.get(
   "/devices/:deviceId/groups",
@@ -255,7 +296,7 @@ router.delete(
 // Contacts Routes (from WhatsApp)
 router.get(
   "/devices/:deviceId/contacts",
-  authenticateToken,
+  authenticateToken.allowApiKey("manage-contacts"),
   requireUser,
   whatsappMultiDeviceController.getContacts
 );
@@ -263,65 +304,161 @@ router.get(
 // User Contacts Routes (from Database - with tags)
 router.get(
   "/contacts",
-  authenticateToken,
+  authenticateToken.allowApiKey("manage-contacts"),
   requireUser,
   whatsappMultiDeviceController.getUserContacts
 );
 
 router.post(
   "/contacts",
-  authenticateToken,
+  authenticateToken.allowApiKey("manage-contacts"),
   requireUser,
   whatsappMultiDeviceController.saveContact
 );
 
+router.post(
+  "/contacts/import",
+  authenticateToken.allowApiKey("manage-contacts"),
+  requireUser,
+  validate(schemas.importContactsSchema),
+  whatsappMultiDeviceController.importContacts
+);
+
 router.put(
   "/contacts/:contactId/tags",
-  authenticateToken,
+  authenticateToken.allowApiKey("manage-contacts"),
   requireUser,
   whatsappMultiDeviceController.updateContactTags
 );
 
 router.get(
   "/tags",
-  authenticateToken,
+  authenticateToken.allowApiKey("manage-contacts"),
   requireUser,
   whatsappMultiDeviceController.getUserTags
 );
 
+// Audience Segment Routes (saved contact filters for Chat Blast / Schedule Message)
+router.get(
+  "/segments",
+  authenticateToken.allowApiKey("manage-contacts"),
+  requireUser,
+  whatsappMultiDeviceController.getSegments
+);
+
+router.post(
+  "/segments",
+  authenticateToken.allowApiKey("manage-contacts"),
+  requireUser,
+  validate(schemas.segmentSchema),
+  whatsappMultiDeviceController.createSegment
+);
+
+// Live count for rules that are not saved yet
+router.post(
+  "/segments/preview",
+  authenticateToken.allowApiKey("manage-contacts"),
+  requireUser,
+  validate(schemas.previewSegmentSchema),
+  whatsappMultiDeviceController.previewSegment
+);
+
+router.put(
+  "/segments/:segmentId",
+  authenticateToken.allowApiKey("manage-contacts"),
+  requireUser,
+  validate(schemas.segmentSchema),
+  whatsappMultiDeviceController.updateSegment
+);
+
+router.delete(
+  "/segments/:segmentId",
+  authenticateToken.allowApiKey("manage-contacts"),
+  requireUser,
+  whatsappMultiDeviceController.deleteSegment
+);
+
+// Suppression (opt-out) List Routes
+router.get(
+  "/suppressions",
+  authenticateToken.allowApiKey("manage-contacts"),
+  requireUser,
+  whatsappMultiDeviceController.getSuppressions
+);
+
+router.post(
+  "/suppressions",
+  authenticateToken.allowApiKey("manage-contacts"),
+  requireUser,
+  validate(schemas.addSuppressionSchema),
+  whatsappMultiDeviceController.addSuppression
+);
+
+router.post(
+  "/suppressions/import",
+  authenticateToken.allowApiKey("manage-contacts"),
+  requireUser,
+  validate(schemas.importSuppressionsSchema),
+  whatsappMultiDeviceController.importSuppressions
+);
+
+router.delete(
+  "/suppressions/:phoneNumber",
+  authenticateToken.allowApiKey("manage-contacts"),
+  requireUser,
+  whatsappMultiDeviceController.removeSuppression
+);
+
 // Chat History Routes
 router.get(
   "/devices/:deviceId/chat-history/:jid",
-  authenticateToken,
+  authenticateToken.allowApiKey("read-history"),
   requireUser,
   whatsappMultiDeviceController.getChatHistory
 );
 
 router.get(
   "/devices/:deviceId/group-chat-history/:groupId",
-  authenticateToken,
+  authenticateToken.allowApiKey("read-history"),
   requireUser,
   whatsappMultiDeviceController.getGroupChatHistory
 );
 
 router.get(
   "/devices/:deviceId/daily-chat-list",
-  authenticateToken,
+  authenticateToken.allowApiKey("read-history"),
   requireUser,
   whatsappMultiDeviceController.getDailyChatList
 );
 
+router.post(
+  "/devices/:deviceId/chats/:jid/read",
+  authenticateToken.allowApiKey("send"),
+  requireUser, // Also sends read receipts from the phone (ownership checked in controller)
+  whatsappMultiDeviceController.markChatRead
+);
+
+router.get(
+  "/devices/:deviceId/media/:messageId",
+  authenticateToken.allowApiKey("read-history"),
+  requireUser,
+  whatsappMultiDeviceController.getMessageMedia
+);
+
 // Scheduled Message Routes
 router.post(
   "/devices/:deviceId/schedule-message",
-  authenticateToken,
+  authenticateToken.allowApiKey("send"),
   requireUser,
+  upload.single("file"), // Optional media, kept until the message has finished
+  parseJsonFields("recurrence", "mentions"),
+  validate(schemas.scheduleMessageSchema),
   whatsappMultiDeviceController.scheduleMessage
 );
 
 router.get(
   "/devices/:deviceId/scheduled-messages",
-  authenticateToken,
+  authenticateToken.allowApiKey("send"),
   requireUser,
   whatsappMultiDeviceController.listScheduledMessages
 );
@@ -342,6 +479,53 @@ router.post(
   whatsappMultiDeviceController.cancelScheduledMessage
 );
 
+// Edit a pending scheduled message
+router.put(
+  "/scheduled-messages/:messageId",
+  authenticateToken,
+  requireUser,
+  validate(schemas.updateScheduledMessageSchema),
+  whatsappMultiDeviceController.updateScheduledMessage
+);
+
+// Recurring scheduled messages: preview a rule, list, skip, edit or restore occurrences
+router.post(
+  "/scheduled-messages/preview-occurrences",
+  authenticateToken,
+  requireUser,
+  validate(schemas.previewOccurrencesSchema),
+  whatsappMultiDeviceController.previewScheduleOccurrences
+);
+
+router.get(
+  "/scheduled-messages/:messageId/occurrences",
+  authenticateToken,
+  requireUser,
+  whatsappMultiDeviceController.listScheduledOccurrences
+);
+
+router.put(
+  "/scheduled-messages/:messageId/occurrences/:occurrenceTime",
+  authenticateToken,
+  requireUser,
+  validate(schemas.updateOccurrenceSchema),
+  whatsappMultiDeviceController.updateScheduledOccurrence
+);
+
+router.delete(
+  "/scheduled-messages/:messageId/occurrences/:occurrenceTime",
+  authenticateToken,
+  requireUser,
+  whatsappMultiDeviceController.updateScheduledOccurrence
+);
+
+router.get(
+  "/scheduled-messages/:messageId/history",
+  authenticateToken,
+  requireUser,
+  whatsappMultiDeviceController.getScheduledMessageHistory
+);
+
 // Message Template Routes (User)
 router.get(
   "/templates",
@@ -48,6 +48,19 @@ const createTablesIfNotExist = async () => {
       "groups",
       "statistics",
       "admin_action_logs",
+      "login_sessions",
+      "notification_preferences",
+      "webhooks",
+      "webhook_deliveries",
+      "api_keys",
+      "audience_segments",
+      "suppressions",
+      "campaigns",
+      "scheduled_message_events",
+      "bot_flows",
+      "workspace_members",
+      "handoffs",
+      "handoff_notes",
     ];
     const missingTables = requiredTables.filter(
       (table) => !existingTables.includes(table)
@@ -173,6 +186,38 @@ const startServer = async () => {
        logger.error("❌ Job Recovery Failed:", recoveryError);
     }
 
+    // Purge accounts whose deletion grace period has ended
+    try {
+      const accountService = require("./services/accountService");
+      accountService.startPurgeScheduler();
+    } catch (purgeError) {
+      logger.error("❌ Failed to start account purge:", purgeError);
+    }
+
+    // Retry webhook deliveries that failed or were interrupted
+    try {
+      const webhookService = require("./services/webhookService");
+      webhookService.startRetryWorker();
+    } catch (webhookError) {
+      logger.error("❌ Failed to start webhook retry worker:", webhookError);
+    }
+
+    // Remove stored media of incoming messages after the retention period
+    try {
+      const mediaStorageService = require("./services/mediaStorageService");
+      mediaStorageService.startPurgeScheduler();
+    } catch (mediaError) {
+      logger.error("❌ Failed to start incoming media purge:", mediaError);
+    }
+
+    // Send scheduled messages that are due; safe to run on every instance
+    try {
+      const scheduledMessageService = require("./services/scheduledMessageService");
+      scheduledMessageService.start();
+    } catch (schedulerError) {
+      logger.error("❌ Failed to start scheduled message worker:", schedulerError);
+    }
+
     // Start the main application
     logger.info("🚀 Starting WhatsApp Service...");
     require("./app");
@@ -0,0 +1,199 @@
+/**
+ * Account Service
+ * Personal data export and self-service deletion with a grace period
+ * during which an admin can restore the account
+ */
+
+const { Op } = require("sequelize");
+const {
+  User,
+  WhatsAppSession,
+  Contact,
+  MessageTemplate,
+  ScheduledMessage,
+  Message,
+} = require("../models");
+const whatsappService = require("./whatsappService");
+const scheduledMessageService = require("./scheduledMessageService");
+const loginSessionService = require("./loginSessionService");
+const apiKeyService = require("./apiKeyService");
+const logger = require("../utils/logger");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const GRACE_PERIOD_DAYS = parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS, 10) || 30;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+let purgeTimer = null;
+
+/**
+ * Collect everything we hold about a user into one JSON-serialisable object
+ * @param {number} userId - User ID
+ */
+async function buildPersonalArchive(userId) {
+  const [user, devices, contacts, templates, scheduledMessages, messages] =
+    await Promise.all([
+      User.findByPk(userId),
+      WhatsAppSession.findAll({
+        where: { userId },
+        attributes: [
+          "deviceId",
+          "deviceName",
+          "phoneNumber",
+          "status",
+          "isActive",
+          "lastSeen",
+          "createdAt",
+        ],
+        order: [["createdAt", "ASC"]],
+      }),
+      Contact.findAll({ where: { userId }, order: [["createdAt", "ASC"]] }),
+      MessageTemplate.findAll({ where: { userId }, order: [["createdAt", "ASC"]] }),
+      ScheduledMessage.findAll({
+        where: { userId },
+        attributes: { exclude: ["sessionId"] },
+        order: [["scheduleTime", "ASC"]],
+      }),
+      Message.findAll({
+        where: { userId },
+        attributes: { exclude: ["sessionId"] },
+        order: [["timestamp", "ASC"]],
+      }),
+    ]);
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profile: user ? user.toJSON() : null,
+    devices: devices.map((d) => d.toJSON()),
+    contacts: contacts.map((c) => c.toJSON()),
+    templates: templates.map((t) => t.toJSON()),
+    scheduledMessages: scheduledMessages.map((s) => s.toJSON()),
+    messages: messages.map((m) => m.toJSON()),
+  };
+}
+
+/**
+ * Log out and wipe every WhatsApp device of a user.
+ * Device rows are kept so the account can be restored; they come back
+ * disconnected and need to be paired again.
+ */
+async function disconnectAllDevices(userId) {
+  const devices = await WhatsAppSession.findAll({
+    where: { userId },
+    attributes: ["deviceId"],
+  });
+
+  for (const { deviceId } of devices) {
+    try {
+      await whatsappService.disconnectSessionForDevice(deviceId);
+    } catch (error) {
+      logger.warn(`⚠️ Failed to disconnect device ${deviceId}:`, error.message);
+    }
+    whatsappService.removeSessionFilesForDevice(deviceId);
+  }
+
+  await WhatsAppSession.update(
+    { status: "disconnected", isActive: false, qrCode: null },
+    { where: { userId } }
+  );
+
+  return devices.length;
+}
+
+/**
+ * Cancel scheduled messages that have not been sent yet
+ */
+async function cancelPendingScheduledMessages(userId) {
+  const pending = await ScheduledMessage.findAll({
+    where: { userId, status: "pending" },
+    attributes: ["scheduledMessageId"],
+  });
+
+  for (const { scheduledMessageId } of pending) {
+    await scheduledMessageService.cancelScheduledMessage(scheduledMessageId);
+  }
+
+  return pending.length;
+}
+
+/**
+ * Deactivate an account and schedule it for permanent removal
+ * @param {User} user
+ * @returns {Promise<{ purgeAfter: Date, devices: number }>}
+ */
+async function scheduleDeletion(user) {
+  const devices = await disconnectAllDevices(user.id);
+  await cancelPendingScheduledMessages(user.id);
+  await loginSessionService.revokeAllSessions(user.id);
+  await apiKeyService.revokeAllApiKeys(user.id);
+
+  const deletedAt = new Date();
+  const purgeAfter = new Date(deletedAt.getTime() + GRACE_PERIOD_DAYS * DAY_MS);
+
+  await user.update({ isActive: false, deletedAt, purgeAfter });
+
+  logger.info(
+    `🗑️ User ${user.email} scheduled for deletion on ${purgeAfter.toISOString()}`
+  );
+
+  return { purgeAfter, devices };
+}
+
+/**
+ * Reverse a pending deletion (admin only)
+ * @param {User} user
+ */
+async function restoreAccount(user) {
+  await user.update({ isActive: true, deletedAt: null, purgeAfter: null });
+  logger.info(`♻️ User ${user.email} restored from pending deletion`);
+}
+
+/**
+ * Permanently remove accounts whose grace period has ended
+ * @returns {Promise<number>} Number of accounts purged
+ */
+async function purgeExpiredAccounts() {
+  const users = await User.findAll({
+    where: {
+      deletedAt: { [Op.ne]: null },
+      purgeAfter: { [Op.lte]: new Date() },
+    },
+  });
+
+  let purged = 0;
+  for (const user of users) {
+    try {
+      await WhatsAppSession.destroy({ where: { userId: user.id } });
+      await user.destroy();
+      purged++;
+      logger.info(`🧹 Purged deleted account: ${user.email}`);
+    } catch (error) {
+      logger.error(`❌ Failed to purge account ${user.email}:`, error);
+    }
+  }
+
+  return purged;
+}
+
+/**
+ * Run the purge once now and then periodically
+ */
+function startPurgeScheduler() {
+  if (purgeTimer) return;
+
+  const run = () =>
+    purgeExpiredAccounts().catch((error) =>
+      logger.error("❌ Account purge failed:", error)
+    );
+
+  run();
+  purgeTimer = setInterval(run, PURGE_INTERVAL_MS);
+}
+
+module.exports = {
+  GRACE_PERIOD_DAYS,
+  buildPersonalArchive,
+  scheduleDeletion,
+  restoreAccount,
+  purgeExpiredAccounts,
+  startPurgeScheduler,
+};
@@ -0,0 +1,170 @@
+/**
+ * API Key Service
+ * Personal API keys for programmatic access (see middleware/auth.js).
+ *
+ * Keys look like `wsk_<64 hex chars>`. Only their SHA-256 hash is stored,
+ * so a lost key cannot be recovered - it has to be revoked and recreated.
+ */
+
+const crypto = require("crypto");
+const { Op } = require("sequelize");
+const { ApiKey, User, WhatsAppSession } = require("../models");
+const { apiKeyScopes: API_KEY_SCOPES } = require("../utils/sharedConstants.json");
+const logger = require("../utils/logger");
+
+const KEY_PREFIX = "wsk_";
+const DISPLAY_PREFIX_LENGTH = 12;
+
+const MAX_ACTIVE_KEYS = 20;
+
+// Avoid a DB write on every request when the key was used recently
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+const hashKey = (key) => crypto.createHash("sha256").update(key).digest("hex");
+
+const isApiKey = (token) => typeof token === "string" && token.startsWith(KEY_PREFIX);
+
+const isActive = (apiKey) =>
+  !apiKey.revokedAt &&
+  (!apiKey.expiresAt || new Date(apiKey.expiresAt).getTime() > Date.now());
+
+/**
+ * Create a key. The plain key is only returned here.
+ * @param {number} userId
+ * @param {Object} data
+ * @param {string} data.name
+ * @param {string[]} data.scopes
+ * @param {string[]|null} [data.deviceIds] - Restrict to these devices
+ * @param {Date|string|null} [data.expiresAt]
+ * @returns {Promise<{ apiKey: ApiKey, key: string }>}
+ */
+async function createApiKey(userId, { name, scopes, deviceIds = null, expiresAt = null }) {
+  const activeCount = await ApiKey.count({
+    where: {
+      userId,
+      revokedAt: null,
+      [Op.or]: [{ expiresAt: null }, { expiresAt: { [Op.gt]: new Date() } }],
+    },
+  });
+  if (activeCount >= MAX_ACTIVE_KEYS) {
+    throw new Error(`You can have at most ${MAX_ACTIVE_KEYS} active API keys`);
+  }
+
+  if (deviceIds && deviceIds.length > 0) {
+    const owned = await WhatsAppSession.count({
+      where: { userId, deviceId: { [Op.in]: deviceIds } },
+    });
+    if (owned !== new Set(deviceIds).size) {
+      throw new Error("One or more devices were not found");
+    }
+  }
+
+  const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString("hex")}`;
+
+  const apiKey = await ApiKey.create({
+    userId,
+    name,
+    keyPrefix: key.substring(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashKey(key),
+    scopes: API_KEY_SCOPES.filter((scope) => scopes.includes(scope)),
+    deviceIds: deviceIds && deviceIds.length > 0 ? [...new Set(deviceIds)] : null,
+    expiresAt: expiresAt || null,
+  });
+
+  return { apiKey, key };
+}
+
+/**
+ * List a user's keys, newest first
+ * @param {number} userId
+ */
+async function listApiKeys(userId) {
+  const keys = await ApiKey.findAll({
+    where: { userId },
+    order: [["createdAt", "DESC"]],
+  });
+
+  return keys.map((apiKey) => ({ ...apiKey.toJSON(), isActive: isActive(apiKey) }));
+}
+
+/**
+ * Revoke a single key
+ * @returns {Promise<boolean>} True if a key was revoked
+ */
+async function revokeApiKey(userId, keyId) {
+  const [count] = await ApiKey.update(
+    { revokedAt: new Date() },
+    { where: { id: keyId, userId, revokedAt: null } }
+  );
+  return count > 0;
+}
+
+/**
+ * Revoke every key of a user
+ * @returns {Promise<number>} Number of keys revoked
+ */
+async function revokeAllApiKeys(userId) {
+  const [count] = await ApiKey.update(
+    { revokedAt: new Date() },
+    { where: { userId, revokedAt: null } }
+  );
+  return count;
+}
+
+/**
+ * Resolve a plain key to its active record and owner
+ * @param {string} key
+ * @returns {Promise<ApiKey|null>} Key with `user` loaded, or null if unknown/revoked/expired
+ */
+async function findActiveKey(key) {
+  if (!isApiKey(key)) return null;
+
+  const apiKey = await ApiKey.findOne({
+    where: { keyHash: hashKey(key) },
+    include: [{ model: User, as: "user" }],
+  });
+
+  if (!apiKey || !isActive(apiKey)) return null;
+  return apiKey;
+}
+
+/**
+ * Whether a key may be used for a device
+ */
+function allowsDevice(apiKey, deviceId) {
+  if (!deviceId || !Array.isArray(apiKey.deviceIds) || apiKey.deviceIds.length === 0) {
+    return true;
+  }
+  return apiKey.deviceIds.includes(deviceId);
+}
+
+/**
+ * Update last-used time and IP (throttled)
+ * @param {ApiKey} apiKey
+ * @param {import("express").Request} req
+ */
+async function touchApiKey(apiKey, req) {
+  const lastUsed = apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt).getTime() : 0;
+  if (Date.now() - lastUsed < TOUCH_INTERVAL_MS) return;
+
+  try {
+    await apiKey.update({
+      lastUsedAt: new Date(),
+      lastUsedIp: req.ip || req.connection?.remoteAddress || null,
+    });
+  } catch (error) {
+    logger.error("❌ Error updating API key usage:", error);
+  }
+}
+
+module.exports = {
+  API_KEY_SCOPES,
+  isApiKey,
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+  revokeAllApiKeys,
+  findActiveKey,
+  allowsDevice,
+  touchApiKey,
+};
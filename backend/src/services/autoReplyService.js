@@ -8,14 +8,16 @@
  * 3. Check for resume keywords (if in HANDOFF)
  * 4. Check for escalation keywords
  * 5. Check business hours
- * 6. Match and execute rules
+ * 6. Continue a running flow, or start one whose trigger matches
+ * 7. Match and execute rules
  */
 
 const safetyGuard = require("./safetyGuard");
 const conversationStateService = require("./conversationStateService");
 const handoffService = require("./handoffService");
 const businessHoursService = require("./businessHoursService");
-const { AutoReplyRule, DeviceBotConfig, BotActionLog } = require("../models");
+const botFlowService = require("./botFlowService");
+const { AutoReplyRule, BotFlow, DeviceBotConfig, BotActionLog } = require("../models");
 const logger = require("../utils/logger");
 
 // Rule cooldowns per sender (deviceId:senderJid:ruleId → timestamp)
@@ -76,7 +78,9 @@ async function processIncoming(deviceId, senderJid, messageText, messageId, send
         return { processed: true, action: "resumed_by_user" };
       }
 
-      // Still in handoff, skip bot processing
+      // Still in handoff, skip bot processing; an agent waiting for the
+      // customer has their turn again
+      await handoffService.recordCustomerReply(deviceId, senderJid);
       return { processed: false, action: "in_handoff" };
     }
 
@@ -104,7 +108,38 @@ async function processIncoming(deviceId, senderJid, messageText, messageId, send
       return { processed: true, action: "off_hours_reply" };
     }
 
-    // 7. Match rules
+    // 7. Running flow: the message answers the step it waits on
+    const flowSession = state?.context?.flow;
+    if (flowSession) {
+      const flowResult = await botFlowService.continueFlow(
+        deviceId,
+        senderJid,
+        flowSession,
+        messageText,
+        sendMessageFn
+      );
+      if (flowResult) {
+        safetyGuard.recordAutoReply(deviceId, senderJid);
+        return { processed: true, action: flowResult.action };
+      }
+      // Timed out or removed: handle the message like a new one
+    }
+
+    // 8. Flow triggers, before single-message rules
+    const matchedFlow = await matchFlows(deviceId, messageText);
+    if (matchedFlow) {
+      const flowResult = await botFlowService.startFlow(
+        deviceId,
+        senderJid,
+        matchedFlow,
+        messageText,
+        sendMessageFn
+      );
+      safetyGuard.recordAutoReply(deviceId, senderJid);
+      return { processed: true, action: flowResult.action };
+    }
+
+    // 9. Match rules
     const matchedRule = await matchRules(deviceId, messageText, senderJid);
     
     if (matchedRule) {
@@ -189,6 +224,99 @@ async function matchRules(deviceId, messageText, senderJid) {
   }
 }
 
+/**
+ * Find the active flow whose trigger matches the message
+ * @param {string} deviceId - Device ID
+ * @param {string} messageText - Message to match
+ * @param {Object[]|null} flows - Flows to check instead of the stored ones (simulator drafts)
+ * @returns {Promise<Object|null>} Matched flow or null
+ */
+async function matchFlows(deviceId, messageText, flows = null) {
+  try {
+    const candidates = flows || await BotFlow.findAll({
+      where: {
+        deviceId,
+        isActive: true,
+      },
+      order: [["priority", "DESC"]],
+    });
+
+    const lowerMessage = messageText.toLowerCase().trim();
+    return candidates.find((flow) => matchRule(flow, lowerMessage, messageText)) || null;
+  } catch (error) {
+    logger.error("❌ Error matching flows:", error);
+    return null;
+  }
+}
+
+/**
+ * Simulate the bot reply to a message without sending or storing anything.
+ * Covers flows and rules; safety limits, handoff keywords, business hours
+ * and rule cooldowns are not applied.
+ * @param {string} deviceId - Device ID
+ * @param {string} messageText - Message of the simulated user
+ * @param {{flowId: number|null, stepId: string, fields: Object}|null} session - Running flow from the previous reply
+ * @param {Object|null} draftFlow - Unsaved flow from the editor; replaces the stored flows and rules
+ * @returns {Promise<{replies: string[], session: Object|null, matched: Object|null, action: Object|null}>}
+ */
+async function simulate(deviceId, messageText, session = null, draftFlow = null) {
+  let flow = null;
+  let result = null;
+
+  if (session) {
+    flow = draftFlow || await BotFlow.findOne({ where: { id: session.flowId, deviceId } });
+    if (flow) {
+      result = botFlowService.answerStep(flow, session.stepId, session.fields || {}, messageText);
+    }
+  }
+
+  if (!result) {
+    flow = await matchFlows(deviceId, messageText, draftFlow ? [draftFlow] : null);
+    if (flow) {
+      result = botFlowService.enterStep(flow, flow.startStepId, {});
+    }
+  }
+
+  if (result) {
+    const matched = { kind: "flow", id: flow.id || null, name: flow.name };
+    if (result.stepId) {
+      return {
+        replies: result.replies,
+        session: { flowId: flow.id || null, stepId: result.stepId, fields: result.fields },
+        matched,
+        action: null,
+      };
+    }
+
+    const action = await botFlowService.previewEndAction(deviceId, result.endStep, result.fields);
+    return {
+      replies: action.message ? [...result.replies, action.message] : result.replies,
+      session: null,
+      matched,
+      action: { type: action.type, fields: result.fields },
+    };
+  }
+
+  if (!draftFlow) {
+    const rules = await AutoReplyRule.findAll({
+      where: { deviceId, isActive: true },
+      order: [["priority", "DESC"]],
+    });
+    const lowerMessage = messageText.toLowerCase().trim();
+    const rule = rules.find((r) => matchRule(r, lowerMessage, messageText));
+    if (rule) {
+      return {
+        replies: [rule.response],
+        session: null,
+        matched: { kind: "rule", id: rule.id, name: rule.name },
+        action: null,
+      };
+    }
+  }
+
+  return { replies: [], session: null, matched: null, action: null };
+}
+
 /**
  * Check if a single rule matches the message
  * @param {Object} rule - Rule object
@@ -311,6 +439,8 @@ setInterval(() => {
 module.exports = {
   processIncoming,
   matchRules,
+  matchFlows,
   matchRule,
+  simulate,
   validateRegex,
 };
@@ -0,0 +1,552 @@
+/**
+ * Bot Flow Service
+ * Multi-step conversations of the auto-reply bot: numbered menus that branch
+ * on the answer, and questions whose answers are collected as form fields.
+ *
+ * A running flow lives in the conversation state context as
+ * `flow: {flowId, stepId, fields, expiresAt}`. Each answer moves it to the
+ * next step; a flow that gets no answer within its timeout is reset on the
+ * next message. An end step finishes the flow with its action: hand the
+ * conversation to a human, send a message template, or call the webhooks.
+ *
+ * answerStep/enterStep only compute replies, so the simulator runs the same
+ * steps as real conversations without sending anything.
+ */
+
+const conversationStateService = require("./conversationStateService");
+const handoffService = require("./handoffService");
+const webhookService = require("./webhookService");
+const { BotFlow, BotActionLog, MessageTemplate, WhatsAppSession } = require("../models");
+const { botFlows } = require("../utils/sharedConstants.json");
+const logger = require("../utils/logger");
+
+/**
+ * @typedef {Object} FlowMenuOption
+ * @property {string} key - What the user replies, e.g. "1"
+ * @property {string} label - Shown next to the key; also accepted as answer
+ * @property {string} next - Step ID to continue with
+ */
+
+/**
+ * @typedef {Object} FlowStep
+ * @property {string} id - Unique within the flow
+ * @property {"menu"|"question"|"message"|"end"} type
+ * @property {string} [text] - Sent when the step is entered; {{field}} is replaced by collected answers
+ * @property {FlowMenuOption[]} [options] - menu: numbered choices
+ * @property {string} [field] - question: field the answer is stored in; menu: optional field for the chosen label
+ * @property {"text"|"number"|"email"|"phone"} [inputType] - question: accepted answer
+ * @property {string} [invalidText] - menu/question: sent when the answer is not accepted
+ * @property {string} [next] - question/message: step to continue with
+ * @property {"none"|"handoff"|"template"|"webhook"} [action] - end: what happens when the flow finishes
+ * @property {number} [templateId] - end: template sent for the "template" action
+ */
+
+const STEP_TYPES = ["menu", "question", "message", "end"];
+const END_ACTIONS = ["none", "handoff", "template", "webhook"];
+const INPUT_TYPES = ["text", "number", "email", "phone"];
+
+const MAX_STEPS = botFlows.maxSteps;
+const MAX_MENU_OPTIONS = botFlows.maxMenuOptions;
+const MAX_TEXT_LENGTH = botFlows.maxTextLength;
+const MAX_ANSWER_LENGTH = 500;
+const MAX_TIMEOUT_MINUTES = botFlows.maxTimeoutMinutes; // Conversation state expires after 24 hours
+
+const STEP_ID_REGEX = /^[a-zA-Z0-9_-]{1,50}$/;
+const FIELD_REGEX = /^[a-zA-Z_][a-zA-Z0-9_]{0,49}$/;
+
+const DEFAULT_INVALID_OPTION = "Pilihan tidak valid. Balas dengan nomor pilihan.";
+const DEFAULT_INVALID_ANSWER = "Jawaban tidak valid, silakan coba lagi.";
+
+const INPUT_PATTERNS = {
+  number: /^-?\d+([.,]\d+)?$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  phone: /^\+?[0-9][0-9\s-]{5,19}$/,
+};
+
+/**
+ * Replace {{field}} placeholders with collected answers. Fields not collected
+ * on the way to this step (another branch) become empty.
+ * @param {string} text
+ * @param {Object<string, string>} fields
+ * @returns {string}
+ */
+function renderText(text, fields = {}) {
+  return (text || "").replace(/\{\{(\w+)\}\}/g, (placeholder, key) =>
+    fields[key] !== undefined ? String(fields[key]) : ""
+  );
+}
+
+function findStep(flow, stepId) {
+  return (flow.steps || []).find((step) => step.id === stepId) || null;
+}
+
+function formatMenu(step, fields) {
+  const options = step.options.map((option) => `${option.key}. ${option.label}`).join("\n");
+  return `${renderText(step.text, fields)}\n\n${options}`;
+}
+
+/**
+ * Enter a step: message steps are sent and followed until the flow waits for
+ * an answer (menu, question) or ends
+ * @param {Object} flow - BotFlow or draft with steps
+ * @param {string} stepId
+ * @param {Object<string, string>} fields - Answers collected so far
+ * @returns {{replies: string[], stepId: string|null, fields: Object, endStep: FlowStep|null}}
+ *   stepId is the step waiting for an answer, null when the flow is over
+ */
+function enterStep(flow, stepId, fields) {
+  const replies = [];
+  let step = findStep(flow, stepId);
+
+  // Bounded so a broken definition cannot loop
+  for (let hops = 0; step && hops < MAX_STEPS; hops++) {
+    if (step.type === "message") {
+      replies.push(renderText(step.text, fields));
+      step = findStep(flow, step.next);
+      continue;
+    }
+
+    if (step.type === "menu") {
+      replies.push(formatMenu(step, fields));
+      return { replies, stepId: step.id, fields, endStep: null };
+    }
+
+    if (step.type === "question") {
+      replies.push(renderText(step.text, fields));
+      return { replies, stepId: step.id, fields, endStep: null };
+    }
+
+    if (step.text) {
+      replies.push(renderText(step.text, fields));
+    }
+    return { replies, stepId: null, fields, endStep: step };
+  }
+
+  logger.warn(`⚠️ Flow ${flow.id || "draft"} stopped at missing step "${stepId}"`);
+  return { replies, stepId: null, fields, endStep: null };
+}
+
+/**
+ * Accepted value of an answer to a question, or null
+ */
+function parseAnswer(inputType, answer) {
+  if (!answer || answer.length > MAX_ANSWER_LENGTH) return null;
+  const pattern = INPUT_PATTERNS[inputType];
+  return !pattern || pattern.test(answer) ? answer : null;
+}
+
+/**
+ * Answer the step a running flow waits on
+ * @param {Object} flow - BotFlow or draft with steps
+ * @param {string} stepId - Step waiting for the answer
+ * @param {Object<string, string>} fields - Answers collected so far
+ * @param {string} messageText - The answer
+ * @returns {{replies: string[], stepId: string|null, fields: Object, endStep: FlowStep|null}}
+ *   Same as enterStep; an invalid answer repeats the step
+ */
+function answerStep(flow, stepId, fields, messageText) {
+  const step = findStep(flow, stepId);
+  if (!step) {
+    return enterStep(flow, stepId, fields);
+  }
+
+  const answer = (messageText || "").trim();
+
+  if (step.type === "menu") {
+    const lowerAnswer = answer.toLowerCase();
+    const option = step.options.find(
+      (o) => o.key.toLowerCase() === lowerAnswer || o.label.toLowerCase() === lowerAnswer
+    );
+    if (!option) {
+      const invalid = renderText(step.invalidText || DEFAULT_INVALID_OPTION, fields);
+      return { replies: [`${invalid}\n\n${formatMenu(step, fields)}`], stepId: step.id, fields, endStep: null };
+    }
+    const nextFields = step.field ? { ...fields, [step.field]: option.label } : fields;
+    return enterStep(flow, option.next, nextFields);
+  }
+
+  if (step.type === "question") {
+    const value = parseAnswer(step.inputType, answer);
+    if (value === null) {
+      return {
+        replies: [renderText(step.invalidText || DEFAULT_INVALID_ANSWER, fields)],
+        stepId: step.id,
+        fields,
+        endStep: null,
+      };
+    }
+    return enterStep(flow, step.next, { ...fields, [step.field]: value });
+  }
+
+  // Flows only wait on menus and questions
+  return enterStep(flow, step.id, fields);
+}
+
+/**
+ * Start a flow whose trigger matched
+ * @param {string} deviceId
+ * @param {string} senderJid
+ * @param {Object} flow - BotFlow
+ * @param {string} messageText - Message that triggered the flow
+ * @param {Function} sendMessageFn - (senderJid, message) => Promise
+ * @returns {Promise<{action: string}>}
+ */
+async function startFlow(deviceId, senderJid, flow, messageText, sendMessageFn) {
+  logger.info(`🧭 Flow started: "${flow.name}" (ID: ${flow.id}) for ${senderJid}`);
+  const result = enterStep(flow, flow.startStepId, {});
+  return applyResult(deviceId, senderJid, flow, result, messageText, sendMessageFn, "flow_started");
+}
+
+/**
+ * Continue the flow running in a conversation with the next message
+ * @param {string} deviceId
+ * @param {string} senderJid
+ * @param {{flowId: number, stepId: string, fields: Object, expiresAt: string}} session - state.context.flow
+ * @param {string} messageText
+ * @param {Function} sendMessageFn - (senderJid, message) => Promise
+ * @returns {Promise<{action: string}|null>} null when the flow was reset; the
+ *   message is then handled like any other
+ */
+async function continueFlow(deviceId, senderJid, session, messageText, sendMessageFn) {
+  if (!session.expiresAt || new Date(session.expiresAt).getTime() <= Date.now()) {
+    await resetFlow(deviceId, senderJid);
+    await logFlowAction(deviceId, senderJid, "flow_timeout", messageText, null, {
+      flowId: session.flowId,
+      stepId: session.stepId,
+    });
+    logger.info(`⏱️ Flow ${session.flowId} timed out for ${senderJid}`);
+    return null;
+  }
+
+  const flow = await BotFlow.findOne({
+    where: { id: session.flowId, deviceId, isActive: true },
+  });
+  // Deleted, disabled, or edited so that the step is gone
+  if (!flow || !findStep(flow, session.stepId)) {
+    await resetFlow(deviceId, senderJid);
+    return null;
+  }
+
+  const result = answerStep(flow, session.stepId, session.fields || {}, messageText);
+  return applyResult(deviceId, senderJid, flow, result, messageText, sendMessageFn, "flow_reply");
+}
+
+/**
+ * Send the replies of a step and save where the flow waits, or finish it
+ */
+async function applyResult(deviceId, senderJid, flow, result, messageText, sendMessageFn, actionType) {
+  for (const reply of result.replies) {
+    await sendMessageFn(senderJid, reply);
+  }
+  const sent = result.replies.join("\n\n") || null;
+
+  if (result.stepId) {
+    await conversationStateService.setState(
+      deviceId,
+      senderJid,
+      conversationStateService.ConversationStates.ACTIVE_BOT,
+      {
+        flow: {
+          flowId: flow.id,
+          stepId: result.stepId,
+          fields: result.fields,
+          expiresAt: new Date(Date.now() + flow.timeoutMinutes * 60000).toISOString(),
+        },
+      }
+    );
+    await logFlowAction(deviceId, senderJid, actionType, messageText, sent, {
+      flowId: flow.id,
+      stepId: result.stepId,
+    });
+    return { action: actionType };
+  }
+
+  const action = result.endStep?.action || "none";
+  const actionMessage = result.endStep
+    ? await runEndAction(deviceId, senderJid, flow, result.endStep, result.fields, sendMessageFn)
+    : null;
+
+  // A handoff has set its own state and keeps the answers for the agent
+  if (action !== "handoff") {
+    await conversationStateService.setState(
+      deviceId,
+      senderJid,
+      conversationStateService.ConversationStates.ACTIVE_BOT,
+      { lastCompletedFlow: flow.id }
+    );
+  }
+
+  await logFlowAction(
+    deviceId,
+    senderJid,
+    "flow_completed",
+    messageText,
+    [sent, actionMessage].filter(Boolean).join("\n\n") || null,
+    { flowId: flow.id, stepId: result.endStep?.id || null, action, fields: result.fields }
+  );
+  logger.info(`🏁 Flow completed: "${flow.name}" (ID: ${flow.id}) for ${senderJid} (${action})`);
+
+  return { action: "flow_completed" };
+}
+
+/**
+ * Run the action of an end step
+ * @returns {Promise<string|null>} Message sent by the action
+ */
+async function runEndAction(deviceId, senderJid, flow, endStep, fields, sendMessageFn) {
+  switch (endStep.action) {
+    case "handoff": {
+      const handoffResult = await handoffService.initiateHandoff(deviceId, senderJid, "flow", {
+        flowId: flow.id,
+        flowName: flow.name,
+        fields,
+      });
+      if (handoffResult.success && handoffResult.message) {
+        await sendMessageFn(senderJid, handoffResult.message);
+        return handoffResult.message;
+      }
+      return null;
+    }
+
+    case "template": {
+      const template = await findTemplate(deviceId, endStep.templateId);
+      if (!template) {
+        logger.warn(`⚠️ Flow ${flow.id}: template ${endStep.templateId} not found`);
+        return null;
+      }
+      const content = renderText(template.content, fields);
+      await sendMessageFn(senderJid, content);
+      await template.increment("usageCount");
+      return content;
+    }
+
+    case "webhook":
+      webhookService.dispatch(deviceId, "flow.completed", {
+        senderJid,
+        from: senderJid.split("@")[0],
+        flowId: flow.id,
+        flowName: flow.name,
+        fields,
+      });
+      return null;
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Template of the device owner
+ */
+async function findTemplate(deviceId, templateId) {
+  const device = await WhatsAppSession.findOne({ where: { deviceId } });
+  if (!device || !templateId) return null;
+  return MessageTemplate.findOne({ where: { id: templateId, userId: device.userId } });
+}
+
+/**
+ * What the end step of a simulated flow would do, without doing it
+ * @returns {Promise<{type: string, message: string|null}>}
+ */
+async function previewEndAction(deviceId, endStep, fields) {
+  const type = endStep?.action || "none";
+
+  if (type === "template") {
+    const template = await findTemplate(deviceId, endStep.templateId);
+    return { type, message: template ? renderText(template.content, fields) : null };
+  }
+
+  if (type === "handoff") {
+    return { type, message: await handoffService.getHandoffMessage(deviceId) };
+  }
+
+  return { type, message: null };
+}
+
+/**
+ * Drop the running flow of a conversation
+ */
+async function resetFlow(deviceId, senderJid) {
+  await conversationStateService.setState(
+    deviceId,
+    senderJid,
+    conversationStateService.ConversationStates.ACTIVE_BOT,
+    {}
+  );
+}
+
+async function logFlowAction(deviceId, senderJid, actionType, incomingMessage, responseMessage, metadata) {
+  try {
+    await BotActionLog.create({
+      deviceId,
+      senderJid,
+      actionType,
+      incomingMessage: incomingMessage?.substring(0, 1000),
+      responseMessage: responseMessage?.substring(0, 1000),
+      metadata,
+    });
+  } catch (error) {
+    logger.error("❌ Error logging flow action:", error);
+  }
+}
+
+/**
+ * Validate a flow definition (for flow creation and updates)
+ * @param {{steps: FlowStep[], startStepId: string, timeoutMinutes?: number}} flow
+ * @returns {{valid: boolean, errors: string[]}}
+ */
+function validateFlow({ steps, startStepId, timeoutMinutes }) {
+  const errors = [];
+
+  if (
+    timeoutMinutes !== undefined &&
+    (!Number.isInteger(timeoutMinutes) || timeoutMinutes < 1 || timeoutMinutes > MAX_TIMEOUT_MINUTES)
+  ) {
+    errors.push(`Timeout must be between 1 and ${MAX_TIMEOUT_MINUTES} minutes`);
+  }
+
+  if (!Array.isArray(steps) || steps.length === 0) {
+    return { valid: false, errors: [...errors, "At least one step is required"] };
+  }
+  if (steps.length > MAX_STEPS) {
+    errors.push(`At most ${MAX_STEPS} steps`);
+  }
+
+  const ids = new Set();
+  for (const step of steps) {
+    if (!step || typeof step.id !== "string" || !STEP_ID_REGEX.test(step.id)) {
+      errors.push("Step IDs must be 1-50 letters, digits, - or _");
+      continue;
+    }
+    if (ids.has(step.id)) {
+      errors.push(`Step ${step.id}: ID is used twice`);
+    }
+    ids.add(step.id);
+  }
+
+  const checkNext = (label, next) => {
+    if (!next || !ids.has(next)) {
+      errors.push(`${label}: Next step is missing`);
+    }
+  };
+
+  for (const step of steps) {
+    if (!step || typeof step.id !== "string") continue;
+    const label = `Step ${step.id}`;
+
+    if (!STEP_TYPES.includes(step.type)) {
+      errors.push(`${label}: Invalid type. Use: ${STEP_TYPES.join(", ")}`);
+      continue;
+    }
+    if (step.text !== undefined && step.text !== null && typeof step.text !== "string") {
+      errors.push(`${label}: Text must be a string`);
+    } else if (step.text && step.text.length > MAX_TEXT_LENGTH) {
+      errors.push(`${label}: Text must be at most ${MAX_TEXT_LENGTH} characters`);
+    }
+    if (step.type !== "end" && (typeof step.text !== "string" || !step.text.trim())) {
+      errors.push(`${label}: Text is required`);
+    }
+    if (step.invalidText && (typeof step.invalidText !== "string" || step.invalidText.length > MAX_TEXT_LENGTH)) {
+      errors.push(`${label}: Invalid-answer text must be at most ${MAX_TEXT_LENGTH} characters`);
+    }
+    if (step.field && !FIELD_REGEX.test(step.field)) {
+      errors.push(`${label}: Field names use letters, digits and _ and must not start with a digit`);
+    }
+
+    switch (step.type) {
+      case "menu": {
+        const options = Array.isArray(step.options) ? step.options : [];
+        if (options.length === 0 || options.length > MAX_MENU_OPTIONS) {
+          errors.push(`${label}: A menu needs 1-${MAX_MENU_OPTIONS} options`);
+        }
+        const keys = new Set();
+        options.forEach((option, i) => {
+          const key = typeof option?.key === "string" ? option.key.trim().toLowerCase() : "";
+          if (!key || key.length > 10) {
+            errors.push(`${label} option ${i + 1}: Key must be 1-10 characters`);
+          } else if (keys.has(key)) {
+            errors.push(`${label} option ${i + 1}: Key "${option.key}" is used twice`);
+          }
+          keys.add(key);
+          if (typeof option?.label !== "string" || !option.label.trim() || option.label.length > 100) {
+            errors.push(`${label} option ${i + 1}: Label must be 1-100 characters`);
+          }
+          checkNext(`${label} option ${i + 1}`, option?.next);
+        });
+        break;
+      }
+
+      case "question":
+        if (!step.field) {
+          errors.push(`${label}: Field is required`);
+        }
+        if (step.inputType && !INPUT_TYPES.includes(step.inputType)) {
+          errors.push(`${label}: Invalid input type. Use: ${INPUT_TYPES.join(", ")}`);
+        }
+        checkNext(label, step.next);
+        break;
+
+      case "message":
+        checkNext(label, step.next);
+        break;
+
+      case "end":
+        if (step.action && !END_ACTIONS.includes(step.action)) {
+          errors.push(`${label}: Invalid action. Use: ${END_ACTIONS.join(", ")}`);
+        }
+        if (step.action === "template" && !Number.isInteger(step.templateId)) {
+          errors.push(`${label}: Template is required`);
+        }
+        break;
+    }
+  }
+
+  if (!startStepId || !ids.has(startStepId)) {
+    errors.push("Start step is missing");
+  }
+
+  // Message steps continue on their own; a loop of them would never stop sending
+  const byId = new Map(steps.filter((step) => step && typeof step.id === "string").map((step) => [step.id, step]));
+  for (const step of byId.values()) {
+    if (step.type !== "message") continue;
+    const seen = new Set();
+    let current = step;
+    while (current?.type === "message" && !seen.has(current.id)) {
+      seen.add(current.id);
+      current = byId.get(current.next);
+    }
+    if (current?.type === "message") {
+      errors.push(`Step ${step.id}: Message steps loop without waiting for an answer`);
+      break;
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Check that template end steps use templates of the device owner
+ * @returns {Promise<string|null>} Error message or null
+ */
+async function checkTemplates(steps, userId) {
+  const templateIds = [
+    ...new Set(steps.filter((step) => step.type === "end" && step.action === "template").map((step) => step.templateId)),
+  ];
+  if (templateIds.length === 0) return null;
+
+  const count = await MessageTemplate.count({ where: { id: templateIds, userId } });
+  return count === templateIds.length ? null : "Template not found";
+}
+
+module.exports = {
+  startFlow,
+  continueFlow,
+  enterStep,
+  answerStep,
+  previewEndAction,
+  validateFlow,
+  checkTemplates,
+  MAX_STEPS,
+  MAX_MENU_OPTIONS,
+  MAX_TIMEOUT_MINUTES,
+};
@@ -1,11 +1,43 @@
 /**
  * Business Hours Service
  * Handles business hours checking with timezone support
+ *
+ * A day can have several opening windows (split shifts). A holiday replaces
+ * the weekly hours of its date: closed all day when it has no windows, or
+ * open only in its own windows, with an optional off-hours message of its own.
  */
 
 const logger = require("../utils/logger");
+const { businessHours } = require("../utils/sharedConstants.json");
 const { DeviceBotConfig } = require("../models");
 
+/**
+ * @typedef {object} BusinessHoursWindow
+ * @property {number} day - 0 (Sunday) - 6 (Saturday)
+ * @property {string} start - HH:MM
+ * @property {string} end - HH:MM, after start
+ */
+
+/**
+ * @typedef {BusinessHoursWindow[]} BusinessHours
+ */
+
+/**
+ * @typedef {object} BusinessHoliday
+ * @property {string} date - YYYY-MM-DD in the device timezone
+ * @property {string} [name]
+ * @property {{ start: string, end: string }[]} [windows] - Special hours; none = closed all day
+ * @property {string|null} [offHoursMessage] - Replaces the regular off-hours message on this date
+ */
+
+const MAX_WINDOWS_PER_DAY = businessHours.maxWindowsPerDay;
+const MAX_HOLIDAYS = businessHours.maxHolidays;
+const MAX_HOLIDAY_NAME_LENGTH = businessHours.maxHolidayNameLength;
+const MAX_OFF_HOURS_MESSAGE_LENGTH = businessHours.maxOffHoursMessageLength;
+
+const TIME_REGEX = /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
 /**
  * Check if current time is within business hours for a device
  * @param {string} deviceId - Device ID
@@ -22,36 +54,34 @@ async function checkBusinessHours(deviceId) {
       return { isBusinessHours: true, offHoursMessage: null };
     }
 
-    // No business hours defined → always business hours
-    if (!config.businessHours || config.businessHours.length === 0) {
-      return { isBusinessHours: true, offHoursMessage: null };
-    }
-
     // Get current time in device's timezone
     const now = getCurrentTimeInTimezone(config.timezone);
     const currentDay = now.getDay(); // 0 = Sunday, 1 = Monday, etc.
     const currentTime = formatTime(now);
 
-    // Find today's schedule
-    const todaySchedule = config.businessHours.find(
-      (schedule) => schedule.day === currentDay
-    );
+    // A holiday replaces the weekly hours of its date
+    const holiday = (config.holidays || []).find((h) => h.date === formatDate(now));
 
-    // No schedule for today → off hours
-    if (!todaySchedule) {
-      return {
-        isBusinessHours: false,
-        offHoursMessage: config.offHoursMessage,
-      };
+    // No business hours defined → always business hours
+    if (!holiday && (!config.businessHours || config.businessHours.length === 0)) {
+      return { isBusinessHours: true, offHoursMessage: null };
     }
 
-    // Check if current time is within schedule
-    const isWithinHours =
-      currentTime >= todaySchedule.start && currentTime <= todaySchedule.end;
+    // Today's windows; none → off hours
+    const todayWindows = holiday
+      ? holiday.windows || []
+      : config.businessHours.filter((schedule) => schedule.day === currentDay);
+
+    // Check if current time is within any window
+    const isWithinHours = todayWindows.some(
+      (window) => currentTime >= window.start && currentTime <= window.end
+    );
 
     return {
       isBusinessHours: isWithinHours,
-      offHoursMessage: isWithinHours ? null : config.offHoursMessage,
+      offHoursMessage: isWithinHours
+        ? null
+        : (holiday && holiday.offHoursMessage) || config.offHoursMessage,
     };
   } catch (error) {
     logger.error("❌ Error checking business hours:", error);
@@ -117,38 +147,129 @@ function formatTime(date) {
   return `${hours}:${minutes}`;
 }
 
+/**
+ * Format date as YYYY-MM-DD string
+ * @param {Date} date
+ * @returns {string}
+ */
+function formatDate(date) {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Check the times of a list of windows and that they do not overlap
+ * @param {Array} windows - [{start, end}]
+ * @param {string} label - Prefix for error messages
+ * @param {string[]} errors - Errors are added here
+ */
+function validateWindows(windows, label, errors) {
+  const valid = [];
+
+  windows.forEach((window, i) => {
+    // Validate time format
+    if (!window || !TIME_REGEX.test(window.start)) {
+      errors.push(`${label} window ${i}: Invalid start time format (use HH:MM)`);
+      return;
+    }
+    if (!TIME_REGEX.test(window.end)) {
+      errors.push(`${label} window ${i}: Invalid end time format (use HH:MM)`);
+      return;
+    }
+
+    // Check start < end
+    if (window.start >= window.end) {
+      errors.push(`${label} window ${i}: Start time must be before end time`);
+      return;
+    }
+    valid.push(window);
+  });
+
+  if (windows.length > MAX_WINDOWS_PER_DAY) {
+    errors.push(`${label}: At most ${MAX_WINDOWS_PER_DAY} windows per day`);
+  }
+
+  // Windows of the same day must not overlap
+  const sorted = [...valid].sort((a, b) => a.start.localeCompare(b.start));
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].start < sorted[i - 1].end) {
+      errors.push(`${label}: ${sorted[i - 1].start}-${sorted[i - 1].end} overlaps ${sorted[i].start}-${sorted[i].end}`);
+    }
+  }
+}
+
 /**
  * Validate business hours configuration
- * @param {Array} businessHours - Business hours array
+ * @param {BusinessHours} businessHours - Weekly opening windows
+ * @param {BusinessHoliday[]|null} [holidays] - Date overrides
  * @returns {{valid: boolean, errors: string[]}}
  */
-function validateBusinessHours(businessHours) {
+function validateBusinessHours(businessHours, holidays = null) {
   const errors = [];
 
   if (!Array.isArray(businessHours)) {
     return { valid: false, errors: ["Business hours must be an array"] };
   }
 
+  const days = new Map();
   for (let i = 0; i < businessHours.length; i++) {
     const schedule = businessHours[i];
 
     // Check required fields
-    if (typeof schedule.day !== "number" || schedule.day < 0 || schedule.day > 6) {
+    if (!schedule || typeof schedule.day !== "number" || schedule.day < 0 || schedule.day > 6) {
       errors.push(`Schedule ${i}: Invalid day (must be 0-6)`);
+      continue;
     }
+    days.set(schedule.day, [...(days.get(schedule.day) || []), schedule]);
+  }
+  for (const [day, windows] of days) {
+    validateWindows(windows, `Day ${day}`, errors);
+  }
 
-    // Validate time format
-    const timeRegex = /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/;
-    if (!timeRegex.test(schedule.start)) {
-      errors.push(`Schedule ${i}: Invalid start time format (use HH:MM)`);
+  if (holidays === null || holidays === undefined) {
+    return { valid: errors.length === 0, errors };
+  }
+
+  if (!Array.isArray(holidays)) {
+    errors.push("Holidays must be an array");
+    return { valid: false, errors };
+  }
+  if (holidays.length > MAX_HOLIDAYS) {
+    errors.push(`At most ${MAX_HOLIDAYS} holidays`);
+  }
+
+  const dates = new Set();
+  for (let i = 0; i < holidays.length; i++) {
+    const holiday = holidays[i] || {};
+    const label = `Holiday ${holiday.date || i}`;
+
+    const parsed = DATE_REGEX.test(holiday.date) ? new Date(`${holiday.date}T00:00:00Z`) : null;
+    if (!parsed || isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== holiday.date) {
+      errors.push(`Holiday ${i}: Invalid date (use YYYY-MM-DD)`);
+    } else if (dates.has(holiday.date)) {
+      errors.push(`${label}: Date is listed twice`);
+    }
+    dates.add(holiday.date);
+
+    if (holiday.name !== undefined && holiday.name !== null) {
+      if (typeof holiday.name !== "string" || holiday.name.length > MAX_HOLIDAY_NAME_LENGTH) {
+        errors.push(`${label}: Name must be at most ${MAX_HOLIDAY_NAME_LENGTH} characters`);
+      }
     }
-    if (!timeRegex.test(schedule.end)) {
-      errors.push(`Schedule ${i}: Invalid end time format (use HH:MM)`);
+
+    if (holiday.offHoursMessage !== undefined && holiday.offHoursMessage !== null) {
+      if (typeof holiday.offHoursMessage !== "string" || holiday.offHoursMessage.length > MAX_OFF_HOURS_MESSAGE_LENGTH) {
+        errors.push(`${label}: Off-hours message must be at most ${MAX_OFF_HOURS_MESSAGE_LENGTH} characters`);
+      }
     }
 
-    // Check start < end
-    if (schedule.start && schedule.end && schedule.start >= schedule.end) {
-      errors.push(`Schedule ${i}: Start time must be before end time`);
+    if (holiday.windows !== undefined && holiday.windows !== null) {
+      if (!Array.isArray(holiday.windows)) {
+        errors.push(`${label}: Windows must be an array`);
+      } else {
+        validateWindows(holiday.windows, label, errors);
+      }
     }
   }
 
@@ -170,6 +291,8 @@ function getDefaultBusinessHours() {
 }
 
 module.exports = {
+  MAX_WINDOWS_PER_DAY,
+  MAX_HOLIDAYS,
   checkBusinessHours,
   getCurrentTimeInTimezone,
   validateBusinessHours,
@@ -0,0 +1,128 @@
+/**
+ * Call Policy Service
+ * What happens to incoming WhatsApp calls on a device. Numbers run by the bot
+ * can't take calls, so calls can be rejected automatically with a text reply
+ * asking the caller to chat instead. Calls that were rejected or rang out
+ * are missed calls: they are logged in the chat history and bot logs and
+ * the device owner is notified.
+ *
+ * The policy is stored in DeviceBotConfig and applies whether or not the bot
+ * is enabled.
+ */
+
+const { DeviceBotConfig, BotActionLog } = require("../models");
+const logger = require("../utils/logger");
+
+// Calls that ring longer than this are forgotten (WhatsApp stops ringing after ~1 minute)
+const RINGING_TTL_MS = 5 * 60 * 1000;
+
+// deviceId:callId -> time the call started ringing
+const ringingCalls = new Map();
+
+const pruneRingingCalls = () => {
+  const cutoff = Date.now() - RINGING_TTL_MS;
+  for (const [key, startedAt] of ringingCalls) {
+    if (startedAt < cutoff) ringingCalls.delete(key);
+  }
+};
+
+/**
+ * Call policy of a device
+ * @param {string} deviceId
+ * @returns {Promise<{ rejectCalls: boolean, rejectMessage: string|null }>}
+ */
+async function getCallPolicy(deviceId) {
+  const config = await DeviceBotConfig.findOne({
+    where: { deviceId },
+    attributes: ["rejectCalls", "callRejectMessage"],
+  });
+  return {
+    rejectCalls: !!config?.rejectCalls,
+    rejectMessage: config?.callRejectMessage || null,
+  };
+}
+
+/**
+ * Decide what to do with a call update from the socket's "call" event.
+ * An offered call is rejected when the policy says so; otherwise it rings
+ * on the phone and becomes a missed call unless someone picks up.
+ * @param {string} deviceId
+ * @param {{ id: string, from: string, status: string, isGroup?: boolean, offline?: boolean }} call
+ * @returns {Promise<{ action: "reject"|"missed"|null, reply: string|null }>}
+ */
+async function handleCall(deviceId, call) {
+  const none = { action: null, reply: null };
+  if (call.isGroup || !call.from?.endsWith("@s.whatsapp.net")) return none;
+
+  const key = `${deviceId}:${call.id}`;
+
+  try {
+    switch (call.status) {
+      case "offer": {
+        const policy = await getCallPolicy(deviceId);
+        // Calls made while the device was offline are over already; the
+        // caller still gets the reply
+        if (call.offline) {
+          return { action: "missed", reply: policy.rejectCalls ? policy.rejectMessage : null };
+        }
+        if (policy.rejectCalls) return { action: "reject", reply: policy.rejectMessage };
+
+        pruneRingingCalls();
+        ringingCalls.set(key, Date.now());
+        return none;
+      }
+      case "accept":
+        ringingCalls.delete(key);
+        return none;
+      case "timeout":
+      case "terminate":
+      case "reject":
+        // Only calls we saw ringing; a rejected call has been logged already
+        return ringingCalls.delete(key) ? { action: "missed", reply: null } : none;
+      default:
+        return none;
+    }
+  } catch (error) {
+    logger.error("❌ Error applying call policy:", error);
+    return none;
+  }
+}
+
+/**
+ * Short description of a missed call, as shown in chat history and logs
+ * @param {{ isVideo?: boolean }} call
+ * @param {boolean} rejected
+ */
+function describeCall(call, rejected) {
+  const kind = call.isVideo ? "video" : "voice";
+  return rejected ? `Rejected ${kind} call` : `Missed ${kind} call`;
+}
+
+/**
+ * Record a missed call in the bot logs
+ * @param {string} deviceId
+ * @param {string} callerJid
+ * @param {boolean} rejected
+ * @param {string} description - From describeCall
+ * @param {string|null} reply - Text sent to the caller
+ */
+async function logCall(deviceId, callerJid, rejected, description, reply) {
+  try {
+    await BotActionLog.create({
+      deviceId,
+      senderJid: callerJid,
+      actionType: rejected ? "call_rejected" : "call_missed",
+      incomingMessage: description,
+      responseMessage: reply?.substring(0, 1000) || null,
+    });
+  } catch (error) {
+    logger.error("❌ Error logging call:", error);
+  }
+}
+
+module.exports = {
+  getCallPolicy,
+  handleCall,
+  describeCall,
+  logCall,
+};
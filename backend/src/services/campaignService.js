@@ -0,0 +1,353 @@
+/**
+ * Campaign Service
+ * A campaign sends one message, or 2-4 A/B variants of it, to a segment or a
+ * list of numbers through the job queue and reports per variant how many
+ * messages were sent, delivered, read and replied to.
+ *
+ * Variants are interleaved in a single job so they all go out over the same
+ * time window. Delivered/read come from the receipts stored on Message rows;
+ * a reply is an incoming message from the recipient within
+ * REPLY_WINDOW_HOURS of the campaign message.
+ */
+
+const { Op } = require("sequelize");
+const { Campaign, Job, JobItem, Message, sequelize } = require("../models");
+const jobQueueService = require("./jobQueueService");
+const segmentService = require("./segmentService");
+const { normalizePhoneNumber, formatPhoneNumber } = require("../utils/phoneNumber");
+const { campaigns } = require("../utils/sharedConstants.json");
+const logger = require("../utils/logger");
+
+const VARIANT_KEYS = campaigns.variantKeys;
+const MAX_VARIANTS = VARIANT_KEYS.length;
+const MAX_CAMPAIGN_NUMBERS = campaigns.maxNumbers;
+
+const REPLY_WINDOW_HOURS = 72;
+const TIMELINE_HOURS = 24;
+const HOUR_MS = 60 * 60 * 1000;
+
+const BATCH_SIZE = 500;
+
+const ACTIVE_JOB_STATUSES = ["queued", "processing", "paused"];
+
+/**
+ * Hand out variants evenly in random order: every run of N recipients gets
+ * each of the N variants once, shuffled.
+ * @param {Array<{ key: string, message: string }>} variants
+ */
+function createVariantPicker(variants) {
+  let deck = [];
+  return () => {
+    if (deck.length === 0) {
+      deck = [...variants];
+      for (let i = deck.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [deck[i], deck[j]] = [deck[j], deck[i]];
+      }
+    }
+    return deck.pop();
+  };
+}
+
+/**
+ * Recipients for a pasted list of numbers; only {{phone}} can be filled in
+ */
+function expandNumbers(numbers, { variants, pickVariant, defaultCountry }) {
+  const recipients = [];
+  const seen = new Set();
+  let invalid = 0;
+  let incomplete = 0;
+
+  for (const raw of numbers) {
+    const phone = normalizePhoneNumber(raw, defaultCountry);
+    if (!phone) {
+      invalid++;
+      continue;
+    }
+    if (seen.has(phone)) continue;
+    seen.add(phone);
+
+    const texts = segmentService.renderVariants(variants, { phone: formatPhoneNumber(phone) });
+    if (!texts) {
+      incomplete++;
+      continue;
+    }
+    const { key } = pickVariant();
+    recipients.push({ phone, message: texts.get(key), variant: key });
+  }
+
+  return { recipients, invalid, incomplete, exceeded: false };
+}
+
+/**
+ * Create a campaign and queue its job
+ * @param {Object} options
+ * @param {number} options.userId
+ * @param {string} options.deviceId
+ * @param {string} options.name
+ * @param {string[]} options.messages - One message per variant (A, B, ...)
+ * @param {Object} [options.segment] - AudienceSegment instance; or pass numbers
+ * @param {string[]} [options.numbers]
+ * @param {number} [options.delay] - Seconds between messages
+ * @param {string} options.defaultCountry
+ * @returns {Promise<{ success: boolean, error?: string, campaign?: Object, job?: Object, total?: number, skipped?: Object }>}
+ */
+async function createCampaign({ userId, deviceId, name, messages, segment, numbers, delay = 3, defaultCountry }) {
+  const variants = messages.map((message, index) => ({ key: VARIANT_KEYS[index], message }));
+  const pickVariant = createVariantPicker(variants);
+
+  const { recipients, invalid, incomplete, exceeded } = segment
+    ? await segmentService.expandSegment(userId, segment.rules, { variants, pickVariant, defaultCountry })
+    : expandNumbers(numbers, { variants, pickVariant, defaultCountry });
+
+  if (exceeded) {
+    return {
+      success: false,
+      error: `Segment "${segment.name}" matches more than ${segmentService.MAX_SEGMENT_RECIPIENTS} recipients`,
+    };
+  }
+  if (recipients.length === 0) {
+    return { success: false, error: "Campaign has no recipients to send to" };
+  }
+
+  const campaign = await Campaign.create({
+    userId,
+    deviceId,
+    name,
+    variants,
+    audience: segment
+      ? { type: "segment", segmentId: segment.id, segmentName: segment.name }
+      : { type: "numbers", count: recipients.length },
+  });
+
+  const job = await jobQueueService.createJob(
+    userId,
+    deviceId,
+    "send-text",
+    {
+      delay,
+      message: variants[0].message,
+      campaignId: campaign.id,
+      campaignName: name,
+      defaultCountry,
+    },
+    recipients,
+    { campaignId: campaign.id }
+  );
+
+  logger.info(
+    `📣 Campaign ${campaign.id} queued as job ${job.id}: ${recipients.length} recipients across ${variants.length} variant(s), ${invalid} invalid, ${incomplete} missing variables`
+  );
+
+  return { success: true, campaign, job, total: recipients.length, skipped: { invalid, incomplete } };
+}
+
+/**
+ * Find a campaign owned by the user, with its jobs
+ */
+async function getCampaign(userId, campaignId) {
+  return Campaign.findOne({
+    where: { id: campaignId, userId },
+    include: [{ model: Job, as: "jobs", attributes: ["id", "status", "progress"] }],
+  });
+}
+
+/**
+ * A user's campaigns, newest first, with their jobs
+ */
+async function listCampaigns(userId) {
+  return Campaign.findAll({
+    where: { userId },
+    include: [{ model: Job, as: "jobs", attributes: ["id", "status", "progress"] }],
+    order: [["created_at", "DESC"]],
+  });
+}
+
+const parseProgress = (progress) => {
+  if (typeof progress !== "string") return progress || {};
+  try {
+    return JSON.parse(progress);
+  } catch (e) {
+    return {};
+  }
+};
+
+/**
+ * Overall status and send progress of a campaign, from its jobs
+ * @returns {{ status: "running"|"paused"|"completed"|"cancelled", progress: { total, sent, failed, skipped } }}
+ */
+function summarize(campaign) {
+  const jobs = campaign.jobs || [];
+  const progress = { total: 0, sent: 0, failed: 0, skipped: 0 };
+  for (const job of jobs) {
+    const jobProgress = parseProgress(job.progress);
+    progress.total += jobProgress.total || 0;
+    progress.sent += jobProgress.sent || 0;
+    progress.failed += jobProgress.failed || 0;
+    progress.skipped += jobProgress.skipped || 0;
+  }
+
+  let status = "completed";
+  if (jobs.some((job) => job.status === "queued" || job.status === "processing")) {
+    status = "running";
+  } else if (jobs.some((job) => job.status === "paused")) {
+    status = "paused";
+  } else if (jobs.length > 0 && jobs.every((job) => job.status === "cancelled")) {
+    status = "cancelled";
+  }
+
+  return { status, progress };
+}
+
+/**
+ * Cancel every job of the campaign that has not finished
+ * @returns {Promise<number>} Number of jobs cancelled
+ */
+async function cancelCampaign(campaign) {
+  const active = (campaign.jobs || []).filter((job) => ACTIVE_JOB_STATUSES.includes(job.status));
+  for (const job of active) {
+    await jobQueueService.cancelJob(job.id, campaign.userId);
+  }
+  logger.info(`🛑 Campaign ${campaign.id} cancelled (${active.length} job(s))`);
+  return active.length;
+}
+
+const percent = (count, total) => (total > 0 ? Math.round((count / total) * 1000) / 10 : 0);
+
+/**
+ * Add delivery, read and reply counts for a batch of sent job items
+ */
+async function tallyEngagement(userId, items, stats, repliesByHour) {
+  const receipts = await Message.findAll({
+    where: {
+      userId,
+      direction: "outgoing",
+      messageId: { [Op.in]: items.map((item) => item.messageId) },
+    },
+    attributes: ["messageId", "status"],
+  });
+  const statusByMessageId = new Map(receipts.map((message) => [message.messageId, message.status]));
+
+  const sentTimes = items.map((item) => new Date(item.processedAt).getTime());
+  const replies = await Message.findAll({
+    where: {
+      userId,
+      direction: "incoming",
+      fromNumber: { [Op.in]: [...new Set(items.map((item) => item.recipient))] },
+      timestamp: {
+        [Op.gte]: new Date(Math.min(...sentTimes)),
+        [Op.lte]: new Date(Math.max(...sentTimes) + REPLY_WINDOW_HOURS * HOUR_MS),
+      },
+    },
+    attributes: ["fromNumber", "timestamp"],
+    order: [["timestamp", "ASC"]],
+  });
+  const replyTimesByNumber = new Map();
+  for (const reply of replies) {
+    const times = replyTimesByNumber.get(reply.fromNumber) || [];
+    times.push(new Date(reply.timestamp).getTime());
+    replyTimesByNumber.set(reply.fromNumber, times);
+  }
+
+  items.forEach((item, index) => {
+    const variantStats = stats.get(item.variant);
+    if (!variantStats) return;
+
+    const sentAt = sentTimes[index];
+    const firstReply = (replyTimesByNumber.get(item.recipient) || []).find(
+      (time) => time >= sentAt && time <= sentAt + REPLY_WINDOW_HOURS * HOUR_MS
+    );
+    const status = statusByMessageId.get(item.messageId);
+
+    // A reply proves the message was read even when the recipient hides read receipts
+    const replied = firstReply !== undefined;
+    const read = status === "read" || replied;
+    if (read || status === "delivered") variantStats.delivered++;
+    if (read) variantStats.read++;
+    if (replied) {
+      variantStats.replied++;
+      const hour = Math.floor((firstReply - sentAt) / HOUR_MS);
+      if (hour < TIMELINE_HOURS) repliesByHour.get(item.variant)[hour]++;
+    }
+  });
+}
+
+/**
+ * Per-variant results of a campaign
+ * @param {Object} campaign - From getCampaign (jobs included)
+ * @returns {Promise<{ variants: Array, timeline: Array, replyWindowHours: number }>}
+ *   variants: [{ key, message, recipients, pending, sent, failed, skipped, delivered, read, replied,
+ *   deliveredRate, readRate, replyRate }] with rates in percent of sent;
+ *   timeline: [{ hour, A, B, ... }] cumulative reply rate per hour after sending
+ */
+async function getCampaignResults(campaign) {
+  const jobIds = (campaign.jobs || []).map((job) => job.id);
+  const stats = new Map(
+    campaign.variants.map(({ key, message }) => [
+      key,
+      { key, message, recipients: 0, pending: 0, sent: 0, failed: 0, skipped: 0, delivered: 0, read: 0, replied: 0 },
+    ])
+  );
+  const repliesByHour = new Map(campaign.variants.map(({ key }) => [key, new Array(TIMELINE_HOURS).fill(0)]));
+
+  if (jobIds.length > 0) {
+    const counts = await JobItem.findAll({
+      where: { jobId: { [Op.in]: jobIds } },
+      attributes: ["variant", "status", [sequelize.fn("COUNT", sequelize.col("id")), "count"]],
+      group: ["variant", "status"],
+      raw: true,
+    });
+    for (const row of counts) {
+      const variantStats = stats.get(row.variant);
+      if (!variantStats) continue;
+      variantStats.recipients += Number(row.count);
+      variantStats[row.status] += Number(row.count);
+    }
+
+    let lastItemId = 0;
+    for (;;) {
+      const items = await JobItem.findAll({
+        where: { jobId: { [Op.in]: jobIds }, status: "sent", id: { [Op.gt]: lastItemId } },
+        attributes: ["id", "variant", "recipient", "messageId", "processedAt"],
+        order: [["id", "ASC"]],
+        limit: BATCH_SIZE,
+      });
+      if (items.length === 0) break;
+
+      lastItemId = items[items.length - 1].id;
+      await tallyEngagement(campaign.userId, items, stats, repliesByHour);
+      if (items.length < BATCH_SIZE) break;
+    }
+  }
+
+  const variants = [...stats.values()].map((variantStats) => ({
+    ...variantStats,
+    deliveredRate: percent(variantStats.delivered, variantStats.sent),
+    readRate: percent(variantStats.read, variantStats.sent),
+    replyRate: percent(variantStats.replied, variantStats.sent),
+  }));
+
+  const running = new Map(variants.map(({ key }) => [key, 0]));
+  const timeline = [];
+  for (let hour = 0; hour < TIMELINE_HOURS; hour++) {
+    const point = { hour: hour + 1 };
+    for (const { key, sent } of variants) {
+      running.set(key, running.get(key) + repliesByHour.get(key)[hour]);
+      point[key] = percent(running.get(key), sent);
+    }
+    timeline.push(point);
+  }
+
+  return { variants, timeline, replyWindowHours: REPLY_WINDOW_HOURS };
+}
+
+module.exports = {
+  MAX_VARIANTS,
+  MAX_CAMPAIGN_NUMBERS,
+  createCampaign,
+  getCampaign,
+  listCampaigns,
+  summarize,
+  cancelCampaign,
+  getCampaignResults,
+};
@@ -0,0 +1,124 @@
+/**
+ * Contact Import Service
+ * Bulk import of contacts parsed on the client (CSV / vCard), merged into
+ * existing contacts by normalized phone number.
+ */
+
+const { Op } = require("sequelize");
+const { Contact } = require("../models");
+const { normalizePhoneNumber, sanitizeContactTags } = require("../utils/validation");
+const logger = require("../utils/logger");
+
+// Rows per lookup/insert so large imports don't build huge IN () lists
+const BATCH_SIZE = 500;
+
+const mergeTags = (existing, incoming) =>
+  sanitizeContactTags([...new Set([...(existing || []), ...incoming])]);
+
+/**
+ * Import contacts for a user
+ * @param {number} userId
+ * @param {Object} options
+ * @param {Array<{phoneNumber: string, name?: string, email?: string, tags?: string[], notes?: string, customFields?: Object}>} options.contacts
+ * @param {string[]} [options.tags] - Tags added to every imported contact
+ * @param {string|null} [options.deviceId] - Attach new contacts to this device and only merge with its contacts
+ * @param {string} [options.defaultCountry] - Country for numbers without calling code
+ * @returns {Promise<{ total: number, created: number, updated: number, invalid: Array, duplicates: Array }>}
+ */
+async function importContacts(userId, { contacts, tags = [], deviceId = null, defaultCountry }) {
+  const invalid = [];
+  const duplicates = [];
+  const entries = new Map();
+
+  contacts.forEach((row, index) => {
+    const rowNumber = index + 1;
+    const phoneNumber = normalizePhoneNumber(row.phoneNumber, defaultCountry);
+    if (!phoneNumber) {
+      invalid.push({ row: rowNumber, phoneNumber: row.phoneNumber });
+      return;
+    }
+    if (entries.has(phoneNumber)) {
+      duplicates.push({ row: rowNumber, phoneNumber: row.phoneNumber });
+      return;
+    }
+
+    entries.set(phoneNumber, {
+      name: row.name ? row.name.trim() : "",
+      email: row.email || null,
+      tags: sanitizeContactTags([...(row.tags || []), ...tags]),
+      notes: row.notes || null,
+      customFields: row.customFields || {},
+    });
+  });
+
+  const phoneNumbers = [...entries.keys()];
+  let created = 0;
+  let updated = 0;
+
+  for (let i = 0; i < phoneNumbers.length; i += BATCH_SIZE) {
+    const batch = phoneNumbers.slice(i, i + BATCH_SIZE);
+
+    const existing = await Contact.findAll({
+      where: {
+        userId,
+        phoneNumber: { [Op.in]: batch },
+        ...(deviceId ? { deviceId } : {}),
+      },
+    });
+
+    const existingByPhone = new Map();
+    for (const contact of existing) {
+      if (!existingByPhone.has(contact.phoneNumber)) {
+        existingByPhone.set(contact.phoneNumber, []);
+      }
+      existingByPhone.get(contact.phoneNumber).push(contact);
+    }
+
+    const toCreate = [];
+    for (const phoneNumber of batch) {
+      const entry = entries.get(phoneNumber);
+      const matches = existingByPhone.get(phoneNumber);
+
+      if (!matches) {
+        toCreate.push({
+          userId,
+          deviceId,
+          phoneNumber,
+          name: entry.name || phoneNumber,
+          email: entry.email,
+          tags: entry.tags,
+          notes: entry.notes,
+          customFields: Object.keys(entry.customFields).length > 0 ? entry.customFields : null,
+        });
+        continue;
+      }
+
+      // Imported values win; empty cells keep what we already have
+      for (const contact of matches) {
+        await contact.update({
+          name: entry.name || contact.name,
+          email: entry.email || contact.email,
+          tags: mergeTags(contact.tags, entry.tags),
+          notes: entry.notes || contact.notes,
+          customFields: { ...(contact.customFields || {}), ...entry.customFields },
+        });
+      }
+      updated++;
+    }
+
+    if (toCreate.length > 0) {
+      await Contact.bulkCreate(toCreate);
+      created += toCreate.length;
+    }
+  }
+
+  logger.info(
+    `📇 Contact import for user ${userId}: ${created} created, ${updated} updated, ${invalid.length} invalid, ${duplicates.length} duplicates`
+  );
+
+  return { total: contacts.length, created, updated, invalid, duplicates };
+}
+
+module.exports = {
+  importContacts,
+};
@@ -160,6 +160,7 @@ class DeviceManager {
           "isActive",
           "lastSeen",
           "deviceInfo",
+          "defaultCountry",
           "createdAt",
           "updatedAt",
         ],
@@ -179,6 +180,7 @@ class DeviceManager {
         isActive: device.isActive,
         lastSeen: device.lastSeen,
         deviceInfo: device.deviceInfo,
+        defaultCountry: device.defaultCountry,
         createdAt: device.createdAt,
         updatedAt: device.updatedAt,
       };
@@ -214,6 +216,7 @@ class DeviceManager {
           "isActive",
           "lastSeen",
           "deviceInfo",
+          "defaultCountry",
           "createdAt",
           "updatedAt",
         ],
@@ -230,6 +233,7 @@ class DeviceManager {
         isActive: device.isActive,
         lastSeen: device.lastSeen,
         deviceInfo: device.deviceInfo,
+        defaultCountry: device.defaultCountry,
         createdAt: device.createdAt,
         updatedAt: device.updatedAt,
       }));
@@ -275,6 +279,7 @@ class DeviceManager {
           "isActive",
           "lastSeen",
           "deviceInfo",
+          "defaultCountry",
         ],
         order: [["lastSeen", "DESC"]],
       });
@@ -292,6 +297,7 @@ class DeviceManager {
         updatedAt: device.updatedAt,
         lastActivity: device.lastSeen || device.updatedAt,
         deviceInfo: device.deviceInfo,
+        defaultCountry: device.defaultCountry,
         connectionAttempts: 1, 
       }));
     } catch (error) {
@@ -381,6 +387,7 @@ class DeviceManager {
           : null,
       connectionAttempts: 1, // TODO: Track connection attempts
       deviceInfo: device.deviceInfo || {},
+      defaultCountry: device.defaultCountry || null,
     };
   }
 
@@ -1,12 +1,36 @@
 /**
  * Handoff Service
  * Manages human handoff for conversations
+ *
+ * The HANDOFF conversation state pauses the bot. Each handoff also has a
+ * Handoff record with the agent it is assigned to, its status (open,
+ * pending_customer, resolved) and internal notes, so several agents of a
+ * workspace can share one number.
  */
 
+const { Op, fn, col } = require("sequelize");
 const conversationStateService = require("./conversationStateService");
-const { DeviceBotConfig, BotActionLog } = require("../models");
+const {
+  DeviceBotConfig,
+  BotActionLog,
+  Handoff,
+  HandoffNote,
+  User,
+} = require("../models");
+const webhookService = require("./webhookService");
+const notificationService = require("./notificationService");
+const workspaceService = require("./workspaceService");
 const logger = require("../utils/logger");
 
+const HANDOFF_STATUSES = ["open", "pending_customer", "resolved"];
+
+const AGENT_ATTRIBUTES = ["id", "username", "fullName"];
+
+const UNRESOLVED = { [Op.ne]: "resolved" };
+
+const formatAgent = (user) =>
+  user ? { id: user.id, name: user.fullName || user.username } : null;
+
 /**
  * Detect if message indicates escalation intent
  * @param {string} deviceId - Device ID
@@ -71,31 +95,49 @@ async function detectResumeIntent(deviceId, messageText) {
   }
 }
 
+/**
+ * Message sent to the user when the conversation is handed to a human
+ * @param {string} deviceId - Device ID
+ * @returns {Promise<string>}
+ */
+async function getHandoffMessage(deviceId) {
+  const config = await DeviceBotConfig.findOne({
+    where: { deviceId },
+  });
+
+  return config?.handoffMessage || 
+    "Menghubungkan Anda dengan tim kami. Mohon tunggu.";
+}
+
 /**
  * Initiate human handoff for a conversation
  * @param {string} deviceId - Device ID
  * @param {string} senderJid - Sender JID
  * @param {string} reason - Reason for handoff
+ * @param {Object} context - Kept in the conversation state for the agent, e.g. answers from a flow
  * @returns {Promise<{success: boolean, message: string|null}>}
  */
-async function initiateHandoff(deviceId, senderJid, reason = "keyword") {
+async function initiateHandoff(deviceId, senderJid, reason = "keyword", context = {}) {
   try {
     // Set conversation state to HANDOFF
     await conversationStateService.setState(
       deviceId,
       senderJid,
       conversationStateService.ConversationStates.HANDOFF,
-      {},
+      context,
       reason
     );
 
-    // Get handoff message from config
-    const config = await DeviceBotConfig.findOne({
-      where: { deviceId },
-    });
+    const handoffMessage = await getHandoffMessage(deviceId);
 
-    const handoffMessage = config?.handoffMessage || 
-      "Menghubungkan Anda dengan tim kami. Mohon tunggu.";
+    // A new escalation while the previous one is unresolved reopens it
+    const [updated] = await Handoff.update(
+      { status: "open" },
+      { where: { deviceId, senderJid, status: UNRESOLVED } }
+    );
+    if (updated === 0) {
+      await Handoff.create({ deviceId, senderJid, reason });
+    }
 
     // Log the action
     await BotActionLog.create({
@@ -107,6 +149,12 @@ async function initiateHandoff(deviceId, senderJid, reason = "keyword") {
 
     logger.info(`🤝 Handoff initiated for ${senderJid} on device ${deviceId} (${reason})`);
 
+    webhookService.dispatch(deviceId, "handoff.started", {
+      senderJid,
+      from: senderJid.split("@")[0],
+      reason,
+    });
+
     return { success: true, message: handoffMessage };
   } catch (error) {
     logger.error("❌ Error initiating handoff:", error);
@@ -118,7 +166,7 @@ async function initiateHandoff(deviceId, senderJid, reason = "keyword") {
  * Resume bot control for a conversation
  * @param {string} deviceId - Device ID
  * @param {string} senderJid - Sender JID
- * @param {string} resumedBy - Who resumed ('user' or 'admin')
+ * @param {string} resumedBy - Who resumed ('user', 'admin' or 'agent')
  * @returns {Promise<{success: boolean, message: string|null}>}
  */
 async function resumeBot(deviceId, senderJid, resumedBy = "admin") {
@@ -131,6 +179,11 @@ async function resumeBot(deviceId, senderJid, resumedBy = "admin") {
       {}
     );
 
+    await Handoff.update(
+      { status: "resolved", resolvedAt: new Date() },
+      { where: { deviceId, senderJid, status: UNRESOLVED } }
+    );
+
     // Get resume message from config
     const config = await DeviceBotConfig.findOne({
       where: { deviceId },
@@ -156,6 +209,46 @@ async function resumeBot(deviceId, senderJid, resumedBy = "admin") {
   }
 }
 
+/**
+ * Handoff records of the active handoff states. Records whose state has
+ * expired are resolved (the bot is back in charge); states without a
+ * record, e.g. from before records existed, get one.
+ * @returns {Promise<Map<string, Handoff>>} senderJid -> record
+ */
+async function syncHandoffRecords(deviceId, states) {
+  const records = await Handoff.findAll({
+    where: { deviceId, status: UNRESOLVED },
+    include: [{ model: User, as: "assignee", attributes: AGENT_ATTRIBUTES }],
+  });
+
+  const activeJids = new Set(states.map((state) => state.senderJid));
+  const expired = records.filter((record) => !activeJids.has(record.senderJid));
+  if (expired.length > 0) {
+    await Handoff.update(
+      { status: "resolved", resolvedAt: new Date() },
+      { where: { id: { [Op.in]: expired.map((record) => record.id) } } }
+    );
+  }
+
+  const bySender = new Map(
+    records
+      .filter((record) => activeJids.has(record.senderJid))
+      .map((record) => [record.senderJid, record])
+  );
+  for (const state of states) {
+    if (!bySender.has(state.senderJid)) {
+      const record = await Handoff.create({
+        deviceId,
+        senderJid: state.senderJid,
+        reason: state.handoffReason,
+      });
+      bySender.set(state.senderJid, record);
+    }
+  }
+
+  return bySender;
+}
+
 /**
  * Get all active handoffs for a device
  * @param {string} deviceId - Device ID
@@ -164,21 +257,204 @@ async function resumeBot(deviceId, senderJid, resumedBy = "admin") {
 async function getActiveHandoffs(deviceId) {
   try {
     const handoffs = await conversationStateService.getActiveHandoffs(deviceId);
-    
+    const records = await syncHandoffRecords(deviceId, handoffs);
+
+    const handoffIds = [...records.values()].map((record) => record.id);
+    const noteCounts = handoffIds.length
+      ? await HandoffNote.findAll({
+          where: { handoffId: { [Op.in]: handoffIds } },
+          attributes: ["handoffId", [fn("COUNT", col("id")), "count"]],
+          group: ["handoff_id"],
+          raw: true,
+        })
+      : [];
+    const notesByHandoff = new Map(noteCounts.map((row) => [row.handoffId, Number(row.count)]));
+
     // Enrich with additional info
-    return handoffs.map((h) => ({
-      senderJid: h.senderJid,
-      phoneNumber: h.senderJid.split("@")[0],
-      handoffAt: h.handoffAt,
-      reason: h.handoffReason,
-      lastActivity: h.lastActivity,
-    }));
+    return handoffs.map((h) => {
+      const record = records.get(h.senderJid);
+      return {
+        id: record.id,
+        deviceId,
+        senderJid: h.senderJid,
+        phoneNumber: h.senderJid.split("@")[0],
+        handoffAt: h.handoffAt,
+        reason: h.handoffReason,
+        lastActivity: h.lastActivity,
+        // Set when a flow ended with a handoff
+        flowName: h.context?.flowName || null,
+        fields: h.context?.fields || null,
+        status: record.status,
+        assignee: formatAgent(record.assignee),
+        assignedAt: record.assignedAt,
+        noteCount: notesByHandoff.get(record.id) || 0,
+      };
+    });
   } catch (error) {
     logger.error("❌ Error getting active handoffs:", error);
     return [];
   }
 }
 
+/**
+ * Active handoffs of every device a user works on, oldest first
+ * @param {{id: number, role: string}} user
+ * @param {Object} filters
+ * @param {string} [filters.assignee] - "me", "unassigned" or an agent's user ID
+ * @param {string} [filters.status] - "open" or "pending_customer"
+ */
+async function getAgentQueue(user, { assignee, status } = {}) {
+  const devices = await workspaceService.getAgentDevices(user);
+  const handoffs = [];
+  for (const { deviceId, deviceName } of devices) {
+    const deviceHandoffs = await getActiveHandoffs(deviceId);
+    handoffs.push(...deviceHandoffs.map((handoff) => ({ ...handoff, deviceName })));
+  }
+
+  const assigneeId = assignee === "me" ? user.id : parseInt(assignee) || null;
+  return handoffs
+    .filter((handoff) => {
+      if (status && handoff.status !== status) return false;
+      if (assignee === "unassigned") return !handoff.assignee;
+      if (assigneeId) return handoff.assignee?.id === assigneeId;
+      return true;
+    })
+    .sort((a, b) => new Date(a.handoffAt) - new Date(b.handoffAt));
+}
+
+/**
+ * Unresolved handoff by ID
+ * @returns {Promise<Handoff|null>}
+ */
+async function findOpenHandoff(handoffId) {
+  return Handoff.findOne({ where: { id: handoffId, status: UNRESOLVED } });
+}
+
+/**
+ * Assign a handoff to an agent of the device owner's workspace, or
+ * unassign it (assigneeId null). The new assignee is notified unless they
+ * took it themselves.
+ * @param {Handoff} handoff
+ * @param {number|null} assigneeId
+ * @param {{id: number, username: string, fullName?: string}} assignedBy
+ * @param {number} ownerId - Owner of the handoff's device
+ */
+async function assignHandoff(handoff, assigneeId, assignedBy, ownerId) {
+  if (assigneeId && !(await workspaceService.isAgent(ownerId, assigneeId))) {
+    throw new Error("Assignee is not an agent of this workspace");
+  }
+
+  await handoff.update({
+    assignedTo: assigneeId || null,
+    assignedBy: assigneeId ? assignedBy.id : null,
+    assignedAt: assigneeId ? new Date() : null,
+  });
+
+  logger.info(
+    `🙋 Handoff ${handoff.id} (${handoff.senderJid}) ${assigneeId ? `assigned to user ${assigneeId}` : "unassigned"} by user ${assignedBy.id}`
+  );
+
+  if (assigneeId && assigneeId !== assignedBy.id) {
+    notificationService.notify(assigneeId, "handoff_assigned", {
+      body: `${assignedBy.fullName || assignedBy.username} assigned you the conversation with ${handoff.senderJid.split("@")[0]}.`,
+      deviceId: handoff.deviceId,
+      metadata: { handoffId: handoff.id, senderJid: handoff.senderJid },
+    });
+  }
+
+  return handoff;
+}
+
+/**
+ * Change the status of a handoff. Resolving it hands the conversation back
+ * to the bot.
+ * @param {Handoff} handoff
+ * @param {string} status - One of HANDOFF_STATUSES
+ */
+async function updateHandoffStatus(handoff, status) {
+  if (status === "resolved") {
+    const result = await resumeBot(handoff.deviceId, handoff.senderJid, "agent");
+    if (!result.success) {
+      throw new Error("Failed to resume bot");
+    }
+    await handoff.reload();
+    return { handoff, resumeMessage: result.message };
+  }
+
+  await handoff.update({ status });
+  return { handoff, resumeMessage: null };
+}
+
+/**
+ * Current assignment and status of a handoff record
+ * @param {Handoff} handoff
+ */
+async function summarizeHandoff(handoff) {
+  await handoff.reload({
+    include: [{ model: User, as: "assignee", attributes: AGENT_ATTRIBUTES }],
+  });
+  return {
+    id: handoff.id,
+    deviceId: handoff.deviceId,
+    senderJid: handoff.senderJid,
+    status: handoff.status,
+    assignee: formatAgent(handoff.assignee),
+    assignedAt: handoff.assignedAt,
+    resolvedAt: handoff.resolvedAt,
+  };
+}
+
+/**
+ * A customer wrote while their handoff waited for them: it is open again
+ * @param {string} deviceId - Device ID
+ * @param {string} senderJid - Sender JID
+ */
+async function recordCustomerReply(deviceId, senderJid) {
+  try {
+    await Handoff.update(
+      { status: "open" },
+      { where: { deviceId, senderJid, status: "pending_customer" } }
+    );
+  } catch (error) {
+    logger.error("❌ Error reopening handoff:", error);
+  }
+}
+
+/**
+ * Internal notes of a handoff, oldest first
+ * @param {number} handoffId
+ */
+async function listNotes(handoffId) {
+  const notes = await HandoffNote.findAll({
+    where: { handoffId },
+    include: [{ model: User, as: "author", attributes: AGENT_ATTRIBUTES }],
+    order: [["createdAt", "ASC"]],
+  });
+
+  return notes.map((note) => ({
+    id: note.id,
+    body: note.body,
+    author: formatAgent(note.author),
+    createdAt: note.createdAt,
+  }));
+}
+
+/**
+ * Add an internal note; notes are never sent to the customer
+ * @param {number} handoffId
+ * @param {{id: number, username: string, fullName?: string}} author
+ * @param {string} body
+ */
+async function addNote(handoffId, author, body) {
+  const note = await HandoffNote.create({ handoffId, userId: author.id, body });
+  return {
+    id: note.id,
+    body: note.body,
+    author: formatAgent(author),
+    createdAt: note.createdAt,
+  };
+}
+
 /**
  * Get handoff count for a device (for UI badge)
  * @param {string} deviceId - Device ID
@@ -195,10 +471,20 @@ async function getHandoffCount(deviceId) {
 }
 
 module.exports = {
+  HANDOFF_STATUSES,
   detectEscalation,
   detectResumeIntent,
   initiateHandoff,
+  getHandoffMessage,
   resumeBot,
   getActiveHandoffs,
+  getAgentQueue,
+  findOpenHandoff,
+  assignHandoff,
+  updateHandoffStatus,
+  summarizeHandoff,
+  recordCustomerReply,
+  listNotes,
+  addNote,
   getHandoffCount,
 };
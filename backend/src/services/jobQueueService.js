@@ -7,12 +7,22 @@
  * - Row-level Idempotency (JobItems table)
  * - Crash Recovery (Resets processing -> queued)
  * - Pause/Resume/Cancel support
+ * - Opted-out recipients are skipped (see suppressionService)
  */
 
-const { Job, JobItem, Message, WhatsAppSession } = require("../models");
+const { Job, JobItem, Message, WhatsAppSession, sequelize } = require("../models");
 const whatsappService = require("./whatsappService");
+const notificationService = require("./notificationService");
+const webhookService = require("./webhookService");
+const suppressionService = require("./suppressionService");
 const logger = require("../utils/logger");
-const { Op } = require("sequelize");
+const { Op, fn, col } = require("sequelize");
+
+// Emit job.progress webhooks every N processed items rather than per message
+const WEBHOOK_PROGRESS_INTERVAL = 10;
+
+// Job items are inserted and read in chunks so large (segment) jobs stay light
+const ITEM_BATCH_SIZE = 500;
 
 class JobQueueService {
   constructor() {
@@ -23,35 +33,53 @@ class JobQueueService {
 
   /**
    * Create a new bulk message job
+   * @param {Array<string|{phone: string, message?: string, variant?: string}>} recipients - Normalized numbers,
+   *   optionally with the text already rendered for that recipient and its campaign variant
+   * @param {Object} [options]
+   * @param {string} [options.campaignId] - Campaign the job belongs to
    */
-  async createJob(userId, deviceId, type, data, recipients) {
+  async createJob(userId, deviceId, type, data, recipients, { campaignId = null } = {}) {
     try {
       if (!recipients || recipients.length === 0) {
         throw new Error("Recipients list cannot be empty");
       }
 
-      // Create Job
-      const job = await Job.create({
-        userId,
-        deviceId,
-        type,
-        status: "queued",
-        data,
-        progress: {
-          total: recipients.length,
-          sent: 0,
-          failed: 0,
-        },
-      });
-
-      // Create Job Items (Bulk Insert)
-      const jobItems = recipients.map((recipient) => ({
-        jobId: job.id,
-        recipient: typeof recipient === "string" ? recipient : recipient.phone,
-        status: "pending",
-      }));
+      // The job and its items are committed together: processQueue never
+      // sees a queued job whose items are still being inserted, and a failed
+      // insert leaves no partial job behind
+      const job = await sequelize.transaction(async (transaction) => {
+        const created = await Job.create(
+          {
+            userId,
+            deviceId,
+            type,
+            campaignId,
+            status: "queued",
+            data,
+            progress: {
+              total: recipients.length,
+              sent: 0,
+              failed: 0,
+            },
+          },
+          { transaction }
+        );
+
+        // Create Job Items (Bulk Insert, chunked)
+        const jobItems = recipients.map((recipient) => ({
+          jobId: created.id,
+          recipient: typeof recipient === "string" ? recipient : recipient.phone,
+          message: typeof recipient === "string" ? null : recipient.message || null,
+          variant: typeof recipient === "string" ? null : recipient.variant || null,
+          status: "pending",
+        }));
+
+        for (let i = 0; i < jobItems.length; i += ITEM_BATCH_SIZE) {
+          await JobItem.bulkCreate(jobItems.slice(i, i + ITEM_BATCH_SIZE), { transaction });
+        }
 
-      await JobItem.bulkCreate(jobItems);
+        return created;
+      });
 
       logger.info(`📝 Job created: ${job.id} with ${recipients.length} recipients`);
       
@@ -76,12 +104,10 @@ class JobQueueService {
       this.isProcessing = true;
 
       // Find next queued job (FIFO)
+      // Items are read in batches by processJob, not eager loaded
       const job = await Job.findOne({
         where: { status: "queued" },
         order: [["created_at", "ASC"]],
-        include: [
-          { model: JobItem, as: "items" } // Eager load not ideal for huge jobs, but okay for moderate <1000
-        ]
       });
 
       if (!job) {
@@ -104,6 +130,24 @@ class JobQueueService {
     }
   }
 
+  /**
+   * Pending items of a job in id order, read ITEM_BATCH_SIZE rows at a time
+   */
+  async *pendingItems(jobId) {
+    let lastItemId = 0;
+    for (;;) {
+      const batch = await JobItem.findAll({
+        where: { jobId, status: "pending", id: { [Op.gt]: lastItemId } },
+        order: [["id", "ASC"]],
+        limit: ITEM_BATCH_SIZE,
+      });
+      if (batch.length === 0) return;
+
+      lastItemId = batch[batch.length - 1].id;
+      yield* batch;
+    }
+  }
+
   /**
    * Process a specific job
    * Iterates through items and sends messages.
@@ -136,6 +180,15 @@ class JobQueueService {
     
     let successCount = progressData.sent || 0;
     let failureCount = progressData.failed || 0;
+    let skippedCount = progressData.skipped || 0;
+
+    const progressSnapshot = () => ({
+      total: progressData.total || 0,
+      sent: successCount,
+      completed: successCount, // For frontend compatibility
+      failed: failureCount,
+      skipped: skippedCount,
+    });
 
     // Get socket for device
     const socket = whatsappService.sessions.get(deviceId);
@@ -150,18 +203,11 @@ class JobQueueService {
       return;
     }
 
-    // Fetch ONLY pending items to avoid re-processing sent ones
-    // We fetch in batches to handle memory better if needed, but for now fetch all pending
-    const pendingItems = await JobItem.findAll({
-      where: {
-        jobId: job.id,
-        status: "pending"
-      }
-    });
-
-    logger.info(`📊 Job ${job.id}: Found ${pendingItems.length} pending items`);
+    // Fetch ONLY pending items to avoid re-processing sent ones, one batch at a time
+    const pendingCount = await JobItem.count({ where: { jobId: job.id, status: "pending" } });
+    logger.info(`📊 Job ${job.id}: Found ${pendingCount} pending items`);
 
-    for (const item of pendingItems) {
+    for await (const item of this.pendingItems(job.id)) {
       // 1. RE-CHECK JOB STATUS (Crucial for Pause/Cancel)
       const currentJobStatus = await Job.findByPk(job.id, { attributes: ['status'] });
       if (currentJobStatus.status !== "processing") {
@@ -169,6 +215,18 @@ class JobQueueService {
         return;
       }
 
+      // Opted-out recipients are skipped without sending or waiting
+      if (await suppressionService.isSuppressed(job.userId, item.recipient)) {
+        await item.update({
+          status: "skipped",
+          error: "Recipient opted out",
+          processedAt: new Date()
+        });
+        skippedCount++;
+        await job.update({ progress: progressSnapshot() });
+        continue;
+      }
+
       try {
         // 2. SAFETY DELAY (Rate Limit Protection)
         // Order: Job-specific delay > Env Var > Default (2000ms)
@@ -207,17 +265,19 @@ class JobQueueService {
             logger.info(`📦 data.messages sample: ${JSON.stringify(data.messages[0])}`);
           }
           
-          // If data.messages exists (bulk unique), find the one for this recipient
-          if (data.messages && Array.isArray(data.messages)) {
-             // Normalize both sides for robust matching
+          // Segment jobs store the text already rendered for each recipient
+          if (item.message) {
+             msgContent = item.message;
+          } else if (data.messages && Array.isArray(data.messages)) {
+             // If data.messages exists (bulk unique), find the one for this recipient
+             // Recipients are stored normalized; normalize the message side the same way.
+             // Jobs created before defaultCountry was stored fall back to ID.
              const { normalizePhoneNumber } = require('../utils/validation');
-             const normalizedRecipient = normalizePhoneNumber(item.recipient) || item.recipient;
-             
-             logger.info(`🔄 Normalized recipient: ${item.recipient} → ${normalizedRecipient}`);
+             const normalizedRecipient = item.recipient;
              
              const foundMsg = data.messages.find(m => {
                const msgPhone = m.to || m.phone;
-               const normalizedMsgPhone = normalizePhoneNumber(msgPhone);
+               const normalizedMsgPhone = normalizePhoneNumber(msgPhone, data.defaultCountry);
                logger.info(`🔄 Comparing: ${msgPhone} → ${normalizedMsgPhone} === ${normalizedRecipient} ? ${normalizedMsgPhone === normalizedRecipient}`);
                return normalizedMsgPhone === normalizedRecipient;
              });
@@ -229,7 +289,7 @@ class JobQueueService {
                logger.error(`❌ No message found for ${normalizedRecipient}`);
                logger.error(`📋 All messages:`, data.messages.map(m => ({
                  original: m.to || m.phone,
-                 normalized: normalizePhoneNumber(m.to || m.phone)
+                 normalized: normalizePhoneNumber(m.to || m.phone, data.defaultCountry)
                })));
              }
           }
@@ -247,7 +307,12 @@ class JobQueueService {
            let mediaItem = data; // Fallback
            
            if (data.items && Array.isArray(data.items)) {
-              mediaItem = data.items.find(i => (i.to === item.recipient || i.phoneNumber === item.recipient));
+              const { normalizePhoneNumber } = require('../utils/validation');
+              mediaItem = data.items.find(i =>
+                i.to === item.recipient ||
+                i.phoneNumber === item.recipient ||
+                normalizePhoneNumber(i.to || i.phoneNumber, data.defaultCountry) === item.recipient
+              );
            }
            
            if (mediaItem) {
@@ -329,14 +394,19 @@ class JobQueueService {
 
       // 6. UPDATE PROGRESS
       // Update job progress after each message
-      await job.update({
-        progress: {
+      await job.update({ progress: progressSnapshot() });
+
+      const processed = successCount + failureCount;
+      if (processed % WEBHOOK_PROGRESS_INTERVAL === 0) {
+        webhookService.dispatch(deviceId, "job.progress", {
+          jobId: job.id,
+          type,
           total: progressData.total || 0,
           sent: successCount,
-          completed: successCount, // For frontend compatibility
-          failed: failureCount
-        }
-      });
+          failed: failureCount,
+          skipped: skippedCount,
+        });
+      }
     }
 
     // 7. FINAL STATUS UPDATE
@@ -344,7 +414,24 @@ class JobQueueService {
       status: "completed"
     });
 
-    logger.info(`✅ Job ${job.id} completed. Sent: ${successCount}, Failed: ${failureCount}`);
+    logger.info(`✅ Job ${job.id} completed. Sent: ${successCount}, Failed: ${failureCount}, Skipped: ${skippedCount}`);
+
+    webhookService.dispatch(deviceId, "job.completed", {
+      jobId: job.id,
+      type,
+      total: progressData.total || 0,
+      sent: successCount,
+      failed: failureCount,
+      skipped: skippedCount,
+    });
+
+    if (failureCount > 0) {
+      notificationService.notify(job.userId, "message_failed", {
+        body: `${failureCount} of ${successCount + failureCount} messages in job #${job.id} failed.`,
+        deviceId: job.deviceId,
+        metadata: { jobId: job.id },
+      });
+    }
   }
 
   /**
@@ -401,6 +488,32 @@ class JobQueueService {
   async getUserJobs(userId) {
       return Job.findAll({ where: { userId }, order: [['created_at', 'DESC']] });
   }
+
+  /**
+   * Delivered/read counts per job from the receipts stored on its items
+   * @param {string[]} jobIds
+   * @returns {Promise<Object<string, {delivered: number, read: number}>>}
+   */
+  async getReceiptCounts(jobIds) {
+    const counts = {};
+    if (jobIds.length === 0) return counts;
+
+    const rows = await JobItem.findAll({
+      where: { jobId: { [Op.in]: jobIds } },
+      attributes: [
+        "jobId",
+        [fn("COUNT", col("delivered_at")), "delivered"],
+        [fn("COUNT", col("read_at")), "read"],
+      ],
+      group: ["job_id"],
+      raw: true,
+    });
+
+    for (const row of rows) {
+      counts[row.jobId] = { delivered: Number(row.delivered), read: Number(row.read) };
+    }
+    return counts;
+  }
 }
 
 module.exports = new JobQueueService();
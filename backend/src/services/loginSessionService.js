@@ -0,0 +1,145 @@
+/**
+ * Login Session Service
+ * Tracks sign-ins so users (and admins) can review and revoke them
+ */
+
+const { Op } = require("sequelize");
+const { LoginSession } = require("../models");
+const logger = require("../utils/logger");
+
+// Matches the refresh token lifetime in utils/jwt.js
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Avoid a DB write on every refresh when the session was touched recently
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Extract client details from the request
+ * @param {import("express").Request} req
+ */
+function getClientInfo(req) {
+  if (!req) return { ipAddress: null, userAgent: null };
+
+  const userAgent = req.get ? req.get("User-Agent") : null;
+  return {
+    ipAddress: req.ip || req.connection?.remoteAddress || null,
+    userAgent: userAgent ? userAgent.substring(0, 500) : null,
+  };
+}
+
+/**
+ * Record a new session for a successful sign-in
+ * @param {number} userId - User ID
+ * @param {import("express").Request} req - Incoming request
+ * @returns {Promise<LoginSession>}
+ */
+async function createSession(userId, req) {
+  const now = new Date();
+  return LoginSession.create({
+    userId,
+    ...getClientInfo(req),
+    lastUsedAt: now,
+    expiresAt: new Date(now.getTime() + SESSION_TTL_MS),
+  });
+}
+
+/**
+ * Find a session that is neither revoked nor expired
+ * @param {string} sessionId - Session ID (`sid` claim)
+ * @param {number} userId - Owner user ID
+ * @returns {Promise<LoginSession|null>}
+ */
+async function findActiveSession(sessionId, userId) {
+  if (!sessionId) return null;
+
+  return LoginSession.findOne({
+    where: {
+      id: sessionId,
+      userId,
+      revokedAt: null,
+      expiresAt: { [Op.gt]: new Date() },
+    },
+  });
+}
+
+/**
+ * Update last-used time and client info (throttled)
+ * @param {LoginSession} session
+ * @param {import("express").Request} req
+ */
+async function touchSession(session, req) {
+  const lastUsed = new Date(session.lastUsedAt).getTime();
+  if (Date.now() - lastUsed < TOUCH_INTERVAL_MS) return;
+
+  try {
+    await session.update({ lastUsedAt: new Date(), ...getClientInfo(req) });
+  } catch (error) {
+    logger.error("❌ Error updating login session:", error);
+  }
+}
+
+/**
+ * List a user's sessions, active first
+ * @param {number} userId - User ID
+ * @param {Object} options
+ * @param {boolean} options.includeInactive - Include revoked/expired sessions (login history)
+ * @param {number} options.limit - Max rows
+ */
+async function listSessions(userId, { includeInactive = false, limit = 50 } = {}) {
+  const where = { userId };
+  if (!includeInactive) {
+    where.revokedAt = null;
+    where.expiresAt = { [Op.gt]: new Date() };
+  }
+
+  const sessions = await LoginSession.findAll({
+    where,
+    order: [["lastUsedAt", "DESC"]],
+    limit,
+  });
+
+  const now = Date.now();
+  return sessions.map((session) => ({
+    id: session.id,
+    ipAddress: session.ipAddress,
+    userAgent: session.userAgent,
+    createdAt: session.createdAt,
+    lastUsedAt: session.lastUsedAt,
+    expiresAt: session.expiresAt,
+    revokedAt: session.revokedAt,
+    isActive: !session.revokedAt && new Date(session.expiresAt).getTime() > now,
+  }));
+}
+
+/**
+ * Revoke a single session
+ * @returns {Promise<boolean>} True if a session was revoked
+ */
+async function revokeSession(userId, sessionId) {
+  const [count] = await LoginSession.update(
+    { revokedAt: new Date() },
+    { where: { id: sessionId, userId, revokedAt: null } }
+  );
+  return count > 0;
+}
+
+/**
+ * Revoke every active session of a user ("sign out everywhere")
+ * @returns {Promise<number>} Number of sessions revoked
+ */
+async function revokeAllSessions(userId) {
+  const [count] = await LoginSession.update(
+    { revokedAt: new Date() },
+    { where: { userId, revokedAt: null } }
+  );
+  return count;
+}
+
+module.exports = {
+  createSession,
+  findActiveSession,
+  touchSession,
+  listSessions,
+  revokeSession,
+  revokeAllSessions,
+};
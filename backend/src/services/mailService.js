@@ -0,0 +1,88 @@
+/**
+ * Mail Service
+ * Sends email through a pluggable nodemailer transport.
+ *
+ * The default transport is built from SMTP_* environment variables. For
+ * local testing point it at a stub SMTP server such as MailHog or
+ * smtp4dev (SMTP_HOST=localhost, SMTP_PORT=1025). Without SMTP_HOST,
+ * mail is only written to the log.
+ */
+
+const nodemailer = require("nodemailer");
+const logger = require("../utils/logger");
+
+let transport = null;
+
+/**
+ * Build a transport from SMTP_* environment variables
+ * @returns {import("nodemailer").Transporter|null}
+ */
+function createTransportFromEnv() {
+  if (!process.env.SMTP_HOST) return null;
+
+  const port = parseInt(process.env.SMTP_PORT, 10) || 587;
+  return nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined,
+  });
+}
+
+/**
+ * Replace the transport (e.g. a custom provider or a stub in tests)
+ * @param {import("nodemailer").Transporter|null} customTransport
+ */
+function setTransport(customTransport) {
+  transport = customTransport;
+}
+
+function getTransport() {
+  if (transport === null) {
+    transport = createTransportFromEnv() || false;
+  }
+  return transport || null;
+}
+
+/**
+ * Whether mail will actually leave the process
+ */
+function isConfigured() {
+  return !!getTransport();
+}
+
+/**
+ * Send an email
+ * @param {Object} mail
+ * @param {string} mail.to
+ * @param {string} mail.subject
+ * @param {string} mail.text
+ * @param {string} [mail.html]
+ */
+async function sendMail({ to, subject, text, html }) {
+  const activeTransport = getTransport();
+
+  if (!activeTransport) {
+    logger.info(`📧 [mail not configured] To: ${to} | ${subject}`);
+    return { delivered: false };
+  }
+
+  const info = await activeTransport.sendMail({
+    from: process.env.SMTP_FROM || "WhatsApp Service <no-reply@localhost>",
+    to,
+    subject,
+    text,
+    html,
+  });
+
+  logger.info(`📧 Mail sent to ${to}: ${info.messageId}`);
+  return { delivered: true, messageId: info.messageId };
+}
+
+module.exports = {
+  sendMail,
+  setTransport,
+  isConfigured,
+};
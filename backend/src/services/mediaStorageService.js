@@ -0,0 +1,221 @@
+/**
+ * Media Storage Service
+ *
+ * Stores the media of incoming WhatsApp messages so chat history can show
+ * it. Files go through a storage driver (save/remove/open); the local disk
+ * driver keeps them under INCOMING_MEDIA_PATH, outside the public /uploads
+ * directory. They are only served by the authenticated
+ * GET /api/whatsapp-multi-device/devices/:deviceId/media/:messageId route,
+ * which checks access to the device.
+ *
+ * Media is streamed to storage and downloads that grow past
+ * INCOMING_MEDIA_MAX_SIZE are aborted (WhatsApp does not always report the
+ * size up front). Stored files are removed INCOMING_MEDIA_RETENTION_DAYS
+ * after the message; the message itself stays in the history.
+ */
+
+const fs = require("fs");
+const path = require("path");
+const crypto = require("crypto");
+const { pipeline, Transform, promises: streamPromises } = require("stream");
+const { Op } = require("sequelize");
+const { Message } = require("../models");
+const logger = require("../utils/logger");
+
+const mediaDir = process.env.INCOMING_MEDIA_PATH || "./storage/incoming-media";
+const MAX_MEDIA_SIZE = parseInt(process.env.INCOMING_MEDIA_MAX_SIZE) || 16 * 1024 * 1024;
+const RETENTION_DAYS = parseInt(process.env.INCOMING_MEDIA_RETENTION_DAYS) || 30;
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const PURGE_BATCH_SIZE = 100;
+
+// Error code of a download that went over MAX_MEDIA_SIZE
+const MEDIA_TOO_LARGE = "EMEDIATOOLARGE";
+
+// Stored file extension by MIME type; other types are stored as .bin
+const EXTENSIONS = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "video/mp4": ".mp4",
+  "video/3gpp": ".3gp",
+  "audio/ogg": ".ogg",
+  "audio/mpeg": ".mp3",
+  "audio/mp4": ".m4a",
+  "audio/aac": ".aac",
+  "application/pdf": ".pdf",
+  "application/msword": ".doc",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": ".docx",
+  "application/vnd.ms-excel": ".xls",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": ".xlsx",
+  "application/zip": ".zip",
+  "text/plain": ".txt",
+  "text/csv": ".csv",
+};
+
+/**
+ * @typedef {Object} StorageDriver
+ * @property {(key: string, stream: import("stream").Readable) => Promise<void>} save - Leaves no file behind when the stream fails
+ * @property {(key: string) => Promise<void>} remove - No error when the file is already gone
+ * @property {(key: string) => import("stream").Readable} open - Emits ENOENT when the file is gone
+ */
+
+/**
+ * Local disk driver; keys are paths below INCOMING_MEDIA_PATH
+ * @type {StorageDriver}
+ */
+const localDiskStorage = {
+  root: path.resolve(mediaDir),
+
+  async save(key, stream) {
+    const filePath = path.join(this.root, key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    try {
+      await streamPromises.pipeline(stream, fs.createWriteStream(filePath));
+    } catch (error) {
+      await this.remove(key);
+      throw error;
+    }
+  },
+
+  async remove(key) {
+    await fs.promises.unlink(path.join(this.root, key)).catch((error) => {
+      if (error.code !== "ENOENT") throw error;
+    });
+  },
+
+  open(key) {
+    return fs.createReadStream(path.join(this.root, key));
+  },
+};
+
+const storage = localDiskStorage;
+let purgeTimer = null;
+let isPurging = false;
+
+/**
+ * Path (below the API base) the stored media of a message is served from
+ * @param {string} deviceId
+ * @param {string} messageId - WhatsApp message ID
+ */
+const mediaUrl = (deviceId, messageId) =>
+  `/whatsapp-multi-device/devices/${encodeURIComponent(deviceId)}/media/${encodeURIComponent(messageId)}`;
+
+/**
+ * Pass-through stream that fails with MEDIA_TOO_LARGE once more than
+ * maxBytes have gone through
+ */
+const sizeLimit = (maxBytes) => {
+  let received = 0;
+  return new Transform({
+    transform(chunk, encoding, callback) {
+      received += chunk.length;
+      if (received > maxBytes) {
+        const error = new Error(`Media is larger than ${maxBytes} bytes`);
+        error.code = MEDIA_TOO_LARGE;
+        return callback(error);
+      }
+      callback(null, chunk);
+    },
+  });
+};
+
+/**
+ * Store the media of an incoming message from a download stream. Fails with
+ * MEDIA_TOO_LARGE when the stream exceeds MAX_MEDIA_SIZE.
+ * @param {import("stream").Readable} stream
+ * @returns {Promise<{storageKey: string, url: string}>}
+ */
+async function saveIncomingMedia(deviceId, messageId, stream, mimetype) {
+  const baseType = (mimetype || "").split(";")[0].trim();
+  const extension = EXTENSIONS[baseType] || ".bin";
+  const month = new Date().toISOString().slice(0, 7);
+  const storageKey = [
+    String(deviceId).replace(/[^a-zA-Z0-9_-]/g, "_"),
+    month,
+    `${crypto.randomBytes(16).toString("hex")}${extension}`,
+  ].join("/");
+
+  // Errors of the download stream reach the driver through the limiter
+  await storage.save(storageKey, pipeline(stream, sizeLimit(MAX_MEDIA_SIZE), () => {}));
+  return { storageKey, url: mediaUrl(deviceId, messageId) };
+}
+
+/**
+ * Read a stored file
+ * @param {string} storageKey
+ * @returns {import("stream").Readable}
+ */
+function openIncomingMedia(storageKey) {
+  return storage.open(storageKey);
+}
+
+/**
+ * Remove stored media of messages older than RETENTION_DAYS. Works through
+ * the backlog in batches until nothing expired is left.
+ */
+async function purgeExpiredMedia() {
+  const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  let purged = 0;
+
+  for (;;) {
+    // Purged rows lose their mediaUrl, so each query returns the next batch
+    const expired = await Message.findAll({
+      where: {
+        direction: "incoming",
+        mediaUrl: { [Op.ne]: null },
+        timestamp: { [Op.lt]: cutoff },
+      },
+      order: [["timestamp", "ASC"]],
+      limit: PURGE_BATCH_SIZE,
+    });
+
+    for (const message of expired) {
+      const media = message.metadata?.media || {};
+      if (media.storageKey) {
+        await storage.remove(media.storageKey);
+      }
+      await message.update({
+        mediaUrl: null,
+        metadata: { ...message.metadata, media: { ...media, storageKey: null, status: "expired" } },
+      });
+    }
+
+    purged += expired.length;
+    if (expired.length < PURGE_BATCH_SIZE) break;
+  }
+
+  if (purged > 0) {
+    logger.info(`🧹 Removed media of ${purged} message(s) older than ${RETENTION_DAYS} days`);
+  }
+}
+
+function startPurgeScheduler() {
+  if (purgeTimer) return;
+
+  // A large backlog can take longer than the interval; runs never overlap
+  const run = () => {
+    if (isPurging) return;
+    isPurging = true;
+    purgeExpiredMedia()
+      .catch((error) => logger.error("❌ Incoming media purge failed:", error))
+      .finally(() => {
+        isPurging = false;
+      });
+  };
+
+  run();
+  purgeTimer = setInterval(run, PURGE_INTERVAL_MS);
+}
+
+module.exports = {
+  MAX_MEDIA_SIZE,
+  MEDIA_TOO_LARGE,
+  RETENTION_DAYS,
+  mediaUrl,
+  saveIncomingMedia,
+  openIncomingMedia,
+  purgeExpiredMedia,
+  startPurgeScheduler,
+};
@@ -0,0 +1,253 @@
+/**
+ * Notification Service
+ * Delivers user notifications (device dropped, scheduled message failed, ...)
+ * to the channels each user enabled: in-app (SSE), email and webhook.
+ */
+
+const crypto = require("crypto");
+const axios = require("axios");
+const { User, NotificationPreference } = require("../models");
+const mailService = require("./mailService");
+const logger = require("../utils/logger");
+const {
+  BLOCKED_ADDRESS,
+  isPublicUrl,
+  publicHttpAgent,
+  publicHttpsAgent,
+} = require("../utils/publicAddress");
+const { notificationTypes: NOTIFICATION_TYPES } = require("../utils/sharedConstants.json");
+
+const CHANNELS = ["inApp", "email", "webhook"];
+
+// Problems that need attention reach the user by email even when offline
+const DEFAULT_CHANNELS = {
+  device_connected: { inApp: true, email: false, webhook: false },
+  device_disconnected: { inApp: true, email: true, webhook: false },
+  qr_required: { inApp: true, email: false, webhook: false },
+  message_failed: { inApp: true, email: false, webhook: false },
+  scheduled_sent: { inApp: true, email: false, webhook: false },
+  scheduled_failed: { inApp: true, email: true, webhook: false },
+  session_expired: { inApp: true, email: true, webhook: false },
+  handoff_assigned: { inApp: true, email: false, webhook: false },
+  missed_call: { inApp: true, email: false, webhook: false },
+  workspace_invitation: { inApp: true, email: false, webhook: false },
+};
+
+const TITLES = {
+  device_connected: "Device Connected",
+  device_disconnected: "Device Disconnected",
+  qr_required: "QR Code Required",
+  message_failed: "Message Failed",
+  scheduled_sent: "Scheduled Message Sent",
+  scheduled_failed: "Scheduled Message Failed",
+  session_expired: "Session Expired",
+  handoff_assigned: "Conversation Assigned",
+  missed_call: "Missed Call",
+  workspace_invitation: "Workspace Invitation",
+};
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+/**
+ * Merge stored channel settings over the defaults so new types
+ * get sensible values without a data migration
+ */
+function resolveChannels(stored) {
+  const channels = {};
+  for (const type of NOTIFICATION_TYPES) {
+    channels[type] = { ...DEFAULT_CHANNELS[type], ...(stored?.[type] || {}) };
+  }
+  return channels;
+}
+
+/**
+ * Get a user's preferences (defaults when none are saved yet)
+ * @param {number} userId
+ */
+async function getPreferences(userId) {
+  const preference = await NotificationPreference.findOne({ where: { userId } });
+
+  return {
+    channels: resolveChannels(preference?.channels),
+    email: preference?.email || null,
+    webhookUrl: preference?.webhookUrl || null,
+    hasWebhookSecret: !!preference?.webhookSecret,
+    emailConfigured: mailService.isConfigured(),
+  };
+}
+
+/**
+ * Save a user's preferences
+ * @param {number} userId
+ * @param {Object} updates - channels, email, webhookUrl, webhookSecret
+ */
+async function updatePreferences(userId, updates) {
+  const [preference] = await NotificationPreference.findOrCreate({
+    where: { userId },
+  });
+
+  const data = {};
+  if (updates.channels !== undefined) {
+    const channels = resolveChannels(preference.channels);
+    for (const [type, values] of Object.entries(updates.channels)) {
+      if (!channels[type]) continue;
+      for (const channel of CHANNELS) {
+        if (typeof values?.[channel] === "boolean") {
+          channels[type][channel] = values[channel];
+        }
+      }
+    }
+    data.channels = channels;
+  }
+  if (updates.email !== undefined) data.email = updates.email || null;
+  if (updates.webhookUrl !== undefined) data.webhookUrl = updates.webhookUrl || null;
+  if (updates.webhookSecret !== undefined) {
+    data.webhookSecret = updates.webhookSecret || null;
+  }
+
+  await preference.update(data);
+  return getPreferences(userId);
+}
+
+function sendInApp(userId, notification) {
+  // Required lazily: whatsappService itself emits notifications
+  const whatsappService = require("./whatsappService");
+  whatsappService.sendSSEUpdate(userId, {
+    ...notification,
+    // SSE event names use dashes (see useSSENotifications mapEventType)
+    type: notification.type.replace(/_/g, "-"),
+  });
+}
+
+async function resolveEmailAddress(userId, preference) {
+  if (preference?.email) return preference.email;
+  const user = await User.findByPk(userId, { attributes: ["email"] });
+  return user?.email || null;
+}
+
+async function sendEmail(to, notification) {
+  const lines = [notification.body];
+  if (notification.deviceName || notification.deviceId) {
+    lines.push("", `Device: ${notification.deviceName || notification.deviceId}`);
+  }
+  lines.push("", `Time: ${notification.timestamp}`);
+
+  await mailService.sendMail({
+    to,
+    subject: `[WhatsApp Service] ${notification.title}`,
+    text: lines.join("\n"),
+  });
+}
+
+async function sendWebhook(url, secret, notification) {
+  const body = JSON.stringify({ event: notification.type, ...notification });
+  const headers = { "Content-Type": "application/json" };
+
+  if (secret) {
+    headers["X-Signature-256"] = `sha256=${crypto
+      .createHmac("sha256", secret)
+      .update(body)
+      .digest("hex")}`;
+  }
+
+  // Same rules as device webhooks: public addresses only, checked again on
+  // every send and on the address actually connected to, no redirects
+  if (!(await isPublicUrl(url))) {
+    throw Object.assign(new Error("Webhook URL is not public"), { code: BLOCKED_ADDRESS });
+  }
+
+  await axios.post(url, body, {
+    headers,
+    timeout: WEBHOOK_TIMEOUT_MS,
+    httpAgent: publicHttpAgent,
+    httpsAgent: publicHttpsAgent,
+    maxRedirects: 0,
+  });
+}
+
+/**
+ * Notify a user on every channel they enabled for this type.
+ * Never throws: a failing channel must not break the caller.
+ * @param {number} userId
+ * @param {string} type - One of NOTIFICATION_TYPES
+ * @param {Object} details
+ * @param {string} details.body
+ * @param {string} [details.title]
+ * @param {string} [details.deviceId]
+ * @param {string} [details.deviceName]
+ * @param {Object} [details.metadata]
+ */
+async function notify(userId, type, details) {
+  if (!userId || !NOTIFICATION_TYPES.includes(type)) return;
+
+  const notification = {
+    type,
+    title: details.title || TITLES[type],
+    body: details.body,
+    deviceId: details.deviceId,
+    deviceName: details.deviceName,
+    metadata: details.metadata,
+    timestamp: new Date().toISOString(),
+  };
+
+  try {
+    const preference = await NotificationPreference.findOne({ where: { userId } });
+    const enabled = resolveChannels(preference?.channels)[type];
+
+    if (enabled.inApp) {
+      sendInApp(userId, notification);
+    }
+
+    if (enabled.email) {
+      const to = await resolveEmailAddress(userId, preference);
+      if (to) {
+        await sendEmail(to, notification).catch((error) =>
+          logger.error(`❌ Notification email to user ${userId} failed:`, error.message)
+        );
+      }
+    }
+
+    if (enabled.webhook && preference?.webhookUrl) {
+      await sendWebhook(preference.webhookUrl, preference.webhookSecret, notification).catch(
+        (error) =>
+          logger.error(`❌ Notification webhook for user ${userId} failed:`, error.message)
+      );
+    }
+  } catch (error) {
+    logger.error(`❌ Failed to deliver ${type} notification to user ${userId}:`, error);
+  }
+}
+
+/**
+ * Send a sample notification on one channel so users can check their setup
+ * @param {number} userId
+ * @param {string} channel - "email" or "webhook"
+ */
+async function sendTestNotification(userId, channel) {
+  const preference = await NotificationPreference.findOne({ where: { userId } });
+  const notification = {
+    type: "info",
+    title: "Test Notification",
+    body: "Notifications are set up correctly.",
+    timestamp: new Date().toISOString(),
+  };
+
+  if (channel === "webhook") {
+    if (!preference?.webhookUrl) {
+      throw new Error("No webhook URL configured");
+    }
+    await sendWebhook(preference.webhookUrl, preference.webhookSecret, notification);
+    return;
+  }
+
+  await sendEmail(await resolveEmailAddress(userId, preference), notification);
+}
+
+module.exports = {
+  NOTIFICATION_TYPES,
+  CHANNELS,
+  getPreferences,
+  updatePreferences,
+  notify,
+  sendTestNotification,
+};
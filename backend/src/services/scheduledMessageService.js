@@ -1,133 +1,589 @@
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
 const logger = require("../utils/logger");
 const whatsappService = require("./whatsappService");
-const { ScheduledMessage, WhatsAppSession } = require("../models");
-const { Op } = require("sequelize");
+const notificationService = require("./notificationService");
+const segmentService = require("./segmentService");
+const suppressionService = require("./suppressionService");
+const {
+  ScheduledMessage,
+  ScheduledMessageEvent,
+  WhatsAppSession,
+  AudienceSegment,
+  Group,
+  User,
+} = require("../models");
+const { normalizePhoneNumber, resolveDefaultCountry } = require("../utils/phoneNumber");
+const { getOccurrences, isValidTimezone } = require("../utils/recurrence");
+const { scheduledMessages } = require("../utils/sharedConstants.json");
+const { Op, OptimisticLockError } = require("sequelize");
+
+// How often each instance looks for due messages
+const POLL_INTERVAL_MS = 15 * 1000;
+const POLL_BATCH_SIZE = 20;
+
+// A claimed run belongs to its instance until the lease ends; the heartbeat extends it while sending
+const LEASE_MS = 60 * 1000;
+const HEARTBEAT_INTERVAL_MS = 20 * 1000;
+
+// Runs picked up later than this follow the message's missed-run policy
+const MISSED_RUN_GRACE_MS = 5 * 60 * 1000;
+
+// send_late: send anyway, skip: drop the run, notify: drop the run and notify the owner
+const MISSED_RUN_POLICIES = ["send_late", "skip", "notify"];
+
+// Identifies this process in claims and status history
+const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+
+// How far ahead occurrences of a series can be listed, skipped or edited
+const MAX_UPCOMING_OCCURRENCES = scheduledMessages.maxUpcomingOccurrences;
+
+const SCHEDULED_MEDIA_TYPES = ["image", "video", "document"];
+const MAX_MENTIONS = scheduledMessages.maxMentions;
+
+// Uploaded media is kept this long after a message has finished (sent, failed or cancelled)
+const uploadDir = process.env.UPLOAD_PATH || "./uploads";
+const MEDIA_RETENTION_DAYS = parseInt(process.env.SCHEDULED_MEDIA_RETENTION_DAYS) || 7;
+const MEDIA_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+const formatOccurrence = (occurrence) => ({
+  occurrenceTime: occurrence.occurrenceTime.toISOString(),
+  scheduleTime: occurrence.scheduleTime.toISOString(),
+  message: occurrence.message,
+  skipped: occurrence.skipped,
+  edited: occurrence.edited,
+});
+
+// Rows without a live lease
+const unlockedWhere = (now) => ({
+  [Op.or]: [{ lockedUntil: null }, { lockedUntil: { [Op.lt]: now } }],
+});
+
+const minutesLate = (lateMs) => Math.round(lateMs / 60000);
+
+// Values as stored in the audit trail of an edit
+const auditValue = (value) => (value instanceof Date ? value.toISOString() : value ?? null);
+
+// Recipient as shown in logs and notifications
+const describeTarget = (scheduledMsg) => {
+  if (scheduledMsg.groupId) return `group "${scheduledMsg.groupName || scheduledMsg.groupId}"`;
+  return scheduledMsg.targetNumber || "segment";
+};
+
+// Attachment of a scheduled message; url is null once the file has been purged
+const formatMedia = (scheduledMsg) => {
+  if (!scheduledMsg.mediaType) return null;
+  const relativePath = scheduledMsg.mediaPath
+    ? path.relative(path.resolve(uploadDir), path.resolve(scheduledMsg.mediaPath)).split(path.sep).join("/")
+    : null;
+  return {
+    type: scheduledMsg.mediaType,
+    fileName: scheduledMsg.mediaFileName,
+    mimetype: scheduledMsg.mediaMimetype,
+    url: relativePath ? `/uploads/${relativePath}` : null,
+  };
+};
 
 /**
  * Scheduled Message Service (Persistent)
  * 
- * Manages scheduled messages using setTimeout backed by Database
+ * Due messages are found by polling the database, so schedules survive
+ * restarts and any number of server instances can run the worker. An
+ * instance claims a due row with a conditional update that sets a lease
+ * (lockedBy/lockedUntil); only one instance can win it, and a heartbeat
+ * extends the lease while the message is being sent. The lease of a crashed
+ * instance runs out and the run is picked up again, so delivery is
+ * at-least-once.
+ *
+ * A recurring message is one row for the whole series. Its scheduleTime is
+ * the effective time of the next occurrence that will be sent, and
+ * occurrenceTime the original time of the next occurrence that has not run
+ * yet. Skipped or edited occurrences are kept in `exceptions`, keyed by their
+ * original time, so the rule itself never changes.
  */
 class ScheduledMessageService {
   constructor() {
-    // Keep in-memory map for active timeouts only
-    this.activeTimeouts = new Map(); // scheduledMessageIdString -> timeout object
-    this.isInitialized = false;
+    this.pollTimer = null;
+    this.purgeTimer = null;
+    this.isPolling = false;
   }
 
   /**
-   * Initialize service: Load pending messages from DB
+   * Start polling for due messages and purging expired media
    */
-  async initialize() {
-    if (this.isInitialized) return;
-    
+  start() {
+    if (this.pollTimer) return;
+    this.pollTimer = setInterval(() => this.processDueMessages(), POLL_INTERVAL_MS);
+    this.purgeTimer = setInterval(() => this.purgeExpiredMedia(), MEDIA_PURGE_INTERVAL_MS);
+    logger.info(`📅 Scheduled message worker started on ${INSTANCE_ID}`);
+  }
+
+  /**
+   * Delete uploaded media of messages that finished more than MEDIA_RETENTION_DAYS ago
+   */
+  async purgeExpiredMedia() {
     try {
-      logger.info("🔄 Initializing ScheduledMessageService...");
-      
-      const pendingMessages = await ScheduledMessage.findAll({
-        where: { status: "pending" },
-        include: [
-          {
-            model: WhatsAppSession,
-            as: "session",
-            attributes: ["deviceId"], // We need deviceId for execution
-          }
-        ]
+      const cutoff = new Date(Date.now() - MEDIA_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+      const expired = await ScheduledMessage.findAll({
+        where: {
+          mediaPath: { [Op.ne]: null },
+          status: { [Op.ne]: "pending" },
+          updatedAt: { [Op.lt]: cutoff },
+        },
+        limit: 100,
       });
 
-      logger.info(`📅 Found ${pendingMessages.length} pending scheduled messages in DB`);
+      for (const scheduledMsg of expired) {
+        await fs.promises.unlink(scheduledMsg.mediaPath).catch((error) => {
+          if (error.code !== "ENOENT") throw error;
+        });
+        scheduledMsg.mediaPath = null;
+        await scheduledMsg.save();
+      }
 
-      for (const msg of pendingMessages) {
-        if (msg.session && msg.session.deviceId) {
-          this.scheduleTimeout(msg, msg.session.deviceId);
-        } else {
-          logger.warn(`⚠️ Scheduled message ${msg.id} has no valid session/device, marking failed.`);
-          msg.status = "failed";
-          msg.errorMessage = "Device session not found on restart";
-          await msg.save();
-        }
+      if (expired.length > 0) {
+        logger.info(`🧹 Removed media of ${expired.length} finished scheduled message(s)`);
       }
+    } catch (error) {
+      logger.error("❌ Scheduled media purge failed:", error);
+    }
+  }
 
-      this.isInitialized = true;
-      logger.info("✅ ScheduledMessageService initialized successfully");
+  /**
+   * Claim and run messages whose time has come
+   */
+  async processDueMessages() {
+    if (this.isPolling) return;
+    this.isPolling = true;
+
+    try {
+      const now = new Date();
+      const due = await ScheduledMessage.findAll({
+        attributes: ["id"],
+        where: {
+          status: "pending",
+          scheduleTime: { [Op.lte]: now },
+          ...unlockedWhere(now),
+        },
+        order: [["scheduleTime", "ASC"]],
+        limit: POLL_BATCH_SIZE,
+      });
+
+      for (const { id } of due) {
+        const scheduledMsg = await this.claim(id);
+        if (scheduledMsg) {
+          await this.runClaimed(scheduledMsg);
+        }
+      }
     } catch (error) {
-      logger.error("❌ Failed to initialize ScheduledMessageService:", error);
+      logger.error("❌ Scheduled message poll failed:", error);
+    } finally {
+      this.isPolling = false;
     }
   }
 
   /**
-   * Internal method to set the actual timeout
+   * Take the lease on a due message
+   * @returns {Promise<object|null>} The message, or null when another instance holds it
    */
-  scheduleTimeout(scheduledMsg, deviceId) {
+  async claim(id) {
     const now = new Date();
-    const scheduleDate = new Date(scheduledMsg.scheduleTime);
-    const scheduledMessageId = scheduledMsg.scheduledMessageId;
+    // Bumping the version makes edits loaded before the claim fail instead of overwriting the run
+    const [claimed] = await ScheduledMessage.update(
+      {
+        lockedBy: INSTANCE_ID,
+        lockedUntil: new Date(now.getTime() + LEASE_MS),
+        version: ScheduledMessage.sequelize.literal("version + 1"),
+      },
+      {
+        where: {
+          id,
+          status: "pending",
+          scheduleTime: { [Op.lte]: now },
+          ...unlockedWhere(now),
+        },
+      }
+    );
+    if (claimed === 0) return null;
 
-    // Check if time has passed
-    if (scheduleDate <= now) {
-      const diffMs = now.getTime() - scheduleDate.getTime();
-      
-      // If within 1 hour, execute immediately
-      if (diffMs < 60 * 60 * 1000) {
-        logger.info(`⏰ Scheduled message ${scheduledMessageId} is past due (${diffMs}ms), executing immediately...`);
-        this.executeMessage(scheduledMsg.id, deviceId, scheduledMsg.targetNumber, scheduledMsg.message);
-      } else {
-        // Too old, mark failed
-        logger.warn(`⚠️ Scheduled message ${scheduledMessageId} is too old (>1h), marking failed.`);
+    return ScheduledMessage.findByPk(id, {
+      include: [{ model: WhatsAppSession, as: "session", attributes: ["deviceId"] }],
+    });
+  }
+
+  /**
+   * Run a claimed message, keeping its lease alive until the result is saved
+   */
+  async runClaimed(scheduledMsg) {
+    const heartbeat = setInterval(() => {
+      ScheduledMessage.update(
+        { lockedUntil: new Date(Date.now() + LEASE_MS) },
+        { where: { id: scheduledMsg.id, lockedBy: INSTANCE_ID } }
+      ).catch((error) =>
+        logger.error(`❌ Lease heartbeat failed for ${scheduledMsg.scheduledMessageId}:`, error)
+      );
+    }, HEARTBEAT_INTERVAL_MS);
+
+    try {
+      const deviceId = scheduledMsg.session?.deviceId;
+      if (!deviceId) {
+        logger.warn(`⚠️ Scheduled message ${scheduledMsg.scheduledMessageId} has no valid session/device, marking failed.`);
         scheduledMsg.status = "failed";
-        scheduledMsg.errorMessage = "Expired during server downtime";
-        scheduledMsg.save();
+        scheduledMsg.errorMessage = "Device session not found";
+        await scheduledMsg.save();
+        this.recordEvent(scheduledMsg, "failed", "Device session not found", { instanceId: INSTANCE_ID });
+        return;
       }
-      return;
+
+      const lateMs = Date.now() - new Date(scheduledMsg.scheduleTime).getTime();
+      if (lateMs > MISSED_RUN_GRACE_MS && scheduledMsg.missedRunPolicy !== "send_late") {
+        await this.dropMissedRun(scheduledMsg, deviceId, lateMs);
+      } else {
+        await this.executeMessage(scheduledMsg, deviceId, lateMs > MISSED_RUN_GRACE_MS ? lateMs : 0);
+      }
+    } catch (error) {
+      logger.error(`❌ Failed to run scheduled message ${scheduledMsg.scheduledMessageId}:`, error);
+    } finally {
+      clearInterval(heartbeat);
+      await ScheduledMessage.update(
+        { lockedBy: null, lockedUntil: null },
+        { where: { id: scheduledMsg.id, lockedBy: INSTANCE_ID } }
+      ).catch((error) => logger.error(`❌ Failed to release ${scheduledMsg.scheduledMessageId}:`, error));
     }
+  }
+
+  /**
+   * Add an entry to the status history of a message (best effort)
+   * @param {string} event - scheduled, updated, sent, failed, missed, skipped, edited, restored,
+   *   cancelled or completed
+   * @param {string|null} [detail]
+   * @param {object} [options]
+   * @param {Date|null} [options.occurrenceTime] - Occurrence of a series the event is about
+   * @param {string|null} [options.instanceId] - Instance that ran the occurrence
+   * @param {number|null} [options.userId] - User who made the change
+   * @param {object|null} [options.changes] - Edited fields as { field: { from, to } }
+   */
+  recordEvent(
+    scheduledMsg,
+    event,
+    detail = null,
+    { occurrenceTime = null, instanceId = null, userId = null, changes = null } = {}
+  ) {
+    ScheduledMessageEvent.create({
+      scheduledMessageId: scheduledMsg.id,
+      event,
+      detail: detail ? String(detail).slice(0, 255) : null,
+      occurrenceTime,
+      instanceId,
+      userId,
+      changes,
+    }).catch((error) =>
+      logger.error(`❌ Failed to record ${event} event for ${scheduledMsg.scheduledMessageId}:`, error)
+    );
+  }
 
-    const delayMs = scheduleDate.getTime() - now.getTime();
+  /**
+   * Apply the skip / notify missed-run policy to a run picked up too late
+   */
+  async dropMissedRun(scheduledMsg, deviceId, lateMs) {
+    const occurrence = scheduledMsg.recurrence ? this.getDueOccurrence(scheduledMsg) : null;
+    const target = describeTarget(scheduledMsg);
 
-    // Set timeout
-    const timeout = setTimeout(() => {
-      this.executeMessage(scheduledMsg.id, deviceId, scheduledMsg.targetNumber, scheduledMsg.message);
-    }, delayMs);
+    logger.warn(
+      `⚠️ Scheduled message ${scheduledMsg.scheduledMessageId} is ${minutesLate(lateMs)} min late, not sent (${scheduledMsg.missedRunPolicy})`
+    );
+    this.recordEvent(scheduledMsg, "missed", `Not sent: ${minutesLate(lateMs)} min late (policy: ${scheduledMsg.missedRunPolicy})`, {
+      occurrenceTime: occurrence ? occurrence.occurrenceTime : null,
+      instanceId: INSTANCE_ID,
+    });
 
-    this.activeTimeouts.set(scheduledMessageId, timeout);
-    logger.info(`📅 Re-scheduled ${scheduledMessageId} for ${scheduleDate.toISOString()}`);
+    await this.completeOccurrence(scheduledMsg, deviceId, "Missed scheduled time");
+
+    if (scheduledMsg.missedRunPolicy === "notify") {
+      notificationService.notify(scheduledMsg.userId, "scheduled_failed", {
+        body: `Scheduled message to ${target} was not sent: it was due ${minutesLate(lateMs)} minutes earlier while the scheduler was unavailable.`,
+        deviceId,
+        metadata: { scheduledMessageId: scheduledMsg.scheduledMessageId },
+      });
+    }
   }
 
-  async executeMessage(dbId, deviceId, phoneNumber, message) {
-    let scheduledMsg;
+  /**
+   * Send a claimed message
+   * @param {number} [lateMs] - How late a send_late run is, for its history entry
+   */
+  async executeMessage(scheduledMsg, deviceId, lateMs = 0) {
+    const phoneNumber = scheduledMsg.targetNumber;
+    const occurrence = scheduledMsg.recurrence ? this.getDueOccurrence(scheduledMsg) : null;
+    const occurrenceTime = occurrence ? occurrence.occurrenceTime : null;
+    const lateNote = lateMs > 0 ? ` (${minutesLate(lateMs)} min late)` : "";
+
     try {
-      // Reload fresh record
-      scheduledMsg = await ScheduledMessage.findByPk(dbId);
-      if (!scheduledMsg || scheduledMsg.status !== "pending") return;
+      const message = occurrence ? occurrence.message : scheduledMsg.message;
+
+      if (scheduledMsg.segmentId) {
+        const result = await this.executeSegmentMessage(scheduledMsg, deviceId, message);
+        this.recordEvent(scheduledMsg, "sent", `Queued as job ${result.job.id} for ${result.total} recipients${lateNote}`, {
+          occurrenceTime,
+          instanceId: INSTANCE_ID,
+        });
+        await this.completeOccurrence(scheduledMsg, deviceId);
+        return;
+      }
+      if (!phoneNumber && !scheduledMsg.groupId) {
+        throw new Error("Target segment no longer exists");
+      }
+
+      // The recipient may have opted out after the message was scheduled
+      if (phoneNumber && (await suppressionService.isSuppressed(scheduledMsg.userId, phoneNumber))) {
+        scheduledMsg.status = "cancelled";
+        scheduledMsg.errorMessage = "Recipient opted out";
+        await scheduledMsg.save();
+        this.recordEvent(scheduledMsg, "cancelled", "Recipient opted out", { occurrenceTime, instanceId: INSTANCE_ID });
+        logger.info(`🚫 Scheduled message ${scheduledMsg.scheduledMessageId} cancelled: ${phoneNumber} opted out`);
+        return;
+      }
 
-      logger.info(`⏰ Executing scheduled message ${scheduledMsg.scheduledMessageId} to ${phoneNumber}`);
+      logger.info(`⏰ Executing scheduled message ${scheduledMsg.scheduledMessageId} to ${describeTarget(scheduledMsg)}`);
       
       // Send message
-      await whatsappService.sendMessageForDevice(deviceId, phoneNumber, message, "text");
+      await this.send(scheduledMsg, deviceId, message);
       
       // Update DB
-      scheduledMsg.status = "sent";
-      await scheduledMsg.save();
+      this.recordEvent(scheduledMsg, "sent", lateNote ? `Sent${lateNote}` : null, { occurrenceTime, instanceId: INSTANCE_ID });
+      await this.completeOccurrence(scheduledMsg, deviceId);
       
       logger.info(`✅ Scheduled message ${scheduledMsg.scheduledMessageId} sent successfully`);
+
+      notificationService.notify(scheduledMsg.userId, "scheduled_sent", {
+        body: `Scheduled message to ${describeTarget(scheduledMsg)} was sent.`,
+        deviceId,
+        metadata: { scheduledMessageId: scheduledMsg.scheduledMessageId },
+      });
     } catch (error) {
-      logger.error(`❌ Failed to execute scheduled message ${dbId}:`, error);
+      logger.error(`❌ Failed to execute scheduled message ${scheduledMsg.scheduledMessageId}:`, error);
       
-      if (scheduledMsg) {
-        scheduledMsg.status = "failed";
-        scheduledMsg.errorMessage = error.message;
-        await scheduledMsg.save();
+      if (scheduledMsg.status === "pending") {
+        // A failed occurrence does not end a series
+        this.recordEvent(scheduledMsg, "failed", error.message, { occurrenceTime, instanceId: INSTANCE_ID });
+        await this.completeOccurrence(scheduledMsg, deviceId, error.message).catch((saveError) =>
+          logger.error(`❌ Failed to record result of scheduled message ${scheduledMsg.scheduledMessageId}:`, saveError)
+        );
+
+        notificationService.notify(scheduledMsg.userId, "scheduled_failed", {
+          body: `Scheduled message to ${describeTarget(scheduledMsg)} could not be sent: ${error.message}`,
+          deviceId,
+          metadata: { scheduledMessageId: scheduledMsg.scheduledMessageId },
+        });
       }
-    } finally {
-      if (scheduledMsg) {
-        this.activeTimeouts.delete(scheduledMsg.scheduledMessageId);
+    }
+  }
+
+  /**
+   * Send to a number or group with the sender matching the message kind
+   * (text, media with the message as caption, or group mention)
+   */
+  async send(scheduledMsg, deviceId, message) {
+    const { groupId, targetNumber } = scheduledMsg;
+
+    if (scheduledMsg.mediaType) {
+      // The file is kept until the message has finished; a missing one cannot be sent
+      if (!scheduledMsg.mediaPath || !fs.existsSync(scheduledMsg.mediaPath)) {
+        throw new Error("Media file no longer exists");
       }
+      const args = [
+        scheduledMsg.mediaType,
+        scheduledMsg.mediaPath,
+        message || null,
+        scheduledMsg.mediaFileName,
+        scheduledMsg.mediaMimetype,
+      ];
+      return groupId
+        ? whatsappService.sendGroupMediaForDevice(deviceId, groupId, ...args)
+        : whatsappService.sendMediaForDevice(deviceId, targetNumber, ...args);
+    }
+
+    if (groupId) {
+      return scheduledMsg.mentions && scheduledMsg.mentions.length > 0
+        ? whatsappService.sendGroupMentionMessageForDevice(deviceId, groupId, message, scheduledMsg.mentions)
+        : whatsappService.sendGroupMessageForDevice(deviceId, groupId, message);
+    }
+
+    return whatsappService.sendMessageForDevice(deviceId, targetNumber, message, "text");
+  }
+
+  /**
+   * Send a segment message: expand the segment into a send-text job.
+   * The scheduled message counts as sent once the job is queued.
+   * @returns {Promise<object>} The createSegmentJob result
+   */
+  async executeSegmentMessage(scheduledMsg, deviceId, message) {
+    const segment = await AudienceSegment.findOne({
+      where: { id: scheduledMsg.segmentId, userId: scheduledMsg.userId },
+    });
+    if (!segment) {
+      throw new Error("Target segment no longer exists");
+    }
+
+    logger.info(`⏰ Executing scheduled message ${scheduledMsg.scheduledMessageId} to segment ${segment.id}`);
+
+    const [session, user] = await Promise.all([
+      WhatsAppSession.findOne({ where: { deviceId } }),
+      User.findByPk(scheduledMsg.userId),
+    ]);
+
+    const result = await segmentService.createSegmentJob({
+      userId: scheduledMsg.userId,
+      deviceId,
+      segment,
+      message,
+      defaultCountry: resolveDefaultCountry(session, user),
+    });
+    if (!result.success) {
+      throw new Error(result.error);
     }
+
+    scheduledMsg.jobId = result.job.id;
+
+    logger.info(`✅ Scheduled message ${scheduledMsg.scheduledMessageId} queued as job ${result.job.id}`);
+
+    notificationService.notify(scheduledMsg.userId, "scheduled_sent", {
+      body: `Scheduled message to segment "${segment.name}" was queued for ${result.total} recipients.`,
+      deviceId,
+      metadata: { scheduledMessageId: scheduledMsg.scheduledMessageId, jobId: result.job.id },
+    });
+    return result;
+  }
+
+  /**
+   * Occurrences of a series from its next unsent one, with their exceptions applied
+   * @param {number} limit - Max occurrences
+   * @param {Date} [from] - Start from this original time instead of occurrenceTime
+   * @returns {Array<{ occurrenceTime: Date, scheduleTime: Date, message: string, skipped: boolean, edited: boolean }>}
+   */
+  getUpcomingOccurrences(scheduledMsg, limit, from = scheduledMsg.occurrenceTime) {
+    const exceptions = scheduledMsg.exceptions || {};
+    return getOccurrences(scheduledMsg.recurrence, scheduledMsg.seriesStart, scheduledMsg.timezone, {
+      from,
+      limit,
+    }).map((time) => {
+      const exception = exceptions[time.toISOString()] || {};
+      return {
+        occurrenceTime: time,
+        scheduleTime: exception.scheduleTime ? new Date(exception.scheduleTime) : time,
+        message: exception.message || scheduledMsg.message,
+        skipped: Boolean(exception.skip),
+        edited: Boolean(exception.message || exception.scheduleTime),
+      };
+    });
+  }
+
+  /**
+   * The occurrence a series sends next: the first one from occurrenceTime that is not skipped
+   * @returns {object|null}
+   */
+  getDueOccurrence(scheduledMsg) {
+    // Every exception could be a skip, so look one further than their count
+    const limit = Object.keys(scheduledMsg.exceptions || {}).length + 1;
+    return this.getUpcomingOccurrences(scheduledMsg, limit).find((occurrence) => !occurrence.skipped) || null;
+  }
+
+  /**
+   * Record a run. One-shot messages end as sent or failed; a series moves on
+   * to the occurrence after the one that ran.
+   * @param {string|null} [errorMessage] - Why this run failed
+   */
+  async completeOccurrence(scheduledMsg, deviceId, errorMessage = null) {
+    scheduledMsg.lastRunAt = new Date();
+    scheduledMsg.errorMessage = errorMessage;
+
+    if (!scheduledMsg.recurrence) {
+      scheduledMsg.status = errorMessage ? "failed" : "sent";
+      await scheduledMsg.save();
+      return;
+    }
+
+    // After downtime several occurrences can be overdue; only the one that ran is
+    // handled, the series resumes at the first occurrence still ahead
+    const due = this.getDueOccurrence(scheduledMsg);
+    const now = new Date();
+    let next = null;
+    let overdue = 0;
+    if (due) {
+      const after = this.getUpcomingOccurrences(
+        scheduledMsg,
+        MAX_UPCOMING_OCCURRENCES,
+        new Date(due.occurrenceTime.getTime() + 1)
+      );
+      next = after.find((occurrence) => occurrence.scheduleTime > now) || null;
+      const passed = next ? after.slice(0, after.indexOf(next)) : after;
+      overdue = passed.filter((occurrence) => !occurrence.skipped).length;
+      if (!next && after.length === MAX_UPCOMING_OCCURRENCES) {
+        [next] = this.getUpcomingOccurrences(scheduledMsg, 1, now);
+      }
+    }
+    if (overdue > 0) {
+      this.recordEvent(scheduledMsg, "missed", `${overdue} overdue occurrence(s) not sent`, { instanceId: INSTANCE_ID });
+    }
+
+    scheduledMsg.occurrenceTime = next ? next.occurrenceTime : null;
+    await this.syncSeries(scheduledMsg);
+  }
+
+  /**
+   * Point a series at its next occurrence to send, or end it when no occurrence is left
+   */
+  async syncSeries(scheduledMsg) {
+    const due = scheduledMsg.occurrenceTime ? this.getDueOccurrence(scheduledMsg) : null;
+
+    // Exceptions for occurrences that have run are no longer needed
+    const exceptions = {};
+    for (const [key, exception] of Object.entries(scheduledMsg.exceptions || {})) {
+      if (scheduledMsg.occurrenceTime && new Date(key) >= scheduledMsg.occurrenceTime) {
+        exceptions[key] = exception;
+      }
+    }
+    scheduledMsg.exceptions = Object.keys(exceptions).length > 0 ? exceptions : null;
+
+    if (!due) {
+      // The series is over: sent unless its last run failed or every remaining occurrence was skipped
+      scheduledMsg.status = scheduledMsg.errorMessage ? "failed" : scheduledMsg.lastRunAt ? "sent" : "cancelled";
+      await scheduledMsg.save();
+      this.recordEvent(scheduledMsg, "completed", `Series ended as ${scheduledMsg.status}`);
+      logger.info(`🏁 Recurring message ${scheduledMsg.scheduledMessageId} has no occurrences left`);
+      return;
+    }
+
+    scheduledMsg.scheduleTime = due.scheduleTime;
+    scheduledMsg.status = "pending";
+    await scheduledMsg.save();
   }
 
   /**
    * Schedule a message
+   * @param {string|null} phoneNumber - Normalized number; null when options.segmentId or options.groupId is given
+   * @param {string} message - Text, or the caption when options.media is given (may be empty)
+   * @param {object} [options]
+   * @param {number|null} [options.segmentId] - Send to this audience segment instead
+   * @param {string|null} [options.groupId] - Send to this group instead
+   * @param {string|null} [options.groupName] - Group subject, for display
+   * @param {string[]|null} [options.mentions] - JIDs to mention in a group text message
+   * @param {object|null} [options.media] - Uploaded attachment { type, path, fileName, mimetype }
+   * @param {object|null} [options.recurrence] - Repeat rule (see utils/recurrence); the first
+   *   occurrence at or after scheduleTime is the first run
+   * @param {string} [options.missedRunPolicy] - What to do with a run picked up late (default send_late)
    */
-  async scheduleMessage(deviceId, phoneNumber, message, scheduleTime, timezone = "Asia/Jakarta") {
+  async scheduleMessage(deviceId, phoneNumber, message, scheduleTime, timezone = "Asia/Jakarta", options = {}) {
+    const {
+      segmentId = null,
+      groupId = null,
+      groupName = null,
+      mentions = null,
+      media = null,
+      recurrence = null,
+      missedRunPolicy = "send_late",
+    } = options;
     try {
       // 1. Resolve Device/Session
       const session = await WhatsAppSession.findOne({ where: { deviceId } });
@@ -135,7 +591,17 @@ class ScheduledMessageService {
         throw new Error("Device session not found");
       }
 
-      // 2. Create DB Record
+      // 2. Resolve first run of a series
+      let firstRun = new Date(scheduleTime);
+      if (recurrence) {
+        const [first] = getOccurrences(recurrence, firstRun, timezone, { limit: 1 });
+        if (!first) {
+          throw new Error("Recurrence has no occurrences");
+        }
+        firstRun = first;
+      }
+
+      // 3. Create DB Record
       const idStr = `sched_${Date.now()}_${Math.floor(Math.random() * 1000)}`;
       
       const newMsg = await ScheduledMessage.create({
@@ -143,14 +609,26 @@ class ScheduledMessageService {
         sessionId: session.id,
         scheduledMessageId: idStr,
         targetNumber: phoneNumber,
-        message: message,
-        scheduleTime: new Date(scheduleTime),
+        segmentId,
+        groupId,
+        groupName,
+        mentions,
+        mediaType: media ? media.type : null,
+        mediaPath: media ? media.path : null,
+        mediaFileName: media ? media.fileName : null,
+        mediaMimetype: media ? media.mimetype : null,
+        message: message || "",
+        scheduleTime: firstRun,
         timezone: timezone,
+        recurrence,
+        seriesStart: recurrence ? new Date(scheduleTime) : null,
+        occurrenceTime: recurrence ? firstRun : null,
+        missedRunPolicy,
         status: "pending"
       });
 
-      // 3. Schedule Timeout
-      this.scheduleTimeout(newMsg, deviceId);
+      // 4. The worker picks it up once it is due
+      this.recordEvent(newMsg, "scheduled", `First run at ${firstRun.toISOString()}`);
 
       return newMsg.scheduledMessageId;
     } catch (error) {
@@ -168,15 +646,10 @@ class ScheduledMessageService {
       const msg = await ScheduledMessage.findOne({ where: { scheduledMessageId } });
       if (!msg) return false;
 
-      // Clear timeout if active
-      if (this.activeTimeouts.has(scheduledMessageId)) {
-        clearTimeout(this.activeTimeouts.get(scheduledMessageId));
-        this.activeTimeouts.delete(scheduledMessageId);
-      }
-
       // Update DB
       msg.status = "cancelled";
       await msg.save();
+      this.recordEvent(msg, "cancelled");
       
       logger.info(`🚫 Cancelled scheduled message ${scheduledMessageId}`);
       return true;
@@ -216,6 +689,7 @@ class ScheduledMessageService {
 
       const messages = await ScheduledMessage.findAll({
         where: whereClause,
+        include: [{ model: AudienceSegment, as: "segment", attributes: ["id", "name"] }],
         order: [["scheduleTime", "DESC"]], // Newest first
         limit: 100 // Limit history
       });
@@ -226,10 +700,21 @@ class ScheduledMessageService {
         id: msg.scheduledMessageId,
         deviceId: deviceId, // Might be approximate if listing all
         phoneNumber: msg.targetNumber,
+        segmentId: msg.segmentId,
+        segmentName: msg.segment?.name || null,
+        groupId: msg.groupId,
+        groupName: msg.groupName,
+        mentions: msg.mentions,
+        media: formatMedia(msg),
+        jobId: msg.jobId,
         message: msg.message,
         scheduleTime: msg.scheduleTime,
         status: msg.status,
         timezone: msg.timezone,
+        recurrence: msg.recurrence,
+        missedRunPolicy: msg.missedRunPolicy,
+        lastRunAt: msg.lastRunAt,
+        version: msg.version,
         createdAt: msg.createdAt,
         error: msg.errorMessage
       }));
@@ -274,7 +759,8 @@ class ScheduledMessageService {
             model: WhatsAppSession,
             as: "session",
             attributes: ["deviceId", "deviceName"],
-          }
+          },
+          { model: AudienceSegment, as: "segment", attributes: ["id", "name"] },
         ],
         order: [["scheduleTime", "DESC"]], // Newest first
         limit: Math.min(limit, 100), // Max 100
@@ -287,10 +773,21 @@ class ScheduledMessageService {
           deviceId: msg.session?.deviceId || null,
           deviceName: msg.session?.deviceName || null,
           phoneNumber: msg.targetNumber,
+          segmentId: msg.segmentId,
+          segmentName: msg.segment?.name || null,
+          groupId: msg.groupId,
+          groupName: msg.groupName,
+          mentions: msg.mentions,
+          media: formatMedia(msg),
+          jobId: msg.jobId,
           message: msg.message,
           scheduleTime: msg.scheduleTime,
           status: msg.status,
           timezone: msg.timezone,
+          recurrence: msg.recurrence,
+          missedRunPolicy: msg.missedRunPolicy,
+          lastRunAt: msg.lastRunAt,
+          version: msg.version,
           createdAt: msg.createdAt,
           error: msg.errorMessage
         })),
@@ -332,28 +829,337 @@ class ScheduledMessageService {
         };
       }
 
-      // Clear timeout if active
-      if (this.activeTimeouts.has(scheduledMessageId)) {
-        clearTimeout(this.activeTimeouts.get(scheduledMessageId));
-        this.activeTimeouts.delete(scheduledMessageId);
+      // A run already claimed by the worker goes ahead; the series stops after it
+      if (msg.lockedUntil && msg.lockedUntil > new Date()) {
+        return { success: false, error: "Message is being sent right now, try again shortly" };
       }
 
       // Update DB
       msg.status = "cancelled";
       await msg.save();
+      this.recordEvent(msg, "cancelled", "Cancelled by user", { userId });
       
       logger.info(`🚫 Cancelled scheduled message ${scheduledMessageId} by user ${userId}`);
       return { success: true };
     } catch (error) {
+      if (error instanceof OptimisticLockError) {
+        return { success: false, error: "Message is being sent right now, try again shortly" };
+      }
       logger.error("❌ Failed to cancel message:", error);
       return { success: false, error: error.message };
     }
   }
+
+  /**
+   * Upcoming occurrences of a recurring message with ownership validation
+   * @param {number} [limit] - Max occurrences (default 10, at most 50)
+   * @returns {object} Result with success status and occurrences
+   */
+  async listOccurrencesWithOwnership(scheduledMessageId, userId, limit = 10) {
+    const msg = await ScheduledMessage.findOne({ where: { scheduledMessageId, userId } });
+    if (!msg) {
+      return { success: false, error: "Message not found or access denied" };
+    }
+    if (!msg.recurrence) {
+      return { success: false, error: "Message does not repeat" };
+    }
+
+    const occurrences =
+      msg.status === "pending" ? this.getUpcomingOccurrences(msg, Math.min(limit, MAX_UPCOMING_OCCURRENCES)) : [];
+    return { success: true, occurrences: occurrences.map(formatOccurrence) };
+  }
+
+  /**
+   * Skip, edit or restore one occurrence of a recurring message with ownership validation.
+   * The rest of the series is left as it is.
+   * @param {string} occurrenceTime - Original time of the occurrence (ISO)
+   * @param {object} changes - { skip: true }, or { message, scheduleTime } to edit;
+   *   empty to restore the occurrence as the series defines it
+   * @returns {object} Result with success status and the updated occurrence
+   */
+  async updateOccurrenceWithOwnership(scheduledMessageId, userId, occurrenceTime, changes = {}) {
+    try {
+      const msg = await ScheduledMessage.findOne({
+        where: { scheduledMessageId, userId },
+        include: [{ model: WhatsAppSession, as: "session", attributes: ["deviceId"] }],
+      });
+      if (!msg) {
+        return { success: false, error: "Message not found or access denied" };
+      }
+      if (!msg.recurrence) {
+        return { success: false, error: "Message does not repeat" };
+      }
+      if (msg.status !== "pending" || !msg.session) {
+        return { success: false, error: `Cannot change occurrences of a message with status '${msg.status}'` };
+      }
+      if (msg.lockedUntil && msg.lockedUntil > new Date()) {
+        return { success: false, error: "Message is being sent right now, try again shortly" };
+      }
+
+      const key = new Date(occurrenceTime);
+      const upcoming = this.getUpcomingOccurrences(msg, MAX_UPCOMING_OCCURRENCES + 1);
+      const index = isNaN(key.getTime())
+        ? -1
+        : upcoming.findIndex((occurrence) => occurrence.occurrenceTime.getTime() === key.getTime());
+      if (index === -1 || index >= MAX_UPCOMING_OCCURRENCES) {
+        return { success: false, error: "Occurrence not found in the upcoming occurrences of this series" };
+      }
+
+      const now = new Date();
+      if (upcoming[index].scheduleTime <= now) {
+        return { success: false, error: "Occurrence time has already passed" };
+      }
+
+      const exception = {};
+      if (changes.skip) {
+        exception.skip = true;
+      } else {
+        if (changes.message && changes.message !== msg.message) {
+          exception.message = changes.message;
+        }
+        if (changes.scheduleTime) {
+          // A moved occurrence must keep its place in the series
+          const newTime = new Date(changes.scheduleTime);
+          const previous = index > 0 ? upcoming[index - 1].scheduleTime : null;
+          const earliest = previous && previous > now ? previous : now;
+          const next = upcoming[index + 1] ? upcoming[index + 1].scheduleTime : null;
+          if (isNaN(newTime.getTime()) || newTime <= earliest || (next && newTime >= next)) {
+            return {
+              success: false,
+              error: "New time must be in the future and between the previous and next occurrence",
+            };
+          }
+          if (newTime.getTime() !== key.getTime()) {
+            exception.scheduleTime = newTime.toISOString();
+          }
+        }
+      }
+
+      const exceptions = { ...(msg.exceptions || {}) };
+      if (Object.keys(exception).length > 0) {
+        exceptions[key.toISOString()] = exception;
+      } else {
+        delete exceptions[key.toISOString()];
+      }
+      msg.exceptions = exceptions;
+
+      await this.syncSeries(msg);
+      const event = exception.skip ? "skipped" : Object.keys(exception).length > 0 ? "edited" : "restored";
+      this.recordEvent(msg, event, exception.scheduleTime ? `Moved to ${exception.scheduleTime}` : null, {
+        occurrenceTime: key,
+        userId,
+      });
+
+      logger.info(`✏️ Updated occurrence ${key.toISOString()} of ${scheduledMessageId} by user ${userId}`);
+      const [occurrence] = this.getUpcomingOccurrences(msg, 1, key);
+      return { success: true, occurrence: formatOccurrence(occurrence), status: msg.status };
+    } catch (error) {
+      if (error instanceof OptimisticLockError) {
+        return { success: false, error: "Message is being sent right now, try again shortly" };
+      }
+      logger.error("❌ Failed to update occurrence:", error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Edit or reschedule a pending scheduled message with ownership validation.
+   * The recipient can change within its kind (number, group or segment), and
+   * a series restarts from the new time when its time or timezone changes.
+   * @param {number} version - Version of the message the edit is based on
+   * @param {object} changes - Any of { message, scheduleTime, timezone, to, groupId, segmentId }
+   * @returns {object} Result with success status and the updated message; conflict is set
+   *   when the message changed since it was loaded
+   */
+  async updateWithOwnership(scheduledMessageId, userId, version, changes = {}) {
+    try {
+      const msg = await ScheduledMessage.findOne({
+        where: { scheduledMessageId, userId },
+        include: [
+          { model: WhatsAppSession, as: "session", attributes: ["deviceId", "defaultCountry"] },
+          { model: User, as: "user", attributes: ["id", "defaultCountry"] },
+        ],
+      });
+      if (!msg) {
+        return { success: false, error: "Message not found or access denied" };
+      }
+      if (msg.status !== "pending" || !msg.session) {
+        return { success: false, error: `Cannot edit message with status '${msg.status}'. Only pending messages can be edited.` };
+      }
+      if (msg.lockedUntil && msg.lockedUntil > new Date()) {
+        return { success: false, conflict: true, error: "Message is being sent right now, try again shortly" };
+      }
+      if (msg.version !== version) {
+        return { success: false, conflict: true, error: "Message was changed since it was loaded, reload it and try again" };
+      }
+
+      const updates = {};
+
+      if (changes.message !== undefined) {
+        // A media message may go without caption
+        if (!changes.message && !msg.mediaType) {
+          return { success: false, error: "Message text cannot be empty" };
+        }
+        updates.message = changes.message;
+      }
+
+      if (changes.timezone !== undefined) {
+        if (!isValidTimezone(changes.timezone)) {
+          return { success: false, error: "Invalid timezone" };
+        }
+        updates.timezone = changes.timezone;
+      }
+
+      // The recipient keeps its kind; mentions belong to the group they were picked in
+      if (changes.to !== undefined) {
+        if (!msg.targetNumber) {
+          return { success: false, error: "Recipient type cannot be changed" };
+        }
+        const number = normalizePhoneNumber(changes.to, resolveDefaultCountry(msg.session, msg.user));
+        if (!number) {
+          return { success: false, error: "Invalid phone number" };
+        }
+        if (await suppressionService.isSuppressed(userId, number)) {
+          return { success: false, error: "Recipient has opted out" };
+        }
+        updates.targetNumber = number;
+      } else if (changes.groupId !== undefined) {
+        if (!msg.groupId) {
+          return { success: false, error: "Recipient type cannot be changed" };
+        }
+        const group = await Group.findOne({
+          where: { groupId: changes.groupId, deviceId: msg.session.deviceId, isActive: true },
+        });
+        if (!group) {
+          return { success: false, error: "Group not found on this device" };
+        }
+        if (group.groupId !== msg.groupId) {
+          updates.groupId = group.groupId;
+          updates.groupName = group.subject;
+          updates.mentions = null;
+        }
+      } else if (changes.segmentId !== undefined) {
+        if (!msg.segmentId) {
+          return { success: false, error: "Recipient type cannot be changed" };
+        }
+        const segment = await segmentService.getSegment(userId, changes.segmentId);
+        if (!segment) {
+          return { success: false, error: "Segment not found" };
+        }
+        updates.segmentId = segment.id;
+      }
+
+      const now = new Date();
+      const timezone = updates.timezone || msg.timezone;
+      if (changes.scheduleTime !== undefined) {
+        const newTime = new Date(changes.scheduleTime);
+        if (isNaN(newTime.getTime()) || newTime <= now) {
+          return { success: false, error: "Schedule time must be in the future" };
+        }
+        updates.scheduleTime = newTime;
+      } else if (msg.recurrence && updates.timezone && updates.timezone !== msg.timezone) {
+        // Occurrences keep the wall-clock time of the first run, so the new zone needs a new first run
+        return { success: false, error: "Give a new schedule time when changing the timezone of a series" };
+      }
+
+      if (msg.recurrence && updates.scheduleTime) {
+        // The series restarts: skipped and edited occurrences belonged to the old times
+        const [first] = getOccurrences(msg.recurrence, updates.scheduleTime, timezone, { limit: 1 });
+        if (!first) {
+          return { success: false, error: "Recurrence has no occurrences after the new time" };
+        }
+        updates.seriesStart = updates.scheduleTime;
+        updates.occurrenceTime = first;
+        updates.scheduleTime = first;
+        updates.exceptions = null;
+      }
+
+      // Only fields that actually change are saved and audited
+      const audit = {};
+      for (const [field, value] of Object.entries(updates)) {
+        const from = auditValue(msg[field]);
+        const to = auditValue(value);
+        if (JSON.stringify(from) === JSON.stringify(to)) continue;
+        if (field !== "exceptions" && field !== "occurrenceTime") {
+          audit[field] = { from, to };
+        }
+        msg[field] = value;
+      }
+      if (Object.keys(audit).length === 0) {
+        return { success: false, error: "Nothing to change" };
+      }
+
+      // Saving checks the version again, so a claim that slipped in since loading wins
+      await msg.save();
+      this.recordEvent(msg, "updated", `Changed ${Object.keys(audit).join(", ")}`, { userId, changes: audit });
+
+      logger.info(`✏️ Updated scheduled message ${scheduledMessageId} by user ${userId}`);
+      return {
+        success: true,
+        message: {
+          id: msg.scheduledMessageId,
+          deviceId: msg.session.deviceId,
+          phoneNumber: msg.targetNumber,
+          segmentId: msg.segmentId,
+          groupId: msg.groupId,
+          groupName: msg.groupName,
+          mentions: msg.mentions,
+          media: formatMedia(msg),
+          message: msg.message,
+          scheduleTime: msg.scheduleTime,
+          status: msg.status,
+          timezone: msg.timezone,
+          recurrence: msg.recurrence,
+          missedRunPolicy: msg.missedRunPolicy,
+          version: msg.version,
+        },
+      };
+    } catch (error) {
+      if (error instanceof OptimisticLockError) {
+        return { success: false, conflict: true, error: "Message was changed since it was loaded, reload it and try again" };
+      }
+      logger.error("❌ Failed to update scheduled message:", error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Status history of a scheduled message with ownership validation
+   * @returns {object} Result with success status and events, newest first
+   */
+  async getHistoryWithOwnership(scheduledMessageId, userId) {
+    const msg = await ScheduledMessage.findOne({ where: { scheduledMessageId, userId } });
+    if (!msg) {
+      return { success: false, error: "Message not found or access denied" };
+    }
+
+    const events = await ScheduledMessageEvent.findAll({
+      where: { scheduledMessageId: msg.id },
+      include: [{ model: User, as: "user", attributes: ["id", "username", "fullName"] }],
+      order: [["createdAt", "DESC"], ["id", "DESC"]],
+      limit: 200,
+    });
+
+    return {
+      success: true,
+      events: events.map((event) => ({
+        id: event.id,
+        event: event.event,
+        occurrenceTime: event.occurrenceTime,
+        detail: event.detail,
+        instanceId: event.instanceId,
+        userId: event.userId,
+        userName: event.user?.fullName || event.user?.username || null,
+        changes: event.changes,
+        createdAt: event.createdAt,
+      })),
+    };
+  }
 }
 
 const service = new ScheduledMessageService();
 
-// Auto-initialize on import (or call explicitly in app.js)
-setTimeout(() => service.initialize(), 5000); // Delay slightly to ensure DB connection
-
 module.exports = service;
+module.exports.MISSED_RUN_POLICIES = MISSED_RUN_POLICIES;
+module.exports.SCHEDULED_MEDIA_TYPES = SCHEDULED_MEDIA_TYPES;
+module.exports.MAX_MENTIONS = MAX_MENTIONS;
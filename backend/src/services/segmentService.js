@@ -0,0 +1,329 @@
+/**
+ * Segment Service
+ * Saved audience segments: rules over a user's contacts that are expanded
+ * into job items when a Chat Blast or scheduled message is sent to them.
+ *
+ * Contacts are read in id-ordered chunks so large segments never load the
+ * whole contact table at once. Tag, device and last-interaction rules run in
+ * SQL; custom field rules run on each chunk.
+ */
+
+const { Op } = require("sequelize");
+const { AudienceSegment, Contact } = require("../models");
+const jobQueueService = require("./jobQueueService");
+const { normalizePhoneNumber, formatPhoneNumber } = require("../utils/phoneNumber");
+const { renderTemplate } = require("../utils/templateVariables");
+const { segments } = require("../utils/sharedConstants.json");
+const logger = require("../utils/logger");
+
+const CHUNK_SIZE = 500;
+
+// Upper bound for one segment job
+const MAX_SEGMENT_RECIPIENTS = segments.maxRecipients;
+
+const MAX_SEGMENTS_PER_USER = 50;
+
+const CUSTOM_FIELD_OPERATORS = segments.customFieldOperators;
+
+const SAMPLE_SIZE = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Only characters contact tags may contain (see sanitizeContactTags), so LIKE patterns stay literal
+const cleanTags = (tags) =>
+  (tags || []).map((tag) => String(tag).trim()).filter((tag) => /^[\w\s-]+$/.test(tag));
+
+/**
+ * Fill in defaults so stored and submitted rules have the same shape:
+ * {
+ *   includeTags: string[], includeMatch: "any" | "all", excludeTags: string[],
+ *   deviceId: string | null,
+ *   lastMessageWithinDays: number | null,    // talked to in the last N days
+ *   lastMessageOlderThanDays: number | null, // quiet for N days (or never)
+ *   customFields: [{ key, operator, value }]
+ * }
+ */
+function normalizeRules(rules = {}) {
+  return {
+    includeTags: cleanTags(rules.includeTags),
+    includeMatch: rules.includeMatch === "all" ? "all" : "any",
+    excludeTags: cleanTags(rules.excludeTags),
+    deviceId: rules.deviceId || null,
+    lastMessageWithinDays: rules.lastMessageWithinDays || null,
+    lastMessageOlderThanDays: rules.lastMessageOlderThanDays || null,
+    customFields: rules.customFields || [],
+  };
+}
+
+// Tags are a JSON array column; match the quoted value like getUserContacts does
+const tagCondition = (tag) => ({ tags: { [Op.like]: `%"${tag}"%` } });
+
+function buildWhere(userId, rules) {
+  const where = { userId, isBlocked: false };
+  const and = [];
+
+  if (rules.deviceId) {
+    where.deviceId = rules.deviceId;
+  }
+
+  if (rules.includeTags.length > 0) {
+    const conditions = rules.includeTags.map(tagCondition);
+    and.push(rules.includeMatch === "all" ? { [Op.and]: conditions } : { [Op.or]: conditions });
+  }
+
+  for (const tag of rules.excludeTags) {
+    and.push({ [Op.or]: [{ tags: null }, { tags: { [Op.notLike]: `%"${tag}"%` } }] });
+  }
+
+  if (rules.lastMessageWithinDays) {
+    and.push({
+      lastMessageAt: { [Op.gte]: new Date(Date.now() - rules.lastMessageWithinDays * DAY_MS) },
+    });
+  }
+
+  if (rules.lastMessageOlderThanDays) {
+    and.push({
+      [Op.or]: [
+        { lastMessageAt: null },
+        { lastMessageAt: { [Op.lt]: new Date(Date.now() - rules.lastMessageOlderThanDays * DAY_MS) } },
+      ],
+    });
+  }
+
+  if (and.length > 0) {
+    where[Op.and] = and;
+  }
+  return where;
+}
+
+function matchesCustomFields(contact, rules) {
+  const fields = contact.customFields || {};
+  return rules.every(({ key, operator, value = "" }) => {
+    const actual = fields[key] === undefined || fields[key] === null ? "" : String(fields[key]).trim();
+    const expected = String(value).trim().toLowerCase();
+    switch (operator) {
+      case "equals":
+        return actual.toLowerCase() === expected;
+      case "not_equals":
+        return actual.toLowerCase() !== expected;
+      case "contains":
+        return actual.toLowerCase().includes(expected);
+      case "exists":
+        return actual !== "";
+      case "not_exists":
+        return actual === "";
+      default:
+        return false;
+    }
+  });
+}
+
+/**
+ * Call onChunk with each chunk of matching contacts, in id order.
+ * Stop early by returning false from onChunk.
+ */
+async function forEachContactChunk(userId, rules, onChunk) {
+  const normalized = normalizeRules(rules);
+  const where = buildWhere(userId, normalized);
+  let lastId = 0;
+
+  for (;;) {
+    const contacts = await Contact.findAll({
+      where: { ...where, id: { [Op.gt]: lastId } },
+      order: [["id", "ASC"]],
+      limit: CHUNK_SIZE,
+    });
+    if (contacts.length === 0) break;
+
+    lastId = contacts[contacts.length - 1].id;
+    const matching = contacts.filter((contact) => matchesCustomFields(contact, normalized.customFields));
+    if (matching.length > 0 && (await onChunk(matching)) === false) break;
+    if (contacts.length < CHUNK_SIZE) break;
+  }
+}
+
+// Stored numbers are E.164 digits; legacy rows may still be in national form
+const contactPhone = (contact, defaultCountry) => {
+  const stored = String(contact.phoneNumber || "");
+  return normalizePhoneNumber(stored.startsWith("0") ? stored : `+${stored.replace(/^\+/, "")}`, defaultCountry);
+};
+
+/**
+ * Template variables available for a contact: name, phone, email and its custom fields
+ */
+const contactVariables = (contact) => ({
+  ...(contact.customFields || {}),
+  name: contact.name,
+  phone: formatPhoneNumber(contact.phoneNumber),
+  email: contact.email || "",
+});
+
+/**
+ * Render {{variables}}; placeholders without a value are kept and reported
+ */
+const renderMessage = renderTemplate;
+
+/**
+ * Render every variant of a message for one recipient. A/B sends check all
+ * variants before a variant is drawn, so recipients skipped for a missing
+ * variable never unbalance the split.
+ * @param {Array<{ key: string|null, message: string }>} variants
+ * @returns {Map<string|null, string>|null} Text per variant key; null when any variant misses a variable
+ */
+function renderVariants(variants, values) {
+  const texts = new Map();
+  for (const variant of variants) {
+    const { text, missing } = renderMessage(variant.message, values);
+    if (missing.length > 0) return null;
+    texts.set(variant.key, text);
+  }
+  return texts;
+}
+
+/**
+ * Count the contacts a segment currently matches (one per phone number)
+ * @param {number} userId
+ * @param {Object} rules
+ * @param {string} [message] - Also count contacts missing a {{variable}} of this message
+ * @returns {Promise<{ count: number, incomplete: number, sample: Array, max: number }>}
+ */
+async function previewSegment(userId, rules, message = "") {
+  const seen = new Set();
+  const sample = [];
+  let incomplete = 0;
+
+  await forEachContactChunk(userId, rules, (contacts) => {
+    for (const contact of contacts) {
+      if (seen.has(contact.phoneNumber)) continue;
+      seen.add(contact.phoneNumber);
+
+      if (message && renderMessage(message, contactVariables(contact)).missing.length > 0) {
+        incomplete++;
+      }
+      if (sample.length < SAMPLE_SIZE) {
+        sample.push({ id: contact.id, name: contact.name, phoneNumber: contact.phoneNumber });
+      }
+    }
+  });
+
+  return { count: seen.size, incomplete, sample, max: MAX_SEGMENT_RECIPIENTS };
+}
+
+/**
+ * Expand a segment into send-text job recipients with the message rendered per contact.
+ * Contacts with an unusable number or a missing variable (in any variant) are skipped.
+ * @param {Object} options
+ * @param {string} [options.message]
+ * @param {Array<{ key: string, message: string }>} [options.variants] - A/B campaigns: used instead of message
+ * @param {Function} [options.pickVariant] - With variants: returns the { key } of the next contact's
+ *   variant; the key is kept on the recipient as variant
+ * @param {string} options.defaultCountry
+ * @returns {Promise<{ recipients: Array<{phone: string, message: string, variant?: string}>, invalid: number, incomplete: number, exceeded: boolean }>}
+ */
+async function expandSegment(userId, rules, { message, variants, pickVariant, defaultCountry }) {
+  const recipients = [];
+  const seen = new Set();
+  let invalid = 0;
+  let incomplete = 0;
+  let exceeded = false;
+
+  await forEachContactChunk(userId, rules, (contacts) => {
+    for (const contact of contacts) {
+      const phone = contactPhone(contact, defaultCountry);
+      if (!phone) {
+        invalid++;
+        continue;
+      }
+      if (seen.has(phone)) continue;
+      seen.add(phone);
+
+      const texts = renderVariants(variants || [{ key: null, message }], contactVariables(contact));
+      if (!texts) {
+        incomplete++;
+        continue;
+      }
+
+      if (recipients.length >= MAX_SEGMENT_RECIPIENTS) {
+        exceeded = true;
+        return false;
+      }
+      if (variants) {
+        const { key } = pickVariant();
+        recipients.push({ phone, message: texts.get(key), variant: key });
+      } else {
+        recipients.push({ phone, message: texts.get(null) });
+      }
+    }
+    return true;
+  });
+
+  return { recipients, invalid, incomplete, exceeded };
+}
+
+/**
+ * Create a send-text job for every contact in a segment
+ * @param {Object} options
+ * @param {number} options.userId
+ * @param {string} options.deviceId
+ * @param {Object} options.segment - AudienceSegment instance
+ * @param {string} options.message - May contain {{variables}}
+ * @param {number} [options.delay] - Seconds between messages
+ * @param {string} options.defaultCountry
+ * @returns {Promise<{ success: boolean, error?: string, job?: Object, total?: number, skipped?: Object }>}
+ */
+async function createSegmentJob({ userId, deviceId, segment, message, delay = 3, defaultCountry }) {
+  const { recipients, invalid, incomplete, exceeded } = await expandSegment(userId, segment.rules, {
+    message,
+    defaultCountry,
+  });
+
+  if (exceeded) {
+    return {
+      success: false,
+      error: `Segment "${segment.name}" matches more than ${MAX_SEGMENT_RECIPIENTS} recipients`,
+    };
+  }
+  if (recipients.length === 0) {
+    return { success: false, error: `Segment "${segment.name}" has no contacts to send to` };
+  }
+
+  const job = await jobQueueService.createJob(
+    userId,
+    deviceId,
+    "send-text",
+    {
+      delay,
+      message,
+      segmentId: segment.id,
+      segmentName: segment.name,
+      defaultCountry,
+    },
+    recipients
+  );
+
+  logger.info(
+    `🎯 Segment ${segment.id} expanded into job ${job.id}: ${recipients.length} recipients, ${invalid} invalid, ${incomplete} missing variables`
+  );
+
+  return { success: true, job, total: recipients.length, skipped: { invalid, incomplete } };
+}
+
+/**
+ * Find a segment owned by the user
+ */
+async function getSegment(userId, segmentId) {
+  return AudienceSegment.findOne({ where: { id: segmentId, userId } });
+}
+
+module.exports = {
+  CUSTOM_FIELD_OPERATORS,
+  MAX_SEGMENT_RECIPIENTS,
+  MAX_SEGMENTS_PER_USER,
+  normalizeRules,
+  renderMessage,
+  renderVariants,
+  previewSegment,
+  expandSegment,
+  createSegmentJob,
+  getSegment,
+};
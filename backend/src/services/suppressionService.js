@@ -0,0 +1,229 @@
+/**
+ * Suppression Service
+ * Per-user opt-out list. Numbers on it are never messaged: jobs mark their
+ * items as skipped, scheduled messages are cancelled and direct sends are
+ * rejected.
+ *
+ * Contacts opt out (and back in) by replying with a keyword configured per
+ * device in DeviceBotConfig. This works whether or not the bot is enabled.
+ */
+
+const { Op } = require("sequelize");
+const { Suppression, Contact, DeviceBotConfig } = require("../models");
+const { normalizePhoneNumber } = require("../utils/phoneNumber");
+const { suppression } = require("../utils/sharedConstants.json");
+const logger = require("../utils/logger");
+
+// Used for devices without a bot config
+const {
+  optOutKeywords: { defaultValue: DEFAULT_OPT_OUT_KEYWORDS },
+  optInKeywords: { defaultValue: DEFAULT_OPT_IN_KEYWORDS },
+  optOutMessage: { defaultValue: DEFAULT_OPT_OUT_MESSAGE },
+  optInMessage: { defaultValue: DEFAULT_OPT_IN_MESSAGE },
+} = DeviceBotConfig.rawAttributes;
+
+const MAX_IMPORT_NUMBERS = suppression.maxImportNumbers;
+
+const BATCH_SIZE = 500;
+
+// The whole message must be the keyword, so "don't stop" mid-conversation doesn't opt out
+const normalizeKeyword = (text) =>
+  String(text || "")
+    .toLowerCase()
+    .trim()
+    .replace(/[\s.!]+$/, "");
+
+/**
+ * Whether the number is on the user's suppression list
+ * @param {number} userId
+ * @param {string} phoneNumber - E.164 digits
+ */
+async function isSuppressed(userId, phoneNumber) {
+  const count = await Suppression.count({ where: { userId, phoneNumber } });
+  return count > 0;
+}
+
+/**
+ * Which of the given numbers are suppressed
+ * @returns {Promise<Set<string>>}
+ */
+async function findSuppressed(userId, phoneNumbers) {
+  const suppressed = new Set();
+  for (let i = 0; i < phoneNumbers.length; i += BATCH_SIZE) {
+    const rows = await Suppression.findAll({
+      where: { userId, phoneNumber: { [Op.in]: phoneNumbers.slice(i, i + BATCH_SIZE) } },
+      attributes: ["phoneNumber"],
+    });
+    rows.forEach((row) => suppressed.add(row.phoneNumber));
+  }
+  return suppressed;
+}
+
+/**
+ * Add a number to the suppression list. Consent recorded on matching
+ * contacts is cleared.
+ * @param {number} userId
+ * @param {string} phoneNumber - E.164 digits
+ * @param {Object} [details]
+ * @param {"keyword"|"manual"|"import"} [details.source]
+ * @param {string} [details.deviceId]
+ * @param {string} [details.keyword]
+ * @param {string} [details.reason]
+ * @returns {Promise<{ suppression: Object, created: boolean }>}
+ */
+async function suppress(userId, phoneNumber, { source = "manual", deviceId = null, keyword = null, reason = null } = {}) {
+  const [suppression, created] = await Suppression.findOrCreate({
+    where: { userId, phoneNumber },
+    defaults: { source, deviceId, keyword, reason },
+  });
+
+  await Contact.update({ optedInAt: null }, { where: { userId, phoneNumber } });
+
+  if (created) {
+    logger.info(`🚫 ${phoneNumber} suppressed for user ${userId} (${source})`);
+  }
+  return { suppression, created };
+}
+
+/**
+ * Remove a number from the suppression list
+ * @param {boolean} [optedIn] - The contact asked to receive messages again; record it on the contact
+ * @returns {Promise<boolean>} false if the number was not suppressed
+ */
+async function unsuppress(userId, phoneNumber, { optedIn = false } = {}) {
+  const removed = await Suppression.destroy({ where: { userId, phoneNumber } });
+
+  if (optedIn) {
+    await Contact.update({ optedInAt: new Date() }, { where: { userId, phoneNumber } });
+  }
+
+  if (removed > 0) {
+    logger.info(`✅ ${phoneNumber} removed from suppression list of user ${userId}`);
+  }
+  return removed > 0;
+}
+
+/**
+ * Suppress many numbers at once (e.g. an opt-out list from another tool)
+ * @param {number} userId
+ * @param {string[]} numbers - Raw numbers, normalized with defaultCountry
+ * @param {Object} options
+ * @param {string} [options.reason]
+ * @param {string} [options.defaultCountry]
+ * @returns {Promise<{ total: number, added: number, existing: number, invalid: string[] }>}
+ */
+async function importSuppressions(userId, numbers, { reason = null, defaultCountry } = {}) {
+  const invalid = [];
+  const unique = new Set();
+
+  for (const raw of numbers) {
+    const phoneNumber = normalizePhoneNumber(raw, defaultCountry);
+    if (phoneNumber) {
+      unique.add(phoneNumber);
+    } else {
+      invalid.push(raw);
+    }
+  }
+
+  const phoneNumbers = [...unique];
+  const alreadySuppressed = await findSuppressed(userId, phoneNumbers);
+  const toAdd = phoneNumbers.filter((phoneNumber) => !alreadySuppressed.has(phoneNumber));
+
+  for (let i = 0; i < toAdd.length; i += BATCH_SIZE) {
+    const batch = toAdd.slice(i, i + BATCH_SIZE);
+    await Suppression.bulkCreate(
+      batch.map((phoneNumber) => ({ userId, phoneNumber, source: "import", reason })),
+      { ignoreDuplicates: true }
+    );
+    await Contact.update({ optedInAt: null }, { where: { userId, phoneNumber: { [Op.in]: batch } } });
+  }
+
+  logger.info(`🚫 Suppression import for user ${userId}: ${toAdd.length} added, ${invalid.length} invalid`);
+
+  return {
+    total: numbers.length,
+    added: toAdd.length,
+    existing: alreadySuppressed.size,
+    invalid,
+  };
+}
+
+/**
+ * List a user's suppressed numbers, newest first
+ * @returns {Promise<{ rows: Array, count: number }>}
+ */
+async function listSuppressions(userId, { search, limit = 50, offset = 0 } = {}) {
+  const where = { userId };
+  if (search) {
+    where.phoneNumber = { [Op.like]: `%${search.replace(/\D/g, "")}%` };
+  }
+
+  return Suppression.findAndCountAll({
+    where,
+    order: [["created_at", "DESC"]],
+    limit,
+    offset,
+  });
+}
+
+/**
+ * Handle an incoming message that is exactly an opt-out or opt-in keyword
+ * @param {string} deviceId
+ * @param {number} userId - Owner of the device
+ * @param {string} senderJid
+ * @param {string} messageText
+ * @returns {Promise<{ action: "opted_out"|"opted_in"|null, reply: string|null }>}
+ */
+async function handleKeyword(deviceId, userId, senderJid, messageText) {
+  const none = { action: null, reply: null };
+  if (!senderJid.endsWith("@s.whatsapp.net")) return none;
+
+  const text = normalizeKeyword(messageText);
+  if (!text) return none;
+
+  try {
+    const config = await DeviceBotConfig.findOne({ where: { deviceId } });
+    const optOutKeywords = config?.optOutKeywords || DEFAULT_OPT_OUT_KEYWORDS;
+    const optInKeywords = config?.optInKeywords || DEFAULT_OPT_IN_KEYWORDS;
+    const phoneNumber = senderJid.split("@")[0];
+
+    if (optOutKeywords.some((keyword) => normalizeKeyword(keyword) === text)) {
+      await suppress(userId, phoneNumber, { source: "keyword", deviceId, keyword: text });
+      return {
+        action: "opted_out",
+        reply: config ? config.optOutMessage : DEFAULT_OPT_OUT_MESSAGE,
+      };
+    }
+
+    if (optInKeywords.some((keyword) => normalizeKeyword(keyword) === text)) {
+      // Only confirm when the sender was actually opted out; otherwise it's a normal message
+      if (!(await isSuppressed(userId, phoneNumber))) return none;
+
+      await unsuppress(userId, phoneNumber, { optedIn: true });
+      return {
+        action: "opted_in",
+        reply: config ? config.optInMessage : DEFAULT_OPT_IN_MESSAGE,
+      };
+    }
+
+    return none;
+  } catch (error) {
+    logger.error("❌ Error handling opt-out keyword:", error);
+    return none;
+  }
+}
+
+module.exports = {
+  MAX_IMPORT_NUMBERS,
+  DEFAULT_OPT_OUT_KEYWORDS,
+  DEFAULT_OPT_IN_KEYWORDS,
+  DEFAULT_OPT_OUT_MESSAGE,
+  DEFAULT_OPT_IN_MESSAGE,
+  isSuppressed,
+  findSuppressed,
+  suppress,
+  unsuppress,
+  importSuppressions,
+  listSuppressions,
+  handleKeyword,
+};
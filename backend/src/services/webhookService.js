@@ -0,0 +1,266 @@
+/**
+ * Webhook Service
+ * Delivers device events to subscribed webhook URLs.
+ *
+ * Every event becomes a WebhookDelivery row, so delivery survives restarts:
+ * the first attempt runs immediately and failures are retried by a poller
+ * with exponential backoff until MAX_ATTEMPTS is reached.
+ *
+ * Payloads are signed with HMAC-SHA256 over the raw JSON body using the
+ * webhook secret and sent in the `X-Signature-256: sha256=<hex>` header.
+ *
+ * Webhooks may only reach public addresses, and only the status code and an
+ * error code of each attempt are kept: the response body is never stored,
+ * so a webhook can't be used to read internal services.
+ */
+
+const crypto = require("crypto");
+const axios = require("axios");
+const { Op } = require("sequelize");
+const { Webhook, WebhookDelivery } = require("../models");
+const logger = require("../utils/logger");
+const {
+  BLOCKED_ADDRESS,
+  isPublicUrl,
+  publicHttpAgent,
+  publicHttpsAgent,
+} = require("../utils/publicAddress");
+
+const WEBHOOK_EVENTS = [
+  "message.received",
+  "message.status",
+  "job.progress",
+  "job.completed",
+  "device.connected",
+  "device.disconnected",
+  "handoff.started",
+  "flow.completed",
+];
+
+const MAX_ATTEMPTS = 6;
+const BASE_RETRY_DELAY_MS = 30 * 1000; // 30s, 1m, 2m, 4m, 8m
+const REQUEST_TIMEOUT_MS = 10000;
+const RETRY_POLL_INTERVAL_MS = 15 * 1000;
+const RETRY_BATCH_SIZE = 20;
+
+let retryTimer = null;
+let isPolling = false;
+
+const generateSecret = () => `whsec_${crypto.randomBytes(24).toString("hex")}`;
+
+const sign = (secret, body) =>
+  `sha256=${crypto.createHmac("sha256", secret).update(body).digest("hex")}`;
+
+const getRetryDelay = (attempts) => BASE_RETRY_DELAY_MS * 2 ** (attempts - 1);
+
+/**
+ * POST one delivery and record the outcome
+ * @param {WebhookDelivery} delivery
+ * @param {Webhook} webhook
+ */
+async function attemptDelivery(delivery, webhook) {
+  const body = JSON.stringify(delivery.payload);
+  const attempts = delivery.attempts + 1;
+  const startedAt = Date.now();
+
+  let responseStatus = null;
+  let error = null;
+
+  try {
+    // Checked again on every attempt: the URL may resolve elsewhere by now.
+    // The agents repeat the check on the address actually connected to.
+    if (!(await isPublicUrl(webhook.url))) {
+      throw Object.assign(new Error("Webhook URL is not public"), { code: BLOCKED_ADDRESS });
+    }
+
+    const response = await axios.post(webhook.url, body, {
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "WhatsApp-Service-Webhook/1.0",
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Delivery": delivery.id,
+        "X-Signature-256": sign(webhook.secret, body),
+      },
+      timeout: REQUEST_TIMEOUT_MS,
+      httpAgent: publicHttpAgent,
+      httpsAgent: publicHttpsAgent,
+      // A redirect could point anywhere; receivers must answer directly
+      maxRedirects: 0,
+      // Any status is recorded; only 2xx counts as delivered
+      validateStatus: () => true,
+      responseType: "stream",
+    });
+
+    // The body is never read
+    response.data.destroy();
+    responseStatus = response.status;
+    if (response.status < 200 || response.status >= 300) {
+      error = `HTTP ${response.status}`;
+    }
+  } catch (requestError) {
+    // Only the code: messages can describe the network behind the URL
+    error = requestError.code || "REQUEST_FAILED";
+  }
+
+  const succeeded = !error;
+  const gaveUp = !succeeded && attempts >= MAX_ATTEMPTS;
+
+  await delivery.update({
+    attempts,
+    responseStatus,
+    error,
+    durationMs: Date.now() - startedAt,
+    status: succeeded ? "success" : gaveUp ? "failed" : "pending",
+    deliveredAt: succeeded ? new Date() : null,
+    nextAttemptAt:
+      succeeded || gaveUp ? null : new Date(Date.now() + getRetryDelay(attempts)),
+  });
+
+  await webhook.update({
+    lastDeliveryAt: new Date(),
+    lastDeliveryStatus: succeeded ? "success" : "failed",
+  });
+
+  if (!succeeded) {
+    logger.warn(
+      `⚠️ Webhook ${webhook.id} delivery ${delivery.id} (${delivery.event}) failed ` +
+        `on attempt ${attempts}/${MAX_ATTEMPTS}: ${error}`
+    );
+  }
+
+  return delivery;
+}
+
+/**
+ * Queue an event for one webhook and try it straight away
+ */
+async function enqueue(webhook, event, data) {
+  const id = crypto.randomUUID();
+
+  const delivery = await WebhookDelivery.create({
+    id,
+    webhookId: webhook.id,
+    event,
+    // The delivery id is part of the payload so receivers can de-duplicate retries
+    payload: {
+      id,
+      event,
+      deviceId: webhook.deviceId,
+      timestamp: new Date().toISOString(),
+      data,
+    },
+    // Lease: the retry poller only picks this up if the first attempt never finishes
+    nextAttemptAt: new Date(Date.now() + 2 * REQUEST_TIMEOUT_MS),
+  });
+
+  return attemptDelivery(delivery, webhook);
+}
+
+/**
+ * Publish an event to every active webhook of a device subscribed to it.
+ * Never throws: webhook problems must not affect message handling.
+ * @param {string} deviceId
+ * @param {string} event - One of WEBHOOK_EVENTS
+ * @param {Object} data - Event-specific payload
+ */
+async function dispatch(deviceId, event, data) {
+  if (!deviceId || !WEBHOOK_EVENTS.includes(event)) return;
+
+  try {
+    const webhooks = await Webhook.findAll({
+      where: { deviceId, isActive: true },
+    });
+
+    const subscribed = webhooks.filter(
+      (webhook) => Array.isArray(webhook.events) && webhook.events.includes(event)
+    );
+
+    await Promise.all(
+      subscribed.map((webhook) =>
+        enqueue(webhook, event, data).catch((error) =>
+          logger.error(`❌ Failed to queue webhook ${webhook.id} (${event}):`, error)
+        )
+      )
+    );
+  } catch (error) {
+    logger.error(`❌ Webhook dispatch failed for ${event} on ${deviceId}:`, error);
+  }
+}
+
+/**
+ * Send a `test` event to one webhook regardless of its event filter
+ * @param {Webhook} webhook
+ */
+async function sendTestEvent(webhook) {
+  return enqueue(webhook, "test", {
+    message: "This is a test event from WhatsApp Service",
+  });
+}
+
+/**
+ * Re-send a previous delivery as a fresh attempt
+ * @param {WebhookDelivery} delivery
+ * @param {Webhook} webhook
+ */
+async function redeliver(delivery, webhook) {
+  await delivery.update({
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: new Date(Date.now() + 2 * REQUEST_TIMEOUT_MS),
+  });
+  return attemptDelivery(delivery, webhook);
+}
+
+/**
+ * Retry deliveries whose backoff has elapsed
+ */
+async function processDueRetries() {
+  if (isPolling) return;
+  isPolling = true;
+
+  try {
+    const due = await WebhookDelivery.findAll({
+      where: {
+        status: "pending",
+        nextAttemptAt: { [Op.lte]: new Date() },
+      },
+      include: [{ model: Webhook, as: "webhook" }],
+      order: [["nextAttemptAt", "ASC"]],
+      limit: RETRY_BATCH_SIZE,
+    });
+
+    for (const delivery of due) {
+      if (!delivery.webhook || !delivery.webhook.isActive) {
+        await delivery.update({
+          status: "failed",
+          nextAttemptAt: null,
+          error: "Webhook disabled or removed",
+        });
+        continue;
+      }
+      await attemptDelivery(delivery, delivery.webhook);
+    }
+  } catch (error) {
+    logger.error("❌ Webhook retry poll failed:", error);
+  } finally {
+    isPolling = false;
+  }
+}
+
+/**
+ * Start polling for retries
+ */
+function startRetryWorker() {
+  if (retryTimer) return;
+  retryTimer = setInterval(processDueRetries, RETRY_POLL_INTERVAL_MS);
+}
+
+module.exports = {
+  WEBHOOK_EVENTS,
+  MAX_ATTEMPTS,
+  generateSecret,
+  dispatch,
+  sendTestEvent,
+  redeliver,
+  startRetryWorker,
+};
@@ -3,14 +3,92 @@ const {
   DisconnectReason,
   useMultiFileAuthState,
   fetchLatestBaileysVersion,
+  downloadMediaMessage,
+  normalizeMessageContent,
 } = require("@whiskeysockets/baileys");
 const QRCode = require("qrcode");
 const path = require("path");
 const fs = require("fs");
 const axios = require("axios");
-const { WhatsAppSession, Message, Contact, Group } = require("../models");
+const { Op, fn, col } = require("sequelize");
+const { WhatsAppSession, Message, JobItem, Contact, Group } = require("../models");
 const logger = require("../utils/logger");
 const deviceManager = require("./deviceManager");
+const notificationService = require("./notificationService");
+const webhookService = require("./webhookService");
+const suppressionService = require("./suppressionService");
+const callPolicyService = require("./callPolicyService");
+const mediaStorageService = require("./mediaStorageService");
+
+// Baileys WAMessageStatus values -> names used in webhook payloads
+const MESSAGE_STATUS_NAMES = {
+  0: "error",
+  1: "pending",
+  2: "sent",
+  3: "delivered",
+  4: "read",
+  5: "played",
+};
+
+// Stored status a receipt may upgrade from; receipts can arrive out of order
+// and a late "delivered" must not overwrite "read"
+const RECEIPT_UPGRADES = {
+  delivered: ["pending", "sent"],
+  read: ["pending", "sent", "delivered"],
+};
+
+// Read receipts sent when a chat is marked as read; WhatsApp shows the chat
+// as read from the latest ones, older unread messages are only marked locally
+const READ_RECEIPT_LIMIT = 20;
+
+// Baileys media message keys -> stored messageType
+const MEDIA_MESSAGE_TYPES = {
+  imageMessage: "image",
+  videoMessage: "video",
+  audioMessage: "audio",
+  documentMessage: "document",
+  stickerMessage: "sticker",
+};
+
+// Text for webhooks and live updates when media has no caption
+const MEDIA_PLACEHOLDERS = {
+  image: "[Image]",
+  video: "[Video]",
+  audio: "[Audio]",
+  document: "[Document]",
+  sticker: "[Sticker]",
+};
+
+/**
+ * Type, text (message or caption), media details and the ID of the quoted
+ * message of a received message. Ephemeral, view-once and similar wrappers are unwrapped first.
+ */
+const parseMessageContent = (rawContent) => {
+  const content = normalizeMessageContent(rawContent) || {};
+  const mediaKey = Object.keys(MEDIA_MESSAGE_TYPES).find((key) => content[key]);
+
+  if (!mediaKey) {
+    return {
+      type: "text",
+      text: content.conversation || content.extendedTextMessage?.text || null,
+      media: null,
+      quotedMessageId: content.extendedTextMessage?.contextInfo?.stanzaId || null,
+    };
+  }
+
+  const mediaMessage = content[mediaKey];
+  return {
+    type: MEDIA_MESSAGE_TYPES[mediaKey],
+    text: mediaMessage.caption || null,
+    quotedMessageId: mediaMessage.contextInfo?.stanzaId || null,
+    media: {
+      mimetype: mediaMessage.mimetype || null,
+      fileName: mediaMessage.fileName || null,
+      size: mediaMessage.fileLength ? Number(mediaMessage.fileLength) : null,
+      seconds: mediaMessage.seconds || null,
+    },
+  };
+};
 
 class WhatsAppService {
   constructor() {
@@ -615,6 +693,54 @@ class WhatsAppService {
       }
     });
 
+    // Delivery / read receipts for messages sent from this device
+    socket.ev.on("messages.update", (updates) => {
+      for (const { key, update } of updates) {
+        if (!key?.fromMe || update?.status === undefined) continue;
+
+        const status = MESSAGE_STATUS_NAMES[update.status] || String(update.status);
+
+        webhookService.dispatch(deviceId, "message.status", {
+          messageId: key.id,
+          to: key.remoteJid?.split("@")[0],
+          status,
+          timestamp: new Date().toISOString(),
+        });
+
+        // Voice notes report "played" after "read"; both count as read
+        const storedStatus = status === "played" ? "read" : status;
+        if (RECEIPT_UPGRADES[storedStatus]) {
+          this.storeReceipt(deviceId, userId, key.id, key.remoteJid?.split("@")[0], storedStatus)
+            .catch((error) =>
+              logger.error(`❌ Failed to store receipt for message ${key.id}:`, error)
+            );
+        }
+      }
+    });
+
+    // Group messages get a receipt per participant; the first one moves the
+    // message forward, later ones are ignored by storeReceipt
+    socket.ev.on("message-receipt.update", (updates) => {
+      for (const { key, receipt } of updates) {
+        if (!key?.fromMe || !receipt) continue;
+
+        const readTimestamp = receipt.readTimestamp || receipt.playedTimestamp;
+        const seconds = readTimestamp || receipt.receiptTimestamp;
+        if (!seconds) continue;
+
+        this.storeReceipt(
+          deviceId,
+          userId,
+          key.id,
+          key.remoteJid?.split("@")[0],
+          readTimestamp ? "read" : "delivered",
+          new Date(Number(seconds) * 1000)
+        ).catch((error) =>
+          logger.error(`❌ Failed to store receipt for message ${key.id}:`, error)
+        );
+      }
+    });
+
     // Contacts events
     socket.ev.on("contacts.upsert", async (contacts) => {
       try {
@@ -687,11 +813,19 @@ class WhatsAppService {
         }
     });
 
-    // Connection errors
-    socket.ev.on("CB:call", (data) => {
-      logger.debug(`📞 Call event for device ${deviceId}:`, data);
+    // Incoming calls: reject them or log the ones nobody picked up
+    socket.ev.on("call", async (calls) => {
+      for (const call of calls) {
+        logger.debug(`📞 Call ${call.status} for device ${deviceId} from ${call.from}`);
+        try {
+          await this.handleCallForDevice(deviceId, call);
+        } catch (error) {
+          logger.error(`❌ Failed to handle call ${call.id} for device ${deviceId}:`, error);
+        }
+      }
     });
 
+    // Connection errors
     if (socket.ws) {
       socket.ws.on("error", (error) => {
         logger.error(`❌ WebSocket error for device ${deviceId}:`, error);
@@ -699,6 +833,42 @@ class WhatsAppService {
     }
   }
 
+  /**
+   * Store a delivered/read receipt of an outgoing message on the message and
+   * its job item, then push it to the owner's open chat views. Receipts can
+   * arrive out of order, so only upgrades are applied; a read receipt also
+   * fills in a missing delivery time.
+   */
+  async storeReceipt(deviceId, userId, messageId, to, status, at = new Date()) {
+    const timestamps =
+      status === "read"
+        ? { readAt: at, deliveredAt: fn("COALESCE", col("delivered_at"), at) }
+        : { deliveredAt: at };
+
+    const [updated] = await Message.update(
+      { status, ...timestamps },
+      {
+        where: {
+          messageId,
+          direction: "outgoing",
+          status: { [Op.in]: RECEIPT_UPGRADES[status] },
+        },
+      }
+    );
+
+    await JobItem.update(timestamps, {
+      where: { messageId, [status === "read" ? "readAt" : "deliveredAt"]: null },
+    });
+
+    if (updated > 0) {
+      this.sendSSEUpdate(userId, {
+        type: "message-status",
+        data: { deviceId, messageId, to, status, at: at.toISOString() },
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
   /**
    * LEGACY METHOD - Maintained for backward compatibility
    */
@@ -796,6 +966,9 @@ class WhatsAppService {
         return;
       }
 
+      // Only the first QR of a pairing attempt is worth a notification
+      const wasAwaitingQr = sessionState.status === "qr_required";
+
       // Update session state first
       sessionState.qrCode = qrCodeData;
       sessionState.status = "qr_required";
@@ -815,6 +988,11 @@ class WhatsAppService {
         logger.info(
           `📡 QR Code sent via SSE to user ${userId} for device ${deviceId}`
         );
+
+        if (!wasAwaitingQr) {
+          this.notifyDeviceEvent(userId, deviceId, "qr_required",
+            "Scan the QR code to link this device.");
+        }
       }
 
       // Update database via DeviceManager with error handling
@@ -1027,8 +1205,13 @@ class WhatsAppService {
         logger.info(
           `📡 SSE update sent to user ${userId} for device ${deviceId}`
         );
+
+        this.notifyDeviceEvent(userId, deviceId, "device_connected",
+          `Connected as ${phoneNumber || "unknown number"}.`);
       }
 
+      webhookService.dispatch(deviceId, "device.connected", { phoneNumber });
+
       // Update database via DeviceManager with error handling
       try {
         await deviceManager.updateDeviceStatus(deviceId, {
@@ -1133,8 +1316,25 @@ class WhatsAppService {
           data: { status: "disconnected", reason: disconnectReason },
           timestamp: new Date().toISOString(),
         });
+
+        // Skip when the user disconnected the device themselves
+        if (!sessionState.disconnectRequested) {
+          if (shouldReconnect) {
+            this.notifyDeviceEvent(userId, deviceId, "device_disconnected",
+              `The connection was lost and could not be restored (reason: ${disconnectReason ?? "unknown"}).`);
+          } else {
+            this.notifyDeviceEvent(userId, deviceId, "session_expired",
+              "WhatsApp logged this device out. Scan a new QR code to link it again.");
+          }
+        }
       }
 
+      webhookService.dispatch(deviceId, "device.disconnected", {
+        reason: disconnectReason ?? null,
+        loggedOut: !shouldReconnect,
+        requestedByUser: !!sessionState.disconnectRequested,
+      });
+
       await deviceManager.updateDeviceStatus(deviceId, {
         status: "disconnected",
         isActive: false,
@@ -1157,16 +1357,13 @@ class WhatsAppService {
 
       const remoteJid = message.key.remoteJid;
       const fromMe = message.key.fromMe;
-      const messageContent =
-        message.message?.conversation ||
-        message.message?.extendedTextMessage?.text ||
-        message.message?.imageMessage?.caption ||
-        (message.message?.imageMessage ? "[Image]" : null) ||
-        (message.message?.videoMessage ? "[Video]" : null) ||
-        (message.message?.documentMessage ? "[Document]" : null) ||
-        (message.message?.audioMessage ? "[Audio]" : null) ||
-        (message.message?.stickerMessage ? "[Sticker]" : null) ||
-        "[Media]";
+      const {
+        type: messageType,
+        text: messageText,
+        media,
+        quotedMessageId,
+      } = parseMessageContent(message.message);
+      const messageContent = messageText || MEDIA_PLACEHOLDERS[messageType] || "[Media]";
 
       const userId = sessionState.userId;
       if (!userId) return;
@@ -1177,22 +1374,38 @@ class WhatsAppService {
       // Filter out status updates (stories)
       if (remoteJid === "status@broadcast") return;
 
+      // Media of new incoming messages is downloaded in the background once
+      // the message is saved; history and our own messages just record the
+      // details
+      let mediaStatus = null;
+      if (media) {
+        if (fromMe || isHistory) mediaStatus = "not_downloaded";
+        else if (media.size && media.size > mediaStorageService.MAX_MEDIA_SIZE) mediaStatus = "too_large";
+        else mediaStatus = "downloading";
+      }
+
       // Save message to database
+      let savedMessage = null;
       try {
-        await Message.create({
+        savedMessage = await Message.create({
           userId,
           sessionId: sessionId,
           messageId: message.key.id,
           fromNumber: fromMe ? sessionState.phoneNumber : remoteJid.split("@")[0],
           toNumber: fromMe ? remoteJid.split("@")[0] : sessionState.phoneNumber,
-          messageType: "text", // TODO: Detect type better
-          content: messageContent,
+          messageType,
+          content: media ? messageText : messageContent,
+          mediaUrl: null,
           direction: fromMe ? "outgoing" : "incoming",
           status: "delivered",
           timestamp: new Date(message.messageTimestamp * 1000),
           metadata: {
             key: message.key,
             pushName: message.pushName,
+            ...(quotedMessageId && { quotedMessageId }),
+            ...(media && {
+              media: { ...media, status: mediaStatus, storageKey: null },
+            }),
           },
         });
       } catch (dbError) {
@@ -1202,10 +1415,30 @@ class WhatsAppService {
         }
       }
 
+      // ========== OPT-OUT KEYWORD HOOK ==========
+      // STOP / BERHENTI etc. update the suppression list even when the bot is disabled.
+      // A handled keyword is not passed on to the auto-reply bot.
+      let optOutHandled = false;
+      if (!fromMe && !isHistory && messageText) {
+        const keywordResult = await suppressionService.handleKeyword(deviceId, userId, remoteJid, messageText);
+        if (keywordResult.action) {
+          optOutHandled = true;
+          const socket = this.sessions.get(deviceId);
+          if (keywordResult.reply && socket && sessionState?.status === "connected") {
+            try {
+              await socket.sendMessage(remoteJid, { text: keywordResult.reply });
+            } catch (sendError) {
+              logger.error(`❌ Failed to send opt-out confirmation:`, sendError);
+            }
+          }
+        }
+      }
+      // ========== END OPT-OUT KEYWORD HOOK ==========
+
       // ========== AUTO-REPLY BOT HOOK ==========
       // Process incoming messages for auto-reply (after save, before SSE)
-      // Only for: incoming messages (!fromMe), real-time (!isHistory), text content
-      if (!fromMe && !isHistory && messageContent && messageContent !== "[Media]") {
+      // Only for: incoming messages (!fromMe), real-time (!isHistory), text or caption
+      if (!fromMe && !isHistory && !optOutHandled && messageText) {
         try {
           const autoReplyService = require("./autoReplyService");
           
@@ -1226,7 +1459,7 @@ class WhatsAppService {
           await autoReplyService.processIncoming(
             deviceId,
             remoteJid,
-            messageContent,
+            messageText,
             message.key.id,
             sendBotReply
           );
@@ -1237,18 +1470,46 @@ class WhatsAppService {
       }
       // ========== END AUTO-REPLY BOT HOOK ==========
 
+      if (!fromMe && !isHistory) {
+        webhookService.dispatch(deviceId, "message.received", {
+          messageId: message.key.id,
+          from: remoteJid.split("@")[0],
+          chatJid: remoteJid,
+          isGroup: remoteJid.endsWith("@g.us"),
+          pushName: message.pushName || null,
+          messageType,
+          content: messageContent,
+          timestamp: new Date(message.messageTimestamp * 1000).toISOString(),
+        });
+      }
+
       // Send to SSE clients ONLY if NOT history
       if (!isHistory) {
         this.sendSSEUpdate(userId, {
           type: "new-message",
           data: {
+            deviceId,
+            messageId: message.key.id,
+            chatJid: remoteJid,
+            fromMe: !!fromMe,
             from: fromMe ? "me" : remoteJid,
             message: messageContent,
+            text: messageText,
+            messageType,
+            mediaUrl: null,
+            media: media ? { ...media, url: null, status: mediaStatus } : null,
+            quotedMessageId,
             timestamp: new Date(message.messageTimestamp * 1000).toISOString(),
           },
           timestamp: new Date().toISOString(),
         });
       }
+
+      // Not awaited: a slow download must not hold up the next message.
+      // Duplicates (savedMessage null) were already handled the first time.
+      if (savedMessage && mediaStatus === "downloading") {
+        this.storeIncomingMedia(deviceId, savedMessage, message, media);
+      }
     } catch (error) {
       logger.error(
         `Error handling incoming message for device ${deviceId}:`,
@@ -1257,6 +1518,69 @@ class WhatsAppService {
     }
   }
 
+  /**
+   * Download the media of a saved incoming message, store it and update the
+   * message. Clients get a "message-media" SSE event with the outcome.
+   * Never throws; failures are recorded as the media status.
+   * @param {string} deviceId
+   * @param {Object} savedMessage - Message row, media status "downloading"
+   * @param {Object} message - Baileys message
+   * @param {Object} media - Media details from parseMessageContent
+   */
+  async storeIncomingMedia(deviceId, savedMessage, message, media) {
+    let result;
+    try {
+      const socket = this.sessions.get(deviceId);
+      // Media links expire; the socket asks the sender's phone to upload it again
+      const stream = await downloadMediaMessage(
+        message,
+        "stream",
+        {},
+        socket ? { logger: socket.logger, reuploadRequest: socket.updateMediaMessage } : undefined
+      );
+      const stored = await mediaStorageService.saveIncomingMedia(
+        deviceId,
+        message.key.id,
+        stream,
+        media.mimetype
+      );
+      result = { status: "stored", ...stored };
+    } catch (error) {
+      if (error.code === mediaStorageService.MEDIA_TOO_LARGE) {
+        result = { status: "too_large" };
+      } else {
+        logger.warn(
+          `⚠️ Failed to store media of message ${message.key.id} for device ${deviceId}: ${error.message}`
+        );
+        result = { status: "failed" };
+      }
+    }
+
+    try {
+      await savedMessage.update({
+        mediaUrl: result.url || null,
+        metadata: {
+          ...savedMessage.metadata,
+          media: { ...media, status: result.status, storageKey: result.storageKey || null },
+        },
+      });
+    } catch (error) {
+      logger.error(`❌ Failed to record media of message ${message.key.id}:`, error);
+      return;
+    }
+
+    this.sendSSEUpdate(savedMessage.userId, {
+      type: "message-media",
+      data: {
+        deviceId,
+        messageId: message.key.id,
+        chatJid: message.key.remoteJid,
+        media: { ...media, url: result.url || null, status: result.status },
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+
   async handleConnectionOpen(userId, socket, sessionState) {
     logger.info(`✅ WhatsApp connected for user ${userId}`);
 
@@ -1343,8 +1667,9 @@ class WhatsAppService {
 
   /**
    * Send message using deviceId
+   * @param {Object} options - quotedMessageId: reply to a stored message of this device
    */
-  async sendMessageForDevice(deviceId, phoneNumber, message, type = "text") {
+  async sendMessageForDevice(deviceId, phoneNumber, message, type = "text", options = {}) {
     try {
       const socket = this.sessions.get(deviceId);
       if (!socket) {
@@ -1356,12 +1681,19 @@ class WhatsAppService {
         throw new Error("WhatsApp not connected");
       }
 
+      if (await suppressionService.isSuppressed(sessionState.userId, phoneNumber)) {
+        throw new Error("Recipient has opted out");
+      }
+
       const jid = `${phoneNumber}@s.whatsapp.net`;
+      const quoted = options.quotedMessageId
+        ? await this.findQuotedMessage(deviceId, options.quotedMessageId)
+        : undefined;
 
       let sentMessage;
       switch (type) {
         case "text":
-          sentMessage = await socket.sendMessage(jid, { text: message });
+          sentMessage = await socket.sendMessage(jid, { text: message }, { quoted });
           break;
         default:
           throw new Error("Unsupported message type");
@@ -1380,7 +1712,10 @@ class WhatsAppService {
         direction: "outgoing",
         status: "sent",
         timestamp: new Date(),
-        metadata: { key: sentMessage.key },
+        metadata: {
+          key: sentMessage.key,
+          ...(quoted && { quotedMessageId: options.quotedMessageId }),
+        },
       });
 
       return sentMessage;
@@ -1399,6 +1734,7 @@ class WhatsAppService {
    * @param {string} caption - Caption (optional)
    * @param {string} fileName - File name (optional, for documents)
    * @param {string} mimetype - MIME type (optional)
+   * @param {Object} options - quotedMessageId: reply to a stored message of this device
    * @returns {Promise} Sent message object
    */
   async sendMediaForDevice(
@@ -1408,7 +1744,8 @@ class WhatsAppService {
     mediaData,
     caption = null,
     fileName = null,
-    mimetype = null
+    mimetype = null,
+    options = {}
   ) {
     try {
       const socket = this.sessions.get(deviceId);
@@ -1421,6 +1758,10 @@ class WhatsAppService {
         throw new Error("WhatsApp not connected");
       }
 
+      if (await suppressionService.isSuppressed(sessionState.userId, phoneNumber)) {
+        throw new Error("Recipient has opted out");
+      }
+
       const jid = `${phoneNumber}@s.whatsapp.net`;
       let mediaBuffer;
 
@@ -1489,8 +1830,12 @@ class WhatsAppService {
           throw new Error(`Unsupported media type: ${mediaType}`);
       }
 
+      const quoted = options.quotedMessageId
+        ? await this.findQuotedMessage(deviceId, options.quotedMessageId)
+        : undefined;
+
       // Send message
-      const sentMessage = await socket.sendMessage(jid, messageContent);
+      const sentMessage = await socket.sendMessage(jid, messageContent, { quoted });
 
       // Save to database
       const sessionId = await this.getSessionIdFromDBForDevice(deviceId);
@@ -1509,6 +1854,7 @@ class WhatsAppService {
           key: sentMessage.key,
           fileName: fileName,
           mimetype: mimetype,
+          ...(quoted && { quotedMessageId: options.quotedMessageId }),
         },
       });
 
@@ -1523,6 +1869,79 @@ class WhatsAppService {
     }
   }
 
+  /**
+   * Stored message of this device in the shape Baileys expects for `quoted`
+   */
+  async findQuotedMessage(deviceId, messageId) {
+    const sessionId = await this.getSessionIdFromDBForDevice(deviceId);
+    const stored = await Message.findOne({ where: { sessionId, messageId } });
+    if (!stored?.metadata?.key) {
+      throw new Error("Quoted message not found");
+    }
+
+    return {
+      key: stored.metadata.key,
+      message: {
+        conversation: stored.content || MEDIA_PLACEHOLDERS[stored.messageType] || "",
+      },
+    };
+  }
+
+  /**
+   * Mark the unread incoming messages of a chat as read, on the phone too.
+   * Read receipts go out for the latest READ_RECEIPT_LIMIT messages only;
+   * older ones are just marked in the database.
+   * @param {string} deviceId - Device ID
+   * @param {string} phoneNumber - Phone number of the chat (normalized)
+   * @returns {Promise<number>} Number of messages marked as read
+   */
+  async markChatReadForDevice(deviceId, phoneNumber) {
+    const socket = this.sessions.get(deviceId);
+    if (!socket) {
+      throw new Error("WhatsApp session not found for device");
+    }
+
+    const sessionState = this.sessionStates.get(deviceId);
+    if (sessionState?.status !== "connected") {
+      throw new Error("WhatsApp not connected");
+    }
+
+    const sessionId = await this.getSessionIdFromDBForDevice(deviceId);
+    const where = {
+      sessionId,
+      direction: "incoming",
+      fromNumber: phoneNumber,
+      status: { [Op.ne]: "read" },
+    };
+    const latest = await Message.findAll({
+      where,
+      order: [["timestamp", "DESC"]],
+      limit: READ_RECEIPT_LIMIT,
+      attributes: ["timestamp", "metadata"],
+    });
+    if (latest.length === 0) return 0;
+
+    const keys = latest.map((msg) => msg.metadata?.key).filter(Boolean);
+    if (keys.length > 0) {
+      await socket.readMessages(keys);
+    }
+
+    // Messages that arrive meanwhile stay unread
+    const [count] = await Message.update(
+      { status: "read", readAt: new Date() },
+      { where: { ...where, timestamp: { [Op.lte]: latest[0].timestamp } } }
+    );
+
+    // Other open inboxes of the user clear their unread counter
+    this.sendSSEUpdate(sessionState.userId, {
+      type: "chat-read",
+      data: { deviceId, chatJid: `${phoneNumber}@s.whatsapp.net`, count },
+      timestamp: new Date().toISOString(),
+    });
+
+    return count;
+  }
+
 
 
   /**
@@ -2263,6 +2682,11 @@ class WhatsAppService {
    */
   async disconnectSessionForDevice(deviceId) {
     try {
+      const sessionState = this.sessionStates.get(deviceId);
+      if (sessionState) {
+        sessionState.disconnectRequested = true;
+      }
+
       const socket = this.sessions.get(deviceId);
       if (socket) {
         try {
@@ -2522,6 +2946,117 @@ class WhatsAppService {
     }
   }
 
+  /**
+   * Apply the device's call policy to a call update. Rejected and unanswered
+   * calls are stored in the chat history, logged and notified; a rejected
+   * caller can get a text reply.
+   * @param {string} deviceId
+   * @param {Object} call - Baileys call update
+   */
+  async handleCallForDevice(deviceId, call) {
+    const { action, reply } = await callPolicyService.handleCall(deviceId, call);
+    if (!action) return;
+
+    const sessionState = this.sessionStates.get(deviceId);
+    const userId = sessionState?.userId;
+    if (!userId) return;
+
+    // The session can close while the policy is looked up
+    const socket = this.sessions.get(deviceId);
+    if (!socket) return;
+
+    const rejected = action === "reject";
+    if (rejected) {
+      await socket.rejectCall(call.id, call.from);
+      logger.info(`📵 Rejected call ${call.id} for device ${deviceId} from ${call.from}`);
+    }
+
+    const description = callPolicyService.describeCall(call, rejected);
+    const callerNumber = call.from.split("@")[0];
+    const timestamp = call.date ? new Date(call.date) : new Date();
+
+    try {
+      await Message.create({
+        userId,
+        sessionId: await this.getSessionIdFromDBForDevice(deviceId),
+        messageId: call.id,
+        fromNumber: callerNumber,
+        toNumber: sessionState.phoneNumber,
+        messageType: "call",
+        content: description,
+        direction: "incoming",
+        status: "delivered",
+        timestamp,
+        metadata: {
+          call: { id: call.id, isVideo: !!call.isVideo, rejected },
+        },
+      });
+    } catch (dbError) {
+      if (dbError.name !== "SequelizeUniqueConstraintError") {
+        logger.error(`❌ Failed to store call ${call.id}:`, dbError);
+      }
+    }
+
+    // Opted-out callers get nothing, the reply included
+    let sentReply = null;
+    if (reply && sessionState.status === "connected") {
+      try {
+        if (await suppressionService.isSuppressed(userId, callerNumber)) {
+          logger.info(`🚫 Not replying to call from opted-out ${callerNumber}`);
+        } else {
+          await socket.sendMessage(call.from, { text: reply });
+          sentReply = reply;
+        }
+      } catch (sendError) {
+        logger.error(`❌ Failed to send call reply:`, sendError);
+      }
+    }
+
+    await callPolicyService.logCall(deviceId, call.from, rejected, description, sentReply);
+
+    this.sendSSEUpdate(userId, {
+      type: "new-message",
+      data: {
+        deviceId,
+        messageId: call.id,
+        chatJid: call.from,
+        fromMe: false,
+        from: call.from,
+        message: description,
+        text: description,
+        messageType: "call",
+        mediaUrl: null,
+        media: null,
+        quotedMessageId: null,
+        timestamp: timestamp.toISOString(),
+      },
+      timestamp: new Date().toISOString(),
+    });
+
+    this.notifyDeviceEvent(
+      userId,
+      deviceId,
+      "missed_call",
+      `${description} from ${callerNumber}${sentReply ? ". The caller was asked to chat instead." : "."}`
+    );
+  }
+
+  /**
+   * Send a device notification on the user's preferred channels
+   */
+  notifyDeviceEvent(userId, deviceId, type, body) {
+    deviceManager
+      .getDevice(deviceId)
+      .catch(() => null)
+      .then((device) =>
+        notificationService.notify(userId, type, {
+          body,
+          deviceId,
+          deviceName: device?.deviceName,
+        })
+      );
+  }
+
   sendSSEUpdate(userId, data) {
     const connections = this.sseConnections.get(userId);
     logger.info(`📡 Attempting to send SSE update to user ${userId}:`, {
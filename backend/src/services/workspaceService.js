@@ -0,0 +1,319 @@
+/**
+ * Workspace Service
+ * A workspace is a user's account: their devices plus the users who joined
+ * as members. The owner and the members are the workspace's agents and
+ * share its handoffs (see handoffService).
+ *
+ * Members are invited by email and join when they accept. Until then the
+ * owner only sees the email they typed, whether or not an account uses it.
+ *
+ * Members do not get the owner's whole inbox: they read and answer only the
+ * chats with an unresolved handoff, the conversations of the shared queue,
+ * and cannot send bulk messages (see getChatAccess).
+ */
+
+const { Op } = require("sequelize");
+const { User, WhatsAppSession, WorkspaceMember, Handoff } = require("../models");
+const notificationService = require("./notificationService");
+const logger = require("../utils/logger");
+
+const MAX_MEMBERS = 20;
+
+const AGENT_ATTRIBUTES = ["id", "username", "fullName", "email"];
+
+const formatAgent = (user, role) => ({
+  id: user.id,
+  username: user.username,
+  fullName: user.fullName || null,
+  email: user.email,
+  role,
+});
+
+/**
+ * Members of a user's workspace, oldest first
+ * @param {number} ownerId
+ */
+async function listMembers(ownerId) {
+  const members = await WorkspaceMember.findAll({
+    where: { ownerId, status: "active" },
+    include: [{ model: User, as: "member", attributes: AGENT_ATTRIBUTES }],
+    order: [["createdAt", "ASC"]],
+  });
+
+  return members
+    .filter((membership) => membership.member)
+    .map((membership) => ({
+      ...formatAgent(membership.member, "member"),
+      addedAt: membership.createdAt,
+    }));
+}
+
+const formatInvitation = (invitation) => ({
+  id: invitation.id,
+  email: invitation.email,
+  invitedAt: invitation.createdAt,
+});
+
+/**
+ * Pending invitations of a user's workspace, oldest first
+ * @param {number} ownerId
+ */
+async function listInvitations(ownerId) {
+  const invitations = await WorkspaceMember.findAll({
+    where: { ownerId, status: "pending" },
+    order: [["createdAt", "ASC"]],
+  });
+  return invitations.map(formatInvitation);
+}
+
+/**
+ * Invite a user to the workspace by email. The result is the same whether
+ * or not an account uses the email; a matching user is notified.
+ * @param {{id: number, email: string, username: string, fullName?: string}} owner
+ * @param {string} email
+ */
+async function inviteMember(owner, email) {
+  const address = email.trim();
+  if (address.toLowerCase() === owner.email.toLowerCase()) {
+    throw new Error("You cannot invite yourself to your own workspace");
+  }
+
+  const count = await WorkspaceMember.count({ where: { ownerId: owner.id } });
+  if (count >= MAX_MEMBERS) {
+    throw new Error(`A workspace can have at most ${MAX_MEMBERS} members`);
+  }
+
+  const existing = await WorkspaceMember.findOne({
+    where: { ownerId: owner.id, email: address },
+    attributes: ["id"],
+  });
+  if (existing) {
+    throw new Error("This email has already been invited");
+  }
+
+  const invitation = await WorkspaceMember.create({
+    ownerId: owner.id,
+    email: address,
+    status: "pending",
+  });
+
+  const invitee = await User.findOne({
+    where: { email: address, deletedAt: null, isActive: true, role: "user" },
+    attributes: ["id"],
+  });
+  if (invitee) {
+    notificationService.notify(invitee.id, "workspace_invitation", {
+      body: `${owner.fullName || owner.username} invited you to work on their devices. Accept or decline under Profile → Team Members.`,
+      metadata: { invitationId: invitation.id },
+    });
+  }
+
+  return formatInvitation(invitation);
+}
+
+/**
+ * Withdraw a pending invitation
+ * @returns {Promise<boolean>} false when there was no such invitation
+ */
+async function cancelInvitation(ownerId, invitationId) {
+  const removed = await WorkspaceMember.destroy({
+    where: { id: invitationId, ownerId, status: "pending" },
+  });
+  return removed > 0;
+}
+
+/**
+ * Pending invitations sent to a user's email address
+ * @param {{id: number, email: string, role: string}} user
+ */
+async function listReceivedInvitations(user) {
+  if (user.role !== "user") return [];
+
+  const invitations = await WorkspaceMember.findAll({
+    where: { email: user.email, status: "pending", ownerId: { [Op.ne]: user.id } },
+    include: [{ model: User, as: "owner", attributes: ["username", "fullName"] }],
+    order: [["createdAt", "ASC"]],
+  });
+
+  return invitations
+    .filter((invitation) => invitation.owner)
+    .map((invitation) => ({
+      id: invitation.id,
+      owner: {
+        username: invitation.owner.username,
+        fullName: invitation.owner.fullName || null,
+      },
+      invitedAt: invitation.createdAt,
+    }));
+}
+
+/**
+ * Accept an invitation sent to the user's email address and join the workspace
+ * @param {{id: number, email: string, role: string}} user
+ * @returns {Promise<boolean>} false when there was no such invitation
+ */
+async function acceptInvitation(user, invitationId) {
+  const invitation = await WorkspaceMember.findOne({
+    where: { id: invitationId, email: user.email, status: "pending" },
+  });
+  if (!invitation) return false;
+
+  if (user.role !== "user") {
+    throw new Error("Only user accounts can join a workspace");
+  }
+  if (invitation.ownerId === user.id) {
+    throw new Error("You cannot join your own workspace");
+  }
+
+  try {
+    await invitation.update({ memberId: user.id, status: "active" });
+  } catch (error) {
+    // Already a member (e.g. invited again under a changed email address)
+    if (error.name !== "SequelizeUniqueConstraintError") throw error;
+    await invitation.destroy();
+  }
+
+  logger.info(`👥 User ${user.id} joined the workspace of user ${invitation.ownerId}`);
+  return true;
+}
+
+/**
+ * Decline an invitation sent to the user's email address
+ * @returns {Promise<boolean>} false when there was no such invitation
+ */
+async function declineInvitation(user, invitationId) {
+  const removed = await WorkspaceMember.destroy({
+    where: { id: invitationId, email: user.email, status: "pending" },
+  });
+  return removed > 0;
+}
+
+/**
+ * Remove a member; their unresolved handoffs go back to the unassigned queue
+ * @returns {Promise<boolean>} false when the user was not a member
+ */
+async function removeMember(ownerId, memberId) {
+  const removed = await WorkspaceMember.destroy({
+    where: { ownerId, memberId, status: "active" },
+  });
+  if (removed === 0) return false;
+
+  const devices = await WhatsAppSession.findAll({
+    where: { userId: ownerId },
+    attributes: ["deviceId"],
+  });
+  await Handoff.update(
+    { assignedTo: null, assignedBy: null, assignedAt: null },
+    {
+      where: {
+        deviceId: { [Op.in]: devices.map((device) => device.deviceId) },
+        assignedTo: memberId,
+        status: { [Op.ne]: "resolved" },
+      },
+    }
+  );
+
+  return true;
+}
+
+/**
+ * Whether a user works in the owner's workspace (the owner does too)
+ */
+async function isAgent(ownerId, userId) {
+  if (ownerId === userId) return true;
+  const membership = await WorkspaceMember.findOne({
+    where: { ownerId, memberId: userId, status: "active" },
+    attributes: ["id"],
+  });
+  return !!membership;
+}
+
+/**
+ * How much of a device's chats a user may read and answer: "all" for the
+ * owner and admins, "handoffs" for members (chats with an unresolved
+ * handoff only), null for everyone else
+ * @param {{id: number, role: string}} user
+ * @param {{userId: number}} device
+ * @returns {Promise<"all"|"handoffs"|null>}
+ */
+async function getChatAccess(user, device) {
+  if (user.role === "admin" || device.userId === user.id) return "all";
+  return (await isAgent(device.userId, user.id)) ? "handoffs" : null;
+}
+
+/**
+ * Phone numbers of a device's chats with an unresolved handoff
+ * @param {string} deviceId
+ * @returns {Promise<Set<string>>}
+ */
+async function getHandoffNumbers(deviceId) {
+  const handoffs = await Handoff.findAll({
+    where: { deviceId, status: { [Op.ne]: "resolved" } },
+    attributes: ["senderJid"],
+  });
+  return new Set(handoffs.map((handoff) => handoff.senderJid.split("@")[0]));
+}
+
+/**
+ * Whether a user may read and answer one chat of a device
+ * @param {{id: number, role: string}} user
+ * @param {{deviceId: string, userId: number}} device
+ * @param {string} phoneNumber - Number part of the chat's JID
+ */
+async function canAccessChat(user, device, phoneNumber) {
+  const access = await getChatAccess(user, device);
+  if (access !== "handoffs") return access === "all";
+  return (await getHandoffNumbers(device.deviceId)).has(phoneNumber);
+}
+
+/**
+ * Owner and members of a workspace, the agents handoffs can be assigned to
+ * @param {number} ownerId
+ */
+async function listAgents(ownerId) {
+  const owner = await User.findByPk(ownerId, { attributes: AGENT_ATTRIBUTES });
+  const members = await listMembers(ownerId);
+  return [...(owner ? [formatAgent(owner, "owner")] : []), ...members];
+}
+
+/**
+ * Devices a user works on: their own and those of the workspaces they are
+ * a member of. Admins work on every device.
+ * @param {{id: number, role: string}} user
+ * @returns {Promise<Array<{deviceId: string, deviceName: string}>>}
+ */
+async function getAgentDevices(user) {
+  const where = { deviceId: { [Op.ne]: null } };
+
+  if (user.role !== "admin") {
+    const memberships = await WorkspaceMember.findAll({
+      where: { memberId: user.id, status: "active" },
+      attributes: ["ownerId"],
+    });
+    where.userId = { [Op.in]: [user.id, ...memberships.map((m) => m.ownerId)] };
+  }
+
+  return WhatsAppSession.findAll({
+    where,
+    attributes: ["deviceId", "deviceName"],
+    raw: true,
+  });
+}
+
+module.exports = {
+  MAX_MEMBERS,
+  listMembers,
+  listInvitations,
+  inviteMember,
+  cancelInvitation,
+  listReceivedInvitations,
+  acceptInvitation,
+  declineInvitation,
+  removeMember,
+  isAgent,
+  getChatAccess,
+  getHandoffNumbers,
+  canAccessChat,
+  listAgents,
+  getAgentDevices,
+};
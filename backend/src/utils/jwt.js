@@ -1,5 +1,22 @@
+const crypto = require("crypto");
 const jwt = require("jsonwebtoken");
 
+/**
+ * Secrets accepted for verification: the current JWT_SECRET first, then any
+ * comma-separated JWT_PREVIOUS_SECRETS kept alive during key rotation.
+ * Tokens are always signed with the current secret.
+ */
+const getVerificationSecrets = () => {
+  const secrets = [
+    process.env.JWT_SECRET,
+    ...(process.env.JWT_PREVIOUS_SECRETS || "").split(","),
+  ]
+    .map((secret) => (secret || "").trim())
+    .filter(Boolean);
+
+  return [...new Set(secrets)];
+};
+
 const generateToken = (payload) => {
   return jwt.sign(payload, process.env.JWT_SECRET, {
     expiresIn: process.env.JWT_EXPIRES_IN || "15m", // Shorter access token
@@ -7,7 +24,22 @@ const generateToken = (payload) => {
 };
 
 const verifyToken = (token) => {
-  return jwt.verify(token, process.env.JWT_SECRET);
+  const secrets = getVerificationSecrets();
+  let lastError;
+
+  for (const secret of secrets) {
+    try {
+      return jwt.verify(token, secret, { algorithms: ["HS256"] });
+    } catch (error) {
+      // Only a signature mismatch is worth retrying with an older secret
+      if (error.name !== "JsonWebTokenError" || error.message !== "invalid signature") {
+        throw error;
+      }
+      lastError = error;
+    }
+  }
+
+  throw lastError || new jwt.JsonWebTokenError("secret or public key must be provided");
 };
 
 const generateRefreshToken = (payload) => {
@@ -16,8 +48,33 @@ const generateRefreshToken = (payload) => {
   });
 };
 
+/**
+ * Short-lived token proving the password step of a 2FA login succeeded.
+ * Carries a `purpose` claim so it can never be used as an access token, and
+ * a unique `jti` so failed code attempts can be counted per challenge.
+ */
+const TWO_FACTOR_CHALLENGE_PURPOSE = "2fa_challenge";
+
+const generateTwoFactorChallengeToken = (userId) => {
+  return jwt.sign(
+    { userId, purpose: TWO_FACTOR_CHALLENGE_PURPOSE },
+    process.env.JWT_SECRET,
+    { expiresIn: "5m", jwtid: crypto.randomUUID() }
+  );
+};
+
+const verifyTwoFactorChallengeToken = (token) => {
+  const decoded = verifyToken(token);
+  if (decoded.purpose !== TWO_FACTOR_CHALLENGE_PURPOSE) {
+    throw new jwt.JsonWebTokenError("invalid token purpose");
+  }
+  return decoded;
+};
+
 module.exports = {
   generateToken,
   verifyToken,
   generateRefreshToken,
+  generateTwoFactorChallengeToken,
+  verifyTwoFactorChallengeToken,
 };
@@ -0,0 +1,136 @@
+/**
+ * Public Address Utilities
+ * Keeps outbound requests to user-supplied URLs (webhooks) away from the
+ * server's own network: loopback, private ranges, link-local (including
+ * cloud metadata at 169.254.169.254) and other non-routable addresses.
+ *
+ * URLs are checked when they are saved, and every connection re-checks the
+ * address it actually resolves to, so a hostname that later points inside
+ * the network (DNS rebinding) is refused too.
+ */
+
+const dns = require("dns");
+const http = require("http");
+const https = require("https");
+const net = require("net");
+
+const BLOCKED_ADDRESS = "EADDRBLOCKED";
+
+const blockList = new net.BlockList();
+
+// IPv4: "this" network, private, carrier-grade NAT, loopback, link-local,
+// IETF protocol assignments, benchmarking, multicast and reserved
+[
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+].forEach(([network, prefix]) => blockList.addSubnet(network, prefix, "ipv4"));
+
+// IPv6: unspecified, loopback, NAT64, unique local, link-local and multicast
+[
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+].forEach(([network, prefix]) => blockList.addSubnet(network, prefix, "ipv6"));
+
+/**
+ * IPv4 address embedded in an IPv4-mapped IPv6 address (::ffff:a.b.c.d)
+ * @returns {string|null}
+ */
+const mappedIPv4 = (address) => {
+  const match = /^::ffff:(?:0:)?([0-9a-f.:]+)$/i.exec(address);
+  if (!match) return null;
+  if (net.isIPv4(match[1])) return match[1];
+
+  const groups = match[1].split(":");
+  if (groups.length !== 2) return null;
+  const value = (parseInt(groups[0], 16) << 16) | parseInt(groups[1], 16);
+  return [24, 16, 8, 0].map((shift) => (value >>> shift) & 255).join(".");
+};
+
+/**
+ * Whether an IP address is publicly routable
+ * @param {string} address
+ */
+function isPublicAddress(address) {
+  const family = net.isIP(address);
+  if (family === 4) return !blockList.check(address, "ipv4");
+  if (family !== 6) return false;
+
+  const ipv4 = mappedIPv4(address);
+  if (ipv4) return isPublicAddress(ipv4);
+  return !blockList.check(address, "ipv6");
+}
+
+const blockedError = (hostname, address) => {
+  const error = new Error(`${hostname} resolves to a non-public address (${address})`);
+  error.code = BLOCKED_ADDRESS;
+  return error;
+};
+
+/**
+ * dns.lookup drop-in that fails for non-public addresses. Used as the
+ * socket lookup so the check applies to the address actually connected to.
+ */
+function publicLookup(hostname, options, callback) {
+  if (typeof options === "function") {
+    callback = options;
+    options = {};
+  }
+
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) return callback(error);
+
+    const addresses = Array.isArray(address) ? address : [{ address, family }];
+    const blocked = addresses.find((entry) => !isPublicAddress(entry.address));
+    if (blocked) return callback(blockedError(hostname, blocked.address));
+
+    callback(null, address, family);
+  });
+}
+
+/**
+ * Check that a URL only points to public addresses (every A/AAAA record)
+ * @param {string} url
+ * @returns {Promise<boolean>}
+ */
+async function isPublicUrl(url) {
+  let hostname;
+  try {
+    hostname = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  } catch {
+    return false;
+  }
+
+  if (net.isIP(hostname)) return isPublicAddress(hostname);
+
+  try {
+    const addresses = await dns.promises.lookup(hostname, { all: true });
+    return addresses.length > 0 && addresses.every((entry) => isPublicAddress(entry.address));
+  } catch {
+    return false;
+  }
+}
+
+// Agents for axios (httpAgent / httpsAgent) that refuse non-public addresses
+const publicHttpAgent = new http.Agent({ lookup: publicLookup });
+const publicHttpsAgent = new https.Agent({ lookup: publicLookup });
+
+module.exports = {
+  BLOCKED_ADDRESS,
+  isPublicAddress,
+  isPublicUrl,
+  publicHttpAgent,
+  publicHttpsAgent,
+};
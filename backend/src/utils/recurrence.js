@@ -0,0 +1,222 @@
+/**
+ * Recurrence Utilities
+ * Repeat rules for scheduled messages and timezone-correct occurrence times.
+ *
+ * A rule is { freq, interval, byWeekday, monthDay, until, count }:
+ * - freq: "daily" | "weekly" | "monthly"
+ * - interval: every N days/weeks/months (default 1)
+ * - byWeekday: weekly only, 0 (Sunday) - 6 (Saturday); defaults to the weekday of the first run
+ * - monthDay: monthly only, 1-31 (default: day of the first run); shorter
+ *   months use their last day instead
+ * - until / count: optional end of the series, as an ISO time or a number of occurrences
+ *
+ * Occurrences keep the wall-clock time of the first run in the series
+ * timezone, so a 09:00 message stays at 09:00 across DST changes. A time
+ * that does not exist on a spring-forward day moves forward by the gap;
+ * an ambiguous time on a fall-back day uses the first instance.
+ */
+
+const { scheduledMessages } = require("./sharedConstants.json");
+
+const RECURRENCE_FREQUENCIES = ["daily", "weekly", "monthly"];
+const MAX_RECURRENCE_INTERVAL = scheduledMessages.maxRecurrenceInterval;
+const MAX_RECURRENCE_COUNT = scheduledMessages.maxRecurrenceCount;
+
+// Upper bound on periods walked for one lookup, so a bad rule cannot loop forever
+const MAX_PERIODS = 20000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map();
+
+/**
+ * Cached 24-hour formatter for a timezone (throws RangeError for unknown zones)
+ */
+function getFormatter(timeZone) {
+  if (!formatters.has(timeZone)) {
+    formatters.set(
+      timeZone,
+      new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+        hour: "numeric",
+        minute: "numeric",
+        second: "numeric",
+      })
+    );
+  }
+  return formatters.get(timeZone);
+}
+
+/**
+ * Check an IANA timezone name (e.g. 'Asia/Jakarta')
+ * @param {string} timeZone
+ * @returns {boolean}
+ */
+function isValidTimezone(timeZone) {
+  if (!timeZone || typeof timeZone !== "string") return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock date and time of an instant in a timezone
+ * @returns {{ year: number, month: number, day: number, hour: number, minute: number, second: number }}
+ */
+function getZonedParts(date, timeZone) {
+  const parts = {};
+  for (const { type, value } of getFormatter(timeZone).formatToParts(date)) {
+    parts[type] = parseInt(value, 10);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * UTC offset of a timezone at an instant, in milliseconds (east of UTC is positive)
+ */
+function getOffsetMs(time, timeZone) {
+  const wholeSeconds = Math.floor(time / 1000) * 1000;
+  const p = getZonedParts(new Date(wholeSeconds), timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - wholeSeconds;
+}
+
+/**
+ * Instant at which a wall-clock time occurs in a timezone.
+ * Gap (spring forward): shifted forward by the gap. Overlap (fall back): first instance.
+ * @returns {Date}
+ */
+function zonedTimeToUtc({ year, month, day, hour, minute }, timeZone) {
+  const wallTime = Date.UTC(year, month - 1, day, hour, minute);
+  // Zones change offset at most once within a day either side of any wall time
+  const offsetBefore = getOffsetMs(wallTime - DAY_MS, timeZone);
+  const offsetAfter = getOffsetMs(wallTime + DAY_MS, timeZone);
+
+  const matches = [offsetBefore, offsetAfter]
+    .map((offset) => ({ time: wallTime - offset, offset }))
+    .filter(({ time, offset }) => getOffsetMs(time, timeZone) === offset)
+    .map(({ time }) => time);
+
+  if (matches.length === 0) {
+    // The wall time falls in a gap: reading it with the old offset lands after the gap
+    return new Date(wallTime - offsetBefore);
+  }
+  return new Date(Math.min(...matches));
+}
+
+// Calendar dates as days since 1970-01-01, independent of any timezone
+const toDayNumber = (year, month, day) => Date.UTC(year, month - 1, day) / DAY_MS;
+
+function fromDayNumber(dayNumber) {
+  const date = new Date(dayNumber * DAY_MS);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+// 0 = Sunday; 1970-01-01 was a Thursday
+const weekdayOf = (dayNumber) => (((dayNumber + 4) % 7) + 7) % 7;
+
+const daysInMonth = (year, month) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+/**
+ * Calendar days of one period of the rule, in order
+ */
+function getPeriodDays(rule, anchor, startDay, period) {
+  const interval = rule.interval || 1;
+
+  if (rule.freq === "daily") {
+    return [startDay + period * interval];
+  }
+
+  if (rule.freq === "weekly") {
+    const weekdays = rule.byWeekday && rule.byWeekday.length > 0 ? rule.byWeekday : [weekdayOf(startDay)];
+    const weekStart = startDay - weekdayOf(startDay) + period * interval * 7;
+    return [...new Set(weekdays)].sort((a, b) => a - b).map((weekday) => weekStart + weekday);
+  }
+
+  // monthly
+  const monthIndex = anchor.year * 12 + (anchor.month - 1) + period * interval;
+  const year = Math.floor(monthIndex / 12);
+  const month = (monthIndex % 12) + 1;
+  const day = Math.min(rule.monthDay || anchor.day, daysInMonth(year, month));
+  return [toDayNumber(year, month, day)];
+}
+
+/**
+ * Walk the occurrences of a series in order
+ * @param {object} rule - Recurrence rule (see top of file)
+ * @param {Date} start - Requested time of the first run; anchors the time of day and intervals
+ * @param {string} timeZone - IANA timezone the wall-clock time is kept in
+ * @yields {Date}
+ */
+function* iterateOccurrences(rule, start, timeZone) {
+  const startTime = new Date(start).getTime();
+  const anchor = getZonedParts(new Date(startTime), timeZone);
+  const startDay = toDayNumber(anchor.year, anchor.month, anchor.day);
+  const until = rule.until ? new Date(rule.until).getTime() : null;
+  let emitted = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const dayNumber of getPeriodDays(rule, anchor, startDay, period)) {
+      if (dayNumber < startDay) continue;
+
+      // The first day keeps the exact requested instant (seconds, second instance of an overlap)
+      const time =
+        dayNumber === startDay
+          ? startTime
+          : zonedTimeToUtc({ ...fromDayNumber(dayNumber), hour: anchor.hour, minute: anchor.minute }, timeZone).getTime();
+
+      if (until !== null && time > until) return;
+      yield new Date(time);
+
+      emitted++;
+      if (rule.count && emitted >= rule.count) return;
+    }
+  }
+}
+
+/**
+ * Occurrences of a series at or after `from`
+ * @param {object} rule
+ * @param {Date} start
+ * @param {string} timeZone
+ * @param {object} [options]
+ * @param {Date} [options.from] - Earliest occurrence to return (default: start)
+ * @param {number} [options.limit] - Max occurrences (default 10)
+ * @returns {Date[]}
+ */
+function getOccurrences(rule, start, timeZone, { from = null, limit = 10 } = {}) {
+  const fromTime = from ? new Date(from).getTime() : null;
+  const occurrences = [];
+  if (limit <= 0) return occurrences;
+
+  for (const time of iterateOccurrences(rule, start, timeZone)) {
+    if (fromTime !== null && time.getTime() < fromTime) continue;
+    occurrences.push(time);
+    if (occurrences.length >= limit) break;
+  }
+  return occurrences;
+}
+
+module.exports = {
+  RECURRENCE_FREQUENCIES,
+  MAX_RECURRENCE_INTERVAL,
+  MAX_RECURRENCE_COUNT,
+  isValidTimezone,
+  getZonedParts,
+  zonedTimeToUtc,
+  iterateOccurrences,
+  getOccurrences,
+};
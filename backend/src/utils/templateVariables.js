@@ -0,0 +1,56 @@
+/**
+ * Template Variables
+ *
+ * Rendering of {{variable}} placeholders for templates, segment jobs and
+ * campaigns. frontend/lib/templateVariables.ts renders previews the same
+ * way; scripts/check-shared-constants.js runs template-variable-cases.json
+ * against both so they cannot drift apart.
+ */
+
+const { templateVariables } = require("./sharedConstants.json");
+
+const MAX_VALUE_LENGTH = templateVariables.maxValueLength;
+
+// Fresh RegExp per call: the pattern is global and keeps lastIndex
+const variablePattern = () => new RegExp(templateVariables.pattern, "g");
+
+/**
+ * Variable names used in content, in order of first appearance
+ * @param {string} content
+ * @returns {string[]}
+ */
+function extractTemplateVariables(content) {
+  const names = [];
+  for (const match of content.matchAll(variablePattern())) {
+    if (!names.includes(match[1])) {
+      names.push(match[1]);
+    }
+  }
+  return names;
+}
+
+/**
+ * Render content with values. Placeholders without a (non-empty) value are
+ * left as-is and reported in `missing`.
+ * @param {string} content
+ * @param {Object<string, *>} values
+ * @returns {{ text: string, missing: string[] }}
+ */
+function renderTemplate(content, values) {
+  const missing = [];
+  const text = content.replace(variablePattern(), (placeholder, name) => {
+    const value = values[name];
+    if (value === undefined || value === null || String(value).trim() === "") {
+      if (!missing.includes(name)) missing.push(name);
+      return placeholder;
+    }
+    return String(value).replace(/<[^>]*>/g, "").slice(0, MAX_VALUE_LENGTH);
+  });
+  return { text, missing };
+}
+
+module.exports = {
+  MAX_VALUE_LENGTH,
+  extractTemplateVariables,
+  renderTemplate,
+};
@@ -1,49 +1,49 @@
+const fs = require("fs");
 const Joi = require("joi");
+const { WEBHOOK_EVENTS } = require("../services/webhookService");
+const { API_KEY_SCOPES } = require("../services/apiKeyService");
+const { CUSTOM_FIELD_OPERATORS } = require("../services/segmentService");
+const { MAX_IMPORT_NUMBERS } = require("../services/suppressionService");
+const { MAX_VARIANTS, MAX_CAMPAIGN_NUMBERS } = require("../services/campaignService");
+const {
+  MISSED_RUN_POLICIES,
+  SCHEDULED_MEDIA_TYPES,
+  MAX_MENTIONS,
+} = require("../services/scheduledMessageService");
+const {
+  RECURRENCE_FREQUENCIES,
+  MAX_RECURRENCE_INTERVAL,
+  MAX_RECURRENCE_COUNT,
+} = require("./recurrence");
+const {
+  COUNTRY_CODES,
+  parsePhoneNumber,
+  normalizePhoneNumber,
+  formatPhoneNumber,
+  resolveDefaultCountry,
+} = require("./phoneNumber");
+const { contacts } = require("./sharedConstants.json");
 
 /**
- * Normalize phone number sesuai dokumentasi
- * Format yang didukung: +62, 62, atau 0 diikuti 8-13 digit
+ * Validate phone number format
  * @param {string} phone - Phone number
- * @returns {string|null} Normalized phone number dengan format 62xxxxxxxxx (untuk WhatsApp JID) atau null jika invalid
+ * @param {string} [defaultCountry] - Country for numbers without calling code (default ID)
+ * @returns {boolean} True if valid
  */
-function normalizePhoneNumber(phone) {
-  if (!phone || typeof phone !== "string") {
-    return null;
-  }
-
-  // Remove all non-digit characters except +
-  let cleaned = phone.trim();
-
-  // Handle +62 format
-  if (cleaned.startsWith("+62")) {
-    cleaned = cleaned.substring(3); // Remove +62
-  } else if (cleaned.startsWith("62")) {
-    cleaned = cleaned.substring(2); // Remove 62
-  } else if (cleaned.startsWith("0")) {
-    cleaned = cleaned.substring(1); // Remove leading 0
-  }
-
-  // Remove all non-digit characters
-  cleaned = cleaned.replace(/\D/g, "");
-
-  // Validate: should be 8-13 digits after normalization (local number)
-  if (cleaned.length < 8 || cleaned.length > 13) {
-    return null;
-  }
-
-  // Return dengan 62 prefix untuk format WhatsApp JID yang benar
-  // WhatsApp JID format: 62xxxxxxxxx@s.whatsapp.net
-  return "62" + cleaned;
+function validatePhoneNumber(phone, defaultCountry) {
+  return normalizePhoneNumber(phone, defaultCountry) !== null;
 }
 
 /**
- * Validate phone number format sesuai dokumentasi
- * @param {string} phone - Phone number
- * @returns {boolean} True if valid
+ * Clean contact tags: at most 10, trimmed to 30 chars, letters/digits/space/dash only
+ * @param {Array} tags
+ * @returns {string[]}
  */
-function validatePhoneNumber(phone) {
-  const normalized = normalizePhoneNumber(phone);
-  return normalized !== null;
+function sanitizeContactTags(tags) {
+  return tags
+    .slice(0, 10)
+    .map((t) => String(t).trim().slice(0, 30))
+    .filter((t) => t.length > 0 && /^[\w\s-]+$/.test(t));
 }
 
 // User validation schemas
@@ -60,6 +60,59 @@ const loginSchema = Joi.object({
   password: Joi.string().required(),
 });
 
+// Notification preference schema
+const notificationChannelsSchema = Joi.object({
+  inApp: Joi.boolean(),
+  email: Joi.boolean(),
+  webhook: Joi.boolean(),
+});
+
+const notificationPreferencesSchema = Joi.object({
+  channels: Joi.object().pattern(Joi.string(), notificationChannelsSchema),
+  email: Joi.string().email().max(100).allow("", null),
+  webhookUrl: Joi.string()
+    .uri({ scheme: ["http", "https"] })
+    .max(500)
+    .allow("", null),
+  webhookSecret: Joi.string().max(128).allow("", null),
+});
+
+// Outbound webhook schemas (per device)
+const webhookFields = {
+  url: Joi.string().uri({ scheme: ["http", "https"] }).max(500),
+  events: Joi.array()
+    .items(Joi.string().valid(...WEBHOOK_EVENTS))
+    .min(1)
+    .unique(),
+  description: Joi.string().max(255).allow("", null),
+  isActive: Joi.boolean(),
+};
+
+const createWebhookSchema = Joi.object({
+  ...webhookFields,
+  url: webhookFields.url.required(),
+  events: webhookFields.events.required(),
+});
+
+const updateWebhookSchema = Joi.object(webhookFields).min(1);
+
+// Personal API keys
+const createApiKeySchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required(),
+  scopes: Joi.array()
+    .items(Joi.string().valid(...API_KEY_SCOPES))
+    .min(1)
+    .unique()
+    .required(),
+  deviceIds: Joi.array().items(Joi.string().max(100)).max(50).allow(null),
+  expiresAt: Joi.date().greater("now").allow(null),
+});
+
+// Workspace members
+const addWorkspaceMemberSchema = Joi.object({
+  email: Joi.string().email().required(),
+});
+
 // WhatsApp validation schemas
 const sendMessageSchema = Joi.object({
   phone: Joi.string()
@@ -67,6 +120,7 @@ const sendMessageSchema = Joi.object({
     .required(),
   message: Joi.string().min(1).max(1000).required(),
   type: Joi.string().valid("text", "image", "document").default("text"),
+  quotedMessageId: Joi.string().max(100),
 });
 
 const bulkMessageSchema = Joi.object({
@@ -79,6 +133,149 @@ const bulkMessageSchema = Joi.object({
   type: Joi.string().valid("text", "image", "document").default("text"),
 });
 
+// Contact validation schemas
+const MAX_IMPORT_CONTACTS = contacts.maxImportContacts;
+
+const importContactsSchema = Joi.object({
+  deviceId: Joi.string().max(100).optional(),
+  // Tags added to every imported contact
+  tags: Joi.array().items(Joi.string().max(30)).max(10).default([]),
+  contacts: Joi.array()
+    .items(
+      Joi.object({
+        phoneNumber: Joi.string().max(40).required(),
+        name: Joi.string().max(100).allow("").optional(),
+        email: Joi.string().email().max(100).allow("").optional(),
+        tags: Joi.array().items(Joi.string().max(30)).max(10).optional(),
+        notes: Joi.string().max(1000).allow("").optional(),
+        customFields: Joi.object()
+          .pattern(/^[A-Za-z0-9_]{1,30}$/, Joi.string().max(255).allow(""))
+          .max(20)
+          .optional(),
+      })
+    )
+    .min(1)
+    .max(MAX_IMPORT_CONTACTS)
+    .required(),
+});
+
+// Audience segment schemas
+const segmentTags = Joi.array().items(Joi.string().max(30)).max(10).default([]);
+
+const segmentRulesSchema = Joi.object({
+  includeTags: segmentTags,
+  includeMatch: Joi.string().valid("any", "all").default("any"),
+  excludeTags: segmentTags,
+  deviceId: Joi.string().max(100).allow(null),
+  lastMessageWithinDays: Joi.number().integer().min(1).max(3650).allow(null),
+  lastMessageOlderThanDays: Joi.number().integer().min(1).max(3650).allow(null),
+  customFields: Joi.array()
+    .items(
+      Joi.object({
+        key: Joi.string().pattern(/^[A-Za-z0-9_]{1,30}$/).required(),
+        operator: Joi.string()
+          .valid(...CUSTOM_FIELD_OPERATORS)
+          .required(),
+        value: Joi.string().max(255).allow("").default(""),
+      })
+    )
+    .max(10)
+    .default([]),
+});
+
+const segmentSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required(),
+  description: Joi.string().max(255).allow("", null),
+  rules: segmentRulesSchema.required(),
+});
+
+const previewSegmentSchema = Joi.object({
+  rules: segmentRulesSchema.required(),
+  // Optional message to count contacts missing one of its {{variables}}
+  message: Joi.string().max(4096).allow(""),
+});
+
+// Suppression (opt-out) list schemas
+const addSuppressionSchema = Joi.object({
+  phoneNumber: Joi.string().max(40).required(),
+  reason: Joi.string().max(255).allow("", null),
+});
+
+const importSuppressionsSchema = Joi.object({
+  numbers: Joi.array().items(Joi.string().max(40)).min(1).max(MAX_IMPORT_NUMBERS).required(),
+  reason: Joi.string().max(255).allow("", null),
+});
+
+// Campaign schemas
+const createCampaignSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required(),
+  // One message, or 2-4 variants for an A/B test (A, B, C, D in order)
+  variants: Joi.array().items(Joi.string().trim().min(1).max(4096)).min(1).max(MAX_VARIANTS).required(),
+  segmentId: Joi.number().integer(),
+  numbers: Joi.array().items(Joi.string().max(40)).min(1).max(MAX_CAMPAIGN_NUMBERS),
+  delay: Joi.number().integer().min(1).max(60),
+}).xor("segmentId", "numbers");
+
+// Scheduled message schemas
+const recurrenceSchema = Joi.object({
+  freq: Joi.string()
+    .valid(...RECURRENCE_FREQUENCIES)
+    .required(),
+  interval: Joi.number().integer().min(1).max(MAX_RECURRENCE_INTERVAL),
+  // 0 = Sunday ... 6 = Saturday
+  byWeekday: Joi.array()
+    .items(Joi.number().integer().min(0).max(6))
+    .min(1)
+    .max(7)
+    .unique()
+    .when("freq", { not: "weekly", then: Joi.forbidden() }),
+  monthDay: Joi.number()
+    .integer()
+    .min(1)
+    .max(31)
+    .when("freq", { not: "monthly", then: Joi.forbidden() }),
+  until: Joi.date().iso().allow(null),
+  count: Joi.number().integer().min(1).max(MAX_RECURRENCE_COUNT).allow(null),
+}).oxor("until", "count");
+
+// Structured fields are checked here; the controller validates the target and times
+const scheduleMessageSchema = Joi.object({
+  recurrence: recurrenceSchema.allow(null),
+  missedRunPolicy: Joi.string().valid(...MISSED_RUN_POLICIES),
+  groupId: Joi.string().pattern(/@g\.us$/).max(100),
+  mentions: Joi.array().items(Joi.string().max(100)).min(1).max(MAX_MENTIONS).allow(null),
+  mediaType: Joi.string().valid(...SCHEDULED_MEDIA_TYPES),
+})
+  .oxor("to", "segmentId", "groupId")
+  .unknown(true);
+
+const previewOccurrencesSchema = Joi.object({
+  scheduleTime: Joi.date().iso().required(),
+  timezone: Joi.string().max(50).required(),
+  recurrence: recurrenceSchema.required(),
+});
+
+const updateOccurrenceSchema = Joi.object({
+  skip: Joi.boolean().valid(true),
+  message: Joi.string().trim().min(1).max(4096),
+  scheduleTime: Joi.date().iso(),
+})
+  .without("skip", ["message", "scheduleTime"])
+  .or("skip", "message", "scheduleTime");
+
+// version is the one the client loaded; the edit is refused when the message changed since
+const updateScheduledMessageSchema = Joi.object({
+  version: Joi.number().integer().min(0).required(),
+  message: Joi.string().trim().max(4096).allow(""),
+  scheduleTime: Joi.date().iso(),
+  timezone: Joi.string().max(50),
+  to: Joi.string().max(40),
+  groupId: Joi.string().pattern(/@g\.us$/).max(100),
+  segmentId: Joi.number().integer().positive(),
+})
+  .or("message", "scheduleTime", "timezone", "to", "groupId", "segmentId")
+  .oxor("to", "groupId", "segmentId");
+
 // Device validation schemas
 const createDeviceSchema = Joi.object({
   deviceId: Joi.string()
@@ -95,11 +292,20 @@ const createDeviceSchema = Joi.object({
   userId: Joi.number().integer().optional(), // Optional, untuk admin create device untuk user lain
 });
 
+const updateDeviceSettingsSchema = Joi.object({
+  // null = ikuti negara default milik user
+  defaultCountry: Joi.string().valid(...COUNTRY_CODES).allow(null).required(),
+});
+
 // Validation middleware
 const validate = (schema) => {
   return (req, res, next) => {
     const { error } = schema.validate(req.body);
     if (error) {
+      // A rejected request must not leave its upload behind
+      if (req.file) {
+        fs.unlink(req.file.path, () => {});
+      }
       const { errorResponse } = require("./responseHelper");
       const { response, statusCode } = errorResponse(
         "Validasi error",
@@ -114,13 +320,33 @@ const validate = (schema) => {
 
 module.exports = {
   validate,
+  parsePhoneNumber,
   normalizePhoneNumber,
   validatePhoneNumber,
+  sanitizeContactTags,
+  formatPhoneNumber,
+  resolveDefaultCountry,
   schemas: {
     registerSchema,
     loginSchema,
     sendMessageSchema,
     bulkMessageSchema,
     createDeviceSchema,
+    updateDeviceSettingsSchema,
+    importContactsSchema,
+    segmentSchema,
+    previewSegmentSchema,
+    addSuppressionSchema,
+    importSuppressionsSchema,
+    createCampaignSchema,
+    scheduleMessageSchema,
+    previewOccurrencesSchema,
+    updateOccurrenceSchema,
+    updateScheduledMessageSchema,
+    notificationPreferencesSchema,
+    createWebhookSchema,
+    updateWebhookSchema,
+    createApiKeySchema,
+    addWorkspaceMemberSchema,
   },
 };
@@ -0,0 +1,146 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useAppDispatch, useAppSelector } from '@/hooks/useAppDispatch';
+import { fetchFlows, fetchRules, createFlow, updateFlow, deleteFlow } from '@/store/slices/botSlice';
+import AdminLayout from '@/components/layout/AdminLayout';
+import Button from '@/components/ui/Button';
+import FlowEditor from '@/components/bot/FlowEditor';
+import AutoReplyPreview from '@/components/bot/AutoReplyPreview';
+import { BotFlow, BotFlowInput } from '@/lib/botFlows';
+import { useToast } from '@/context/ToastContext';
+
+export default function AdminDeviceFlowsPage() {
+  const params = useParams();
+  const router = useRouter();
+  const dispatch = useAppDispatch();
+  const deviceId = decodeURIComponent(params?.deviceId as string);
+  const { addToast } = useToast();
+
+  const { flows, rules, loading } = useAppSelector((state) => state.bot);
+  // null: list, 'new': new flow, otherwise the flow being edited
+  const [editing, setEditing] = useState<BotFlow | 'new' | null>(null);
+
+  useEffect(() => {
+    if (deviceId) {
+      dispatch(fetchFlows(deviceId));
+      dispatch(fetchRules(deviceId));
+    }
+  }, [dispatch, deviceId]);
+
+  const handleSave = async (flow: BotFlowInput) => {
+    if (editing && editing !== 'new') {
+      await dispatch(updateFlow({ deviceId, flowId: editing.id, flow })).unwrap();
+      addToast('Flow updated successfully', 'success');
+    } else {
+      await dispatch(createFlow({ deviceId, flow })).unwrap();
+      addToast('Flow created successfully', 'success');
+    }
+    setEditing(null);
+  };
+
+  const handleToggle = async (flow: BotFlow) => {
+    try {
+      await dispatch(updateFlow({ deviceId, flowId: flow.id, flow: { isActive: !flow.isActive } })).unwrap();
+    } catch (error) {
+      addToast((error as string) || 'Failed to update flow', 'error');
+    }
+  };
+
+  const handleDelete = async (flow: BotFlow) => {
+    if (!confirm(`Delete the flow "${flow.name}"? Conversations in this flow are reset.`)) return;
+    try {
+      await dispatch(deleteFlow({ deviceId, flowId: flow.id })).unwrap();
+      addToast('Flow deleted successfully', 'success');
+    } catch (error) {
+      addToast((error as string) || 'Failed to delete flow', 'error');
+    }
+  };
+
+  return (
+    <AdminLayout>
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex items-center gap-4 border-b border-border pb-4">
+          <Button variant="ghost" onClick={() => (editing ? setEditing(null) : router.back())}>
+            ← Back
+          </Button>
+          <div className="flex-1">
+             <h1 className="text-2xl font-bold text-text-primary">
+               {editing === 'new' ? 'New Flow' : editing ? `Edit Flow: ${editing.name}` : 'Conversation Flows'}
+             </h1>
+             <p className="text-text-muted text-sm">Device: {deviceId}</p>
+          </div>
+          {!editing && (
+            <Button variant="primary" onClick={() => setEditing('new')}>
+              + New Flow
+            </Button>
+          )}
+        </div>
+
+        {editing ? (
+          <FlowEditor
+            key={editing === 'new' ? 'new' : editing.id}
+            deviceId={deviceId}
+            initialFlow={editing === 'new' ? null : editing}
+            onSave={handleSave}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <div className="grid grid-cols-1 xl:grid-cols-[minmax(0,1fr)_360px] gap-6">
+            <div className="space-y-3">
+              {loading.flows && flows.length === 0 ? (
+                <div className="p-8 text-center bg-surface animate-pulse rounded-lg">Loading flows...</div>
+              ) : flows.length === 0 ? (
+                <div className="p-8 text-center bg-surface rounded-lg border border-border text-text-muted">
+                  <p className="font-medium">No flows yet.</p>
+                  <p className="text-sm">
+                    Flows are conversations of several steps, e.g. a menu (&quot;reply 1 for pricing&quot;) or a form
+                    that asks for a name and order number.
+                  </p>
+                </div>
+              ) : (
+                flows.map((flow) => (
+                  <div
+                    key={flow.id}
+                    className={`border border-border rounded-lg p-4 bg-surface flex flex-wrap items-center gap-4 ${
+                      !flow.isActive ? 'opacity-60' : ''
+                    }`}
+                  >
+                    <div className="flex-1 min-w-[200px]">
+                      <div className="flex items-center gap-2">
+                        <span className="font-bold text-text-primary">{flow.name}</span>
+                        {!flow.isActive && (
+                          <span className="text-[10px] uppercase font-bold text-text-muted border border-border px-1 rounded">
+                            Inactive
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs text-text-muted mt-1">
+                        {flow.matchType} <code className="font-mono text-text-secondary">{flow.trigger}</code> ·{' '}
+                        {flow.steps.length} steps · resets after {flow.timeoutMinutes} min · priority {flow.priority}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button variant="ghost" size="sm" onClick={() => handleToggle(flow)}>
+                        {flow.isActive ? 'Disable' : 'Enable'}
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setEditing(flow)}>
+                        Edit
+                      </Button>
+                      <Button variant="danger" size="sm" onClick={() => handleDelete(flow)}>
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <AutoReplyPreview rules={rules} isLoading={loading.rules} deviceId={deviceId} />
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,36 @@
+'use client';
+
+import React from 'react';
+import { useRouter } from 'next/navigation';
+import AdminLayout from '@/components/layout/AdminLayout';
+import DeviceSelector from '@/components/bot/DeviceSelector';
+
+export default function AdminFlowsIndexPage() {
+  const router = useRouter();
+
+  return (
+    <AdminLayout>
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="border-b border-border pb-4">
+           <h1 className="text-2xl font-bold text-text-primary">Select Device to Manage Conversation Flows</h1>
+           <p className="text-text-muted">Choose a device from the list below to build its menus and forms.</p>
+        </div>
+        
+        <div className="bg-surface rounded-lg border border-border p-6 min-h-[300px]">
+           <div className="mb-6 flex items-center justify-center p-8 bg-surface-ground rounded border-2 border-dashed border-border">
+              <div className="text-center">
+                 <div className="text-4xl mb-2">📱</div>
+                 <h3 className="font-bold text-text-muted">No Device Selected</h3>
+                 <p className="text-sm text-text-secondary">Please select a device to view and edit its flows.</p>
+              </div>
+           </div>
+
+           <h3 className="font-bold text-text-primary mb-4">Available Devices</h3>
+           <DeviceSelector 
+             onSelect={(deviceId) => router.push(`/admin/bot/flows/${deviceId}`)}
+           />
+        </div>
+      </div>
+    </AdminLayout>
+  );
+}
@@ -16,6 +16,8 @@ interface Handoff {
   handoffAt: string;
   reason: string;
   lastActivity: string;
+  status: 'open' | 'pending_customer';
+  assignee: { id: number; name: string } | null;
 }
 
 interface DeviceHandoffs {
@@ -135,6 +137,14 @@ export default function AdminHandoffsPage() {
                                   <span className="text-text-muted w-20">Time:</span>
                                   <span>{new Date(handoff.handoffAt).toLocaleTimeString()}</span>
                                 </div>
+                                <div className="flex gap-2">
+                                  <span className="text-text-muted w-20">Status:</span>
+                                  <span>{handoff.status === 'pending_customer' ? 'Pending customer' : 'Open'}</span>
+                                </div>
+                                <div className="flex gap-2">
+                                  <span className="text-text-muted w-20">Agent:</span>
+                                  <span>{handoff.assignee?.name || 'Unassigned'}</span>
+                                </div>
                               </div>
                            </div>
                            <div className="flex flex-col gap-2">
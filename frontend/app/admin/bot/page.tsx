@@ -134,6 +134,9 @@ export default function AdminBotOverviewPage() {
               <p className="text-text-muted">Manage auto-replies, handoffs, and business hours across all devices.</p>
            </div>
            <div className="flex gap-2">
+             <Button variant="outline" onClick={() => router.push('/admin/bot/flows')}>
+               Conversation Flows
+             </Button>
              <Button variant="outline" onClick={() => router.push('/admin/bot/handoffs')}>
                View Active Handoffs
              </Button>
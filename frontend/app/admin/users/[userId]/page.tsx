@@ -11,7 +11,18 @@ import Badge from '@/components/ui/Badge';
 import DeleteUserModal from '@/components/admin/DeleteUserModal';
 import DeviceForm from '@/components/admin/DeviceForm';
 import UserInsightPanel from '@/components/admin/UserInsightPanel';
-import { getUserDetails, deleteUser, createDevice } from '@/lib/adminService';
+import {
+  getUserDetails,
+  deleteUser,
+  createDevice,
+  resetUserTwoFactor,
+  restoreUser,
+  getUserSessions,
+  revokeUserSession,
+  revokeAllUserSessions,
+} from '@/lib/adminService';
+import type { LoginSession } from '@/lib/authService';
+import SessionList from '@/components/settings/SessionList';
 import { ApiError } from '@/lib/api';
 import SkeletonCard from '@/components/ui/SkeletonCard';
 
@@ -38,6 +49,17 @@ export default function UserDetailPage() {
   const [showCreateDeviceModal, setShowCreateDeviceModal] = useState(false);
   const [isCreatingDevice, setIsCreatingDevice] = useState(false);
 
+  // 2FA reset state
+  const [isResettingTwoFactor, setIsResettingTwoFactor] = useState(false);
+
+  // Pending deletion restore state
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // Login sessions state
+  const [sessions, setSessions] = useState<LoginSession[]>([]);
+  const [revokingSessionId, setRevokingSessionId] = useState<string | null>(null);
+  const [isRevokingAllSessions, setIsRevokingAllSessions] = useState(false);
+
   // Tab state
   const [activeTab, setActiveTab] = useState<'details' | 'insights'>('details');
 
@@ -61,6 +83,44 @@ export default function UserDetailPage() {
     }
   }, [userId]);
 
+  useEffect(() => {
+    if (userId) {
+      getUserSessions(userId)
+        .then(setSessions)
+        .catch((err: ApiError) => setError(err.message || 'Failed to fetch sessions'));
+    }
+  }, [userId]);
+
+  const handleRevokeSession = async (sessionId: string) => {
+    try {
+      setRevokingSessionId(sessionId);
+      await revokeUserSession(userId, sessionId);
+      setSessions(await getUserSessions(userId));
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to revoke session');
+    } finally {
+      setRevokingSessionId(null);
+    }
+  };
+
+  const handleRevokeAllSessions = async () => {
+    if (!confirm('Sign this user out of every session?')) {
+      return;
+    }
+
+    try {
+      setIsRevokingAllSessions(true);
+      await revokeAllUserSessions(userId);
+      setSessions(await getUserSessions(userId));
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to revoke sessions');
+    } finally {
+      setIsRevokingAllSessions(false);
+    }
+  };
+
   const handleDeleteClick = () => {
     if (user) {
       setDeleteModal({
@@ -102,6 +162,42 @@ export default function UserDetailPage() {
     }
   };
 
+  const handleResetTwoFactor = async () => {
+    if (!confirm('Reset two-factor authentication for this user? They will be able to sign in with their password only until they enroll again.')) {
+      return;
+    }
+
+    try {
+      setIsResettingTwoFactor(true);
+      setError(null);
+      const response = await resetUserTwoFactor(userId);
+      setUser({ ...user, ...response.user });
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to reset two-factor authentication');
+    } finally {
+      setIsResettingTwoFactor(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!confirm('Restore this account? The user will be able to sign in again; their devices must be re-paired.')) {
+      return;
+    }
+
+    try {
+      setIsRestoring(true);
+      setError(null);
+      const response = await restoreUser(userId);
+      setUser({ ...user, ...response.user });
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to restore user');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
   const formatDate = (dateString?: string) => {
     if (!dateString) return 'Never';
     return new Date(dateString).toLocaleString();
@@ -257,10 +353,47 @@ export default function UserDetailPage() {
             </div>
             <div>
               <label className="text-sm font-medium text-text-muted">Status</label>
-              <div className="mt-1">
-                <Badge variant={user.isActive ? 'success' : 'danger'}>
-                  {user.isActive ? 'Active' : 'Inactive'}
+              <div className="mt-1 flex items-center gap-3">
+                {user.deletedAt ? (
+                  <>
+                    <Badge variant="danger">Pending Deletion</Badge>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleRestore}
+                      disabled={isRestoring}
+                    >
+                      {isRestoring ? 'Restoring...' : 'Restore'}
+                    </Button>
+                  </>
+                ) : (
+                  <Badge variant={user.isActive ? 'success' : 'danger'}>
+                    {user.isActive ? 'Active' : 'Inactive'}
+                  </Badge>
+                )}
+              </div>
+              {user.deletedAt && (
+                <p className="text-sm text-text-muted mt-1">
+                  Deleted by user on {formatDate(user.deletedAt)}; permanently removed after {formatDate(user.purgeAfter)}
+                </p>
+              )}
+            </div>
+            <div>
+              <label className="text-sm font-medium text-text-muted">Two-Factor Authentication</label>
+              <div className="mt-1 flex items-center gap-3">
+                <Badge variant={user.twoFactorEnabled ? 'success' : 'warning'}>
+                  {user.twoFactorEnabled ? 'Enabled' : 'Disabled'}
                 </Badge>
+                {user.twoFactorEnabled && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleResetTwoFactor}
+                    disabled={isResettingTwoFactor}
+                  >
+                    {isResettingTwoFactor ? 'Resetting...' : 'Reset 2FA'}
+                  </Button>
+                )}
               </div>
             </div>
             <div>
@@ -295,6 +428,34 @@ export default function UserDetailPage() {
           />
         </div>
 
+        {/* Login Sessions */}
+        <Card padding="lg">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h2 className="text-xl font-semibold text-text-primary">Login Sessions</h2>
+              <p className="text-sm text-text-muted">
+                {sessions.filter((session) => session.isActive).length} active
+              </p>
+            </div>
+            {sessions.some((session) => session.isActive) && (
+              <Button
+                variant="danger"
+                size="sm"
+                onClick={handleRevokeAllSessions}
+                disabled={isRevokingAllSessions}
+              >
+                {isRevokingAllSessions ? 'Signing out...' : 'Sign Out Everywhere'}
+              </Button>
+            )}
+          </div>
+          <SessionList
+            sessions={sessions}
+            onRevoke={handleRevokeSession}
+            revokingId={revokingSessionId}
+            emptyMessage="No login sessions recorded"
+          />
+        </Card>
+
         {/* Devices List */}
         <Card padding="lg">
           <div className="flex items-center justify-between mb-4">
@@ -1,17 +1,39 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAppDispatch, useAppSelector } from '@/hooks/useAppDispatch';
-import { loginAsync, clearError } from '@/store/slices/authSlice';
+import {
+  loginAsync,
+  verifyTwoFactorAsync,
+  cancelTwoFactor,
+  clearError,
+  logout,
+} from '@/store/slices/authSlice';
+import { refreshAccessToken, ApiError } from '@/lib/api';
 import Card from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
 import Input from '@/components/ui/Input';
 
+/**
+ * Read the post-login destination set by the edge middleware.
+ * Only same-origin relative paths are accepted to avoid open redirects.
+ */
+function getCallbackUrl(): string {
+  if (typeof window === 'undefined') return '/dashboard';
+  const callbackUrl = new URLSearchParams(window.location.search).get('callbackUrl');
+  if (!callbackUrl || !callbackUrl.startsWith('/') || callbackUrl.startsWith('//')) {
+    return '/dashboard';
+  }
+  return callbackUrl;
+}
+
 export default function LoginPage() {
   const router = useRouter();
   const dispatch = useAppDispatch();
-  const { isAuthenticated, loading, error } = useAppSelector((state) => state.auth);
+  const { isAuthenticated, loading, error, twoFactorChallenge } = useAppSelector(
+    (state) => state.auth
+  );
 
   const [formData, setFormData] = useState({
     email: '',
@@ -23,13 +45,43 @@ export default function LoginPage() {
     password: '',
   });
 
+  // Second step (2FA) state
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+
+  const hasSubmittedRef = useRef(false);
+
   // Redirect if already authenticated
   useEffect(() => {
-    if (isAuthenticated) {
-      // Use Next.js router for smooth navigation after login
-      router.push('/dashboard');
+    if (!isAuthenticated) return;
+
+    const target = getCallbackUrl();
+
+    // Fresh login: the backend has just set a valid session cookie
+    if (hasSubmittedRef.current) {
+      router.push(target);
+      return;
     }
-  }, [isAuthenticated, router]);
+
+    // Session restored from localStorage: the middleware may have sent us
+    // here because the cookie expired, so renew it before going back.
+    let cancelled = false;
+    refreshAccessToken()
+      .then(() => {
+        if (!cancelled) router.push(target);
+      })
+      .catch((err: ApiError) => {
+        if (cancelled) return;
+        if (err.status === 401) {
+          dispatch(logout());
+        } else {
+          router.push(target);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated, router, dispatch]);
 
   // Clear error when component unmounts
   useEffect(() => {
@@ -84,6 +136,8 @@ export default function LoginPage() {
       return;
     }
 
+    hasSubmittedRef.current = true;
+
     try {
       await dispatch(loginAsync({
         email: formData.email.trim(),
@@ -97,6 +151,26 @@ export default function LoginPage() {
     }
   };
 
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!twoFactorCode.trim()) {
+      return;
+    }
+
+    try {
+      await dispatch(verifyTwoFactorAsync(twoFactorCode.trim())).unwrap();
+      // Redirect will happen via useEffect when isAuthenticated changes
+    } catch (err) {
+      console.error('2FA verification failed:', err);
+    }
+  };
+
+  const handleTwoFactorCancel = () => {
+    setTwoFactorCode('');
+    dispatch(cancelTwoFactor());
+  };
+
   return (
     <div className="min-h-screen bg-app flex items-center justify-center p-6">
       <Card className="max-w-md w-full" padding="lg">
@@ -109,14 +183,60 @@ export default function LoginPage() {
               </div>
             </div>
             <h1 className="text-3xl font-bold text-text-primary mb-2">
-              Welcome Back
+              {twoFactorChallenge ? 'Two-Factor Verification' : 'Welcome Back'}
             </h1>
             <p className="text-text-secondary">
-              Sign in to your account to continue
+              {twoFactorChallenge
+                ? 'Enter the 6-digit code from your authenticator app or a backup code'
+                : 'Sign in to your account to continue'}
             </p>
           </div>
 
-          {/* Form */}
+          {twoFactorChallenge ? (
+          /* 2FA Form */
+          <form onSubmit={handleTwoFactorSubmit} className="space-y-4">
+            <Input
+              type="text"
+              name="code"
+              label="Verification Code"
+              placeholder="123456"
+              value={twoFactorCode}
+              onChange={(e) => {
+                setTwoFactorCode(e.target.value);
+                if (error) dispatch(clearError());
+              }}
+              required
+              disabled={loading}
+              autoComplete="one-time-code"
+            />
+
+            {error && (
+              <div className="bg-danger-soft border border-danger rounded-lg p-3">
+                <p className="text-sm text-danger">{error}</p>
+              </div>
+            )}
+
+            <Button
+              type="submit"
+              variant="primary"
+              size="lg"
+              className="w-full"
+              disabled={loading || !twoFactorCode.trim()}
+            >
+              {loading ? 'Verifying...' : 'Verify'}
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              className="w-full"
+              onClick={handleTwoFactorCancel}
+              disabled={loading}
+            >
+              Back to sign in
+            </Button>
+          </form>
+          ) : (
+          /* Form */
           <form onSubmit={handleSubmit} className="space-y-4">
             {/* Email Input */}
             <Input
@@ -205,6 +325,7 @@ export default function LoginPage() {
               )}
             </Button>
           </form>
+          )}
 
           {/* Footer */}
           <div className="pt-4 border-t border-divider">
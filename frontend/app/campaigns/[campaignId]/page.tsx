@@ -0,0 +1,242 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import UserLayout from '@/components/layout/UserLayout';
+import Card from '@/components/ui/Card';
+import Badge from '@/components/ui/Badge';
+import Button from '@/components/ui/Button';
+import BarChart from '@/components/charts/BarChart';
+import LineChart from '@/components/charts/LineChart';
+import PieChart from '@/components/charts/PieChart';
+import { CampaignDetail, cancelCampaign, getCampaign } from '@/lib/userService';
+import { ApiError } from '@/lib/api';
+
+const VARIANT_COLORS: Record<string, string> = {
+  A: '#3b82f6',
+  B: '#22c55e',
+  C: '#f59e0b',
+  D: '#8b5cf6',
+};
+
+// Differences below this many percentage points are treated as a tie
+const LEAD_MARGIN = 1;
+
+export default function CampaignResultsPage() {
+  const params = useParams();
+  const campaignId = params?.campaignId as string;
+
+  const [campaign, setCampaign] = useState<CampaignDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  const fetchCampaign = useCallback(async () => {
+    if (!campaignId) return;
+    try {
+      setCampaign(await getCampaign(decodeURIComponent(campaignId)));
+      setError(null);
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to load campaign');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [campaignId]);
+
+  useEffect(() => {
+    fetchCampaign();
+  }, [fetchCampaign]);
+
+  // Receipts and replies keep arriving after sending, so refresh while the page is open
+  useEffect(() => {
+    const interval = setInterval(fetchCampaign, campaign?.status === 'running' ? 5000 : 30000);
+    return () => clearInterval(interval);
+  }, [campaign?.status, fetchCampaign]);
+
+  const handleCancel = async () => {
+    if (!campaign || !confirm('Stop this campaign? Messages that have not been sent yet will be cancelled.')) return;
+
+    setIsCancelling(true);
+    try {
+      await cancelCampaign(campaign.id);
+      await fetchCampaign();
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to cancel campaign');
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <UserLayout>
+        <div className="flex items-center justify-center min-h-[50vh]">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      </UserLayout>
+    );
+  }
+
+  if (!campaign) {
+    return (
+      <UserLayout>
+        <div className="bg-danger-soft border border-danger rounded-lg p-4">
+          <p className="text-sm text-danger">{error || 'Campaign not found'}</p>
+        </div>
+      </UserLayout>
+    );
+  }
+
+  const { variants, timeline, replyWindowHours } = campaign.results;
+  const isAbTest = variants.length > 1;
+  const totalSent = variants.reduce((sum, variant) => sum + variant.sent, 0);
+
+  const ranked = [...variants].sort((a, b) => b.replyRate - a.replyRate);
+  const leader =
+    isAbTest && totalSent > 0 && ranked[0].replyRate - ranked[1].replyRate >= LEAD_MARGIN ? ranked[0] : null;
+
+  const rateData = (rate: 'readRate' | 'replyRate') =>
+    variants.map((variant) => ({
+      name: `Variant ${variant.key}`,
+      value: variant[rate],
+      color: VARIANT_COLORS[variant.key],
+    }));
+
+  return (
+    <UserLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <Link href="/campaigns" className="text-sm text-text-muted hover:text-primary">
+              ← Campaigns
+            </Link>
+            <div className="flex items-center gap-2 mt-1">
+              <h1 className="text-2xl font-bold text-text-primary">{campaign.name}</h1>
+              {campaign.status === 'running' && <Badge variant="warning">Sending</Badge>}
+              {campaign.status === 'paused' && <Badge variant="warning">Paused</Badge>}
+              {campaign.status === 'completed' && <Badge variant="success">Completed</Badge>}
+              {campaign.status === 'cancelled' && <Badge variant="info">Cancelled</Badge>}
+            </div>
+            <p className="text-text-muted">
+              {campaign.audience.type === 'segment'
+                ? `Segment: ${campaign.audience.segmentName}`
+                : `${campaign.audience.count} pasted numbers`}
+              {' • '}
+              {campaign.progress.sent}/{campaign.progress.total} sent
+              {campaign.progress.failed > 0 && ` • ${campaign.progress.failed} failed`}
+              {campaign.progress.skipped > 0 && ` • ${campaign.progress.skipped} opted out`}
+            </p>
+          </div>
+          {(campaign.status === 'running' || campaign.status === 'paused') && (
+            <Button variant="outline" onClick={handleCancel} disabled={isCancelling}>
+              {isCancelling ? 'Cancelling...' : 'Cancel Campaign'}
+            </Button>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-danger-soft border border-danger rounded-lg p-4">
+            <p className="text-sm text-danger">{error}</p>
+          </div>
+        )}
+
+        {isAbTest && totalSent > 0 && (
+          <div className="p-4 bg-info-soft border border-info rounded-lg">
+            <p className="text-sm text-info">
+              {leader
+                ? `Variant ${leader.key} is leading with a ${leader.replyRate}% reply rate.`
+                : 'No variant is clearly ahead on reply rate yet.'}{' '}
+              Replies are counted for {replyWindowHours} hours after each message.
+            </p>
+          </div>
+        )}
+
+        {/* Per-variant results */}
+        <Card padding="none">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-elevated">
+                <tr>
+                  <th className="text-left p-3 text-text-muted font-medium">Variant</th>
+                  <th className="text-right p-3 text-text-muted font-medium">Recipients</th>
+                  <th className="text-right p-3 text-text-muted font-medium">Sent</th>
+                  <th className="text-right p-3 text-text-muted font-medium">Delivered</th>
+                  <th className="text-right p-3 text-text-muted font-medium">Read</th>
+                  <th className="text-right p-3 text-text-muted font-medium">Replied</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {variants.map((variant) => (
+                  <tr key={variant.key} className="align-top">
+                    <td className="p-3 max-w-md">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span
+                          className="w-3 h-3 rounded-full"
+                          style={{ backgroundColor: VARIANT_COLORS[variant.key] }}
+                        />
+                        <span className="font-medium text-text-primary">
+                          {isAbTest ? `Variant ${variant.key}` : 'Message'}
+                        </span>
+                        {leader?.key === variant.key && <Badge variant="success">Leading</Badge>}
+                      </div>
+                      <p className="text-xs text-text-muted whitespace-pre-wrap line-clamp-3">{variant.message}</p>
+                    </td>
+                    <td className="p-3 text-right text-text-primary">{variant.recipients}</td>
+                    <td className="p-3 text-right text-text-primary">
+                      {variant.sent}
+                      {variant.failed > 0 && <div className="text-xs text-danger">{variant.failed} failed</div>}
+                      {variant.skipped > 0 && <div className="text-xs text-warning">{variant.skipped} opted out</div>}
+                    </td>
+                    <td className="p-3 text-right text-text-primary">
+                      {variant.delivered}
+                      <div className="text-xs text-text-muted">{variant.deliveredRate}%</div>
+                    </td>
+                    <td className="p-3 text-right text-text-primary">
+                      {variant.read}
+                      <div className="text-xs text-text-muted">{variant.readRate}%</div>
+                    </td>
+                    <td className="p-3 text-right text-text-primary">
+                      {variant.replied}
+                      <div className="text-xs text-text-muted">{variant.replyRate}%</div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="px-3 py-2 text-xs text-text-muted border-t border-border">
+            Rates are a percentage of sent messages. Contacts who hide read receipts count as read once they reply.
+          </p>
+        </Card>
+
+        {/* Charts */}
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          <BarChart title="Read Rate (%)" data={rateData('readRate')} valueLabel="Read rate (%)" />
+          <BarChart title="Reply Rate (%)" data={rateData('replyRate')} valueLabel="Reply rate (%)" />
+          <LineChart
+            title="Reply Rate Over the First 24 Hours (%)"
+            data={totalSent > 0 ? timeline.map((point) => ({ ...point, hour: `${point.hour}h` })) : []}
+            xKey="hour"
+            lines={variants.map((variant) => ({
+              dataKey: variant.key,
+              color: VARIANT_COLORS[variant.key],
+              name: isAbTest ? `Variant ${variant.key}` : 'Reply rate',
+            }))}
+          />
+          {isAbTest && (
+            <PieChart
+              title="Audience Split"
+              data={variants.map((variant) => ({
+                name: `Variant ${variant.key}`,
+                value: variant.recipients,
+                color: VARIANT_COLORS[variant.key],
+              }))}
+            />
+          )}
+        </div>
+      </div>
+    </UserLayout>
+  );
+}
@@ -0,0 +1,177 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Megaphone } from 'lucide-react';
+import UserLayout from '@/components/layout/UserLayout';
+import Card from '@/components/ui/Card';
+import Badge from '@/components/ui/Badge';
+import Button from '@/components/ui/Button';
+import CampaignForm from '@/components/campaigns/CampaignForm';
+import { useAppDispatch, useAppSelector } from '@/hooks/useAppDispatch';
+import { fetchConnectedDevices } from '@/store/slices/userDashboardSlice';
+import { Campaign, CampaignStatus, getCampaigns } from '@/lib/userService';
+import { ApiError } from '@/lib/api';
+
+const STATUS_BADGES: Record<CampaignStatus, { label: string; variant: 'success' | 'warning' | 'danger' | 'info' }> = {
+  running: { label: 'Sending', variant: 'warning' },
+  paused: { label: 'Paused', variant: 'warning' },
+  completed: { label: 'Completed', variant: 'success' },
+  cancelled: { label: 'Cancelled', variant: 'info' },
+};
+
+export default function CampaignsPage() {
+  const router = useRouter();
+  const dispatch = useAppDispatch();
+  const { connectedDevices } = useAppSelector((state) => state.userDashboard);
+
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const fetchCampaigns = useCallback(async () => {
+    try {
+      setError(null);
+      setCampaigns(await getCampaigns());
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to fetch campaigns');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    dispatch(fetchConnectedDevices());
+    fetchCampaigns();
+  }, [dispatch, fetchCampaigns]);
+
+  // Refresh progress while a campaign is sending
+  useEffect(() => {
+    if (!campaigns.some((campaign) => campaign.status === 'running')) return;
+    const interval = setInterval(fetchCampaigns, 5000);
+    return () => clearInterval(interval);
+  }, [campaigns, fetchCampaigns]);
+
+  const formatDate = (dateStr: string) =>
+    new Date(dateStr).toLocaleString('id-ID', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  return (
+    <UserLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-text-primary">Campaigns</h1>
+            <p className="text-text-muted">Send to an audience and compare message variants</p>
+          </div>
+          {!isCreating && (
+            <Button variant="primary" onClick={() => setIsCreating(true)}>
+              + New Campaign
+            </Button>
+          )}
+        </div>
+
+        {isCreating && (
+          <Card padding="lg">
+            {connectedDevices.length === 0 ? (
+              <div className="p-4 bg-warning-soft border border-warning rounded-lg">
+                <p className="text-sm text-warning">No connected devices. Please connect a device first.</p>
+                <Button variant="outline" size="sm" className="mt-2" onClick={() => router.push('/devices')}>
+                  Go to Devices
+                </Button>
+              </div>
+            ) : (
+              <CampaignForm
+                devices={connectedDevices}
+                onCreated={(campaign) => router.push(`/campaigns/${campaign.id}`)}
+                onCancel={() => setIsCreating(false)}
+              />
+            )}
+          </Card>
+        )}
+
+        {error && (
+          <div className="bg-danger-soft border border-danger rounded-lg p-4">
+            <p className="text-sm text-danger">{error}</p>
+          </div>
+        )}
+
+        <Card padding="none">
+          {isLoading ? (
+            <div className="p-8 text-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+              <p className="mt-2 text-text-muted">Loading campaigns...</p>
+            </div>
+          ) : campaigns.length === 0 ? (
+            <div className="p-8 text-center">
+              <div className="flex justify-center mb-4">
+                <div className="bg-primary/10 p-4 rounded-full">
+                  <Megaphone className="w-12 h-12 text-primary" />
+                </div>
+              </div>
+              <p className="text-text-muted">No campaigns yet</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-border">
+              {campaigns.map((campaign) => {
+                const { total, sent, failed, skipped } = campaign.progress;
+                const done = sent + failed + skipped;
+                return (
+                  <Link
+                    key={campaign.id}
+                    href={`/campaigns/${campaign.id}`}
+                    className="block p-4 hover:bg-elevated transition-colors"
+                  >
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="font-medium text-text-primary truncate">{campaign.name}</span>
+                          <Badge variant={STATUS_BADGES[campaign.status].variant}>
+                            {STATUS_BADGES[campaign.status].label}
+                          </Badge>
+                          {campaign.variants.length > 1 && (
+                            <Badge variant="info">A/B · {campaign.variants.length} variants</Badge>
+                          )}
+                        </div>
+                        <p className="text-sm text-text-muted truncate">
+                          {campaign.audience.type === 'segment'
+                            ? `Segment: ${campaign.audience.segmentName}`
+                            : `${campaign.audience.count} pasted numbers`}
+                          {' • '}Device: {campaign.deviceId}
+                        </p>
+                        <p className="text-xs text-text-muted mt-1">Created: {formatDate(campaign.createdAt)}</p>
+                      </div>
+
+                      <div className="w-32 text-right">
+                        <div className="text-sm font-medium text-text-primary">
+                          {sent}/{total} sent
+                        </div>
+                        <div className="w-full bg-border rounded-full h-2 mt-1">
+                          <div
+                            className={`h-2 rounded-full transition-all ${
+                              campaign.status === 'completed' ? 'bg-success' : 'bg-primary'
+                            }`}
+                            style={{ width: `${total ? Math.round((done / total) * 100) : 0}%` }}
+                          ></div>
+                        </div>
+                        {failed > 0 && <p className="text-xs text-danger mt-1">{failed} failed</p>}
+                      </div>
+                    </div>
+                  </Link>
+                );
+              })}
+            </div>
+          )}
+        </Card>
+      </div>
+    </UserLayout>
+  );
+}
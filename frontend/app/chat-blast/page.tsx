@@ -1,51 +1,122 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import UserLayout from '@/components/layout/UserLayout';
 import Card from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
 import RateLimitWarning from '@/components/jobs/RateLimitWarning';
-import { get, post, ApiError } from '@/lib/api';
+import BlastContactPicker from '@/components/jobs/BlastContactPicker';
+import BlastRecipientPreview, { BlastRecipientRow } from '@/components/jobs/BlastRecipientPreview';
+import SegmentPicker from '@/components/contacts/SegmentPicker';
+import { useSegmentPreview } from '@/hooks/useSegmentPreview';
+import { post, ApiError } from '@/lib/api';
 import { useAppSelector, useAppDispatch } from '@/hooks/useAppDispatch';
 import { fetchUserDevices, fetchConnectedDevices } from '@/store/slices/userDashboardSlice';
+import {
+  getTemplates,
+  useTemplate as recordTemplateUse,
+  createSegmentJob,
+  MAX_JOB_ITEMS,
+  AudienceSegment,
+  MessageTemplate,
+  UserContact,
+} from '@/lib/userService';
+import { formatPhoneNumber, normalizePhoneNumber, resolveDefaultCountry } from '@/lib/phoneNumber';
+import { parseCsv, guessMapping, toCustomFieldKey } from '@/lib/contactImport';
+import { extractTemplateVariables, renderTemplate } from '@/lib/templateVariables';
 
-interface Contact {
-  id: number;
-  phoneNumber: string;
-  name: string | null;
+interface MessageItem {
+  to: string;
+  message: string;
 }
 
-interface DeviceOption {
-  deviceId: string;
-  deviceName: string;
-  status: string;
+type RecipientSource = 'paste' | 'contacts' | 'segment';
+
+const SOURCE_LABELS: Record<RecipientSource, string> = {
+  paste: 'Paste numbers / CSV',
+  contacts: 'Select contacts',
+  segment: 'Segment',
+};
+
+// Variables every contact provides (plus its custom fields)
+const CONTACT_COLUMNS = ['name', 'phone', 'email'];
+
+interface RecipientInput {
+  phone: string;
+  values: Record<string, string>;
 }
 
-interface MessageItem {
-  to: string;
-  message: string;
+const MAX_RECIPIENTS = MAX_JOB_ITEMS;
+
+/**
+ * Turn pasted text into recipients. A plain list of numbers has no header;
+ * otherwise the first line names the columns, which become {{variables}}.
+ */
+function parsePastedRecipients(text: string, defaultCountry: string): { inputs: RecipientInput[]; columns: string[] } {
+  const { headers, rows } = parseCsv(text);
+  if (headers.length === 0) {
+    return { inputs: [], columns: [] };
+  }
+
+  const isNumberList = headers.every((cell) => normalizePhoneNumber(cell, defaultCountry) !== null);
+  if (isNumberList) {
+    const phones = [headers, ...rows].flat().filter((cell) => cell.trim() !== '');
+    return { inputs: phones.map((phone) => ({ phone, values: { phone } })), columns: ['phone'] };
+  }
+
+  const keys = headers.map(toCustomFieldKey);
+  const phoneIndex = Math.max(guessMapping(headers).indexOf('phoneNumber'), 0);
+  return {
+    inputs: rows.map((cells) => ({
+      phone: cells[phoneIndex],
+      values: Object.fromEntries(keys.map((key, index) => [key, cells[index]])),
+    })),
+    columns: keys,
+  };
 }
 
+const contactToRecipient = (contact: UserContact): RecipientInput => ({
+  phone: `+${contact.phoneNumber}`,
+  values: {
+    ...(contact.customFields || {}),
+    name: contact.name,
+    phone: formatPhoneNumber(contact.phoneNumber),
+    email: contact.email || '',
+  },
+});
+
 export default function ChatBlastPage() {
   const router = useRouter();
   const dispatch = useAppDispatch();
-  const { connectedDevices } = useAppSelector((state) => state.userDashboard);
+  const user = useAppSelector((state) => state.auth.user);
+  const { devices, connectedDevices } = useAppSelector((state) => state.userDashboard);
 
   // Form state
   const [selectedDevice, setSelectedDevice] = useState<string>('');
+  const [source, setSource] = useState<RecipientSource>('paste');
   const [recipients, setRecipients] = useState<string>('');
+  const [selectedContacts, setSelectedContacts] = useState<UserContact[]>([]);
+  const [selectedSegment, setSelectedSegment] = useState<AudienceSegment | null>(null);
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [selectedTemplate, setSelectedTemplate] = useState<MessageTemplate | null>(null);
   const [message, setMessage] = useState<string>('');
   const [delay, setDelay] = useState<number>(3);
+  const [skipFlagged, setSkipFlagged] = useState(false);
+  const [previewRow, setPreviewRow] = useState<number | null>(null);
 
   // UI state
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
 
-  // Load devices on mount
+  // Load devices and templates on mount
   useEffect(() => {
+    dispatch(fetchUserDevices());
     dispatch(fetchConnectedDevices());
+    getTemplates()
+      .then((response) => setTemplates(response.templates))
+      .catch(() => setTemplates([]));
   }, [dispatch]);
 
   // Auto-select first connected device
@@ -55,11 +126,105 @@ export default function ChatBlastPage() {
     }
   }, [connectedDevices, selectedDevice]);
 
-  const parseRecipients = (): string[] => {
-    return recipients
-      .split(/[\n,;]+/)
-      .map((num) => num.trim())
-      .filter((num) => num.length > 0);
+  const device = connectedDevices.find((d) => d.deviceId === selectedDevice);
+  const defaultCountry = resolveDefaultCountry(device, user);
+
+  const { inputs, columns } = useMemo(() => {
+    if (source === 'paste') return parsePastedRecipients(recipients, defaultCountry);
+    if (source === 'contacts') return { inputs: selectedContacts.map(contactToRecipient), columns: CONTACT_COLUMNS };
+    // Segments are expanded (and rendered per contact) by the backend
+    return { inputs: [], columns: CONTACT_COLUMNS };
+  }, [source, recipients, selectedContacts, defaultCountry]);
+
+  const { preview: segmentPreview, isLoading: isCountingSegment } = useSegmentPreview(
+    source === 'segment' && selectedSegment ? selectedSegment.rules : null,
+    message.trim()
+  );
+
+  const variables = useMemo(() => extractTemplateVariables(message), [message]);
+
+  // Validate every row before anything is sent
+  const rows = useMemo<BlastRecipientRow[]>(() => {
+    const seen = new Set<string>();
+    return inputs.map((input, index) => {
+      const normalized = normalizePhoneNumber(input.phone, defaultCountry);
+      const { text, missing } = renderTemplate(message.trim(), input.values);
+      let status: BlastRecipientRow['status'] = 'ok';
+      if (!normalized) {
+        status = 'invalid';
+      } else if (seen.has(normalized)) {
+        status = 'duplicate';
+      } else if (missing.length > 0) {
+        status = 'missing';
+      }
+      if (normalized) seen.add(normalized);
+      return { row: index + 1, phone: input.phone, normalized, text, missing, status };
+    });
+  }, [inputs, message, defaultCountry]);
+
+  const readyRows = rows.filter((r) => r.status === 'ok');
+  const flaggedCount = rows.length - readyRows.length;
+
+  const handleTemplateChange = (templateId: string) => {
+    const template = templates.find((t) => t.id === Number(templateId)) || null;
+    setSelectedTemplate(template);
+    if (template) {
+      setMessage(template.content);
+    }
+  };
+
+  const insertVariable = (name: string) => {
+    setMessage((current) => `${current}{{${name}}}`);
+  };
+
+  const handleJobCreated = (total: number, jobId: string, note = '') => {
+    setSuccess(`Job created! Sending to ${total} recipients.${note} Job ID: ${jobId}`);
+    if (selectedTemplate && selectedTemplate.content === message) {
+      // Only bumps the template's usage count; rendering happened per recipient
+      recordTemplateUse(selectedTemplate.id).catch(() => undefined);
+    }
+    // Clear form
+    setRecipients('');
+    setSelectedContacts([]);
+    setMessage('');
+    setSelectedTemplate(null);
+    setSkipFlagged(false);
+    // Redirect to jobs page after a short delay
+    setTimeout(() => {
+      router.push('/jobs');
+    }, 2000);
+  };
+
+  const submitSegment = async () => {
+    if (!selectedSegment) {
+      setError('Please select a segment');
+      return;
+    }
+
+    if (!message.trim()) {
+      setError('Please enter a message');
+      return;
+    }
+
+    if (segmentPreview && segmentPreview.count > segmentPreview.max) {
+      setError(`Segment matches more than ${segmentPreview.max} recipients`);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const result = await createSegmentJob(selectedDevice, {
+        segmentId: selectedSegment.id,
+        message: message.trim(),
+        delay,
+      });
+      const skipped = result.skipped.invalid + result.skipped.incomplete;
+      handleJobCreated(result.total, result.jobId, skipped > 0 ? ` ${skipped} contacts skipped.` : '');
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to create job');
+    } finally {
+      setIsLoading(false);
+    }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -73,14 +238,13 @@ export default function ChatBlastPage() {
       return;
     }
 
-    const recipientList = parseRecipients();
-    if (recipientList.length === 0) {
-      setError('Please enter at least one recipient');
+    if (source === 'segment') {
+      await submitSegment();
       return;
     }
 
-    if (recipientList.length > 100) {
-      setError('Maximum 100 recipients per job');
+    if (rows.length === 0) {
+      setError('Please enter at least one recipient');
       return;
     }
 
@@ -89,13 +253,28 @@ export default function ChatBlastPage() {
       return;
     }
 
+    if (flaggedCount > 0 && !skipFlagged) {
+      setError(`${flaggedCount} row(s) have an invalid number, are duplicates or miss variables. Fix them or skip them.`);
+      return;
+    }
+
+    if (readyRows.length === 0) {
+      setError('No rows are ready to send');
+      return;
+    }
+
+    if (readyRows.length > MAX_RECIPIENTS) {
+      setError(`Maximum ${MAX_RECIPIENTS} recipients per job`);
+      return;
+    }
+
     try {
       setIsLoading(true);
 
-      // Build messages array
-      const messages: MessageItem[] = recipientList.map((to) => ({
-        to,
-        message: message.trim(),
+      // One rendered message per row; "+E.164" so the backend can't misread the number
+      const messages: MessageItem[] = readyRows.map((r) => ({
+        to: `+${r.normalized}`,
+        message: r.text,
       }));
 
       // Create job
@@ -108,14 +287,7 @@ export default function ChatBlastPage() {
       );
 
       if (response.success && response.data) {
-        setSuccess(`Job created! Sending to ${response.data.total} recipients. Job ID: ${response.data.jobId}`);
-        // Clear form
-        setRecipients('');
-        setMessage('');
-        // Redirect to jobs page after a short delay
-        setTimeout(() => {
-          router.push('/jobs');
-        }, 2000);
+        handleJobCreated(response.data.total, response.data.jobId);
       }
     } catch (err) {
       const apiError = err as ApiError;
@@ -125,7 +297,9 @@ export default function ChatBlastPage() {
     }
   };
 
-  const recipientCount = parseRecipients().length;
+  const recipientCount =
+    source === 'segment' ? (segmentPreview ? segmentPreview.count - segmentPreview.incomplete : 0) : readyRows.length;
+  const missingInAllRows = variables.filter((name) => rows.length > 0 && rows.every((r) => r.missing.includes(name)));
 
   return (
     <UserLayout>
@@ -180,38 +354,131 @@ export default function ChatBlastPage() {
 
             {/* Recipients */}
             <div>
-              <label className="block text-sm font-medium text-text-secondary mb-2">
-                Recipients {recipientCount > 0 && <span className="text-primary">({recipientCount})</span>}
-              </label>
-              <textarea
-                value={recipients}
-                onChange={(e) => setRecipients(e.target.value)}
-                placeholder="Enter phone numbers separated by commas, semicolons, or new lines&#10;&#10;Example: +6281234567890 081234567891 +6281234567892"
-                rows={6}
-                className="w-full px-4 py-3 bg-elevated border border-border rounded-lg text-text-primary placeholder-text-muted focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent resize-none font-mono text-sm"
-              />
-              <p className="text-xs text-text-muted mt-1">
-                Maximum 100 recipients per job. Supports formats: +62xxx, 62xxx, 08xxx
-              </p>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-text-secondary">
+                  Recipients {rows.length > 0 && <span className="text-primary">({rows.length})</span>}
+                </label>
+                <div className="flex gap-1 text-sm">
+                  {(Object.keys(SOURCE_LABELS) as RecipientSource[]).map((option) => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => {
+                        setSource(option);
+                        setPreviewRow(null);
+                      }}
+                      className={`px-3 py-1 rounded-lg ${
+                        source === option ? 'bg-primary-soft text-primary' : 'text-text-muted hover:text-text-primary'
+                      }`}
+                    >
+                      {SOURCE_LABELS[option]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {source === 'paste' ? (
+                <>
+                  <textarea
+                    value={recipients}
+                    onChange={(e) => setRecipients(e.target.value)}
+                    placeholder={'Enter phone numbers, or paste a table with a header row\n\nExample:\nphone,name,order_id\n+6281234567890,Budi,INV-001\n081234567891,Sari,INV-002'}
+                    rows={6}
+                    className="w-full px-4 py-3 bg-elevated border border-border rounded-lg text-text-primary placeholder-text-muted focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent resize-none font-mono text-sm"
+                  />
+                  <p className="text-xs text-text-muted mt-1">
+                    Maximum {MAX_RECIPIENTS} recipients per job. Columns of a pasted table (comma, semicolon or tab separated) fill
+                    the matching {'{{variables}}'}; numbers without +country code use {defaultCountry}.
+                  </p>
+                </>
+              ) : source === 'contacts' ? (
+                <BlastContactPicker
+                  selected={selectedContacts}
+                  onChange={setSelectedContacts}
+                  maxSelected={MAX_RECIPIENTS}
+                />
+              ) : (
+                <SegmentPicker
+                  selected={selectedSegment}
+                  onChange={setSelectedSegment}
+                  devices={devices}
+                  preview={segmentPreview}
+                  isCounting={isCountingSegment}
+                />
+              )}
             </div>
 
             {/* Message */}
             <div>
-              <label className="block text-sm font-medium text-text-secondary mb-2">
-                Message
-              </label>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-text-secondary">Message</label>
+                {templates.length > 0 && (
+                  <select
+                    value={selectedTemplate?.id ?? ''}
+                    onChange={(e) => handleTemplateChange(e.target.value)}
+                    className="px-3 py-1.5 bg-elevated border border-border rounded-lg text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary"
+                  >
+                    <option value="">Use a template...</option>
+                    {templates.map((template) => (
+                      <option key={template.id} value={template.id}>
+                        {template.name}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
               <textarea
                 value={message}
                 onChange={(e) => setMessage(e.target.value)}
-                placeholder="Enter your message here..."
+                placeholder="Enter your message here... Use {{name}} to insert a column value per recipient"
                 rows={4}
                 className="w-full px-4 py-3 bg-elevated border border-border rounded-lg text-text-primary placeholder-text-muted focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent resize-none"
               />
-              <p className="text-xs text-text-muted mt-1">
-                {message.length} characters
-              </p>
+              <div className="flex flex-wrap items-center gap-2 mt-1">
+                <span className="text-xs text-text-muted">{message.length} characters</span>
+                {columns.length > 0 && (
+                  <>
+                    <span className="text-xs text-text-muted">· Insert:</span>
+                    {columns.map((name) => (
+                      <button
+                        key={name}
+                        type="button"
+                        onClick={() => insertVariable(name)}
+                        className="px-2 py-0.5 text-xs font-mono bg-elevated border border-border rounded text-text-secondary hover:text-primary"
+                      >
+                        {`{{${name}}}`}
+                      </button>
+                    ))}
+                  </>
+                )}
+              </div>
+              {missingInAllRows.length > 0 && (
+                <p className="text-xs text-warning mt-1">
+                  No column provides {missingInAllRows.map((name) => `{{${name}}}`).join(', ')}
+                </p>
+              )}
             </div>
 
+            {/* Preview */}
+            {rows.length > 0 && (
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-text-secondary">
+                  Preview <span className="text-text-muted font-normal">(click a row)</span>
+                </label>
+                <BlastRecipientPreview rows={rows} selectedRow={previewRow} onSelectRow={setPreviewRow} />
+                {flaggedCount > 0 && (
+                  <label className="flex items-center gap-2 text-sm text-text-secondary">
+                    <input
+                      type="checkbox"
+                      checked={skipFlagged}
+                      onChange={(e) => setSkipFlagged(e.target.checked)}
+                      className="w-4 h-4 rounded border-border text-primary focus:ring-2 focus:ring-primary"
+                    />
+                    Skip {flaggedCount} flagged row(s) and send to the {readyRows.length} ready recipient(s)
+                  </label>
+                )}
+              </div>
+            )}
+
             {/* Delay */}
             <div>
               <label className="block text-sm font-medium text-text-secondary mb-2">
@@ -253,7 +520,7 @@ export default function ChatBlastPage() {
                 type="submit"
                 variant="primary"
                 className="flex-1"
-                disabled={isLoading || connectedDevices.length === 0}
+                disabled={isLoading || connectedDevices.length === 0 || (flaggedCount > 0 && !skipFlagged)}
               >
                 {isLoading ? 'Creating Job...' : `Send to ${recipientCount} Recipients`}
               </Button>
@@ -272,6 +539,7 @@ export default function ChatBlastPage() {
         <Card padding="md">
           <h3 className="text-sm font-semibold text-text-secondary mb-2">💡 Tips</h3>
           <ul className="text-sm text-text-muted space-y-1">
+            <li>• Use {'{{variables}}'} with a pasted table or saved contacts to personalize each message</li>
             <li>• Use a delay of 3-5 seconds to avoid rate limiting</li>
             <li>• You can monitor job progress in the "My Jobs" page</li>
             <li>• Jobs can be cancelled while in progress</li>
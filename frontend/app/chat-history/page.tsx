@@ -1,14 +1,61 @@
 'use client';
 
-import React, { useState, useEffect, Suspense } from 'react';
+import React, { useState, useEffect, useRef, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import UserLayout from '@/components/layout/UserLayout';
 import Card from '@/components/ui/Card';
 import { useAppSelector, useAppDispatch } from '@/hooks/useAppDispatch';
 import { fetchUserDevices, fetchConnectedDevices } from '@/store/slices/userDashboardSlice';
-import { getDailyChatList, getChatHistory, DailyChat, ChatMessage } from '@/lib/userService';
+import {
+  getDailyChatList,
+  getChatHistory,
+  markChatRead,
+  newMessageToChatMessage,
+  DailyChat,
+  ChatMessage,
+  MessageStatusEvent,
+  MessageMediaEvent,
+  NewMessageEvent,
+  ChatReadEvent,
+} from '@/lib/userService';
 import { ApiError } from '@/lib/api';
+import { useSSE } from '@/hooks/useSSE';
 import MessageBubble from '@/components/chat-history/MessageBubble';
+import ChatComposer from '@/components/chat-history/ChatComposer';
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5005/api';
+
+/**
+ * Apply a receipt to the open chat; a read receipt also marks the message delivered
+ */
+function applyMessageStatus(messages: ChatMessage[], event: MessageStatusEvent): ChatMessage[] {
+  return messages.map((message) =>
+    message.id === event.messageId && message.status !== 'read'
+      ? {
+          ...message,
+          status: event.status,
+          deliveredAt: message.deliveredAt || event.at,
+          readAt: event.status === 'read' ? event.at : message.readAt,
+        }
+      : message
+  );
+}
+
+/**
+ * Move a chat with a new message to the top of the list, adding it when it
+ * had no messages today
+ */
+function applyNewMessage(chats: DailyChat[], event: NewMessageEvent, isOpen: boolean): DailyChat[] {
+  const existing = chats.find((chat) => chat.jid === event.chatJid);
+  const unread = !event.fromMe && !isOpen ? 1 : 0;
+  const updated: DailyChat = {
+    ...(existing || { jid: event.chatJid, phoneNumber: event.chatJid.split('@')[0], unreadCount: 0 }),
+    lastMessage: event.message,
+    lastMessageTime: event.timestamp,
+  };
+  updated.unreadCount = isOpen ? 0 : (updated.unreadCount || 0) + unread;
+  return [updated, ...chats.filter((chat) => chat.jid !== event.chatJid)];
+}
 
 function ChatHistoryContent() {
   const router = useRouter();
@@ -26,6 +73,58 @@ function ChatHistoryContent() {
   const [isLoadingChats, setIsLoadingChats] = useState(false);
   const [isLoadingMessages, setIsLoadingMessages] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [replyTo, setReplyTo] = useState<ChatMessage | null>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  // The SSE handler is bound once; it reads the open chat from here
+  const openChatRef = useRef({ deviceId: '', jid: '' });
+  useEffect(() => {
+    openChatRef.current = { deviceId: selectedDeviceId, jid: selectedJid };
+  }, [selectedDeviceId, selectedJid]);
+
+  // Receipts, new messages, downloaded media and chats read elsewhere update the page live
+  useSSE(`${API_BASE}/events`, {
+    onMessage: (event) => {
+      try {
+        const data = JSON.parse(event.data);
+        const openChat = openChatRef.current;
+        if (data.type === 'message-status') {
+          setMessages((current) => applyMessageStatus(current, data.data as MessageStatusEvent));
+        } else if (data.type === 'new-message') {
+          const newMessage = data.data as NewMessageEvent;
+          if (newMessage.deviceId !== openChat.deviceId || newMessage.chatJid.endsWith('@g.us')) return;
+
+          const isOpen = newMessage.chatJid === openChat.jid;
+          setChats((current) => applyNewMessage(current, newMessage, isOpen));
+          if (isOpen) {
+            setMessages((current) =>
+              current.some((message) => message.id === newMessage.messageId)
+                ? current
+                : [...current, newMessageToChatMessage(newMessage, current)]
+            );
+            if (!newMessage.fromMe) {
+              markChatRead(openChat.deviceId, openChat.jid).catch(() => undefined);
+            }
+          }
+        } else if (data.type === 'message-media') {
+          const mediaUpdate = data.data as MessageMediaEvent;
+          setMessages((current) =>
+            current.map((message) =>
+              message.id === mediaUpdate.messageId ? { ...message, media: mediaUpdate.media } : message
+            )
+          );
+        } else if (data.type === 'chat-read') {
+          const chatRead = data.data as ChatReadEvent;
+          if (chatRead.deviceId !== openChat.deviceId) return;
+          setChats((current) =>
+            current.map((chat) => (chat.jid === chatRead.chatJid ? { ...chat, unreadCount: 0 } : chat))
+          );
+        }
+      } catch (err) {
+        console.error('Failed to parse SSE message:', err);
+      }
+    },
+  });
 
   useEffect(() => {
     if (!isAuthenticated) {
@@ -59,11 +158,17 @@ function ChatHistoryContent() {
   }, [selectedDeviceId]);
 
   useEffect(() => {
+    setReplyTo(null);
     if (selectedDeviceId && selectedJid) {
       loadMessages();
+      openChat();
     }
   }, [selectedDeviceId, selectedJid]);
 
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [messages.length]);
+
   const loadChats = async () => {
     if (!selectedDeviceId) return;
 
@@ -99,6 +204,24 @@ function ChatHistoryContent() {
     }
   };
 
+  // Opening a chat marks it as read on the phone; a disconnected device keeps it unread
+  const openChat = async () => {
+    try {
+      await markChatRead(selectedDeviceId, selectedJid);
+      setChats((current) =>
+        current.map((chat) => (chat.jid === selectedJid ? { ...chat, unreadCount: 0 } : chat))
+      );
+    } catch (err) {
+      console.error('Failed to mark chat as read:', err);
+    }
+  };
+
+  const handleSent = (message: ChatMessage) => {
+    setMessages((current) => (current.some((m) => m.id === message.id) ? current : [...current, message]));
+  };
+
+  const selectedChat = chats.find((chat) => chat.jid === selectedJid);
+
   if (!user || user.role !== 'user') {
     return null;
   }
@@ -108,7 +231,7 @@ function ChatHistoryContent() {
       {/* Page Header */}
       <div>
         <h1 className="text-3xl font-bold text-text-primary mb-2">Chat History</h1>
-        <p className="text-text-secondary">View your WhatsApp chat history</p>
+        <p className="text-text-secondary">View and reply to your WhatsApp chats</p>
       </div>
 
       {/* Error Message */}
@@ -128,7 +251,7 @@ function ChatHistoryContent() {
               </label>
               {isLoadingDevices ? (
                 <div className="animate-pulse h-10 bg-elevated rounded-lg" />
-              ) : connectedDevices.length === 0 ? (
+              ) : connectedDevices.length === 0 && !selectedDeviceId ? (
                 <div className="p-4 bg-warning-soft border border-warning rounded-lg">
                   <p className="text-sm text-warning">No connected devices available</p>
                 </div>
@@ -143,6 +266,11 @@ function ChatHistoryContent() {
                   className="w-full px-4 py-2.5 bg-card border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 focus:ring-offset-app transition-all"
                 >
                   <option value="">Select a device</option>
+                  {/* Opened from a handoff on a device shared through a workspace */}
+                  {selectedDeviceId &&
+                    !connectedDevices.some((device) => device.deviceId === selectedDeviceId) && (
+                      <option value={selectedDeviceId}>Shared device</option>
+                    )}
                   {connectedDevices.map((device) => (
                     <option key={device.deviceId} value={device.deviceId}>
                       {device.deviceName} {device.phoneNumber ? `(${device.phoneNumber})` : ''}
@@ -176,9 +304,16 @@ function ChatHistoryContent() {
                             : 'hover:bg-elevated text-text-primary'
                         }`}
                       >
-                        <p className="font-medium">
-                          {chat.name || chat.phoneNumber || chat.jid}
-                        </p>
+                        <div className="flex items-center justify-between gap-2">
+                          <p className={`truncate ${chat.unreadCount ? 'font-semibold' : 'font-medium'}`}>
+                            {chat.name || chat.phoneNumber || chat.jid}
+                          </p>
+                          {!!chat.unreadCount && (
+                            <span className="shrink-0 min-w-[1.25rem] h-5 px-1.5 rounded-full bg-primary text-white text-xs font-semibold flex items-center justify-center">
+                              {chat.unreadCount > 99 ? '99+' : chat.unreadCount}
+                            </span>
+                          )}
+                        </div>
                         {chat.lastMessage && (
                           <p className="text-xs text-text-muted truncate mt-1">
                             {chat.lastMessage}
@@ -206,21 +341,35 @@ function ChatHistoryContent() {
                   <div key={i} className="animate-pulse h-20 bg-elevated rounded-lg" />
                 ))}
               </div>
-            ) : messages.length === 0 ? (
-              <div className="text-center py-12">
-                <p className="text-text-muted">No messages found</p>
-              </div>
             ) : (
-              <div className="space-y-3 max-h-[600px] overflow-y-auto">
-                {messages.map((msg, index) => (
-                  <MessageBubble 
-                    key={msg.id || index} 
-                    message={msg} 
-                    deviceId={selectedDeviceId}
-                    onRetrySuccess={() => loadMessages()}
-                  />
-                ))}
-              </div>
+              <>
+                {messages.length === 0 ? (
+                  <div className="text-center py-12">
+                    <p className="text-text-muted">No messages found</p>
+                  </div>
+                ) : (
+                  <div className="space-y-3 max-h-[600px] overflow-y-auto">
+                    {messages.map((msg, index) => (
+                      <MessageBubble 
+                        key={msg.id || index} 
+                        message={msg} 
+                        deviceId={selectedDeviceId}
+                        onRetrySuccess={() => loadMessages()}
+                        onReply={setReplyTo}
+                      />
+                    ))}
+                    <div ref={messagesEndRef} />
+                  </div>
+                )}
+                <ChatComposer
+                  deviceId={selectedDeviceId}
+                  jid={selectedJid}
+                  chatName={selectedChat?.name}
+                  replyTo={replyTo}
+                  onCancelReply={() => setReplyTo(null)}
+                  onSent={handleSent}
+                />
+              </>
             )}
           </Card>
         </div>
@@ -5,10 +5,13 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import UserLayout from '@/components/layout/UserLayout';
 import Card from '@/components/ui/Card';
 import Input from '@/components/ui/Input';
+import Button from '@/components/ui/Button';
 import ContactTagFilter from '@/components/contacts/ContactTagFilter';
+import ContactImport from '@/components/contacts/ContactImport';
 import { useAppSelector, useAppDispatch } from '@/hooks/useAppDispatch';
 import { fetchConnectedDevices, fetchUserDevices } from '@/store/slices/userDashboardSlice';
 import { getContacts, Contact } from '@/lib/userService';
+import { formatPhoneNumber, resolveDefaultCountry } from '@/lib/phoneNumber';
 import { ApiError } from '@/lib/api';
 
 function ContactsContent() {
@@ -27,6 +30,7 @@ function ContactsContent() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [mounted, setMounted] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
 
   useEffect(() => {
     setMounted(true);
@@ -107,6 +111,8 @@ function ContactsContent() {
     setFilteredContacts(filtered);
   }, [searchQuery, selectedTags, contacts]);
 
+  const selectedDevice = connectedDevices.find((d) => d.deviceId === selectedDeviceId);
+
   const handleContactClick = (contact: Contact) => {
     router.push(`/chat-history?jid=${encodeURIComponent(contact.jid)}&deviceId=${selectedDeviceId}`);
   };
@@ -118,11 +124,34 @@ function ContactsContent() {
   return (
     <div className="space-y-6">
       {/* Page Header */}
-      <div>
-        <h1 className="text-3xl font-bold text-text-primary mb-2">Contacts</h1>
-        <p className="text-text-secondary">View and manage your WhatsApp contacts</p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-text-primary mb-2">Contacts</h1>
+          <p className="text-text-secondary">View and manage your WhatsApp contacts</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="ghost" onClick={() => router.push('/contacts/suppressions')}>
+            Opt-out List
+          </Button>
+          {!isImportOpen && (
+            <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+              Import Contacts
+            </Button>
+          )}
+        </div>
       </div>
 
+      {isImportOpen && (
+        <Card padding="md">
+          <ContactImport
+            deviceId={selectedDeviceId || undefined}
+            defaultCountry={resolveDefaultCountry(selectedDevice, user)}
+            onClose={() => setIsImportOpen(false)}
+            onImported={() => loadContacts()}
+          />
+        </Card>
+      )}
+
       {/* Error Message */}
       {error && (
         <div className="bg-danger-soft border border-danger rounded-lg p-4">
@@ -236,10 +265,10 @@ function ContactsContent() {
                     {/* Info */}
                     <div className="min-w-0 flex-1">
                       <p className="font-medium text-text-primary truncate">
-                        {contact.name || contact.phoneNumber}
+                        {contact.name || formatPhoneNumber(contact.phoneNumber)}
                       </p>
                       <p className="text-sm text-text-muted truncate">
-                        {contact.phoneNumber}
+                        {formatPhoneNumber(contact.phoneNumber)}
                       </p>
                     </div>
                     {/* Arrow */}
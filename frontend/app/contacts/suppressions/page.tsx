@@ -0,0 +1,287 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import UserLayout from '@/components/layout/UserLayout';
+import Card from '@/components/ui/Card';
+import Input from '@/components/ui/Input';
+import Button from '@/components/ui/Button';
+import Badge from '@/components/ui/Badge';
+import SuppressionImport from '@/components/contacts/SuppressionImport';
+import { useAppSelector } from '@/hooks/useAppDispatch';
+import { Suppression, addSuppression, getSuppressions, removeSuppression } from '@/lib/userService';
+import { formatPhoneNumber } from '@/lib/phoneNumber';
+import { ApiError } from '@/lib/api';
+
+const PAGE_SIZE = 50;
+
+const SOURCE_LABELS: Record<Suppression['source'], string> = {
+  keyword: 'Replied keyword',
+  manual: 'Added manually',
+  import: 'Imported',
+};
+
+const SOURCE_VARIANTS: Record<Suppression['source'], 'warning' | 'info' | 'danger'> = {
+  keyword: 'warning',
+  manual: 'info',
+  import: 'danger',
+};
+
+export default function SuppressionsPage() {
+  const router = useRouter();
+  const user = useAppSelector((state) => state.auth.user);
+  const isAuthenticated = useAppSelector((state) => state.auth.isAuthenticated);
+
+  const [mounted, setMounted] = useState(false);
+  const [suppressions, setSuppressions] = useState<Suppression[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [search, setSearch] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [reason, setReason] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [removingNumber, setRemovingNumber] = useState<string | null>(null);
+
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  useEffect(() => {
+    if (!mounted) return;
+    if (!isAuthenticated) {
+      router.push('/auth/login');
+    } else if (user?.role !== 'user') {
+      router.push('/dashboard');
+    }
+  }, [mounted, isAuthenticated, user, router]);
+
+  const loadSuppressions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await getSuppressions({ search: search.trim() || undefined, limit: PAGE_SIZE, offset });
+      setSuppressions(data.suppressions);
+      setTotal(data.total);
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to load opt-out list');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [search, offset]);
+
+  useEffect(() => {
+    if (!mounted || user?.role !== 'user') return;
+    const timer = setTimeout(loadSuppressions, 300);
+    return () => clearTimeout(timer);
+  }, [mounted, user, loadSuppressions]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!phoneNumber.trim()) return;
+
+    setIsAdding(true);
+    setError(null);
+    try {
+      await addSuppression(phoneNumber.trim(), reason.trim() || undefined);
+      setPhoneNumber('');
+      setReason('');
+      setOffset(0);
+      await loadSuppressions();
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to add number');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRemove = async (suppression: Suppression) => {
+    if (
+      !confirm(
+        `Remove ${formatPhoneNumber(suppression.phoneNumber)} from the opt-out list? Only do this if the contact asked to receive messages again.`
+      )
+    ) {
+      return;
+    }
+
+    setRemovingNumber(suppression.phoneNumber);
+    try {
+      await removeSuppression(suppression.phoneNumber);
+      await loadSuppressions();
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to remove number');
+    } finally {
+      setRemovingNumber(null);
+    }
+  };
+
+  if (!mounted || !user || user.role !== 'user') return null;
+
+  const currentPage = Math.floor(offset / PAGE_SIZE) + 1;
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <UserLayout>
+      <div className="space-y-6">
+        {/* Page Header */}
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <Link href="/contacts" className="text-sm text-text-muted hover:text-primary">
+              ← Contacts
+            </Link>
+            <h1 className="text-3xl font-bold text-text-primary mb-2 mt-1">Opt-out List</h1>
+            <p className="text-text-secondary">
+              Numbers here never receive messages from Chat Blast, scheduled messages or direct sends. Contacts are
+              added automatically when they reply with an opt-out keyword (e.g. STOP or BERHENTI).
+            </p>
+          </div>
+          {!isImportOpen && (
+            <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+              Import Numbers
+            </Button>
+          )}
+        </div>
+
+        {isImportOpen && (
+          <Card padding="md">
+            <SuppressionImport onClose={() => setIsImportOpen(false)} onImported={() => loadSuppressions()} />
+          </Card>
+        )}
+
+        {error && (
+          <div className="bg-danger-soft border border-danger rounded-lg p-4">
+            <p className="text-sm text-danger">{error}</p>
+          </div>
+        )}
+
+        {/* Add Number */}
+        <Card padding="md">
+          <form onSubmit={handleAdd} className="grid grid-cols-1 md:grid-cols-[1fr_2fr_auto] gap-3 items-end">
+            <Input
+              type="tel"
+              label="Phone number"
+              value={phoneNumber}
+              onChange={(e) => setPhoneNumber(e.target.value)}
+              placeholder="+6281234567890"
+            />
+            <Input
+              label="Reason (optional)"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Asked by phone not to be contacted"
+            />
+            <Button type="submit" variant="primary" disabled={isAdding || !phoneNumber.trim()}>
+              {isAdding ? 'Adding...' : 'Add to List'}
+            </Button>
+          </form>
+        </Card>
+
+        {/* List */}
+        <Card padding="md">
+          <div className="mb-4">
+            <Input
+              type="text"
+              placeholder="Search by number..."
+              value={search}
+              onChange={(e) => {
+                setSearch(e.target.value);
+                setOffset(0);
+              }}
+            />
+          </div>
+
+          {isLoading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="animate-pulse h-12 bg-elevated rounded-lg" />
+              ))}
+            </div>
+          ) : suppressions.length === 0 ? (
+            <p className="text-center text-text-muted py-12">
+              {search ? 'No numbers match your search' : 'Nobody has opted out yet'}
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-elevated">
+                  <tr>
+                    <th className="text-left p-3 text-text-muted font-medium">Number</th>
+                    <th className="text-left p-3 text-text-muted font-medium">Source</th>
+                    <th className="text-left p-3 text-text-muted font-medium">Details</th>
+                    <th className="text-left p-3 text-text-muted font-medium">Opted out</th>
+                    <th className="p-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {suppressions.map((suppression) => (
+                    <tr key={suppression.id} className="hover:bg-elevated">
+                      <td className="p-3 font-mono text-text-primary">{formatPhoneNumber(suppression.phoneNumber)}</td>
+                      <td className="p-3">
+                        <Badge variant={SOURCE_VARIANTS[suppression.source]}>{SOURCE_LABELS[suppression.source]}</Badge>
+                      </td>
+                      <td className="p-3 text-text-secondary">
+                        {suppression.keyword
+                          ? `"${suppression.keyword}"${suppression.deviceId ? ` on ${suppression.deviceId}` : ''}`
+                          : suppression.reason || '-'}
+                      </td>
+                      <td className="p-3 text-text-muted">
+                        {new Date(suppression.createdAt).toLocaleString('id-ID', {
+                          day: '2-digit',
+                          month: 'short',
+                          year: 'numeric',
+                          hour: '2-digit',
+                          minute: '2-digit',
+                        })}
+                      </td>
+                      <td className="p-3 text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemove(suppression)}
+                          disabled={removingNumber === suppression.phoneNumber}
+                        >
+                          {removingNumber === suppression.phoneNumber ? 'Removing...' : 'Remove'}
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Pagination */}
+          {!isLoading && totalPages > 1 && (
+            <div className="flex items-center justify-between mt-4">
+              <div className="text-sm text-text-muted">
+                Showing page {currentPage} of {totalPages} ({total} numbers)
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setOffset(offset - PAGE_SIZE)}
+                  disabled={offset === 0}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setOffset(offset + PAGE_SIZE)}
+                  disabled={offset + PAGE_SIZE >= total}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </Card>
+      </div>
+    </UserLayout>
+  );
+}
@@ -6,8 +6,10 @@ import UserLayout from '@/components/layout/UserLayout';
 import Card from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
 import DeviceTimeline from '@/components/dashboard/DeviceTimeline';
-import { useAppDispatch } from '@/hooks/useAppDispatch';
-import { Device, getDeviceDetails } from '@/lib/userService';
+import { useAppDispatch, useAppSelector } from '@/hooks/useAppDispatch';
+import { Device, getDeviceDetails, updateDeviceSettings } from '@/lib/userService';
+import { ApiError } from '@/lib/api';
+import { COUNTRIES, COUNTRY_OPTIONS, formatPhoneNumber, resolveDefaultCountry } from '@/lib/phoneNumber';
 
 export default function DeviceDetailPage() {
   const router = useRouter();
@@ -16,6 +18,9 @@ export default function DeviceDetailPage() {
   const [device, setDevice] = useState<Device | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const user = useAppSelector((state) => state.auth.user);
+  const [isSavingCountry, setIsSavingCountry] = useState(false);
+  const [countryError, setCountryError] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchDevice = async () => {
@@ -33,6 +38,22 @@ export default function DeviceDetailPage() {
     fetchDevice();
   }, [deviceId]);
 
+  const handleCountryChange = async (value: string) => {
+    if (!device) return;
+    setIsSavingCountry(true);
+    setCountryError(null);
+    try {
+      const updated = await updateDeviceSettings(device.deviceId, {
+        defaultCountry: value || null,
+      });
+      setDevice({ ...device, defaultCountry: updated.defaultCountry ?? null });
+    } catch (err) {
+      setCountryError((err as ApiError).message || 'Failed to save default country');
+    } finally {
+      setIsSavingCountry(false);
+    }
+  };
+
   if (loading) {
     return (
       <UserLayout>
@@ -83,7 +104,7 @@ export default function DeviceDetailPage() {
                  <div className="grid grid-cols-2 gap-4">
                    <div className="p-3 bg-elevated rounded-lg">
                      <span className="text-xs text-text-muted block">Phone Number</span>
-                     <span className="font-mono text-text-primary">{device.phoneNumber || 'Not connected'}</span>
+                     <span className="font-mono text-text-primary">{device.phoneNumber ? formatPhoneNumber(device.phoneNumber) : 'Not connected'}</span>
                    </div>
                    <div className="p-3 bg-elevated rounded-lg">
                      <span className="text-xs text-text-muted block">Device ID</span>
@@ -148,8 +169,39 @@ export default function DeviceDetailPage() {
                  >
                    🤖 Bot Configuration
                  </Button>
+                 <Button 
+                   variant="outline" 
+                   className="w-full"
+                   onClick={() => router.push(`/devices/${encodeURIComponent(device.deviceId)}/webhooks`)}
+                 >
+                   🪝 Webhooks
+                 </Button>
                </div>
              </Card>
+
+             <Card padding="md">
+               <h3 className="text-sm font-semibold text-text-secondary uppercase mb-4">Phone Numbers</h3>
+               <label className="block text-sm font-medium text-text-primary mb-2">Default Country</label>
+               <select
+                 value={device.defaultCountry || ''}
+                 onChange={(e) => handleCountryChange(e.target.value)}
+                 disabled={isSavingCountry}
+                 className="w-full px-3 py-2 bg-elevated border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-primary"
+               >
+                 <option value="">
+                   My default ({COUNTRIES[resolveDefaultCountry(null, user)].name})
+                 </option>
+                 {COUNTRY_OPTIONS.map(({ value, label }) => (
+                   <option key={value} value={value}>
+                     {label}
+                   </option>
+                 ))}
+               </select>
+               <p className="text-xs text-text-muted mt-2">
+                 Numbers sent from this device without a country code are read as this country.
+               </p>
+               {countryError && <p className="text-xs text-danger mt-2">{countryError}</p>}
+             </Card>
           </div>
         </div>
       </div>
@@ -0,0 +1,282 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import UserLayout from '@/components/layout/UserLayout';
+import Button from '@/components/ui/Button';
+import Card from '@/components/ui/Card';
+import Badge from '@/components/ui/Badge';
+import WebhookForm from '@/components/webhooks/WebhookForm';
+import WebhookDeliveryLog from '@/components/webhooks/WebhookDeliveryLog';
+import { webhookService, Webhook, WebhookEvent, WebhookRequest } from '@/lib/webhookService';
+import { ApiError } from '@/lib/api';
+
+export default function WebhookManagementPage() {
+  const params = useParams();
+  const router = useRouter();
+  const deviceId = decodeURIComponent(params?.deviceId as string);
+
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Form state: null = closed, 'new' = create, Webhook = edit
+  const [editing, setEditing] = useState<Webhook | 'new' | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [revealedSecret, setRevealedSecret] = useState<{ webhookId: number; secret: string } | null>(null);
+  const [testingId, setTestingId] = useState<number | null>(null);
+  const [logRefreshKey, setLogRefreshKey] = useState(0);
+
+  const loadWebhooks = useCallback(async () => {
+    try {
+      const result = await webhookService.getWebhooks(deviceId);
+      setWebhooks(result.webhooks);
+      setEvents(result.events);
+      setSelectedId((current) => current ?? result.webhooks[0]?.id ?? null);
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to load webhooks');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [deviceId]);
+
+  useEffect(() => {
+    if (deviceId) loadWebhooks();
+  }, [deviceId, loadWebhooks]);
+
+  const resetMessages = () => {
+    setError(null);
+    setSuccess(null);
+  };
+
+  const handleSubmit = async (data: WebhookRequest) => {
+    resetMessages();
+    setIsSaving(true);
+    try {
+      if (editing && editing !== 'new') {
+        const updated = await webhookService.updateWebhook(deviceId, editing.id, data);
+        setWebhooks((current) => current.map((w) => (w.id === updated.id ? updated : w)));
+        setSuccess('Webhook updated');
+      } else {
+        const { webhook, secret } = await webhookService.createWebhook(deviceId, data);
+        setWebhooks((current) => [...current, webhook]);
+        setSelectedId(webhook.id);
+        setRevealedSecret({ webhookId: webhook.id, secret });
+        setSuccess('Webhook created');
+      }
+      setEditing(null);
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to save webhook');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (webhook: Webhook) => {
+    resetMessages();
+    try {
+      const updated = await webhookService.updateWebhook(deviceId, webhook.id, {
+        isActive: !webhook.isActive,
+      });
+      setWebhooks((current) => current.map((w) => (w.id === updated.id ? updated : w)));
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to update webhook');
+    }
+  };
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (!confirm(`Delete webhook ${webhook.url}? Its delivery log is removed too.`)) return;
+    resetMessages();
+    try {
+      await webhookService.deleteWebhook(deviceId, webhook.id);
+      setWebhooks((current) => current.filter((w) => w.id !== webhook.id));
+      if (selectedId === webhook.id) setSelectedId(null);
+      if (revealedSecret?.webhookId === webhook.id) setRevealedSecret(null);
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to delete webhook');
+    }
+  };
+
+  const handleRotateSecret = async (webhook: Webhook) => {
+    if (!confirm('Generate a new signing secret? The old one stops working immediately.')) return;
+    resetMessages();
+    try {
+      const secret = await webhookService.rotateSecret(deviceId, webhook.id);
+      setRevealedSecret({ webhookId: webhook.id, secret });
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to rotate secret');
+    }
+  };
+
+  const handleTest = async (webhook: Webhook) => {
+    resetMessages();
+    setTestingId(webhook.id);
+    try {
+      const { delivery, message } = await webhookService.sendTestEvent(deviceId, webhook.id);
+      if (delivery.status === 'success') {
+        setSuccess(message);
+      } else {
+        setError(message);
+      }
+      setSelectedId(webhook.id);
+      setLogRefreshKey((key) => key + 1);
+      await loadWebhooks();
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to send test event');
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  return (
+    <UserLayout>
+      <div className="w-full space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" onClick={() => router.back()}>
+            ← Back to Device
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-2xl font-bold text-text-primary">Webhooks</h1>
+            <p className="text-text-muted text-sm">{deviceId}</p>
+          </div>
+          {!editing && (
+            <Button variant="primary" size="sm" onClick={() => { resetMessages(); setEditing('new'); }}>
+              + New Webhook
+            </Button>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-danger-soft border border-danger rounded-lg p-3">
+            <p className="text-sm text-danger">{error}</p>
+          </div>
+        )}
+        {success && (
+          <div className="bg-success-soft border border-success rounded-lg p-3">
+            <p className="text-sm text-success">{success}</p>
+          </div>
+        )}
+
+        {revealedSecret && (
+          <Card>
+            <p className="font-semibold text-text-primary mb-1">Signing secret</p>
+            <p className="text-sm text-text-muted mb-3">
+              Copy it now, it will not be shown again. Each request carries an{' '}
+              <code className="font-mono">X-Signature-256: sha256=&lt;hmac&gt;</code> header computed
+              over the raw body with this secret.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 font-mono text-sm bg-elevated border border-divider rounded px-3 py-2 break-all">
+                {revealedSecret.secret}
+              </code>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => navigator.clipboard.writeText(revealedSecret.secret)}
+              >
+                Copy
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setRevealedSecret(null)}>
+                Done
+              </Button>
+            </div>
+          </Card>
+        )}
+
+        {editing && (
+          <Card>
+            <h2 className="text-lg font-bold text-text-primary mb-4">
+              {editing === 'new' ? 'New Webhook' : 'Edit Webhook'}
+            </h2>
+            <WebhookForm
+              key={editing === 'new' ? 'new' : editing.id}
+              events={events}
+              webhook={editing === 'new' ? null : editing}
+              isSaving={isSaving}
+              onSubmit={handleSubmit}
+              onCancel={() => setEditing(null)}
+            />
+          </Card>
+        )}
+
+        {/* Webhook list */}
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : webhooks.length === 0 ? (
+          <Card>
+            <p className="text-center text-text-muted py-6">
+              No webhooks yet. Add one to receive incoming messages, receipts and job events on your own server.
+            </p>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {webhooks.map((webhook) => (
+              <Card key={webhook.id} className={selectedId === webhook.id ? 'border-primary' : ''}>
+                <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+                  <button
+                    className="text-left flex-1 min-w-0"
+                    onClick={() => setSelectedId(webhook.id)}
+                  >
+                    <div className="flex items-center gap-2 mb-1">
+                      <Badge variant={webhook.isActive ? 'success' : 'warning'}>
+                        {webhook.isActive ? 'Active' : 'Disabled'}
+                      </Badge>
+                      {webhook.lastDeliveryStatus && (
+                        <Badge variant={webhook.lastDeliveryStatus === 'success' ? 'info' : 'danger'}>
+                          Last: {webhook.lastDeliveryStatus}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="font-mono text-sm text-text-primary break-all">{webhook.url}</p>
+                    {webhook.description && (
+                      <p className="text-sm text-text-secondary">{webhook.description}</p>
+                    )}
+                    <p className="text-xs text-text-muted mt-1">{webhook.events.join(', ')}</p>
+                  </button>
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      variant="primary"
+                      size="sm"
+                      onClick={() => handleTest(webhook)}
+                      disabled={testingId !== null}
+                    >
+                      {testingId === webhook.id ? 'Sending...' : 'Send Test Event'}
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => { resetMessages(); setEditing(webhook); }}>
+                      Edit
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleToggleActive(webhook)}>
+                      {webhook.isActive ? 'Disable' : 'Enable'}
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleRotateSecret(webhook)}>
+                      Rotate Secret
+                    </Button>
+                    <Button variant="danger" size="sm" onClick={() => handleDelete(webhook)}>
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+
+                {selectedId === webhook.id && (
+                  <div className="mt-6 pt-4 border-t border-divider">
+                    <WebhookDeliveryLog
+                      deviceId={deviceId}
+                      webhookId={webhook.id}
+                      refreshKey={logRefreshKey}
+                    />
+                  </div>
+                )}
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </UserLayout>
+  );
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Headphones } from 'lucide-react';
+import UserLayout from '@/components/layout/UserLayout';
+import Card from '@/components/ui/Card';
+import HandoffCard from '@/components/bot/HandoffCard';
+import { useAppDispatch, useAppSelector } from '@/hooks/useAppDispatch';
+import { fetchHandoffQueue, fetchHandoffAgents, HandoffQueueFilters } from '@/store/slices/botSlice';
+
+type AssigneeFilter = 'me' | 'unassigned' | 'all';
+type StatusFilter = 'open' | 'pending_customer' | 'all';
+
+const ASSIGNEE_FILTERS: { value: AssigneeFilter; label: string }[] = [
+  { value: 'me', label: 'Assigned to me' },
+  { value: 'unassigned', label: 'Unassigned' },
+  { value: 'all', label: 'All' },
+];
+
+const STATUS_FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: 'all', label: 'Any status' },
+  { value: 'open', label: 'Open' },
+  { value: 'pending_customer', label: 'Pending customer' },
+];
+
+export default function HandoffQueuePage() {
+  const dispatch = useAppDispatch();
+  const queue = useAppSelector((state) => state.bot.queue);
+  const isLoading = useAppSelector((state) => state.bot.loading.queue);
+  const agents = useAppSelector((state) => state.bot.agents);
+  const currentUserId = useAppSelector((state) => state.auth.user?.id);
+
+  const [assigneeFilter, setAssigneeFilter] = useState<AssigneeFilter>('me');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const filters: HandoffQueueFilters = {};
+    if (assigneeFilter !== 'all') filters.assignee = assigneeFilter;
+    if (statusFilter !== 'all') filters.status = statusFilter;
+
+    const loadQueue = () =>
+      dispatch(fetchHandoffQueue(filters))
+        .unwrap()
+        .then(() => setError(null))
+        .catch((err) => setError((err as string) || 'Failed to load handoff queue'));
+
+    loadQueue();
+    const interval = setInterval(loadQueue, 30000);
+    return () => clearInterval(interval);
+  }, [dispatch, assigneeFilter, statusFilter]);
+
+  // Agents to assign to, once per device in the queue
+  const queueDeviceIds = Array.from(new Set(queue.map((handoff) => handoff.deviceId)));
+  const missingAgentDevices = queueDeviceIds.filter((deviceId) => !agents[deviceId]).join(',');
+  useEffect(() => {
+    if (!missingAgentDevices) return;
+    missingAgentDevices.split(',').forEach((deviceId) => dispatch(fetchHandoffAgents(deviceId)));
+  }, [dispatch, missingAgentDevices]);
+
+  const filterClass = (active: boolean) =>
+    `px-3 py-1.5 text-sm rounded-lg transition-colors ${
+      active ? 'bg-primary text-white' : 'bg-elevated text-text-secondary hover:bg-border'
+    }`;
+
+  return (
+    <UserLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold text-text-primary">Handoffs</h1>
+          <p className="text-text-muted">
+            Conversations handed to a human on every device you work on
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap gap-4">
+          <div className="flex gap-2">
+            {ASSIGNEE_FILTERS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setAssigneeFilter(value)}
+                className={filterClass(assigneeFilter === value)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            {STATUS_FILTERS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setStatusFilter(value)}
+                className={filterClass(statusFilter === value)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Error */}
+        {error && (
+          <div className="bg-danger-soft border border-danger rounded-lg p-4">
+            <p className="text-sm text-danger">{error}</p>
+          </div>
+        )}
+
+        {/* Queue */}
+        {isLoading && queue.length === 0 ? (
+          <Card padding="md">
+            <div className="p-8 text-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+              <p className="mt-2 text-text-muted">Loading handoffs...</p>
+            </div>
+          </Card>
+        ) : queue.length === 0 ? (
+          <Card padding="md">
+            <div className="p-8 text-center">
+              <div className="flex justify-center mb-4">
+                <Headphones className="w-12 h-12 text-text-muted" />
+              </div>
+              <p className="text-text-primary font-medium mb-1">Nothing waiting</p>
+              <p className="text-sm text-text-muted">
+                {assigneeFilter === 'me'
+                  ? 'No conversations are assigned to you.'
+                  : 'No handed-off conversations match these filters.'}
+              </p>
+            </div>
+          </Card>
+        ) : (
+          <div className="grid gap-4">
+            {queue.map((handoff) => (
+              <HandoffCard
+                key={handoff.id}
+                handoff={handoff}
+                agents={agents[handoff.deviceId]}
+                currentUserId={currentUserId}
+                showDevice
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </UserLayout>
+  );
+}
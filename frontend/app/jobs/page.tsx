@@ -1,6 +1,7 @@
 'use client';
 
 import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { Inbox } from 'lucide-react';
 import UserLayout from '@/components/layout/UserLayout';
@@ -14,11 +15,15 @@ interface Job {
   id: string;
   type: 'send-text' | 'send-media';
   deviceId: string;
+  campaignId: string | null;
   status: 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'paused';
   progress: {
     total: number;
     completed: number;
     failed: number;
+    skipped?: number; // opted-out recipients
+    delivered?: number; // from delivery receipts
+    read?: number; // from read receipts
   };
   createdAt: string | null;
   startedAt: string | null;
@@ -220,6 +225,14 @@ export default function UserJobsPage() {
                       </div>
                       <p className="text-sm text-text-muted truncate">
                         Device: {job.deviceId}
+                        {job.campaignId && (
+                          <>
+                            {' • '}
+                            <Link href={`/campaigns/${job.campaignId}`} className="text-primary hover:underline">
+                              View campaign results
+                            </Link>
+                          </>
+                        )}
                       </p>
                       <p className="text-xs text-text-muted mt-1">
                         Created: {formatDate(job.createdAt)}
@@ -244,19 +257,34 @@ export default function UserJobsPage() {
                           style={{ width: `${getProgressPercentage(job)}%` }}
                         ></div>
                       </div>
-                      {/* Completed/Failed Count */}
-                      {(job.progress.completed > 0 || job.progress.failed > 0) && (
+                      {/* Completed/Failed/Skipped Count */}
+                      {(job.progress.completed > 0 || job.progress.failed > 0 || !!job.progress.skipped) && (
                         <div className="flex flex-col gap-0.5 mt-1 text-xs">
                           {job.progress.completed > 0 && (
                             <span className="text-success">
                               {job.progress.completed} completed
                             </span>
                           )}
+                          {!!job.progress.delivered && (
+                            <span className="text-text-secondary">
+                              {job.progress.delivered} delivered
+                            </span>
+                          )}
+                          {!!job.progress.read && (
+                            <span className="text-info">
+                              {job.progress.read} read
+                            </span>
+                          )}
                           {job.progress.failed > 0 && (
                             <span className="text-danger">
                               {job.progress.failed} failed
                             </span>
                           )}
+                          {!!job.progress.skipped && (
+                            <span className="text-warning">
+                              {job.progress.skipped} opted out
+                            </span>
+                          )}
                         </div>
                       )}
                     </div>
@@ -6,11 +6,14 @@ import UserLayout from '@/components/layout/UserLayout';
 import Card from '@/components/ui/Card';
 import Input from '@/components/ui/Input';
 import Button from '@/components/ui/Button';
+import ApiKeys from '@/components/profile/ApiKeys';
+import WorkspaceMembers from '@/components/profile/WorkspaceMembers';
 import { useAppSelector, useAppDispatch } from '@/hooks/useAppDispatch';
 import { getProfile, updateProfile, uploadProfilePhoto, Profile } from '@/lib/userService';
 import { ApiError } from '@/lib/api';
 import { updateUser } from '@/store/slices/authSlice';
-import { Camera, User, Mail, Phone, FileText, Save, X } from 'lucide-react';
+import { COUNTRY_OPTIONS, DEFAULT_COUNTRY } from '@/lib/phoneNumber';
+import { Camera, User, Mail, Phone, FileText, Save, X, Globe } from 'lucide-react';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5005';
 
@@ -34,6 +37,7 @@ export default function ProfilePage() {
   const [fullName, setFullName] = useState('');
   const [phoneNumber, setPhoneNumber] = useState('');
   const [bio, setBio] = useState('');
+  const [defaultCountry, setDefaultCountry] = useState(DEFAULT_COUNTRY);
 
   useEffect(() => {
     if (!isAuthenticated) {
@@ -56,6 +60,7 @@ export default function ProfilePage() {
       setFullName(response.user.fullName || '');
       setPhoneNumber(response.user.phoneNumber || '');
       setBio(response.user.bio || '');
+      setDefaultCountry(response.user.defaultCountry || DEFAULT_COUNTRY);
     } catch (err) {
       const apiError = err as ApiError;
       setError(apiError.message || 'Failed to load profile');
@@ -78,6 +83,7 @@ export default function ProfilePage() {
         fullName: fullName || undefined,
         phoneNumber: phoneNumber || undefined,
         bio: bio || undefined,
+        defaultCountry,
       };
 
       const response = await updateProfile(updateData);
@@ -314,6 +320,28 @@ export default function ProfilePage() {
                         placeholder="+62..."
                       />
                     </div>
+
+                    {/* Default Country */}
+                    <div>
+                      <label className="block text-sm font-medium text-text-primary mb-2 flex items-center gap-2">
+                        <Globe className="w-4 h-4" />
+                        Default Country
+                      </label>
+                      <select
+                        value={defaultCountry}
+                        onChange={(e) => setDefaultCountry(e.target.value)}
+                        className="w-full px-3 py-2 bg-elevated border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-primary"
+                      >
+                        {COUNTRY_OPTIONS.map(({ value, label }) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-text-muted mt-1">
+                        Used for phone numbers entered without a country code. Devices can override it.
+                      </p>
+                    </div>
                   </div>
 
                   {/* Bio */}
@@ -348,6 +376,16 @@ export default function ProfilePage() {
                 </div>
               </form>
             </Card>
+
+            {/* API Keys */}
+            <Card padding="md">
+              <ApiKeys />
+            </Card>
+
+            {/* Team members */}
+            <Card padding="md">
+              <WorkspaceMembers />
+            </Card>
           </>
         )}
       </div>
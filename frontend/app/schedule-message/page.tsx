@@ -7,20 +7,33 @@ import Card from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
 import { useAppSelector, useAppDispatch } from '@/hooks/useAppDispatch';
 import { fetchUserDevices, fetchConnectedDevices } from '@/store/slices/userDashboardSlice';
-import { scheduleMessage, parsePhoneNumbers } from '@/lib/userService';
+import { scheduleMessage, parsePhoneNumbers, AudienceSegment, MissedRunPolicy, RecurrenceRule } from '@/lib/userService';
+import { Group } from '@/lib/groupService';
+import { describeRecurrence } from '@/lib/recurrence';
+import { resolveDefaultCountry } from '@/lib/phoneNumber';
 import TargetNumbersInput from '@/components/scheduler/TargetNumbersInput';
 import ScheduleTimePicker from '@/components/scheduler/ScheduleTimePicker';
 import ExecutionProgress from '@/components/scheduler/ExecutionProgress';
 import ResultsSummary from '@/components/scheduler/ResultsSummary';
 import ScheduledMessageHistory from '@/components/scheduler/ScheduledMessageHistory';
 import ScheduledMessageManager from '@/components/scheduler/ScheduledMessageManager';
+import SegmentPicker from '@/components/contacts/SegmentPicker';
+import GroupTargetPicker from '@/components/scheduler/GroupTargetPicker';
+import MediaAttachmentInput from '@/components/scheduler/MediaAttachmentInput';
+import { useSegmentPreview } from '@/hooks/useSegmentPreview';
+
+const MISSED_RUN_OPTIONS: { value: MissedRunPolicy; label: string }[] = [
+  { value: 'send_late', label: 'Send it late' },
+  { value: 'skip', label: 'Skip that run' },
+  { value: 'notify', label: 'Skip that run and notify me' },
+];
 
 function ScheduleMessageContent() {
   const router = useRouter();
   const dispatch = useAppDispatch();
   const user = useAppSelector((state) => state.auth.user);
   const isAuthenticated = useAppSelector((state) => state.auth.isAuthenticated);
-  const { connectedDevices, isLoadingDevices, devicesError } = useAppSelector(
+  const { devices, connectedDevices, isLoadingDevices, devicesError } = useAppSelector(
     (state) => state.userDashboard
   );
 
@@ -28,9 +41,16 @@ function ScheduleMessageContent() {
   const [refreshHistory, setRefreshHistory] = useState(0);
 
   const [selectedDeviceId, setSelectedDeviceId] = useState<string>('');
+  const [targetMode, setTargetMode] = useState<'numbers' | 'segment' | 'group'>('numbers');
   const [phoneInput, setPhoneInput] = useState('');
+  const [selectedSegment, setSelectedSegment] = useState<AudienceSegment | null>(null);
+  const [selectedGroup, setSelectedGroup] = useState<Group | null>(null);
+  const [mentions, setMentions] = useState<string[]>([]);
+  const [mediaFile, setMediaFile] = useState<File | null>(null);
   const [message, setMessage] = useState('');
   const [scheduleDate, setScheduleDate] = useState('');
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [missedRunPolicy, setMissedRunPolicy] = useState<MissedRunPolicy>('send_late');
   
   const [isProcessing, setIsProcessing] = useState(false);
   const [showConfirm, setShowConfirm] = useState(false);
@@ -69,22 +89,75 @@ function ScheduleMessageContent() {
     }
   }, [connectedDevices, selectedDeviceId]);
 
+  // Groups belong to a device
+  useEffect(() => {
+    setSelectedGroup(null);
+    setMentions([]);
+  }, [selectedDeviceId]);
+
+  // Segments are sent as text jobs, and mentions only go with group text
+  const mediaDisabledReason =
+    targetMode === 'segment'
+      ? 'Attachments cannot be sent to a segment.'
+      : targetMode === 'group' && mentions.length > 0
+        ? 'Attachments cannot be combined with mentions.'
+        : undefined;
+
+  const selectedDevice = connectedDevices.find((d) => d.deviceId === selectedDeviceId);
+  const defaultCountry = resolveDefaultCountry(selectedDevice, user);
+
+  const { preview: segmentPreview, isLoading: isCountingSegment } = useSegmentPreview(
+    targetMode === 'segment' && selectedSegment ? selectedSegment.rules : null,
+    message.trim()
+  );
+
   const handleValidate = (e: React.FormEvent) => {
     e.preventDefault();
     if (!selectedDeviceId) {
       setError('Please select a device');
       return;
     }
-    if (!message.trim()) {
-      setError('Please enter a message');
+    if (!message.trim() && !mediaFile) {
+      setError('Please enter a message or attach a file');
+      return;
+    }
+    if (mediaFile && mediaDisabledReason) {
+      setError(mediaDisabledReason);
       return;
     }
     if (!scheduleDate) {
       setError('Please select a schedule time');
       return;
     }
+    if (recurrence?.until && new Date(recurrence.until) < new Date(scheduleDate)) {
+      setError('The repeat end date must be after the first run');
+      return;
+    }
 
-    const { valid, invalid } = parsePhoneNumbers(phoneInput);
+    if (targetMode === 'group') {
+      if (!selectedGroup) {
+        setError('Please select a group');
+        return;
+      }
+      setTargets([]);
+      setError(null);
+      setShowConfirm(true);
+      return;
+    }
+
+    if (targetMode === 'segment') {
+      if (!selectedSegment) {
+        setError('Please select a segment');
+        return;
+      }
+      // The segment is expanded when the message is due
+      setTargets([]);
+      setError(null);
+      setShowConfirm(true);
+      return;
+    }
+
+    const { valid, invalid, normalized } = parsePhoneNumbers(phoneInput, defaultCountry);
     if (valid.length === 0) {
       setError('Please enter at least one valid phone number');
       return;
@@ -95,7 +168,8 @@ function ScheduleMessageContent() {
       // For now, let's strictly require all to be clean or just ignore invalid
     }
 
-    setTargets(valid);
+    // Send full E.164 so the backend cannot read the number differently
+    setTargets(valid.map((line) => `+${normalized.get(line)}`));
     setError(null);
     setShowConfirm(true); // Proceed to confirmation/execution flow
   };
@@ -103,7 +177,17 @@ function ScheduleMessageContent() {
   const handleConfirm = async () => {
     setShowConfirm(false);
     setIsProcessing(true);
-    setProgress({ current: 0, total: targets.length, success: 0, failed: 0 });
+
+    // A segment or group is a single scheduled message
+    const segmentTarget = targetMode === 'segment' && selectedSegment ? selectedSegment : null;
+    const groupTarget = targetMode === 'group' && selectedGroup ? selectedGroup : null;
+    const targetList = segmentTarget
+        ? [`Segment: ${segmentTarget.name}`]
+        : groupTarget
+            ? [`Group: ${groupTarget.subject}`]
+            : targets;
+
+    setProgress({ current: 0, total: targetList.length, success: 0, failed: 0 });
     setResults([]);
 
     const resultsList = [];
@@ -111,16 +195,23 @@ function ScheduleMessageContent() {
     let failedCount = 0;
 
     // Process sequentially to avoid overwhelming the server/device
-    for (let i = 0; i < targets.length; i++) {
-        const phone = targets[i];
+    for (let i = 0; i < targetList.length; i++) {
+        const phone = targetList[i];
         setProgress(prev => ({ ...prev, current: i + 1 }));
 
         try {
             await scheduleMessage(selectedDeviceId, {
-                to: phone,
+                ...(segmentTarget
+                    ? { segmentId: segmentTarget.id }
+                    : groupTarget
+                        ? { groupId: groupTarget.id, ...(mentions.length > 0 && { mentions }) }
+                        : { to: phone }),
                 message: message.trim(),
+                ...(mediaFile && !mediaDisabledReason && { file: mediaFile }),
                 scheduleTime: new Date(scheduleDate).toISOString(),
-                timezone: Intl.DateTimeFormat().resolvedOptions().timeZone
+                timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+                recurrence,
+                missedRunPolicy
             });
             successCount++;
             resultsList.push({ phone, success: true });
@@ -140,7 +231,11 @@ function ScheduleMessageContent() {
         // Clear form
         setPhoneInput('');
         setMessage('');
+        setMediaFile(null);
+        setMentions([]);
         setScheduleDate('');
+        setRecurrence(null);
+        setMissedRunPolicy('send_late');
         
         setRefreshHistory(prev => prev + 1); // Trigger history refresh
         
@@ -277,30 +372,101 @@ function ScheduleMessageContent() {
                     )}
 
                     <form onSubmit={handleValidate} className="space-y-6">
-                        <TargetNumbersInput 
-                            value={phoneInput}
-                            onChange={setPhoneInput}
-                        />
+                        <div className="flex gap-1 text-sm">
+                            {(['numbers', 'segment', 'group'] as const).map((mode) => (
+                                <button
+                                    key={mode}
+                                    type="button"
+                                    onClick={() => setTargetMode(mode)}
+                                    className={`px-3 py-1 rounded-lg ${
+                                        targetMode === mode ? 'bg-primary-soft text-primary' : 'text-text-muted hover:text-text-primary'
+                                    }`}
+                                >
+                                    {mode === 'numbers' ? 'Phone numbers' : mode === 'segment' ? 'Segment' : 'Group'}
+                                </button>
+                            ))}
+                        </div>
+
+                        {targetMode === 'numbers' ? (
+                            <TargetNumbersInput 
+                                value={phoneInput}
+                                onChange={setPhoneInput}
+                                defaultCountry={defaultCountry}
+                            />
+                        ) : targetMode === 'group' ? (
+                            <GroupTargetPicker
+                                deviceId={selectedDeviceId}
+                                selected={selectedGroup}
+                                onChange={setSelectedGroup}
+                                mentions={mentions}
+                                onMentionsChange={setMentions}
+                            />
+                        ) : (
+                            <div>
+                                <label className="block text-sm font-medium text-text-primary mb-2">
+                                    Target Segment
+                                </label>
+                                <SegmentPicker
+                                    selected={selectedSegment}
+                                    onChange={setSelectedSegment}
+                                    devices={devices}
+                                    preview={segmentPreview}
+                                    isCounting={isCountingSegment}
+                                />
+                                <p className="text-xs text-text-muted mt-1">
+                                    Contacts are collected when the message is due. Use {'{{name}}'} or custom fields to personalize it.
+                                </p>
+                            </div>
+                        )}
 
                         <div>
                             <label className="block text-sm font-medium text-text-primary mb-2">
-                                Message
+                                {mediaFile ? 'Caption' : 'Message'}
                             </label>
                             <textarea
                                 value={message}
                                 onChange={(e) => setMessage(e.target.value)}
-                                placeholder="Type your message here..."
+                                placeholder={mediaFile ? 'Optional caption...' : 'Type your message here...'}
                                 rows={4}
                                 className="w-full px-4 py-2.5 bg-card border border-border rounded-lg text-text-primary placeholder-text-muted focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 focus:ring-offset-app transition-all resize-none"
-                                required
+                                required={!mediaFile}
                             />
                         </div>
 
+                        <MediaAttachmentInput
+                            file={mediaFile}
+                            onChange={setMediaFile}
+                            disabled={Boolean(mediaDisabledReason)}
+                            disabledReason={mediaDisabledReason}
+                        />
+
                         <ScheduleTimePicker 
                             value={scheduleDate}
                             onChange={setScheduleDate}
+                            recurrence={recurrence}
+                            onRecurrenceChange={setRecurrence}
                         />
 
+                        <div>
+                            <label className="block text-sm font-medium text-text-primary mb-2">
+                                If the server is down at send time
+                            </label>
+                            <select
+                                value={missedRunPolicy}
+                                onChange={(e) => setMissedRunPolicy(e.target.value as MissedRunPolicy)}
+                                className="w-full px-3 py-2 bg-elevated border border-border rounded-lg text-text-primary text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                            >
+                                {MISSED_RUN_OPTIONS.map((option) => (
+                                    <option key={option.value} value={option.value}>
+                                        {option.label}
+                                    </option>
+                                ))}
+                            </select>
+                            <p className="mt-1 text-xs text-text-secondary">
+                                Applies to runs that are more than 5 minutes late.
+                            </p>
+                        </div>
+
                         <div className="flex items-center justify-end gap-3 pt-2">
                             <Button
                             type="submit"
@@ -321,14 +487,30 @@ function ScheduleMessageContent() {
                         <div className="p-6">
                             <h3 className="text-xl font-bold text-text-primary mb-4">Confirm Schedule</h3>
                             <div className="space-y-4 text-sm text-text-secondary">
-                                <p>You are about to schedule a message to <strong>{targets.length} recipients</strong>.</p>
+                                {targetMode === 'segment' && selectedSegment ? (
+                                    <p>
+                                        You are about to schedule a message to segment <strong>{selectedSegment.name}</strong>
+                                        {segmentPreview && <> (currently <strong>{segmentPreview.count} contacts</strong>)</>}.
+                                    </p>
+                                ) : targetMode === 'group' && selectedGroup ? (
+                                    <p>
+                                        You are about to schedule a message to group <strong>{selectedGroup.subject}</strong>
+                                        {mentions.length > 0 && <> mentioning <strong>{mentions.length} participants</strong></>}.
+                                    </p>
+                                ) : (
+                                    <p>You are about to schedule a message to <strong>{targets.length} recipients</strong>.</p>
+                                )}
                                 <div className="p-3 bg-elevated rounded-lg">
-                                    <p className="font-medium text-text-primary mb-1">Time:</p>
+                                    <p className="font-medium text-text-primary mb-1">{recurrence ? 'First run:' : 'Time:'}</p>
                                     <p>{new Date(scheduleDate).toLocaleString()}</p>
+                                    {recurrence && <p className="mt-1">Repeats: {describeRecurrence(recurrence)}</p>}
                                 </div>
                                 <div className="p-3 bg-elevated rounded-lg">
-                                    <p className="font-medium text-text-primary mb-1">Message:</p>
-                                    <p className="line-clamp-3 italic">{message}</p>
+                                    <p className="font-medium text-text-primary mb-1">{mediaFile ? 'Caption:' : 'Message:'}</p>
+                                    <p className="line-clamp-3 italic">{message || '(none)'}</p>
+                                    {mediaFile && !mediaDisabledReason && (
+                                        <p className="mt-1">Attachment: {mediaFile.name}</p>
+                                    )}
                                 </div>
                             </div>
                             <div className="flex justify-end gap-3 mt-6">
@@ -352,7 +534,13 @@ function ScheduleMessageContent() {
           <ScheduledMessageManager 
             onReschedule={(msg) => {
               // Pre-fill the schedule form with failed message data
-              setPhoneInput(msg.phoneNumber);
+              if (msg.phoneNumber) {
+                setTargetMode('numbers');
+                setPhoneInput(msg.phoneNumber);
+              } else if (msg.groupId) {
+                // The group is picked again from the device's groups
+                setTargetMode('group');
+              }
               setMessage(msg.message);
               setActiveTab('schedule');
             }}
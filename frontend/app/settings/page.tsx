@@ -8,6 +8,10 @@ import UserLayout from '@/components/layout/UserLayout';
 import Card from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
 import Input from '@/components/ui/Input';
+import TwoFactorSettings from '@/components/settings/TwoFactorSettings';
+import LoginSessions from '@/components/settings/LoginSessions';
+import DeleteAccount from '@/components/settings/DeleteAccount';
+import NotificationPreferences from '@/components/settings/NotificationPreferences';
 import { updateProfile } from '@/lib/userService';
 import { ApiError } from '@/lib/api';
 import { Lock, Shield, Bell, AlertTriangle, Check, X } from 'lucide-react';
@@ -172,24 +176,8 @@ export default function SettingsPage() {
           </div>
 
           <div className="space-y-3">
-            <div className="flex items-center justify-between py-3 border-b border-divider">
-              <div>
-                <p className="text-text-primary font-medium">Two-Factor Authentication</p>
-                <p className="text-sm text-text-muted">Add an extra layer of security</p>
-              </div>
-              <Button variant="outline" size="sm" disabled>
-                Coming Soon
-              </Button>
-            </div>
-            <div className="flex items-center justify-between py-3 border-b border-divider">
-              <div>
-                <p className="text-text-primary font-medium">Login History</p>
-                <p className="text-sm text-text-muted">View all active sessions</p>
-              </div>
-              <Button variant="outline" size="sm" disabled>
-                Coming Soon
-              </Button>
-            </div>
+            <TwoFactorSettings />
+            <LoginSessions />
           </div>
         </Card>
 
@@ -205,18 +193,7 @@ export default function SettingsPage() {
             </div>
           </div>
 
-          <div className="space-y-3">
-            {['Email Notifications', 'Push Notifications', 'SMS Alerts', 'Weekly Reports'].map((setting) => (
-              <label key={setting} className="flex items-center justify-between py-2 cursor-pointer">
-                <span className="text-text-secondary">{setting}</span>
-                <input
-                  type="checkbox"
-                  className="w-5 h-5 rounded border-border text-primary focus:ring-2 focus:ring-primary cursor-pointer"
-                  defaultChecked
-                />
-              </label>
-            ))}
-          </div>
+          <NotificationPreferences />
         </Card>
 
         {/* Danger Zone */}
@@ -231,14 +208,7 @@ export default function SettingsPage() {
             </div>
           </div>
 
-          <div className="border border-danger/30 rounded-lg p-4 bg-danger/5">
-            <p className="text-text-muted text-sm mb-4">
-              Once you delete your account, there is no going back. Please be certain.
-            </p>
-            <Button variant="danger" disabled>
-              Delete Account
-            </Button>
-          </div>
+          <DeleteAccount />
         </Card>
       </div>
     </Layout>
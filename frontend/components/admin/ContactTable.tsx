@@ -1,6 +1,7 @@
 import React from 'react';
 import Link from 'next/link';
 import { Contact } from '@/lib/adminService';
+import { formatPhoneNumber } from '@/lib/phoneNumber';
 import Badge from '@/components/ui/Badge';
 import Button from '@/components/ui/Button';
 
@@ -73,7 +74,7 @@ export default function ContactTable({ contacts, isLoading = false }: ContactTab
                 </div>
               </td>
               <td className="py-3 px-4 text-text-secondary text-sm">
-                {contact.phoneNumber}
+                {formatPhoneNumber(contact.phoneNumber)}
               </td>
               <td className="py-3 px-4 text-text-secondary text-sm">
                 {contact.email || '-'}
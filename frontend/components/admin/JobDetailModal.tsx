@@ -93,6 +93,11 @@ export default function JobDetailModal({
                     <span className="text-danger ml-2">({job.progress.failed} failed)</span>
                   )}
                 </p>
+                {job.progress.completed > 0 && (
+                  <p className="text-text-secondary text-xs mt-1">
+                    {job.progress.delivered ?? 0} delivered • {job.progress.read ?? 0} read
+                  </p>
+                )}
                 <div className="w-full bg-secondary rounded-full h-2 mt-1">
                   <div
                     className="bg-primary h-2 rounded-full transition-all"
@@ -79,7 +79,7 @@ export default function UserTable({
               </td>
               <td className="py-3 px-4">
                 <Badge variant={user.isActive ? 'success' : 'danger'}>
-                  {user.isActive ? 'Active' : 'Inactive'}
+                  {user.deletedAt ? 'Pending Deletion' : user.isActive ? 'Active' : 'Inactive'}
                 </Badge>
               </td>
               <td className="py-3 px-4 text-text-secondary text-sm">
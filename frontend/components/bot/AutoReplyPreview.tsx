@@ -1,15 +1,157 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import { AutoReplyRule } from '@/store/slices/botSlice';
 import Card from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import { ApiError } from '@/lib/api';
+import { BotFlow, END_ACTION_LABELS, SimulationResult, SimulationSession, simulateBotReply } from '@/lib/botFlows';
 
 interface AutoReplyPreviewProps {
   rules: AutoReplyRule[];
   isLoading: boolean;
+  /** Shows the simulator for this device */
+  deviceId?: string;
+  /** Simulate only this (unsaved) flow instead of the stored flows and rules */
+  draftFlow?: Partial<BotFlow> | null;
 }
 
-export default function AutoReplyPreview({ rules, isLoading }: AutoReplyPreviewProps) {
+interface SimulatorEntry {
+  from: 'user' | 'bot' | 'note';
+  text: string;
+}
+
+/**
+ * Chat with the bot of a device without sending anything. Flows keep their
+ * place between messages; safety limits, business hours and handoff keywords
+ * are not simulated.
+ */
+function BotSimulator({ deviceId, draftFlow }: { deviceId: string; draftFlow?: Partial<BotFlow> | null }) {
+  const [entries, setEntries] = useState<SimulatorEntry[]>([]);
+  const [session, setSession] = useState<SimulationSession | null>(null);
+  const [message, setMessage] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const notesFor = (result: SimulationResult): SimulatorEntry[] => {
+    if (!result.matched) {
+      return [{ from: 'note', text: 'No flow or rule matched; the bot stays silent.' }];
+    }
+    const notes: SimulatorEntry[] = [];
+    if (result.action) {
+      const fields = Object.entries(result.action.fields)
+        .map(([field, value]) => `${field}: ${value}`)
+        .join(', ');
+      notes.push({
+        from: 'note',
+        text: `Flow "${result.matched.name}" ended · ${END_ACTION_LABELS[result.action.type]}${fields ? ` · ${fields}` : ''}`,
+      });
+    } else if (result.matched.kind === 'rule') {
+      notes.push({ from: 'note', text: `Rule "${result.matched.name}" matched` });
+    }
+    return notes;
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = message.trim();
+    if (!text || isSending) return;
+
+    setMessage('');
+    setEntries((current) => [...current, { from: 'user', text }]);
+    setIsSending(true);
+    try {
+      const result = await simulateBotReply(deviceId, text, session, draftFlow);
+      setSession(result.session);
+      setEntries((current) => [
+        ...current,
+        ...result.replies.map((reply) => ({ from: 'bot' as const, text: reply })),
+        ...notesFor(result),
+      ]);
+    } catch (err) {
+      setEntries((current) => [
+        ...current,
+        { from: 'note', text: (err as ApiError).message || 'Simulation failed' },
+      ]);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleReset = () => {
+    setEntries([]);
+    setSession(null);
+  };
+
+  return (
+    <Card padding="md">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="font-bold text-text-primary">Simulator</h3>
+          <p className="text-xs text-text-muted">
+            {draftFlow ? 'Testing this flow as edited' : 'Flows and rules of this device'} · nothing is sent
+          </p>
+        </div>
+        <Button variant="ghost" size="sm" onClick={handleReset} disabled={entries.length === 0}>
+          Reset
+        </Button>
+      </div>
+
+      <div className="h-72 overflow-y-auto space-y-2 p-3 bg-surface-ground rounded border border-border">
+        {entries.length === 0 && (
+          <p className="text-xs text-text-muted text-center pt-8">
+            {draftFlow?.trigger ? `Send "${draftFlow.trigger}" to start the flow.` : 'Send a message to see how the bot replies.'}
+          </p>
+        )}
+        {entries.map((entry, index) =>
+          entry.from === 'note' ? (
+            <p key={index} className="text-[11px] text-text-muted text-center italic">
+              {entry.text}
+            </p>
+          ) : (
+            <div key={index} className={`flex ${entry.from === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div
+                className={`max-w-[85%] px-3 py-2 rounded-lg text-sm whitespace-pre-wrap break-words ${
+                  entry.from === 'user' ? 'bg-primary text-white' : 'bg-surface border border-border text-text-primary'
+                }`}
+              >
+                {entry.text}
+              </div>
+            </div>
+          )
+        )}
+      </div>
+
+      <form onSubmit={handleSend} className="flex gap-2 mt-3">
+        <input
+          type="text"
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          placeholder={session ? 'Answer the bot…' : 'Type a message…'}
+          maxLength={4096}
+          className="flex-1 border border-border rounded px-3 py-2 text-sm bg-surface text-text-primary"
+        />
+        <Button type="submit" variant="primary" size="sm" disabled={isSending || !message.trim()}>
+          Send
+        </Button>
+      </form>
+    </Card>
+  );
+}
+
+export default function AutoReplyPreview({ rules, isLoading, deviceId, draftFlow }: AutoReplyPreviewProps) {
+  if (!deviceId) {
+    return <RulesPreview rules={rules} isLoading={isLoading} />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <BotSimulator deviceId={deviceId} draftFlow={draftFlow} />
+      {!draftFlow && <RulesPreview rules={rules} isLoading={isLoading} />}
+    </div>
+  );
+}
+
+function RulesPreview({ rules, isLoading }: { rules: AutoReplyRule[]; isLoading: boolean }) {
   if (isLoading && rules.length === 0) {
     return (
       <Card padding="md">
@@ -6,6 +6,15 @@ import { useToast } from '@/context/ToastContext';
 import { BotConfig, updateBotConfig } from '@/store/slices/botSlice';
 import Card from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
+import WeeklyHoursEditor from '@/components/bot/WeeklyHoursEditor';
+import HolidayEditor from '@/components/bot/HolidayEditor';
+import { BusinessHoliday, BusinessHours, validateBusinessHours } from '@/lib/businessHours';
+
+const splitKeywords = (value: string) =>
+  value
+    .split(',')
+    .map((keyword) => keyword.trim())
+    .filter(Boolean);
 
 interface BotConfigCardProps {
   config: BotConfig | null;
@@ -21,7 +30,15 @@ export default function BotConfigCard({ config, deviceId, error }: BotConfigCard
   // Local state for editing
   const [timezone, setTimezone] = useState('Asia/Jakarta');
   const [offHoursMessage, setOffHoursMessage] = useState('');
-  const [businessHours, setBusinessHours] = useState<any[]>([]);
+  const [businessHours, setBusinessHours] = useState<BusinessHours>([]);
+  const [holidays, setHolidays] = useState<BusinessHoliday[]>([]);
+  const [offHoursEnabled, setOffHoursEnabled] = useState(false);
+  const [optOutKeywords, setOptOutKeywords] = useState('');
+  const [optInKeywords, setOptInKeywords] = useState('');
+  const [optOutMessage, setOptOutMessage] = useState('');
+  const [optInMessage, setOptInMessage] = useState('');
+  const [rejectCalls, setRejectCalls] = useState(false);
+  const [callRejectMessage, setCallRejectMessage] = useState('');
 
   // Sync local state with props when config loads
   useEffect(() => {
@@ -29,6 +46,14 @@ export default function BotConfigCard({ config, deviceId, error }: BotConfigCard
       setTimezone(config.timezone || 'Asia/Jakarta');
       setOffHoursMessage(config.offHoursMessage || 'Terima kasih telah menghubungi kami. Kami akan membalas pada jam kerja.');
       setBusinessHours(config.businessHours || []);
+      setHolidays(config.holidays || []);
+      setOffHoursEnabled(config.offHoursEnabled);
+      setOptOutKeywords((config.optOutKeywords || []).join(', '));
+      setOptInKeywords((config.optInKeywords || []).join(', '));
+      setOptOutMessage(config.optOutMessage || '');
+      setOptInMessage(config.optInMessage || '');
+      setRejectCalls(config.rejectCalls ?? false);
+      setCallRejectMessage(config.callRejectMessage || '');
     }
   }, [config]);
 
@@ -59,6 +84,8 @@ export default function BotConfigCard({ config, deviceId, error }: BotConfigCard
     );
   }
 
+  const scheduleErrors = validateBusinessHours(businessHours, holidays);
+
   const handleToggleBot = async () => {
     try {
       await dispatch(updateBotConfig({ 
@@ -71,13 +98,33 @@ export default function BotConfigCard({ config, deviceId, error }: BotConfigCard
   };
 
   const handleSaveSettings = async () => {
+    const outKeywords = splitKeywords(optOutKeywords);
+    const inKeywords = splitKeywords(optInKeywords);
+    if (outKeywords.length === 0 || inKeywords.length === 0) {
+      addToast('Enter at least one opt-out and one opt-in keyword', 'error');
+      return;
+    }
+    if (scheduleErrors.length > 0) {
+      setIsBusinessHoursOpen(true);
+      addToast('Fix the business hours before saving', 'error');
+      return;
+    }
+
     try {
       await dispatch(updateBotConfig({
         deviceId,
         config: {
           timezone,
           offHoursMessage,
-          businessHours, // Now including businessHours in save
+          offHoursEnabled,
+          businessHours,
+          holidays,
+          optOutKeywords: outKeywords,
+          optInKeywords: inKeywords,
+          optOutMessage,
+          optInMessage,
+          rejectCalls,
+          callRejectMessage,
         }
       })).unwrap();
       addToast('Settings saved successfully', 'success');
@@ -87,31 +134,6 @@ export default function BotConfigCard({ config, deviceId, error }: BotConfigCard
     }
   };
 
-  // Helper to update schedule for a specific day
-  const updateDaySchedule = (dayIndex: number, changes: any) => {
-    let newSchedule = [...businessHours];
-    const existingIndex = newSchedule.findIndex(s => s.day === dayIndex);
-
-    if (existingIndex >= 0) {
-      // Update existing day
-      if (changes === null) {
-        // Remove day (close)
-        newSchedule.splice(existingIndex, 1);
-      } else {
-        // Modify times
-        newSchedule[existingIndex] = { ...newSchedule[existingIndex], ...changes };
-      }
-    } else if (changes !== null) {
-      // Add new day (open)
-      newSchedule.push({ day: dayIndex, ...changes });
-    }
-
-    // Sort by day index
-    newSchedule.sort((a, b) => a.day - b.day);
-    setBusinessHours(newSchedule);
-  };
-
-  const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 
   return (
     <div className="space-y-6">
@@ -173,78 +195,148 @@ export default function BotConfigCard({ config, deviceId, error }: BotConfigCard
         </div>
       </Card>
       
+      {/* Opt-out Keywords */}
+      <Card padding="lg">
+        <h3 className="text-md font-bold mb-1">Opt-out Keywords</h3>
+        <p className="text-xs text-text-muted mb-4">
+          Always active, even while the bot is paused. A reply that is exactly one of these words adds the
+          sender to your opt-out list; they won&apos;t receive blasts or scheduled messages anymore.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-text-secondary mb-1">Opt-out keywords</label>
+            <input
+              className="w-full p-2 border border-border rounded bg-surface text-text-primary"
+              value={optOutKeywords}
+              onChange={(e) => setOptOutKeywords(e.target.value)}
+              placeholder="stop, berhenti, unsubscribe"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-text-secondary mb-1">Opt-in keywords</label>
+            <input
+              className="w-full p-2 border border-border rounded bg-surface text-text-primary"
+              value={optInKeywords}
+              onChange={(e) => setOptInKeywords(e.target.value)}
+              placeholder="start, langganan"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-text-secondary mb-1">Opt-out confirmation</label>
+            <textarea
+              className="w-full p-2 border border-border rounded bg-surface text-text-primary h-20 resize-none"
+              value={optOutMessage}
+              onChange={(e) => setOptOutMessage(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-text-secondary mb-1">Opt-in confirmation</label>
+            <textarea
+              className="w-full p-2 border border-border rounded bg-surface text-text-primary h-20 resize-none"
+              value={optInMessage}
+              onChange={(e) => setOptInMessage(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="flex justify-between items-center pt-4">
+          <p className="text-xs text-text-muted">Separate keywords with commas. Leave a confirmation empty to send none.</p>
+          <Button variant="primary" onClick={handleSaveSettings}>
+            Save All Changes
+          </Button>
+        </div>
+      </Card>
+
+      {/* Incoming Calls */}
+      <Card padding="lg">
+        <h3 className="text-md font-bold mb-1">Incoming Calls</h3>
+        <p className="text-xs text-text-muted mb-4">
+          Always active, even while the bot is paused. Calls nobody picks up and rejected calls appear in the
+          chat history and bot logs, and you get a missed call notification.
+        </p>
+        <div className="space-y-4">
+          <label className="flex items-center gap-2 text-sm text-text-primary">
+            <input
+              type="checkbox"
+              checked={rejectCalls}
+              className="w-4 h-4 rounded border-gray-300 text-primary focus:ring-primary"
+              onChange={(e) => setRejectCalls(e.target.checked)}
+            />
+            Reject incoming calls automatically
+          </label>
+          <div>
+            <label className="block text-sm font-medium text-text-secondary mb-1">Reply to rejected callers</label>
+            <textarea
+              className="w-full p-2 border border-border rounded bg-surface text-text-primary h-20 resize-none disabled:opacity-50"
+              value={callRejectMessage}
+              onChange={(e) => setCallRejectMessage(e.target.value)}
+              maxLength={1000}
+              disabled={!rejectCalls}
+              placeholder="Maaf, kami tidak dapat menerima panggilan. Silakan kirim pesan chat."
+            />
+            <p className="text-xs text-text-muted mt-1">Leave empty to reject without a reply.</p>
+          </div>
+        </div>
+        <div className="flex justify-end pt-4">
+          <Button variant="primary" onClick={handleSaveSettings}>
+            Save All Changes
+          </Button>
+        </div>
+      </Card>
+
       {/* Business Hours Editor */}
       <Card padding="lg">
         <div className="flex justify-between items-center mb-4">
-           <h3 className="text-md font-bold">Business Hours</h3>
+           <div>
+             <h3 className="text-md font-bold">Business Hours</h3>
+             <p className="text-xs text-text-muted">
+               {offHoursEnabled
+                 ? 'The off-hours message is sent outside these hours.'
+                 : 'Off-hours replies are turned off.'}
+             </p>
+           </div>
            <Button variant="ghost" size="sm" onClick={() => setIsBusinessHoursOpen(!isBusinessHoursOpen)}>
              {isBusinessHoursOpen ? 'Hide' : 'Edit Schedule'}
            </Button>
         </div>
         
         {isBusinessHoursOpen && (
-          <div className="space-y-4 animate-in fade-in slide-in-from-top-2">
-            <div className="border border-border rounded-lg overflow-hidden">
-               <table className="w-full text-sm">
-                 <thead className="bg-elevated text-text-secondary border-b border-border">
-                   <tr>
-                     <th className="p-3 text-left font-medium w-32">Day</th>
-                     <th className="p-3 text-center font-medium w-20">Open</th>
-                     <th className="p-3 text-left font-medium">Opening Time</th>
-                     <th className="p-3 text-left font-medium">Closing Time</th>
-                   </tr>
-                 </thead>
-                 <tbody className="divide-y divide-border bg-surface">
-                   {days.map((dayName, index) => {
-                     const existingDay = businessHours.find(s => s.day === index);
-                     const isOpen = !!existingDay;
-                     
-                     return (
-                       <tr key={index} className={!isOpen ? 'bg-surface-ground text-text-muted' : ''}>
-                         <td className="p-3 font-medium">{dayName}</td>
-                         <td className="p-3 text-center">
-                           <input 
-                             type="checkbox"
-                             checked={isOpen}
-                             className="w-4 h-4 rounded border-gray-300 text-primary focus:ring-primary"
-                             onChange={(e) => {
-                               if (e.target.checked) {
-                                  updateDaySchedule(index, { start: '09:00', end: '17:00' });
-                               } else {
-                                  updateDaySchedule(index, null);
-                               }
-                             }}
-                           />
-                         </td>
-                         <td className="p-3">
-                           <input 
-                             type="time" 
-                             disabled={!isOpen}
-                             value={existingDay?.start || ''}
-                             className={`border border-border rounded px-2 py-1 text-sm ${!isOpen ? 'bg-transparent text-transparent border-transparent' : 'bg-surface text-text-primary'}`}
-                             onChange={(e) => updateDaySchedule(index, { start: e.target.value })}
-                           />
-                         </td>
-                         <td className="p-3">
-                            <input 
-                             type="time" 
-                             disabled={!isOpen}
-                             value={existingDay?.end || ''}
-                             className={`border border-border rounded px-2 py-1 text-sm ${!isOpen ? 'bg-transparent text-transparent border-transparent' : 'bg-surface text-text-primary'}`}
-                             onChange={(e) => updateDaySchedule(index, { end: e.target.value })}
-                           />
-                         </td>
-                       </tr>
-                     );
-                   })}
-                 </tbody>
-               </table>
+          <div className="space-y-6 animate-in fade-in slide-in-from-top-2">
+            <label className="flex items-center gap-2 text-sm text-text-primary">
+              <input
+                type="checkbox"
+                checked={offHoursEnabled}
+                className="w-4 h-4 rounded border-gray-300 text-primary focus:ring-primary"
+                onChange={(e) => setOffHoursEnabled(e.target.checked)}
+              />
+              Send the off-hours message outside business hours
+            </label>
+
+            <div>
+              <h4 className="text-sm font-medium text-text-secondary mb-2">Weekly Hours</h4>
+              <WeeklyHoursEditor value={businessHours} onChange={setBusinessHours} />
             </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-text-secondary mb-1">Holidays & Closures</h4>
+              <p className="text-xs text-text-muted mb-2">
+                A holiday replaces the weekly hours of its date, in the {timezone} timezone.
+              </p>
+              <HolidayEditor value={holidays} onChange={setHolidays} timezone={timezone} />
+            </div>
+
+            {scheduleErrors.length > 0 && (
+              <ul className="p-3 bg-danger-soft border border-danger rounded-lg text-xs text-danger space-y-0.5">
+                {scheduleErrors.map((scheduleError) => (
+                  <li key={scheduleError}>{scheduleError}</li>
+                ))}
+              </ul>
+            )}
+
             <div className="flex justify-between items-center pt-2">
                <p className="text-xs text-text-muted">
-                 Don't forget to save changes after modifying the schedule.
+                 Don&apos;t forget to save changes after modifying the schedule.
                </p>
-               <Button variant="primary" onClick={handleSaveSettings}>
+               <Button variant="primary" onClick={handleSaveSettings} disabled={scheduleErrors.length > 0}>
                  Save All Changes
                </Button>
             </div>
@@ -61,6 +61,8 @@ export default function BotLogsTable({ logs, deviceId, isLoading }: BotLogsTable
                   <span className={`px-2 py-0.5 rounded textxs font-medium uppercase ${
                     log.actionType === 'auto_reply' ? 'bg-blue-50 text-blue-700' :
                     log.actionType === 'handoff' ? 'bg-orange-50 text-orange-700' :
+                    log.actionType.startsWith('flow_') ? 'bg-purple-50 text-purple-700' :
+                    log.actionType.startsWith('call_') ? 'bg-red-50 text-red-700' :
                     'bg-gray-100 text-gray-700'
                   }`}>
                     {log.actionType}
@@ -0,0 +1,266 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Button from '@/components/ui/Button';
+import Card from '@/components/ui/Card';
+import AutoReplyPreview from '@/components/bot/AutoReplyPreview';
+import FlowStepEditor from '@/components/bot/FlowStepEditor';
+import { MessageTemplate, getTemplates } from '@/lib/userService';
+import {
+  BotFlow,
+  BotFlowInput,
+  FlowStep,
+  FlowStepType,
+  MAX_STEPS,
+  MAX_TIMEOUT_MINUTES,
+  STEP_TYPE_LABELS,
+  nextStepId,
+  validateFlow,
+} from '@/lib/botFlows';
+
+/**
+ * FlowEditor
+ *
+ * Edit a bot flow: its trigger, timeout and steps. The flow can be tried in
+ * the simulator next to it before it is saved.
+ */
+
+interface FlowEditorProps {
+  deviceId: string;
+  /** Null for a new flow */
+  initialFlow: BotFlow | null;
+  onSave: (flow: BotFlowInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 bg-elevated border border-border rounded-lg text-text-primary text-sm focus:outline-none focus:ring-2 focus:ring-primary';
+
+const NEW_FLOW: BotFlowInput = {
+  name: '',
+  trigger: 'menu',
+  matchType: 'exact',
+  priority: 0,
+  isActive: true,
+  timeoutMinutes: 30,
+  startStepId: 'start',
+  steps: [
+    {
+      id: 'start',
+      type: 'menu',
+      text: 'Halo! Ada yang bisa kami bantu? Balas dengan nomor pilihan:',
+      options: [{ key: '1', label: 'Bicara dengan tim kami', next: 'end_1' }],
+    },
+    { id: 'end_1', type: 'end', action: 'handoff' },
+  ],
+};
+
+const NEW_STEPS: Record<FlowStepType, Omit<FlowStep, 'id'>> = {
+  menu: { type: 'menu', text: '', options: [{ key: '1', label: '', next: '' }] },
+  question: { type: 'question', text: '', field: '', inputType: 'text', next: '' },
+  message: { type: 'message', text: '', next: '' },
+  end: { type: 'end', action: 'none' },
+};
+
+export default function FlowEditor({ deviceId, initialFlow, onSave, onCancel }: FlowEditorProps) {
+  const [flow, setFlow] = useState<BotFlowInput>(() =>
+    initialFlow
+      ? {
+          name: initialFlow.name,
+          trigger: initialFlow.trigger,
+          matchType: initialFlow.matchType,
+          priority: initialFlow.priority,
+          isActive: initialFlow.isActive,
+          timeoutMinutes: initialFlow.timeoutMinutes,
+          startStepId: initialFlow.startStepId,
+          steps: initialFlow.steps,
+        }
+      : NEW_FLOW
+  );
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getTemplates()
+      .then((response) => setTemplates(response.templates))
+      .catch(() => setTemplates([]));
+  }, []);
+
+  const errors = useMemo(() => validateFlow(flow), [flow]);
+
+  // The simulator tries the flow as edited, once it is valid
+  const draftFlow = useMemo(
+    () => (errors.length === 0 ? { ...flow, id: initialFlow?.id } : null),
+    [errors, flow, initialFlow?.id]
+  );
+
+  const update = (changes: Partial<BotFlowInput>) => setFlow((current) => ({ ...current, ...changes }));
+
+  const updateStep = (id: string, changes: Partial<FlowStep>) =>
+    update({ steps: flow.steps.map((step) => (step.id === id ? { ...step, ...changes } : step)) });
+
+  const addStep = (type: FlowStepType) =>
+    update({ steps: [...flow.steps, { id: nextStepId(flow.steps, type), ...NEW_STEPS[type] }] });
+
+  // Links to the removed step are cleared so they show up as missing
+  const removeStep = (id: string) => {
+    const steps = flow.steps
+      .filter((step) => step.id !== id)
+      .map((step) => ({
+        ...step,
+        next: step.next === id ? '' : step.next,
+        options: step.options?.map((option) => (option.next === id ? { ...option, next: '' } : option)),
+      }));
+    update({ steps, startStepId: flow.startStepId === id ? steps[0]?.id || '' : flow.startStepId });
+  };
+
+  const handleSave = async () => {
+    if (errors.length > 0) return;
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await onSave(flow);
+    } catch (err) {
+      setSaveError(typeof err === 'string' ? err : (err as Error)?.message || 'Failed to save flow');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-[minmax(0,1fr)_360px] gap-6">
+      <div className="space-y-4">
+        <div className="bg-surface border border-border rounded-lg p-4 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-text-secondary mb-1">Name</label>
+              <input
+                type="text"
+                value={flow.name}
+                onChange={(e) => update({ name: e.target.value })}
+                placeholder="e.g. Main menu"
+                maxLength={100}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-text-secondary mb-1">Starts when the user sends</label>
+              <div className="flex gap-2">
+                <select
+                  value={flow.matchType}
+                  onChange={(e) => update({ matchType: e.target.value as BotFlowInput['matchType'] })}
+                  className={`${inputClassName} w-36`}
+                >
+                  <option value="exact">Exactly</option>
+                  <option value="contains">Contains</option>
+                  <option value="startsWith">Starts with</option>
+                  <option value="regex">Regex</option>
+                </select>
+                <input
+                  type="text"
+                  value={flow.trigger}
+                  onChange={(e) => update({ trigger: e.target.value })}
+                  placeholder="e.g. menu"
+                  maxLength={500}
+                  className={`${inputClassName} font-mono`}
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-text-secondary mb-1">Reset after (minutes without answer)</label>
+              <input
+                type="number"
+                min={1}
+                max={MAX_TIMEOUT_MINUTES}
+                value={flow.timeoutMinutes}
+                onChange={(e) => update({ timeoutMinutes: Number(e.target.value) })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-text-secondary mb-1">Priority</label>
+              <input
+                type="number"
+                value={flow.priority}
+                onChange={(e) => update({ priority: Number(e.target.value) || 0 })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-text-primary">
+            <input
+              type="checkbox"
+              checked={flow.isActive}
+              onChange={(e) => update({ isActive: e.target.checked })}
+              className="w-4 h-4 rounded border-gray-300 text-primary focus:ring-primary"
+            />
+            Active
+          </label>
+          <p className="text-xs text-text-muted">
+            Flows are checked before auto-reply rules. Handoff keywords still work during a flow.
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          {flow.steps.map((step) => (
+            <FlowStepEditor
+              key={step.id}
+              step={step}
+              steps={flow.steps}
+              isStart={step.id === flow.startStepId}
+              templates={templates}
+              onChange={(changes) => updateStep(step.id, changes)}
+              onRemove={() => removeStep(step.id)}
+              onSetStart={() => update({ startStepId: step.id })}
+            />
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(NEW_STEPS) as FlowStepType[]).map((type) => (
+            <Button
+              key={type}
+              variant="outline"
+              size="sm"
+              onClick={() => addStep(type)}
+              disabled={flow.steps.length >= MAX_STEPS}
+            >
+              + {STEP_TYPE_LABELS[type]}
+            </Button>
+          ))}
+        </div>
+
+        {errors.length > 0 && (
+          <ul className="p-3 bg-warning/10 border border-warning/30 rounded-lg text-xs text-warning list-disc pl-6 space-y-0.5">
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        )}
+        {saveError && (
+          <div className="p-3 bg-danger-soft border border-danger rounded-lg text-sm text-danger">{saveError}</div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSave} disabled={isSaving || errors.length > 0}>
+            {isSaving ? 'Saving...' : initialFlow ? 'Save Flow' : 'Create Flow'}
+          </Button>
+        </div>
+      </div>
+
+      <div>
+        {draftFlow ? (
+          <AutoReplyPreview rules={[]} isLoading={false} deviceId={deviceId} draftFlow={draftFlow} />
+        ) : (
+          <Card padding="md">
+            <div className="p-4 text-center text-sm text-text-muted">Fix the errors to try this flow in the simulator.</div>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
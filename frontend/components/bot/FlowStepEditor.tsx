@@ -0,0 +1,260 @@
+'use client';
+
+import React from 'react';
+import { MessageTemplate } from '@/lib/userService';
+import {
+  END_ACTION_LABELS,
+  FlowEndAction,
+  FlowInputType,
+  FlowStep,
+  INPUT_TYPE_LABELS,
+  MAX_MENU_OPTIONS,
+  STEP_TYPE_LABELS,
+} from '@/lib/botFlows';
+
+/**
+ * FlowStepEditor
+ *
+ * One step of a bot flow. Menus list numbered options that each lead to a
+ * step; questions store the answer in a field that later texts can use as
+ * {{field}}; message steps continue on their own; end steps finish the flow
+ * with an action.
+ */
+
+interface FlowStepEditorProps {
+  step: FlowStep;
+  /** All steps of the flow, for the next-step pickers */
+  steps: FlowStep[];
+  isStart: boolean;
+  templates: MessageTemplate[];
+  onChange: (changes: Partial<FlowStep>) => void;
+  onRemove: () => void;
+  onSetStart: () => void;
+}
+
+const inputClassName = 'border border-border rounded px-2 py-1 text-sm bg-surface text-text-primary';
+
+const stepSummary = (step: FlowStep) =>
+  `${step.id} (${STEP_TYPE_LABELS[step.type]}${step.text ? `: ${step.text.slice(0, 30)}` : ''})`;
+
+function NextStepSelect({
+  value,
+  steps,
+  currentId,
+  onChange,
+}: {
+  value?: string;
+  steps: FlowStep[];
+  currentId: string;
+  onChange: (next: string) => void;
+}) {
+  return (
+    <select value={value || ''} onChange={(e) => onChange(e.target.value)} className={`${inputClassName} min-w-[160px]`}>
+      <option value="">Select next step…</option>
+      {steps
+        .filter((step) => step.id !== currentId)
+        .map((step) => (
+          <option key={step.id} value={step.id}>
+            {stepSummary(step)}
+          </option>
+        ))}
+    </select>
+  );
+}
+
+export default function FlowStepEditor({
+  step,
+  steps,
+  isStart,
+  templates,
+  onChange,
+  onRemove,
+  onSetStart,
+}: FlowStepEditorProps) {
+  const options = step.options || [];
+
+  const updateOption = (index: number, changes: Partial<{ key: string; label: string; next: string }>) =>
+    onChange({ options: options.map((option, i) => (i === index ? { ...option, ...changes } : option)) });
+
+  return (
+    <div className={`border rounded-lg p-3 space-y-3 bg-surface ${isStart ? 'border-primary' : 'border-border'}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[10px] uppercase font-bold px-1.5 py-0.5 rounded bg-elevated text-text-secondary">
+          {STEP_TYPE_LABELS[step.type]}
+        </span>
+        <code className="text-sm font-mono text-text-primary">{step.id}</code>
+        {isStart ? (
+          <span className="text-[10px] uppercase font-bold text-primary border border-primary px-1 rounded">Start</span>
+        ) : (
+          <button type="button" className="text-xs text-text-muted hover:underline" onClick={onSetStart}>
+            Set as start
+          </button>
+        )}
+        <button
+          type="button"
+          className="ml-auto text-xs text-text-muted hover:text-danger px-1"
+          onClick={onRemove}
+          title="Remove step"
+        >
+          ✕
+        </button>
+      </div>
+
+      <textarea
+        value={step.text || ''}
+        onChange={(e) => onChange({ text: e.target.value })}
+        placeholder={
+          step.type === 'end'
+            ? 'Closing message (optional), e.g. Terima kasih {{name}}!'
+            : step.type === 'question'
+              ? 'Question, e.g. Siapa nama Anda?'
+              : 'Message sent to the user'
+        }
+        maxLength={1000}
+        className={`${inputClassName} w-full h-16 resize-none`}
+      />
+
+      {step.type === 'menu' && (
+        <div className="space-y-2">
+          {options.map((option, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2">
+              <input
+                type="text"
+                value={option.key}
+                onChange={(e) => updateOption(index, { key: e.target.value })}
+                maxLength={10}
+                className={`${inputClassName} w-14 text-center font-mono`}
+                title="What the user replies"
+              />
+              <input
+                type="text"
+                value={option.label}
+                onChange={(e) => updateOption(index, { label: e.target.value })}
+                placeholder="Label, e.g. Harga"
+                maxLength={100}
+                className={`${inputClassName} flex-1 min-w-[140px]`}
+              />
+              <span className="text-text-muted text-xs">→</span>
+              <NextStepSelect
+                value={option.next}
+                steps={steps}
+                currentId={step.id}
+                onChange={(next) => updateOption(index, { next })}
+              />
+              <button
+                type="button"
+                className="text-xs text-text-muted hover:text-danger"
+                onClick={() => onChange({ options: options.filter((_, i) => i !== index) })}
+                title="Remove option"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          {options.length < MAX_MENU_OPTIONS && (
+            <button
+              type="button"
+              className="text-xs text-primary hover:underline"
+              onClick={() => onChange({ options: [...options, { key: String(options.length + 1), label: '', next: '' }] })}
+            >
+              + Add option
+            </button>
+          )}
+          <div className="flex flex-wrap items-center gap-2 text-xs text-text-secondary">
+            <span>Save choice as field</span>
+            <input
+              type="text"
+              value={step.field || ''}
+              onChange={(e) => onChange({ field: e.target.value || undefined })}
+              placeholder="optional, e.g. topic"
+              className={`${inputClassName} font-mono`}
+            />
+          </div>
+        </div>
+      )}
+
+      {step.type === 'question' && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-text-secondary">
+          <span>Save answer as</span>
+          <input
+            type="text"
+            value={step.field || ''}
+            onChange={(e) => onChange({ field: e.target.value })}
+            placeholder="e.g. order_number"
+            className={`${inputClassName} font-mono`}
+          />
+          <select
+            value={step.inputType || 'text'}
+            onChange={(e) => onChange({ inputType: e.target.value as FlowInputType })}
+            className={inputClassName}
+          >
+            {(Object.keys(INPUT_TYPE_LABELS) as FlowInputType[]).map((type) => (
+              <option key={type} value={type}>
+                {INPUT_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+          <span>then</span>
+          <NextStepSelect value={step.next} steps={steps} currentId={step.id} onChange={(next) => onChange({ next })} />
+        </div>
+      )}
+
+      {step.type === 'message' && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-text-secondary">
+          <span>Then continue with</span>
+          <NextStepSelect value={step.next} steps={steps} currentId={step.id} onChange={(next) => onChange({ next })} />
+        </div>
+      )}
+
+      {(step.type === 'menu' || step.type === 'question') && (
+        <input
+          type="text"
+          value={step.invalidText || ''}
+          onChange={(e) => onChange({ invalidText: e.target.value || undefined })}
+          placeholder="Reply to an invalid answer (optional)"
+          maxLength={1000}
+          className={`${inputClassName} w-full`}
+        />
+      )}
+
+      {step.type === 'end' && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-text-secondary">
+          <span>Action</span>
+          <select
+            value={step.action || 'none'}
+            onChange={(e) => onChange({ action: e.target.value as FlowEndAction })}
+            className={inputClassName}
+          >
+            {(Object.keys(END_ACTION_LABELS) as FlowEndAction[]).map((action) => (
+              <option key={action} value={action}>
+                {END_ACTION_LABELS[action]}
+              </option>
+            ))}
+          </select>
+          {step.action === 'template' && (
+            <select
+              value={step.templateId ?? ''}
+              onChange={(e) => onChange({ templateId: e.target.value ? Number(e.target.value) : undefined })}
+              className={`${inputClassName} min-w-[160px]`}
+            >
+              <option value="">Select template…</option>
+              {step.templateId && !templates.some((t) => t.id === step.templateId) && (
+                <option value={step.templateId}>Template #{step.templateId}</option>
+              )}
+              {templates.map((template) => (
+                <option key={template.id} value={template.id}>
+                  {template.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+      {step.type === 'end' && step.action === 'template' && (
+        <p className="text-xs text-text-muted">
+          Template variables like {'{{name}}'} are filled with the answers collected in this flow.
+        </p>
+      )}
+    </div>
+  );
+}
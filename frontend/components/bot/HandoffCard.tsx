@@ -0,0 +1,268 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { useAppDispatch } from '@/hooks/useAppDispatch';
+import {
+  updateHandoff,
+  fetchHandoffNotes,
+  addHandoffNote,
+  Handoff,
+  HandoffNote,
+  HandoffStatus,
+  WorkspaceAgent,
+} from '@/store/slices/botSlice';
+import Card from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Badge from '@/components/ui/Badge';
+import { useToast } from '@/context/ToastContext';
+
+interface HandoffCardProps {
+  handoff: Handoff;
+  /** Agents of the device's workspace; the assignee select is hidden until loaded */
+  agents?: WorkspaceAgent[];
+  currentUserId?: number;
+  /** Show which device the conversation came in on (cross-device queue) */
+  showDevice?: boolean;
+}
+
+const STATUS_OPTIONS: { value: HandoffStatus; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'pending_customer', label: 'Pending customer' },
+  { value: 'resolved', label: 'Resolved (resume bot)' },
+];
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleString('id-ID', {
+    day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit'
+  });
+};
+
+const MAX_NOTE_LENGTH = 2000;
+
+export default function HandoffCard({ handoff, agents, currentUserId, showDevice = false }: HandoffCardProps) {
+  const dispatch = useAppDispatch();
+  const { addToast } = useToast();
+
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [showNotes, setShowNotes] = useState(false);
+  const [notes, setNotes] = useState<HandoffNote[] | null>(null);
+  const [noteBody, setNoteBody] = useState('');
+  const [isSavingNote, setIsSavingNote] = useState(false);
+
+  const phoneNumber = handoff.phoneNumber || handoff.senderJid.split('@')[0];
+
+  const applyUpdate = async (
+    changes: { assignedTo?: number | null; status?: HandoffStatus },
+    successMessage: string
+  ) => {
+    setIsUpdating(true);
+    try {
+      await dispatch(updateHandoff({ handoffId: handoff.id, ...changes })).unwrap();
+      addToast(successMessage, 'success');
+    } catch (error) {
+      addToast((error as string) || 'Failed to update handoff', 'error');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleAssign = (value: string) => {
+    const assignedTo = value ? parseInt(value, 10) : null;
+    const agent = agents?.find((a) => a.id === assignedTo);
+    applyUpdate(
+      { assignedTo },
+      agent ? `Assigned to ${agent.fullName || agent.username}` : 'Handoff unassigned'
+    );
+  };
+
+  const handleStatus = (status: HandoffStatus) => {
+    applyUpdate(
+      { status },
+      status === 'resolved' ? 'Handoff resolved, bot resumed' : 'Status updated'
+    );
+  };
+
+  const toggleNotes = async () => {
+    const next = !showNotes;
+    setShowNotes(next);
+    if (next && notes === null) {
+      try {
+        setNotes(await dispatch(fetchHandoffNotes(handoff.id)).unwrap());
+      } catch (error) {
+        addToast((error as string) || 'Failed to load notes', 'error');
+      }
+    }
+  };
+
+  const handleAddNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const body = noteBody.trim();
+    if (!body) return;
+
+    setIsSavingNote(true);
+    try {
+      const { note } = await dispatch(addHandoffNote({ handoffId: handoff.id, body })).unwrap();
+      setNotes((current) => [...(current || []), note]);
+      setNoteBody('');
+    } catch (error) {
+      addToast((error as string) || 'Failed to add note', 'error');
+    } finally {
+      setIsSavingNote(false);
+    }
+  };
+
+  const isMine = !!currentUserId && handoff.assignee?.id === currentUserId;
+
+  return (
+    <Card
+      padding="md"
+      className={`border-l-4 ${handoff.status === 'pending_customer' ? 'border-l-info' : 'border-l-warning'}`}
+    >
+      <div className="flex justify-between items-start flex-wrap gap-4">
+        <div>
+          <div className="flex items-center flex-wrap gap-2 mb-1">
+            <span className="font-bold text-lg text-text-primary">{phoneNumber}</span>
+            <Badge variant={handoff.status === 'pending_customer' ? 'info' : 'warning'}>
+              {handoff.status === 'pending_customer' ? 'Pending customer' : 'Open'}
+            </Badge>
+            <span className="text-xs bg-elevated px-2 py-0.5 rounded text-text-muted">
+              {handoff.reason === 'keyword'
+                ? 'Keyword Trigger'
+                : handoff.reason === 'flow'
+                  ? `Flow: ${handoff.flowName || 'Unknown'}`
+                  : 'Manual Escalation'}
+            </span>
+          </div>
+          {showDevice && (
+            <div className="text-sm text-text-secondary">
+              <span className="text-text-muted">Device:</span> {handoff.deviceName || handoff.deviceId}
+            </div>
+          )}
+          {handoff.fields && Object.keys(handoff.fields).length > 0 && (
+            <dl className="text-sm text-text-secondary grid grid-cols-[auto_1fr] gap-x-3 mb-1">
+              {Object.entries(handoff.fields).map(([field, value]) => (
+                <React.Fragment key={field}>
+                  <dt className="text-text-muted">{field}</dt>
+                  <dd className="text-text-primary break-words">{value}</dd>
+                </React.Fragment>
+              ))}
+            </dl>
+          )}
+          <div className="text-sm text-text-secondary">
+            <span className="text-text-muted">Handoff started:</span> {formatDate(handoff.handoffAt)}
+          </div>
+          <div className="text-sm text-text-secondary">
+            <span className="text-text-muted">Last activity:</span> {formatDate(handoff.lastActivity)}
+          </div>
+          <div className="text-sm text-text-secondary">
+            <span className="text-text-muted">Assigned to:</span>{' '}
+            {handoff.assignee ? (isMine ? 'You' : handoff.assignee.name) : 'Nobody'}
+          </div>
+        </div>
+
+        <div className="flex flex-col items-end gap-2">
+          <div className="flex items-center gap-3">
+            <Link
+              href={`/chat-history?deviceId=${encodeURIComponent(handoff.deviceId)}&jid=${encodeURIComponent(handoff.senderJid)}`}
+              className="text-primary hover:underline text-sm font-medium"
+            >
+              Reply in Chat →
+            </Link>
+            <a
+              href={`https://wa.me/${phoneNumber}`}
+              target="_blank"
+              rel="noreferrer"
+              className="text-primary hover:underline text-sm font-medium"
+            >
+              Open WhatsApp ↗
+            </a>
+          </div>
+          <div className="flex items-center gap-2 flex-wrap justify-end">
+            {currentUserId && !isMine && (
+              <Button
+                onClick={() => applyUpdate({ assignedTo: currentUserId }, 'You took this conversation')}
+                variant="outline"
+                size="sm"
+                disabled={isUpdating}
+              >
+                Take
+              </Button>
+            )}
+            {agents && (
+              <select
+                value={handoff.assignee?.id ?? ''}
+                onChange={(e) => handleAssign(e.target.value)}
+                disabled={isUpdating}
+                aria-label="Assignee"
+                className="px-3 py-1.5 bg-card border border-border rounded-lg text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="">Unassigned</option>
+                {agents.map((agent) => (
+                  <option key={agent.id} value={agent.id}>
+                    {agent.fullName || agent.username}
+                    {agent.id === currentUserId ? ' (you)' : ''}
+                  </option>
+                ))}
+              </select>
+            )}
+            <select
+              value={handoff.status}
+              onChange={(e) => handleStatus(e.target.value as HandoffStatus)}
+              disabled={isUpdating}
+              aria-label="Status"
+              className="px-3 py-1.5 bg-card border border-border rounded-lg text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              {STATUS_OPTIONS.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="button"
+            onClick={toggleNotes}
+            className="text-sm text-text-secondary hover:text-text-primary"
+          >
+            {showNotes ? 'Hide notes' : `Internal notes (${handoff.noteCount})`}
+          </button>
+        </div>
+      </div>
+
+      {showNotes && (
+        <div className="mt-4 pt-4 border-t border-divider space-y-3">
+          <p className="text-xs text-text-muted">Only your team sees these notes. They are never sent to the customer.</p>
+          {notes === null ? (
+            <div className="animate-pulse h-8 bg-elevated rounded-lg" />
+          ) : notes.length === 0 ? (
+            <p className="text-sm text-text-muted">No notes yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {notes.map((note) => (
+                <li key={note.id} className="bg-elevated rounded-lg px-3 py-2">
+                  <p className="text-sm text-text-primary whitespace-pre-wrap break-words">{note.body}</p>
+                  <p className="text-xs text-text-muted mt-1">
+                    {note.author?.name || 'Deleted user'} · {formatDate(note.createdAt)}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+          <form onSubmit={handleAddNote} className="flex items-end gap-2">
+            <textarea
+              value={noteBody}
+              onChange={(e) => setNoteBody(e.target.value)}
+              maxLength={MAX_NOTE_LENGTH}
+              rows={2}
+              placeholder="Add a note for your team..."
+              disabled={isSavingNote}
+              className="flex-1 px-3 py-2 bg-card border border-border rounded-lg text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary resize-y"
+            />
+            <Button type="submit" variant="primary" size="sm" disabled={isSavingNote || !noteBody.trim()}>
+              {isSavingNote ? 'Saving...' : 'Add Note'}
+            </Button>
+          </form>
+        </div>
+      )}
+    </Card>
+  );
+}
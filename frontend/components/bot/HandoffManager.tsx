@@ -1,11 +1,10 @@
 'use client';
 
-import React, { useEffect } from 'react';
-import { useAppDispatch } from '@/hooks/useAppDispatch';
-import { fetchHandoffs, resumeHandoff, Handoff } from '@/store/slices/botSlice';
-import Card from '@/components/ui/Card';
+import React, { useEffect, useState } from 'react';
+import { useAppDispatch, useAppSelector } from '@/hooks/useAppDispatch';
+import { fetchHandoffs, fetchHandoffAgents, Handoff } from '@/store/slices/botSlice';
+import HandoffCard from '@/components/bot/HandoffCard';
 import Button from '@/components/ui/Button';
-import { useToast } from '@/context/ToastContext';
 
 interface HandoffManagerProps {
   deviceId: string;
@@ -13,9 +12,23 @@ interface HandoffManagerProps {
   isLoading: boolean;
 }
 
+type Filter = 'all' | 'mine' | 'unassigned';
+
+const FILTERS: { value: Filter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'mine', label: 'Mine' },
+  { value: 'unassigned', label: 'Unassigned' },
+];
+
 export default function HandoffManager({ deviceId, handoffs, isLoading }: HandoffManagerProps) {
   const dispatch = useAppDispatch();
-  const { addToast } = useToast();
+  const currentUserId = useAppSelector((state) => state.auth.user?.id);
+  const agents = useAppSelector((state) => state.bot.agents[deviceId]);
+  const [filter, setFilter] = useState<Filter>('all');
+
+  useEffect(() => {
+    dispatch(fetchHandoffAgents(deviceId));
+  }, [dispatch, deviceId]);
 
   // Poll for updates every 30 seconds
   useEffect(() => {
@@ -25,22 +38,6 @@ export default function HandoffManager({ deviceId, handoffs, isLoading }: Handof
     return () => clearInterval(interval);
   }, [dispatch, deviceId]);
 
-  const handleResume = async (senderJid: string) => {
-    try {
-      await dispatch(resumeHandoff({ deviceId, senderJid })).unwrap();
-      addToast('Bot resumed successfully', 'success');
-    } catch (error) {
-      console.error('Failed to resume bot:', error);
-      addToast('Failed to resume bot', 'error');
-    }
-  };
-
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleString('id-ID', {
-      day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit'
-    });
-  };
-
   if (isLoading && handoffs.length === 0) {
     return <div className="p-8 text-center text-text-muted">Checking active handoffs...</div>;
   }
@@ -63,6 +60,12 @@ export default function HandoffManager({ deviceId, handoffs, isLoading }: Handof
     );
   }
 
+  const visibleHandoffs = handoffs.filter((handoff) => {
+    if (filter === 'mine') return !!currentUserId && handoff.assignee?.id === currentUserId;
+    if (filter === 'unassigned') return !handoff.assignee;
+    return true;
+  });
+
   return (
     <div className="space-y-4">
       <div className="flex items-center gap-2 p-3 bg-warning-soft text-warning rounded-lg text-sm mb-4">
@@ -70,44 +73,39 @@ export default function HandoffManager({ deviceId, handoffs, isLoading }: Handof
          <span>There are {handoffs.length} conversations waiting for human response.</span>
       </div>
 
-      <div className="grid gap-4">
-        {handoffs.map((handoff) => (
-          <Card key={handoff.senderJid} padding="md" className="border-l-4 border-l-warning">
-            <div className="flex justify-between items-center flex-wrap gap-4">
-               <div>
-                  <div className="flex items-center gap-2 mb-1">
-                    <span className="font-bold text-lg text-text-primary">
-                      {handoff.phoneNumber || handoff.senderJid.split('@')[0]}
-                    </span>
-                    <span className="text-xs bg-elevated px-2 py-0.5 rounded text-text-muted">
-                      {handoff.reason === 'keyword' ? 'Keyword Trigger' : 'Manual Escalation'}
-                    </span>
-                  </div>
-                  <div className="text-sm text-text-secondary">
-                    <span className="text-text-muted">Handoff started:</span> {formatDate(handoff.handoffAt)}
-                  </div>
-                  <div className="text-sm text-text-secondary">
-                    <span className="text-text-muted">Last activity:</span> {formatDate(handoff.lastActivity)}
-                  </div>
-               </div>
-
-               <div className="flex items-center gap-3">
-                  <a 
-                    href={`https://wa.me/${handoff.senderJid.split('@')[0]}`} 
-                    target="_blank" 
-                    rel="noreferrer"
-                    className="text-primary hover:underline text-sm font-medium"
-                  >
-                    Open WhatsApp ↗
-                  </a>
-                  <Button onClick={() => handleResume(handoff.senderJid)} variant="primary" size="sm">
-                    Resume Bot
-                  </Button>
-               </div>
-            </div>
-          </Card>
+      <div className="flex gap-2">
+        {FILTERS.map(({ value, label }) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setFilter(value)}
+            className={`px-3 py-1.5 text-sm rounded-lg transition-colors ${
+              filter === value
+                ? 'bg-primary text-white'
+                : 'bg-elevated text-text-secondary hover:bg-border'
+            }`}
+          >
+            {label}
+          </button>
         ))}
       </div>
+
+      {visibleHandoffs.length === 0 ? (
+        <p className="p-6 text-center text-sm text-text-muted">
+          {filter === 'mine' ? 'No conversations are assigned to you.' : 'Every conversation has an agent.'}
+        </p>
+      ) : (
+        <div className="grid gap-4">
+          {visibleHandoffs.map((handoff) => (
+            <HandoffCard
+              key={handoff.id}
+              handoff={handoff}
+              agents={agents}
+              currentUserId={currentUserId}
+            />
+          ))}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,201 @@
+'use client';
+
+import React, { useState } from 'react';
+import Button from '@/components/ui/Button';
+import { BusinessHoliday, MAX_HOLIDAYS, MAX_WINDOWS_PER_DAY, hourAfter } from '@/lib/businessHours';
+
+/**
+ * HolidayEditor
+ *
+ * Dates that replace the weekly hours: closed all day, or open only in
+ * special hours. A holiday can have its own off-hours message, e.g. to say
+ * when the team is back.
+ */
+
+interface HolidayEditorProps {
+  value: BusinessHoliday[];
+  onChange: (value: BusinessHoliday[]) => void;
+  /** Device timezone; holiday dates are in this zone */
+  timezone: string;
+}
+
+const inputClassName = 'border border-border rounded px-2 py-1 text-sm bg-surface text-text-primary';
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('id-ID', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+
+// Today in the device timezone, as YYYY-MM-DD
+const todayIn = (timezone: string) => {
+  try {
+    return new Intl.DateTimeFormat('en-CA', { timeZone: timezone }).format(new Date());
+  } catch {
+    return new Date().toISOString().slice(0, 10);
+  }
+};
+
+export default function HolidayEditor({ value, onChange, timezone }: HolidayEditorProps) {
+  const [showPast, setShowPast] = useState(false);
+  const today = todayIn(timezone);
+
+  const update = (index: number, changes: Partial<BusinessHoliday>) =>
+    onChange(value.map((holiday, i) => (i === index ? { ...holiday, ...changes } : holiday)));
+
+  const remove = (index: number) => onChange(value.filter((_, i) => i !== index));
+
+  const add = () => onChange([...value, { date: today, name: '', windows: [], offHoursMessage: null }]);
+
+  const removePast = () => onChange(value.filter((holiday) => holiday.date >= today));
+
+  // Shown by date; edits go to the original index so the list does not jump while typing
+  const entries = value
+    .map((holiday, index) => ({ holiday, index }))
+    .filter(({ holiday }) => showPast || !holiday.date || holiday.date >= today)
+    .sort((a, b) => a.holiday.date.localeCompare(b.holiday.date));
+  const pastCount = value.filter((holiday) => holiday.date && holiday.date < today).length;
+
+  return (
+    <div className="space-y-3">
+      {entries.length === 0 ? (
+        <p className="text-sm text-text-muted">No upcoming holidays or closures.</p>
+      ) : (
+        <ul className="border border-border rounded-lg divide-y divide-border bg-surface">
+          {entries.map(({ holiday, index }) => {
+            const windows = holiday.windows || [];
+            const isClosed = windows.length === 0;
+
+            return (
+              <li key={index} className="p-3 space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    type="date"
+                    value={holiday.date}
+                    onChange={(e) => update(index, { date: e.target.value })}
+                    className={`${inputClassName} [color-scheme:dark]`}
+                  />
+                  <input
+                    type="text"
+                    value={holiday.name || ''}
+                    onChange={(e) => update(index, { name: e.target.value })}
+                    placeholder="Name (e.g. Idul Fitri)"
+                    maxLength={100}
+                    className={`${inputClassName} flex-1 min-w-[160px]`}
+                  />
+                  <select
+                    value={isClosed ? 'closed' : 'special'}
+                    onChange={(e) =>
+                      update(index, {
+                        windows: e.target.value === 'closed' ? [] : [{ start: '09:00', end: '12:00' }],
+                      })
+                    }
+                    className={inputClassName}
+                  >
+                    <option value="closed">Closed all day</option>
+                    <option value="special">Special hours</option>
+                  </select>
+                  <button
+                    type="button"
+                    className="text-xs text-text-muted hover:text-danger px-1"
+                    onClick={() => remove(index)}
+                    title="Remove holiday"
+                  >
+                    ✕
+                  </button>
+                </div>
+                {holiday.date && (
+                  <p className="text-xs text-text-muted">{formatDate(holiday.date)}</p>
+                )}
+
+                {!isClosed && (
+                  <div className="space-y-2 pl-1">
+                    {windows.map((window, windowIndex) => (
+                      <div key={windowIndex} className="flex items-center gap-2">
+                        <input
+                          type="time"
+                          value={window.start}
+                          className={inputClassName}
+                          onChange={(e) =>
+                            update(index, {
+                              windows: windows.map((w, i) => (i === windowIndex ? { ...w, start: e.target.value } : w)),
+                            })
+                          }
+                        />
+                        <span className="text-text-muted">–</span>
+                        <input
+                          type="time"
+                          value={window.end}
+                          className={inputClassName}
+                          onChange={(e) =>
+                            update(index, {
+                              windows: windows.map((w, i) => (i === windowIndex ? { ...w, end: e.target.value } : w)),
+                            })
+                          }
+                        />
+                        {windows.length > 1 && (
+                          <button
+                            type="button"
+                            className="text-xs text-text-muted hover:text-danger"
+                            onClick={() => update(index, { windows: windows.filter((_, i) => i !== windowIndex) })}
+                            title="Remove window"
+                          >
+                            ✕
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                    {windows.length < MAX_WINDOWS_PER_DAY && (
+                      <button
+                        type="button"
+                        className="text-xs text-primary hover:underline"
+                        onClick={() =>
+                          update(index, {
+                            windows: [
+                              ...windows,
+                              { start: windows[windows.length - 1].end, end: hourAfter(windows[windows.length - 1].end) },
+                            ],
+                          })
+                        }
+                      >
+                        + Add window
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                <textarea
+                  value={holiday.offHoursMessage || ''}
+                  onChange={(e) => update(index, { offHoursMessage: e.target.value || null })}
+                  placeholder="Off-hours message for this date (optional, uses the regular one when empty)"
+                  maxLength={1000}
+                  className={`${inputClassName} w-full h-16 resize-none`}
+                />
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex gap-3 text-xs">
+          {pastCount > 0 && (
+            <>
+              <button type="button" className="text-text-muted hover:underline" onClick={() => setShowPast(!showPast)}>
+                {showPast ? 'Hide' : 'Show'} {pastCount} past
+              </button>
+              <button type="button" className="text-text-muted hover:underline" onClick={removePast}>
+                Remove past
+              </button>
+            </>
+          )}
+        </div>
+        <Button variant="outline" size="sm" onClick={add} disabled={value.length >= MAX_HOLIDAYS}>
+          + Add holiday
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+'use client';
+
+import React from 'react';
+import Button from '@/components/ui/Button';
+import { BusinessHours, DAY_NAMES, MAX_WINDOWS_PER_DAY, hourAfter } from '@/lib/businessHours';
+
+/**
+ * WeeklyHoursEditor
+ *
+ * Opening windows per weekday. A day without windows is closed; several
+ * windows make a split shift, e.g. 08:00-12:00 and 13:00-17:00.
+ */
+
+interface WeeklyHoursEditorProps {
+  value: BusinessHours;
+  onChange: (value: BusinessHours) => void;
+}
+
+const DEFAULT_WINDOW = { start: '09:00', end: '17:00' };
+
+const timeInputClassName = 'border border-border rounded px-2 py-1 text-sm bg-surface text-text-primary';
+
+export default function WeeklyHoursEditor({ value, onChange }: WeeklyHoursEditorProps) {
+  // Windows keep their order within a day while they are edited; days are sorted
+  const setDay = (day: number, windows: { start: string; end: string }[]) => {
+    onChange(
+      [...value.filter((window) => window.day !== day), ...windows.map((window) => ({ day, ...window }))].sort(
+        (a, b) => a.day - b.day
+      )
+    );
+  };
+
+  const copyToWeekdays = (day: number) => {
+    const windows = value.filter((window) => window.day === day);
+    const others = value.filter((window) => window.day === 0 || window.day === 6 || window.day === day);
+    const copies = [1, 2, 3, 4, 5]
+      .filter((weekday) => weekday !== day)
+      .flatMap((weekday) => windows.map((window) => ({ ...window, day: weekday })));
+    onChange([...others, ...copies].sort((a, b) => a.day - b.day));
+  };
+
+  return (
+    <div className="border border-border rounded-lg divide-y divide-border bg-surface">
+      {DAY_NAMES.map((dayName, day) => {
+        const windows = value.filter((window) => window.day === day).map(({ start, end }) => ({ start, end }));
+        const isOpen = windows.length > 0;
+
+        return (
+          <div key={day} className="p-3 flex flex-col sm:flex-row sm:items-start gap-3">
+            <label className="flex items-center gap-2 w-36 shrink-0 pt-1">
+              <input
+                type="checkbox"
+                checked={isOpen}
+                className="w-4 h-4 rounded border-gray-300 text-primary focus:ring-primary"
+                onChange={(e) => setDay(day, e.target.checked ? [DEFAULT_WINDOW] : [])}
+              />
+              <span className={`text-sm font-medium ${isOpen ? 'text-text-primary' : 'text-text-muted'}`}>{dayName}</span>
+            </label>
+
+            {isOpen ? (
+              <div className="flex-1 space-y-2">
+                {windows.map((window, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <input
+                      type="time"
+                      value={window.start}
+                      className={timeInputClassName}
+                      onChange={(e) =>
+                        setDay(day, windows.map((w, i) => (i === index ? { ...w, start: e.target.value } : w)))
+                      }
+                    />
+                    <span className="text-text-muted">–</span>
+                    <input
+                      type="time"
+                      value={window.end}
+                      className={timeInputClassName}
+                      onChange={(e) =>
+                        setDay(day, windows.map((w, i) => (i === index ? { ...w, end: e.target.value } : w)))
+                      }
+                    />
+                    <button
+                      type="button"
+                      className="text-xs text-text-muted hover:text-danger"
+                      onClick={() => setDay(day, windows.filter((_, i) => i !== index))}
+                      title="Remove window"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+                <div className="flex gap-3 text-xs">
+                  {windows.length < MAX_WINDOWS_PER_DAY && (
+                    <button
+                      type="button"
+                      className="text-primary hover:underline"
+                      onClick={() =>
+                        setDay(day, [
+                          ...windows,
+                          { start: windows[windows.length - 1].end, end: hourAfter(windows[windows.length - 1].end) },
+                        ])
+                      }
+                    >
+                      + Add window
+                    </button>
+                  )}
+                  {day >= 1 && day <= 5 && (
+                    <button type="button" className="text-text-muted hover:underline" onClick={() => copyToWeekdays(day)}>
+                      Copy to Mon–Fri
+                    </button>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <p className="flex-1 text-sm text-text-muted pt-1">Closed</p>
+            )}
+          </div>
+        );
+      })}
+      {value.length === 0 && (
+        <div className="p-3 flex items-center justify-between gap-3">
+          <p className="text-xs text-text-muted">No hours set: the bot treats every time as business hours.</p>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange([1, 2, 3, 4, 5].map((day) => ({ day, ...DEFAULT_WINDOW })))}
+          >
+            Use Mon–Fri 09:00–17:00
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+'use client';
+
+import React, { useState } from 'react';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import SegmentPicker from '@/components/contacts/SegmentPicker';
+import { useSegmentPreview } from '@/hooks/useSegmentPreview';
+import { ApiError } from '@/lib/api';
+import {
+  AudienceSegment,
+  CreateCampaignResponse,
+  Device,
+  MAX_CAMPAIGN_NUMBERS,
+  MAX_CAMPAIGN_VARIANTS,
+  createCampaign,
+} from '@/lib/userService';
+
+/**
+ * CampaignForm
+ *
+ * Create a campaign for a segment or a pasted list of numbers. Adding a
+ * second (up to fourth) message turns it into an A/B test: the audience is
+ * split evenly between the variants at random.
+ */
+
+interface CampaignFormProps {
+  devices: Device[];
+  onCreated: (campaign: CreateCampaignResponse) => void;
+  onCancel: () => void;
+}
+
+type AudienceSource = 'segment' | 'numbers';
+
+const VARIANT_KEYS = ['A', 'B', 'C', 'D'];
+
+const parseNumbers = (text: string) =>
+  [...new Set(text.split(/[\r\n,;]+/).map((value) => value.trim()))].filter(Boolean);
+
+export default function CampaignForm({ devices, onCreated, onCancel }: CampaignFormProps) {
+  const [deviceId, setDeviceId] = useState(devices[0]?.deviceId ?? '');
+  const [name, setName] = useState('');
+  const [source, setSource] = useState<AudienceSource>('segment');
+  const [segment, setSegment] = useState<AudienceSegment | null>(null);
+  const [numbersText, setNumbersText] = useState('');
+  const [variants, setVariants] = useState<string[]>(['']);
+  const [delay, setDelay] = useState(3);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Count contacts missing a variable used by any variant
+  const { preview, isLoading: isCounting } = useSegmentPreview(
+    source === 'segment' && segment ? segment.rules : null,
+    variants.join('\n')
+  );
+
+  const numbers = parseNumbers(numbersText);
+
+  const updateVariant = (index: number, value: string) => {
+    setVariants((current) => current.map((message, i) => (i === index ? value : message)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!deviceId) {
+      setError('Select a device');
+      return;
+    }
+    if (!name.trim()) {
+      setError('Give the campaign a name');
+      return;
+    }
+    if (variants.some((message) => !message.trim())) {
+      setError('Every variant needs a message');
+      return;
+    }
+    if (source === 'segment' && !segment) {
+      setError('Select a segment');
+      return;
+    }
+    if (source === 'segment' && preview && preview.count > preview.max) {
+      setError(`Segment matches more than ${preview.max} recipients`);
+      return;
+    }
+    if (source === 'numbers' && numbers.length === 0) {
+      setError('Enter at least one phone number');
+      return;
+    }
+    if (source === 'numbers' && numbers.length > MAX_CAMPAIGN_NUMBERS) {
+      setError(`A campaign can have at most ${MAX_CAMPAIGN_NUMBERS} pasted numbers (found ${numbers.length})`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const campaign = await createCampaign(deviceId, {
+        name: name.trim(),
+        variants: variants.map((message) => message.trim()),
+        ...(source === 'segment' ? { segmentId: segment!.id } : { numbers }),
+        delay,
+      });
+      onCreated(campaign);
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to create campaign');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Input
+          label="Campaign name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g. Ramadan promo"
+        />
+        <div>
+          <label className="block text-sm font-medium text-text-secondary mb-2">Device</label>
+          <select
+            value={deviceId}
+            onChange={(e) => setDeviceId(e.target.value)}
+            className="w-full px-4 py-2.5 bg-elevated border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+          >
+            {devices.map((device) => (
+              <option key={device.deviceId} value={device.deviceId}>
+                {device.deviceName || device.deviceId} ({device.phoneNumber || 'Unknown'})
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Audience */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="block text-sm font-medium text-text-secondary">Audience</label>
+          <div className="flex gap-1 text-sm">
+            {(['segment', 'numbers'] as AudienceSource[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setSource(option)}
+                className={`px-3 py-1 rounded-lg ${
+                  source === option ? 'bg-primary-soft text-primary' : 'text-text-muted hover:text-text-primary'
+                }`}
+              >
+                {option === 'segment' ? 'Segment' : 'Paste numbers'}
+              </button>
+            ))}
+          </div>
+        </div>
+        {source === 'segment' ? (
+          <SegmentPicker
+            selected={segment}
+            onChange={setSegment}
+            devices={devices}
+            preview={preview}
+            isCounting={isCounting}
+          />
+        ) : (
+          <>
+            <textarea
+              value={numbersText}
+              onChange={(e) => setNumbersText(e.target.value)}
+              rows={5}
+              placeholder={'One number per line, e.g.\n+6281234567890\n081234567891'}
+              className="w-full px-4 py-3 bg-elevated border border-border rounded-lg text-text-primary placeholder-text-muted focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent resize-none font-mono text-sm"
+            />
+            <p className="text-xs text-text-muted mt-1">
+              {numbers.length} numbers · maximum {MAX_CAMPAIGN_NUMBERS}. Only {'{{phone}}'} can be used in messages
+              sent to pasted numbers.
+            </p>
+          </>
+        )}
+      </div>
+
+      {/* Variants */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <label className="block text-sm font-medium text-text-secondary">
+            {variants.length > 1 ? `Message variants (audience split ${variants.length} ways)` : 'Message'}
+          </label>
+          {variants.length < MAX_CAMPAIGN_VARIANTS && (
+            <button
+              type="button"
+              onClick={() => setVariants((current) => [...current, ''])}
+              className="text-sm text-primary hover:underline"
+            >
+              + Add variant {VARIANT_KEYS[variants.length]}
+            </button>
+          )}
+        </div>
+        {variants.map((message, index) => (
+          <div key={index} className="flex gap-3">
+            {variants.length > 1 && (
+              <span className="mt-2 w-7 h-7 shrink-0 flex items-center justify-center rounded-full bg-primary-soft text-primary text-sm font-semibold">
+                {VARIANT_KEYS[index]}
+              </span>
+            )}
+            <div className="flex-1">
+              <textarea
+                value={message}
+                onChange={(e) => updateVariant(index, e.target.value)}
+                rows={3}
+                placeholder="Hi {{name}}, ..."
+                className="w-full px-4 py-3 bg-elevated border border-border rounded-lg text-text-primary placeholder-text-muted focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent resize-none"
+              />
+              <div className="flex justify-between text-xs text-text-muted">
+                <span>{message.length} characters</span>
+                {variants.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => setVariants((current) => current.filter((_, i) => i !== index))}
+                    className="hover:text-danger"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-text-secondary mb-2">
+          Delay between messages: {delay} seconds
+        </label>
+        <input
+          type="range"
+          min="1"
+          max="10"
+          value={delay}
+          onChange={(e) => setDelay(parseInt(e.target.value))}
+          className="w-full h-2 bg-border rounded-lg appearance-none cursor-pointer accent-primary"
+        />
+        <div className="flex justify-between text-xs text-text-muted mt-1">
+          <span>1s (faster)</span>
+          <span>10s (safer)</span>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-danger-soft border border-danger rounded-lg">
+          <p className="text-sm text-danger">{error}</p>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" variant="primary" disabled={isSubmitting || devices.length === 0}>
+          {isSubmitting ? 'Creating...' : 'Start Campaign'}
+        </Button>
+      </div>
+    </form>
+  );
+}
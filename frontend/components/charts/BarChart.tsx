@@ -31,6 +31,8 @@ interface BarChartProps {
    * 'horizontal' = bars go horizontally (categories on Y axis, values on X axis)
    */
   orientation?: 'vertical' | 'horizontal';
+  /** Tooltip label for the value, e.g. 'Reply rate (%)' */
+  valueLabel?: string;
 }
 
 const DEFAULT_COLORS = [
@@ -49,6 +51,7 @@ export default function BarChart({
   loading = false,
   colors = DEFAULT_COLORS,
   orientation = 'vertical',
+  valueLabel = 'Count',
 }: BarChartProps) {
   if (loading) {
     return (
@@ -156,7 +159,7 @@ export default function BarChart({
               borderRadius: '8px',
               color: 'var(--color-text-primary)',
             }}
-            formatter={(value) => [Number(value).toLocaleString(), 'Count']}
+            formatter={(value) => [Number(value).toLocaleString(), valueLabel]}
             cursor={{ fill: 'transparent' }}
           />
         </RechartsBarChart>
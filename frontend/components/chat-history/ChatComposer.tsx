@@ -0,0 +1,247 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  ChatMessage,
+  MessageTemplate,
+  getTemplates,
+  sendMedia,
+  sendMessage,
+  useTemplate as recordTemplateUse,
+} from '@/lib/userService';
+import { ApiError } from '@/lib/api';
+import { renderTemplate } from '@/lib/templateVariables';
+import Button from '@/components/ui/Button';
+
+/**
+ * ChatComposer
+ *
+ * Reply box under an open chat: text, one attachment (sent with the text as
+ * caption), template insertion and quoting the message being replied to.
+ * Sent messages are handed to onSent so the chat shows them right away.
+ */
+
+interface ChatComposerProps {
+  deviceId: string;
+  jid: string;
+  chatName?: string;
+  replyTo: ChatMessage | null;
+  onCancelReply: () => void;
+  onSent: (message: ChatMessage) => void;
+}
+
+// Same limits as the send-media endpoint
+const MAX_FILE_SIZE = 16 * 1024 * 1024;
+const MAX_MESSAGE_LENGTH = 4096;
+
+const mediaTypeOf = (file: File) =>
+  file.type.startsWith('image/') ? 'image' : file.type.startsWith('video/') ? 'video' : 'document';
+
+export default function ChatComposer({ deviceId, jid, chatName, replyTo, onCancelReply, onSent }: ChatComposerProps) {
+  const [text, setText] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const phone = jid.split('@')[0];
+
+  useEffect(() => {
+    getTemplates()
+      .then((response) => setTemplates(response.templates))
+      .catch(() => setTemplates([]));
+  }, []);
+
+  // A draft belongs to one chat
+  useEffect(() => {
+    setText('');
+    setFile(null);
+    setError(null);
+  }, [deviceId, jid]);
+
+  useEffect(() => {
+    if (replyTo) textareaRef.current?.focus();
+  }, [replyTo]);
+
+  const handleTemplateChange = (templateId: string) => {
+    const template = templates.find((t) => t.id === Number(templateId));
+    if (!template) return;
+
+    // Contact variables are filled in; others stay as {{placeholders}} to edit
+    const { text: rendered } = renderTemplate(template.content, {
+      name: chatName && chatName !== phone ? chatName : undefined,
+      phone,
+    });
+    setText((current) => (current.trim() ? `${current.trimEnd()}\n${rendered}` : rendered));
+    // Only bumps the template's usage count
+    recordTemplateUse(template.id).catch(() => undefined);
+    textareaRef.current?.focus();
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] || null;
+    e.target.value = '';
+    if (selected && selected.size > MAX_FILE_SIZE) {
+      setError(`File size exceeds 16MB limit. Your file is ${(selected.size / (1024 * 1024)).toFixed(2)}MB`);
+      return;
+    }
+    setError(null);
+    setFile(selected);
+  };
+
+  const handleSend = async () => {
+    const message = text.trim();
+    if (isSending || (!message && !file)) return;
+    if (message.length > MAX_MESSAGE_LENGTH) {
+      setError(`Message is longer than ${MAX_MESSAGE_LENGTH} characters`);
+      return;
+    }
+
+    setIsSending(true);
+    setError(null);
+
+    try {
+      let messageId: string;
+      if (file) {
+        const formData = new FormData();
+        formData.append('to', phone);
+        formData.append('mediaType', mediaTypeOf(file));
+        formData.append('file', file);
+        if (message) formData.append('caption', message);
+        if (replyTo) formData.append('quotedMessageId', replyTo.id);
+        ({ messageId } = await sendMedia(deviceId, formData));
+      } else {
+        ({ messageId } = await sendMessage(deviceId, {
+          phone,
+          message,
+          ...(replyTo && { quotedMessageId: replyTo.id }),
+        }));
+      }
+
+      onSent({
+        id: messageId,
+        from: 'me',
+        to: phone,
+        message,
+        timestamp: new Date().toISOString(),
+        type: file ? mediaTypeOf(file) : 'text',
+        direction: 'outgoing',
+        status: 'sent',
+        // Sent files are not kept, so history only shows their details
+        media: file
+          ? { url: null, mimetype: file.type, fileName: file.name, size: file.size, status: 'not_downloaded' }
+          : null,
+        quoted: replyTo
+          ? {
+              id: replyTo.id,
+              fromMe: replyTo.direction === 'outgoing',
+              messageType: replyTo.type,
+              text: replyTo.message || null,
+            }
+          : null,
+      });
+      setText('');
+      setFile(null);
+      onCancelReply();
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to send message');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter sends, Shift+Enter adds a line
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <div className="border-t border-border pt-3 mt-3 space-y-2">
+      {replyTo && (
+        <div className="flex items-start justify-between gap-2 px-3 py-2 rounded-md bg-elevated border-l-4 border-primary">
+          <div className="min-w-0">
+            <p className="text-xs font-medium text-primary">
+              Replying to {replyTo.direction === 'outgoing' ? 'yourself' : chatName || phone}
+            </p>
+            <p className="text-xs text-text-muted truncate">
+              {replyTo.message || replyTo.media?.fileName || `[${replyTo.type}]`}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onCancelReply}
+            className="text-text-muted hover:text-text-primary text-sm"
+            title="Cancel reply"
+          >
+            ✕
+          </button>
+        </div>
+      )}
+
+      {file && (
+        <div className="flex items-center justify-between gap-2 px-3 py-2 rounded-md bg-elevated text-sm">
+          <span className="truncate text-text-primary">
+            {file.name}
+            <span className="text-xs text-text-muted ml-2">{(file.size / (1024 * 1024)).toFixed(2)} MB</span>
+          </span>
+          <button
+            type="button"
+            onClick={() => setFile(null)}
+            className="text-text-muted hover:text-text-primary"
+            title="Remove attachment"
+          >
+            ✕
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-danger">{error}</p>}
+
+      <textarea
+        ref={textareaRef}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={handleKeyDown}
+        rows={3}
+        placeholder={file ? 'Add a caption...' : 'Type a message...'}
+        className="w-full px-3 py-2 bg-card border border-border rounded-lg text-sm text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary resize-none"
+      />
+
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*,video/*,.pdf,.doc,.docx,.xls,.xlsx,.txt"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+          <Button variant="ghost" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isSending}>
+            Attach
+          </Button>
+          {templates.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => handleTemplateChange(e.target.value)}
+              className="px-2 py-1.5 bg-card border border-border rounded-lg text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              <option value="">Insert template...</option>
+              {templates.map((template) => (
+                <option key={template.id} value={template.id}>
+                  {template.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        <Button size="sm" onClick={handleSend} disabled={isSending || (!text.trim() && !file)}>
+          {isSending ? 'Sending...' : 'Send'}
+        </Button>
+      </div>
+    </div>
+  );
+}
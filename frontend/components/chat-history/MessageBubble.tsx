@@ -1,16 +1,22 @@
 import React, { useState } from 'react';
 import { ChatMessage, sendMessage } from '@/lib/userService';
 import Button from '@/components/ui/Button';
+import MessageMedia from '@/components/chat-history/MessageMedia';
 
 interface MessageBubbleProps {
   message: ChatMessage;
   deviceId: string;
   onRetrySuccess?: () => void;
+  /** Shows a Reply action that quotes this message in the composer */
+  onReply?: (message: ChatMessage) => void;
 }
 
-export default function MessageBubble({ message, deviceId, onRetrySuccess }: MessageBubbleProps) {
+export default function MessageBubble({ message, deviceId, onRetrySuccess, onReply }: MessageBubbleProps) {
   const [isRetrying, setIsRetrying] = useState(false);
 
+  const formatReceipt = (label: string, time?: string | null) =>
+    time ? `${label} ${new Date(time).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}` : label;
+
   // Status Icons
   const getStatusIcon = (status?: string) => {
     if (!status) return null; // Pending or unknown
@@ -18,7 +24,10 @@ export default function MessageBubble({ message, deviceId, onRetrySuccess }: Mes
     switch (status) {
       case 'read':
         return (
-          <span title="Read" className="text-info">
+          <span
+            title={[formatReceipt('Delivered', message.deliveredAt), formatReceipt('Read', message.readAt)].join('\n')}
+            className="text-info"
+          >
             <svg className="w-3.5 h-3.5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
               <path d="M18 6L7 17l-5-5" />
               <path d="M22 10l-7.5 7.5L13 16" />
@@ -27,7 +36,7 @@ export default function MessageBubble({ message, deviceId, onRetrySuccess }: Mes
         );
       case 'delivered':
         return (
-          <span title="Delivered" className="text-text-secondary">
+          <span title={formatReceipt('Delivered', message.deliveredAt)} className="text-text-secondary">
              <svg className="w-3.5 h-3.5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
               <path d="M18 6L7 17l-5-5" />
               <path d="M22 10l-7.5 7.5L13 16" />
@@ -85,6 +94,18 @@ export default function MessageBubble({ message, deviceId, onRetrySuccess }: Mes
     }
   };
 
+  // Missed and rejected calls are events in the conversation, not messages
+  if (message.type === 'call') {
+    return (
+      <div className="flex justify-center mb-3">
+        <span className="px-3 py-1 rounded-full bg-danger-soft text-danger text-xs">
+          📞 {message.message} ·{' '}
+          {new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </span>
+      </div>
+    );
+  }
+
   const isOutgoing = message.direction === 'outgoing';
 
   return (
@@ -96,7 +117,18 @@ export default function MessageBubble({ message, deviceId, onRetrySuccess }: Mes
             : 'bg-elevated text-text-primary rounded-tl-none'
         } ${message.status === 'failed' ? 'border border-danger/50 bg-danger-soft/10' : ''}`}
       >
-        <p className="text-sm whitespace-pre-wrap">{message.message}</p>
+        {message.quoted && (
+          <div className="mb-1 px-2 py-1 rounded border-l-4 border-primary bg-black/5 text-xs">
+            <p className="font-medium text-primary">
+              {message.quoted.fromMe === null ? 'Reply' : message.quoted.fromMe ? 'You' : 'Contact'}
+            </p>
+            <p className="text-text-muted truncate">
+              {message.quoted.text || (message.quoted.messageType ? `[${message.quoted.messageType}]` : 'Earlier message')}
+            </p>
+          </div>
+        )}
+        {message.media && <MessageMedia type={message.type} media={message.media} />}
+        {message.message && <p className="text-sm whitespace-pre-wrap">{message.message}</p>}
         
         <div className={`flex items-center gap-1.5 mt-1 ${isOutgoing ? 'justify-end' : 'justify-start'}`}>
           <span className="text-[10px] text-text-muted">
@@ -107,10 +139,19 @@ export default function MessageBubble({ message, deviceId, onRetrySuccess }: Mes
                {getStatusIcon(message.status)}
              </div>
           )}
+          {onReply && message.status !== 'failed' && (
+            <button
+              type="button"
+              onClick={() => onReply(message)}
+              className="text-[10px] text-text-muted hover:text-primary opacity-0 group-hover:opacity-100 transition-opacity"
+            >
+              Reply
+            </button>
+          )}
         </div>
 
-        {/* Retry Action for Failed Messages */}
-        {isOutgoing && message.status === 'failed' && (
+        {/* Retry Action for Failed Messages (text only) */}
+        {isOutgoing && message.status === 'failed' && !message.media && (
           <div className="mt-2 pt-2 border-t border-danger/10 flex justify-end">
              <Button 
                variant="ghost" 
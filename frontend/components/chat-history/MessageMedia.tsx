@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { ChatMediaStatus, ChatMessageMedia } from '@/lib/userService';
+import { getBlob } from '@/lib/api';
+
+/**
+ * MessageMedia
+ *
+ * Attachment of a chat message: a thumbnail for images and stickers, inline
+ * players for video and audio and a download link for documents. Media that
+ * was not downloaded or has been removed shows why instead.
+ *
+ * Stored media is only served to signed-in users, so files are fetched with
+ * the auth header and shown from an object URL. Images load right away;
+ * video, audio and documents load when clicked.
+ */
+
+interface MessageMediaProps {
+  type: string;
+  media: ChatMessageMedia;
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  image: 'Image',
+  video: 'Video',
+  audio: 'Audio',
+  document: 'Document',
+  sticker: 'Sticker',
+};
+
+const UNAVAILABLE_REASONS: Record<Exclude<ChatMediaStatus, 'stored'>, string> = {
+  downloading: 'downloading…',
+  too_large: 'too large to download',
+  failed: 'download failed',
+  not_downloaded: 'not downloaded',
+  expired: 'removed after the retention period',
+};
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+/**
+ * Object URL of a stored file, revoked when the component unmounts
+ * @param path - API path of the file, or null to not load it (yet)
+ */
+function useMediaObjectUrl(path: string | null) {
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    if (!path) return;
+    let cancelled = false;
+    let created: string | null = null;
+
+    getBlob(path)
+      .then((blob) => {
+        if (cancelled) return;
+        created = URL.createObjectURL(blob);
+        setObjectUrl(created);
+      })
+      .catch(() => {
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+      if (created) URL.revokeObjectURL(created);
+    };
+  }, [path]);
+
+  return { objectUrl, failed };
+}
+
+export default function MessageMedia({ type, media }: MessageMediaProps) {
+  const typeLabel = TYPE_LABELS[type] || 'Media';
+  const label = media.fileName || typeLabel;
+  const isStored = !!media.url && media.status === 'stored';
+  const isImage = type === 'image' || type === 'sticker';
+
+  const [requested, setRequested] = useState(false);
+  const { objectUrl, failed } = useMediaObjectUrl(isStored && (isImage || requested) ? media.url : null);
+
+  const isPlayable = type === 'video' || type === 'audio';
+
+  const saveFile = (url: string) => {
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = media.fileName || typeLabel.toLowerCase();
+    link.click();
+  };
+
+  // A requested document is saved as soon as it has loaded
+  useEffect(() => {
+    if (objectUrl && !isImage && !isPlayable) saveFile(objectUrl);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [objectUrl]);
+
+  if (!isStored || failed) {
+    const reason = failed
+      ? 'could not be loaded'
+      : UNAVAILABLE_REASONS[media.status === 'stored' ? 'expired' : media.status];
+    return (
+      <div className="flex items-center gap-2 px-3 py-2 mb-1 rounded-md bg-elevated text-xs text-text-muted">
+        <span className="font-medium">{typeLabel}</span>
+        <span className="truncate">
+          {media.fileName ? `${media.fileName} · ` : ''}
+          {reason}
+        </span>
+      </div>
+    );
+  }
+
+  if (isImage) {
+    if (!objectUrl) {
+      return (
+        <div
+          className={`mb-1 rounded-md bg-elevated animate-pulse ${type === 'sticker' ? 'h-28 w-28' : 'h-40 w-56'}`}
+          title={label}
+        />
+      );
+    }
+    return (
+      <a href={objectUrl} target="_blank" rel="noopener noreferrer" title={label} className="block mb-1">
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={objectUrl}
+          alt={label}
+          className={
+            type === 'sticker'
+              ? 'h-28 w-28 object-contain'
+              : 'max-h-64 max-w-full rounded-md object-cover border border-border'
+          }
+        />
+      </a>
+    );
+  }
+
+  if (objectUrl && type === 'video') {
+    return <video src={objectUrl} controls autoPlay className="max-h-64 max-w-full rounded-md mb-1" />;
+  }
+
+  if (objectUrl && type === 'audio') {
+    return <audio src={objectUrl} controls autoPlay className="max-w-full mb-1" />;
+  }
+
+  const isLoading = requested && !objectUrl;
+
+  return (
+    <button
+      type="button"
+      onClick={() => (objectUrl ? saveFile(objectUrl) : setRequested(true))}
+      disabled={isLoading}
+      className="flex items-center gap-2 px-3 py-2 mb-1 rounded-md bg-elevated text-sm text-primary hover:underline disabled:opacity-60"
+      title={label}
+    >
+      <svg className="w-4 h-4 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M12 10v6m0 0l-3-3m3 3l3-3M6 20h12a2 2 0 002-2V8l-6-6H6a2 2 0 00-2 2v14a2 2 0 002 2z"
+        />
+      </svg>
+      <span className="truncate">
+        {isLoading ? 'Loading...' : isPlayable ? `Play ${typeLabel.toLowerCase()}` : label}
+      </span>
+      {media.size && <span className="text-xs text-text-muted shrink-0">{formatSize(media.size)}</span>}
+    </button>
+  );
+}
@@ -0,0 +1,377 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import Button from '@/components/ui/Button';
+import Badge from '@/components/ui/Badge';
+import TagInput from '@/components/ui/TagInput';
+import {
+  importContacts,
+  parsePhoneNumbers,
+  ImportContactRow,
+  ImportContactsResult,
+} from '@/lib/userService';
+import {
+  readImportFile,
+  guessMapping,
+  toCustomFieldKey,
+  splitTags,
+  ImportField,
+  ImportTable,
+  MAX_IMPORT_ROWS,
+} from '@/lib/contactImport';
+import { formatPhoneNumber } from '@/lib/phoneNumber';
+import { ApiError } from '@/lib/api';
+import { Upload } from 'lucide-react';
+
+/**
+ * ContactImport
+ *
+ * Bulk import from CSV or vCard: upload, map columns to contact fields,
+ * preview invalid and duplicate rows, then merge into existing contacts.
+ */
+
+interface ContactImportProps {
+  /** New contacts are attached to this device */
+  deviceId?: string;
+  /** Country for numbers without calling code */
+  defaultCountry: string;
+  onClose: () => void;
+  onImported?: (result: ImportContactsResult) => void;
+}
+
+type ColumnMapping = ImportField | '';
+
+const FIELD_OPTIONS: { value: ColumnMapping; label: string }[] = [
+  { value: '', label: "Don't import" },
+  { value: 'name', label: 'Name' },
+  { value: 'phoneNumber', label: 'Phone' },
+  { value: 'email', label: 'Email' },
+  { value: 'tags', label: 'Tags' },
+  { value: 'notes', label: 'Notes' },
+  { value: 'custom', label: 'Custom field' },
+];
+
+type RowStatus = 'valid' | 'invalid' | 'duplicate';
+
+interface PreviewRow {
+  index: number;
+  status: RowStatus;
+  contact: ImportContactRow;
+  normalized: string | null;
+}
+
+const PREVIEW_LIMIT = 50;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export default function ContactImport({
+  deviceId,
+  defaultCountry,
+  onClose,
+  onImported,
+}: ContactImportProps) {
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ImportContactsResult | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsReading(true);
+    setError(null);
+    try {
+      const parsed = await readImportFile(file);
+      if (parsed.rows.length === 0) {
+        setError('No contacts found in this file');
+        return;
+      }
+      if (parsed.rows.length > MAX_IMPORT_ROWS) {
+        setError(`A file can contain at most ${MAX_IMPORT_ROWS} contacts (found ${parsed.rows.length})`);
+        return;
+      }
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(guessMapping(parsed.headers));
+    } catch {
+      setError('Could not read this file. Use a CSV or vCard (.vcf) file.');
+    } finally {
+      setIsReading(false);
+      e.target.value = '';
+    }
+  };
+
+  const phoneColumn = mapping.indexOf('phoneNumber');
+
+  const preview = useMemo<PreviewRow[]>(() => {
+    if (!table || phoneColumn === -1) return [];
+
+    const seen = new Set<string>();
+    return table.rows.map((cells, index) => {
+      const contact: ImportContactRow = { phoneNumber: cells[phoneColumn] };
+      const customFields: Record<string, string> = {};
+
+      mapping.forEach((field, column) => {
+        const value = cells[column];
+        if (!field || field === 'phoneNumber' || !value) return;
+        if (field === 'tags') {
+          contact.tags = [...(contact.tags || []), ...splitTags(value)].slice(0, 10);
+        } else if (field === 'email') {
+          // A bad email would reject the whole import; keep the contact without it
+          if (EMAIL_PATTERN.test(value)) contact.email = value;
+        } else if (field === 'custom') {
+          customFields[toCustomFieldKey(table.headers[column])] = value.substring(0, 255);
+        } else {
+          contact[field] = value;
+        }
+      });
+      if (Object.keys(customFields).length > 0) {
+        contact.customFields = customFields;
+      }
+
+      const normalized = parsePhoneNumbers(contact.phoneNumber, defaultCountry).normalized.get(
+        contact.phoneNumber.trim()
+      );
+      let status: RowStatus = 'valid';
+      if (!normalized) {
+        status = 'invalid';
+      } else if (seen.has(normalized)) {
+        status = 'duplicate';
+      } else {
+        seen.add(normalized);
+      }
+
+      return { index, status, contact, normalized: normalized || null };
+    });
+  }, [table, mapping, phoneColumn, defaultCountry]);
+
+  const counts = useMemo(
+    () => ({
+      valid: preview.filter((row) => row.status === 'valid').length,
+      invalid: preview.filter((row) => row.status === 'invalid').length,
+      duplicate: preview.filter((row) => row.status === 'duplicate').length,
+    }),
+    [preview]
+  );
+
+  // Invalid and duplicate rows first so problems are visible without scrolling
+  const previewRows = useMemo(
+    () =>
+      [...preview]
+        .sort((a, b) => (a.status === 'valid' ? 1 : 0) - (b.status === 'valid' ? 1 : 0) || a.index - b.index)
+        .slice(0, PREVIEW_LIMIT),
+    [preview]
+  );
+
+  const setColumnMapping = (column: number, field: ColumnMapping) => {
+    setMapping((current) =>
+      current.map((value, index) => {
+        if (index === column) return field;
+        // Standard fields map to one column only
+        if (field && field !== 'custom' && field !== 'tags' && value === field) return '';
+        return value;
+      })
+    );
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setError(null);
+    try {
+      const importResult = await importContacts({
+        contacts: preview.filter((row) => row.status === 'valid').map((row) => row.contact),
+        tags,
+        deviceId,
+      });
+      setResult(importResult);
+      onImported?.(importResult);
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to import contacts');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const reset = () => {
+    setTable(null);
+    setMapping([]);
+    setFileName('');
+    setResult(null);
+    setError(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-text-primary">Import Contacts</h2>
+          <p className="text-sm text-text-muted">
+            CSV (also CSV saved from Excel) or vCard (.vcf). Contacts with a phone number you already have are
+            updated and their tags merged.
+          </p>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose} disabled={isImporting}>
+          Close
+        </Button>
+      </div>
+
+      {error && (
+        <div className="bg-danger-soft border border-danger rounded-lg p-3">
+          <p className="text-sm text-danger">{error}</p>
+        </div>
+      )}
+
+      {result ? (
+        <div className="space-y-3">
+          <div className="bg-success-soft border border-success rounded-lg p-4">
+            <p className="text-sm font-medium text-success">
+              Imported {result.created} new contacts and updated {result.updated} existing ones.
+            </p>
+            {(result.invalid.length > 0 || result.duplicates.length > 0) && (
+              <p className="text-xs text-text-secondary mt-1">
+                Skipped {result.invalid.length} invalid and {result.duplicates.length} duplicate rows.
+              </p>
+            )}
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={reset}>
+              Import another file
+            </Button>
+            <Button variant="primary" onClick={onClose}>
+              Done
+            </Button>
+          </div>
+        </div>
+      ) : !table ? (
+        <label className="flex flex-col items-center justify-center gap-2 p-8 border-2 border-dashed border-border rounded-lg cursor-pointer hover:bg-elevated transition-colors">
+          <Upload className="w-8 h-8 text-text-muted" />
+          <span className="text-sm text-text-primary">
+            {isReading ? 'Reading file...' : 'Choose a .csv or .vcf file'}
+          </span>
+          <span className="text-xs text-text-muted">Up to {MAX_IMPORT_ROWS} contacts</span>
+          <input
+            type="file"
+            accept=".csv,.txt,.vcf,.vcard,text/csv,text/vcard,text/x-vcard"
+            onChange={handleFileChange}
+            disabled={isReading}
+            className="hidden"
+          />
+        </label>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-text-secondary">
+            <span className="font-medium text-text-primary">{fileName}</span> · {table.rows.length} rows
+          </p>
+
+          {/* Column mapping */}
+          <div>
+            <p className="text-sm font-medium text-text-primary mb-2">Columns</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {table.headers.map((header, column) => (
+                <div key={column} className="flex items-center gap-3">
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm text-text-primary truncate" title={header}>
+                      {header}
+                    </p>
+                    <p className="text-xs text-text-muted truncate">
+                      {table.rows[0]?.[column] || '—'}
+                      {mapping[column] === 'custom' && ` · saved as "${toCustomFieldKey(header)}"`}
+                    </p>
+                  </div>
+                  <select
+                    value={mapping[column] || ''}
+                    onChange={(e) => setColumnMapping(column, e.target.value as ColumnMapping)}
+                    className="w-40 px-3 py-2 bg-elevated border border-border rounded-lg text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary"
+                  >
+                    {FIELD_OPTIONS.map(({ value, label }) => (
+                      <option key={value || 'ignore'} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-text-primary mb-2">Add tags to all imported contacts</p>
+            <TagInput value={tags} onChange={setTags} disabled={isImporting} />
+          </div>
+
+          {/* Preview */}
+          {phoneColumn === -1 ? (
+            <div className="p-3 bg-warning-soft border border-warning rounded-lg">
+              <p className="text-sm text-warning">Choose which column contains the phone number.</p>
+            </div>
+          ) : (
+            <div>
+              <div className="flex flex-wrap items-center gap-2 mb-2">
+                <Badge variant="success">{counts.valid} valid</Badge>
+                {counts.invalid > 0 && <Badge variant="danger">{counts.invalid} invalid</Badge>}
+                {counts.duplicate > 0 && <Badge variant="warning">{counts.duplicate} duplicates</Badge>}
+              </div>
+              <div className="overflow-x-auto max-h-80 overflow-y-auto border border-divider rounded-lg">
+                <table className="w-full text-sm">
+                  <thead className="bg-elevated sticky top-0">
+                    <tr className="text-left text-text-secondary">
+                      <th className="py-2 px-3 font-medium">#</th>
+                      <th className="py-2 px-3 font-medium">Name</th>
+                      <th className="py-2 px-3 font-medium">Phone</th>
+                      <th className="py-2 px-3 font-medium">Tags</th>
+                      <th className="py-2 px-3 font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-divider">
+                    {previewRows.map((row) => (
+                      <tr key={row.index}>
+                        <td className="py-2 px-3 text-text-muted">{row.index + 1}</td>
+                        <td className="py-2 px-3 text-text-primary">{row.contact.name || '—'}</td>
+                        <td className="py-2 px-3 font-mono text-text-secondary">
+                          {row.normalized ? formatPhoneNumber(row.normalized) : row.contact.phoneNumber || '—'}
+                        </td>
+                        <td className="py-2 px-3 text-text-secondary">{row.contact.tags?.join(', ') || '—'}</td>
+                        <td className="py-2 px-3">
+                          {row.status === 'valid' ? (
+                            <Badge variant="success">OK</Badge>
+                          ) : row.status === 'invalid' ? (
+                            <Badge variant="danger">Invalid number</Badge>
+                          ) : (
+                            <Badge variant="warning">Duplicate</Badge>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {preview.length > PREVIEW_LIMIT && (
+                <p className="text-xs text-text-muted mt-1">
+                  Showing {PREVIEW_LIMIT} of {preview.length} rows. Invalid and duplicate rows are skipped.
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={reset} disabled={isImporting}>
+              Choose another file
+            </Button>
+            <Button
+              variant="primary"
+              onClick={handleImport}
+              disabled={isImporting || phoneColumn === -1 || counts.valid === 0}
+            >
+              {isImporting ? 'Importing...' : `Import ${counts.valid} contacts`}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
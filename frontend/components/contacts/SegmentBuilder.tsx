@@ -0,0 +1,254 @@
+'use client';
+
+import React, { useState } from 'react';
+import Input from '@/components/ui/Input';
+import Button from '@/components/ui/Button';
+import ContactTagFilter from '@/components/contacts/ContactTagFilter';
+import { useSegmentPreview } from '@/hooks/useSegmentPreview';
+import { formatPhoneNumber } from '@/lib/phoneNumber';
+import { ApiError } from '@/lib/api';
+import {
+  AudienceSegment,
+  CustomFieldOperator,
+  CustomFieldRule,
+  EMPTY_SEGMENT_RULES,
+  SegmentRules,
+  createSegment,
+  deleteSegment,
+  updateSegment,
+} from '@/lib/userService';
+
+/**
+ * SegmentBuilder
+ *
+ * Create or edit a saved audience segment: tag include/exclude, device,
+ * last interaction and custom field rules, with a live recipient count.
+ */
+
+interface SegmentBuilderProps {
+  segment?: AudienceSegment | null;
+  devices: { deviceId: string; deviceName?: string | null }[];
+  onSaved: (segment: AudienceSegment) => void;
+  onDeleted?: (segmentId: number) => void;
+  onCancel: () => void;
+}
+
+const OPERATOR_LABELS: Record<CustomFieldOperator, string> = {
+  equals: 'equals',
+  not_equals: 'does not equal',
+  contains: 'contains',
+  exists: 'is set',
+  not_exists: 'is empty',
+};
+
+const selectClass =
+  'px-3 py-2 bg-elevated border border-border rounded-lg text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary';
+
+const parseDays = (value: string) => {
+  const days = parseInt(value, 10);
+  return Number.isNaN(days) || days < 1 ? null : days;
+};
+
+export default function SegmentBuilder({ segment, devices, onSaved, onDeleted, onCancel }: SegmentBuilderProps) {
+  const [name, setName] = useState(segment?.name || '');
+  const [description, setDescription] = useState(segment?.description || '');
+  const [rules, setRules] = useState<SegmentRules>(segment?.rules || EMPTY_SEGMENT_RULES);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { preview, isLoading: isCounting } = useSegmentPreview(rules);
+
+  const setRule = <K extends keyof SegmentRules>(key: K, value: SegmentRules[K]) =>
+    setRules((current) => ({ ...current, [key]: value }));
+
+  const updateFieldRule = (index: number, changes: Partial<CustomFieldRule>) =>
+    setRule(
+      'customFields',
+      rules.customFields.map((rule, i) => (i === index ? { ...rule, ...changes } : rule))
+    );
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('Please enter a segment name');
+      return;
+    }
+    if (rules.customFields.some((rule) => !/^[A-Za-z0-9_]{1,30}$/.test(rule.key))) {
+      setError('Custom field keys may only contain letters, digits and underscores');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const data = { name: name.trim(), description: description.trim() || null, rules };
+      const saved = segment ? await updateSegment(segment.id, data) : await createSegment(data);
+      onSaved(saved);
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to save segment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!segment || !confirm(`Delete segment "${segment.name}"?`)) return;
+    try {
+      await deleteSegment(segment.id);
+      onDeleted?.(segment.id);
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to delete segment');
+    }
+  };
+
+  return (
+    <div className="space-y-4 p-4 border border-border rounded-lg">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <Input label="Segment name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. VIP Jakarta" />
+        <Input
+          label="Description (optional)"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+        />
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-sm font-medium text-text-secondary">Include contacts tagged</label>
+          <select
+            value={rules.includeMatch}
+            onChange={(e) => setRule('includeMatch', e.target.value as SegmentRules['includeMatch'])}
+            className={selectClass}
+          >
+            <option value="any">with any of these tags</option>
+            <option value="all">with all of these tags</option>
+          </select>
+        </div>
+        <ContactTagFilter selectedTags={rules.includeTags} onTagsChange={(tags) => setRule('includeTags', tags)} />
+        <p className="text-xs text-text-muted mt-1">No tags selected = all contacts</p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-text-secondary mb-2">Exclude contacts tagged</label>
+        <ContactTagFilter selectedTags={rules.excludeTags} onTagsChange={(tags) => setRule('excludeTags', tags)} />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-text-secondary mb-2">Device</label>
+          <select
+            value={rules.deviceId || ''}
+            onChange={(e) => setRule('deviceId', e.target.value || null)}
+            className={`w-full ${selectClass}`}
+          >
+            <option value="">All devices</option>
+            {devices.map((device) => (
+              <option key={device.deviceId} value={device.deviceId}>
+                {device.deviceName || device.deviceId}
+              </option>
+            ))}
+          </select>
+        </div>
+        <Input
+          type="number"
+          label="Messaged in the last (days)"
+          value={rules.lastMessageWithinDays?.toString() || ''}
+          onChange={(e) => setRule('lastMessageWithinDays', parseDays(e.target.value))}
+          placeholder="Any time"
+        />
+        <Input
+          type="number"
+          label="No message for (days)"
+          value={rules.lastMessageOlderThanDays?.toString() || ''}
+          onChange={(e) => setRule('lastMessageOlderThanDays', parseDays(e.target.value))}
+          placeholder="Off"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-text-secondary">Custom field rules</label>
+        {rules.customFields.map((rule, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <input
+              value={rule.key}
+              onChange={(e) => updateFieldRule(index, { key: e.target.value })}
+              placeholder="field_key"
+              className={`w-36 font-mono ${selectClass}`}
+            />
+            <select
+              value={rule.operator}
+              onChange={(e) => updateFieldRule(index, { operator: e.target.value as CustomFieldOperator })}
+              className={selectClass}
+            >
+              {(Object.keys(OPERATOR_LABELS) as CustomFieldOperator[]).map((operator) => (
+                <option key={operator} value={operator}>
+                  {OPERATOR_LABELS[operator]}
+                </option>
+              ))}
+            </select>
+            {rule.operator !== 'exists' && rule.operator !== 'not_exists' && (
+              <input
+                value={rule.value}
+                onChange={(e) => updateFieldRule(index, { value: e.target.value })}
+                placeholder="value"
+                className={`flex-1 min-w-[8rem] ${selectClass}`}
+              />
+            )}
+            <button
+              type="button"
+              onClick={() => setRule('customFields', rules.customFields.filter((_, i) => i !== index))}
+              className="text-sm text-danger hover:underline"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        {rules.customFields.length < 10 && (
+          <button
+            type="button"
+            onClick={() => setRule('customFields', [...rules.customFields, { key: '', operator: 'equals', value: '' }])}
+            className="text-sm text-primary hover:underline"
+          >
+            + Add rule
+          </button>
+        )}
+      </div>
+
+      <div className="p-3 bg-elevated rounded-lg text-sm">
+        {isCounting || !preview ? (
+          <span className="text-text-muted">Counting recipients...</span>
+        ) : (
+          <>
+            <span className="font-medium text-text-primary">{preview.count} contacts match</span>
+            {preview.sample.length > 0 && (
+              <span className="text-text-muted">
+                {' '}
+                · {preview.sample.map((c) => c.name || formatPhoneNumber(c.phoneNumber)).join(', ')}
+                {preview.count > preview.sample.length && ', ...'}
+              </span>
+            )}
+          </>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-danger-soft border border-danger rounded-lg">
+          <p className="text-sm text-danger">{error}</p>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Button type="button" variant="primary" size="sm" onClick={handleSave} disabled={isSaving}>
+          {isSaving ? 'Saving...' : segment ? 'Save Segment' : 'Create Segment'}
+        </Button>
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        {segment && onDeleted && (
+          <Button type="button" variant="ghost" size="sm" className="ml-auto text-danger" onClick={handleDelete}>
+            Delete
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
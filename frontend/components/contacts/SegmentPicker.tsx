@@ -0,0 +1,121 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import SegmentBuilder from '@/components/contacts/SegmentBuilder';
+import { ApiError } from '@/lib/api';
+import { AudienceSegment, SegmentPreview, getSegments } from '@/lib/userService';
+
+/**
+ * SegmentPicker
+ *
+ * Choose a saved audience segment as recipients, with a live count of the
+ * contacts it matches right now (see useSegmentPreview). Segments can be
+ * created or edited inline.
+ */
+
+interface SegmentPickerProps {
+  selected: AudienceSegment | null;
+  onChange: (segment: AudienceSegment | null) => void;
+  devices: { deviceId: string; deviceName?: string | null }[];
+  preview: SegmentPreview | null;
+  isCounting: boolean;
+}
+
+export default function SegmentPicker({ selected, onChange, devices, preview, isCounting }: SegmentPickerProps) {
+  const [segments, setSegments] = useState<AudienceSegment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<'new' | 'edit' | null>(null);
+
+  useEffect(() => {
+    getSegments()
+      .then(setSegments)
+      .catch((err) => setError((err as ApiError).message || 'Failed to load segments'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleSaved = (segment: AudienceSegment) => {
+    setSegments((current) =>
+      [...current.filter((s) => s.id !== segment.id), segment].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    onChange(segment);
+    setEditing(null);
+  };
+
+  const handleDeleted = (segmentId: number) => {
+    setSegments((current) => current.filter((s) => s.id !== segmentId));
+    onChange(null);
+    setEditing(null);
+  };
+
+  if (editing) {
+    return (
+      <SegmentBuilder
+        segment={editing === 'edit' ? selected : null}
+        devices={devices}
+        onSaved={handleSaved}
+        onDeleted={handleDeleted}
+        onCancel={() => setEditing(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <select
+          value={selected?.id ?? ''}
+          onChange={(e) => onChange(segments.find((s) => s.id === Number(e.target.value)) || null)}
+          disabled={isLoading}
+          className="flex-1 px-4 py-2.5 bg-elevated border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+        >
+          <option value="">{isLoading ? 'Loading segments...' : 'Select a segment'}</option>
+          {segments.map((segment) => (
+            <option key={segment.id} value={segment.id}>
+              {segment.name}
+            </option>
+          ))}
+        </select>
+        {selected && (
+          <button
+            type="button"
+            onClick={() => setEditing('edit')}
+            className="px-3 text-sm text-text-secondary hover:text-primary"
+          >
+            Edit
+          </button>
+        )}
+        <button type="button" onClick={() => setEditing('new')} className="px-3 text-sm text-primary hover:underline">
+          + New segment
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-danger">{error}</p>}
+
+      {selected && (
+        <div className="text-xs text-text-muted space-y-1">
+          {selected.description && <p>{selected.description}</p>}
+          {isCounting || !preview ? (
+            <p>Counting recipients...</p>
+          ) : (
+            <>
+              <p>
+                <span className="font-medium text-primary">{preview.count}</span> contacts match right now
+              </p>
+              {preview.incomplete > 0 && (
+                <p className="text-warning">
+                  {preview.incomplete} of them miss a variable used in the message and will be skipped
+                </p>
+              )}
+              {preview.count > preview.max && (
+                <p className="text-danger">
+                  More than {preview.max} recipients. Narrow the segment before sending.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
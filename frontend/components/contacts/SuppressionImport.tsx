@@ -0,0 +1,150 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Upload } from 'lucide-react';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import { ApiError } from '@/lib/api';
+import {
+  ImportSuppressionsResult,
+  MAX_SUPPRESSION_IMPORT,
+  importSuppressions,
+} from '@/lib/userService';
+
+/**
+ * SuppressionImport
+ *
+ * Add many numbers to the opt-out list at once, pasted or from a
+ * .csv/.txt file (one number per line or separated by commas).
+ */
+
+interface SuppressionImportProps {
+  onClose: () => void;
+  onImported: (result: ImportSuppressionsResult) => void;
+}
+
+// Any cell with at least a few digits counts as a number; header cells are dropped
+const parseNumbers = (text: string) =>
+  [...new Set(text.split(/[\r\n,;\t]+/).map((value) => value.trim().replace(/^"|"$/g, '')))].filter(
+    (value) => (value.match(/\d/g) || []).length >= 6
+  );
+
+export default function SuppressionImport({ onClose, onImported }: SuppressionImportProps) {
+  const [text, setText] = useState('');
+  const [reason, setReason] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ImportSuppressionsResult | null>(null);
+
+  const numbers = parseNumbers(text);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setText(await file.text());
+      setError(null);
+    } catch {
+      setError('Could not read this file. Use a CSV or text file.');
+    } finally {
+      e.target.value = '';
+    }
+  };
+
+  const handleImport = async () => {
+    if (numbers.length === 0) {
+      setError('No phone numbers found');
+      return;
+    }
+    if (numbers.length > MAX_SUPPRESSION_IMPORT) {
+      setError(`You can import at most ${MAX_SUPPRESSION_IMPORT} numbers at once (found ${numbers.length})`);
+      return;
+    }
+
+    setIsImporting(true);
+    setError(null);
+    try {
+      const imported = await importSuppressions(numbers, reason.trim() || undefined);
+      setResult(imported);
+      onImported(imported);
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to import opt-out list');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  if (result) {
+    return (
+      <div className="space-y-4">
+        <div className="p-4 bg-success-soft border border-success rounded-lg">
+          <p className="text-sm text-success font-medium">
+            {result.added} numbers added to the opt-out list, {result.existing} were already on it.
+          </p>
+        </div>
+        {result.invalid.length > 0 && (
+          <div className="p-3 bg-warning-soft border border-warning rounded-lg">
+            <p className="text-sm text-warning mb-1">{result.invalid.length} invalid numbers were ignored:</p>
+            <p className="text-xs text-text-muted font-mono break-all">
+              {result.invalid.slice(0, 20).join(', ')}
+              {result.invalid.length > 20 && ', ...'}
+            </p>
+          </div>
+        )}
+        <div className="flex justify-end">
+          <Button variant="primary" onClick={onClose}>
+            Done
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-text-primary">Import Opt-outs</h3>
+        <label className="flex items-center gap-2 text-sm text-primary cursor-pointer hover:underline">
+          <Upload className="w-4 h-4" />
+          Load .csv / .txt file
+          <input type="file" accept=".csv,.txt,text/csv,text/plain" onChange={handleFileChange} className="hidden" />
+        </label>
+      </div>
+
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={6}
+        placeholder={'One number per line, e.g.\n+6281234567890\n081234567891'}
+        className="w-full px-4 py-2.5 bg-elevated border border-border rounded-lg text-text-primary font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+      />
+      <p className="text-xs text-text-muted">
+        {numbers.length} numbers found
+        {numbers.length > 0 && ` · ${numbers.slice(0, 3).join(', ')}${numbers.length > 3 ? ', ...' : ''}`}
+      </p>
+
+      <Input
+        label="Reason (optional)"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        placeholder="e.g. Unsubscribed via website"
+      />
+
+      {error && (
+        <div className="p-3 bg-danger-soft border border-danger rounded-lg">
+          <p className="text-sm text-danger">{error}</p>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button variant="primary" onClick={handleImport} disabled={isImporting || numbers.length === 0}>
+          {isImporting ? 'Importing...' : `Import ${numbers.length} Numbers`}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Input from '@/components/ui/Input';
+import ContactTagFilter from '@/components/contacts/ContactTagFilter';
+import { getUserContacts, UserContact } from '@/lib/userService';
+import { formatPhoneNumber } from '@/lib/phoneNumber';
+import { ApiError } from '@/lib/api';
+
+/**
+ * BlastContactPicker
+ *
+ * Pick saved contacts as Chat Blast recipients, filtered by tags or search.
+ * Their name, email and custom fields become template variables.
+ */
+
+interface BlastContactPickerProps {
+  selected: UserContact[];
+  onChange: (contacts: UserContact[]) => void;
+  maxSelected: number;
+}
+
+export default function BlastContactPicker({ selected, onChange, maxSelected }: BlastContactPickerProps) {
+  const [contacts, setContacts] = useState<UserContact[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [search, setSearch] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadContacts = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await getUserContacts({
+        tags: tags.length > 0 ? tags.join(',') : undefined,
+        search: search.trim() || undefined,
+        limit: 100,
+      });
+      setContacts(response.contacts.filter((contact) => !contact.isBlocked));
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to load contacts');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tags, search]);
+
+  useEffect(() => {
+    const timer = setTimeout(loadContacts, 300);
+    return () => clearTimeout(timer);
+  }, [loadContacts]);
+
+  const selectedIds = new Set(selected.map((contact) => contact.id));
+
+  const toggle = (contact: UserContact) => {
+    if (selectedIds.has(contact.id)) {
+      onChange(selected.filter((c) => c.id !== contact.id));
+    } else if (selected.length < maxSelected) {
+      onChange([...selected, contact]);
+    }
+  };
+
+  const selectAllShown = () => {
+    const additions = contacts.filter((contact) => !selectedIds.has(contact.id));
+    onChange([...selected, ...additions].slice(0, maxSelected));
+  };
+
+  return (
+    <div className="space-y-3">
+      <Input
+        type="text"
+        placeholder="Search contacts by name or phone..."
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+      />
+      <ContactTagFilter selectedTags={tags} onTagsChange={setTags} />
+
+      <div className="flex items-center justify-between text-xs text-text-muted">
+        <span>
+          {selected.length} selected (max {maxSelected})
+        </span>
+        <div className="flex gap-3">
+          <button type="button" className="text-primary hover:underline" onClick={selectAllShown}>
+            Select all shown
+          </button>
+          {selected.length > 0 && (
+            <button type="button" className="text-text-secondary hover:underline" onClick={() => onChange([])}>
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-danger">{error}</p>}
+
+      <div className="max-h-64 overflow-y-auto border border-divider rounded-lg divide-y divide-divider">
+        {isLoading ? (
+          <div className="p-4 text-sm text-text-muted">Loading contacts...</div>
+        ) : contacts.length === 0 ? (
+          <div className="p-4 text-sm text-text-muted">No contacts found</div>
+        ) : (
+          contacts.map((contact) => (
+            <label key={contact.id} className="flex items-center gap-3 px-3 py-2 cursor-pointer hover:bg-elevated">
+              <input
+                type="checkbox"
+                checked={selectedIds.has(contact.id)}
+                onChange={() => toggle(contact)}
+                className="w-4 h-4 rounded border-border text-primary focus:ring-2 focus:ring-primary"
+              />
+              <span className="min-w-0 flex-1">
+                <span className="block text-sm text-text-primary truncate">{contact.name}</span>
+                <span className="block text-xs text-text-muted">
+                  {formatPhoneNumber(contact.phoneNumber)}
+                  {contact.tags.length > 0 && ` · ${contact.tags.join(', ')}`}
+                </span>
+              </span>
+            </label>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
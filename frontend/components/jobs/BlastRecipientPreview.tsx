@@ -0,0 +1,92 @@
+'use client';
+
+import React from 'react';
+import Badge from '@/components/ui/Badge';
+import { formatPhoneNumber } from '@/lib/phoneNumber';
+
+/**
+ * BlastRecipientPreview
+ *
+ * Recipient table for Chat Blast with per-row validation status and the
+ * rendered message of the selected row.
+ */
+
+export type BlastRowStatus = 'ok' | 'invalid' | 'duplicate' | 'missing';
+
+export interface BlastRecipientRow {
+  row: number;
+  phone: string;
+  normalized: string | null;
+  text: string;
+  missing: string[];
+  status: BlastRowStatus;
+}
+
+interface BlastRecipientPreviewProps {
+  rows: BlastRecipientRow[];
+  selectedRow: number | null;
+  onSelectRow: (row: number) => void;
+}
+
+const STATUS_BADGE: Record<BlastRowStatus, { label: string; variant: 'success' | 'warning' | 'danger' | 'info' }> = {
+  ok: { label: 'Ready', variant: 'success' },
+  invalid: { label: 'Invalid number', variant: 'danger' },
+  duplicate: { label: 'Duplicate', variant: 'info' },
+  missing: { label: 'Missing variables', variant: 'warning' },
+};
+
+export default function BlastRecipientPreview({ rows, selectedRow, onSelectRow }: BlastRecipientPreviewProps) {
+  const selected = rows.find((r) => r.row === selectedRow) || rows[0];
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      <div className="max-h-72 overflow-y-auto border border-divider rounded-lg">
+        <table className="w-full text-sm">
+          <thead className="bg-elevated sticky top-0">
+            <tr className="text-left text-text-muted">
+              <th className="px-3 py-2 font-medium">#</th>
+              <th className="px-3 py-2 font-medium">Recipient</th>
+              <th className="px-3 py-2 font-medium">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-divider">
+            {rows.map((r) => (
+              <tr
+                key={r.row}
+                onClick={() => onSelectRow(r.row)}
+                className={`cursor-pointer hover:bg-elevated ${r.row === selected.row ? 'bg-primary-soft' : ''}`}
+              >
+                <td className="px-3 py-2 text-text-muted">{r.row}</td>
+                <td className="px-3 py-2 font-mono text-text-primary">
+                  {r.normalized ? formatPhoneNumber(r.normalized) : r.phone || '—'}
+                </td>
+                <td className="px-3 py-2">
+                  <Badge variant={STATUS_BADGE[r.status].variant}>{STATUS_BADGE[r.status].label}</Badge>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="border border-divider rounded-lg p-4">
+        <p className="text-xs text-text-muted mb-2">
+          Preview for row {selected.row}
+          {selected.normalized && ` · ${formatPhoneNumber(selected.normalized)}`}
+        </p>
+        <p className="text-sm text-text-primary whitespace-pre-wrap break-words">
+          {selected.text || <span className="text-text-muted">Enter a message to see the preview</span>}
+        </p>
+        {selected.missing.length > 0 && (
+          <p className="text-xs text-warning mt-3">
+            Missing: {selected.missing.map((name) => `{{${name}}}`).join(', ')}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
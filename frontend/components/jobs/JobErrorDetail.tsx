@@ -8,7 +8,7 @@ import { get, ApiError } from '@/lib/api';
 
 interface JobResult {
   to: string;
-  status: 'success' | 'error';
+  status: 'success' | 'error' | 'skipped';
   messageId?: string;
   timestamp?: string;
   error?: string;
@@ -19,6 +19,7 @@ interface JobProgress {
   currentIndex: number;
   successCount: number;
   errorCount: number;
+  skippedCount?: number;
 }
 
 interface JobDetail {
@@ -109,6 +110,11 @@ export default function JobErrorDetail({ jobId, isOpen, onClose }: JobErrorDetai
     return jobDetail?.results?.filter((r) => r.status === 'success') || [];
   }, [jobDetail?.results]);
 
+  // Recipients on the suppression list are skipped, not failed
+  const skippedResults = useMemo(() => {
+    return jobDetail?.results?.filter((r) => r.status === 'skipped') || [];
+  }, [jobDetail?.results]);
+
   if (!isOpen) return null;
 
   return (
@@ -145,7 +151,7 @@ export default function JobErrorDetail({ jobId, isOpen, onClose }: JobErrorDetai
                 <h3 className="text-sm font-semibold text-text-secondary mb-3 uppercase tracking-wide">
                   Summary
                 </h3>
-                <div className="grid grid-cols-3 gap-4">
+                <div className={`grid gap-4 ${skippedResults.length > 0 ? 'grid-cols-4' : 'grid-cols-3'}`}>
                   <Card padding="md" className="text-center">
                     <div className="text-2xl font-bold text-text-primary">
                       {jobDetail.progress.total}
@@ -164,6 +170,14 @@ export default function JobErrorDetail({ jobId, isOpen, onClose }: JobErrorDetai
                     </div>
                     <div className="text-xs text-text-muted">Failed</div>
                   </Card>
+                  {skippedResults.length > 0 && (
+                    <Card padding="md" className="text-center">
+                      <div className="text-2xl font-bold text-warning">
+                        {jobDetail.progress.skippedCount ?? skippedResults.length}
+                      </div>
+                      <div className="text-xs text-text-muted">Skipped (Opted Out)</div>
+                    </Card>
+                  )}
                 </div>
               </div>
 
@@ -214,12 +228,44 @@ export default function JobErrorDetail({ jobId, isOpen, onClose }: JobErrorDetai
                 </div>
               )}
 
+              {/* Skipped Recipients Detail */}
+              {skippedResults.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-semibold text-text-secondary mb-3 uppercase tracking-wide">
+                    Skipped Recipients ({skippedResults.length})
+                  </h3>
+                  <p className="text-xs text-text-muted mb-2">
+                    These numbers are on your opt-out list and were not messaged.
+                  </p>
+                  <Card padding="none" className="max-h-48 overflow-y-auto">
+                    <table className="w-full text-sm">
+                      <thead className="bg-elevated sticky top-0">
+                        <tr>
+                          <th className="text-left p-2 text-text-muted font-medium">Recipient</th>
+                          <th className="text-left p-2 text-text-muted font-medium">Reason</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-border">
+                        {skippedResults.map((result, i) => (
+                          <tr key={i} className="hover:bg-elevated">
+                            <td className="p-2 font-mono text-text-primary">{result.to}</td>
+                            <td className="p-2 text-warning">Opted out</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </Card>
+                </div>
+              )}
+
               {/* Success Notice (if no errors) */}
               {failedResults.length === 0 && jobDetail.status === 'completed' && (
                 <div className="p-4 bg-success-soft border border-success rounded-lg text-center">
                   <span className="text-lg">✅</span>
                   <p className="text-sm text-success font-medium mt-1">
-                    All {successResults.length} messages sent successfully!
+                    {skippedResults.length > 0
+                      ? `All ${successResults.length} messages to subscribed recipients sent successfully!`
+                      : `All ${successResults.length} messages sent successfully!`}
                   </p>
                 </div>
               )}
@@ -273,6 +319,9 @@ function humanizeError(error?: string): string {
   if (errorLower.includes('timeout')) {
     return 'Request timed out';
   }
+  if (errorLower.includes('opted out')) {
+    return 'Recipient opted out';
+  }
   if (errorLower.includes('blocked')) {
     return 'Recipient may have blocked this number';
   }
@@ -4,7 +4,7 @@ import React from 'react';
 import { useRouter } from 'next/navigation';
 import ToggleTheme from '@/components/ui/ToggleTheme';
 import { useAppSelector, useAppDispatch } from '@/hooks/useAppDispatch';
-import { logout } from '@/store/slices/authSlice';
+import { logoutAsync } from '@/store/slices/authSlice';
 import NotificationCenter from '@/components/notifications/NotificationCenter';
 
 interface AdminNavbarProps {
@@ -25,9 +25,9 @@ export default function AdminNavbar({ onMenuClick, isCollapsed, onToggleCollapse
     setMounted(true);
   }, []);
 
-  const handleLogout = () => {
-    dispatch(logout());
+  const handleLogout = async () => {
     setIsProfileOpen(false);
+    await dispatch(logoutAsync());
     router.push('/auth/login');
   };
 
@@ -4,7 +4,7 @@ import React from 'react';
 import { useRouter } from 'next/navigation';
 import ToggleTheme from '@/components/ui/ToggleTheme';
 import { useAppSelector, useAppDispatch } from '@/hooks/useAppDispatch';
-import { logout } from '@/store/slices/authSlice';
+import { logoutAsync } from '@/store/slices/authSlice';
 
 /**
  * Navbar Component
@@ -35,9 +35,9 @@ export default function Navbar({ onMenuClick, isCollapsed, onToggleCollapse }: N
   // UI state: Dropdown open/close (LOCAL state, NOT Redux)
   const [isProfileOpen, setIsProfileOpen] = React.useState(false);
 
-  const handleLogout = () => {
-    dispatch(logout());
+  const handleLogout = async () => {
     setIsProfileOpen(false);
+    await dispatch(logoutAsync());
     router.push('/auth/login');
   };
 
@@ -5,7 +5,7 @@ import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import ToggleTheme from '@/components/ui/ToggleTheme';
 import { useAppSelector, useAppDispatch } from '@/hooks/useAppDispatch';
-import { logout } from '@/store/slices/authSlice';
+import { logoutAsync } from '@/store/slices/authSlice';
 import NotificationCenter from '@/components/notifications/NotificationCenter';
 
 interface UserNavbarProps {
@@ -26,9 +26,9 @@ export default function UserNavbar({ onMenuClick, isCollapsed, onToggleCollapse
     setMounted(true);
   }, []);
 
-  const handleLogout = () => {
-    dispatch(logout());
+  const handleLogout = async () => {
     setIsProfileOpen(false);
+    await dispatch(logoutAsync());
     router.push('/auth/login');
   };
 
@@ -36,7 +36,7 @@ export default function NotificationCenter() {
         // automated response would create notification noise and degrade user experience.
         // Auto-reply activity is tracked in Bot Logs for auditing purposes.
         // See: Frontend Coverage Audit (2026-01-07)
-        if (['heartbeat', 'connected', 'whatsapp-status', 'qr-code', 'auto_reply_sent'].includes(data.type)) return;
+        if (['heartbeat', 'connected', 'whatsapp-status', 'qr-code', 'auto_reply_sent', 'message-status', 'chat-read'].includes(data.type)) return;
 
         // Allow message formatting for specific event types
         let title = data.title || 'New Update';
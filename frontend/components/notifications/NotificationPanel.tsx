@@ -22,6 +22,9 @@ const TYPE_ICONS: Record<NotificationType, string> = {
   scheduled_sent: '⏰✅',
   scheduled_failed: '⏰❌',
   session_expired: '🔒',
+  handoff_assigned: '🙋',
+  missed_call: '📞',
+  workspace_invitation: '👥',
   info: 'ℹ️',
   warning: '⚠️',
   error: '❌',
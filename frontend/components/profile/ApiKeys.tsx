@@ -0,0 +1,322 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  getApiKeys,
+  createApiKey,
+  revokeApiKey,
+  ApiKey,
+  ApiKeyScope,
+} from '@/lib/authService';
+import { getMyDevices, Device } from '@/lib/userService';
+import { ApiError } from '@/lib/api';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import Badge from '@/components/ui/Badge';
+import { KeyRound, Copy, Check } from 'lucide-react';
+
+/**
+ * ApiKeys
+ *
+ * Profile section for personal API keys: create a key with scopes, an
+ * optional device restriction and expiry, copy it once, and revoke it.
+ */
+
+const SCOPE_OPTIONS: { scope: ApiKeyScope; label: string; description: string }[] = [
+  { scope: 'send', label: 'Send', description: 'Send messages and media, create jobs, schedule messages' },
+  { scope: 'read-history', label: 'Read history', description: 'Chat history and daily chat list' },
+  { scope: 'manage-contacts', label: 'Manage contacts', description: 'List, save and tag contacts' },
+];
+
+const EXPIRY_OPTIONS: { days: number | null; label: string }[] = [
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+  { days: null, label: 'Never' },
+];
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString() : '-');
+
+export default function ApiKeys() {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Create form
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['send']);
+  const [deviceIds, setDeviceIds] = useState<string[]>([]);
+  const [expiryDays, setExpiryDays] = useState<number | null>(90);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [revokingId, setRevokingId] = useState<number | null>(null);
+
+  useEffect(() => {
+    Promise.all([getApiKeys(), getMyDevices()])
+      .then(([keys, myDevices]) => {
+        setApiKeys(keys);
+        setDevices(myDevices);
+      })
+      .catch((err) => setError((err as ApiError).message || 'Failed to load API keys'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const resetForm = () => {
+    setName('');
+    setScopes(['send']);
+    setDeviceIds([]);
+    setExpiryDays(90);
+  };
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes((current) =>
+      current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]
+    );
+  };
+
+  const toggleDevice = (deviceId: string) => {
+    setDeviceIds((current) =>
+      current.includes(deviceId) ? current.filter((d) => d !== deviceId) : [...current, deviceId]
+    );
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    setError(null);
+    try {
+      const { apiKey, key } = await createApiKey({
+        name: name.trim(),
+        scopes,
+        deviceIds: deviceIds.length > 0 ? deviceIds : null,
+        expiresAt: expiryDays
+          ? new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000).toISOString()
+          : null,
+      });
+      setApiKeys((current) => [{ ...apiKey, isActive: true }, ...current]);
+      setNewKey(key);
+      setCopied(false);
+      setIsFormOpen(false);
+      resetForm();
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to create API key');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newKey) return;
+    await navigator.clipboard.writeText(newKey);
+    setCopied(true);
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!confirm(`Revoke "${apiKey.name}"? Systems using it will stop working immediately.`)) {
+      return;
+    }
+
+    setRevokingId(apiKey.id);
+    setError(null);
+    try {
+      await revokeApiKey(apiKey.id);
+      setApiKeys(await getApiKeys());
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to revoke API key');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const deviceLabel = (deviceId: string) =>
+    devices.find((d) => d.deviceId === deviceId)?.deviceName || deviceId;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-text-primary flex items-center gap-2">
+            <KeyRound className="w-5 h-5" />
+            API Keys
+          </h2>
+          <p className="text-sm text-text-muted">
+            Let your own systems send messages without a password. Send the key as{' '}
+            <code className="font-mono">Authorization: Bearer &lt;key&gt;</code> or{' '}
+            <code className="font-mono">X-API-Key</code>.
+          </p>
+        </div>
+        {!isFormOpen && (
+          <Button variant="primary" size="sm" onClick={() => setIsFormOpen(true)}>
+            + New Key
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-danger-soft border border-danger rounded-lg p-3">
+          <p className="text-sm text-danger">{error}</p>
+        </div>
+      )}
+
+      {newKey && (
+        <div className="bg-success-soft border border-success rounded-lg p-4 space-y-2">
+          <p className="text-sm font-medium text-success">
+            Copy your new key now. It will not be shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 font-mono text-sm bg-card border border-divider rounded px-3 py-2 break-all">
+              {newKey}
+            </code>
+            <Button variant="outline" size="sm" onClick={handleCopy}>
+              {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setNewKey(null)}>
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isFormOpen && (
+        <form onSubmit={handleCreate} className="bg-elevated rounded-lg p-4 space-y-4">
+          <Input
+            type="text"
+            name="api-key-name"
+            label="Name"
+            placeholder="e.g. CRM integration"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            disabled={isCreating}
+            required
+          />
+
+          <div>
+            <p className="text-sm font-medium text-text-primary mb-2">Scopes</p>
+            <div className="space-y-2">
+              {SCOPE_OPTIONS.map(({ scope, label, description }) => (
+                <label key={scope} className="flex items-start gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={scopes.includes(scope)}
+                    onChange={() => toggleScope(scope)}
+                    disabled={isCreating}
+                    className="mt-0.5 w-4 h-4 rounded border-border text-primary focus:ring-2 focus:ring-primary"
+                  />
+                  <span>
+                    <span className="block text-sm text-text-primary">{label}</span>
+                    <span className="block text-xs text-text-muted">{description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-text-primary mb-1">Devices</p>
+            <p className="text-xs text-text-muted mb-2">Leave all unchecked to allow every device.</p>
+            {devices.length === 0 ? (
+              <p className="text-sm text-text-muted">You have no devices yet.</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {devices.map((device) => (
+                  <label key={device.deviceId} className="flex items-center gap-2 text-sm text-text-secondary cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={deviceIds.includes(device.deviceId)}
+                      onChange={() => toggleDevice(device.deviceId)}
+                      disabled={isCreating}
+                      className="w-4 h-4 rounded border-border text-primary focus:ring-2 focus:ring-primary"
+                    />
+                    {device.deviceName || device.deviceId}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-2">Expires after</label>
+            <select
+              value={expiryDays ?? ''}
+              onChange={(e) => setExpiryDays(e.target.value ? parseInt(e.target.value, 10) : null)}
+              disabled={isCreating}
+              className="w-full px-3 py-2 bg-card border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              {EXPIRY_OPTIONS.map(({ days, label }) => (
+                <option key={label} value={days ?? ''}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="ghost"
+              onClick={() => {
+                setIsFormOpen(false);
+                resetForm();
+              }}
+              disabled={isCreating}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              variant="primary"
+              disabled={isCreating || !name.trim() || scopes.length === 0}
+            >
+              {isCreating ? 'Creating...' : 'Create Key'}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        </div>
+      ) : apiKeys.length === 0 ? (
+        <p className="text-sm text-text-muted">No API keys yet.</p>
+      ) : (
+        <div className="divide-y divide-divider">
+          {apiKeys.map((apiKey) => (
+            <div key={apiKey.id} className="py-3 flex flex-col md:flex-row md:items-center justify-between gap-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="text-text-primary font-medium">{apiKey.name}</p>
+                  <Badge variant={apiKey.isActive ? 'success' : 'danger'}>
+                    {apiKey.revokedAt ? 'Revoked' : apiKey.isActive ? 'Active' : 'Expired'}
+                  </Badge>
+                </div>
+                <p className="text-xs font-mono text-text-muted">{apiKey.keyPrefix}…</p>
+                <p className="text-xs text-text-muted mt-1">
+                  {apiKey.scopes.join(', ')} ·{' '}
+                  {apiKey.deviceIds ? apiKey.deviceIds.map(deviceLabel).join(', ') : 'All devices'}
+                </p>
+                <p className="text-xs text-text-muted">
+                  Created {formatDate(apiKey.createdAt)} · Expires {apiKey.expiresAt ? formatDate(apiKey.expiresAt) : 'never'} · Last used{' '}
+                  {apiKey.lastUsedAt ? `${formatDate(apiKey.lastUsedAt)} from ${apiKey.lastUsedIp || 'unknown'}` : 'never'}
+                </p>
+              </div>
+              {!apiKey.revokedAt && (
+                <Button
+                  variant="danger"
+                  size="sm"
+                  onClick={() => handleRevoke(apiKey)}
+                  disabled={revokingId !== null}
+                >
+                  {revokingId === apiKey.id ? 'Revoking...' : 'Revoke'}
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
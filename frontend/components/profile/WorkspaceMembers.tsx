@@ -0,0 +1,246 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  getWorkspaceMembers,
+  inviteWorkspaceMember,
+  cancelWorkspaceInvitation,
+  removeWorkspaceMember,
+  getReceivedWorkspaceInvitations,
+  acceptWorkspaceInvitation,
+  declineWorkspaceInvitation,
+  WorkspaceMember,
+  WorkspaceInvitation,
+  ReceivedWorkspaceInvitation,
+} from '@/lib/authService';
+import { ApiError } from '@/lib/api';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import { Users } from 'lucide-react';
+
+/**
+ * WorkspaceMembers
+ *
+ * Profile section for the team: members work on the conversations your
+ * bot handed off, which can be assigned to them. Members are
+ * invited by email and join once they accept; invitations you received to
+ * other workspaces are answered here too.
+ */
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+export default function WorkspaceMembers() {
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([]);
+  const [received, setReceived] = useState<ReceivedWorkspaceInvitation[]>([]);
+  const [maxMembers, setMaxMembers] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [email, setEmail] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [removingId, setRemovingId] = useState<number | null>(null);
+  const [cancellingId, setCancellingId] = useState<number | null>(null);
+  const [answeringId, setAnsweringId] = useState<number | null>(null);
+
+  useEffect(() => {
+    getWorkspaceMembers()
+      .then((data) => {
+        setMembers(data.members);
+        setInvitations(data.invitations);
+        setMaxMembers(data.maxMembers);
+      })
+      .catch((err) => setError((err as ApiError).message || 'Failed to load workspace members'))
+      .finally(() => setIsLoading(false));
+
+    getReceivedWorkspaceInvitations()
+      .then(setReceived)
+      .catch(() => undefined);
+  }, []);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsAdding(true);
+    setError(null);
+    try {
+      const invitation = await inviteWorkspaceMember(email.trim());
+      setInvitations((current) => [...current, invitation]);
+      setEmail('');
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to invite member');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleCancel = async (invitation: WorkspaceInvitation) => {
+    setCancellingId(invitation.id);
+    setError(null);
+    try {
+      await cancelWorkspaceInvitation(invitation.id);
+      setInvitations((current) => current.filter((i) => i.id !== invitation.id));
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to cancel invitation');
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  const handleAnswer = async (invitation: ReceivedWorkspaceInvitation, accept: boolean) => {
+    setAnsweringId(invitation.id);
+    setError(null);
+    try {
+      if (accept) {
+        await acceptWorkspaceInvitation(invitation.id);
+      } else {
+        await declineWorkspaceInvitation(invitation.id);
+      }
+      setReceived((current) => current.filter((i) => i.id !== invitation.id));
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to answer invitation');
+    } finally {
+      setAnsweringId(null);
+    }
+  };
+
+  const handleRemove = async (member: WorkspaceMember) => {
+    if (!confirm(`Remove ${member.fullName || member.username}? Conversations assigned to them become unassigned.`)) {
+      return;
+    }
+
+    setRemovingId(member.id);
+    setError(null);
+    try {
+      await removeWorkspaceMember(member.id);
+      setMembers((current) => current.filter((m) => m.id !== member.id));
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to remove member');
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  const isFull = maxMembers > 0 && members.length + invitations.length >= maxMembers;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-text-primary flex items-center gap-2">
+          <Users className="w-5 h-5" />
+          Team Members
+        </h2>
+        <p className="text-sm text-text-muted">
+          Members can read and answer the conversations your bot hands off to the team.
+          They sign in with their own account and join once they accept your invitation.
+        </p>
+      </div>
+
+      {received.length > 0 && (
+        <div className="divide-y divide-divider border border-divider rounded-lg px-3">
+          {received.map((invitation) => (
+            <div key={invitation.id} className="py-3 flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-text-primary font-medium">
+                  {invitation.owner.fullName || invitation.owner.username} invited you to their workspace
+                </p>
+                <p className="text-xs text-text-muted">Invited {formatDate(invitation.invitedAt)}</p>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="primary"
+                  size="sm"
+                  onClick={() => handleAnswer(invitation, true)}
+                  disabled={answeringId !== null}
+                >
+                  Accept
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => handleAnswer(invitation, false)}
+                  disabled={answeringId !== null}
+                >
+                  Decline
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-danger-soft border border-danger rounded-lg p-3">
+          <p className="text-sm text-danger">{error}</p>
+        </div>
+      )}
+
+      <form onSubmit={handleInvite} className="flex flex-col md:flex-row md:items-end gap-2">
+        <div className="flex-1">
+          <Input
+            type="email"
+            name="workspace-member-email"
+            label="Invite member by email"
+            placeholder="agent@example.com"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            disabled={isAdding || isFull}
+            required
+          />
+        </div>
+        <Button type="submit" variant="primary" disabled={isAdding || isFull || !email.trim()}>
+          {isAdding ? 'Inviting...' : 'Invite Member'}
+        </Button>
+      </form>
+      {isFull && (
+        <p className="text-xs text-text-muted">
+          Your workspace has reached its limit of {maxMembers} members and pending invitations.
+        </p>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        </div>
+      ) : members.length === 0 && invitations.length === 0 ? (
+        <p className="text-sm text-text-muted">No members yet. Only you work on your devices.</p>
+      ) : (
+        <div className="divide-y divide-divider">
+          {members.map((member) => (
+            <div key={member.id} className="py-3 flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-text-primary font-medium">{member.fullName || member.username}</p>
+                <p className="text-xs text-text-muted">
+                  {member.email} · Added {formatDate(member.addedAt)}
+                </p>
+              </div>
+              <Button
+                variant="danger"
+                size="sm"
+                onClick={() => handleRemove(member)}
+                disabled={removingId !== null}
+              >
+                {removingId === member.id ? 'Removing...' : 'Remove'}
+              </Button>
+            </div>
+          ))}
+          {invitations.map((invitation) => (
+            <div key={`invitation-${invitation.id}`} className="py-3 flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-text-primary font-medium truncate">{invitation.email}</p>
+                <p className="text-xs text-text-muted">Invitation pending · Sent {formatDate(invitation.invitedAt)}</p>
+              </div>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => handleCancel(invitation)}
+                disabled={cancellingId !== null}
+              >
+                {cancellingId === invitation.id ? 'Cancelling...' : 'Cancel'}
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
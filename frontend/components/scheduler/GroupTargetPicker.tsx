@@ -0,0 +1,149 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Group, groupService } from '@/lib/groupService';
+import { MAX_SCHEDULED_MENTIONS } from '@/lib/userService';
+import { ApiError } from '@/lib/api';
+
+/**
+ * GroupTargetPicker
+ *
+ * Group of the selected device to schedule a message to, and optionally the
+ * participants to mention. Mentions can be placed in the text with
+ * {mentions}, {m1}, {m2}, ...
+ */
+
+interface GroupTargetPickerProps {
+  deviceId: string;
+  selected: Group | null;
+  onChange: (group: Group | null) => void;
+  /** Mentioned participant JIDs; mentions are offered when onMentionsChange is given */
+  mentions?: string[];
+  onMentionsChange?: (mentions: string[]) => void;
+}
+
+// Participants are stored as JIDs or as { id } objects depending on how the group was synced
+const participantJid = (participant: unknown): string | null => {
+  if (typeof participant === 'string') return participant;
+  if (participant && typeof participant === 'object' && 'id' in participant) {
+    return String((participant as { id: unknown }).id);
+  }
+  return null;
+};
+
+export default function GroupTargetPicker({
+  deviceId,
+  selected,
+  onChange,
+  mentions = [],
+  onMentionsChange,
+}: GroupTargetPickerProps) {
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchGroups = useCallback(async () => {
+    if (!deviceId) return;
+    setIsLoading(true);
+    try {
+      const data = await groupService.getGroups(deviceId);
+      setGroups(data.groups);
+      setError(null);
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to fetch groups');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [deviceId]);
+
+  useEffect(() => {
+    fetchGroups();
+  }, [fetchGroups]);
+
+  const participants = (selected?.participants ?? [])
+    .map(participantJid)
+    .filter((jid): jid is string => Boolean(jid));
+
+  const toggleMention = (jid: string) => {
+    if (!onMentionsChange) return;
+    if (mentions.includes(jid)) {
+      onMentionsChange(mentions.filter((m) => m !== jid));
+    } else if (mentions.length < MAX_SCHEDULED_MENTIONS) {
+      onMentionsChange([...mentions, jid]);
+    }
+  };
+
+  const selectClassName =
+    'w-full px-4 py-2.5 bg-card border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 focus:ring-offset-app transition-all';
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-text-primary mb-2">Target Group</label>
+        {isLoading ? (
+          <div className="animate-pulse h-10 bg-elevated rounded-lg" />
+        ) : error ? (
+          <p className="text-sm text-danger">{error}</p>
+        ) : groups.length === 0 ? (
+          <p className="text-sm text-text-secondary">This device is not in any group</p>
+        ) : (
+          <select
+            value={selected?.id ?? ''}
+            onChange={(e) => {
+              onChange(groups.find((group) => group.id === e.target.value) ?? null);
+              onMentionsChange?.([]);
+            }}
+            className={selectClassName}
+          >
+            <option value="">Select a group</option>
+            {groups.map((group) => (
+              <option key={group.id} value={group.id}>
+                {group.subject} ({group.participants?.length || 0} participants)
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {selected && onMentionsChange && participants.length > 0 && (
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <label className="block text-sm font-medium text-text-primary">Mention (optional)</label>
+            <div className="flex gap-3 text-xs">
+              <button
+                type="button"
+                onClick={() => onMentionsChange(participants.slice(0, MAX_SCHEDULED_MENTIONS))}
+                className="text-primary hover:underline"
+              >
+                Everyone
+              </button>
+              {mentions.length > 0 && (
+                <button type="button" onClick={() => onMentionsChange([])} className="text-text-muted hover:underline">
+                  Clear
+                </button>
+              )}
+            </div>
+          </div>
+          <div className="max-h-40 overflow-y-auto border border-border rounded-lg divide-y divide-border">
+            {participants.map((jid) => (
+              <label key={jid} className="flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer hover:bg-elevated/50">
+                <input
+                  type="checkbox"
+                  checked={mentions.includes(jid)}
+                  onChange={() => toggleMention(jid)}
+                  className="rounded border-border"
+                />
+                <span className="font-mono text-xs text-text-primary">+{jid.split('@')[0]}</span>
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-text-muted mt-1">
+            {mentions.length > 0
+              ? `${mentions.length} selected. Use {mentions} for all of them or {m1}, {m2}, ... in the message.`
+              : 'Mentioned participants get notified even if the group is muted.'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Button from '@/components/ui/Button';
+import { MAX_SCHEDULED_MEDIA_SIZE, SCHEDULED_MEDIA_ACCEPT } from '@/lib/userService';
+
+/**
+ * MediaAttachmentInput
+ *
+ * Optional image, video or document for a scheduled message. The message
+ * text becomes its caption.
+ */
+
+interface MediaAttachmentInputProps {
+  file: File | null;
+  onChange: (file: File | null) => void;
+  disabled?: boolean;
+  /** Shown instead of the picker when disabled */
+  disabledReason?: string;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+export default function MediaAttachmentInput({ file, onChange, disabled = false, disabledReason }: MediaAttachmentInputProps) {
+  const [error, setError] = useState<string | null>(null);
+
+  const previewUrl = useMemo(
+    () => (file && file.type.startsWith('image/') ? URL.createObjectURL(file) : null),
+    [file]
+  );
+
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] ?? null;
+    if (selected && selected.size > MAX_SCHEDULED_MEDIA_SIZE) {
+      setError(`File is too large. Maximum size is ${formatSize(MAX_SCHEDULED_MEDIA_SIZE)}.`);
+      e.target.value = '';
+      return;
+    }
+    setError(null);
+    onChange(selected);
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-text-primary mb-2">Attachment (optional)</label>
+      {disabled ? (
+        <p className="text-xs text-text-muted">{disabledReason}</p>
+      ) : file ? (
+        <div className="flex items-center gap-3 p-3 bg-elevated/50 border border-border rounded-lg">
+          {previewUrl ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={previewUrl} alt={file.name} className="h-14 w-14 rounded-md object-cover border border-border" />
+          ) : (
+            <div className="h-14 w-14 rounded-md bg-card border border-border flex items-center justify-center text-xs text-text-muted uppercase">
+              {file.name.split('.').pop()}
+            </div>
+          )}
+          <div className="min-w-0 flex-1">
+            <p className="text-sm text-text-primary truncate">{file.name}</p>
+            <p className="text-xs text-text-muted">{formatSize(file.size)} • The message is sent as its caption</p>
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={() => onChange(null)}>
+            Remove
+          </Button>
+        </div>
+      ) : (
+        <input
+          type="file"
+          accept={SCHEDULED_MEDIA_ACCEPT}
+          onChange={handleSelect}
+          className="block w-full text-sm text-text-secondary file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-primary-soft file:text-primary hover:file:cursor-pointer"
+        />
+      )}
+      {error && <p className="text-xs text-danger mt-1">{error}</p>}
+    </div>
+  );
+}
@@ -1,49 +1,323 @@
 import React, { useEffect, useState } from 'react';
+import {
+  MAX_RECURRENCE_COUNT,
+  MAX_RECURRENCE_INTERVAL,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  previewScheduleOccurrences,
+} from '@/lib/userService';
+import { WEEKDAY_LABELS } from '@/lib/recurrence';
+import { ApiError } from '@/lib/api';
 
 interface ScheduleTimePickerProps {
   value: string;
   onChange: (value: string) => void;
+  /** Repeat rule; the repeat options are shown when onRecurrenceChange is given */
+  recurrence?: RecurrenceRule | null;
+  onRecurrenceChange?: (rule: RecurrenceRule | null) => void;
 }
 
-export default function ScheduleTimePicker({ value, onChange }: ScheduleTimePickerProps) {
+type RepeatMode = 'none' | RecurrenceFrequency | 'custom';
+type EndType = 'never' | 'until' | 'count';
+
+const REPEAT_OPTIONS: { value: RepeatMode; label: string }[] = [
+  { value: 'none', label: 'Does not repeat' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'custom', label: 'Custom...' },
+];
+
+const selectClassName =
+  'px-3 py-2 bg-elevated border border-border rounded-lg text-text-primary text-sm focus:outline-none focus:ring-2 focus:ring-primary';
+
+// YYYY-MM-DD of an ISO time in the browser timezone, for <input type="date">
+const toDateInput = (iso: string) => {
+  const date = new Date(iso);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export default function ScheduleTimePicker({ value, onChange, recurrence = null, onRecurrenceChange }: ScheduleTimePickerProps) {
   // Get local min datetime string (YYYY-MM-DDTHH:mm)
   const getMinDateTime = () => {
     const now = new Date();
     // No buffer - allow current time
     // now.setMinutes(now.getMinutes() + 0);
-    
+
     // Format to local ISO string
     const year = now.getFullYear();
     const month = String(now.getMonth() + 1).padStart(2, '0');
     const day = String(now.getDate()).padStart(2, '0');
     const hours = String(now.getHours()).padStart(2, '0');
     const minutes = String(now.getMinutes()).padStart(2, '0');
-    
+
     return `${year}-${month}-${day}T${hours}:${minutes}`;
   };
 
   const [minTime, setMinTime] = useState('');
+  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  // "Custom" and an end type without a value yet cannot be read back from the rule
+  const [isCustom, setIsCustom] = useState(false);
+  const [endType, setEndType] = useState<EndType>('never');
+  const [preview, setPreview] = useState<string[]>([]);
+  const [previewError, setPreviewError] = useState<string | null>(null);
 
   useEffect(() => {
     setMinTime(getMinDateTime());
   }, []);
 
+  // The parent clears the rule after scheduling
+  useEffect(() => {
+    if (!recurrence) {
+      setIsCustom(false);
+      setEndType('never');
+    }
+  }, [recurrence]);
+
+  // Occurrence times come from the backend so they match what will be sent
+  useEffect(() => {
+    if (!recurrence || !value) {
+      setPreview([]);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      try {
+        setPreview(
+          await previewScheduleOccurrences({
+            scheduleTime: new Date(value).toISOString(),
+            timezone,
+            recurrence,
+          })
+        );
+        setPreviewError(null);
+      } catch (err) {
+        setPreview([]);
+        setPreviewError((err as ApiError).message || 'Failed to preview occurrences');
+      }
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [recurrence, value, timezone]);
+
+  const startDate = value ? new Date(value) : null;
+  const mode: RepeatMode = !recurrence ? 'none' : isCustom ? 'custom' : recurrence.freq;
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (recurrence && onRecurrenceChange) {
+      onRecurrenceChange({ ...recurrence, ...changes });
+    }
+  };
+
+  // Weekly and monthly rules start on the weekday / day of month of the first run
+  const ruleFor = (freq: RecurrenceFrequency, interval: number): RecurrenceRule => ({
+    freq,
+    interval,
+    ...(freq === 'weekly' && { byWeekday: [startDate ? startDate.getDay() : 1] }),
+    ...(freq === 'monthly' && { monthDay: startDate ? startDate.getDate() : 1 }),
+    until: recurrence?.until ?? null,
+    count: recurrence?.count ?? null,
+  });
+
+  const handleModeChange = (next: RepeatMode) => {
+    if (!onRecurrenceChange) return;
+    setIsCustom(next === 'custom');
+    if (next === 'none') {
+      onRecurrenceChange(null);
+      setEndType('never');
+    } else if (next === 'custom') {
+      onRecurrenceChange(ruleFor(recurrence?.freq ?? 'weekly', recurrence?.interval ?? 1));
+    } else {
+      onRecurrenceChange(ruleFor(next, 1));
+    }
+  };
+
+  const handleEndTypeChange = (next: EndType) => {
+    setEndType(next);
+    if (next === 'never') update({ until: null, count: null });
+    if (next === 'until') update({ count: null });
+    if (next === 'count') update({ until: null, count: recurrence?.count || 10 });
+  };
+
+  const toggleWeekday = (day: number) => {
+    const current = recurrence?.byWeekday ?? [];
+    const next = current.includes(day) ? current.filter((d) => d !== day) : [...current, day];
+    // A weekly rule needs at least one day
+    if (next.length > 0) update({ byWeekday: next.sort((a, b) => a - b) });
+  };
+
   return (
-    <div>
-      <label className="block text-sm font-medium text-text-primary mb-2">
-        Schedule Time
-      </label>
-      <input
-        type="datetime-local"
-        value={value}
-        min={minTime}
-        onChange={(e) => onChange(e.target.value)}
-        className="w-full px-4 py-2.5 bg-card border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 focus:ring-offset-app transition-all [color-scheme:dark]"
-        required
-      />
-      <p className="mt-1 text-xs text-text-secondary">
-        Timezone: {Intl.DateTimeFormat().resolvedOptions().timeZone}
-      </p>
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-text-primary mb-2">
+          {recurrence ? 'First Run' : 'Schedule Time'}
+        </label>
+        <input
+          type="datetime-local"
+          value={value}
+          min={minTime}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-full px-4 py-2.5 bg-card border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 focus:ring-offset-app transition-all [color-scheme:dark]"
+          required
+        />
+        <p className="mt-1 text-xs text-text-secondary">
+          Timezone: {timezone}
+        </p>
+      </div>
+
+      {onRecurrenceChange && (
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-2">Repeat</label>
+            <select
+              value={mode}
+              onChange={(e) => handleModeChange(e.target.value as RepeatMode)}
+              className={`w-full ${selectClassName}`}
+            >
+              {REPEAT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {recurrence && (
+            <div className="p-4 bg-elevated/50 border border-border rounded-lg space-y-4 text-sm">
+              {mode === 'custom' && (
+                <div className="flex items-center gap-2 text-text-secondary">
+                  <span>Every</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={MAX_RECURRENCE_INTERVAL}
+                    value={recurrence.interval ?? 1}
+                    onChange={(e) =>
+                      update({
+                        interval: Math.min(MAX_RECURRENCE_INTERVAL, Math.max(1, parseInt(e.target.value) || 1)),
+                      })
+                    }
+                    className={`w-20 ${selectClassName}`}
+                  />
+                  <select
+                    value={recurrence.freq}
+                    onChange={(e) =>
+                      onRecurrenceChange(ruleFor(e.target.value as RecurrenceFrequency, recurrence.interval ?? 1))
+                    }
+                    className={selectClassName}
+                  >
+                    <option value="daily">{(recurrence.interval ?? 1) > 1 ? 'days' : 'day'}</option>
+                    <option value="weekly">{(recurrence.interval ?? 1) > 1 ? 'weeks' : 'week'}</option>
+                    <option value="monthly">{(recurrence.interval ?? 1) > 1 ? 'months' : 'month'}</option>
+                  </select>
+                </div>
+              )}
+
+              {recurrence.freq === 'weekly' && (
+                <div>
+                  <p className="text-text-secondary mb-2">On</p>
+                  <div className="flex flex-wrap gap-1">
+                    {WEEKDAY_LABELS.map((label, day) => (
+                      <button
+                        key={label}
+                        type="button"
+                        onClick={() => toggleWeekday(day)}
+                        className={`w-11 py-1.5 rounded-lg border text-xs font-medium ${
+                          recurrence.byWeekday?.includes(day)
+                            ? 'bg-primary-soft text-primary border-primary'
+                            : 'border-border text-text-muted hover:text-text-primary'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {recurrence.freq === 'monthly' && (
+                <div className="flex items-center gap-2 text-text-secondary">
+                  <span>On day</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={31}
+                    value={recurrence.monthDay ?? 1}
+                    onChange={(e) => update({ monthDay: Math.min(31, Math.max(1, parseInt(e.target.value) || 1)) })}
+                    className={`w-20 ${selectClassName}`}
+                  />
+                  <span className="text-xs text-text-muted">Shorter months use their last day</span>
+                </div>
+              )}
+
+              <div className="flex flex-wrap items-center gap-2 text-text-secondary">
+                <span>Ends</span>
+                <select
+                  value={endType}
+                  onChange={(e) => handleEndTypeChange(e.target.value as EndType)}
+                  className={selectClassName}
+                >
+                  <option value="never">Never</option>
+                  <option value="until">On date</option>
+                  <option value="count">After</option>
+                </select>
+                {endType === 'until' && (
+                  <input
+                    type="date"
+                    value={recurrence.until ? toDateInput(recurrence.until) : ''}
+                    min={value ? value.slice(0, 10) : undefined}
+                    onChange={(e) =>
+                      // The whole end date is included
+                      update({ until: e.target.value ? new Date(`${e.target.value}T23:59:59`).toISOString() : null })
+                    }
+                    className={`${selectClassName} [color-scheme:dark]`}
+                  />
+                )}
+                {endType === 'count' && (
+                  <>
+                    <input
+                      type="number"
+                      min={1}
+                      max={MAX_RECURRENCE_COUNT}
+                      value={recurrence.count ?? 10}
+                      onChange={(e) =>
+                        update({ count: Math.min(MAX_RECURRENCE_COUNT, Math.max(1, parseInt(e.target.value) || 1)) })
+                      }
+                      className={`w-24 ${selectClassName}`}
+                    />
+                    <span>occurrences</span>
+                  </>
+                )}
+              </div>
+
+              {previewError ? (
+                <p className="text-xs text-danger">{previewError}</p>
+              ) : (
+                preview.length > 0 && (
+                  <div>
+                    <p className="text-text-secondary mb-1">Next runs</p>
+                    <ul className="text-xs text-text-muted space-y-0.5">
+                      {preview.map((time) => (
+                        <li key={time}>
+                          {new Date(time).toLocaleString('id-ID', {
+                            weekday: 'short',
+                            day: 'numeric',
+                            month: 'short',
+                            year: 'numeric',
+                            hour: '2-digit',
+                            minute: '2-digit',
+                          })}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )
+              )}
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
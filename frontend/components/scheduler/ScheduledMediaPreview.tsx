@@ -0,0 +1,67 @@
+import React from 'react';
+import { ScheduledMedia } from '@/lib/userService';
+
+/**
+ * ScheduledMediaPreview
+ *
+ * Attachment of a scheduled message: a thumbnail for images, the file name
+ * otherwise. Files are removed some days after the message has finished.
+ */
+
+interface ScheduledMediaPreviewProps {
+  media: ScheduledMedia;
+}
+
+// Uploads are served next to the API, not under /api
+const UPLOADS_BASE_URL = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5005/api').replace(/\/api\/?$/, '');
+
+const TYPE_LABELS: Record<ScheduledMedia['type'], string> = {
+  image: 'Image',
+  video: 'Video',
+  document: 'Document',
+};
+
+export default function ScheduledMediaPreview({ media }: ScheduledMediaPreviewProps) {
+  const label = media.fileName || TYPE_LABELS[media.type];
+
+  if (!media.url) {
+    return (
+      <span className="text-xs text-text-muted" title="The file was removed after the retention period">
+        {TYPE_LABELS[media.type]}: {label} (removed)
+      </span>
+    );
+  }
+
+  const href = `${UPLOADS_BASE_URL}${media.url}`;
+
+  if (media.type === 'image') {
+    return (
+      <a href={href} target="_blank" rel="noopener noreferrer" title={label} className="inline-block">
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img src={href} alt={label} className="h-12 w-12 rounded-md object-cover border border-border" />
+      </a>
+    );
+  }
+
+  return (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="inline-flex items-center gap-1 text-xs text-primary hover:underline max-w-[180px]"
+      title={label}
+    >
+      <svg className="w-3.5 h-3.5 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13"
+        />
+      </svg>
+      <span className="truncate">
+        {TYPE_LABELS[media.type]}: {label}
+      </span>
+    </a>
+  );
+}
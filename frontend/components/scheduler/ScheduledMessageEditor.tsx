@@ -0,0 +1,220 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Button from '@/components/ui/Button';
+import GroupTargetPicker from '@/components/scheduler/GroupTargetPicker';
+import { ApiError } from '@/lib/api';
+import { Group } from '@/lib/groupService';
+import {
+  AudienceSegment,
+  ScheduledMessage,
+  UpdateScheduledMessageRequest,
+  getSegments,
+  updateScheduledMessage,
+} from '@/lib/userService';
+
+/**
+ * ScheduledMessageEditor
+ *
+ * Edit the text, time, timezone or recipient of a pending scheduled message.
+ * The recipient stays of the same kind (number, group or segment). Saving
+ * fails when the message was changed or started sending after it was loaded;
+ * the list then has to be reloaded.
+ */
+
+interface ScheduledMessageEditorProps {
+  message: ScheduledMessage;
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+// datetime-local value of an ISO time in the browser timezone
+const toDateTimeInput = (iso: string) => {
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(
+    date.getMinutes()
+  )}`;
+};
+
+const inputClassName =
+  'w-full px-3 py-2 bg-elevated border border-border rounded-lg text-text-primary text-sm focus:outline-none focus:ring-2 focus:ring-primary';
+
+export default function ScheduledMessageEditor({ message, onSaved, onCancel }: ScheduledMessageEditorProps) {
+  const [text, setText] = useState(message.message);
+  const [scheduleTime, setScheduleTime] = useState(toDateTimeInput(message.scheduleTime));
+  const [timezone, setTimezone] = useState(message.timezone);
+  const [phoneNumber, setPhoneNumber] = useState(message.phoneNumber ?? '');
+  const [group, setGroup] = useState<Group | null>(
+    message.groupId
+      ? { id: message.groupId, subject: message.groupName || message.groupId, creation: null, owner: null, participants: [] }
+      : null
+  );
+  const [segmentId, setSegmentId] = useState<number | null>(message.segmentId ?? null);
+  const [segments, setSegments] = useState<AudienceSegment[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isConflict, setIsConflict] = useState(false);
+
+  const timezones = useMemo(() => {
+    const zones = Intl.supportedValuesOf('timeZone');
+    return zones.includes(message.timezone) ? zones : [message.timezone, ...zones];
+  }, [message.timezone]);
+
+  useEffect(() => {
+    if (!message.segmentId) return;
+    getSegments()
+      .then(setSegments)
+      .catch((err) => setError((err as ApiError).message || 'Failed to load segments'));
+  }, [message.segmentId]);
+
+  const handleSave = async () => {
+    if (!text.trim() && !message.media) {
+      setError('Message is required');
+      return;
+    }
+    if (!scheduleTime) {
+      setError('Schedule time is required');
+      return;
+    }
+
+    // Only changed fields are sent, so the audit trail shows what was edited
+    const changes: UpdateScheduledMessageRequest = { version: message.version };
+    if (text.trim() !== message.message) changes.message = text.trim();
+    if (scheduleTime !== toDateTimeInput(message.scheduleTime)) {
+      changes.scheduleTime = new Date(scheduleTime).toISOString();
+    }
+    if (timezone !== message.timezone) {
+      changes.timezone = timezone;
+      // A series keeps its wall-clock time in its timezone, so it restarts from the time shown
+      if (message.recurrence) changes.scheduleTime = new Date(scheduleTime).toISOString();
+    }
+    if (message.phoneNumber && phoneNumber.trim() !== message.phoneNumber) changes.to = phoneNumber.trim();
+    if (message.groupId && group && group.id !== message.groupId) changes.groupId = group.id;
+    if (message.segmentId && segmentId && segmentId !== message.segmentId) changes.segmentId = segmentId;
+
+    if (Object.keys(changes).length === 1) {
+      onCancel();
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await updateScheduledMessage(message.id, changes);
+      onSaved();
+    } catch (err) {
+      const apiError = err as ApiError;
+      setIsConflict(apiError.status === 409);
+      setError(apiError.message || 'Failed to update scheduled message');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <div className="p-3 bg-danger-soft border border-danger rounded-lg flex items-center justify-between gap-3">
+          <p className="text-sm text-danger">{error}</p>
+          {isConflict && (
+            <Button variant="ghost" size="sm" onClick={onSaved}>
+              Reload
+            </Button>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-text-secondary mb-1">
+            {message.recurrence ? 'Next run' : 'Schedule time'}
+          </label>
+          <input
+            type="datetime-local"
+            value={scheduleTime}
+            onChange={(e) => setScheduleTime(e.target.value)}
+            className={`${inputClassName} [color-scheme:dark]`}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-text-secondary mb-1">Timezone</label>
+          <select value={timezone} onChange={(e) => setTimezone(e.target.value)} className={inputClassName}>
+            {timezones.map((zone) => (
+              <option key={zone} value={zone}>
+                {zone}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      {message.recurrence && (
+        <p className="text-xs text-text-muted">
+          Changing the time or timezone restarts the series from the new time. Skipped and edited occurrences are
+          reset.
+        </p>
+      )}
+
+      {message.phoneNumber && (
+        <div>
+          <label className="block text-xs font-medium text-text-secondary mb-1">Phone number</label>
+          <input
+            type="text"
+            value={phoneNumber}
+            onChange={(e) => setPhoneNumber(e.target.value)}
+            className={`${inputClassName} font-mono`}
+          />
+        </div>
+      )}
+
+      {message.groupId && message.deviceId && (
+        <div>
+          <GroupTargetPicker deviceId={message.deviceId} selected={group} onChange={setGroup} />
+          {group && group.id !== message.groupId && message.mentions && message.mentions.length > 0 && (
+            <p className="text-xs text-warning mt-1">Mentions are removed when the group changes.</p>
+          )}
+        </div>
+      )}
+
+      {message.segmentId && (
+        <div>
+          <label className="block text-xs font-medium text-text-secondary mb-1">Segment</label>
+          <select
+            value={segmentId ?? ''}
+            onChange={(e) => setSegmentId(Number(e.target.value))}
+            className={inputClassName}
+          >
+            {segments.length === 0 && <option value={message.segmentId}>{message.segmentName || 'Current segment'}</option>}
+            {segments.map((segment) => (
+              <option key={segment.id} value={segment.id}>
+                {segment.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div>
+        <label className="block text-xs font-medium text-text-secondary mb-1">
+          {message.media ? 'Caption' : 'Message'}
+        </label>
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={4}
+          maxLength={4096}
+          className={`${inputClassName} resize-none`}
+        />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button variant="primary" size="sm" onClick={handleSave} disabled={isSaving || isConflict}>
+          {isSaving ? 'Saving...' : 'Save'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Badge from '@/components/ui/Badge';
+import { ApiError } from '@/lib/api';
+import {
+  ScheduledMessageEvent,
+  ScheduledMessageEventType,
+  getScheduledMessageHistory,
+} from '@/lib/userService';
+
+/**
+ * ScheduledMessageEvents
+ *
+ * Status history of one scheduled message: when it was scheduled, every run
+ * (sent, failed or missed) and changes made to it afterwards.
+ */
+
+interface ScheduledMessageEventsProps {
+  messageId: string;
+}
+
+const EVENT_LABELS: Record<
+  ScheduledMessageEventType,
+  { label: string; variant: 'success' | 'warning' | 'danger' | 'info' }
+> = {
+  scheduled: { label: 'Scheduled', variant: 'info' },
+  updated: { label: 'Updated', variant: 'info' },
+  sent: { label: 'Sent', variant: 'success' },
+  failed: { label: 'Failed', variant: 'danger' },
+  missed: { label: 'Missed', variant: 'warning' },
+  skipped: { label: 'Skipped', variant: 'warning' },
+  edited: { label: 'Edited', variant: 'info' },
+  restored: { label: 'Restored', variant: 'info' },
+  cancelled: { label: 'Cancelled', variant: 'warning' },
+  completed: { label: 'Completed', variant: 'success' },
+};
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString('id-ID', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const FIELD_LABELS: Record<string, string> = {
+  message: 'Message',
+  scheduleTime: 'Time',
+  seriesStart: 'Series start',
+  timezone: 'Timezone',
+  targetNumber: 'Number',
+  groupId: 'Group',
+  groupName: 'Group name',
+  mentions: 'Mentions',
+  segmentId: 'Segment',
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return `${value.length} items`;
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) return formatDate(value);
+  return String(value);
+};
+
+export default function ScheduledMessageEvents({ messageId }: ScheduledMessageEventsProps) {
+  const [events, setEvents] = useState<ScheduledMessageEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getScheduledMessageHistory(messageId)
+      .then((data) => {
+        setEvents(data);
+        setError(null);
+      })
+      .catch((err) => setError((err as ApiError).message || 'Failed to fetch message history'))
+      .finally(() => setIsLoading(false));
+  }, [messageId]);
+
+  if (isLoading) {
+    return <p className="text-sm text-text-secondary">Loading history...</p>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-danger">{error}</p>;
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-text-secondary">No history recorded yet</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-border border border-border rounded-lg bg-card">
+      {events.map((event) => {
+        const { label, variant } = EVENT_LABELS[event.event] ?? { label: event.event, variant: 'info' };
+        return (
+          <li key={event.id} className="p-3 text-sm flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <Badge variant={variant}>{label}</Badge>
+                {event.occurrenceTime && (
+                  <span className="text-xs text-text-muted">Run of {formatDate(event.occurrenceTime)}</span>
+                )}
+              </div>
+              {event.detail && !event.changes && (
+                <p className="mt-1 text-xs text-text-secondary break-words">{event.detail}</p>
+              )}
+              {event.changes && (
+                <ul className="mt-1 space-y-0.5">
+                  {Object.entries(event.changes).map(([field, { from, to }]) => (
+                    <li key={field} className="text-xs text-text-secondary break-words">
+                      <span className="text-text-primary">{FIELD_LABELS[field] ?? field}:</span>{' '}
+                      <span className="line-through text-text-muted">{formatValue(from)}</span> → {formatValue(to)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            <div className="text-right shrink-0">
+              <div className="text-xs text-text-secondary whitespace-nowrap">{formatDate(event.createdAt)}</div>
+              {event.userName && <div className="text-xs text-text-muted">by {event.userName}</div>}
+              {event.instanceId && <div className="text-xs text-text-muted">{event.instanceId}</div>}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -2,6 +2,8 @@ import React, { useEffect, useState } from 'react';
 import { ScheduledMessage, getScheduledMessages, cancelScheduledMessage } from '@/lib/userService';
 import Card from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
+import ScheduledMediaPreview from '@/components/scheduler/ScheduledMediaPreview';
+import ScheduledMessageEvents from './ScheduledMessageEvents';
 
 interface ScheduledMessageHistoryProps {
   deviceId: string;
@@ -16,6 +18,7 @@ export default function ScheduledMessageHistory({
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
 
   const fetchHistory = async () => {
     if (!deviceId) return;
@@ -134,7 +137,8 @@ export default function ScheduledMessageHistory({
             </thead>
             <tbody className="divide-y divide-border">
               {messages.map((msg) => (
-                <tr key={msg.id} className="hover:bg-elevated/50 transition-colors">
+                <React.Fragment key={msg.id}>
+                <tr className="hover:bg-elevated/50 transition-colors">
                   <td className="p-3 align-top whitespace-nowrap">
                     <div>{formatDate(msg.scheduleTime)}</div>
                     {msg.status === 'pending' && (
@@ -144,10 +148,23 @@ export default function ScheduledMessageHistory({
                     )}
                   </td>
                   <td className="p-3 align-top whitespace-nowrap">
-                    {msg.phoneNumber}
+                    {msg.phoneNumber ??
+                      (msg.groupId
+                        ? `Group: ${msg.groupName || msg.groupId}`
+                        : `Segment: ${msg.segmentName || '(deleted)'}`)}
+                    {msg.mentions && msg.mentions.length > 0 && (
+                      <div className="text-xs text-text-muted mt-1">Mentions {msg.mentions.length}</div>
+                    )}
                   </td>
-                  <td className="p-3 align-top max-w-xs truncate" title={msg.message}>
-                    {msg.message}
+                  <td className="p-3 align-top max-w-xs">
+                    {msg.media && (
+                      <div className="mb-1">
+                        <ScheduledMediaPreview media={msg.media} />
+                      </div>
+                    )}
+                    <div className="truncate" title={msg.message}>
+                      {msg.message}
+                    </div>
                   </td>
                   <td className="p-3 align-top">
                     <div className="flex flex-col gap-1 items-start">
@@ -160,6 +177,15 @@ export default function ScheduledMessageHistory({
                     </div>
                   </td>
                   <td className="p-3 align-top">
+                    <div className="flex gap-1">
+                     <Button
+                       variant="ghost"
+                       size="sm"
+                       className="h-8 px-2"
+                       onClick={() => setExpandedId(expandedId === msg.id ? null : msg.id)}
+                     >
+                       {expandedId === msg.id ? 'Hide' : 'History'}
+                     </Button>
                      {msg.status === 'pending' && (
                        <Button 
                          variant="ghost" 
@@ -171,8 +197,17 @@ export default function ScheduledMessageHistory({
                          {cancellingId === msg.id ? '...' : 'Cancel'}
                        </Button>
                      )}
+                    </div>
                   </td>
                 </tr>
+                {expandedId === msg.id && (
+                  <tr>
+                    <td colSpan={5} className="p-3 bg-elevated/30">
+                      <ScheduledMessageEvents messageId={msg.id} />
+                    </td>
+                  </tr>
+                )}
+                </React.Fragment>
               ))}
               {loading && (
                 <tr>
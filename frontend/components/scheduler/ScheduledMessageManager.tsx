@@ -9,6 +9,10 @@ import {
 } from '@/lib/userService';
 import Card from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
+import ScheduledMediaPreview from '@/components/scheduler/ScheduledMediaPreview';
+import ScheduledMessageEditor from '@/components/scheduler/ScheduledMessageEditor';
+import ScheduledOccurrences from '@/components/scheduler/ScheduledOccurrences';
+import { describeRecurrence } from '@/lib/recurrence';
 
 // Status filter options
 const STATUS_OPTIONS = [
@@ -25,7 +29,9 @@ const ERROR_MESSAGES: Record<string, string> = {
   'Device session not found': 'Device session expired. Please reconnect.',
   'Phone number invalid': 'Invalid phone number format.',
   'Expired during server downtime': 'Message expired while server was offline.',
+  'Occurrence missed during server downtime': 'Last occurrence was missed while server was offline.',
   'Network error': 'Network issue. Please reschedule.',
+  'Media file no longer exists': 'The attachment is no longer available. Reschedule with the file.',
 };
 
 function getReadableError(error?: string): string {
@@ -49,6 +55,8 @@ export default function ScheduledMessageManager({
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
   
   // Filters
   const [statusFilter, setStatusFilter] = useState<string>('');
@@ -314,7 +322,8 @@ export default function ScheduledMessageManager({
               </thead>
               <tbody className="divide-y divide-border">
                 {messages.map((msg) => (
-                  <tr key={msg.id} className="hover:bg-elevated/50 transition-colors">
+                  <React.Fragment key={msg.id}>
+                  <tr className="hover:bg-elevated/50 transition-colors">
                     {/* Schedule Time */}
                     <td className="p-3 align-top whitespace-nowrap">
                       <div>{formatDate(msg.scheduleTime)}</div>
@@ -323,7 +332,15 @@ export default function ScheduledMessageManager({
                           <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
                           </svg>
-                          in {getCountdown(msg.scheduleTime)}
+                          {msg.recurrence ? 'next' : 'in'} {getCountdown(msg.scheduleTime)}
+                        </div>
+                      )}
+                      {msg.recurrence && (
+                        <div className="text-xs text-text-secondary mt-1 flex items-center gap-1">
+                          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                          </svg>
+                          {describeRecurrence(msg.recurrence)}
                         </div>
                       )}
                     </td>
@@ -337,11 +354,22 @@ export default function ScheduledMessageManager({
 
                     {/* Target */}
                     <td className="p-3 align-top whitespace-nowrap font-mono text-xs">
-                      {msg.phoneNumber}
+                      {msg.phoneNumber ??
+                        (msg.groupId
+                          ? `Group: ${msg.groupName || msg.groupId}`
+                          : `Segment: ${msg.segmentName || '(deleted)'}`)}
+                      {msg.mentions && msg.mentions.length > 0 && (
+                        <div className="text-xs text-text-muted mt-1">Mentions {msg.mentions.length}</div>
+                      )}
                     </td>
 
                     {/* Message */}
                     <td className="p-3 align-top max-w-xs">
+                      {msg.media && (
+                        <div className="mb-1">
+                          <ScheduledMediaPreview media={msg.media} />
+                        </div>
+                      )}
                       <div className="truncate" title={msg.message}>
                         {msg.message.length > 50 ? msg.message.slice(0, 50) + '...' : msg.message}
                       </div>
@@ -365,6 +393,32 @@ export default function ScheduledMessageManager({
                     {/* Actions */}
                     <td className="p-3 align-top">
                       <div className="flex gap-1">
+                        {msg.status === 'pending' && msg.recurrence && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 px-2"
+                            onClick={() => {
+                              setExpandedId(expandedId === msg.id ? null : msg.id);
+                              setEditingId(null);
+                            }}
+                          >
+                            {expandedId === msg.id ? 'Hide' : 'Occurrences'}
+                          </Button>
+                        )}
+                        {msg.status === 'pending' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 px-2"
+                            onClick={() => {
+                              setEditingId(editingId === msg.id ? null : msg.id);
+                              setExpandedId(null);
+                            }}
+                          >
+                            {editingId === msg.id ? 'Close' : 'Edit'}
+                          </Button>
+                        )}
                         {msg.status === 'pending' && (
                           <Button 
                             variant="ghost" 
@@ -392,6 +446,28 @@ export default function ScheduledMessageManager({
                       </div>
                     </td>
                   </tr>
+                  {editingId === msg.id && msg.status === 'pending' && (
+                    <tr>
+                      <td colSpan={6} className="p-3 bg-elevated/30">
+                        <ScheduledMessageEditor
+                          message={msg}
+                          onSaved={() => {
+                            setEditingId(null);
+                            fetchMessages();
+                          }}
+                          onCancel={() => setEditingId(null)}
+                        />
+                      </td>
+                    </tr>
+                  )}
+                  {expandedId === msg.id && msg.status === 'pending' && (
+                    <tr>
+                      <td colSpan={6} className="p-3 bg-elevated/30">
+                        <ScheduledOccurrences messageId={msg.id} onChanged={fetchMessages} />
+                      </td>
+                    </tr>
+                  )}
+                  </React.Fragment>
                 ))}
                 {loading && (
                   <tr>
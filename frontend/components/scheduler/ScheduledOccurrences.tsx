@@ -0,0 +1,234 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Button from '@/components/ui/Button';
+import Badge from '@/components/ui/Badge';
+import { ApiError } from '@/lib/api';
+import {
+  MAX_UPCOMING_OCCURRENCES,
+  ScheduledOccurrence,
+  getScheduledOccurrences,
+  restoreScheduledOccurrence,
+  updateScheduledOccurrence,
+} from '@/lib/userService';
+
+/**
+ * ScheduledOccurrences
+ *
+ * Upcoming occurrences of a recurring scheduled message. Each one can be
+ * skipped, or sent at another time or with another text, without changing
+ * the rest of the series.
+ */
+
+interface ScheduledOccurrencesProps {
+  messageId: string;
+  /** Called after a change, since it can move the next run of the series */
+  onChanged?: () => void;
+}
+
+const PAGE_SIZE = 10;
+const MAX_OCCURRENCES = MAX_UPCOMING_OCCURRENCES;
+
+// datetime-local value of an ISO time in the browser timezone
+const toDateTimeInput = (iso: string) => {
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(
+    date.getMinutes()
+  )}`;
+};
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString('id-ID', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export default function ScheduledOccurrences({ messageId, onChanged }: ScheduledOccurrencesProps) {
+  const [occurrences, setOccurrences] = useState<ScheduledOccurrence[]>([]);
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyTime, setBusyTime] = useState<string | null>(null);
+
+  // Occurrence being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [editTime, setEditTime] = useState('');
+  const [editMessage, setEditMessage] = useState('');
+
+  const fetchOccurrences = useCallback(async () => {
+    try {
+      setOccurrences(await getScheduledOccurrences(messageId, limit));
+      setError(null);
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to fetch occurrences');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [messageId, limit]);
+
+  useEffect(() => {
+    fetchOccurrences();
+  }, [fetchOccurrences]);
+
+  const run = async (occurrenceTime: string, action: () => Promise<unknown>) => {
+    setBusyTime(occurrenceTime);
+    setError(null);
+    try {
+      await action();
+      setEditing(null);
+      await fetchOccurrences();
+      onChanged?.();
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to update occurrence');
+    } finally {
+      setBusyTime(null);
+    }
+  };
+
+  const startEdit = (occurrence: ScheduledOccurrence) => {
+    setEditing(occurrence.occurrenceTime);
+    setEditTime(toDateTimeInput(occurrence.scheduleTime));
+    setEditMessage(occurrence.message);
+  };
+
+  const saveEdit = (occurrence: ScheduledOccurrence) => {
+    if (!editTime || !editMessage.trim()) {
+      setError('Time and message are required');
+      return;
+    }
+    run(occurrence.occurrenceTime, () =>
+      updateScheduledOccurrence(messageId, occurrence.occurrenceTime, {
+        message: editMessage.trim(),
+        scheduleTime: new Date(editTime).toISOString(),
+      })
+    );
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-text-secondary">Loading occurrences...</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {error && (
+        <div className="p-3 bg-danger-soft border border-danger rounded-lg">
+          <p className="text-sm text-danger">{error}</p>
+        </div>
+      )}
+
+      {occurrences.length === 0 ? (
+        <p className="text-sm text-text-secondary">No upcoming occurrences</p>
+      ) : (
+        <ul className="divide-y divide-border border border-border rounded-lg bg-card">
+          {occurrences.map((occurrence) => {
+            const isBusy = busyTime === occurrence.occurrenceTime;
+            const isMoved = occurrence.scheduleTime !== occurrence.occurrenceTime;
+
+            return (
+              <li key={occurrence.occurrenceTime} className="p-3 text-sm">
+                {editing === occurrence.occurrenceTime ? (
+                  <div className="space-y-2">
+                    <input
+                      type="datetime-local"
+                      value={editTime}
+                      onChange={(e) => setEditTime(e.target.value)}
+                      className="px-3 py-2 bg-elevated border border-border rounded-lg text-text-primary text-sm focus:outline-none focus:ring-2 focus:ring-primary [color-scheme:dark]"
+                    />
+                    <textarea
+                      value={editMessage}
+                      onChange={(e) => setEditMessage(e.target.value)}
+                      rows={3}
+                      className="w-full px-3 py-2 bg-elevated border border-border rounded-lg text-text-primary text-sm focus:outline-none focus:ring-2 focus:ring-primary resize-none"
+                    />
+                    <p className="text-xs text-text-muted">
+                      Only this occurrence changes. It has to stay between the occurrences before and after it.
+                    </p>
+                    <div className="flex justify-end gap-2">
+                      <Button variant="ghost" size="sm" onClick={() => setEditing(null)} disabled={isBusy}>
+                        Cancel
+                      </Button>
+                      <Button variant="primary" size="sm" onClick={() => saveEdit(occurrence)} disabled={isBusy}>
+                        {isBusy ? 'Saving...' : 'Save'}
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className={occurrence.skipped ? 'line-through text-text-muted' : 'text-text-primary'}>
+                          {formatDate(occurrence.scheduleTime)}
+                        </span>
+                        {occurrence.skipped && <Badge variant="warning">Skipped</Badge>}
+                        {!occurrence.skipped && occurrence.edited && <Badge variant="info">Edited</Badge>}
+                      </div>
+                      {isMoved && (
+                        <p className="text-xs text-text-muted">Moved from {formatDate(occurrence.occurrenceTime)}</p>
+                      )}
+                      {occurrence.edited && !occurrence.skipped && (
+                        <p className="text-xs text-text-secondary truncate" title={occurrence.message}>
+                          {occurrence.message}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex gap-1 shrink-0">
+                      {occurrence.skipped || occurrence.edited ? (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() =>
+                            run(occurrence.occurrenceTime, () =>
+                              restoreScheduledOccurrence(messageId, occurrence.occurrenceTime)
+                            )
+                          }
+                          disabled={isBusy}
+                        >
+                          {isBusy ? '...' : 'Restore'}
+                        </Button>
+                      ) : null}
+                      {!occurrence.skipped && (
+                        <>
+                          <Button variant="ghost" size="sm" onClick={() => startEdit(occurrence)} disabled={isBusy}>
+                            Edit
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-danger hover:bg-danger-soft"
+                            onClick={() =>
+                              run(occurrence.occurrenceTime, () =>
+                                updateScheduledOccurrence(messageId, occurrence.occurrenceTime, { skip: true })
+                              )
+                            }
+                            disabled={isBusy}
+                          >
+                            {isBusy ? '...' : 'Skip'}
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {occurrences.length >= limit && limit < MAX_OCCURRENCES && (
+        <button
+          type="button"
+          onClick={() => setLimit((current) => Math.min(MAX_OCCURRENCES, current + PAGE_SIZE))}
+          className="text-sm text-primary hover:underline"
+        >
+          Show more
+        </button>
+      )}
+    </div>
+  );
+}
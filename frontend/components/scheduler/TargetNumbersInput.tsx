@@ -1,13 +1,24 @@
 import React from 'react';
 import { parsePhoneNumbers } from '@/lib/userService';
+import { COUNTRIES, DEFAULT_COUNTRY, formatPhoneNumber } from '@/lib/phoneNumber';
 
 interface TargetNumbersInputProps {
   value: string;
   onChange: (value: string) => void;
+  /** Country used for numbers written without a calling code */
+  defaultCountry?: string;
 }
 
-export default function TargetNumbersInput({ value, onChange }: TargetNumbersInputProps) {
-  const { valid, invalid, duplicates } = parsePhoneNumbers(value);
+export default function TargetNumbersInput({
+  value,
+  onChange,
+  defaultCountry = DEFAULT_COUNTRY,
+}: TargetNumbersInputProps) {
+  const { valid, invalid, duplicates, normalized, reinterpreted } = parsePhoneNumbers(
+    value,
+    defaultCountry
+  );
+  const country = COUNTRIES[defaultCountry] || COUNTRIES[DEFAULT_COUNTRY];
 
   return (
     <div>
@@ -20,7 +31,8 @@ export default function TargetNumbersInput({ value, onChange }: TargetNumbersInp
         </span>
       </div>
       <p className="text-xs text-text-secondary mb-2">
-        Enter phone numbers separated by newlines. Valid formats: 0812..., 62812..., +62812...
+        Enter phone numbers separated by newlines. Use +countrycode for international numbers;
+        numbers without one are read as {country.name} (+{country.code}).
       </p>
       <textarea
         value={value}
@@ -29,13 +41,14 @@ export default function TargetNumbersInput({ value, onChange }: TargetNumbersInp
         className="w-full px-4 py-2.5 bg-card border border-border rounded-lg text-text-primary placeholder-text-muted focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 focus:ring-offset-app transition-all font-mono text-sm"
         placeholder="081234567890&#10;+6281234567890"
       />
-      
+
       {/* Validation Feedback */}
-      {(invalid.length > 0 || duplicates.length > 0) && (
+      {(invalid.length > 0 || duplicates.length > 0 || reinterpreted.length > 0) && (
         <div className="mt-2 space-y-1 text-xs">
           {invalid.length > 0 && (
             <p className="text-danger">
-              Found {invalid.length} invalid numbers
+              Found {invalid.length} invalid numbers: {invalid.slice(0, 5).join(', ')}
+              {invalid.length > 5 && ', …'}
             </p>
           )}
           {duplicates.length > 0 && (
@@ -43,8 +56,32 @@ export default function TargetNumbersInput({ value, onChange }: TargetNumbersInp
               Found {duplicates.length} duplicate numbers (will be skipped)
             </p>
           )}
+          {reinterpreted.length > 0 && (
+            <div className="text-text-secondary">
+              <p>{reinterpreted.length} numbers were completed with a country code:</p>
+              <ul className="mt-1 space-y-0.5 font-mono">
+                {reinterpreted.slice(0, 10).map(({ input, normalized: digits }) => (
+                  <li key={input}>
+                    {input} → {formatPhoneNumber(digits)}
+                  </li>
+                ))}
+                {reinterpreted.length > 10 && <li>…and {reinterpreted.length - 10} more</li>}
+              </ul>
+            </div>
+          )}
         </div>
       )}
+
+      {valid.length > 0 && (
+        <details className="mt-2 text-xs text-text-secondary">
+          <summary className="cursor-pointer">Preview numbers</summary>
+          <ul className="mt-1 max-h-32 overflow-y-auto space-y-0.5 font-mono">
+            {valid.map((line) => (
+              <li key={line}>{formatPhoneNumber(normalized.get(line))}</li>
+            ))}
+          </ul>
+        </details>
+      )}
     </div>
   );
 }
@@ -0,0 +1,180 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAppDispatch, useAppSelector } from '@/hooks/useAppDispatch';
+import { useDestructiveAction } from '@/hooks/useDestructiveAction';
+import { logout } from '@/store/slices/authSlice';
+import { exportAccountData, deleteAccount } from '@/lib/authService';
+import { ApiError } from '@/lib/api';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import DestructiveActionModal from '@/components/admin/ui/DestructiveActionModal';
+import { Download, Check } from 'lucide-react';
+
+/**
+ * DeleteAccount
+ *
+ * Danger Zone flow: download a personal archive first, then confirm with
+ * password (and 2FA code) plus a typed keyword to delete the account.
+ */
+
+const CONFIRM_KEYWORD = 'DELETE';
+
+interface DeleteAccountArgs {
+  password: string;
+  code?: string;
+}
+
+export default function DeleteAccount() {
+  const router = useRouter();
+  const dispatch = useAppDispatch();
+  const user = useAppSelector((state) => state.auth.user);
+
+  const [isExporting, setIsExporting] = useState(false);
+  const [hasExported, setHasExported] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  const { execute, isLoading, error, reset } = useDestructiveAction<DeleteAccountArgs>({
+    action: ({ password, code }) => deleteAccount(password, code),
+    onSuccess: () => {
+      setIsModalOpen(false);
+      dispatch(logout());
+      router.push('/auth/login');
+    },
+    onError: () => setIsModalOpen(false),
+  });
+
+  const isAdmin = user?.role === 'admin';
+  const needsCode = !!user?.twoFactorEnabled;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const archive = await exportAccountData();
+      const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+      const downloadUrl = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = downloadUrl;
+      a.download = `account_export_${user?.username || 'me'}_${Date.now()}.json`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(downloadUrl);
+      setHasExported(true);
+    } catch (err) {
+      setExportError((err as ApiError).message || 'Failed to export account data');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleOpenModal = (e: React.FormEvent) => {
+    e.preventDefault();
+    reset();
+    setIsModalOpen(true);
+  };
+
+  if (isAdmin) {
+    return (
+      <div className="border border-danger/30 rounded-lg p-4 bg-danger/5">
+        <p className="text-text-muted text-sm mb-4">
+          Admin accounts cannot be deleted from here. Ask another admin to remove this account.
+        </p>
+        <Button variant="danger" disabled>
+          Delete Account
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="border border-danger/30 rounded-lg p-4 bg-danger/5 space-y-4">
+      <p className="text-text-muted text-sm">
+        Deleting your account signs you out everywhere, disconnects all your WhatsApp devices and
+        removes their sessions. Your data is permanently erased after a grace period.
+      </p>
+
+      {/* Step 1: Export */}
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-text-primary font-medium">1. Download your data</p>
+          <p className="text-sm text-text-muted">
+            Devices, contacts, templates, scheduled messages and message history (JSON)
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleExport} disabled={isExporting}>
+          {hasExported ? <Check className="w-4 h-4 mr-1" /> : <Download className="w-4 h-4 mr-1" />}
+          {isExporting ? 'Preparing...' : hasExported ? 'Downloaded' : 'Download'}
+        </Button>
+      </div>
+
+      {exportError && (
+        <div className="bg-danger-soft border border-danger rounded-lg p-3">
+          <p className="text-sm text-danger">{exportError}</p>
+        </div>
+      )}
+
+      {/* Step 2: Confirm */}
+      <form onSubmit={handleOpenModal} className="space-y-4">
+        <p className="text-text-primary font-medium">2. Confirm deletion</p>
+        <Input
+          type="password"
+          name="delete-password"
+          label="Password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete="current-password"
+          disabled={!hasExported || isLoading}
+        />
+        {needsCode && (
+          <Input
+            type="text"
+            name="delete-totp-code"
+            label="Verification Code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            autoComplete="one-time-code"
+            disabled={!hasExported || isLoading}
+          />
+        )}
+
+        {error && (
+          <div className="bg-danger-soft border border-danger rounded-lg p-3">
+            <p className="text-sm text-danger">{error}</p>
+          </div>
+        )}
+
+        <Button
+          type="submit"
+          variant="danger"
+          disabled={!hasExported || !password || (needsCode && !code.trim()) || isLoading}
+        >
+          Delete Account
+        </Button>
+      </form>
+
+      <DestructiveActionModal
+        isOpen={isModalOpen}
+        title="Delete Account"
+        description={
+          <>
+            All devices will be disconnected and you will be signed out immediately. Your account
+            can only be restored by an administrator during the grace period; after that it is
+            permanently erased.
+          </>
+        }
+        targetId={user?.email || ''}
+        confirmText="Delete My Account"
+        confirmKeyword={CONFIRM_KEYWORD}
+        isLoading={isLoading}
+        onConfirm={() => execute({ password, code: needsCode ? code.trim() : undefined })}
+        onCancel={() => setIsModalOpen(false)}
+      />
+    </div>
+  );
+}
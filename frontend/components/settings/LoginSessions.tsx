@@ -0,0 +1,155 @@
+'use client';
+
+import React, { useState, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAppDispatch } from '@/hooks/useAppDispatch';
+import { logout } from '@/store/slices/authSlice';
+import {
+  getSessions,
+  revokeSession,
+  revokeAllSessions,
+  LoginSession,
+} from '@/lib/authService';
+import { ApiError } from '@/lib/api';
+import Button from '@/components/ui/Button';
+import SessionList from './SessionList';
+
+/**
+ * LoginSessions
+ *
+ * "Login History" row of the Security card: lists active sessions (and
+ * optionally past ones), revokes single sessions and signs out everywhere.
+ */
+export default function LoginSessions() {
+  const router = useRouter();
+  const dispatch = useAppDispatch();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [sessions, setSessions] = useState<LoginSession[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [isSigningOutAll, setIsSigningOutAll] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async (includeHistory: boolean) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setSessions(await getSessions(includeHistory));
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to load sessions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const handleToggle = () => {
+    const next = !isOpen;
+    setIsOpen(next);
+    if (next) loadSessions(showHistory);
+  };
+
+  const handleToggleHistory = () => {
+    const next = !showHistory;
+    setShowHistory(next);
+    loadSessions(next);
+  };
+
+  const handleRevoke = async (sessionId: string) => {
+    const session = sessions.find((s) => s.id === sessionId);
+    if (session?.isCurrent && !confirm('This will sign you out on this device. Continue?')) {
+      return;
+    }
+
+    setRevokingId(sessionId);
+    setError(null);
+    try {
+      await revokeSession(sessionId);
+      if (session?.isCurrent) {
+        dispatch(logout());
+        router.push('/auth/login');
+        return;
+      }
+      await loadSessions(showHistory);
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to revoke session');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    if (!confirm('Sign out of all sessions, including this one?')) {
+      return;
+    }
+
+    setIsSigningOutAll(true);
+    setError(null);
+    try {
+      await revokeAllSessions();
+      dispatch(logout());
+      router.push('/auth/login');
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to sign out of all sessions');
+      setIsSigningOutAll(false);
+    }
+  };
+
+  return (
+    <div className="py-3 border-b border-divider space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-text-primary font-medium">Login History</p>
+          <p className="text-sm text-text-muted">View all active sessions</p>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleToggle}>
+          {isOpen ? 'Hide' : 'View Sessions'}
+        </Button>
+      </div>
+
+      {isOpen && (
+        <div className="bg-elevated rounded-lg p-4 space-y-3">
+          {error && (
+            <div className="bg-danger-soft border border-danger rounded-lg p-3">
+              <p className="text-sm text-danger">{error}</p>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <SessionList
+              sessions={sessions}
+              onRevoke={handleRevoke}
+              revokingId={revokingId}
+              emptyMessage="No active sessions"
+            />
+          )}
+
+          <div className="flex items-center justify-between pt-2">
+            <label className="flex items-center gap-2 text-sm text-text-secondary cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showHistory}
+                onChange={handleToggleHistory}
+                className="w-4 h-4 rounded border-border text-primary focus:ring-2 focus:ring-primary cursor-pointer"
+              />
+              Include revoked and expired sessions
+            </label>
+            <Button
+              variant="danger"
+              size="sm"
+              onClick={handleSignOutEverywhere}
+              disabled={isSigningOutAll}
+            >
+              {isSigningOutAll ? 'Signing out...' : 'Sign Out Everywhere'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
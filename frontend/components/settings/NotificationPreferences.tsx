@@ -0,0 +1,271 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useAppSelector } from '@/hooks/useAppDispatch';
+import {
+  getNotificationPreferences,
+  updateNotificationPreferences,
+  sendTestNotification,
+  NotificationPreferences as Preferences,
+  NotificationPreferenceType,
+  NotificationChannels,
+  UpdateNotificationPreferencesRequest,
+} from '@/lib/authService';
+import { ApiError } from '@/lib/api';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+
+/**
+ * NotificationPreferences
+ *
+ * Body of the Notifications card: per-type channel matrix (in-app, email,
+ * webhook) plus the email address and webhook endpoint used for delivery.
+ */
+
+const TYPE_LABELS: { type: NotificationPreferenceType; label: string; description: string }[] = [
+  { type: 'device_disconnected', label: 'Device disconnected', description: 'A device lost its connection' },
+  { type: 'session_expired', label: 'Session expired', description: 'WhatsApp logged a device out' },
+  { type: 'qr_required', label: 'QR code required', description: 'A device is waiting to be linked' },
+  { type: 'device_connected', label: 'Device connected', description: 'A device came online' },
+  { type: 'scheduled_failed', label: 'Scheduled message failed', description: 'A scheduled message could not be sent' },
+  { type: 'scheduled_sent', label: 'Scheduled message sent', description: 'A scheduled message was delivered' },
+  { type: 'message_failed', label: 'Bulk messages failed', description: 'A chat blast finished with failures' },
+  { type: 'handoff_assigned', label: 'Conversation assigned', description: 'A teammate assigned you a handed-off conversation' },
+  { type: 'missed_call', label: 'Missed call', description: 'A call was rejected or not picked up' },
+  { type: 'workspace_invitation', label: 'Workspace invitation', description: 'Someone invited you to work on their devices' },
+];
+
+const CHANNEL_LABELS: { channel: keyof NotificationChannels; label: string }[] = [
+  { channel: 'inApp', label: 'In-app' },
+  { channel: 'email', label: 'Email' },
+  { channel: 'webhook', label: 'Webhook' },
+];
+
+export default function NotificationPreferences() {
+  const accountEmail = useAppSelector((state) => state.auth.user?.email);
+
+  const [preferences, setPreferences] = useState<Preferences | null>(null);
+  const [email, setEmail] = useState('');
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [webhookSecret, setWebhookSecret] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [testingChannel, setTestingChannel] = useState<'email' | 'webhook' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const applyPreferences = (result: Preferences) => {
+    setPreferences(result);
+    setEmail(result.email || '');
+    setWebhookUrl(result.webhookUrl || '');
+    setWebhookSecret('');
+  };
+
+  useEffect(() => {
+    getNotificationPreferences()
+      .then(applyPreferences)
+      .catch((err) => setError((err as ApiError).message || 'Failed to load notification preferences'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleToggle = (type: NotificationPreferenceType, channel: keyof NotificationChannels) => {
+    if (!preferences) return;
+    setSuccess(null);
+    setPreferences({
+      ...preferences,
+      channels: {
+        ...preferences.channels,
+        [type]: {
+          ...preferences.channels[type],
+          [channel]: !preferences.channels[type][channel],
+        },
+      },
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!preferences) return;
+
+    setIsSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const updates: UpdateNotificationPreferencesRequest = {
+        channels: preferences.channels,
+        email: email.trim() || null,
+        webhookUrl: webhookUrl.trim() || null,
+      };
+      // Only send the secret when it was changed; the saved one is never returned
+      if (webhookSecret) {
+        updates.webhookSecret = webhookSecret;
+      } else if (!webhookUrl.trim()) {
+        updates.webhookSecret = null;
+      }
+
+      applyPreferences(await updateNotificationPreferences(updates));
+      setSuccess('Notification preferences saved');
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to save notification preferences');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTest = async (channel: 'email' | 'webhook') => {
+    setTestingChannel(channel);
+    setError(null);
+    setSuccess(null);
+    try {
+      await sendTestNotification(channel);
+      setSuccess(`Test ${channel} sent`);
+    } catch (err) {
+      setError((err as ApiError).message || `Failed to send test ${channel}`);
+    } finally {
+      setTestingChannel(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!preferences) {
+    return (
+      <div className="bg-danger-soft border border-danger rounded-lg p-3">
+        <p className="text-sm text-danger">{error || 'Failed to load notification preferences'}</p>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSave} className="space-y-6">
+      {error && (
+        <div className="bg-danger-soft border border-danger rounded-lg p-3">
+          <p className="text-sm text-danger">{error}</p>
+        </div>
+      )}
+      {success && (
+        <div className="bg-success-soft border border-success rounded-lg p-3">
+          <p className="text-sm text-success">{success}</p>
+        </div>
+      )}
+
+      {/* Channel matrix */}
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-divider">
+              <th className="text-left py-2 pr-4 text-sm font-medium text-text-muted">Event</th>
+              {CHANNEL_LABELS.map(({ channel, label }) => (
+                <th key={channel} className="py-2 px-3 text-sm font-medium text-text-muted text-center">
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {TYPE_LABELS.map(({ type, label, description }) => (
+              <tr key={type} className="border-b border-divider last:border-b-0">
+                <td className="py-3 pr-4">
+                  <p className="text-text-primary">{label}</p>
+                  <p className="text-xs text-text-muted">{description}</p>
+                </td>
+                {CHANNEL_LABELS.map(({ channel, label: channelLabel }) => (
+                  <td key={channel} className="py-3 px-3 text-center">
+                    <input
+                      type="checkbox"
+                      aria-label={`${label}: ${channelLabel}`}
+                      checked={preferences.channels[type][channel]}
+                      onChange={() => handleToggle(type, channel)}
+                      disabled={isSaving}
+                      className="w-5 h-5 rounded border-border text-primary focus:ring-2 focus:ring-primary cursor-pointer"
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Email */}
+      <div className="space-y-2">
+        <div className="flex items-end gap-2">
+          <div className="flex-1">
+            <Input
+              type="email"
+              name="notification-email"
+              label="Email address"
+              placeholder={accountEmail || 'you@example.com'}
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              disabled={isSaving}
+            />
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleTest('email')}
+            disabled={testingChannel !== null || isSaving}
+          >
+            {testingChannel === 'email' ? 'Sending...' : 'Send Test'}
+          </Button>
+        </div>
+        <p className="text-xs text-text-muted">
+          Leave empty to use your account email.
+          {!preferences.emailConfigured && ' Email delivery is not configured on this server yet; messages are only logged.'}
+        </p>
+      </div>
+
+      {/* Webhook */}
+      <div className="space-y-2">
+        <div className="flex items-end gap-2">
+          <div className="flex-1">
+            <Input
+              type="text"
+              name="notification-webhook-url"
+              label="Webhook URL"
+              placeholder="https://example.com/hooks/whatsapp"
+              value={webhookUrl}
+              onChange={(e) => setWebhookUrl(e.target.value)}
+              disabled={isSaving}
+            />
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleTest('webhook')}
+            disabled={testingChannel !== null || isSaving || !preferences.webhookUrl}
+          >
+            {testingChannel === 'webhook' ? 'Sending...' : 'Send Test'}
+          </Button>
+        </div>
+        <Input
+          type="password"
+          name="notification-webhook-secret"
+          label="Signing secret (optional)"
+          placeholder={preferences.hasWebhookSecret ? 'Saved - enter a new value to replace it' : 'Used to sign payloads'}
+          value={webhookSecret}
+          onChange={(e) => setWebhookSecret(e.target.value)}
+          autoComplete="new-password"
+          disabled={isSaving}
+        />
+        <p className="text-xs text-text-muted">
+          Payloads are sent as JSON. With a secret, each request carries an{' '}
+          <code className="font-mono">X-Signature-256: sha256=&lt;hmac&gt;</code> header.
+        </p>
+      </div>
+
+      <div className="flex justify-end">
+        <Button type="submit" variant="primary" disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save Preferences'}
+        </Button>
+      </div>
+    </form>
+  );
+}
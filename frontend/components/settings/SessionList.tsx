@@ -0,0 +1,110 @@
+'use client';
+
+import React from 'react';
+import { Monitor, Smartphone } from 'lucide-react';
+import Badge from '@/components/ui/Badge';
+import Button from '@/components/ui/Button';
+import type { LoginSession } from '@/lib/authService';
+
+/**
+ * SessionList
+ *
+ * Pure presentational list of login sessions. Used by the settings page
+ * (own sessions) and the admin user detail page.
+ */
+
+interface SessionListProps {
+  sessions: LoginSession[];
+  onRevoke?: (sessionId: string) => void;
+  revokingId?: string | null;
+  emptyMessage?: string;
+}
+
+/**
+ * Turn a user agent into a short "Browser on OS" label
+ */
+function describeUserAgent(userAgent: string | null): { label: string; isMobile: boolean } {
+  if (!userAgent) return { label: 'Unknown device', isMobile: false };
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\//.test(userAgent) ? 'Opera'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : /curl|axios|node|python/i.test(userAgent) ? 'API client'
+    : 'Browser';
+
+  const os =
+    /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad|iPod/.test(userAgent) ? 'iOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X|Macintosh/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+
+  return {
+    label: os ? `${browser} on ${os}` : browser,
+    isMobile: /Mobi|Android|iPhone|iPad/.test(userAgent),
+  };
+}
+
+function formatDate(dateString: string | null): string {
+  if (!dateString) return '-';
+  return new Date(dateString).toLocaleString();
+}
+
+export default function SessionList({
+  sessions,
+  onRevoke,
+  revokingId = null,
+  emptyMessage = 'No sessions found',
+}: SessionListProps) {
+  if (sessions.length === 0) {
+    return <p className="text-sm text-text-muted py-4 text-center">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="divide-y divide-divider">
+      {sessions.map((session) => {
+        const { label, isMobile } = describeUserAgent(session.userAgent);
+        const Icon = isMobile ? Smartphone : Monitor;
+
+        return (
+          <div key={session.id} className="flex items-center justify-between gap-4 py-3">
+            <div className="flex items-center gap-3 min-w-0">
+              <div className="w-9 h-9 rounded-lg bg-elevated flex items-center justify-center shrink-0">
+                <Icon className="w-4 h-4 text-text-secondary" />
+              </div>
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="text-sm font-medium text-text-primary truncate">{label}</p>
+                  {session.isCurrent && <Badge variant="info">This device</Badge>}
+                  {!session.isActive && (
+                    <Badge variant={session.revokedAt ? 'danger' : 'warning'}>
+                      {session.revokedAt ? 'Revoked' : 'Expired'}
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-xs text-text-muted truncate">
+                  {session.ipAddress || 'Unknown IP'} • Signed in {formatDate(session.createdAt)} •
+                  Last active {formatDate(session.lastUsedAt)}
+                </p>
+              </div>
+            </div>
+            {onRevoke && session.isActive && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onRevoke(session.id)}
+                disabled={revokingId === session.id}
+              >
+                {revokingId === session.id ? 'Revoking...' : 'Revoke'}
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
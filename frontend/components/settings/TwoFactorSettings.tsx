@@ -0,0 +1,277 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useAppDispatch, useAppSelector } from '@/hooks/useAppDispatch';
+import { updateUser } from '@/store/slices/authSlice';
+import {
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateBackupCodes,
+  TwoFactorSetupResponse,
+} from '@/lib/authService';
+import { ApiError } from '@/lib/api';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import Badge from '@/components/ui/Badge';
+import { Copy, Check } from 'lucide-react';
+
+/**
+ * TwoFactorSettings
+ *
+ * TOTP enrollment, backup codes and disable flow for the Security card
+ * in the settings page.
+ */
+
+type Mode = 'idle' | 'enrolling' | 'disabling' | 'regenerating';
+
+export default function TwoFactorSettings() {
+  const dispatch = useAppDispatch();
+  const isEnabled = useAppSelector((state) => !!state.auth.user?.twoFactorEnabled);
+
+  const [mode, setMode] = useState<Mode>('idle');
+  const [setup, setSetup] = useState<TwoFactorSetupResponse | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setMode('idle');
+    setSetup(null);
+    setCode('');
+    setPassword('');
+    setError(null);
+  };
+
+  const run = async (action: () => Promise<void>, fallbackMessage: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError((err as ApiError).message || fallbackMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleStart = () =>
+    run(async () => {
+      const result = await setupTwoFactor();
+      setSetup(result);
+      setMode('enrolling');
+    }, 'Failed to start two-factor setup');
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run(async () => {
+      const result = await enableTwoFactor(code.trim());
+      setBackupCodes(result.backupCodes);
+      dispatch(updateUser({ twoFactorEnabled: true }));
+      reset();
+    }, 'Failed to enable two-factor authentication');
+  };
+
+  const handleDisable = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run(async () => {
+      await disableTwoFactor(password, code.trim());
+      dispatch(updateUser({ twoFactorEnabled: false }));
+      setBackupCodes(null);
+      reset();
+    }, 'Failed to disable two-factor authentication');
+  };
+
+  const handleRegenerate = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run(async () => {
+      const result = await regenerateBackupCodes(code.trim());
+      setBackupCodes(result.backupCodes);
+      reset();
+    }, 'Failed to regenerate backup codes');
+  };
+
+  const handleCopyCodes = async () => {
+    if (!backupCodes) return;
+    try {
+      await navigator.clipboard.writeText(backupCodes.join('\n'));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard unavailable (e.g. insecure context); codes remain visible
+    }
+  };
+
+  return (
+    <div className="py-3 border-b border-divider space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="flex items-center gap-2">
+            <p className="text-text-primary font-medium">Two-Factor Authentication</p>
+            {isEnabled && <Badge variant="success">Enabled</Badge>}
+          </div>
+          <p className="text-sm text-text-muted">
+            {isEnabled
+              ? 'A code from your authenticator app is required at sign in'
+              : 'Add an extra layer of security'}
+          </p>
+        </div>
+        {mode === 'idle' && (
+          isEnabled ? (
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setMode('regenerating')}>
+                New Backup Codes
+              </Button>
+              <Button variant="danger" size="sm" onClick={() => setMode('disabling')}>
+                Disable
+              </Button>
+            </div>
+          ) : (
+            <Button variant="outline" size="sm" onClick={handleStart} disabled={isLoading}>
+              {isLoading ? 'Starting...' : 'Enable'}
+            </Button>
+          )
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-danger-soft border border-danger rounded-lg p-3">
+          <p className="text-sm text-danger">{error}</p>
+        </div>
+      )}
+
+      {/* Enrollment */}
+      {mode === 'enrolling' && setup && (
+        <form onSubmit={handleEnable} className="bg-elevated rounded-lg p-4 space-y-4">
+          <p className="text-sm text-text-secondary">
+            1. Scan this QR code with Google Authenticator, Authy or a similar app.
+          </p>
+          <div className="flex flex-col sm:flex-row items-center gap-4">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={setup.qrCode}
+              alt="Two-factor authentication QR code"
+              className="w-40 h-40 rounded-lg bg-white p-2"
+            />
+            <div className="text-sm text-text-muted break-all">
+              <p className="mb-1">Can&apos;t scan? Enter this key manually:</p>
+              <code className="text-text-primary font-mono">{setup.secret}</code>
+            </div>
+          </div>
+          <p className="text-sm text-text-secondary">
+            2. Enter the 6-digit code shown in the app to confirm.
+          </p>
+          <Input
+            type="text"
+            name="totp-code"
+            placeholder="123456"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            autoComplete="one-time-code"
+            disabled={isLoading}
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={reset} disabled={isLoading}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" size="sm" disabled={isLoading || !code.trim()}>
+              {isLoading ? 'Verifying...' : 'Verify & Enable'}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {/* Disable */}
+      {mode === 'disabling' && (
+        <form onSubmit={handleDisable} className="bg-elevated rounded-lg p-4 space-y-4">
+          <p className="text-sm text-text-secondary">
+            Confirm your password and a current code (or a backup code) to turn off two-factor authentication.
+          </p>
+          <Input
+            type="password"
+            name="password"
+            label="Password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            disabled={isLoading}
+          />
+          <Input
+            type="text"
+            name="totp-code"
+            label="Verification Code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            autoComplete="one-time-code"
+            disabled={isLoading}
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={reset} disabled={isLoading}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              variant="danger"
+              size="sm"
+              disabled={isLoading || !password || !code.trim()}
+            >
+              {isLoading ? 'Disabling...' : 'Disable 2FA'}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {/* Regenerate backup codes */}
+      {mode === 'regenerating' && (
+        <form onSubmit={handleRegenerate} className="bg-elevated rounded-lg p-4 space-y-4">
+          <p className="text-sm text-text-secondary">
+            Enter a current code from your authenticator app. Your existing backup codes will stop working.
+          </p>
+          <Input
+            type="text"
+            name="totp-code"
+            placeholder="123456"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            autoComplete="one-time-code"
+            disabled={isLoading}
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={reset} disabled={isLoading}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" size="sm" disabled={isLoading || !code.trim()}>
+              {isLoading ? 'Generating...' : 'Generate'}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {/* Backup codes (shown once) */}
+      {backupCodes && (
+        <div className="bg-warning-soft border border-warning rounded-lg p-4 space-y-3">
+          <p className="text-sm text-text-primary font-medium">
+            Save these backup codes somewhere safe. Each can be used once if you lose access to your authenticator app. They will not be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 font-mono text-sm text-text-primary">
+            {backupCodes.map((backupCode) => (
+              <span key={backupCode}>{backupCode}</span>
+            ))}
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={handleCopyCodes}>
+              {copied ? <Check className="w-4 h-4 mr-1" /> : <Copy className="w-4 h-4 mr-1" />}
+              {copied ? 'Copied' : 'Copy'}
+            </Button>
+            <Button variant="primary" size="sm" onClick={() => setBackupCodes(null)}>
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  webhookService,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from '@/lib/webhookService';
+import { ApiError } from '@/lib/api';
+import Button from '@/components/ui/Button';
+import Badge from '@/components/ui/Badge';
+
+/**
+ * WebhookDeliveryLog
+ *
+ * Recent deliveries of one webhook with response status and a
+ * redeliver action. Pending rows are retried automatically by the backend.
+ */
+
+interface WebhookDeliveryLogProps {
+  deviceId: string;
+  webhookId: number;
+  refreshKey?: number;
+}
+
+const STATUS_VARIANTS: Record<WebhookDeliveryStatus, 'success' | 'warning' | 'danger'> = {
+  success: 'success',
+  pending: 'warning',
+  failed: 'danger',
+};
+
+export default function WebhookDeliveryLog({ deviceId, webhookId, refreshKey }: WebhookDeliveryLogProps) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [maxAttempts, setMaxAttempts] = useState(0);
+  const [statusFilter, setStatusFilter] = useState<WebhookDeliveryStatus | ''>('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [redeliveringId, setRedeliveringId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDeliveries = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await webhookService.getDeliveries(deviceId, webhookId, statusFilter || undefined);
+      setDeliveries(result.deliveries);
+      setMaxAttempts(result.maxAttempts);
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to load deliveries');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [deviceId, webhookId, statusFilter]);
+
+  useEffect(() => {
+    loadDeliveries();
+  }, [loadDeliveries, refreshKey]);
+
+  const handleRedeliver = async (deliveryId: string) => {
+    setRedeliveringId(deliveryId);
+    setError(null);
+    try {
+      const updated = await webhookService.redeliver(deviceId, webhookId, deliveryId);
+      setDeliveries((current) => current.map((d) => (d.id === updated.id ? updated : d)));
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to redeliver');
+    } finally {
+      setRedeliveringId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold text-text-primary">Recent Deliveries</h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as WebhookDeliveryStatus | '')}
+            className="px-3 py-1.5 text-sm bg-elevated border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            <option value="">All</option>
+            <option value="success">Success</option>
+            <option value="pending">Retrying</option>
+            <option value="failed">Failed</option>
+          </select>
+          <Button variant="ghost" size="sm" onClick={loadDeliveries} disabled={isLoading}>
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-danger-soft border border-danger rounded-lg p-3">
+          <p className="text-sm text-danger">{error}</p>
+        </div>
+      )}
+
+      {isLoading && deliveries.length === 0 ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        </div>
+      ) : deliveries.length === 0 ? (
+        <p className="text-sm text-text-muted py-4 text-center">No deliveries yet</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-divider text-left text-text-muted">
+                <th className="py-2 pr-3 font-medium">Time</th>
+                <th className="py-2 pr-3 font-medium">Event</th>
+                <th className="py-2 pr-3 font-medium">Status</th>
+                <th className="py-2 pr-3 font-medium">Response</th>
+                <th className="py-2 pr-3 font-medium">Attempts</th>
+                <th className="py-2 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {deliveries.map((delivery) => (
+                <React.Fragment key={delivery.id}>
+                  <tr
+                    className="border-b border-divider hover:bg-elevated cursor-pointer"
+                    onClick={() => setExpandedId(expandedId === delivery.id ? null : delivery.id)}
+                  >
+                    <td className="py-2 pr-3 text-text-secondary whitespace-nowrap">
+                      {new Date(delivery.createdAt).toLocaleString()}
+                    </td>
+                    <td className="py-2 pr-3 font-mono text-text-primary">{delivery.event}</td>
+                    <td className="py-2 pr-3">
+                      <Badge variant={STATUS_VARIANTS[delivery.status]}>
+                        {delivery.status === 'pending' ? 'retrying' : delivery.status}
+                      </Badge>
+                    </td>
+                    <td className="py-2 pr-3 text-text-secondary">
+                      {delivery.responseStatus ?? delivery.error ?? '-'}
+                      {delivery.durationMs !== null && (
+                        <span className="text-text-muted"> · {delivery.durationMs}ms</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-3 text-text-secondary">
+                      {delivery.attempts}/{maxAttempts}
+                    </td>
+                    <td className="py-2 text-right" onClick={(e) => e.stopPropagation()}>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRedeliver(delivery.id)}
+                        disabled={redeliveringId !== null}
+                      >
+                        {redeliveringId === delivery.id ? 'Sending...' : 'Redeliver'}
+                      </Button>
+                    </td>
+                  </tr>
+                  {expandedId === delivery.id && (
+                    <tr className="border-b border-divider bg-elevated">
+                      <td colSpan={6} className="p-3 space-y-2">
+                        {delivery.nextAttemptAt && delivery.status === 'pending' && (
+                          <p className="text-xs text-text-muted">
+                            Next attempt: {new Date(delivery.nextAttemptAt).toLocaleString()}
+                          </p>
+                        )}
+                        <p className="text-xs font-medium text-text-muted">Payload</p>
+                        <pre className="text-xs font-mono bg-card border border-divider rounded p-2 overflow-x-auto">
+                          {JSON.stringify(delivery.payload, null, 2)}
+                        </pre>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Webhook, WebhookEvent, WebhookRequest } from '@/lib/webhookService';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+
+/**
+ * WebhookForm
+ *
+ * Create / edit form for a device webhook: endpoint URL, description
+ * and the events it subscribes to.
+ */
+
+export const EVENT_DESCRIPTIONS: Record<WebhookEvent, string> = {
+  'message.received': 'Incoming message from a contact or group',
+  'message.status': 'Delivery / read receipt for a sent message',
+  'job.progress': 'Bulk job progress (every 10 messages)',
+  'job.completed': 'Bulk job finished',
+  'device.connected': 'Device connected to WhatsApp',
+  'device.disconnected': 'Device disconnected or logged out',
+  'handoff.started': 'Bot handed a conversation to a human',
+  'flow.completed': 'Bot flow finished with the webhook action, with the collected answers',
+};
+
+interface WebhookFormProps {
+  events: WebhookEvent[];
+  webhook?: Webhook | null;
+  isSaving: boolean;
+  onSubmit: (data: WebhookRequest) => void;
+  onCancel: () => void;
+}
+
+export default function WebhookForm({
+  events,
+  webhook,
+  isSaving,
+  onSubmit,
+  onCancel,
+}: WebhookFormProps) {
+  const [url, setUrl] = useState(webhook?.url || '');
+  const [description, setDescription] = useState(webhook?.description || '');
+  const [selectedEvents, setSelectedEvents] = useState<WebhookEvent[]>(
+    webhook?.events || ['message.received']
+  );
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setSelectedEvents((current) =>
+      current.includes(event) ? current.filter((e) => e !== event) : [...current, event]
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({
+      url: url.trim(),
+      description: description.trim() || null,
+      events: selectedEvents,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <Input
+        type="text"
+        name="webhook-url"
+        label="Endpoint URL"
+        placeholder="https://example.com/hooks/whatsapp"
+        value={url}
+        onChange={(e) => setUrl(e.target.value)}
+        disabled={isSaving}
+        required
+      />
+      <Input
+        type="text"
+        name="webhook-description"
+        label="Description (optional)"
+        placeholder="CRM sync"
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        disabled={isSaving}
+      />
+
+      <div>
+        <p className="text-sm font-medium text-text-primary mb-2">Events</p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {events.map((event) => (
+            <label
+              key={event}
+              className="flex items-start gap-3 p-3 rounded-lg border border-divider hover:bg-elevated cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={selectedEvents.includes(event)}
+                onChange={() => toggleEvent(event)}
+                disabled={isSaving}
+                className="mt-0.5 w-4 h-4 rounded border-border text-primary focus:ring-2 focus:ring-primary"
+              />
+              <span>
+                <span className="block font-mono text-sm text-text-primary">{event}</span>
+                <span className="block text-xs text-text-muted">{EVENT_DESCRIPTIONS[event]}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          variant="primary"
+          disabled={isSaving || !url.trim() || selectedEvents.length === 0}
+        >
+          {isSaving ? 'Saving...' : webhook ? 'Save Changes' : 'Create Webhook'}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -2,6 +2,7 @@ import { useEffect } from 'react';
 import { useAppDispatch } from '@/hooks/useAppDispatch';
 import { useToast } from '@/context/ToastContext';
 import { fetchStats, fetchHandoffs, fetchRules } from '@/store/slices/botSlice';
+import { getFreshAuthToken } from '@/lib/api';
 
 export const useBotEvents = () => {
   const dispatch = useAppDispatch();
@@ -13,8 +14,12 @@ export const useBotEvents = () => {
     let retryCount = 0;
     const MAX_RETRIES = 5;
 
-    const connect = () => {
-      const token = localStorage.getItem('token');
+    let isActive = true;
+
+    const connect = async () => {
+      // Refresh an expired access token before (re)connecting
+      const token = await getFreshAuthToken();
+      if (!isActive) return;
       if (!token) {
         // No token, likely logged out.
         const statusEvent = new CustomEvent('bot-sse-status', { detail: 'disconnected' });
@@ -105,6 +110,7 @@ export const useBotEvents = () => {
     window.addEventListener('retry-bot-sse', handleManualRetry);
 
     return () => {
+      isActive = false;
       if (eventSource) eventSource.close();
       if (retryTimeout) clearTimeout(retryTimeout);
       window.removeEventListener('retry-bot-sse', handleManualRetry);
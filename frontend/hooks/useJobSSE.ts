@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect, useRef, useCallback } from 'react';
+import { getFreshAuthToken } from '@/lib/api';
 
 /**
  * Job progress data structure from SSE events
@@ -73,6 +74,8 @@ export function useJobSSE(options: UseJobSSEOptions = {}): UseJobSSEReturn {
   
   const eventSourceRef = useRef<EventSource | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Bumped by every connect/disconnect so a stale connect attempt can tell it was cancelled
+  const connectAttemptRef = useRef(0);
   const onJobProgressRef = useRef(onJobProgress);
   const onConnectionChangeRef = useRef(onConnectionChange);
 
@@ -85,10 +88,14 @@ export function useJobSSE(options: UseJobSSEOptions = {}): UseJobSSEReturn {
     onConnectionChangeRef.current = onConnectionChange;
   }, [onConnectionChange]);
 
-  const connect = useCallback(() => {
+  const connect = useCallback(async () => {
     if (!enabled) return;
+    const attempt = ++connectAttemptRef.current;
     
-    const token = typeof window !== 'undefined' ? localStorage.getItem('token') : null;
+    // Refresh an expired access token before (re)connecting
+    const token = typeof window !== 'undefined' ? await getFreshAuthToken() : null;
+    // Unmounted, disabled or reconnected while the token was refreshing
+    if (attempt !== connectAttemptRef.current) return;
     if (!token) {
       console.warn('[useJobSSE] No token available, skipping SSE connection');
       return;
@@ -149,6 +156,7 @@ export function useJobSSE(options: UseJobSSEOptions = {}): UseJobSSEReturn {
   }, [enabled]);
 
   const disconnect = useCallback(() => {
+    connectAttemptRef.current++;
     if (eventSourceRef.current) {
       eventSourceRef.current.close();
       eventSourceRef.current = null;
@@ -1,4 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
+import { getFreshAuthToken } from '@/lib/api';
 
 interface SSEOptions {
   onMessage?: (event: MessageEvent) => void;
@@ -15,13 +16,15 @@ export function useSSE(url: string, options: SSEOptions = {}) {
   useEffect(() => {
     let isMounted = true;
 
-    const connect = () => {
+    const connect = async () => {
       // Prevent multiple connections
       if (eventSourceRef.current) {
         eventSourceRef.current.close();
       }
 
-      const token = typeof window !== 'undefined' ? localStorage.getItem('token') : null;
+      // Refresh an expired access token before (re)connecting
+      const token = typeof window !== 'undefined' ? await getFreshAuthToken() : null;
+      if (!isMounted) return;
       if (!token) {
          setStatus('disconnected');
          return; // No token, cannot connect
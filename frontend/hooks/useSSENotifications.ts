@@ -11,6 +11,7 @@ import {
   NotificationType,
   Notification,
 } from '@/store/slices/notificationSlice';
+import { getFreshAuthToken } from '@/lib/api';
 
 const STORAGE_KEY = 'ws_notifications';
 const RECONNECT_DELAY = 5000;
@@ -29,6 +30,9 @@ function mapEventType(type: string): NotificationType {
     'scheduled-sent': 'scheduled_sent',
     'scheduled-failed': 'scheduled_failed',
     'session-expired': 'session_expired',
+    'handoff-assigned': 'handoff_assigned',
+    'missed-call': 'missed_call',
+    'workspace-invitation': 'workspace_invitation',
     'error': 'error',
   };
   return mapping[type] || 'info';
@@ -45,6 +49,9 @@ function getNotificationTitle(type: NotificationType): string {
     scheduled_sent: 'Scheduled Message Sent',
     scheduled_failed: 'Scheduled Message Failed',
     session_expired: 'Session Expired',
+    handoff_assigned: 'Conversation Assigned',
+    missed_call: 'Missed Call',
+    workspace_invitation: 'Workspace Invitation',
     info: 'Information',
     warning: 'Warning',
     error: 'Error',
@@ -60,6 +67,8 @@ export function useSSENotifications() {
   const eventSourceRef = useRef<EventSource | null>(null);
   const reconnectAttempts = useRef(0);
   const reconnectTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Bumped by every connect/disconnect so a stale connect attempt can tell it was cancelled
+  const connectAttempt = useRef(0);
 
   // Load notifications from localStorage on mount
   useEffect(() => {
@@ -117,7 +126,8 @@ export function useSSENotifications() {
       }
 
       // Skip whatsapp-status updates (these are polling, not notifications)
-      if (data.type === 'whatsapp-status') {
+      // and message receipts and read chats (shown in chat history)
+      if (data.type === 'whatsapp-status' || data.type === 'message-status' || data.type === 'chat-read') {
         return;
       }
 
@@ -141,9 +151,13 @@ export function useSSENotifications() {
   }, [dispatch]);
 
   // Connect to SSE
-  const connect = useCallback(() => {
-    // Get token from localStorage
-    const token = typeof window !== 'undefined' ? localStorage.getItem('token') : null;
+  const connect = useCallback(async () => {
+    const attempt = ++connectAttempt.current;
+
+    // Refresh an expired access token before (re)connecting
+    const token = typeof window !== 'undefined' ? await getFreshAuthToken() : null;
+    // Unmounted, logged out or reconnected while the token was refreshing
+    if (attempt !== connectAttempt.current) return;
     
     if (!isAuthenticated || !token) {
       return;
@@ -192,6 +206,7 @@ export function useSSENotifications() {
 
   // Disconnect from SSE
   const disconnect = useCallback(() => {
+    connectAttempt.current++;
     if (reconnectTimeout.current) {
       clearTimeout(reconnectTimeout.current);
     }
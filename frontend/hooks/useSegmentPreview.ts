@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react';
+import { previewSegment, SegmentPreview, SegmentRules } from '@/lib/userService';
+import { ApiError } from '@/lib/api';
+
+const PREVIEW_DEBOUNCE_MS = 400;
+
+/**
+ * useSegmentPreview Hook
+ *
+ * Live recipient count for segment rules, refreshed (debounced) whenever the
+ * rules or the message change. Pass null rules to skip counting.
+ *
+ * @example
+ * const { preview, isLoading } = useSegmentPreview(segment?.rules ?? null, message);
+ */
+export function useSegmentPreview(rules: SegmentRules | null, message = '') {
+  const [preview, setPreview] = useState<SegmentPreview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Compare by value so callers can pass freshly built objects
+  const rulesKey = rules ? JSON.stringify(rules) : null;
+
+  useEffect(() => {
+    if (!rulesKey) {
+      setPreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const result = await previewSegment(JSON.parse(rulesKey), message);
+        if (!cancelled) {
+          setPreview(result);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) setError((err as ApiError).message || 'Failed to count recipients');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [rulesKey, message]);
+
+  return { preview, isLoading, error };
+}
@@ -5,6 +5,7 @@
  */
 
 import { get, post, put, del, ApiError } from "./api";
+import type { LoginSession } from "./authService";
 
 export interface GlobalStats {
   users: {
@@ -49,7 +50,11 @@ export interface User {
   fullName?: string;
   role: "admin" | "user";
   isActive: boolean;
+  twoFactorEnabled?: boolean;
   lastLogin?: string;
+  /** Set when the user deleted their account; restorable until purgeAfter */
+  deletedAt?: string | null;
+  purgeAfter?: string | null;
   createdAt: string;
   updatedAt: string;
   stats?: {
@@ -264,6 +269,8 @@ export interface Job {
     total: number;
     completed: number;
     failed: number;
+    delivered?: number; // from delivery receipts
+    read?: number; // from read receipts
   };
   result?: any;
   error?: string;
@@ -675,6 +682,97 @@ export async function updateUser(
   }
 }
 
+/**
+ * Reset a user's two-factor authentication
+ */
+export async function resetUserTwoFactor(userId: number): Promise<UserDetailsResponse> {
+  try {
+    const response = await post<UserDetailsResponse>(`/admin/users/${userId}/2fa/reset`);
+
+    if (!response.success || !response.data) {
+      throw {
+        message: response.message || "Failed to reset two-factor authentication",
+      } as ApiError;
+    }
+
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Restore an account that is pending self-service deletion
+ */
+export async function restoreUser(userId: number): Promise<UserDetailsResponse> {
+  try {
+    const response = await post<UserDetailsResponse>(`/admin/users/${userId}/restore`);
+
+    if (!response.success || !response.data) {
+      throw {
+        message: response.message || "Failed to restore user",
+      } as ApiError;
+    }
+
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Get a user's login sessions (including revoked/expired history)
+ */
+export async function getUserSessions(userId: number): Promise<LoginSession[]> {
+  try {
+    const response = await get<{ sessions: LoginSession[] }>(`/admin/users/${userId}/sessions`);
+
+    if (!response.success || !response.data) {
+      throw {
+        message: response.message || "Failed to fetch user sessions",
+      } as ApiError;
+    }
+
+    return response.data.sessions;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Revoke one of a user's sessions
+ */
+export async function revokeUserSession(userId: number, sessionId: string): Promise<void> {
+  try {
+    const response = await del(`/admin/users/${userId}/sessions/${sessionId}`);
+
+    if (!response.success) {
+      throw {
+        message: response.message || "Failed to revoke session",
+      } as ApiError;
+    }
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Sign a user out of every session
+ */
+export async function revokeAllUserSessions(userId: number): Promise<void> {
+  try {
+    const response = await post(`/admin/users/${userId}/sessions/revoke-all`);
+
+    if (!response.success) {
+      throw {
+        message: response.message || "Failed to revoke sessions",
+      } as ApiError;
+    }
+  } catch (error) {
+    throw error;
+  }
+}
+
 /**
  * Delete user
  */
@@ -31,9 +31,7 @@ function getAuthToken(): string | null {
 
 /**
  * Get refresh token from localStorage
- * @internal - Currently not used but kept for future token refresh functionality
  */
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
 function getRefreshToken(): string | null {
   if (typeof window === "undefined") return null;
   return localStorage.getItem("refreshToken");
@@ -64,6 +62,118 @@ export function clearAuthTokens(): void {
   localStorage.removeItem("refreshToken");
 }
 
+/**
+ * Endpoints that must never trigger a refresh-and-retry cycle
+ */
+const NO_REFRESH_ENDPOINTS = ["/auth/login", "/auth/register", "/auth/refresh-token"];
+
+/**
+ * Seconds before expiry at which an access token is considered stale
+ */
+const TOKEN_EXPIRY_LEEWAY_SECONDS = 30;
+
+// Shared in-flight refresh so concurrent 401s only hit the backend once
+let refreshPromise: Promise<string> | null = null;
+
+/**
+ * Read the `exp` claim from a JWT without verifying it
+ */
+function getTokenExpiry(token: string): number | null {
+  try {
+    const payload = token.split(".")[1];
+    if (!payload) return null;
+    const json = atob(payload.replace(/-/g, "+").replace(/_/g, "/"));
+    const { exp } = JSON.parse(json) as { exp?: number };
+    return typeof exp === "number" ? exp : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Exchange the stored refresh token for a new access token.
+ *
+ * Concurrent callers share the same request. When the refresh itself is
+ * rejected the stored tokens are cleared and the error is re-thrown.
+ */
+export function refreshAccessToken(): Promise<string> {
+  if (refreshPromise) return refreshPromise;
+
+  refreshPromise = (async () => {
+    const refreshToken = getRefreshToken();
+    if (!refreshToken) {
+      clearAuthTokens();
+      throw {
+        message: "Session expired. Please log in again.",
+        status: 401,
+      } as ApiError;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${API_BASE_URL}/auth/refresh-token`, {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refreshToken }),
+      });
+    } catch {
+      // Network failure: keep tokens so the next request can try again
+      throw {
+        message: "Network error. Please check your connection.",
+        status: 0,
+      } as ApiError;
+    }
+
+    if (!response.ok) {
+      const error = await parseErrorResponse(response);
+      clearAuthTokens();
+      throw { ...error, status: 401 } as ApiError;
+    }
+
+    const data = await response.json();
+    const token: string | undefined = data.data?.token || data.token;
+    if (!token) {
+      clearAuthTokens();
+      throw {
+        message: "Token refresh failed",
+        status: 401,
+      } as ApiError;
+    }
+
+    setAuthToken(token);
+    return token;
+  })().finally(() => {
+    refreshPromise = null;
+  });
+
+  return refreshPromise;
+}
+
+/**
+ * Get an access token that is not about to expire, refreshing it first if
+ * needed. Used by long-lived connections (SSE) that cannot replay on 401.
+ * Returns null when the user is not (or no longer) authenticated.
+ */
+export async function getFreshAuthToken(): Promise<string | null> {
+  const token = getAuthToken();
+  if (!token) return null;
+
+  const exp = getTokenExpiry(token);
+  const now = Math.floor(Date.now() / 1000);
+  if (exp === null || exp - TOKEN_EXPIRY_LEEWAY_SECONDS > now) {
+    return token;
+  }
+
+  try {
+    return await refreshAccessToken();
+  } catch (error) {
+    // Transient network error: fall back to the current token
+    if ((error as ApiError).status === 0) return token;
+    return null;
+  }
+}
+
 /**
  * Build headers for API request
  */
@@ -106,10 +216,13 @@ async function parseErrorResponse(response: Response): Promise<ApiError> {
 
 /**
  * Make API request
+ *
+ * On a 401 the access token is refreshed once and the request replayed.
  */
 async function request<T>(
   endpoint: string,
-  options: RequestInit = {}
+  options: RequestInit = {},
+  isRetry = false
 ): Promise<ApiResponse<T>> {
   const url = `${API_BASE_URL}${endpoint}`;
 
@@ -122,6 +235,16 @@ async function request<T>(
   try {
     const response = await fetch(url, config);
 
+    if (
+      response.status === 401 &&
+      !isRetry &&
+      getRefreshToken() &&
+      !NO_REFRESH_ENDPOINTS.some((path) => endpoint.startsWith(path))
+    ) {
+      await refreshAccessToken();
+      return request<T>(endpoint, options, true);
+    }
+
     // Handle non-JSON responses
     const contentType = response.headers.get("content-type");
     if (!contentType || !contentType.includes("application/json")) {
@@ -161,6 +284,36 @@ async function request<T>(
   }
 }
 
+/**
+ * GET a file (e.g. stored chat media) as a Blob, with the same
+ * authentication and token refresh as the JSON requests
+ */
+export async function getBlob(endpoint: string, isRetry = false): Promise<Blob> {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE_URL}${endpoint}`, {
+      credentials: 'include',
+      headers: buildHeaders(),
+    });
+  } catch {
+    throw {
+      message: "Network error. Please check your connection.",
+      status: 0,
+    } as ApiError;
+  }
+
+  if (response.status === 401 && !isRetry && getRefreshToken()) {
+    await refreshAccessToken();
+    return getBlob(endpoint, true);
+  }
+
+  if (!response.ok) {
+    throw await parseErrorResponse(response);
+  }
+
+  return response.blob();
+}
+
 /**
  * GET request
  */
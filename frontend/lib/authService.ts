@@ -4,7 +4,16 @@
  * Service layer for authentication-related API calls.
  */
 
-import { post, ApiError, setAuthToken, setRefreshToken } from './api';
+import {
+  get,
+  post,
+  put,
+  del,
+  ApiError,
+  setAuthToken,
+  setRefreshToken,
+  refreshAccessToken,
+} from './api';
 
 export interface LoginRequest {
   email: string;
@@ -21,9 +30,157 @@ export interface LoginResponse {
     fullName?: string;
     role: 'admin' | 'user';
     isActive: boolean;
+    twoFactorEnabled?: boolean;
   };
 }
 
+/**
+ * Returned by /auth/login instead of tokens when the account has 2FA enabled
+ */
+export interface TwoFactorChallengeResponse {
+  requiresTwoFactor: true;
+  challengeToken: string;
+}
+
+export interface VerifyTwoFactorLoginRequest {
+  challengeToken: string;
+  code: string;
+}
+
+export interface TwoFactorSetupResponse {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // data URL
+}
+
+export interface TwoFactorBackupCodesResponse {
+  backupCodes: string[];
+}
+
+export interface LoginSession {
+  id: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  isActive: boolean;
+  isCurrent?: boolean;
+}
+
+/**
+ * Notification types users can route to channels.
+ * Checked against notificationTypes in sharedConstants.json
+ */
+export type NotificationPreferenceType =
+  | 'device_connected'
+  | 'device_disconnected'
+  | 'qr_required'
+  | 'message_failed'
+  | 'scheduled_sent'
+  | 'scheduled_failed'
+  | 'session_expired'
+  | 'handoff_assigned'
+  | 'missed_call'
+  | 'workspace_invitation';
+
+export interface NotificationChannels {
+  inApp: boolean;
+  email: boolean;
+  webhook: boolean;
+}
+
+export interface NotificationPreferences {
+  channels: Record<NotificationPreferenceType, NotificationChannels>;
+  email: string | null;
+  webhookUrl: string | null;
+  hasWebhookSecret: boolean;
+  /** False when the server has no SMTP transport (emails are only logged) */
+  emailConfigured: boolean;
+}
+
+export interface UpdateNotificationPreferencesRequest {
+  channels?: Partial<Record<NotificationPreferenceType, Partial<NotificationChannels>>>;
+  email?: string | null;
+  webhookUrl?: string | null;
+  /** Omit to keep the current secret; empty string removes it */
+  webhookSecret?: string | null;
+}
+
+/**
+ * Scopes a personal API key can carry.
+ * Checked against apiKeyScopes in sharedConstants.json
+ */
+export type ApiKeyScope = 'send' | 'read-history' | 'manage-contacts';
+
+export interface ApiKey {
+  id: number;
+  name: string;
+  /** First characters of the key, for recognising it */
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  /** null = all of the user's devices */
+  deviceIds: string[] | null;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  isActive: boolean;
+}
+
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  deviceIds?: string[] | null;
+  expiresAt?: string | null;
+}
+
+/**
+ * A user who works on the current user's devices as an agent
+ */
+export interface WorkspaceMember {
+  id: number;
+  username: string;
+  fullName: string | null;
+  email: string;
+  role: 'member';
+  addedAt: string;
+}
+
+/**
+ * Pending invitation to the current user's workspace; only the email it
+ * was sent to is known until it is accepted
+ */
+export interface WorkspaceInvitation {
+  id: number;
+  email: string;
+  invitedAt: string;
+}
+
+/**
+ * Invitation the current user received to join another user's workspace
+ */
+export interface ReceivedWorkspaceInvitation {
+  id: number;
+  owner: { username: string; fullName: string | null };
+  invitedAt: string;
+}
+
+/**
+ * Personal data archive returned by the account export
+ */
+export interface AccountArchive {
+  exportedAt: string;
+  profile: LoginResponse['user'] | null;
+  devices: Record<string, unknown>[];
+  contacts: Record<string, unknown>[];
+  templates: Record<string, unknown>[];
+  scheduledMessages: Record<string, unknown>[];
+  messages: Record<string, unknown>[];
+}
+
 export interface RegisterRequest {
   username: string;
   email: string;
@@ -45,10 +202,18 @@ export interface RegisterResponse {
 
 /**
  * Login user
+ *
+ * Resolves with a challenge instead of tokens when 2FA is enabled;
+ * complete it with verifyTwoFactorLogin().
  */
-export async function login(credentials: LoginRequest): Promise<LoginResponse> {
+export async function login(
+  credentials: LoginRequest
+): Promise<LoginResponse | TwoFactorChallengeResponse> {
   try {
-    const response = await post<LoginResponse>('/auth/login', credentials);
+    const response = await post<LoginResponse | TwoFactorChallengeResponse>(
+      '/auth/login',
+      credentials
+    );
 
     if (!response.success || !response.data) {
       throw {
@@ -56,6 +221,10 @@ export async function login(credentials: LoginRequest): Promise<LoginResponse> {
       } as ApiError;
     }
 
+    if ('requiresTwoFactor' in response.data) {
+      return response.data;
+    }
+
     // Store tokens
     setAuthToken(response.data.token);
     setRefreshToken(response.data.refreshToken);
@@ -74,6 +243,385 @@ export async function login(credentials: LoginRequest): Promise<LoginResponse> {
   }
 }
 
+/**
+ * Complete a 2FA login with a TOTP or backup code
+ */
+export async function verifyTwoFactorLogin(
+  data: VerifyTwoFactorLoginRequest
+): Promise<LoginResponse> {
+  const response = await post<LoginResponse>('/auth/2fa/verify', data);
+
+  if (!response.success || !response.data) {
+    throw {
+      message: response.message || 'Verification failed',
+    } as ApiError;
+  }
+
+  setAuthToken(response.data.token);
+  setRefreshToken(response.data.refreshToken);
+
+  return response.data;
+}
+
+/**
+ * Start 2FA enrollment (returns secret + QR code)
+ */
+export async function setupTwoFactor(): Promise<TwoFactorSetupResponse> {
+  const response = await post<TwoFactorSetupResponse>('/auth/2fa/setup');
+
+  if (!response.success || !response.data) {
+    throw {
+      message: response.message || 'Failed to start two-factor setup',
+    } as ApiError;
+  }
+
+  return response.data;
+}
+
+/**
+ * Confirm 2FA enrollment; resolves with one-time backup codes
+ */
+export async function enableTwoFactor(
+  code: string
+): Promise<TwoFactorBackupCodesResponse> {
+  const response = await post<TwoFactorBackupCodesResponse>('/auth/2fa/enable', {
+    code,
+  });
+
+  if (!response.success || !response.data) {
+    throw {
+      message: response.message || 'Failed to enable two-factor authentication',
+    } as ApiError;
+  }
+
+  return response.data;
+}
+
+/**
+ * Disable 2FA
+ */
+export async function disableTwoFactor(password: string, code: string): Promise<void> {
+  const response = await post('/auth/2fa/disable', { password, code });
+
+  if (!response.success) {
+    throw {
+      message: response.message || 'Failed to disable two-factor authentication',
+    } as ApiError;
+  }
+}
+
+/**
+ * Replace all backup codes
+ */
+export async function regenerateBackupCodes(
+  code: string
+): Promise<TwoFactorBackupCodesResponse> {
+  const response = await post<TwoFactorBackupCodesResponse>(
+    '/auth/2fa/backup-codes',
+    { code }
+  );
+
+  if (!response.success || !response.data) {
+    throw {
+      message: response.message || 'Failed to regenerate backup codes',
+    } as ApiError;
+  }
+
+  return response.data;
+}
+
+/**
+ * Log out on the server (revokes the current session).
+ * Never throws: local logout must proceed even if the API is unreachable.
+ */
+export async function logout(): Promise<void> {
+  try {
+    await post('/auth/logout');
+  } catch (error) {
+    console.warn('Server logout failed:', error);
+  }
+}
+
+/**
+ * List the current user's sessions
+ * @param includeHistory - Include revoked/expired sessions
+ */
+export async function getSessions(includeHistory = false): Promise<LoginSession[]> {
+  const response = await get<{ sessions: LoginSession[] }>(
+    `/auth/sessions${includeHistory ? '?history=true' : ''}`
+  );
+
+  if (!response.success || !response.data) {
+    throw {
+      message: response.message || 'Failed to load sessions',
+    } as ApiError;
+  }
+
+  return response.data.sessions;
+}
+
+/**
+ * Revoke one session
+ */
+export async function revokeSession(sessionId: string): Promise<void> {
+  const response = await del(`/auth/sessions/${sessionId}`);
+
+  if (!response.success) {
+    throw {
+      message: response.message || 'Failed to revoke session',
+    } as ApiError;
+  }
+}
+
+/**
+ * Sign out everywhere (revokes every session, including this one)
+ */
+export async function revokeAllSessions(): Promise<void> {
+  const response = await post('/auth/sessions/revoke-all');
+
+  if (!response.success) {
+    throw {
+      message: response.message || 'Failed to sign out of all sessions',
+    } as ApiError;
+  }
+}
+
+/**
+ * List the current user's API keys (including revoked ones)
+ */
+export async function getApiKeys(): Promise<ApiKey[]> {
+  const response = await get<{ apiKeys: ApiKey[] }>('/auth/api-keys');
+
+  if (!response.success || !response.data) {
+    throw {
+      message: response.message || 'Failed to load API keys',
+    } as ApiError;
+  }
+
+  return response.data.apiKeys;
+}
+
+/**
+ * Create an API key. The returned `key` is only available in this response.
+ */
+export async function createApiKey(
+  data: CreateApiKeyRequest
+): Promise<{ apiKey: ApiKey; key: string }> {
+  const response = await post<{ apiKey: ApiKey; key: string }>('/auth/api-keys', data);
+
+  if (!response.success || !response.data) {
+    throw {
+      message: response.message || 'Failed to create API key',
+    } as ApiError;
+  }
+
+  return response.data;
+}
+
+/**
+ * Revoke an API key; requests using it fail immediately
+ */
+export async function revokeApiKey(keyId: number): Promise<void> {
+  const response = await del(`/auth/api-keys/${keyId}`);
+
+  if (!response.success) {
+    throw {
+      message: response.message || 'Failed to revoke API key',
+    } as ApiError;
+  }
+}
+
+/**
+ * List the members and pending invitations of the current user's workspace
+ */
+export async function getWorkspaceMembers(): Promise<{
+  members: WorkspaceMember[];
+  invitations: WorkspaceInvitation[];
+  maxMembers: number;
+}> {
+  const response = await get<{
+    members: WorkspaceMember[];
+    invitations: WorkspaceInvitation[];
+    maxMembers: number;
+  }>('/auth/workspace/members');
+
+  if (!response.success || !response.data) {
+    throw {
+      message: response.message || 'Failed to load workspace members',
+    } as ApiError;
+  }
+
+  return response.data;
+}
+
+/**
+ * Invite a user to the workspace by their account email; they join once they accept
+ */
+export async function inviteWorkspaceMember(email: string): Promise<WorkspaceInvitation> {
+  const response = await post<{ invitation: WorkspaceInvitation }>('/auth/workspace/members', { email });
+
+  if (!response.success || !response.data) {
+    throw {
+      message: response.message || 'Failed to invite member',
+    } as ApiError;
+  }
+
+  return response.data.invitation;
+}
+
+/**
+ * Withdraw a pending invitation to the workspace
+ */
+export async function cancelWorkspaceInvitation(invitationId: number): Promise<void> {
+  const response = await del(`/auth/workspace/members/invitations/${invitationId}`);
+
+  if (!response.success) {
+    throw {
+      message: response.message || 'Failed to cancel invitation',
+    } as ApiError;
+  }
+}
+
+/**
+ * List the invitations the current user received to join other workspaces
+ */
+export async function getReceivedWorkspaceInvitations(): Promise<ReceivedWorkspaceInvitation[]> {
+  const response = await get<{ invitations: ReceivedWorkspaceInvitation[] }>('/auth/workspace/invitations');
+
+  if (!response.success || !response.data) {
+    throw {
+      message: response.message || 'Failed to load invitations',
+    } as ApiError;
+  }
+
+  return response.data.invitations;
+}
+
+/**
+ * Accept an invitation and join the inviting user's workspace
+ */
+export async function acceptWorkspaceInvitation(invitationId: number): Promise<void> {
+  const response = await post(`/auth/workspace/invitations/${invitationId}/accept`);
+
+  if (!response.success) {
+    throw {
+      message: response.message || 'Failed to accept invitation',
+    } as ApiError;
+  }
+}
+
+/**
+ * Decline an invitation to another user's workspace
+ */
+export async function declineWorkspaceInvitation(invitationId: number): Promise<void> {
+  const response = await del(`/auth/workspace/invitations/${invitationId}`);
+
+  if (!response.success) {
+    throw {
+      message: response.message || 'Failed to decline invitation',
+    } as ApiError;
+  }
+}
+
+/**
+ * Remove a member; handoffs assigned to them become unassigned
+ */
+export async function removeWorkspaceMember(memberId: number): Promise<void> {
+  const response = await del(`/auth/workspace/members/${memberId}`);
+
+  if (!response.success) {
+    throw {
+      message: response.message || 'Failed to remove member',
+    } as ApiError;
+  }
+}
+
+/**
+ * Get notification channels per type and delivery targets
+ */
+export async function getNotificationPreferences(): Promise<NotificationPreferences> {
+  const response = await get<{ preferences: NotificationPreferences }>('/auth/notifications');
+
+  if (!response.success || !response.data) {
+    throw {
+      message: response.message || 'Failed to load notification preferences',
+    } as ApiError;
+  }
+
+  return response.data.preferences;
+}
+
+/**
+ * Save notification preferences
+ */
+export async function updateNotificationPreferences(
+  updates: UpdateNotificationPreferencesRequest
+): Promise<NotificationPreferences> {
+  const response = await put<{ preferences: NotificationPreferences }>(
+    '/auth/notifications',
+    updates
+  );
+
+  if (!response.success || !response.data) {
+    throw {
+      message: response.message || 'Failed to save notification preferences',
+    } as ApiError;
+  }
+
+  return response.data.preferences;
+}
+
+/**
+ * Send a sample notification to the saved email address or webhook
+ */
+export async function sendTestNotification(channel: 'email' | 'webhook'): Promise<void> {
+  const response = await post('/auth/notifications/test', { channel });
+
+  if (!response.success) {
+    throw {
+      message: response.message || 'Failed to send test notification',
+    } as ApiError;
+  }
+}
+
+/**
+ * Download everything stored for the current account
+ */
+export async function exportAccountData(): Promise<AccountArchive> {
+  const response = await get<AccountArchive>('/auth/account/export');
+
+  if (!response.success || !response.data) {
+    throw {
+      message: response.message || 'Failed to export account data',
+    } as ApiError;
+  }
+
+  return response.data;
+}
+
+/**
+ * Delete the current account. It is deactivated immediately and purged
+ * after a grace period, during which an admin can still restore it.
+ * @param code - Required when two-factor authentication is enabled
+ */
+export async function deleteAccount(
+  password: string,
+  code?: string
+): Promise<{ purgeAfter: string }> {
+  const response = await post<{ purgeAfter: string }>('/auth/account/delete', {
+    password,
+    code,
+  });
+
+  if (!response.success || !response.data) {
+    throw {
+      message: response.message || 'Failed to delete account',
+    } as ApiError;
+  }
+
+  return response.data;
+}
+
 /**
  * Register new user
  */
@@ -103,33 +651,11 @@ export async function register(data: RegisterRequest): Promise<RegisterResponse>
 
 /**
  * Refresh access token
+ *
+ * Delegates to the shared refresh in the API client so manual refreshes and
+ * automatic 401 retries never race each other.
  */
 export async function refreshToken(): Promise<{ token: string }> {
-  try {
-    const refreshToken = localStorage.getItem('refreshToken');
-    
-    if (!refreshToken) {
-      throw {
-        message: 'No refresh token available',
-      } as ApiError;
-    }
-
-    const response = await post<{ token: string }>('/auth/refresh-token', {
-      refreshToken,
-    });
-
-    if (!response.success || !response.data) {
-      throw {
-        message: response.message || 'Token refresh failed',
-      } as ApiError;
-    }
-
-    // Update stored token
-    setAuthToken(response.data.token);
-
-    return response.data;
-  } catch (error) {
-    throw error;
-  }
+  const token = await refreshAccessToken();
+  return { token };
 }
-
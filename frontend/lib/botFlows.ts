@@ -0,0 +1,242 @@
+/**
+ * Bot Flows
+ *
+ * Multi-step conversations of the auto-reply bot: numbered menus that branch
+ * on the answer, questions whose answers are collected as fields, plain
+ * messages and an end step with a final action. validateFlow mirrors the
+ * backend check in backend/src/services/botFlowService.js so the editor can
+ * show errors before saving.
+ */
+
+import { post, ApiError } from "./api";
+import sharedConstants from "./sharedConstants.json";
+
+export type FlowStepType = "menu" | "question" | "message" | "end";
+export type FlowEndAction = "none" | "handoff" | "template" | "webhook";
+export type FlowInputType = "text" | "number" | "email" | "phone";
+
+export interface FlowMenuOption {
+  /** What the user replies, e.g. "1" */
+  key: string;
+  /** Shown next to the key; also accepted as answer */
+  label: string;
+  /** Step to continue with */
+  next: string;
+}
+
+export interface FlowStep {
+  id: string;
+  type: FlowStepType;
+  /** Sent when the step is entered; {{field}} is replaced by collected answers */
+  text?: string;
+  /** menu */
+  options?: FlowMenuOption[];
+  /** question: field the answer is stored in; menu: optional field for the chosen label */
+  field?: string;
+  /** question */
+  inputType?: FlowInputType;
+  /** menu/question: sent when the answer is not accepted */
+  invalidText?: string;
+  /** question/message */
+  next?: string;
+  /** end */
+  action?: FlowEndAction;
+  /** end with the template action */
+  templateId?: number;
+}
+
+export interface BotFlow {
+  id: number;
+  deviceId: string;
+  name: string;
+  trigger: string;
+  matchType: "exact" | "contains" | "startsWith" | "regex";
+  priority: number;
+  isActive: boolean;
+  timeoutMinutes: number;
+  startStepId: string;
+  steps: FlowStep[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type BotFlowInput = Pick<
+  BotFlow,
+  "name" | "trigger" | "matchType" | "priority" | "isActive" | "timeoutMinutes" | "startStepId" | "steps"
+>;
+
+export const MAX_STEPS = sharedConstants.botFlows.maxSteps;
+export const MAX_MENU_OPTIONS = sharedConstants.botFlows.maxMenuOptions;
+export const MAX_TIMEOUT_MINUTES = sharedConstants.botFlows.maxTimeoutMinutes;
+const MAX_TEXT_LENGTH = sharedConstants.botFlows.maxTextLength;
+
+export const STEP_TYPE_LABELS: Record<FlowStepType, string> = {
+  menu: "Menu",
+  question: "Question",
+  message: "Message",
+  end: "End",
+};
+
+export const END_ACTION_LABELS: Record<FlowEndAction, string> = {
+  none: "Just end",
+  handoff: "Hand off to an agent",
+  template: "Send a template",
+  webhook: "Call webhooks (flow.completed)",
+};
+
+export const INPUT_TYPE_LABELS: Record<FlowInputType, string> = {
+  text: "Any text",
+  number: "Number",
+  email: "Email",
+  phone: "Phone number",
+};
+
+const STEP_ID_REGEX = /^[a-zA-Z0-9_-]{1,50}$/;
+const FIELD_REGEX = /^[a-zA-Z_][a-zA-Z0-9_]{0,49}$/;
+
+/**
+ * Unused step ID with the given prefix, e.g. "menu_2"
+ */
+export function nextStepId(steps: FlowStep[], prefix: string): string {
+  const ids = new Set(steps.map((step) => step.id));
+  let n = 1;
+  while (ids.has(`${prefix}_${n}`)) n++;
+  return `${prefix}_${n}`;
+}
+
+/**
+ * Errors in a flow; empty when it can be saved
+ */
+export function validateFlow(flow: Pick<BotFlowInput, "name" | "trigger" | "startStepId" | "steps" | "timeoutMinutes">): string[] {
+  const errors: string[] = [];
+  const { steps } = flow;
+
+  if (!flow.name.trim()) errors.push("Name is required");
+  if (!flow.trigger.trim()) errors.push("Trigger is required");
+  if (!Number.isInteger(flow.timeoutMinutes) || flow.timeoutMinutes < 1 || flow.timeoutMinutes > MAX_TIMEOUT_MINUTES) {
+    errors.push(`Timeout must be between 1 and ${MAX_TIMEOUT_MINUTES} minutes`);
+  }
+
+  if (steps.length === 0) {
+    errors.push("At least one step is required");
+    return errors;
+  }
+  if (steps.length > MAX_STEPS) errors.push(`At most ${MAX_STEPS} steps`);
+
+  const ids = new Set<string>();
+  steps.forEach((step) => {
+    if (!STEP_ID_REGEX.test(step.id)) {
+      errors.push(`Step "${step.id}": ID must be 1-50 letters, digits, - or _`);
+    } else if (ids.has(step.id)) {
+      errors.push(`Step ${step.id}: ID is used twice`);
+    }
+    ids.add(step.id);
+  });
+
+  const checkNext = (label: string, next?: string) => {
+    if (!next || !ids.has(next)) errors.push(`${label}: Next step is missing`);
+  };
+
+  steps.forEach((step) => {
+    const label = `Step ${step.id}`;
+
+    if (step.type !== "end" && !step.text?.trim()) errors.push(`${label}: Text is required`);
+    if (step.text && step.text.length > MAX_TEXT_LENGTH) {
+      errors.push(`${label}: Text must be at most ${MAX_TEXT_LENGTH} characters`);
+    }
+    if (step.invalidText && step.invalidText.length > MAX_TEXT_LENGTH) {
+      errors.push(`${label}: Invalid-answer text must be at most ${MAX_TEXT_LENGTH} characters`);
+    }
+    if (step.field && !FIELD_REGEX.test(step.field)) {
+      errors.push(`${label}: Field names use letters, digits and _ and must not start with a digit`);
+    }
+
+    if (step.type === "menu") {
+      const options = step.options || [];
+      if (options.length === 0 || options.length > MAX_MENU_OPTIONS) {
+        errors.push(`${label}: A menu needs 1-${MAX_MENU_OPTIONS} options`);
+      }
+      const keys = new Set<string>();
+      options.forEach((option, i) => {
+        const key = option.key.trim().toLowerCase();
+        if (!key || key.length > 10) {
+          errors.push(`${label} option ${i + 1}: Key must be 1-10 characters`);
+        } else if (keys.has(key)) {
+          errors.push(`${label} option ${i + 1}: Key "${option.key}" is used twice`);
+        }
+        keys.add(key);
+        if (!option.label.trim() || option.label.length > 100) {
+          errors.push(`${label} option ${i + 1}: Label must be 1-100 characters`);
+        }
+        checkNext(`${label} option ${i + 1}`, option.next);
+      });
+    } else if (step.type === "question") {
+      if (!step.field) errors.push(`${label}: Field is required`);
+      checkNext(label, step.next);
+    } else if (step.type === "message") {
+      checkNext(label, step.next);
+    } else if (step.action === "template" && !step.templateId) {
+      errors.push(`${label}: Template is required`);
+    }
+  });
+
+  if (!ids.has(flow.startStepId)) errors.push("Start step is missing");
+
+  // Message steps continue on their own; a loop of them would never stop sending
+  const byId = new Map(steps.map((step) => [step.id, step]));
+  for (const step of steps) {
+    if (step.type !== "message") continue;
+    const seen = new Set<string>();
+    let current: FlowStep | undefined = step;
+    while (current?.type === "message" && !seen.has(current.id)) {
+      seen.add(current.id);
+      current = current.next ? byId.get(current.next) : undefined;
+    }
+    if (current?.type === "message") {
+      errors.push(`Step ${step.id}: Message steps loop without waiting for an answer`);
+      break;
+    }
+  }
+
+  return errors;
+}
+
+// ==================== SIMULATOR ====================
+
+export interface SimulationSession {
+  flowId: number | null;
+  stepId: string;
+  fields: Record<string, string>;
+}
+
+export interface SimulationResult {
+  replies: string[];
+  /** Running flow; send it back with the next message */
+  session: SimulationSession | null;
+  matched: { kind: "flow" | "rule"; id: number | null; name: string } | null;
+  /** Set when a flow ended */
+  action: { type: FlowEndAction; fields: Record<string, string> } | null;
+}
+
+/**
+ * Simulate the bot reply to a message. Nothing is sent or stored. With a
+ * draft flow only that flow is tested, without the stored flows and rules.
+ */
+export async function simulateBotReply(
+  deviceId: string,
+  message: string,
+  session: SimulationSession | null,
+  draftFlow?: Partial<BotFlow> | null
+): Promise<SimulationResult> {
+  const response = await post<SimulationResult>(`/bot/devices/${deviceId}/simulate`, {
+    message,
+    session,
+    flow: draftFlow || undefined,
+  });
+
+  if (!response.success || !response.data) {
+    throw { message: response.message || "Failed to simulate bot reply" } as ApiError;
+  }
+
+  return response.data;
+}
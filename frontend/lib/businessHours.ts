@@ -0,0 +1,118 @@
+/**
+ * Business Hours
+ *
+ * Weekly opening windows and holidays of a device bot. A day can have
+ * several windows (split shifts); a holiday replaces the weekly hours of its
+ * date. validateBusinessHours mirrors the backend check in
+ * backend/src/services/businessHoursService.js so the editor can show errors
+ * before saving.
+ */
+
+import sharedConstants from './sharedConstants.json';
+
+export interface BusinessHoursWindow {
+  /** 0 (Sunday) - 6 (Saturday) */
+  day: number;
+  /** HH:MM */
+  start: string;
+  /** HH:MM, after start */
+  end: string;
+}
+
+export type BusinessHours = BusinessHoursWindow[];
+
+export interface BusinessHoliday {
+  /** YYYY-MM-DD in the device timezone */
+  date: string;
+  name?: string;
+  /** Special hours; empty = closed all day */
+  windows?: { start: string; end: string }[];
+  /** Replaces the regular off-hours message on this date */
+  offHoursMessage?: string | null;
+}
+
+export const MAX_WINDOWS_PER_DAY = sharedConstants.businessHours.maxWindowsPerDay;
+export const MAX_HOLIDAYS = sharedConstants.businessHours.maxHolidays;
+const MAX_HOLIDAY_NAME_LENGTH = sharedConstants.businessHours.maxHolidayNameLength;
+const MAX_OFF_HOURS_MESSAGE_LENGTH = sharedConstants.businessHours.maxOffHoursMessageLength;
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const TIME_REGEX = /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * One hour after an HH:MM time, at most 23:59; default end of an added window
+ */
+export function hourAfter(time: string): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours >= 23 ? '23:59' : `${String(hours + 1).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+function validateWindows(windows: { start: string; end: string }[], label: string, errors: string[]) {
+  const valid: { start: string; end: string }[] = [];
+
+  windows.forEach((window, i) => {
+    if (!TIME_REGEX.test(window.start)) {
+      errors.push(`${label} window ${i + 1}: Invalid start time`);
+    } else if (!TIME_REGEX.test(window.end)) {
+      errors.push(`${label} window ${i + 1}: Invalid end time`);
+    } else if (window.start >= window.end) {
+      errors.push(`${label} window ${i + 1}: Start time must be before end time`);
+    } else {
+      valid.push(window);
+    }
+  });
+
+  if (windows.length > MAX_WINDOWS_PER_DAY) {
+    errors.push(`${label}: At most ${MAX_WINDOWS_PER_DAY} windows per day`);
+  }
+
+  const sorted = [...valid].sort((a, b) => a.start.localeCompare(b.start));
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].start < sorted[i - 1].end) {
+      errors.push(`${label}: ${sorted[i - 1].start}-${sorted[i - 1].end} overlaps ${sorted[i].start}-${sorted[i].end}`);
+    }
+  }
+}
+
+/**
+ * Errors in the weekly hours and holidays; empty when they can be saved
+ */
+export function validateBusinessHours(businessHours: BusinessHours, holidays: BusinessHoliday[] = []): string[] {
+  const errors: string[] = [];
+
+  DAY_NAMES.forEach((dayName, day) => {
+    validateWindows(
+      businessHours.filter((window) => window.day === day),
+      dayName,
+      errors
+    );
+  });
+
+  if (holidays.length > MAX_HOLIDAYS) {
+    errors.push(`At most ${MAX_HOLIDAYS} holidays`);
+  }
+
+  const dates = new Set<string>();
+  holidays.forEach((holiday, i) => {
+    const label = holiday.name || holiday.date || `Holiday ${i + 1}`;
+    const parsed = DATE_REGEX.test(holiday.date) ? new Date(`${holiday.date}T00:00:00Z`) : null;
+    if (!parsed || isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== holiday.date) {
+      errors.push(`${label}: Invalid date`);
+    } else if (dates.has(holiday.date)) {
+      errors.push(`${label}: Date is listed twice`);
+    }
+    dates.add(holiday.date);
+
+    if (holiday.name && holiday.name.length > MAX_HOLIDAY_NAME_LENGTH) {
+      errors.push(`${label}: Name must be at most ${MAX_HOLIDAY_NAME_LENGTH} characters`);
+    }
+    if (holiday.offHoursMessage && holiday.offHoursMessage.length > MAX_OFF_HOURS_MESSAGE_LENGTH) {
+      errors.push(`${label}: Off-hours message must be at most ${MAX_OFF_HOURS_MESSAGE_LENGTH} characters`);
+    }
+    validateWindows(holiday.windows || [], label, errors);
+  });
+
+  return errors;
+}
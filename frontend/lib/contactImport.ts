@@ -0,0 +1,229 @@
+/**
+ * Contact Import Parsing
+ *
+ * Turns CSV (including CSV exported from Excel/XLSX) and vCard (.vcf) files
+ * into a header + rows table so both go through the same column-mapping step.
+ */
+
+import sharedConstants from './sharedConstants.json';
+
+export const MAX_IMPORT_ROWS = sharedConstants.contacts.maxImportContacts;
+
+export type ImportField = 'name' | 'phoneNumber' | 'email' | 'tags' | 'notes' | 'custom';
+
+export interface ImportTable {
+  headers: string[];
+  rows: string[][];
+}
+
+const DELIMITERS = [',', ';', '\t'];
+
+/**
+ * Pick the delimiter that splits the header line into the most columns
+ */
+function detectDelimiter(firstLine: string): string {
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of DELIMITERS) {
+    let count = 0;
+    let inQuotes = false;
+    for (const char of firstLine) {
+      if (char === '"') inQuotes = !inQuotes;
+      else if (char === delimiter && !inQuotes) count++;
+    }
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Parse CSV text (RFC 4180 quoting, CRLF or LF line endings)
+ */
+export function parseCsv(text: string): ImportTable {
+  let input = text.replace(/^\uFEFF/, '');
+
+  // Excel writes "sep=;" as the first line when the delimiter is not a comma
+  let delimiter: string;
+  const sepMatch = input.match(/^sep=(.)\r?\n/i);
+  if (sepMatch) {
+    delimiter = sepMatch[1];
+    input = input.substring(sepMatch[0].length);
+  } else {
+    delimiter = detectDelimiter(input.split(/\r?\n/, 1)[0] || '');
+  }
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter((r) => r.some((cell) => cell.trim() !== ''));
+  const [headerRow = [], ...rows] = nonEmpty;
+  const headers = headerRow.map((h, index) => h.trim() || `Column ${index + 1}`);
+
+  return {
+    headers,
+    rows: rows.map((r) => headers.map((_, index) => (r[index] || '').trim())),
+  };
+}
+
+const unescapeVCard = (value: string) =>
+  value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1').trim();
+
+/**
+ * Parse vCard 2.1/3.0/4.0 text. Each phone number of a card becomes its own row.
+ */
+export function parseVCard(text: string): ImportTable {
+  // Unfold continuation lines (RFC 6350 3.2)
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+  const headers = ['Name', 'Phone', 'Email', 'Organization', 'Tags', 'Notes'];
+  const rows: string[][] = [];
+
+  let card: { fn: string; n: string; tels: string[]; email: string; org: string; categories: string; note: string } | null = null;
+
+  for (const line of lines) {
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    // "item1.TEL;TYPE=CELL" -> "TEL"
+    const property = line.substring(0, separator).split(';')[0].split('.').pop()!.toUpperCase();
+    const value = line.substring(separator + 1);
+
+    if (property === 'BEGIN' && value.trim().toUpperCase() === 'VCARD') {
+      card = { fn: '', n: '', tels: [], email: '', org: '', categories: '', note: '' };
+      continue;
+    }
+    if (!card) continue;
+
+    switch (property) {
+      case 'FN':
+        card.fn = unescapeVCard(value);
+        break;
+      case 'N': {
+        // Family;Given;Additional;Prefix;Suffix
+        const [family = '', given = ''] = value.split(';').map(unescapeVCard);
+        card.n = [given, family].filter(Boolean).join(' ');
+        break;
+      }
+      case 'TEL':
+        card.tels.push(unescapeVCard(value.replace(/^tel:/i, '')));
+        break;
+      case 'EMAIL':
+        if (!card.email) card.email = unescapeVCard(value);
+        break;
+      case 'ORG':
+        card.org = unescapeVCard(value.split(';')[0]);
+        break;
+      case 'CATEGORIES':
+        card.categories = unescapeVCard(value);
+        break;
+      case 'NOTE':
+        card.note = unescapeVCard(value);
+        break;
+      case 'END':
+        for (const tel of card.tels) {
+          rows.push([card.fn || card.n, tel, card.email, card.org, card.categories, card.note]);
+        }
+        card = null;
+        break;
+    }
+  }
+
+  return { headers, rows };
+}
+
+/**
+ * Read an uploaded file into a table based on its extension
+ */
+export async function readImportFile(file: File): Promise<ImportTable> {
+  const text = await file.text();
+  const isVCard = /\.(vcf|vcard)$/i.test(file.name) || /^\s*BEGIN:VCARD/i.test(text);
+  return isVCard ? parseVCard(text) : parseCsv(text);
+}
+
+const HEADER_GUESSES: { field: ImportField; pattern: RegExp }[] = [
+  { field: 'phoneNumber', pattern: /phone|mobile|tel|whatsapp|nomor|number|\bhp\b|\bwa\b/i },
+  { field: 'email', pattern: /e-?mail/i },
+  { field: 'tags', pattern: /tag|label|group|categor|kategori/i },
+  { field: 'notes', pattern: /note|catatan|keterangan|remark/i },
+  { field: 'name', pattern: /name|nama/i },
+];
+
+/**
+ * Suggest a field for each column from its header.
+ * Each standard field is used once; remaining columns become custom fields.
+ */
+export function guessMapping(headers: string[]): ImportField[] {
+  const used = new Set<ImportField>();
+  return headers.map((header) => {
+    const guess = HEADER_GUESSES.find(({ field, pattern }) => !used.has(field) && pattern.test(header));
+    if (guess) {
+      used.add(guess.field);
+      return guess.field;
+    }
+    return 'custom';
+  });
+}
+
+/**
+ * Custom field key for a column header: "Customer ID" -> "customer_id"
+ */
+export function toCustomFieldKey(header: string): string {
+  return (
+    header
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^_+|_+$/g, '')
+      .substring(0, 30) || 'field'
+  );
+}
+
+/**
+ * Split a tags cell: "vip, jakarta; reseller" -> ["vip", "jakarta", "reseller"]
+ */
+export const splitTags = (value: string) =>
+  value
+    .split(/[,;|]/)
+    .map((tag) => tag.trim())
+    .filter((tag) => tag.length > 0);
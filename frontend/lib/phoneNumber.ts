@@ -0,0 +1,242 @@
+/**
+ * Phone Number Utilities
+ *
+ * E.164 parsing, validation and display formatting with a default country.
+ * Mirror of backend/src/utils/phoneNumber.js so the UI reports exactly what
+ * the backend will send to. phoneCountries.json is a copy of
+ * backend/src/utils/phoneCountries.json: edit that one, then run
+ * `npm run check:phone-numbers -- --write` in backend/ to copy it and check
+ * both implementations against the shared cases.
+ *
+ * Normalized numbers are E.164 digits without the leading "+"
+ * (e.g. 6281234567890), which is the WhatsApp JID user part.
+ */
+
+import countryData from './phoneCountries.json';
+
+export const DEFAULT_COUNTRY = countryData.defaultCountry;
+
+export interface CountryRules {
+  name: string;
+  /** Country calling code */
+  code: string;
+  /** National trunk prefix dropped in international form (null = none) */
+  trunk: string | null;
+  /** Valid national significant number (without trunk prefix) */
+  pattern: RegExp;
+  /** Display grouping of the national number (default: blocks of 4 from the end) */
+  groups?: number[];
+}
+
+export interface ParsedPhoneNumber {
+  digits: string;
+  e164: string;
+  /** null when the calling code has no rules here (accepted by length only) */
+  country: string | null;
+  /** True when the number was not written in full international form */
+  reinterpreted: boolean;
+}
+
+// Countries sharing a calling code list the primary one first
+export const COUNTRIES: Record<string, CountryRules> = Object.fromEntries(
+  Object.entries(countryData.countries).map(([iso, rules]) => [
+    iso,
+    { ...rules, pattern: new RegExp(rules.pattern) },
+  ])
+);
+
+export const COUNTRY_CODES = Object.keys(COUNTRIES);
+
+// E.164 allows at most 15 digits including the calling code
+const E164_MIN_LENGTH = 8;
+const E164_MAX_LENGTH = 15;
+
+export const isSupportedCountry = (country: unknown): country is string =>
+  typeof country === 'string' && Object.prototype.hasOwnProperty.call(COUNTRIES, country);
+
+const resolveCountry = (country?: string | null) =>
+  isSupportedCountry(country) ? country : DEFAULT_COUNTRY;
+
+/**
+ * Find the country for digits that start with a calling code.
+ * Tries the longest calling code first; only returns a match whose
+ * national number fits that country's numbering rules.
+ */
+function matchCallingCode(
+  digits: string
+): { country: string; nationalNumber: string; reinterpreted: boolean } | null {
+  for (let length = 3; length >= 1; length--) {
+    const code = digits.substring(0, length);
+    const country = COUNTRY_CODES.find((iso) => COUNTRIES[iso].code === code);
+    if (!country) continue;
+
+    const rules = COUNTRIES[country];
+    const nationalNumber = digits.substring(length);
+    if (rules.pattern.test(nationalNumber)) {
+      return { country, nationalNumber, reinterpreted: false };
+    }
+    // "+62 0812..." - national trunk prefix written after the calling code
+    if (
+      rules.trunk &&
+      nationalNumber.startsWith(rules.trunk) &&
+      rules.pattern.test(nationalNumber.substring(rules.trunk.length))
+    ) {
+      return {
+        country,
+        nationalNumber: nationalNumber.substring(rules.trunk.length),
+        reinterpreted: true,
+      };
+    }
+  }
+  return null;
+}
+
+const hasKnownCallingCode = (digits: string) =>
+  [1, 2, 3].some((length) =>
+    COUNTRY_CODES.some((iso) => COUNTRIES[iso].code === digits.substring(0, length))
+  );
+
+/**
+ * Parse a phone number written in international or national form,
+ * e.g. "+44 7911 123456", "0812-3456-7890", "6281234567890"
+ */
+export function parsePhoneNumber(
+  input: string,
+  defaultCountry: string = DEFAULT_COUNTRY
+): ParsedPhoneNumber | null {
+  if (!input || typeof input !== 'string') {
+    return null;
+  }
+
+  const trimmed = input.trim();
+  // Only separators may be dropped; letters or other symbols make the number invalid
+  if (!/^\+?[\d\s().\-/]+$/.test(trimmed)) {
+    return null;
+  }
+
+  const isInternational = trimmed.startsWith('+') || trimmed.startsWith('00');
+  let digits = trimmed.replace(/\D/g, '');
+  if (!trimmed.startsWith('+') && digits.startsWith('00')) {
+    digits = digits.substring(2);
+  }
+
+  const build = (country: string, nationalNumber: string, reinterpreted: boolean) => {
+    const e164Digits = `${COUNTRIES[country].code}${nationalNumber}`;
+    return { digits: e164Digits, e164: `+${e164Digits}`, country, reinterpreted };
+  };
+
+  if (isInternational) {
+    const match = matchCallingCode(digits);
+    if (match) {
+      return build(match.country, match.nationalNumber, match.reinterpreted);
+    }
+    // Calling code we have no rules for: accept any E.164-length number
+    if (
+      !hasKnownCallingCode(digits) &&
+      digits.length >= E164_MIN_LENGTH &&
+      digits.length <= E164_MAX_LENGTH &&
+      !digits.startsWith('0')
+    ) {
+      return { digits, e164: `+${digits}`, country: null, reinterpreted: false };
+    }
+    return null;
+  }
+
+  const country = resolveCountry(defaultCountry);
+  const rules = COUNTRIES[country];
+
+  // 1. National form with trunk prefix: 0812... (ID), 07911... (GB)
+  if (
+    rules.trunk &&
+    digits.startsWith(rules.trunk) &&
+    rules.pattern.test(digits.substring(rules.trunk.length))
+  ) {
+    return build(country, digits.substring(rules.trunk.length), true);
+  }
+
+  // 2. International form without "+", same country: 62812...
+  if (digits.startsWith(rules.code) && rules.pattern.test(digits.substring(rules.code.length))) {
+    return build(country, digits.substring(rules.code.length), false);
+  }
+
+  // 3. National number without trunk prefix: 812...
+  if (rules.pattern.test(digits)) {
+    return build(country, digits, true);
+  }
+
+  // 4. International form without "+" for another country: 447911123456
+  const match = matchCallingCode(digits);
+  if (match) {
+    return build(match.country, match.nationalNumber, true);
+  }
+
+  return null;
+}
+
+/**
+ * Normalize a phone number to E.164 digits without "+" (e.g. "6281234567890")
+ */
+export function normalizePhoneNumber(
+  phone: string,
+  defaultCountry: string = DEFAULT_COUNTRY
+): string | null {
+  const parsed = parsePhoneNumber(phone, defaultCountry);
+  return parsed ? parsed.digits : null;
+}
+
+/**
+ * Format normalized digits (or E.164) for display: "+62 812 3456 7890".
+ * Falls back to "+<digits>" without grouping when the calling code is unknown.
+ */
+export function formatPhoneNumber(phone: string | null | undefined): string {
+  if (!phone) return '';
+  const digits = String(phone).replace(/\D/g, '');
+  const match = matchCallingCode(digits);
+  if (!match) {
+    return digits ? `+${digits}` : String(phone);
+  }
+
+  const { code, groups } = COUNTRIES[match.country];
+  const national = match.nationalNumber;
+  const parts: string[] = [];
+
+  if (groups && groups.reduce((sum, size) => sum + size, 0) === national.length) {
+    let offset = 0;
+    for (const size of groups) {
+      parts.push(national.substring(offset, offset + size));
+      offset += size;
+    }
+  } else {
+    // Blocks of 4 from the end; a short leading block is fine
+    let end = national.length;
+    while (end > 0) {
+      const start = Math.max(0, end - 4);
+      parts.unshift(national.substring(start, end));
+      end = start;
+    }
+    if (parts.length > 1 && parts[0].length === 1) {
+      const head = parts.shift();
+      parts[0] = head + parts[0];
+    }
+  }
+
+  return `+${code} ${parts.join(' ')}`;
+}
+
+/**
+ * Default country for a request: device setting, then the user's, then ID
+ */
+export function resolveDefaultCountry(
+  device?: { defaultCountry?: string | null } | null,
+  user?: { defaultCountry?: string | null } | null
+): string {
+  if (isSupportedCountry(device?.defaultCountry)) return device.defaultCountry;
+  if (isSupportedCountry(user?.defaultCountry)) return user.defaultCountry;
+  return DEFAULT_COUNTRY;
+}
+
+/** Options for a country <select>, sorted by name */
+export const COUNTRY_OPTIONS = COUNTRY_CODES.map((iso) => ({
+  value: iso,
+  label: `${COUNTRIES[iso].name} (+${COUNTRIES[iso].code})`,
+})).sort((a, b) => a.label.localeCompare(b.label));
@@ -0,0 +1,54 @@
+/**
+ * Recurrence
+ *
+ * Labels for repeat rules of scheduled messages. Occurrence times are
+ * computed by the backend (backend/src/utils/recurrence.js) so DST handling
+ * lives in one place.
+ */
+
+import type { RecurrenceRule } from "./userService";
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const UNITS: Record<RecurrenceRule["freq"], string> = {
+  daily: "day",
+  weekly: "week",
+  monthly: "month",
+};
+
+const ordinal = (n: number) => {
+  const suffix = n % 10 === 1 && n !== 11 ? "st" : n % 10 === 2 && n !== 12 ? "nd" : n % 10 === 3 && n !== 13 ? "rd" : "th";
+  return `${n}${suffix}`;
+};
+
+/**
+ * Human-readable summary, e.g. "Every 2 weeks on Mon, Wed, 10 times"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const interval = rule.interval || 1;
+  const unit = UNITS[rule.freq];
+  let text =
+    interval === 1
+      ? { daily: "Daily", weekly: "Weekly", monthly: "Monthly" }[rule.freq]
+      : `Every ${interval} ${unit}s`;
+
+  if (rule.freq === "weekly" && rule.byWeekday?.length) {
+    text += ` on ${[...rule.byWeekday]
+      .sort((a, b) => a - b)
+      .map((day) => WEEKDAY_LABELS[day])
+      .join(", ")}`;
+  }
+  if (rule.freq === "monthly" && rule.monthDay) {
+    text += ` on the ${ordinal(rule.monthDay)}`;
+  }
+  if (rule.count) {
+    text += `, ${rule.count} time${rule.count === 1 ? "" : "s"}`;
+  } else if (rule.until) {
+    text += `, until ${new Date(rule.until).toLocaleDateString("id-ID", {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    })}`;
+  }
+  return text;
+}
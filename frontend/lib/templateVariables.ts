@@ -0,0 +1,46 @@
+/**
+ * Template Variables
+ *
+ * Client-side rendering of {{variable}} placeholders, matching
+ * backend/src/utils/templateVariables.js (template-variable-cases.json is
+ * run against both by backend/scripts/check-shared-constants.js).
+ */
+
+import sharedConstants from './sharedConstants.json';
+
+const VARIABLE_PATTERN = new RegExp(sharedConstants.templateVariables.pattern, 'g');
+
+const MAX_VALUE_LENGTH = sharedConstants.templateVariables.maxValueLength;
+
+/**
+ * Variable names used in content, in order of first appearance
+ */
+export function extractTemplateVariables(content: string): string[] {
+  const names: string[] = [];
+  for (const match of content.matchAll(VARIABLE_PATTERN)) {
+    if (!names.includes(match[1])) {
+      names.push(match[1]);
+    }
+  }
+  return names;
+}
+
+/**
+ * Render content with values. Placeholders without a (non-empty) value are
+ * left as-is and reported in `missing`.
+ */
+export function renderTemplate(
+  content: string,
+  values: Record<string, string | undefined>
+): { text: string; missing: string[] } {
+  const missing: string[] = [];
+  const text = content.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    const value = values[name];
+    if (value === undefined || value.trim() === '') {
+      if (!missing.includes(name)) missing.push(name);
+      return placeholder;
+    }
+    return value.replace(/<[^>]*>/g, '').slice(0, MAX_VALUE_LENGTH);
+  });
+  return { text, missing };
+}
@@ -4,7 +4,13 @@
  * Service layer for user-specific API calls (non-admin endpoints)
  */
 
-import { get, post, put, del, ApiError } from "./api";
+import { get, post, put, del, ApiError, getFreshAuthToken } from "./api";
+import {
+  DEFAULT_COUNTRY,
+  parsePhoneNumber,
+  normalizePhoneNumber as normalizeE164,
+} from "./phoneNumber";
+import sharedConstants from "./sharedConstants.json";
 
 // Type Definitions
 export interface Device {
@@ -17,6 +23,8 @@ export interface Device {
   isActive: boolean;
   lastSeen?: string;
   deviceInfo?: Record<string, unknown>;
+  /** Country for phone numbers without calling code; null = owner's default */
+  defaultCountry?: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -34,6 +42,8 @@ export interface SendMessageRequest {
   phone: string;
   message: string;
   type?: "text" | "image" | "video" | "audio" | "document";
+  /** ID of the stored message this one replies to */
+  quotedMessageId?: string;
 }
 
 export interface SendMessageResponse {
@@ -44,6 +54,25 @@ export interface SendMessageResponse {
   timestamp: string;
 }
 
+export type ChatMediaStatus = "stored" | "downloading" | "too_large" | "failed" | "not_downloaded" | "expired";
+
+export interface ChatMessageMedia {
+  /** API path of the stored file (load with getBlob); null unless status is "stored" */
+  url: string | null;
+  mimetype: string | null;
+  fileName: string | null;
+  size: number | null;
+  status: ChatMediaStatus;
+}
+
+/** Message a reply quotes; text is null when it is not in the stored history */
+export interface ChatQuotedMessage {
+  id: string;
+  fromMe: boolean | null;
+  messageType: string | null;
+  text: string | null;
+}
+
 export interface ChatMessage {
   id: string;
   from: string;
@@ -53,6 +82,51 @@ export interface ChatMessage {
   type: string;
   direction: "incoming" | "outgoing";
   status?: string;
+  /** Delivery/read receipts of outgoing messages (ISO strings) */
+  deliveredAt?: string | null;
+  readAt?: string | null;
+  /** Attachment of image, video, audio, document and sticker messages */
+  media?: ChatMessageMedia | null;
+  quoted?: ChatQuotedMessage | null;
+}
+
+/** SSE "message-status" event: a receipt moved an outgoing message forward */
+export interface MessageStatusEvent {
+  deviceId: string;
+  messageId: string;
+  to: string;
+  status: "delivered" | "read";
+  at: string;
+}
+
+/** SSE "new-message" event: a message was received or sent from the phone */
+export interface NewMessageEvent {
+  deviceId: string;
+  messageId: string;
+  chatJid: string;
+  fromMe: boolean;
+  /** Text or a placeholder like "[Image]"; text is the text or caption only */
+  message: string;
+  text: string | null;
+  messageType: string;
+  media: ChatMessageMedia | null;
+  quotedMessageId: string | null;
+  timestamp: string;
+}
+
+/** SSE "message-media" event: the media of a new incoming message finished downloading (or failed) */
+export interface MessageMediaEvent {
+  deviceId: string;
+  messageId: string;
+  chatJid: string;
+  media: ChatMessageMedia;
+}
+
+/** SSE "chat-read" event: the incoming messages of a chat were marked as read */
+export interface ChatReadEvent {
+  deviceId: string;
+  chatJid: string;
+  count: number;
 }
 
 export interface ChatHistoryResponse {
@@ -62,6 +136,75 @@ export interface ChatHistoryResponse {
   total: number;
 }
 
+/** Message as returned by the chat history endpoints */
+interface ChatHistoryApiMessage {
+  id: string;
+  from: string;
+  fromMe: boolean;
+  messageType: string;
+  content: { text?: string } | null;
+  media: ChatMessageMedia | null;
+  quoted: ChatQuotedMessage | null;
+  status?: string;
+  deliveredAt?: number | null;
+  readAt?: number | null;
+  timestamp: number | null;
+}
+
+interface ChatHistoryApiResponse extends Omit<ChatHistoryResponse, "messages"> {
+  messages: ChatHistoryApiMessage[];
+}
+
+const toIsoString = (time?: number | null) => (time ? new Date(time).toISOString() : null);
+
+/**
+ * Map a chat history message to a ChatMessage; outgoing messages go to the
+ * chat's number
+ */
+function toChatMessage(message: ChatHistoryApiMessage, chatJid: string): ChatMessage {
+  return {
+    id: message.id,
+    from: message.from,
+    to: message.fromMe ? chatJid.split("@")[0] : "me",
+    message: message.content?.text || "",
+    timestamp: toIsoString(message.timestamp) || "",
+    type: message.messageType,
+    direction: message.fromMe ? "outgoing" : "incoming",
+    status: message.status,
+    deliveredAt: toIsoString(message.deliveredAt),
+    readAt: toIsoString(message.readAt),
+    media: message.media,
+    quoted: message.quoted,
+  };
+}
+
+/**
+ * Map a live "new-message" event to a ChatMessage. The quoted message is
+ * looked up among the messages already shown.
+ */
+export function newMessageToChatMessage(event: NewMessageEvent, shown: ChatMessage[]): ChatMessage {
+  const quoted = event.quotedMessageId ? shown.find((message) => message.id === event.quotedMessageId) : null;
+  return {
+    id: event.messageId,
+    from: event.fromMe ? "me" : event.chatJid,
+    to: event.fromMe ? event.chatJid.split("@")[0] : "me",
+    message: event.media ? event.text || "" : event.message,
+    timestamp: event.timestamp,
+    type: event.messageType,
+    direction: event.fromMe ? "outgoing" : "incoming",
+    status: event.fromMe ? "sent" : "delivered",
+    media: event.media,
+    quoted: event.quotedMessageId
+      ? {
+          id: event.quotedMessageId,
+          fromMe: quoted ? quoted.direction === "outgoing" : null,
+          messageType: quoted?.type || null,
+          text: quoted?.message || null,
+        }
+      : null,
+  };
+}
+
 export interface DailyChat {
   jid: string;
   name?: string;
@@ -78,6 +221,21 @@ export interface DailyChatListResponse {
   date: string;
 }
 
+/** Contact as returned by the daily chat list endpoint */
+interface DailyChatListApiContact {
+  jid: string;
+  name: string | null;
+  phoneNumber: string;
+  unreadMessages: number;
+  lastMessage: string | null;
+  lastActivity: string | null;
+}
+
+interface DailyChatListApiResponse {
+  contacts: DailyChatListApiContact[];
+  summary: { date: string };
+}
+
 export interface Job {
   id: string;
   type: string;
@@ -107,6 +265,7 @@ export interface Profile {
   profilePhoto?: string;
   phoneNumber?: string;
   bio?: string;
+  defaultCountry?: string;
   role: "admin" | "user";
   isActive: boolean;
   createdAt: string;
@@ -120,6 +279,7 @@ export interface UpdateProfileRequest {
   password?: string;
   phoneNumber?: string;
   bio?: string;
+  defaultCountry?: string;
 }
 
 export interface ProfileResponse {
@@ -148,7 +308,10 @@ export interface UserContact {
   email?: string;
   tags: string[];
   notes?: string;
+  customFields?: Record<string, string>;
   isBlocked: boolean;
+  optedInAt?: string | null;
+  optedOut?: boolean; // on the suppression list
   lastMessageAt?: string;
   profilePicture?: string;
   createdAt: string;
@@ -175,6 +338,32 @@ export interface SaveContactRequest {
   email?: string;
   tags?: string[];
   notes?: string;
+  optedIn?: boolean; // record (true) or clear (false) the contact's consent
+}
+
+export interface ImportContactRow {
+  phoneNumber: string;
+  name?: string;
+  email?: string;
+  tags?: string[];
+  notes?: string;
+  customFields?: Record<string, string>;
+}
+
+export interface ImportContactsRequest {
+  contacts: ImportContactRow[];
+  /** Tags added to every imported contact */
+  tags?: string[];
+  /** Attach new contacts to this device */
+  deviceId?: string;
+}
+
+export interface ImportContactsResult {
+  total: number;
+  created: number;
+  updated: number;
+  invalid: { row: number; phoneNumber: string }[];
+  duplicates: { row: number; phoneNumber: string }[];
 }
 
 export interface UserTagsResponse {
@@ -321,6 +510,32 @@ export async function getDeviceDetails(deviceId: string): Promise<Device> {
   }
 }
 
+/**
+ * Update device settings
+ * @param defaultCountry - Country for numbers without calling code; null = use the owner's
+ */
+export async function updateDeviceSettings(
+  deviceId: string,
+  settings: { defaultCountry: string | null }
+): Promise<Device> {
+  try {
+    const response = await put<Device>(
+      `/whatsapp-multi-device/devices/${deviceId}/settings`,
+      settings
+    );
+
+    if (!response.success || !response.data) {
+      throw {
+        message: response.message || "Failed to update device settings",
+      } as ApiError;
+    }
+
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+}
+
 /**
  * Get device status
  */
@@ -453,7 +668,7 @@ export async function sendMedia(
     const API_BASE_URL =
       process.env.NEXT_PUBLIC_API_URL || "http://localhost:5005/api";
     const token =
-      typeof window !== "undefined" ? localStorage.getItem("token") : null;
+      typeof window !== "undefined" ? await getFreshAuthToken() : null;
 
     const response = await fetch(
       `${API_BASE_URL}/whatsapp-multi-device/devices/${deviceId}/send-media`,
@@ -500,7 +715,7 @@ export async function getChatHistory(
       queryString ? `?${queryString}` : ""
     }`;
 
-    const response = await get<ChatHistoryResponse>(endpoint);
+    const response = await get<ChatHistoryApiResponse>(endpoint);
 
     if (!response.success || !response.data) {
       throw {
@@ -508,7 +723,10 @@ export async function getChatHistory(
       } as ApiError;
     }
 
-    return response.data;
+    return {
+      ...response.data,
+      messages: response.data.messages.map((message) => toChatMessage(message, jid)),
+    };
   } catch (error) {
     throw error;
   }
@@ -533,7 +751,7 @@ export async function getGroupChatHistory(
       queryString ? `?${queryString}` : ""
     }`;
 
-    const response = await get<ChatHistoryResponse>(endpoint);
+    const response = await get<ChatHistoryApiResponse>(endpoint);
 
     if (!response.success || !response.data) {
       throw {
@@ -541,7 +759,10 @@ export async function getGroupChatHistory(
       } as ApiError;
     }
 
-    return response.data;
+    return {
+      ...response.data,
+      messages: response.data.messages.map((message) => toChatMessage(message, groupId)),
+    };
   } catch (error) {
     throw error;
   }
@@ -563,7 +784,7 @@ export async function getDailyChatList(
       queryString ? `?${queryString}` : ""
     }`;
 
-    const response = await get<DailyChatListResponse>(endpoint);
+    const response = await get<DailyChatListApiResponse>(endpoint);
 
     if (!response.success || !response.data) {
       throw {
@@ -571,12 +792,51 @@ export async function getDailyChatList(
       } as ApiError;
     }
 
+    return {
+      deviceId,
+      date: response.data.summary.date,
+      chats: response.data.contacts.map((contact) => ({
+        jid: contact.jid,
+        name: contact.name || undefined,
+        phoneNumber: contact.phoneNumber,
+        lastMessage: contact.lastMessage || undefined,
+        lastMessageTime: contact.lastActivity || undefined,
+        unreadCount: contact.unreadMessages,
+        isGroup: contact.jid.endsWith("@g.us"),
+      })),
+    };
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Mark a chat as read; the phone sends read receipts for its unread messages
+ */
+export async function markChatRead(
+  deviceId: string,
+  jid: string
+): Promise<{ markedCount: number }> {
+  try {
+    const response = await post<{ markedCount: number }>(
+      `/whatsapp-multi-device/devices/${deviceId}/chats/${jid}/read`
+    );
+
+    if (!response.success || !response.data) {
+      throw {
+        message: response.message || "Failed to mark chat as read",
+      } as ApiError;
+    }
+
     return response.data;
   } catch (error) {
     throw error;
   }
 }
 
+// Most messages/items one job accepts
+export const MAX_JOB_ITEMS = sharedConstants.jobs.maxItems;
+
 /**
  * Get job status
  */
@@ -670,7 +930,7 @@ export async function uploadProfilePhoto(
     const API_BASE_URL =
       process.env.NEXT_PUBLIC_API_URL || "http://localhost:5005/api";
     const token =
-      typeof window !== "undefined" ? localStorage.getItem("token") : null;
+      typeof window !== "undefined" ? await getFreshAuthToken() : null;
 
     const response = await fetch(`${API_BASE_URL}/auth/profile/photo`, {
       method: "POST",
@@ -729,17 +989,83 @@ export async function getContacts(
 // Scheduled Message Types & Functions
 // ============================================
 
+export const MAX_RECURRENCE_INTERVAL = sharedConstants.scheduledMessages.maxRecurrenceInterval;
+export const MAX_RECURRENCE_COUNT = sharedConstants.scheduledMessages.maxRecurrenceCount;
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly";
+
+/**
+ * Repeat rule of a scheduled message. Occurrences keep the wall-clock time
+ * of the first run in the message timezone.
+ */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  /** Every N days/weeks/months (default 1) */
+  interval?: number;
+  /** Weekly only: 0 (Sunday) - 6 (Saturday) */
+  byWeekday?: number[];
+  /** Monthly only: 1-31, shorter months use their last day */
+  monthDay?: number;
+  /** End of the series (ISO 8601); exclusive with count */
+  until?: string | null;
+  /** Number of occurrences; exclusive with until */
+  count?: number | null;
+}
+
+/**
+ * What happens to a run the scheduler picks up more than a few minutes late
+ * (e.g. after downtime): send it anyway, drop it, or drop it and notify.
+ */
+export type MissedRunPolicy = "send_late" | "skip" | "notify";
+
+// Default upload limit; a server with MAX_FILE_SIZE set may differ
+export const MAX_SCHEDULED_MEDIA_SIZE = sharedConstants.uploads.maxFileSize;
+export const SCHEDULED_MEDIA_ACCEPT = Object.keys(sharedConstants.uploads.mimeTypes).join(",");
+
+export const MAX_SCHEDULED_MENTIONS = sharedConstants.scheduledMessages.maxMentions;
+
+// How far ahead occurrences of a series can be listed
+export const MAX_UPCOMING_OCCURRENCES = sharedConstants.scheduledMessages.maxUpcomingOccurrences;
+
+export type ScheduledMediaType = "image" | "video" | "document";
+
+export interface ScheduledMedia {
+  type: ScheduledMediaType;
+  fileName: string | null;
+  mimetype: string | null;
+  /** Path under /uploads; null once the file was removed after the retention period */
+  url: string | null;
+}
+
 export interface ScheduleMessageRequest {
-  to: string;
+  to?: string;
+  /** Send to a saved audience segment instead of `to` */
+  segmentId?: number;
+  /** Send to a group (JID) instead of `to` */
+  groupId?: string;
+  /** Numbers or JIDs to mention; group text messages only */
+  mentions?: string[];
+  /** Text, or the caption when `file` is attached */
   message: string;
+  /** Image, video or document sent with the message */
+  file?: File;
   scheduleTime: string; // ISO 8601 format
   timezone?: string;
+  /** Repeat the message; the first occurrence at or after scheduleTime is the first run */
+  recurrence?: RecurrenceRule | null;
+  missedRunPolicy?: MissedRunPolicy;
 }
 
 export interface ScheduleMessageResponse {
   scheduledMessageId: string;
+  segmentId?: number | null;
+  groupId?: string | null;
+  mentions?: string[] | null;
+  mediaType?: ScheduledMediaType | null;
   scheduleTime: string;
   timezone: string;
+  recurrence?: RecurrenceRule | null;
+  missedRunPolicy?: MissedRunPolicy;
   delaySeconds: number;
 }
 
@@ -751,17 +1077,52 @@ export interface MultiTargetScheduleResult {
 }
 
 /**
- * Schedule a message to a single phone number
+ * Schedule a message to a phone number, segment or group.
+ * Sent as multipart form data when a file is attached.
  */
 export async function scheduleMessage(
   deviceId: string,
   data: ScheduleMessageRequest
 ): Promise<ScheduleMessageResponse> {
   try {
-    const response = await post<ScheduleMessageResponse>(
-      `/whatsapp-multi-device/devices/${deviceId}/schedule-message`,
-      data
-    );
+    const endpoint = `/whatsapp-multi-device/devices/${deviceId}/schedule-message`;
+
+    if (data.file) {
+      const { file, ...fields } = data;
+      const formData = new FormData();
+      formData.append("file", file);
+      for (const [key, value] of Object.entries(fields)) {
+        if (value === undefined || value === null) continue;
+        // Objects and arrays are parsed back by the backend
+        formData.append(key, typeof value === "object" ? JSON.stringify(value) : String(value));
+      }
+
+      const API_BASE_URL =
+        process.env.NEXT_PUBLIC_API_URL || "http://localhost:5005/api";
+      const token =
+        typeof window !== "undefined" ? await getFreshAuthToken() : null;
+
+      const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+        body: formData,
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw {
+          message: result.message || "Failed to schedule message",
+          status: response.status,
+        } as ApiError;
+      }
+
+      return result.data;
+    }
+
+    const response = await post<ScheduleMessageResponse>(endpoint, data);
 
     if (!response.success || !response.data) {
       throw {
@@ -779,15 +1140,88 @@ export interface ScheduledMessage {
   id: string;
   deviceId: string | null;
   deviceName?: string | null;
-  phoneNumber: string;
+  /** null when the message targets a segment */
+  phoneNumber: string | null;
+  segmentId?: number | null;
+  segmentName?: string | null;
+  /** Group JID when the message targets a group */
+  groupId?: string | null;
+  groupName?: string | null;
+  /** JIDs mentioned in a group text message */
+  mentions?: string[] | null;
+  media?: ScheduledMedia | null;
+  /** Job created when a segment message was sent */
+  jobId?: string | null;
+  /** Text, or the caption of a media message */
   message: string;
+  /** Next run of a recurring message */
   scheduleTime: string;
   status: "pending" | "sent" | "failed" | "cancelled";
   timezone: string;
+  recurrence?: RecurrenceRule | null;
+  missedRunPolicy?: MissedRunPolicy;
+  lastRunAt?: string | null;
+  /** Sent back with an edit; the edit is refused when the message changed since */
+  version: number;
   createdAt: string;
   error?: string;
 }
 
+export interface ScheduledOccurrence {
+  /** Time the series defines for this occurrence; identifies it */
+  occurrenceTime: string;
+  /** Time it will be sent (differs when moved) */
+  scheduleTime: string;
+  message: string;
+  skipped: boolean;
+  edited: boolean;
+}
+
+export type ScheduledMessageEventType =
+  | "scheduled"
+  | "updated"
+  | "sent"
+  | "failed"
+  | "missed"
+  | "skipped"
+  | "edited"
+  | "restored"
+  | "cancelled"
+  | "completed";
+
+export interface ScheduledMessageEvent {
+  id: number;
+  event: ScheduledMessageEventType;
+  /** Occurrence of a recurring message the event is about */
+  occurrenceTime: string | null;
+  detail: string | null;
+  /** Server instance that ran the message */
+  instanceId: string | null;
+  /** User who made the change */
+  userId?: number | null;
+  userName?: string | null;
+  /** Edited fields of an "updated" event */
+  changes?: Record<string, { from: unknown; to: unknown }> | null;
+  createdAt: string;
+}
+
+export interface UpdateOccurrenceRequest {
+  skip?: true;
+  message?: string;
+  scheduleTime?: string;
+}
+
+/** Recipient can only change within its kind (number, group or segment) */
+export interface UpdateScheduledMessageRequest {
+  version: number;
+  message?: string;
+  scheduleTime?: string;
+  timezone?: string;
+  to?: string;
+  groupId?: string;
+  segmentId?: number;
+}
+
 export interface ScheduledMessagesFilter {
   status?: "pending" | "sent" | "failed" | "cancelled";
   search?: string;
@@ -888,45 +1322,176 @@ export async function cancelScheduledMessage(
 }
 
 /**
- * Normalize phone number to Indonesian format (62xxxxxxxxx)
- * Supports: +62, 62, 0 prefixes
+ * Edit a pending scheduled message. Fails with status 409 when it was
+ * changed or started sending since it was loaded.
+ */
+export async function updateScheduledMessage(
+  messageId: string,
+  data: UpdateScheduledMessageRequest
+): Promise<ScheduledMessage> {
+  try {
+    const response = await put<ScheduledMessage>(
+      `/whatsapp-multi-device/scheduled-messages/${messageId}`,
+      data
+    );
+
+    if (!response.success || !response.data) {
+      throw {
+        message: response.message || "Failed to update scheduled message",
+      } as ApiError;
+    }
+
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * First occurrences of a repeat rule, to preview before scheduling
+ */
+export async function previewScheduleOccurrences(data: {
+  scheduleTime: string;
+  timezone: string;
+  recurrence: RecurrenceRule;
+}): Promise<string[]> {
+  try {
+    const response = await post<{ occurrences: string[] }>(
+      "/whatsapp-multi-device/scheduled-messages/preview-occurrences",
+      data
+    );
+
+    if (!response.success || !response.data) {
+      throw {
+        message: response.message || "Failed to preview occurrences",
+      } as ApiError;
+    }
+
+    return response.data.occurrences;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Upcoming occurrences of a recurring scheduled message, skipped ones included
+ */
+export async function getScheduledOccurrences(
+  messageId: string,
+  limit: number = 10
+): Promise<ScheduledOccurrence[]> {
+  try {
+    const response = await get<{ messageId: string; occurrences: ScheduledOccurrence[] }>(
+      `/whatsapp-multi-device/scheduled-messages/${messageId}/occurrences?limit=${limit}`
+    );
+
+    if (!response.success || !response.data) {
+      throw {
+        message: response.message || "Failed to fetch occurrences",
+      } as ApiError;
+    }
+
+    return response.data.occurrences;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Skip or edit one occurrence; the rest of the series is unchanged
  */
-export function normalizePhoneNumber(phone: string): string | null {
-  if (!phone || typeof phone !== "string") {
-    return null;
+export async function updateScheduledOccurrence(
+  messageId: string,
+  occurrenceTime: string,
+  data: UpdateOccurrenceRequest
+): Promise<ScheduledOccurrence> {
+  try {
+    const response = await put<{ occurrence: ScheduledOccurrence }>(
+      `/whatsapp-multi-device/scheduled-messages/${messageId}/occurrences/${encodeURIComponent(occurrenceTime)}`,
+      data
+    );
+
+    if (!response.success || !response.data) {
+      throw {
+        message: response.message || "Failed to update occurrence",
+      } as ApiError;
+    }
+
+    return response.data.occurrence;
+  } catch (error) {
+    throw error;
   }
+}
 
-  let cleaned = phone.trim();
+/**
+ * Undo a skip or edit of one occurrence
+ */
+export async function restoreScheduledOccurrence(
+  messageId: string,
+  occurrenceTime: string
+): Promise<void> {
+  try {
+    const response = await del<{ occurrence: ScheduledOccurrence }>(
+      `/whatsapp-multi-device/scheduled-messages/${messageId}/occurrences/${encodeURIComponent(occurrenceTime)}`
+    );
 
-  // Handle +62 format
-  if (cleaned.startsWith("+62")) {
-    cleaned = cleaned.substring(3);
-  } else if (cleaned.startsWith("62")) {
-    cleaned = cleaned.substring(2);
-  } else if (cleaned.startsWith("0")) {
-    cleaned = cleaned.substring(1);
+    if (!response.success) {
+      throw {
+        message: response.message || "Failed to restore occurrence",
+      } as ApiError;
+    }
+  } catch (error) {
+    throw error;
   }
+}
+
+/**
+ * Status history of a scheduled message, newest first
+ */
+export async function getScheduledMessageHistory(messageId: string): Promise<ScheduledMessageEvent[]> {
+  try {
+    const response = await get<{ messageId: string; events: ScheduledMessageEvent[] }>(
+      `/whatsapp-multi-device/scheduled-messages/${messageId}/history`
+    );
 
-  // Remove all non-digit characters
-  cleaned = cleaned.replace(/\D/g, "");
+    if (!response.success || !response.data) {
+      throw {
+        message: response.message || "Failed to fetch message history",
+      } as ApiError;
+    }
 
-  // Validate: should be 8-13 digits after normalization
-  if (cleaned.length < 8 || cleaned.length > 13) {
-    return null;
+    return response.data.events;
+  } catch (error) {
+    throw error;
   }
+}
 
-  return "62" + cleaned;
+/**
+ * Normalize phone number to E.164 digits (e.g. 6281234567890)
+ * Numbers without a calling code are read using defaultCountry.
+ */
+export function normalizePhoneNumber(
+  phone: string,
+  defaultCountry: string = DEFAULT_COUNTRY
+): string | null {
+  return normalizeE164(phone, defaultCountry);
 }
 
 /**
  * Parse multiple phone numbers from text input
- * Returns { valid: string[], invalid: string[], duplicates: string[] }
+ * Returns { valid, invalid, duplicates, normalized, reinterpreted }
+ * `reinterpreted` lists numbers that were not written in full international
+ * form and were completed using the default country (or a guessed calling code).
  */
-export function parsePhoneNumbers(input: string): {
+export function parsePhoneNumbers(
+  input: string,
+  defaultCountry: string = DEFAULT_COUNTRY
+): {
   valid: string[];
   invalid: string[];
   duplicates: string[];
   normalized: Map<string, string>;
+  reinterpreted: { input: string; normalized: string }[];
 } {
   const lines = input
     .split(/[\n,;]+/)
@@ -937,22 +1502,26 @@ export function parsePhoneNumbers(input: string): {
   const invalid: string[] = [];
   const duplicates: string[] = [];
   const normalized = new Map<string, string>();
+  const reinterpreted: { input: string; normalized: string }[] = [];
   const seen = new Set<string>();
 
   for (const line of lines) {
-    const norm = normalizePhoneNumber(line);
-    if (!norm) {
+    const parsed = parsePhoneNumber(line, defaultCountry);
+    if (!parsed) {
       invalid.push(line);
-    } else if (seen.has(norm)) {
+    } else if (seen.has(parsed.digits)) {
       duplicates.push(line);
     } else {
-      seen.add(norm);
+      seen.add(parsed.digits);
       valid.push(line);
-      normalized.set(line, norm);
+      normalized.set(line, parsed.digits);
+      if (parsed.reinterpreted) {
+        reinterpreted.push({ input: line, normalized: parsed.digits });
+      }
     }
   }
 
-  return { valid, invalid, duplicates, normalized };
+  return { valid, invalid, duplicates, normalized, reinterpreted };
 }
 
 // ============================================
@@ -1015,6 +1584,30 @@ export async function saveUserContact(
   }
 }
 
+/**
+ * Import contacts in bulk, merging into existing contacts by phone number
+ */
+export async function importContacts(
+  data: ImportContactsRequest
+): Promise<ImportContactsResult> {
+  try {
+    const response = await post<ImportContactsResult>(
+      "/whatsapp-multi-device/contacts/import",
+      data
+    );
+
+    if (!response.success || !response.data) {
+      throw {
+        message: response.message || "Failed to import contacts",
+      } as ApiError;
+    }
+
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+}
+
 /**
  * Update tags for a specific contact
  */
@@ -1061,6 +1654,463 @@ export async function getUserTags(): Promise<UserTagsResponse> {
   }
 }
 
+// ============================================
+// Audience Segments
+// ============================================
+
+// Checked against segments.customFieldOperators in sharedConstants.json
+export type CustomFieldOperator = "equals" | "not_equals" | "contains" | "exists" | "not_exists";
+
+export const MAX_SEGMENT_RECIPIENTS = sharedConstants.segments.maxRecipients;
+
+export interface CustomFieldRule {
+  key: string;
+  operator: CustomFieldOperator;
+  value: string;
+}
+
+export interface SegmentRules {
+  includeTags: string[];
+  /** Whether a contact needs any or all of includeTags */
+  includeMatch: "any" | "all";
+  excludeTags: string[];
+  deviceId: string | null;
+  /** Contacts with a message in the last N days */
+  lastMessageWithinDays: number | null;
+  /** Contacts without a message for N days (or never) */
+  lastMessageOlderThanDays: number | null;
+  customFields: CustomFieldRule[];
+}
+
+export interface AudienceSegment {
+  id: number;
+  name: string;
+  description?: string | null;
+  rules: SegmentRules;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SaveSegmentRequest {
+  name: string;
+  description?: string | null;
+  rules: SegmentRules;
+}
+
+export interface SegmentPreview {
+  count: number;
+  /** Contacts missing a {{variable}} of the previewed message */
+  incomplete: number;
+  sample: { id: number; name: string; phoneNumber: string }[];
+  max: number;
+}
+
+export interface SegmentJobResponse {
+  jobId: string;
+  status: string;
+  total: number;
+  segmentId: number;
+  skipped: { invalid: number; incomplete: number };
+}
+
+export const EMPTY_SEGMENT_RULES: SegmentRules = {
+  includeTags: [],
+  includeMatch: "any",
+  excludeTags: [],
+  deviceId: null,
+  lastMessageWithinDays: null,
+  lastMessageOlderThanDays: null,
+  customFields: [],
+};
+
+/**
+ * List saved audience segments
+ */
+export async function getSegments(): Promise<AudienceSegment[]> {
+  try {
+    const response = await get<{ segments: AudienceSegment[]; count: number }>(
+      "/whatsapp-multi-device/segments"
+    );
+
+    if (!response.success || !response.data) {
+      throw { message: response.message || "Failed to fetch segments" } as ApiError;
+    }
+
+    return response.data.segments;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Create an audience segment
+ */
+export async function createSegment(data: SaveSegmentRequest): Promise<AudienceSegment> {
+  try {
+    const response = await post<AudienceSegment>("/whatsapp-multi-device/segments", data);
+
+    if (!response.success || !response.data) {
+      throw { message: response.message || "Failed to create segment" } as ApiError;
+    }
+
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Update an audience segment
+ */
+export async function updateSegment(
+  segmentId: number,
+  data: SaveSegmentRequest
+): Promise<AudienceSegment> {
+  try {
+    const response = await put<AudienceSegment>(
+      `/whatsapp-multi-device/segments/${segmentId}`,
+      data
+    );
+
+    if (!response.success || !response.data) {
+      throw { message: response.message || "Failed to update segment" } as ApiError;
+    }
+
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Delete an audience segment
+ */
+export async function deleteSegment(segmentId: number): Promise<void> {
+  try {
+    const response = await del<null>(`/whatsapp-multi-device/segments/${segmentId}`);
+
+    if (!response.success) {
+      throw { message: response.message || "Failed to delete segment" } as ApiError;
+    }
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Count the contacts that match segment rules (saved or not)
+ * @param message - Also count contacts missing one of its {{variables}}
+ */
+export async function previewSegment(rules: SegmentRules, message = ""): Promise<SegmentPreview> {
+  try {
+    const response = await post<SegmentPreview>("/whatsapp-multi-device/segments/preview", {
+      rules,
+      message,
+    });
+
+    if (!response.success || !response.data) {
+      throw { message: response.message || "Failed to count segment" } as ApiError;
+    }
+
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Create a send-text job for every contact in a segment.
+ * The message is rendered per contact ({{name}}, {{phone}}, {{email}}, custom fields).
+ */
+export async function createSegmentJob(
+  deviceId: string,
+  data: { segmentId: number; message: string; delay: number }
+): Promise<SegmentJobResponse> {
+  try {
+    const response = await post<SegmentJobResponse>(
+      `/whatsapp-multi-device/devices/${encodeURIComponent(deviceId)}/jobs/send-text`,
+      data
+    );
+
+    if (!response.success || !response.data) {
+      throw { message: response.message || "Failed to create job" } as ApiError;
+    }
+
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+}
+
+// ============================================
+// Suppression (Opt-out) List
+// ============================================
+
+export const MAX_SUPPRESSION_IMPORT = sharedConstants.suppression.maxImportNumbers;
+
+export interface Suppression {
+  id: number;
+  phoneNumber: string;
+  source: "keyword" | "manual" | "import";
+  deviceId: string | null;
+  keyword: string | null;
+  reason: string | null;
+  createdAt: string;
+}
+
+export interface SuppressionsResponse {
+  suppressions: Suppression[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface ImportSuppressionsResult {
+  total: number;
+  added: number;
+  existing: number;
+  invalid: string[];
+}
+
+/**
+ * Get the suppression list (newest first)
+ */
+export async function getSuppressions(
+  filters: { search?: string; limit?: number; offset?: number } = {}
+): Promise<SuppressionsResponse> {
+  try {
+    const params = new URLSearchParams();
+    if (filters.search) params.append("search", filters.search);
+    if (filters.limit) params.append("limit", filters.limit.toString());
+    if (filters.offset) params.append("offset", filters.offset.toString());
+
+    const queryString = params.toString();
+    const response = await get<SuppressionsResponse>(
+      `/whatsapp-multi-device/suppressions${queryString ? `?${queryString}` : ""}`
+    );
+
+    if (!response.success || !response.data) {
+      throw { message: response.message || "Failed to fetch opt-out list" } as ApiError;
+    }
+
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Add a number to the suppression list
+ */
+export async function addSuppression(phoneNumber: string, reason?: string): Promise<Suppression> {
+  try {
+    const response = await post<Suppression>("/whatsapp-multi-device/suppressions", {
+      phoneNumber,
+      reason,
+    });
+
+    if (!response.success || !response.data) {
+      throw { message: response.message || "Failed to add number" } as ApiError;
+    }
+
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Add many numbers to the suppression list
+ */
+export async function importSuppressions(
+  numbers: string[],
+  reason?: string
+): Promise<ImportSuppressionsResult> {
+  try {
+    const response = await post<ImportSuppressionsResult>(
+      "/whatsapp-multi-device/suppressions/import",
+      { numbers, reason }
+    );
+
+    if (!response.success || !response.data) {
+      throw { message: response.message || "Failed to import opt-out list" } as ApiError;
+    }
+
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Remove a number from the suppression list
+ */
+export async function removeSuppression(phoneNumber: string): Promise<void> {
+  try {
+    const response = await del<null>(
+      `/whatsapp-multi-device/suppressions/${encodeURIComponent(phoneNumber)}`
+    );
+
+    if (!response.success) {
+      throw { message: response.message || "Failed to remove number" } as ApiError;
+    }
+  } catch (error) {
+    throw error;
+  }
+}
+
+// ============================================
+// Campaigns (A/B message variants)
+// ============================================
+
+export const MAX_CAMPAIGN_VARIANTS = sharedConstants.campaigns.variantKeys.length;
+export const MAX_CAMPAIGN_NUMBERS = sharedConstants.campaigns.maxNumbers;
+
+export type CampaignStatus = "running" | "paused" | "completed" | "cancelled";
+
+export interface CampaignVariant {
+  key: string;
+  message: string;
+}
+
+export interface Campaign {
+  id: string;
+  name: string;
+  deviceId: string;
+  variants: CampaignVariant[];
+  audience:
+    | { type: "segment"; segmentId: number; segmentName: string }
+    | { type: "numbers"; count: number };
+  status: CampaignStatus;
+  progress: {
+    total: number;
+    sent: number;
+    failed: number;
+    skipped: number;
+  };
+  jobIds: string[];
+  createdAt: string;
+}
+
+export interface CampaignVariantResult extends CampaignVariant {
+  recipients: number;
+  pending: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+  delivered: number;
+  read: number;
+  replied: number;
+  // Percent of sent
+  deliveredRate: number;
+  readRate: number;
+  replyRate: number;
+}
+
+export interface CampaignResults {
+  variants: CampaignVariantResult[];
+  // Cumulative reply rate per variant key, one point per hour after sending
+  timeline: Array<{ hour: number } & Record<string, number>>;
+  replyWindowHours: number;
+}
+
+export interface CampaignDetail extends Campaign {
+  results: CampaignResults;
+}
+
+export interface CreateCampaignRequest {
+  name: string;
+  variants: string[];
+  segmentId?: number;
+  numbers?: string[];
+  delay: number;
+}
+
+export interface CreateCampaignResponse extends Campaign {
+  jobId: string;
+  total: number;
+  skipped: { invalid: number; incomplete: number };
+}
+
+/**
+ * Get the user's campaigns (newest first)
+ */
+export async function getCampaigns(): Promise<Campaign[]> {
+  try {
+    const response = await get<{ campaigns: Campaign[]; count: number }>("/whatsapp-multi-device/campaigns");
+
+    if (!response.success || !response.data) {
+      throw { message: response.message || "Failed to fetch campaigns" } as ApiError;
+    }
+
+    return response.data.campaigns;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Get a campaign with its per-variant results
+ */
+export async function getCampaign(campaignId: string): Promise<CampaignDetail> {
+  try {
+    const response = await get<CampaignDetail>(
+      `/whatsapp-multi-device/campaigns/${encodeURIComponent(campaignId)}`
+    );
+
+    if (!response.success || !response.data) {
+      throw { message: response.message || "Failed to fetch campaign" } as ApiError;
+    }
+
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Create a campaign. With more than one variant the audience is split evenly
+ * between them at random.
+ */
+export async function createCampaign(
+  deviceId: string,
+  data: CreateCampaignRequest
+): Promise<CreateCampaignResponse> {
+  try {
+    const response = await post<CreateCampaignResponse>(
+      `/whatsapp-multi-device/devices/${encodeURIComponent(deviceId)}/campaigns`,
+      data
+    );
+
+    if (!response.success || !response.data) {
+      throw { message: response.message || "Failed to create campaign" } as ApiError;
+    }
+
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Cancel the messages of a campaign that have not been sent yet
+ */
+export async function cancelCampaign(campaignId: string): Promise<Campaign> {
+  try {
+    const response = await post<Campaign>(
+      `/whatsapp-multi-device/campaigns/${encodeURIComponent(campaignId)}/cancel`
+    );
+
+    if (!response.success || !response.data) {
+      throw { message: response.message || "Failed to cancel campaign" } as ApiError;
+    }
+
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+}
+
 // ============================================
 // Message Templates
 // ============================================
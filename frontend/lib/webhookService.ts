@@ -0,0 +1,206 @@
+import { get, post, put, del, ApiError } from "./api";
+
+const API_PREFIX = "/webhooks/devices";
+
+export type WebhookEvent =
+  | "message.received"
+  | "message.status"
+  | "job.progress"
+  | "job.completed"
+  | "device.connected"
+  | "device.disconnected"
+  | "handoff.started"
+  | "flow.completed";
+
+export type WebhookDeliveryStatus = "pending" | "success" | "failed";
+
+export interface Webhook {
+  id: number;
+  userId: number;
+  deviceId: string;
+  url: string;
+  events: WebhookEvent[];
+  description: string | null;
+  isActive: boolean;
+  lastDeliveryAt: string | null;
+  lastDeliveryStatus: "success" | "failed" | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: number;
+  event: WebhookEvent | "test";
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  responseStatus: number | null;
+  error: string | null;
+  durationMs: number | null;
+  deliveredAt: string | null;
+  createdAt: string;
+}
+
+export interface WebhookRequest {
+  url: string;
+  events: WebhookEvent[];
+  description?: string | null;
+  isActive?: boolean;
+}
+
+export interface ListWebhooksResponse {
+  webhooks: Webhook[];
+  events: WebhookEvent[];
+}
+
+export interface ListDeliveriesResponse {
+  deliveries: WebhookDelivery[];
+  maxAttempts: number;
+}
+
+const devicePath = (deviceId: string) =>
+  `${API_PREFIX}/${encodeURIComponent(deviceId)}`;
+
+/**
+ * Webhook Service
+ * Handles API calls for per-device outbound webhooks
+ */
+export const webhookService = {
+  /**
+   * List webhooks of a device together with the events it can subscribe to
+   */
+  getWebhooks: async (deviceId: string): Promise<ListWebhooksResponse> => {
+    const response = await get<ListWebhooksResponse>(devicePath(deviceId));
+
+    if (!response.success || !response.data) {
+      throw {
+        message: response.message || "Failed to fetch webhooks",
+      } as ApiError;
+    }
+
+    return response.data;
+  },
+
+  /**
+   * Create a webhook. The returned secret is only shown once.
+   */
+  createWebhook: async (
+    deviceId: string,
+    data: WebhookRequest
+  ): Promise<{ webhook: Webhook; secret: string }> => {
+    const response = await post<{ webhook: Webhook; secret: string }>(
+      devicePath(deviceId),
+      data
+    );
+
+    if (!response.success || !response.data) {
+      throw {
+        message: response.message || "Failed to create webhook",
+      } as ApiError;
+    }
+
+    return response.data;
+  },
+
+  updateWebhook: async (
+    deviceId: string,
+    webhookId: number,
+    data: Partial<WebhookRequest>
+  ): Promise<Webhook> => {
+    const response = await put<Webhook>(
+      `${devicePath(deviceId)}/${webhookId}`,
+      data
+    );
+
+    if (!response.success || !response.data) {
+      throw {
+        message: response.message || "Failed to update webhook",
+      } as ApiError;
+    }
+
+    return response.data;
+  },
+
+  deleteWebhook: async (deviceId: string, webhookId: number): Promise<void> => {
+    const response = await del(`${devicePath(deviceId)}/${webhookId}`);
+
+    if (!response.success) {
+      throw {
+        message: response.message || "Failed to delete webhook",
+      } as ApiError;
+    }
+  },
+
+  rotateSecret: async (deviceId: string, webhookId: number): Promise<string> => {
+    const response = await post<{ secret: string }>(
+      `${devicePath(deviceId)}/${webhookId}/rotate-secret`
+    );
+
+    if (!response.success || !response.data) {
+      throw {
+        message: response.message || "Failed to rotate secret",
+      } as ApiError;
+    }
+
+    return response.data.secret;
+  },
+
+  /**
+   * Send a test event; resolves with the recorded delivery (which may have failed)
+   */
+  sendTestEvent: async (
+    deviceId: string,
+    webhookId: number
+  ): Promise<{ delivery: WebhookDelivery; message: string }> => {
+    const response = await post<WebhookDelivery>(
+      `${devicePath(deviceId)}/${webhookId}/test`
+    );
+
+    if (!response.success || !response.data) {
+      throw {
+        message: response.message || "Failed to send test event",
+      } as ApiError;
+    }
+
+    return { delivery: response.data, message: response.message || "" };
+  },
+
+  getDeliveries: async (
+    deviceId: string,
+    webhookId: number,
+    status?: WebhookDeliveryStatus
+  ): Promise<ListDeliveriesResponse> => {
+    const query = status ? `?status=${status}` : "";
+    const response = await get<ListDeliveriesResponse>(
+      `${devicePath(deviceId)}/${webhookId}/deliveries${query}`
+    );
+
+    if (!response.success || !response.data) {
+      throw {
+        message: response.message || "Failed to fetch deliveries",
+      } as ApiError;
+    }
+
+    return response.data;
+  },
+
+  redeliver: async (
+    deviceId: string,
+    webhookId: number,
+    deliveryId: string
+  ): Promise<WebhookDelivery> => {
+    const response = await post<WebhookDelivery>(
+      `${devicePath(deviceId)}/${webhookId}/deliveries/${deliveryId}/redeliver`
+    );
+
+    if (!response.success || !response.data) {
+      throw {
+        message: response.message || "Failed to redeliver",
+      } as ApiError;
+    }
+
+    return response.data;
+  },
+};
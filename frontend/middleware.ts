@@ -1,61 +1,126 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import { jwtVerify } from 'jose';
+import { jwtVerify, errors as joseErrors } from 'jose';
 
-// Use a default secret if env is missing during build, but ideally should be present.
-// Note: NEXT_PUBLIC_ variables are for browser, process.env for Node/Edge.
-// CRITICAL FIX: Hardcoding secret to ensure Edge Runtime consistency
-const SECRET_KEY = new TextEncoder().encode('whatsapp-service-secret-key-2024-development');
+/**
+ * Edge Middleware - Session validation
+ *
+ * Verifies the HttpOnly `token` cookie set by the backend before any
+ * protected page is rendered.
+ *
+ * Keys are read from server-side configuration (never NEXT_PUBLIC_):
+ * - JWT_SECRET           - current signing secret (must match the backend)
+ * - JWT_PREVIOUS_SECRETS - comma-separated secrets still accepted during rotation
+ */
 
-export async function middleware(request: NextRequest) {
-  // 1. Check for 'token' cookie
-  const token = request.cookies.get('token')?.value;
-  
-  // Debug Logging
-  if (request.nextUrl.pathname.startsWith('/dashboard') || request.nextUrl.pathname.startsWith('/admin')) {
-      console.log(`[Middleware] Path: ${request.nextUrl.pathname}`);
-      console.log(`[Middleware] Token in Cookie: ${token ? 'YES' : 'NO'}`);
-      console.log(`[Middleware] Secret Length: ${SECRET_KEY.length}`);
-  }
+const USER_PATHS = [
+  '/dashboard',
+  '/devices',
+  '/send-message',
+  '/chat-blast',
+  '/chat-history',
+  '/schedule-message',
+  '/contacts',
+  '/groups',
+  '/jobs',
+  '/campaigns',
+  '/handoffs',
+  '/activity',
+  '/analytics',
+  '/profile',
+  '/settings',
+];
+
+const ADMIN_PATHS = ['/admin'];
+
+const encoder = new TextEncoder();
+
+/**
+ * Collect every key that may have signed a currently valid token.
+ * The current secret is tried first so the common case needs one verify.
+ */
+function getVerificationKeys(): Uint8Array[] {
+  const secrets = [
+    process.env.JWT_SECRET,
+    ...(process.env.JWT_PREVIOUS_SECRETS || '').split(','),
+  ]
+    .map((secret) => secret?.trim())
+    .filter((secret): secret is string => !!secret);
+
+  return Array.from(new Set(secrets)).map((secret) => encoder.encode(secret));
+}
 
-  // 2. Define protected paths
-  const isProtectedPath = 
-    request.nextUrl.pathname.startsWith('/dashboard') || 
-    request.nextUrl.pathname.startsWith('/admin') ||
-    request.nextUrl.pathname.startsWith('/devices');
-
-  // 3. If no token on protected path -> Redirect to Login
-  if (isProtectedPath && !token) {
-    const loginUrl = new URL('/auth/login', request.url);
-    // Optional: Add ?callbackUrl=... 
-    return NextResponse.redirect(loginUrl);
+function matchesPath(pathname: string, paths: string[]): boolean {
+  return paths.some((path) => pathname === path || pathname.startsWith(`${path}/`));
+}
+
+/**
+ * Verify the token against each active key. Returns the payload of the
+ * first key that accepts it, or null when none does.
+ */
+async function verifySession(token: string) {
+  const keys = getVerificationKeys();
+
+  if (keys.length === 0) {
+    console.error('[Middleware] JWT_SECRET is not configured; rejecting all sessions');
+    return null;
   }
 
-  // 4. If token exists, verify it
-  if (token) {
+  for (const key of keys) {
     try {
-      const { payload } = await jwtVerify(token, SECRET_KEY);
-      
-      // 5. Admin Guard
-      if (request.nextUrl.pathname.startsWith('/admin')) {
-         if (payload.role !== 'admin') {
-            // User trying to access Admin -> Redirect to Dashboard or 403
-            return NextResponse.redirect(new URL('/dashboard', request.url));
-         }
-      }
-      
-      // Token valid, allow request
-      return NextResponse.next();
-
+      const { payload } = await jwtVerify(token, key, { algorithms: ['HS256'] });
+      return payload;
     } catch (error) {
-      // Token invalid/expired
-      if (isProtectedPath) {
-         return NextResponse.redirect(new URL('/auth/login', request.url));
+      // Only a signature mismatch means "try the next key"; expiry or a
+      // malformed token will fail the same way for every key.
+      if (!(error instanceof joseErrors.JWSSignatureVerificationFailed)) {
+        return null;
       }
-      // If not protected path (e.g. public home), just continue (maybe just expired session state)
-      return NextResponse.next();
     }
   }
+
+  return null;
+}
+
+function redirectToLogin(request: NextRequest, clearCookie: boolean) {
+  const loginUrl = new URL('/auth/login', request.url);
+  const { pathname, search } = request.nextUrl;
+  loginUrl.searchParams.set('callbackUrl', `${pathname}${search}`);
+
+  const response = NextResponse.redirect(loginUrl);
+  if (clearCookie) {
+    response.cookies.delete('token');
+  }
+  return response;
+}
+
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const isAdminPath = matchesPath(pathname, ADMIN_PATHS);
+  const isProtectedPath = isAdminPath || matchesPath(pathname, USER_PATHS);
+
+  if (!isProtectedPath) {
+    return NextResponse.next();
+  }
+
+  // 1. No session cookie -> Login
+  const token = request.cookies.get('token')?.value;
+  if (!token) {
+    return redirectToLogin(request, false);
+  }
+
+  // 2. Invalid / expired / unknown-key session -> Login (and drop the cookie)
+  const payload = await verifySession(token);
+  if (!payload) {
+    return redirectToLogin(request, true);
+  }
+
+  // 3. Admin Guard
+  if (isAdminPath && payload.role !== 'admin') {
+    return NextResponse.redirect(new URL('/dashboard', request.url));
+  }
+
+  return NextResponse.next();
 }
 
 export const config = {
@@ -63,7 +128,18 @@ export const config = {
     '/dashboard/:path*',
     '/admin/:path*',
     '/devices/:path*',
-    // Exclude API routes, static files, auth routes
-    // '/((?!api|_next/static|_next/image|favicon.ico|auth).*)',
+    '/send-message/:path*',
+    '/chat-blast/:path*',
+    '/chat-history/:path*',
+    '/schedule-message/:path*',
+    '/contacts/:path*',
+    '/groups/:path*',
+    '/jobs/:path*',
+    '/campaigns/:path*',
+    '/handoffs/:path*',
+    '/activity/:path*',
+    '/analytics/:path*',
+    '/profile/:path*',
+    '/settings/:path*',
   ],
 };
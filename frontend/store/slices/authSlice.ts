@@ -1,5 +1,9 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import { login as loginService } from '@/lib/authService';
+import {
+  login as loginService,
+  logout as logoutService,
+  verifyTwoFactorLogin as verifyTwoFactorLoginService,
+} from '@/lib/authService';
 import { clearAuthTokens } from '@/lib/api';
 import { ApiError } from '@/lib/api';
 
@@ -21,8 +25,10 @@ export interface User {
   profilePhoto?: string;
   phoneNumber?: string;
   bio?: string;
+  defaultCountry?: string;
   role: 'admin' | 'user';
   isActive: boolean;
+  twoFactorEnabled?: boolean;
   avatar?: string;
 }
 
@@ -32,6 +38,7 @@ interface AuthState {
   loading: boolean;
   error: string | null;
   isHydrated: boolean; // Track if we've hydrated from localStorage
+  twoFactorChallenge: string | null; // Pending 2FA challenge token after password step
 }
 
 // Initial state is ALWAYS unauthenticated for SSR consistency
@@ -41,6 +48,7 @@ const initialState: AuthState = {
   loading: false,
   error: null,
   isHydrated: false,
+  twoFactorChallenge: null,
 };
 
 /**
@@ -51,6 +59,11 @@ export const loginAsync = createAsyncThunk(
   async (credentials: { email: string; password: string }, { rejectWithValue }) => {
     try {
       const response = await loginService(credentials);
+
+      // 2FA enabled: no user/tokens yet, the challenge is completed separately
+      if ('requiresTwoFactor' in response) {
+        return response;
+      }
       
       // Store user in localStorage
       if (typeof window !== 'undefined') {
@@ -64,6 +77,45 @@ export const loginAsync = createAsyncThunk(
   }
 );
 
+/**
+ * Async thunk for the second login step (TOTP or backup code)
+ */
+export const verifyTwoFactorAsync = createAsyncThunk(
+  'auth/verifyTwoFactor',
+  async (code: string, { getState, rejectWithValue }) => {
+    const { auth } = getState() as { auth: AuthState };
+    if (!auth.twoFactorChallenge) {
+      return rejectWithValue('Verification expired. Please log in again.');
+    }
+
+    try {
+      const response = await verifyTwoFactorLoginService({
+        challengeToken: auth.twoFactorChallenge,
+        code,
+      });
+
+      if (typeof window !== 'undefined') {
+        localStorage.setItem('user', JSON.stringify(response.user));
+      }
+
+      return response;
+    } catch (error) {
+      return rejectWithValue((error as ApiError).message || 'Verification failed');
+    }
+  }
+);
+
+/**
+ * Async thunk for logout: revoke the server session, then clear local state
+ */
+export const logoutAsync = createAsyncThunk(
+  'auth/logoutAsync',
+  async (_, { dispatch }) => {
+    await logoutService();
+    dispatch(authSlice.actions.logout());
+  }
+);
+
 const authSlice = createSlice({
   name: 'auth',
   initialState,
@@ -95,6 +147,7 @@ const authSlice = createSlice({
       state.isAuthenticated = false;
       state.user = null;
       state.error = null;
+      state.twoFactorChallenge = null;
       
       // Clear tokens and user from localStorage
       clearAuthTokens();
@@ -117,6 +170,12 @@ const authSlice = createSlice({
     clearError: (state) => {
       state.error = null;
     },
+
+    // Abandon a pending 2FA challenge and go back to the password step
+    cancelTwoFactor: (state) => {
+      state.twoFactorChallenge = null;
+      state.error = null;
+    },
   },
   extraReducers: (builder) => {
     builder
@@ -128,9 +187,15 @@ const authSlice = createSlice({
       // Login fulfilled
       .addCase(loginAsync.fulfilled, (state, action) => {
         state.loading = false;
+        state.error = null;
+
+        if ('requiresTwoFactor' in action.payload) {
+          state.twoFactorChallenge = action.payload.challengeToken;
+          return;
+        }
+
         state.isAuthenticated = true;
         state.user = action.payload.user;
-        state.error = null;
         state.isHydrated = true;
       })
       // Login rejected
@@ -139,10 +204,27 @@ const authSlice = createSlice({
         state.error = action.payload as string;
         state.isAuthenticated = false;
         state.user = null;
+      })
+      // 2FA verification
+      .addCase(verifyTwoFactorAsync.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(verifyTwoFactorAsync.fulfilled, (state, action) => {
+        state.loading = false;
+        state.isAuthenticated = true;
+        state.user = action.payload.user;
+        state.error = null;
+        state.isHydrated = true;
+        state.twoFactorChallenge = null;
+      })
+      .addCase(verifyTwoFactorAsync.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
       });
   },
 });
 
-export const { logout, updateUser, clearError, hydrateAuth } = authSlice.actions;
+export const { logout, updateUser, clearError, hydrateAuth, cancelTwoFactor } = authSlice.actions;
 export default authSlice.reducer;
 
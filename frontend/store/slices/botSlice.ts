@@ -1,12 +1,15 @@
 import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
-import { get, post, put, del, ApiError } from "../../lib/api";
+import { get, post, put, patch, del, ApiError } from "../../lib/api";
+import type { BusinessHoliday, BusinessHours } from "../../lib/businessHours";
+import type { BotFlow, BotFlowInput } from "../../lib/botFlows";
 
 // Types
 export interface BotConfig {
   deviceId: string;
   botEnabled: boolean;
   timezone: string;
-  businessHours: any[] | null;
+  businessHours: BusinessHours | null;
+  holidays: BusinessHoliday[] | null;
   offHoursMessage: string | null;
   offHoursEnabled: boolean;
   handoffKeywords: string[];
@@ -14,7 +17,15 @@ export interface BotConfig {
   welcomeMessage: string | null;
   handoffMessage: string | null;
   resumeMessage: string | null;
+  optOutKeywords: string[];
+  optInKeywords: string[];
+  optOutMessage: string | null;
+  optInMessage: string | null;
   ignoreGroups: boolean;
+  /** Reject incoming calls automatically */
+  rejectCalls: boolean;
+  /** Text sent to a rejected caller; null = no reply */
+  callRejectMessage: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -33,12 +44,60 @@ export interface AutoReplyRule {
   updatedAt: string;
 }
 
+export type HandoffStatus = "open" | "pending_customer" | "resolved";
+
+export interface HandoffAgent {
+  id: number;
+  name: string;
+}
+
+/** Owner or member of the device owner's workspace */
+export interface WorkspaceAgent {
+  id: number;
+  username: string;
+  fullName: string | null;
+  email: string;
+  role: "owner" | "member";
+}
+
 export interface Handoff {
+  id: number;
+  deviceId: string;
+  /** Only set in the cross-device queue */
+  deviceName?: string;
   senderJid: string;
   phoneNumber: string;
   handoffAt: string;
   reason: string;
   lastActivity: string;
+  /** Flow that handed the conversation over, with the answers it collected */
+  flowName?: string | null;
+  fields?: Record<string, string> | null;
+  status: HandoffStatus;
+  assignee: HandoffAgent | null;
+  assignedAt: string | null;
+  noteCount: number;
+}
+
+export interface HandoffNote {
+  id: number;
+  body: string;
+  author: HandoffAgent | null;
+  createdAt: string;
+}
+
+export interface HandoffQueueFilters {
+  assignee?: "me" | "unassigned";
+  status?: Exclude<HandoffStatus, "resolved">;
+}
+
+interface HandoffUpdate {
+  id: number;
+  deviceId: string;
+  senderJid: string;
+  status: HandoffStatus;
+  assignee: HandoffAgent | null;
+  assignedAt: string | null;
 }
 
 export interface BotLog {
@@ -55,7 +114,12 @@ export interface BotLog {
 interface BotState {
   config: BotConfig | null;
   rules: AutoReplyRule[];
+  flows: BotFlow[];
   handoffs: Handoff[];
+  /** Handoffs across every device the user works on */
+  queue: Handoff[];
+  /** Agents per device, for assigning handoffs */
+  agents: Record<string, WorkspaceAgent[]>;
   logs: BotLog[];
   stats: {
     botEnabled: boolean;
@@ -65,7 +129,9 @@ interface BotState {
   loading: {
     config: boolean;
     rules: boolean;
+    flows: boolean;
     handoffs: boolean;
+    queue: boolean;
     logs: boolean;
     stats: boolean;
   };
@@ -75,13 +141,18 @@ interface BotState {
 const initialState: BotState = {
   config: null,
   rules: [],
+  flows: [],
   handoffs: [],
+  queue: [],
+  agents: {},
   logs: [],
   stats: null,
   loading: {
     config: false,
     rules: false,
+    flows: false,
     handoffs: false,
+    queue: false,
     logs: false,
     stats: false,
   },
@@ -180,6 +251,64 @@ export const deleteRule = createAsyncThunk(
   }
 );
 
+export const fetchFlows = createAsyncThunk(
+  "bot/fetchFlows",
+  async (deviceId: string, { rejectWithValue }) => {
+    try {
+      const response = await get<BotFlow[]>(`/bot/devices/${deviceId}/flows`);
+      if (!response.success) throw new Error(response.message);
+      return response.data;
+    } catch (error) {
+      return rejectWithValue((error as Error).message || "Failed to fetch flows");
+    }
+  }
+);
+
+export const createFlow = createAsyncThunk(
+  "bot/createFlow",
+  async (
+    { deviceId, flow }: { deviceId: string; flow: BotFlowInput },
+    { rejectWithValue }
+  ) => {
+    try {
+      const response = await post<BotFlow>(`/bot/devices/${deviceId}/flows`, flow);
+      if (!response.success) throw new Error(response.message);
+      return response.data;
+    } catch (error) {
+      return rejectWithValue((error as Error).message || "Failed to create flow");
+    }
+  }
+);
+
+export const updateFlow = createAsyncThunk(
+  "bot/updateFlow",
+  async (
+    { deviceId, flowId, flow }: { deviceId: string; flowId: number; flow: Partial<BotFlowInput> },
+    { rejectWithValue }
+  ) => {
+    try {
+      const response = await put<BotFlow>(`/bot/devices/${deviceId}/flows/${flowId}`, flow);
+      if (!response.success) throw new Error(response.message);
+      return response.data;
+    } catch (error) {
+      return rejectWithValue((error as Error).message || "Failed to update flow");
+    }
+  }
+);
+
+export const deleteFlow = createAsyncThunk(
+  "bot/deleteFlow",
+  async ({ deviceId, flowId }: { deviceId: string; flowId: number }, { rejectWithValue }) => {
+    try {
+      const response = await del(`/bot/devices/${deviceId}/flows/${flowId}`);
+      if (!response.success) throw new Error(response.message);
+      return flowId;
+    } catch (error) {
+      return rejectWithValue((error as Error).message || "Failed to delete flow");
+    }
+  }
+);
+
 export const fetchHandoffs = createAsyncThunk(
   "bot/fetchHandoffs",
   async (deviceId: string, { rejectWithValue }) => {
@@ -214,6 +343,86 @@ export const resumeHandoff = createAsyncThunk(
   }
 );
 
+export const fetchHandoffQueue = createAsyncThunk(
+  "bot/fetchHandoffQueue",
+  async (filters: HandoffQueueFilters, { rejectWithValue }) => {
+    try {
+      const params = new URLSearchParams();
+      if (filters.assignee) params.set("assignee", filters.assignee);
+      if (filters.status) params.set("status", filters.status);
+      const query = params.toString();
+      const response = await get<{ handoffs: Handoff[] }>(
+        `/bot/handoffs${query ? `?${query}` : ""}`
+      );
+      if (!response.success || !response.data) throw new Error(response.message);
+      return response.data.handoffs;
+    } catch (error) {
+      return rejectWithValue((error as Error).message || "Failed to fetch handoff queue");
+    }
+  }
+);
+
+export const fetchHandoffAgents = createAsyncThunk(
+  "bot/fetchHandoffAgents",
+  async (deviceId: string, { rejectWithValue }) => {
+    try {
+      const response = await get<{ agents: WorkspaceAgent[] }>(
+        `/bot/devices/${deviceId}/agents`
+      );
+      if (!response.success || !response.data) throw new Error(response.message);
+      return { deviceId, agents: response.data.agents };
+    } catch (error) {
+      return rejectWithValue((error as Error).message || "Failed to fetch agents");
+    }
+  }
+);
+
+export const updateHandoff = createAsyncThunk(
+  "bot/updateHandoff",
+  async (
+    {
+      handoffId,
+      ...changes
+    }: { handoffId: number; assignedTo?: number | null; status?: HandoffStatus },
+    { rejectWithValue }
+  ) => {
+    try {
+      const response = await patch<HandoffUpdate>(`/bot/handoffs/${handoffId}`, changes);
+      if (!response.success || !response.data) throw new Error(response.message);
+      return response.data;
+    } catch (error) {
+      return rejectWithValue((error as Error).message || "Failed to update handoff");
+    }
+  }
+);
+
+export const fetchHandoffNotes = createAsyncThunk(
+  "bot/fetchHandoffNotes",
+  async (handoffId: number, { rejectWithValue }) => {
+    try {
+      const response = await get<{ notes: HandoffNote[] }>(`/bot/handoffs/${handoffId}/notes`);
+      if (!response.success || !response.data) throw new Error(response.message);
+      return response.data.notes;
+    } catch (error) {
+      return rejectWithValue((error as Error).message || "Failed to fetch notes");
+    }
+  }
+);
+
+/** Internal note; never sent to the customer */
+export const addHandoffNote = createAsyncThunk(
+  "bot/addHandoffNote",
+  async ({ handoffId, body }: { handoffId: number; body: string }, { rejectWithValue }) => {
+    try {
+      const response = await post<HandoffNote>(`/bot/handoffs/${handoffId}/notes`, { body });
+      if (!response.success || !response.data) throw new Error(response.message);
+      return { handoffId, note: response.data };
+    } catch (error) {
+      return rejectWithValue((error as Error).message || "Failed to add note");
+    }
+  }
+);
+
 export const fetchLogs = createAsyncThunk(
   "bot/fetchLogs",
   async (
@@ -253,6 +462,7 @@ const botSlice = createSlice({
     clearBotState: (state) => {
       state.config = null;
       state.rules = [];
+      state.flows = [];
       state.handoffs = [];
       state.logs = [];
       state.error = null;
@@ -315,6 +525,41 @@ const botSlice = createSlice({
         }
       });
 
+    // Flows
+    builder
+      .addCase(fetchFlows.pending, (state) => {
+        state.loading.flows = true;
+      })
+      .addCase(fetchFlows.fulfilled, (state, action) => {
+        state.loading.flows = false;
+        if (action.payload) {
+          state.flows = action.payload;
+        }
+      })
+      .addCase(fetchFlows.rejected, (state, action) => {
+        state.loading.flows = false;
+        state.error = action.payload as string;
+      })
+      .addCase(createFlow.fulfilled, (state, action) => {
+        if (action.payload) {
+          state.flows.unshift(action.payload);
+        }
+      })
+      .addCase(updateFlow.fulfilled, (state, action) => {
+        const flow = action.payload;
+        if (flow) {
+          const index = state.flows.findIndex((f) => f.id === flow.id);
+          if (index !== -1) {
+            state.flows[index] = flow;
+          }
+        }
+      })
+      .addCase(deleteFlow.fulfilled, (state, action) => {
+        if (action.payload) {
+          state.flows = state.flows.filter((f) => f.id !== action.payload);
+        }
+      });
+
     // Handoffs
     builder
       .addCase(fetchHandoffs.pending, (state) => {
@@ -326,6 +571,34 @@ const botSlice = createSlice({
       })
       .addCase(resumeHandoff.fulfilled, (state, action) => {
         state.handoffs = state.handoffs.filter((h) => h.senderJid !== action.payload);
+      })
+      .addCase(fetchHandoffQueue.pending, (state) => {
+        state.loading.queue = true;
+      })
+      .addCase(fetchHandoffQueue.fulfilled, (state, action) => {
+        state.loading.queue = false;
+        state.queue = action.payload;
+      })
+      .addCase(fetchHandoffQueue.rejected, (state) => {
+        state.loading.queue = false;
+      })
+      .addCase(fetchHandoffAgents.fulfilled, (state, action) => {
+        state.agents[action.payload.deviceId] = action.payload.agents;
+      })
+      .addCase(updateHandoff.fulfilled, (state, action) => {
+        const { id, status, assignee, assignedAt } = action.payload;
+        const apply = (list: Handoff[]) =>
+          status === "resolved"
+            ? list.filter((h) => h.id !== id)
+            : list.map((h) => (h.id === id ? { ...h, status, assignee, assignedAt } : h));
+        state.handoffs = apply(state.handoffs);
+        state.queue = apply(state.queue);
+      })
+      .addCase(addHandoffNote.fulfilled, (state, action) => {
+        const { handoffId } = action.payload;
+        const bump = (h: Handoff) => (h.id === handoffId ? { ...h, noteCount: h.noteCount + 1 } : h);
+        state.handoffs = state.handoffs.map(bump);
+        state.queue = state.queue.map(bump);
       });
 
     // Logs
@@ -16,6 +16,9 @@ export type NotificationType =
   | 'scheduled_sent'
   | 'scheduled_failed'
   | 'session_expired'
+  | 'handoff_assigned'
+  | 'missed_call'
+  | 'workspace_invitation'
   | 'info'
   | 'warning'
   | 'error';
@@ -65,7 +68,10 @@ const getPriority = (type: NotificationType): NotificationPriority => {
     case 'error':
       return 'error';
     case 'qr_required':
+    case 'handoff_assigned':
+    case 'workspace_invitation':
       return 'action';
+    case 'missed_call':
     case 'warning':
       return 'warning';
     default: